@@ -5,10 +5,12 @@ import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { NegotiationChatProvider } from "@/components/booking/NegotiationChatToggle";
 import { Sidebar, MobileHeader, MobileBottomNav } from "@/components/Navigation";
-import { Loader2, X } from "lucide-react";
+import { Loader2, MailWarning, UserCog, X } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useResendVerification } from "@/hooks/use-account";
+import { roleLabel, useSwitchRole } from "@/hooks/use-roles";
 
 // Pages
 import Landing from "@/pages/Landing";
@@ -22,6 +24,7 @@ import ArtistDashboard from "@/pages/artist/ArtistDashboard";
 import ArtistBookings from "@/pages/artist/ArtistBookings";
 import ArtistProfile from "@/pages/artist/ArtistProfile";
 import FindGigs from "@/pages/artist/FindGigs";
+import ArtistAvailability from "@/pages/artist/ArtistAvailability";
 
 import ArtistProfileSetup from "@/pages/artist/ProfileSetup";
 
@@ -38,6 +41,7 @@ import OrganizerSetup from "@/pages/organizer/OrganizerSetup";
 import OrganizerEvents from "@/pages/organizer/OrganizerEvents";
 import OrganizerEventCreate from "@/pages/organizer/OrganizerEventCreate";
 import OrganizerEventEdit from "@/pages/organizer/OrganizerEventEdit";
+import OrganizerEventTickets from "@/pages/organizer/OrganizerEventTickets";
 import OrganizerMessages from "@/pages/organizer/OrganizerMessages";
 import OrganizerBookings from "@/pages/organizer/OrganizerBookings";
 import OrganizerProfile from "@/pages/organizer/OrganizerProfile";
@@ -48,6 +52,8 @@ import VenueApplications from "@/pages/venue/VenueApplications";
 import Dashboard from "@/pages/Dashboard";
 import Bookings from "@/pages/Bookings";
 import Profile from "@/pages/Profile";
+import Tickets from "@/pages/Tickets";
+import EventTickets from "@/pages/EventTickets";
 
 // Admin Pages
 import AdminLogin from "@/pages/admin/AdminLogin";
@@ -66,7 +72,11 @@ import AdminEvents from "@/pages/admin/AdminEvents";
 import AdminEventEdit from "@/pages/admin/AdminEventEdit";
 import AdminBookings from "@/pages/admin/AdminBookings";
 import AdminBookingDetail from "@/pages/admin/AdminBookingDetail";
+import AdminDisputes from "@/pages/admin/AdminDisputes";
+import AdminReviews from "@/pages/admin/AdminReviews";
+import AdminDisputeDetail from "@/pages/admin/AdminDisputeDetail";
 import AdminContracts from "@/pages/admin/AdminContracts";
+import AdminContractTemplates from "@/pages/admin/AdminContractTemplates";
 import AdminContractEdit from "@/pages/admin/AdminContractEdit";
 import AdminChats from "@/pages/admin/AdminChats";
 import AdminChatView from "@/pages/admin/AdminChatView";
@@ -74,6 +84,8 @@ import AdminSettings from "@/pages/admin/AdminSettings";
 import AdminAuditLog from "@/pages/admin/AdminAuditLog";
 import AdminNotificationTypes from "@/pages/admin/AdminNotificationTypes";
 import AdminNotificationChannels from "@/pages/admin/AdminNotificationChannels";
+import AdminJobs from "@/pages/admin/AdminJobs";
+import AdminDomainEvents from "@/pages/admin/AdminDomainEvents";
 import AdminAgents from "@/pages/admin/AdminAgents";
 import AdminAgentConfig from "@/pages/admin/AdminAgentConfig";
 import AdminAgentRateLimits from "@/pages/admin/AdminAgentRateLimits";
@@ -81,6 +93,11 @@ import AdminAgentPrompts from "@/pages/admin/AdminAgentPrompts";
 import AdminAgentUsage from "@/pages/admin/AdminAgentUsage";
 import AdminNegotiationAnalytics from "@/pages/admin/AdminNegotiationAnalytics";
 import AgentSettings from "@/pages/settings/AgentSettings";
+import NotificationSettings from "@/pages/settings/NotificationSettings";
+import Organizations from "@/pages/settings/Organizations";
+import SecuritySettings from "@/pages/settings/Security";
+import OrganizationInvite from "@/pages/OrganizationInvite";
+import VerifyContract from "@/pages/VerifyContract";
 import NotificationsPage from "@/pages/Notifications";
 
 // Hook to check profile completion status
@@ -130,16 +147,19 @@ function useOrganizerStatus() {
  * Resolves the canonical user role from the authenticated user object.
  *
  * Resolution order (first match wins):
- *   1. `user.metadata.role` — the role stored at registration time.
- *      Legacy records may store "venue" instead of "venue_manager",
- *      so we normalise that here to keep downstream switch-cases simple.
- *   2. Attached profile entities (`venue`, `organizer`, `artist`) —
- *      populated by the server during login / deserialisation and used
- *      as a fallback when metadata is missing or empty.
- *   3. Hard default: "artist" — safest assumption for the platform.
+ *   1. `user.role` — the active role of this session, chosen from the
+ *      user's assigned roles with the role switcher (or the acting
+ *      profile's role). The server sets it during login / deserialisation.
+ *   2. `user.metadata.role` — the primary role stored at registration time.
+ *   3. Attached profile entities (`venue`, `organizer`, `artist`) —
+ *      populated by the server for the active role and used as a fallback
+ *      when neither is set.
+ *   4. Hard default: "artist" — safest assumption for the platform.
  *
- * This mirrors the server-side normalisation in `server/role-utils.ts`
- * (`normalizeRegistrationRole`) so both layers agree on role values.
+ * Legacy records may store "venue" instead of "venue_manager", so that is
+ * normalised to keep downstream switch-cases simple. This mirrors
+ * `activeRole` in `server/role-resolver.ts` so both layers agree on role
+ * values.
  *
  * @param user - The authenticated user object (typed as `any` because the
  *               shape varies depending on whether profiles have been fetched).
@@ -147,22 +167,58 @@ function useOrganizerStatus() {
  *          (e.g. "artist", "organizer", "venue_manager", "admin").
  */
 function getUserRole(user: any): string {
-  // 1. Prefer the role explicitly stored in user metadata
-  if (user.metadata?.role) {
-    const role = user.metadata.role;
+  // 1-2. Prefer the active role, then the primary role from metadata
+  const role = user.role || user.metadata?.role;
+  if (role) {
     // Normalise legacy "venue" value → "venue_manager" (matches role_name enum)
     return role === 'venue' ? 'venue_manager' : role;
   }
 
-  // 2. Infer role from attached profile entities
+  // 3. Infer role from attached profile entities
   if (user.venue) return 'venue_manager';
   if (user.organizer) return 'organizer';
   if (user.artist) return 'artist';
 
-  // 3. Safe default — most users on the platform are artists
+  // 4. Safe default — most users on the platform are artists
   return 'artist';
 }
 
+// Roles each area of the app is scoped to
+const ARTIST_ROLES = ["artist", "band_manager"];
+const ORGANIZER_ROLES = ["organizer", "promoter"];
+const VENUE_ROLES = ["venue_manager", "venue"];
+
+/**
+ * Whether the user may open a page scoped to `roles`: "active" when the
+ * active role matches, the role to switch to when the user holds a matching
+ * role, or "denied".
+ */
+function roleAccess(user: any, roles: string[]): "active" | "denied" | { switchTo: string } {
+  if (roles.includes(getUserRole(user))) return "active";
+  const held = (user.roles as string[] | undefined)?.find((role) => roles.includes(role));
+  return held ? { switchTo: held } : "denied";
+}
+
+// Replaces a page that belongs to another of the user's roles
+function SwitchRolePrompt({ role }: { role: string }) {
+  const switchRole = useSwitchRole();
+  const label = roleLabel(role);
+
+  return (
+    <div className="flex flex-col items-center justify-center text-center gap-4 py-24">
+      <UserCog className="w-10 h-10 text-muted-foreground" />
+      <div>
+        <h2 className="text-xl font-semibold">This page is for your {label} role</h2>
+        <p className="text-sm text-muted-foreground mt-1">Switch roles to manage your {label.toLowerCase()} work.</p>
+      </div>
+      <Button onClick={() => switchRole.mutate(role)} disabled={switchRole.isPending}>
+        {switchRole.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Switch to {label}
+      </Button>
+    </div>
+  );
+}
+
 
 const TWO_DAYS_MS = 2 * 24 * 60 * 60 * 1000;
 
@@ -205,8 +261,36 @@ function ProfileReminderBanner({ user, isComplete }: { user: any; isComplete: bo
   );
 }
 
-// Private Route Wrapper with profile completion check
-function PrivateRoute({ component: Component }: { component: React.ComponentType }) {
+// Shown until the user follows the link in their verification email
+function EmailVerificationBanner({ user }: { user: any }) {
+  const resend = useResendVerification();
+
+  if (user?.status !== "pending_verification") return null;
+
+  return (
+    <div className="bg-yellow-500/10 border-b border-yellow-500/20 px-4 py-2 flex items-center justify-between text-sm shrink-0">
+      <span className="flex items-center gap-2 text-yellow-500 font-medium">
+        <MailWarning className="w-4 h-4 shrink-0" />
+        Verify your email address ({user.email}) to send offers and sign contracts.
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 text-xs ml-4"
+        onClick={() => resend.mutate()}
+        disabled={resend.isPending || resend.isSuccess}
+      >
+        {resend.isPending && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+        {resend.isSuccess ? "Email sent" : "Resend email"}
+      </Button>
+    </div>
+  );
+}
+
+// Private Route Wrapper with profile completion check. `roles` scopes the
+// page to the active role; users holding another matching role are offered
+// a switch instead.
+function PrivateRoute({ component: Component, roles }: { component: React.ComponentType; roles?: string[] }) {
   const { user, isLoading } = useAuth();
   const { data: artistStatus, isLoading: isArtistLoading } = useProfileStatus();
   const { data: venueStatus, isLoading: isVenueLoading } = useVenueStatus();
@@ -249,10 +333,15 @@ function PrivateRoute({ component: Component }: { component: React.ComponentType
     return <Redirect to="/auth" />;
   }
 
+  const access = roles ? roleAccess(user, roles) : "active";
+  if (access === "denied") {
+    return <Redirect to="/dashboard" />;
+  }
+
   // Redirect logic for incomplete profiles
   const hasSkipped = sessionStorage.getItem("skippedOnboarding") === "true";
 
-  if (!hasSkipped) {
+  if (!hasSkipped && access === "active") {
     if (user.role === "artist" && artistStatus && !artistStatus.isComplete && !location.startsWith("/profile/setup")) {
       return <Redirect to="/profile/setup" />;
     }
@@ -277,10 +366,11 @@ function PrivateRoute({ component: Component }: { component: React.ComponentType
       <Sidebar />
       <div className="flex-1 flex flex-col md:pl-64">
         <MobileHeader />
+        <EmailVerificationBanner user={user} />
         <ProfileReminderBanner user={user} isComplete={isProfileComplete} />
         <main className="flex-1 p-6 md:p-8 lg:p-10 overflow-y-auto pb-16 md:pb-0">
           <div className="max-w-7xl mx-auto w-full">
-            <Component />
+            {access === "active" ? <Component /> : <SwitchRolePrompt role={access.switchTo} />}
           </div>
         </main>
         <MobileBottomNav />
@@ -295,12 +385,9 @@ function VenueRoute({ component: Component }: { component: React.ComponentType }
   const [, setLocation] = useLocation();
 
   useEffect(() => {
-    if (!isLoading && user) {
-      const role = getUserRole(user);
-      if (role !== "venue_manager" && role !== "venue") {
-        toast({ title: "Access denied", description: "You don't have permission to view this page.", variant: "destructive" });
-        setLocation("/dashboard");
-      }
+    if (!isLoading && user && roleAccess(user, VENUE_ROLES) === "denied") {
+      toast({ title: "Access denied", description: "You don't have permission to view this page.", variant: "destructive" });
+      setLocation("/dashboard");
     }
   }, [user, isLoading]);
 
@@ -314,17 +401,18 @@ function VenueRoute({ component: Component }: { component: React.ComponentType }
 
   if (!user) return <Redirect to="/auth" />;
 
-  const role = getUserRole(user);
-  if (role !== "venue_manager" && role !== "venue") return null;
+  const access = roleAccess(user, VENUE_ROLES);
+  if (access === "denied") return null;
 
   return (
     <div className="flex min-h-screen bg-background text-foreground">
       <Sidebar />
       <div className="flex-1 flex flex-col md:pl-64">
         <MobileHeader />
+        <EmailVerificationBanner user={user} />
         <main className="flex-1 p-6 md:p-8 lg:p-10 overflow-y-auto pb-16 md:pb-0">
           <div className="max-w-7xl mx-auto w-full">
-            <Component />
+            {access === "active" ? <Component /> : <SwitchRolePrompt role={access.switchTo} />}
           </div>
         </main>
         <MobileBottomNav />
@@ -474,19 +562,22 @@ function Router() {
         <OrganizerSetup />
       </Route>
       <Route path="/organizer/discover">
-        <PrivateRoute component={OrganizerDiscover} />
+        <PrivateRoute component={OrganizerDiscover} roles={ORGANIZER_ROLES} />
       </Route>
       <Route path="/organizer/events">
-        <PrivateRoute component={OrganizerEvents} />
+        <PrivateRoute component={OrganizerEvents} roles={ORGANIZER_ROLES} />
       </Route>
       <Route path="/organizer/events/create">
-        <PrivateRoute component={OrganizerEventCreate} />
+        <PrivateRoute component={OrganizerEventCreate} roles={ORGANIZER_ROLES} />
       </Route>
       <Route path="/organizer/events/:id/edit">
-        <PrivateRoute component={OrganizerEventEdit} />
+        <PrivateRoute component={OrganizerEventEdit} roles={ORGANIZER_ROLES} />
+      </Route>
+      <Route path="/organizer/events/:id/tickets">
+        <PrivateRoute component={OrganizerEventTickets} roles={ORGANIZER_ROLES} />
       </Route>
       <Route path="/organizer/messages">
-        <PrivateRoute component={OrganizerMessages} />
+        <PrivateRoute component={OrganizerMessages} roles={ORGANIZER_ROLES} />
       </Route>
 
       {/* Protected Routes */}
@@ -503,7 +594,10 @@ function Router() {
         {(params) => <Redirect to={`/bookings?bookingId=${params.id}`} />}
       </Route>
       <Route path="/find-gigs">
-        <PrivateRoute component={FindGigs} />
+        <PrivateRoute component={FindGigs} roles={ARTIST_ROLES} />
+      </Route>
+      <Route path="/availability">
+        <PrivateRoute component={ArtistAvailability} roles={ARTIST_ROLES} />
       </Route>
       <Route path="/profile">
         <PrivateRoute component={RoleBasedProfile} />
@@ -517,9 +611,26 @@ function Router() {
       <Route path="/notifications">
         <PrivateRoute component={NotificationsPage} />
       </Route>
+      <Route path="/tickets">
+        <PrivateRoute component={Tickets} />
+      </Route>
+      <Route path="/events/:id/tickets">
+        <PrivateRoute component={EventTickets} />
+      </Route>
       <Route path="/settings/ai">
         <PrivateRoute component={AgentSettings} />
       </Route>
+      <Route path="/settings/notifications">
+        <PrivateRoute component={NotificationSettings} />
+      </Route>
+      <Route path="/settings/organizations">
+        <PrivateRoute component={Organizations} />
+      </Route>
+      <Route path="/settings/security">
+        <PrivateRoute component={SecuritySettings} />
+      </Route>
+      <Route path="/invites/:token" component={OrganizationInvite} />
+      <Route path="/verify/:hash" component={VerifyContract} />
 
       {/* Admin Login - isolated, no layout */}
       <Route path="/admin" component={AdminLogin} />
@@ -567,9 +678,21 @@ function Router() {
       <Route path="/admin/bookings/:id">
         <AdminLayout><AdminBookingDetail /></AdminLayout>
       </Route>
+      <Route path="/admin/disputes">
+        <AdminLayout><AdminDisputes /></AdminLayout>
+      </Route>
+      <Route path="/admin/reviews">
+        <AdminLayout><AdminReviews /></AdminLayout>
+      </Route>
+      <Route path="/admin/disputes/:id">
+        <AdminLayout><AdminDisputeDetail /></AdminLayout>
+      </Route>
       <Route path="/admin/contracts">
         <AdminLayout><AdminContracts /></AdminLayout>
       </Route>
+      <Route path="/admin/contract-templates">
+        <AdminLayout><AdminContractTemplates /></AdminLayout>
+      </Route>
       <Route path="/admin/contracts/:id">
         <AdminLayout><AdminContractEdit /></AdminLayout>
       </Route>
@@ -602,6 +725,12 @@ function Router() {
       <Route path="/admin/notification-channels">
         <AdminLayout><AdminNotificationChannels /></AdminLayout>
       </Route>
+      <Route path="/admin/jobs">
+        <AdminLayout><AdminJobs /></AdminLayout>
+      </Route>
+      <Route path="/admin/domain-events">
+        <AdminLayout><AdminDomainEvents /></AdminLayout>
+      </Route>
       <Route path="/admin/agents">
         <AdminLayout><AdminAgents /></AdminLayout>
       </Route>
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { CalendarPlus, MapPin, Star, TrendingUp, Music, Play, ExternalLink, Download } from "lucide-react";
+import { useSubjectReviews } from "@/hooks/use-reviews";
 
 interface ArtistProfileModalProps {
   artist: any | null;
@@ -10,6 +11,44 @@ interface ArtistProfileModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const CRITERIA_LABELS: Record<string, string> = {
+  punctuality: "Punctuality",
+  professionalism: "Professionalism",
+  rider_compliance: "Rider",
+};
+
+/** Published organizer reviews of the artist, newest first */
+function ArtistReviews({ artistId }: { artistId: number }) {
+  const { data: reviews = [] } = useSubjectReviews("artist", artistId);
+  if (reviews.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2 flex items-center gap-2"><Star className="w-4 h-4" /> Reviews from Organizers</h3>
+      <div className="space-y-2">
+        {reviews.map((review) => (
+          <div key={review.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-1 font-semibold">
+                {Number(review.overallRating).toFixed(1)} <Star className="w-3 h-3 text-yellow-500 fill-yellow-500" />
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(review.publishedAt || review.createdAt).toLocaleDateString()}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+              {Object.entries(review.ratings).map(([criterion, score]) => (
+                <span key={criterion}>{CRITERIA_LABELS[criterion] || criterion}: {score}/5</span>
+              ))}
+            </div>
+            {review.comment && <p className="text-sm">{review.comment}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function ArtistProfileModal({ artist, open, onOpenChange }: ArtistProfileModalProps) {
   if (!artist) return null;
 
@@ -57,6 +96,8 @@ export function ArtistProfileModal({ artist, open, onOpenChange }: ArtistProfile
             </div>
           </div>
 
+          {artist.id && <ArtistReviews artistId={artist.id} />}
+
           {/* Bio */}
           {artist.bio && (
             <div>
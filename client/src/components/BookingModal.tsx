@@ -79,7 +79,7 @@ export function BookingModal({
   const { user } = useAuth();
   const isPendingVerification = (user as any)?.status === 'pending_verification';
 
-  const isVenueManager = (user as any)?.metadata?.role === 'venue_manager' || (user as any)?.metadata?.role === 'venue';
+  const isVenueManager = user?.role === 'venue_manager' || user?.role === 'venue';
 
   // Organizer events
   const { data: orgEvents, isLoading: isLoadingOrgEvents } = useOrganizerEvents();
@@ -233,7 +233,7 @@ export function BookingModal({
       <div className="flex justify-end pt-4 pb-6 sm:pb-0">
         {isPendingVerification && (
           <p className="text-xs text-yellow-500 text-center">
-            Your account is pending verification. Offers cannot be sent until approved.
+            Verify your email address to send offers. Check your inbox for the link.
           </p>
         )}
         <Button type="submit" disabled={isPending || isPendingVerification} className="w-full bg-primary hover:bg-primary/90 text-white">
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Briefcase, Building2, CalendarDays, FileText, Loader2, Music, Search, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { useGlobalSearch, type GlobalSearchType, type HighlightSegment } from "@/hooks/use-search";
+
+const GROUPS: Record<GlobalSearchType, { label: string; icon: typeof Music }> = {
+  artist: { label: "Artists", icon: Music },
+  venue: { label: "Venues", icon: Building2 },
+  event: { label: "Events", icon: CalendarDays },
+  organizer: { label: "Organizers", icon: Briefcase },
+  user: { label: "Users", icon: User },
+  booking: { label: "Bookings", icon: FileText },
+};
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-primary/25 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+interface CommandPaletteProps {
+  /** "bar" renders a search field with the shortcut hint, "icon" a compact button */
+  variant?: "bar" | "icon";
+  /** Open on Cmd/Ctrl+K. Enable it on a single palette per layout. */
+  shortcut?: boolean;
+  className?: string;
+}
+
+/**
+ * Global search across the results the user's role may see. Results come
+ * ranked from the server, so cmdk only handles arrow-key navigation and
+ * selection, not filtering.
+ */
+export function CommandPalette({ variant = "icon", shortcut = false, className }: CommandPaletteProps) {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  // Wait for a pause in typing before searching
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (!shortcut) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((wasOpen) => !wasOpen);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [shortcut]);
+
+  const { data, isFetching } = useGlobalSearch(debouncedQuery, open);
+  const hasQuery = query.trim().length > 0;
+  const groups = hasQuery ? data?.groups ?? [] : [];
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery("");
+  };
+
+  const handleSelect = (url: string) => {
+    handleOpenChange(false);
+    setLocation(url);
+  };
+
+  const shortcutHint = isMac ? "⌘K" : "Ctrl K";
+
+  return (
+    <>
+      {variant === "bar" ? (
+        <Button
+          variant="outline"
+          className={cn("w-full justify-start gap-2 border-white/10 bg-card/40 text-muted-foreground font-normal", className)}
+          onClick={() => setOpen(true)}
+        >
+          <Search className="w-4 h-4" />
+          <span className="flex-1 text-left">Search…</span>
+          {shortcut && (
+            <kbd className="pointer-events-none rounded border border-white/10 bg-muted px-1.5 text-[10px] font-medium">
+              {shortcutHint}
+            </kbd>
+          )}
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-9 w-9 rounded-full hover:bg-white/10", className)}
+          onClick={() => setOpen(true)}
+          aria-label="Search"
+        >
+          <Search className="w-5 h-5" />
+        </Button>
+      )}
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange} commandProps={{ shouldFilter: false }}>
+        <CommandInput placeholder="Search…" value={query} onValueChange={setQuery} />
+        <CommandList>
+          {!hasQuery ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">
+              Start typing to search.
+            </div>
+          ) : isFetching && groups.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <CommandEmpty>No results found.</CommandEmpty>
+          )}
+
+          {groups.map((group) => {
+            const { label, icon: Icon } = GROUPS[group.type];
+            return (
+              <CommandGroup key={group.type} heading={label}>
+                {group.results.map((hit) => (
+                  <CommandItem
+                    key={`${hit.type}-${hit.id}`}
+                    value={`${hit.type}-${hit.id}`}
+                    onSelect={() => handleSelect(hit.url)}
+                    className="items-start gap-3"
+                  >
+                    <Icon className="mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">
+                        <Highlighted segments={hit.highlights.title} />
+                      </div>
+                      {hit.subtitle && (
+                        <div className="truncate text-xs text-muted-foreground">{hit.subtitle}</div>
+                      )}
+                      {hit.highlights.snippet && (
+                        <div className="line-clamp-2 text-xs text-muted-foreground/80 mt-0.5">
+                          <Highlighted segments={hit.highlights.snippet} />
+                        </div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -24,6 +24,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollableTimePicker } from "@/components/ScrollableTimePicker";
 import { cn } from "@/lib/utils";
+import { eventTypeEnum } from "@shared/schema";
 
 // ---------------------------------------------------------------------------
 // DatePickerInput — combines a text input (DD/MM/YYYY) with a calendar popover
@@ -148,6 +149,7 @@ const formSchema = z.object({
   capacityTotal: z.number().optional().nullable(),
   currency: z.string(),
   visibility: z.enum(["public", "private"]).default("public"),
+  eventType: z.enum(eventTypeEnum.enumValues).optional(),
   stages: z.array(z.any()).optional()
 }).refine(data => {
   if (data.isCustomVenue) {
@@ -224,6 +226,7 @@ export function EventForm({
             capacityTotal: initialData.capacityTotal || undefined,
             currency: initialData.currency || "INR",
             visibility: initialData.visibility || "public",
+            eventType: initialData.eventType || undefined,
             stages: (initialData.stages || []).map((s: any) => {
                 const sStart = s.startTime ? new Date(s.startTime) : undefined;
                 const sEnd = s.endTime ? new Date(s.endTime) : undefined;
@@ -592,6 +595,23 @@ export function EventForm({
                                 </SelectContent>
                             </Select>
                         </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="eventType">Event Type</Label>
+                            <Select
+                                value={form.watch("eventType")}
+                                onValueChange={(value) => form.setValue("eventType", value as EventFormValues["eventType"])}
+                            >
+                                <SelectTrigger className="bg-background/50 h-11 capitalize">
+                                    <SelectValue placeholder="Select type" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {eventTypeEnum.enumValues.map((type) => (
+                                        <SelectItem key={type} value={type} className="capitalize">{type.replace(/_/g, " ")}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
                     </div>
 
                     {/* Submit Area */}
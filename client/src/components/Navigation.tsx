@@ -11,21 +11,140 @@ import {
   Search,
   CalendarDays,
   MessageSquare,
-  Inbox
+  Inbox,
+  CalendarOff,
+  Ticket,
+  Building2,
+  Repeat,
+  ShieldCheck,
+  UserCog,
+  Plus
 } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { NotificationBell } from "@/components/NotificationBell";
+import { CommandPalette } from "@/components/CommandPalette";
+import { useActingProfiles, useSwitchActingProfile, type ActingProfile } from "@/hooks/use-organizations";
+import { ROLE_SETUP_PATHS, roleHomePath, roleLabel, useAddRole, useMyRoles, useSwitchRole } from "@/hooks/use-roles";
+
+const PROFILE_TYPE_LABELS: Record<ActingProfile["type"], string> = {
+  artist: "Artist",
+  organizer: "Organizer",
+  venue: "Venue",
+};
+
+/**
+ * "Act as" submenu for users who can act for organization profiles. Own
+ * profiles are the default, so choosing one clears the acting profile.
+ */
+function ActingProfileMenu() {
+  const { data } = useActingProfiles();
+  const switchProfile = useSwitchActingProfile();
+
+  const orgProfiles = data?.profiles.filter((p) => !p.own) ?? [];
+  if (orgProfiles.length === 0) return null;
+
+  const current = data?.acting ? `${data.acting.type}:${data.acting.id}` : "own";
+  const handleChange = (value: string) => {
+    if (value === current) return;
+    if (value === "own") return switchProfile.mutate(null);
+    const [type, id] = value.split(":");
+    switchProfile.mutate({ type: type as ActingProfile["type"], id: Number(id) });
+  };
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <Repeat className="w-4 h-4 mr-2" />
+        Act as
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-60">
+        <DropdownMenuRadioGroup value={current} onValueChange={handleChange}>
+          <DropdownMenuRadioItem value="own">My own profile</DropdownMenuRadioItem>
+          {orgProfiles.map((profile) => (
+            <DropdownMenuRadioItem key={`${profile.type}:${profile.id}`} value={`${profile.type}:${profile.id}`}>
+              <div className="flex flex-col">
+                <span className="truncate">{profile.name}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {PROFILE_TYPE_LABELS[profile.type]}{profile.organizationName ? ` · ${profile.organizationName}` : ""}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
+/**
+ * "Switch role" submenu: the roles the user holds and the ones they can add
+ * themselves. Navigation follows the active role, so switching goes back to
+ * the dashboard; a newly added role is switched to and opens its setup.
+ */
+function RoleMenu() {
+  const [, setLocation] = useLocation();
+  const { data } = useMyRoles();
+  const switchRole = useSwitchRole();
+  const addRole = useAddRole();
+
+  if (!data || (data.roles.length < 2 && data.selfAssignable.length === 0)) return null;
+
+  const handleSwitch = (role: string) => {
+    if (role === data.active) return;
+    switchRole.mutate(role, { onSuccess: () => setLocation(roleHomePath(role)) });
+  };
+  const handleAdd = (role: string) => {
+    addRole.mutate(role, {
+      onSuccess: () => switchRole.mutate(role, { onSuccess: () => setLocation(ROLE_SETUP_PATHS[role] ?? roleHomePath(role)) }),
+    });
+  };
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <UserCog className="w-4 h-4 mr-2" />
+        Switch role
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-56">
+        <DropdownMenuRadioGroup value={data.active} onValueChange={handleSwitch}>
+          {data.roles.map((role) => (
+            <DropdownMenuRadioItem key={role} value={role} disabled={switchRole.isPending}>
+              {roleLabel(role)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {data.selfAssignable.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Add a role</DropdownMenuLabel>
+            {data.selfAssignable.map((role) => (
+              <DropdownMenuItem key={role} onClick={() => handleAdd(role)} disabled={addRole.isPending}>
+                <Plus className="w-4 h-4 mr-2" />
+                {roleLabel(role)}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
 
 export function Sidebar() {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
   const { user, logoutMutation } = useAuth();
 
   if (!user) return null;
@@ -129,6 +248,12 @@ export function Sidebar() {
         icon: Calendar,
         show: true
       },
+      {
+        label: "Availability",
+        href: "/availability",
+        icon: CalendarOff,
+        show: true
+      },
       {
         label: "Profile",
         href: "/profile",
@@ -145,11 +270,21 @@ export function Sidebar() {
           <h1 className="text-2xl font-bold font-display text-transparent bg-clip-text bg-gradient-to-r from-primary to-purple-400">
             BANDWIDTH
           </h1>
-          <p className="text-xs text-muted-foreground mt-1 capitalize">{role} Account</p>
+          {user.actingProfile ? (
+            <p className="text-xs text-muted-foreground mt-1 truncate max-w-[9rem]" title={user.actingProfile.organizationName ?? undefined}>
+              Acting as {user.actingProfile.name}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground mt-1">{roleLabel(role ?? "")} Account</p>
+          )}
         </div>
         <NotificationBell />
       </div>
 
+      <div className="px-4 pb-4">
+        <CommandPalette variant="bar" shortcut />
+      </div>
+
       <nav className="flex-1 px-4 space-y-2">
         {navItems.filter(item => item.show).map((item) => (
           <Link key={item.href} href={item.href}>
@@ -191,6 +326,20 @@ export function Sidebar() {
           <DropdownMenuContent className="w-56" align="end" forceMount>
             <DropdownMenuLabel>My Account</DropdownMenuLabel>
             <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setLocation("/tickets")}>
+              <Ticket className="w-4 h-4 mr-2" />
+              My Tickets
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setLocation("/settings/organizations")}>
+              <Building2 className="w-4 h-4 mr-2" />
+              Organizations
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setLocation("/settings/security")}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Security
+            </DropdownMenuItem>
+            <RoleMenu />
+            <ActingProfileMenu />
             <DropdownMenuItem onClick={() => logoutMutation.mutate()} className="text-destructive focus:text-destructive">
               <LogOut className="w-4 h-4 mr-2" />
               Log out
@@ -209,7 +358,10 @@ export function MobileHeader() {
   return (
     <div className="md:hidden flex items-center justify-between p-4 border-b border-border/50 bg-background/80 backdrop-blur-md sticky top-0 z-50">
       <span className="font-bold font-display text-primary">BANDWIDTH</span>
-      <NotificationBell />
+      <div className="flex items-center gap-1">
+        <CommandPalette />
+        <NotificationBell />
+      </div>
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useLocation } from "wouter";
-import { Calendar, FileText, DollarSign, Bell, Music, Handshake } from "lucide-react";
+import { Calendar, FileText, DollarSign, Bell, Music, Handshake, Star, Ticket } from "lucide-react";
 
 interface NotificationItemProps {
   notification: {
@@ -22,6 +22,9 @@ const categoryIcons: Record<string, typeof Bell> = {
   negotiation: Handshake,
   contract: FileText,
   payment: DollarSign,
+  review: Star,
+  reviews: Star,
+  ticket: Ticket,
   system: Bell,
 };
 
@@ -0,0 +1,92 @@
+/**
+ * LinkedAccounts — profile card listing external sign-in identities (Google,
+ * single sign-on) with link and unlink. Linking leaves the app for the
+ * provider, which sends the browser back here with ?linked= or ?oauthError=.
+ */
+import { useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { KeyRound, Link2, Loader2, Unlink } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { oauthStartUrl, useLinkedAccounts, useOAuthProviders, useUnlinkAccount } from "@/hooks/use-oauth";
+
+export function LinkedAccounts() {
+  const { data: providers = [] } = useOAuthProviders();
+  const { data: links = [], isLoading } = useLinkedAccounts();
+  const unlink = useUnlinkAccount();
+  const { toast } = useToast();
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const linked = params.get("linked");
+    const error = params.get("oauthError");
+    if (!linked && !error) return;
+
+    if (error) {
+      toast({ title: "Could not link account", description: error, variant: "destructive" });
+    } else {
+      const label = providers.find((p) => p.name === linked)?.label || linked;
+      toast({ title: "Account linked", description: `You can now sign in with ${label}.` });
+    }
+    params.delete("linked");
+    params.delete("oauthError");
+    const rest = params.toString();
+    setLocation(`${location}${rest ? `?${rest}` : ""}`, { replace: true });
+  }, [search, location, providers, toast, setLocation]);
+
+  // Existing links stay listed even if their provider has since been removed
+  if (providers.length === 0 && links.length === 0) return null;
+
+  const returnTo = `${location}${search ? `?${search}` : ""}`;
+
+  return (
+    <Card className="glass-card border-white/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4" /> Linked Accounts
+        </CardTitle>
+        <CardDescription>Sign in with another account instead of your password.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {links.map((link) => (
+              <div key={link.id} className="flex items-center gap-3 rounded-lg border border-white/10 p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{link.label}</p>
+                  <p className="text-xs text-muted-foreground truncate">{link.email || link.name || "Linked"}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => unlink.mutate(link.id)}
+                  disabled={unlink.isPending}
+                >
+                  <Unlink className="w-4 h-4 mr-2" /> Unlink
+                </Button>
+              </div>
+            ))}
+            {providers
+              .filter((provider) => !links.some((link) => link.provider === provider.name))
+              .map((provider) => (
+                <div key={provider.name} className="flex items-center gap-3 rounded-lg border border-dashed border-white/10 p-3">
+                  <p className="flex-1 text-sm text-muted-foreground">{provider.label}</p>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={oauthStartUrl(provider.name, "link", returnTo)}>
+                      <Link2 className="w-4 h-4 mr-2" /> Link
+                    </a>
+                  </Button>
+                </div>
+              ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
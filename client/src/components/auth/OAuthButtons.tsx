@@ -0,0 +1,31 @@
+/**
+ * OAuthButtons — "Continue with …" buttons for each configured identity
+ * provider. Renders nothing when none are configured.
+ */
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { oauthStartUrl, useOAuthProviders } from "@/hooks/use-oauth";
+
+export function OAuthButtons({ next }: { next?: string }) {
+  const { data: providers = [] } = useOAuthProviders();
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <div className="h-px flex-1 bg-white/10" />
+        or
+        <div className="h-px flex-1 bg-white/10" />
+      </div>
+      {providers.map((provider) => (
+        <Button key={provider.name} variant="outline" className="w-full" asChild>
+          {/* Full navigation: the provider redirects back to the server */}
+          <a href={oauthStartUrl(provider.name, "login", next)}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            Continue with {provider.label}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * CalendarSyncDialog — shows the user's private .ics subscription URL for
+ * Google/Apple Calendar, with copy and reset actions.
+ */
+import { useState } from "react";
+import { useCalendarSubscription, useRotateCalendarSubscription } from "@/hooks/use-availability";
+import { useToast } from "@/hooks/use-toast";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react";
+
+export function CalendarSyncDialog() {
+    const [open, setOpen] = useState(false);
+    const { toast } = useToast();
+    const { data: subscription, isLoading } = useCalendarSubscription(open);
+    const rotate = useRotateCalendarSubscription();
+
+    const copy = async () => {
+        if (!subscription) return;
+        await navigator.clipboard.writeText(subscription.url);
+        toast({ title: "Link copied" });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                    <CalendarPlus className="w-4 h-4" />
+                    Sync Calendar
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Sync with your calendar</DialogTitle>
+                    <DialogDescription>
+                        Subscribe to this link in Google Calendar ("From URL") or Apple Calendar
+                        ("New Calendar Subscription"). Contracting and confirmed bookings appear
+                        automatically. Keep the link private.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading || !subscription ? (
+                    <div className="flex justify-center p-6">
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="flex gap-2">
+                            <Input readOnly value={subscription.url} onFocus={(e) => e.target.select()} />
+                            <Button size="icon" variant="outline" onClick={copy}>
+                                <Copy className="w-4 h-4" />
+                            </Button>
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>
+                                {subscription.lastUsedAt
+                                    ? `Last synced ${new Date(subscription.lastUsedAt).toLocaleString()}`
+                                    : "Not synced yet"}
+                            </span>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="gap-1.5"
+                                onClick={() => rotate.mutate()}
+                                disabled={rotate.isPending}
+                            >
+                                <RefreshCw className="w-3.5 h-3.5" />
+                                Reset link
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
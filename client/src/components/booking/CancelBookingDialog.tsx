@@ -0,0 +1,190 @@
+/**
+ * CancelBookingDialog — lets the artist or organizer cancel a booking. Shows
+ * what cancelling today costs under the signed contract's cancellation policy
+ * (refund, cancellation fee, compensation) next to the full penalty schedule
+ * before the cancellation is confirmed.
+ */
+import { useState } from "react";
+import { useBookingCancellation, useCancelBooking, type CancellationQuote } from "@/hooks/use-cancellations";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+const REASONS: { value: string; label: string }[] = [
+    { value: "schedule_conflict", label: "Schedule conflict" },
+    { value: "health", label: "Health" },
+    { value: "event_cancelled", label: "Event cancelled" },
+    { value: "low_ticket_sales", label: "Low ticket sales" },
+    { value: "venue_unavailable", label: "Venue unavailable" },
+    { value: "force_majeure", label: "Force majeure" },
+    { value: "other", label: "Other" },
+];
+
+function formatMoney(value: number): string {
+    return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function windowLabel(minDays: number, maxDays: number | null): string {
+    if (maxDays === null) return `${minDays}+ days before`;
+    if (minDays === 0) return `Under ${maxDays} days`;
+    return `${minDays}–${maxDays} days before`;
+}
+
+function QuoteSummary({ quote }: { quote: CancellationQuote }) {
+    const { settlement, schedule } = quote;
+    const rows: { label: string; value: number }[] = [
+        { label: "Paid into escrow", value: settlement.paid },
+        { label: "Refunded to the organizer", value: settlement.refundToOrganizer },
+        { label: "Cancellation fee due from you", value: settlement.feeDue },
+        { label: "Compensation to the artist", value: settlement.artistCompensation },
+        { label: "Compensation to the organizer", value: settlement.organizerCompensation },
+    ];
+
+    if (quote.policyVersion === null) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                The contract isn't signed yet, so no cancellation penalty applies
+                {settlement.paid > 0 ? ` and the ${formatMoney(settlement.paid)} paid is refunded in full` : ""}.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+                {settlement.daysBeforeEvent} days before the event, cancellation policy v{quote.policyVersion}
+                {settlement.tier ? ` charges a ${settlement.tier.penaltyPct}% penalty` : " charges no penalty"}
+                {settlement.tier?.depositForfeited ? " and forfeits the deposit" : ""}.
+            </p>
+            <div className="rounded-lg bg-white/5 p-3 space-y-1">
+                {rows.filter((row) => row.value > 0 || row.label === "Paid into escrow").map((row) => (
+                    <div key={row.label} className="flex justify-between">
+                        <span className="text-muted-foreground">{row.label}</span>
+                        <span className="font-medium">{formatMoney(row.value)}</span>
+                    </div>
+                ))}
+            </div>
+            {schedule.length > 0 && (
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                    {schedule.map((window) => (
+                        <div key={window.minDaysBefore} className="flex justify-between">
+                            <span>{windowLabel(window.minDaysBefore, window.maxDaysBefore)}</span>
+                            <span>
+                                {window.penaltyPct}%{window.depositForfeited ? " (deposit forfeited)" : ""}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface CancelBookingDialogProps {
+    bookingId: number;
+    eventTitle?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function CancelBookingDialog({ bookingId, eventTitle, open, onOpenChange }: CancelBookingDialogProps) {
+    const { data, isLoading } = useBookingCancellation(bookingId, open);
+    const cancelBooking = useCancelBooking();
+    const [reason, setReason] = useState("");
+    const [note, setNote] = useState("");
+
+    const close = (next: boolean) => {
+        if (!next) {
+            setReason("");
+            setNote("");
+        }
+        onOpenChange(next);
+    };
+
+    const submit = () => {
+        cancelBooking.mutate(
+            { bookingId, reason: reason as any, note: note.trim() || undefined },
+            { onSuccess: () => close(false) },
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={close}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Cancel Booking</DialogTitle>
+                    <DialogDescription>
+                        {`Cancelling${eventTitle ? ` ${eventTitle}` : " this booking"} can't be undone. The contract's cancellation policy decides refunds and compensation.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                ) : data?.quote ? (
+                    <div className="space-y-4">
+                        <QuoteSummary quote={data.quote} />
+                        <div className="space-y-1.5">
+                            <Label>Reason</Label>
+                            <Select value={reason} onValueChange={setReason}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a reason…" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {REASONS.map((r) => (
+                                        <SelectItem key={r.value} value={r.value}>
+                                            {r.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label>Note{reason === "other" ? "" : " (optional)"}</Label>
+                            <Textarea
+                                rows={3}
+                                placeholder="Anything the other party should know…"
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                                className="resize-none"
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        {data?.cancellation ? "This booking has already been cancelled." : data?.message || "This booking can't be cancelled."}
+                    </p>
+                )}
+
+                <DialogFooter>
+                    <Button variant="ghost" onClick={() => close(false)}>Keep Booking</Button>
+                    {data?.quote && (
+                        <Button
+                            variant="destructive"
+                            onClick={submit}
+                            disabled={!reason || (reason === "other" && !note.trim()) || cancelBooking.isPending}
+                        >
+                            {cancelBooking.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Cancel Booking
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
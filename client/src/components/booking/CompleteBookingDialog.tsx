@@ -0,0 +1,92 @@
+/**
+ * CompleteBookingDialog — the artist or organizer confirms the event took
+ * place, with a private 1–5 rating of the other side. Once both have
+ * confirmed, the booking completes, the artist payout is queued and the
+ * review window opens.
+ */
+import { useState } from "react";
+import { useConfirmCompletion } from "@/hooks/use-bookings";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Star } from "lucide-react";
+
+interface CompleteBookingDialogProps {
+    bookingId: number;
+    eventTitle?: string;
+    /** Who the rating is about */
+    counterpart: "artist" | "organizer";
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function CompleteBookingDialog({ bookingId, eventTitle, counterpart, open, onOpenChange }: CompleteBookingDialogProps) {
+    const confirmCompletion = useConfirmCompletion();
+    const [rating, setRating] = useState(0);
+    const [note, setNote] = useState("");
+
+    const close = (next: boolean) => {
+        if (!next) {
+            setRating(0);
+            setNote("");
+        }
+        onOpenChange(next);
+    };
+
+    const submit = () => {
+        confirmCompletion.mutate(
+            { id: bookingId, confirmed: true, rating, note: note.trim() || undefined },
+            { onSuccess: () => close(false) },
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={close}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Confirm Completion</DialogTitle>
+                    <DialogDescription>
+                        {`Confirm that${eventTitle ? ` ${eventTitle}` : " the event"} took place as agreed. If something went wrong, raise a dispute instead.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-1.5">
+                        <Label>How was the {counterpart}? (private)</Label>
+                        <div className="flex gap-1">
+                            {[1, 2, 3, 4, 5].map((n) => (
+                                <button key={n} type="button" onClick={() => setRating(n)} aria-label={`${n} star${n === 1 ? "" : "s"}`}>
+                                    <Star className={`w-5 h-5 ${n <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-1.5">
+                        <Label>Note (optional)</Label>
+                        <Textarea
+                            rows={3}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            className="resize-none"
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button onClick={submit} disabled={rating === 0 || confirmCompletion.isPending}>
+                        {confirmCompletion.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Confirm
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
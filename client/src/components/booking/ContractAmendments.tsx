@@ -0,0 +1,319 @@
+/**
+ * ContractAmendments — amendments to a signed contract. Either party proposes
+ * changed terms with a reason; both review the clause-by-clause diff, then
+ * accept and sign the amended version as they did the original. Fee changes
+ * go to an admin once both have signed.
+ */
+import { useState } from "react";
+import { FilePlus2, Loader2, PenTool, Check, X, Undo2, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { StepUpDialog } from "@/components/two-factor/StepUpDialog";
+import { useAuth } from "@/hooks/use-auth";
+import {
+    useAmendmentActions,
+    useContractAmendments,
+    type ClauseDiff,
+    type ContractAmendmentView,
+} from "@/hooks/use-contract-amendments";
+
+const STATUS_STYLES: Record<string, string> = {
+    proposed: "bg-blue-500/15 text-blue-400 border-blue-500/25",
+    admin_review: "bg-orange-500/15 text-orange-400 border-orange-500/25",
+    applied: "bg-emerald-500/15 text-emerald-400 border-emerald-500/25",
+    rejected: "bg-red-500/15 text-red-400 border-red-500/25",
+    withdrawn: "bg-zinc-500/15 text-zinc-400 border-zinc-500/25",
+};
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (Array.isArray(value)) return value.length ? value.map(formatValue).join("; ") : "—";
+    if (typeof value === "object") {
+        return Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined && v !== null && v !== "")
+            .map(([k, v]) => `${k}: ${formatValue(v)}`)
+            .join(", ") || "—";
+    }
+    return String(value);
+}
+
+/** The changed terms of an amendment, grouped by clause */
+export function ClauseDiffList({ diff }: { diff: ClauseDiff[] }) {
+    return (
+        <div className="space-y-2">
+            {diff.map((clause) => (
+                <div key={clause.clause} className="text-xs">
+                    <div className="font-semibold text-foreground">{clause.label}</div>
+                    {clause.changes.map((change) => (
+                        <div key={change.path} className="flex flex-wrap items-center gap-1.5 pl-3 text-muted-foreground">
+                            {change.path !== clause.clause && (
+                                <span>{change.path.slice(clause.clause.length + 1)}:</span>
+                            )}
+                            <span className="line-through text-red-400/80">{formatValue(change.before)}</span>
+                            <span>→</span>
+                            <span className="text-emerald-400">{formatValue(change.after)}</span>
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+interface ContractAmendmentsProps {
+    contractId: number;
+    bookingId: number;
+    role: "artist" | "promoter" | "admin";
+    terms: Record<string, any> | null;
+}
+
+export function ContractAmendments({ contractId, bookingId, role, terms }: ContractAmendmentsProps) {
+    const { data: amendments, isLoading } = useContractAmendments(contractId);
+    const actions = useAmendmentActions(contractId, bookingId);
+    const [showForm, setShowForm] = useState(false);
+
+    const open = amendments?.find((a) => a.status === "proposed" || a.status === "admin_review");
+    const canPropose = role !== "admin" && !open;
+
+    return (
+        <div className="rounded-xl border border-white/10 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-semibold">
+                    <FilePlus2 className="w-4 h-4 text-primary" />
+                    Amendments
+                </div>
+                {canPropose && !showForm && (
+                    <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+                        Propose amendment
+                    </Button>
+                )}
+            </div>
+
+            {showForm && (
+                <ProposeAmendmentForm
+                    terms={terms}
+                    isPending={actions.propose.isPending}
+                    onCancel={() => setShowForm(false)}
+                    onSubmit={(proposal) => actions.propose.mutate(proposal, { onSuccess: () => setShowForm(false) })}
+                />
+            )}
+
+            {isLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : !amendments?.length ? (
+                !showForm && (
+                    <p className="text-xs text-muted-foreground">
+                        The signed contract has not been amended. Changes after signing need both parties to sign again.
+                    </p>
+                )
+            ) : (
+                amendments.map((amendment) => (
+                    <AmendmentCard key={amendment.id} amendment={amendment} role={role} actions={actions} />
+                ))
+            )}
+        </div>
+    );
+}
+
+interface ProposeAmendmentFormProps {
+    terms: Record<string, any> | null;
+    isPending: boolean;
+    onCancel: () => void;
+    onSubmit: (proposal: { reason: string; changes: Record<string, unknown> }) => void;
+}
+
+function ProposeAmendmentForm({ terms, isPending, onCancel, onSubmit }: ProposeAmendmentFormProps) {
+    const [reason, setReason] = useState("");
+    const [fee, setFee] = useState(terms?.fee != null ? String(terms.fee) : "");
+    const [slotTime, setSlotTime] = useState(terms?.slotTime ?? "");
+    const [performanceDuration, setPerformanceDuration] = useState(terms?.performanceDuration ?? "");
+
+    const changes: Record<string, unknown> = {};
+    if (fee && Number(fee) !== Number(terms?.fee)) changes.fee = Number(fee);
+    if (slotTime && slotTime !== (terms?.slotTime ?? "")) changes.slotTime = slotTime;
+    if (performanceDuration && performanceDuration !== (terms?.performanceDuration ?? "")) {
+        changes.performanceDuration = performanceDuration;
+    }
+    const hasChanges = Object.keys(changes).length > 0;
+
+    return (
+        <div className="space-y-3 rounded-lg bg-white/5 p-3">
+            <div className="grid grid-cols-3 gap-2">
+                <div>
+                    <Label className="text-xs text-muted-foreground">Fee</Label>
+                    <Input type="number" min={1} value={fee} onChange={(e) => setFee(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                    <Label className="text-xs text-muted-foreground">Set time</Label>
+                    <Input value={slotTime} onChange={(e) => setSlotTime(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                    <Label className="text-xs text-muted-foreground">Performance duration</Label>
+                    <Input value={performanceDuration} onChange={(e) => setPerformanceDuration(e.target.value)} className="mt-1" />
+                </div>
+            </div>
+            {"fee" in changes && (
+                <p className="text-xs text-amber-400">
+                    Fee changes recalculate the commission and need admin approval once both parties sign.
+                </p>
+            )}
+            <div>
+                <Label className="text-xs text-muted-foreground">Reason for the amendment</Label>
+                <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} className="mt-1" />
+            </div>
+            <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+                <Button
+                    size="sm"
+                    disabled={isPending || !hasChanges || !reason.trim()}
+                    onClick={() => onSubmit({ reason: reason.trim(), changes })}
+                >
+                    {isPending && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                    Propose
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+interface AmendmentCardProps {
+    amendment: ContractAmendmentView;
+    role: "artist" | "promoter" | "admin";
+    actions: ReturnType<typeof useAmendmentActions>;
+}
+
+function AmendmentCard({ amendment, role, actions }: AmendmentCardProps) {
+    const { user } = useAuth();
+    const [note, setNote] = useState("");
+    const [signatureText, setSignatureText] = useState(() => user?.name || user?.username || "");
+    const [showStepUp, setShowStepUp] = useState(false);
+    const [showText, setShowText] = useState(false);
+    const isProposer = amendment.proposedByRole === role;
+    const theirs = role === "artist" ? "promoter" : "artist";
+
+    return (
+        <div className="rounded-lg border border-white/10 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">
+                    Version {amendment.version} · amends version {amendment.baseVersion} · proposed by {amendment.proposedByRole}
+                </div>
+                <Badge className={`border text-[10px] ${STATUS_STYLES[amendment.status] ?? ""}`}>
+                    {amendment.status.replace(/_/g, " ")}
+                </Badge>
+            </div>
+            <p className="text-sm">{amendment.reason}</p>
+            <ClauseDiffList diff={amendment.diff} />
+
+            {amendment.closedNote && (
+                <p className="text-xs text-muted-foreground">Note: {amendment.closedNote}</p>
+            )}
+            {amendment.adminReviewNote && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Shield className="w-3 h-3" /> Admin: {amendment.adminReviewNote}
+                </p>
+            )}
+            {amendment.status === "admin_review" && (
+                <p className="text-xs text-orange-400">Both parties signed. The fee change is waiting for admin approval.</p>
+            )}
+
+            {amendment.contractText && (
+                <div>
+                    <button className="text-xs text-primary underline" onClick={() => setShowText(!showText)}>
+                        {showText ? "Hide amended contract" : "Read amended contract"}
+                    </button>
+                    {showText && (
+                        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded bg-black/30 p-3 text-[11px] font-serif">
+                            {amendment.contractText}
+                        </pre>
+                    )}
+                </div>
+            )}
+
+            {amendment.nextStep === "review" && (
+                <div className="space-y-2">
+                    <Textarea
+                        placeholder="Note (required to reject)"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        rows={2}
+                    />
+                    <div className="flex gap-2">
+                        <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700"
+                            disabled={actions.review.isPending}
+                            onClick={() => actions.review.mutate({ id: amendment.id, decision: "approve", note: note || undefined })}
+                        >
+                            <Check className="w-3 h-3 mr-1" /> Approve changes
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={actions.review.isPending || !note.trim()}
+                            onClick={() => actions.review.mutate({ id: amendment.id, decision: "reject", note })}
+                        >
+                            <X className="w-3 h-3 mr-1" /> Reject
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {amendment.nextStep === "accept" && (
+                <Button
+                    size="sm"
+                    disabled={actions.accept.isPending}
+                    onClick={() => actions.accept.mutate(amendment.id)}
+                >
+                    {actions.accept.isPending && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                    I agree to the amended terms
+                </Button>
+            )}
+
+            {amendment.nextStep === "sign" && (
+                <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                        <Label className="text-xs text-muted-foreground">Type your full name as signature</Label>
+                        <Input
+                            value={signatureText}
+                            onChange={(e) => setSignatureText(e.target.value)}
+                            className="mt-1 font-serif italic"
+                        />
+                    </div>
+                    <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        disabled={actions.sign.isPending || !signatureText.trim()}
+                        onClick={() => setShowStepUp(true)}
+                    >
+                        {actions.sign.isPending && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                        <PenTool className="w-3 h-3 mr-1" /> Sign amendment
+                    </Button>
+                    <StepUpDialog
+                        open={showStepUp}
+                        onOpenChange={setShowStepUp}
+                        action="sign this amendment"
+                        onVerified={() => actions.sign.mutate({ id: amendment.id, signatureData: signatureText.trim() })}
+                    />
+                </div>
+            )}
+
+            {amendment.nextStep === "waiting" && (
+                <p className="text-xs text-amber-400">Waiting for the {theirs} to {amendment[`${theirs}ReviewedAt`] ? "sign" : "review"}.</p>
+            )}
+
+            {isProposer && amendment.status === "proposed" && (
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={actions.withdraw.isPending}
+                    onClick={() => actions.withdraw.mutate({ id: amendment.id })}
+                >
+                    <Undo2 className="w-3 h-3 mr-1" /> Withdraw
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -9,6 +9,8 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { StepUpDialog } from "@/components/two-factor/StepUpDialog";
+import { ContractAmendments } from "./ContractAmendments";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -215,6 +217,7 @@ export function ContractViewer({ bookingId, onClose, prefillTerms }: ContractVie
     });
 
     // ─── 6. Sign ────────────────────────────────────────────────────────
+    const [showStepUp, setShowStepUp] = useState(false);
     const { mutate: signContract, isPending: isSigning } = useMutation({
         mutationFn: async () => {
             const res = await fetch(`/api/contracts/${contract.id}/sign`, {
@@ -540,6 +543,16 @@ export function ContractViewer({ bookingId, onClose, prefillTerms }: ContractVie
                         </div>
                     )}
 
+                    {/* ─── Amendments after signing ─── */}
+                    {isFullySigned && (
+                        <ContractAmendments
+                            contractId={contract.id}
+                            bookingId={bookingId}
+                            role={role}
+                            terms={contract.negotiatedTermsJson}
+                        />
+                    )}
+
                     {/* ─── Warning: unfilled legal placeholders ─── */}
                     {contract.contractText?.includes('[') && (
                         <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 flex items-start gap-3">
@@ -1108,12 +1121,18 @@ export function ContractViewer({ bookingId, onClose, prefillTerms }: ContractVie
                                     <Button
                                         className="flex-1 bg-green-600 hover:bg-green-700"
                                         disabled={isSigning || deadlineExpired || !signatureText.trim()}
-                                        onClick={() => signContract()}
+                                        onClick={() => setShowStepUp(true)}
                                     >
                                         {isSigning && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
                                         <PenTool className="w-4 h-4 mr-2" />
                                         Sign Contract
                                     </Button>
+                                    <StepUpDialog
+                                        open={showStepUp}
+                                        onOpenChange={setShowStepUp}
+                                        action="sign this contract"
+                                        onVerified={() => signContract()}
+                                    />
                                     <Button variant="ghost" onClick={onClose}>Close</Button>
                                 </div>
                             </div>
@@ -0,0 +1,117 @@
+/**
+ * GuestlistDialog — guestlist for a public event. The organizer sees and
+ * manages every guest; a booked artist sees and manages the guests they
+ * added. Guests take up a place at the event like sold tickets, so adding
+ * one fails once the event is at capacity.
+ */
+import { useState } from "react";
+import { useGuestlist, useAddGuest, useRemoveGuest } from "@/hooks/use-tickets";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Trash2, UserPlus, CheckCircle2 } from "lucide-react";
+
+interface GuestlistDialogProps {
+    eventId: number;
+    eventTitle?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function GuestlistDialog({ eventId, eventTitle, open, onOpenChange }: GuestlistDialogProps) {
+    const { data: guests, isLoading, error } = useGuestlist(eventId, open);
+    const addGuest = useAddGuest(eventId);
+    const removeGuest = useRemoveGuest(eventId);
+    const [holderName, setHolderName] = useState("");
+    const [holderEmail, setHolderEmail] = useState("");
+
+    const submit = () => {
+        if (!holderName.trim()) return;
+        addGuest.mutate(
+            { holderName: holderName.trim(), holderEmail: holderEmail.trim() || undefined },
+            {
+                onSuccess: () => {
+                    setHolderName("");
+                    setHolderEmail("");
+                },
+            },
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Guestlist</DialogTitle>
+                    <DialogDescription>
+                        {eventTitle ? `${eventTitle}. ` : ""}
+                        Guests are admitted with their QR code and count towards the event capacity.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                        placeholder="Guest name"
+                        value={holderName}
+                        maxLength={200}
+                        onChange={(e) => setHolderName(e.target.value)}
+                    />
+                    <Input
+                        type="email"
+                        placeholder="Email (optional)"
+                        value={holderEmail}
+                        onChange={(e) => setHolderEmail(e.target.value)}
+                    />
+                    <Button onClick={submit} disabled={!holderName.trim() || addGuest.isPending} className="shrink-0">
+                        {addGuest.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                    </Button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-destructive">{(error as Error).message}</p>
+                ) : !guests || guests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">No guests yet.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {guests.map((guest) => (
+                            <div key={guest.id} className="flex items-center justify-between gap-3 rounded-lg border border-white/10 p-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">{guest.holderName}</p>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {guest.holderEmail || "No email"} · added by {guest.addedByRole === "artist" ? "artist" : "organizer"}
+                                    </p>
+                                </div>
+                                {guest.status === "used" ? (
+                                    <Badge variant="outline" className="gap-1 text-green-500 border-green-500/30">
+                                        <CheckCircle2 className="w-3 h-3" /> Checked in
+                                    </Badge>
+                                ) : (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-destructive hover:bg-destructive/10"
+                                        disabled={removeGuest.isPending}
+                                        onClick={() => removeGuest.mutate(guest.id)}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
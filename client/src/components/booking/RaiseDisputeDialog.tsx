@@ -0,0 +1,135 @@
+/**
+ * RaiseDisputeDialog — lets the artist or organizer open a dispute on a booking.
+ * Step 1 records the reason and description; step 2 attaches evidence images
+ * to the newly created dispute via the shared ImageUpload module.
+ */
+import { useState } from "react";
+import { useOpenDispute } from "@/hooks/use-disputes";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ImageUpload } from "@/components/ImageUpload";
+import { Loader2 } from "lucide-react";
+
+const REASONS: { value: string; label: string }[] = [
+    { value: "no_show", label: "No show" },
+    { value: "late_arrival", label: "Late arrival" },
+    { value: "performance_quality", label: "Performance quality" },
+    { value: "payment_issue", label: "Payment issue" },
+    { value: "contract_breach", label: "Contract breach" },
+    { value: "rider_not_met", label: "Rider not met" },
+    { value: "other", label: "Other" },
+];
+
+interface RaiseDisputeDialogProps {
+    bookingId: number;
+    eventTitle?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function RaiseDisputeDialog({ bookingId, eventTitle, open, onOpenChange }: RaiseDisputeDialogProps) {
+    const openDispute = useOpenDispute();
+    const [reason, setReason] = useState("");
+    const [description, setDescription] = useState("");
+    const [disputeId, setDisputeId] = useState<number | null>(null);
+
+    const close = (next: boolean) => {
+        if (!next) {
+            setReason("");
+            setDescription("");
+            setDisputeId(null);
+        }
+        onOpenChange(next);
+    };
+
+    const submit = () => {
+        openDispute.mutate(
+            { bookingId, reason: reason as any, description },
+            { onSuccess: (dispute) => setDisputeId(dispute.id) },
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={close}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{disputeId ? "Add Evidence" : "Raise a Dispute"}</DialogTitle>
+                    <DialogDescription>
+                        {disputeId
+                            ? "Upload photos or screenshots that support your case. You can close this dialog when done."
+                            : `Tell us what went wrong${eventTitle ? ` with ${eventTitle}` : ""}. The artist payout is held until an admin resolves it.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {disputeId ? (
+                    <ImageUpload
+                        entityType="dispute_evidence"
+                        entityId={disputeId}
+                        maxImages={20}
+                        label="Evidence"
+                        compact
+                    />
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-1.5">
+                            <Label>Reason</Label>
+                            <Select value={reason} onValueChange={setReason}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a reason…" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {REASONS.map((r) => (
+                                        <SelectItem key={r.value} value={r.value}>
+                                            {r.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label>What happened?</Label>
+                            <Textarea
+                                rows={5}
+                                placeholder="Describe the issue in detail (at least 20 characters)…"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                className="resize-none"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {disputeId ? (
+                        <Button onClick={() => close(false)}>Done</Button>
+                    ) : (
+                        <Button
+                            variant="destructive"
+                            onClick={submit}
+                            disabled={!reason || description.trim().length < 20 || openDispute.isPending}
+                        >
+                            {openDispute.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Open Dispute
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
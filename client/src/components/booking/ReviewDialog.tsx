@@ -0,0 +1,194 @@
+/**
+ * ReviewDialog — post-event reviews for a completed booking. The organizer
+ * reviews the artist; the artist reviews the organizer and the venue. Each
+ * review scores the subject's criteria 1–5. The other side's review only
+ * appears here once both have submitted or the review window has closed.
+ */
+import { useState } from "react";
+import { format } from "date-fns";
+import { useBookingReviews, useSubmitReview, type Review, type ReviewSubject } from "@/hooks/use-reviews";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Star, Lock } from "lucide-react";
+
+const CRITERIA: Record<ReviewSubject, { value: string; label: string }[]> = {
+    artist: [
+        { value: "punctuality", label: "Punctuality" },
+        { value: "professionalism", label: "Professionalism" },
+        { value: "rider_compliance", label: "Kept to the agreed rider" },
+    ],
+    organizer: [
+        { value: "professionalism", label: "Professionalism" },
+        { value: "rider_compliance", label: "Rider provided as agreed" },
+        { value: "payment_timeliness", label: "Paid on time" },
+    ],
+    venue: [
+        { value: "punctuality", label: "Ready on time" },
+        { value: "professionalism", label: "Staff professionalism" },
+        { value: "rider_compliance", label: "Tech & hospitality per rider" },
+    ],
+};
+
+const SUBJECT_LABELS: Record<ReviewSubject, string> = {
+    artist: "Artist",
+    organizer: "Organizer",
+    venue: "Venue",
+};
+
+interface ReviewDialogProps {
+    bookingId: number;
+    eventTitle?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+function StarInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+    return (
+        <div className="flex gap-1">
+            {[1, 2, 3, 4, 5].map((n) => (
+                <button key={n} type="button" onClick={() => onChange(n)} aria-label={`${n} star${n === 1 ? "" : "s"}`}>
+                    <Star className={`w-5 h-5 ${n <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+                </button>
+            ))}
+        </div>
+    );
+}
+
+function ReviewCard({ review }: { review: Review }) {
+    return (
+        <div className="rounded-lg border border-white/10 p-3 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                    {review.reviewerRole === "artist" ? "Artist" : "Organizer"} → {SUBJECT_LABELS[review.subjectType]}
+                </span>
+                <div className="flex items-center gap-2">
+                    {review.status === "submitted" && (
+                        <Badge variant="outline" className="text-[10px] gap-1"><Lock className="w-3 h-3" /> Sealed</Badge>
+                    )}
+                    <span className="flex items-center gap-1 text-sm font-semibold">
+                        <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                        {Number(review.overallRating).toFixed(1)}
+                    </span>
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {CRITERIA[review.subjectType].map((c) => (
+                    <span key={c.value}>{c.label}: {review.ratings[c.value] ?? "–"}/5</span>
+                ))}
+            </div>
+            {review.comment && <p className="text-sm">{review.comment}</p>}
+        </div>
+    );
+}
+
+export function ReviewDialog({ bookingId, eventTitle, open, onOpenChange }: ReviewDialogProps) {
+    const { data, isLoading } = useBookingReviews(bookingId, open);
+    const submitReview = useSubmitReview();
+    const [ratings, setRatings] = useState<Record<string, number>>({});
+    const [comment, setComment] = useState("");
+
+    const subject = data?.pendingSubjects[0];
+    const criteria = subject ? CRITERIA[subject] : [];
+    const complete = criteria.length > 0 && criteria.every((c) => ratings[c.value]);
+
+    const reset = () => {
+        setRatings({});
+        setComment("");
+    };
+
+    const close = (next: boolean) => {
+        if (!next) reset();
+        onOpenChange(next);
+    };
+
+    const submit = () => {
+        if (!subject) return;
+        submitReview.mutate(
+            { bookingId, subjectType: subject, ratings: ratings as any, comment: comment.trim() || undefined },
+            { onSuccess: reset },
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={close}>
+            <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{subject ? `Review the ${SUBJECT_LABELS[subject].toLowerCase()}` : "Reviews"}</DialogTitle>
+                    <DialogDescription>
+                        {eventTitle ? `${eventTitle}. ` : ""}
+                        {data?.revealed
+                            ? "Reviews for this booking have been published."
+                            : data?.windowClosesAt
+                                ? `Reviews stay hidden until both sides submit or ${format(new Date(data.windowClosesAt), "PPP")}.`
+                                : "Reviews stay hidden until both sides submit or the review window closes."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {subject && (
+                            <div className="space-y-3">
+                                {criteria.map((c) => (
+                                    <div key={c.value} className="flex items-center justify-between gap-4">
+                                        <Label>{c.label}</Label>
+                                        <StarInput
+                                            value={ratings[c.value] || 0}
+                                            onChange={(value) => setRatings((prev) => ({ ...prev, [c.value]: value }))}
+                                        />
+                                    </div>
+                                ))}
+                                <div className="space-y-1.5">
+                                    <Label>Comment (optional)</Label>
+                                    <Textarea
+                                        rows={3}
+                                        maxLength={2000}
+                                        placeholder="What went well, what could be better…"
+                                        value={comment}
+                                        onChange={(e) => setComment(e.target.value)}
+                                        className="resize-none"
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {data && data.reviews.length > 0 && (
+                            <div className="space-y-2">
+                                {subject && <h4 className="text-sm font-semibold text-muted-foreground">Submitted</h4>}
+                                {data.reviews.map((review) => <ReviewCard key={review.id} review={review} />)}
+                            </div>
+                        )}
+
+                        {!subject && data?.reviews.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No reviews for this booking.</p>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {subject ? (
+                        <Button onClick={submit} disabled={!complete || submitReview.isPending}>
+                            {submitReview.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Submit Review
+                        </Button>
+                    ) : (
+                        <Button variant="outline" onClick={() => close(false)}>Close</Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,46 @@
+/**
+ * RecoveryCodesList — shows freshly issued recovery codes once, with copy
+ * and download. The server only keeps hashes, so they cannot be shown again.
+ */
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`BANDWIDTH recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "bandwidth-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these codes somewhere safe. Each one works once if you lose access to your authenticator app.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-white/10 bg-background/50 p-4 font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy}>
+          <Copy className="w-4 h-4 mr-2" /> Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="w-4 h-4 mr-2" /> Download
+        </Button>
+      </div>
+    </div>
+  );
+}
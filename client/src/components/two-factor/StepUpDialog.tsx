@@ -0,0 +1,98 @@
+/**
+ * StepUpDialog — asks for a fresh two-factor code before a sensitive action
+ * (contract signing). `onVerified` runs the action; the check it earns is
+ * spent by that one request.
+ */
+import { useState } from "react";
+import { Link } from "wouter";
+import { Loader2, ShieldCheck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useStepUp, useTwoFactorStatus } from "@/hooks/use-two-factor";
+import { TwoFactorCodeInput } from "./TwoFactorCodeInput";
+
+interface StepUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What the code unlocks, e.g. "sign this contract" */
+  action: string;
+  onVerified: () => void;
+}
+
+export function StepUpDialog({ open, onOpenChange, action, onVerified }: StepUpDialogProps) {
+  const { data: status, isLoading } = useTwoFactorStatus(open);
+  const stepUp = useStepUp();
+  const [code, setCode] = useState("");
+
+  const close = (next: boolean) => {
+    if (!next) {
+      setCode("");
+      stepUp.reset();
+    }
+    onOpenChange(next);
+  };
+
+  const submit = (value: string) => {
+    if (!value.trim()) return;
+    stepUp.mutate(value, {
+      onSuccess: () => {
+        close(false);
+        onVerified();
+      },
+      onError: () => setCode(""),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" /> Confirm it's you
+          </DialogTitle>
+          <DialogDescription>
+            {status && !status.enabled
+              ? `Turn on two-factor authentication to ${action}.`
+              : `Enter the code from your authenticator app to ${action}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : status && !status.enabled ? (
+          <DialogFooter>
+            <Button asChild className="w-full">
+              <Link href="/settings/security">Set up two-factor authentication</Link>
+            </Button>
+          </DialogFooter>
+        ) : (
+          <>
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={submit}
+              allowRecovery
+              disabled={stepUp.isPending}
+            />
+            {stepUp.error && <p className="text-sm text-center text-destructive">{stepUp.error.message}</p>}
+            <DialogFooter>
+              <Button className="w-full" onClick={() => submit(code)} disabled={!code.trim() || stepUp.isPending}>
+                {stepUp.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verify
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * TwoFactorCodeInput — six-digit authenticator code entry, with a switch to
+ * type a recovery code instead when `allowRecovery` is set.
+ */
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when a full six-digit code has been typed */
+  onComplete?: (value: string) => void;
+  allowRecovery?: boolean;
+  disabled?: boolean;
+}
+
+export function TwoFactorCodeInput({ value, onChange, onComplete, allowRecovery = false, disabled }: TwoFactorCodeInputProps) {
+  const [useRecovery, setUseRecovery] = useState(false);
+
+  const toggle = () => {
+    setUseRecovery(!useRecovery);
+    onChange("");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {useRecovery ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          disabled={disabled}
+          className="text-center font-mono tracking-widest"
+        />
+      ) : (
+        <InputOTP
+          maxLength={6}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={value}
+          onChange={onChange}
+          onComplete={onComplete}
+          autoComplete="one-time-code"
+          autoFocus
+          disabled={disabled}
+        >
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, i) => (
+              <InputOTPSlot key={i} index={i} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      {allowRecovery && (
+        <button type="button" onClick={toggle} className="text-xs text-muted-foreground hover:text-primary">
+          {useRecovery ? "Use your authenticator app" : "Use a recovery code"}
+        </button>
+      )}
+    </div>
+  );
+}
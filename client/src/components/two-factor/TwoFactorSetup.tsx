@@ -0,0 +1,71 @@
+/**
+ * TwoFactorSetup — enrolment flow: scan the QR code (or type the secret),
+ * confirm the first code, then save the recovery codes.
+ */
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBeginTwoFactorSetup, useEnableTwoFactor } from "@/hooks/use-two-factor";
+import { TwoFactorCodeInput } from "./TwoFactorCodeInput";
+import { RecoveryCodesList } from "./RecoveryCodesList";
+
+interface TwoFactorSetupProps {
+  /** Called after the user has seen their recovery codes */
+  onDone: () => void;
+}
+
+export function TwoFactorSetup({ onDone }: TwoFactorSetupProps) {
+  const beginSetup = useBeginTwoFactorSetup();
+  const enable = useEnableTwoFactor();
+  const [code, setCode] = useState("");
+  const { mutate: begin } = beginSetup;
+  // Each call replaces the pending secret, so only start setup once
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    begin();
+  }, [begin]);
+
+  if (enable.data) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={enable.data.recoveryCodes} />
+        <Button className="w-full" onClick={onDone}>I have saved my recovery codes</Button>
+      </div>
+    );
+  }
+
+  if (!beginSetup.data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const confirm = (value: string) => {
+    if (value.length === 6) enable.mutate(value);
+  };
+
+  return (
+    <div className="space-y-5">
+      <ol className="list-decimal pl-5 space-y-1 text-sm text-muted-foreground">
+        <li>Open an authenticator app such as Google Authenticator, 1Password or Authy.</li>
+        <li>Scan the QR code, or enter the key by hand.</li>
+        <li>Type the 6-digit code the app shows.</li>
+      </ol>
+      <div className="flex flex-col items-center gap-3">
+        <img src={beginSetup.data.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48 rounded-lg bg-white p-2" />
+        <code className="text-xs break-all text-center text-muted-foreground">{beginSetup.data.secret}</code>
+      </div>
+      <TwoFactorCodeInput value={code} onChange={setCode} onComplete={confirm} disabled={enable.isPending} />
+      {enable.error && <p className="text-sm text-center text-destructive">{enable.error.message}</p>}
+      <Button className="w-full" onClick={() => confirm(code)} disabled={code.length !== 6 || enable.isPending}>
+        {enable.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Turn on two-factor authentication
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { useToast } from "./use-toast";
+
+async function post<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+export function useResendVerification() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: () =>
+      post<{ emailSent: boolean }>(api.auth.resendVerification.path, undefined, "Failed to send verification email"),
+    onSuccess: ({ emailSent }) => {
+      toast(emailSent
+        ? { title: "Verification email sent", description: "Check your inbox for the link." }
+        : { title: "Email could not be sent", description: "Please try again later.", variant: "destructive" });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useVerifyEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) =>
+      post<{ verified: true }>(api.auth.verifyEmail.path, { token }, "Failed to verify email"),
+    // The signed-in user's status changes from pending_verification to active
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/user"] }),
+  });
+}
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: (email: string) =>
+      post<{ message: string }>(api.auth.forgotPassword.path, { email }, "Failed to request a reset link"),
+  });
+}
+
+export function useResetPassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { token: string; password: string }) =>
+      post<{ message: string }>(api.auth.resetPassword.path, data, "Failed to reset password"),
+    // A reset signs the account out everywhere, including this browser
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/user"] }),
+  });
+}
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "./use-toast";
+
+export interface PermissionDefinition {
+  key: string;
+  group: string;
+  label: string;
+}
+
+export interface RolePermissions {
+  role: string;
+  permissions: string[];
+  configured: boolean;
+  editable: boolean;
+}
+
+export interface PermissionCatalog {
+  permissions: PermissionDefinition[];
+  roles: RolePermissions[];
+}
+
+/** Roles that can open the admin panel; what they see depends on their permissions */
+export const ADMIN_PANEL_ROLES = ["platform_admin", "admin", "staff"];
+
+export function isAdminPanelRole(role: string | null | undefined): boolean {
+  return !!role && ADMIN_PANEL_ROLES.includes(role);
+}
+
+/** The active role's admin permissions; refetched when the role changes */
+export function useAdminPermissions(role: string | null | undefined) {
+  return useQuery({
+    queryKey: ["admin", "me", "permissions", role],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/me/permissions", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch permissions");
+      return await res.json() as { role: string; permissions: string[] };
+    },
+    enabled: isAdminPanelRole(role),
+  });
+}
+
+export function usePermissionCatalog() {
+  return useQuery({
+    queryKey: ["admin", "permissions"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/permissions", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch permissions");
+      return await res.json() as PermissionCatalog;
+    },
+  });
+}
+
+export function useUpdateRolePermissions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ role, permissions }: { role: string; permissions: string[] }) => {
+      const res = await fetch(`/api/admin/roles/${role}/permissions`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ permissions }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update permissions");
+      }
+      return await res.json() as RolePermissions;
+    },
+    onSuccess: (_result, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "me", "permissions"] });
+      toast({ title: `Permissions for ${role.replace(/_/g, " ")} updated` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
@@ -1,11 +1,35 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
+import type { Artist } from "@shared/schema";
 import { z } from "zod";
 import { useToast } from "./use-toast";
 
 type ArtistListResponse = z.infer<typeof api.artists.list.responses[200]>;
 type ArtistFilters = z.infer<typeof api.artists.list.input>;
 
+export type ArtistSearchFilters = Omit<z.input<typeof api.artists.search.input>, "cursor">;
+export type ArtistSort = NonNullable<ArtistSearchFilters["sort"]>;
+
+export interface ArtistSearchHit extends Artist {
+  user: { id: number; name: string };
+  genres: string[];
+  city: string | null;
+  relevance: number | null;
+}
+
+export interface FacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface ArtistSearchPage {
+  results: ArtistSearchHit[];
+  nextCursor: string | null;
+  total: number;
+  facets: Record<"genre" | "category" | "city" | "fee", FacetBucket[]>;
+}
+
 export function useArtists(filters?: ArtistFilters) {
   return useQuery({
     queryKey: [api.artists.list.path, filters],
@@ -25,6 +49,26 @@ export function useArtists(filters?: ArtistFilters) {
   });
 }
 
+/** Server-side artist search; each page carries the cursor for the next */
+export function useArtistSearch(filters: ArtistSearchFilters) {
+  return useInfiniteQuery({
+    queryKey: [api.artists.search.path, filters],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== null && value !== "") params.append(key, String(value));
+      }
+      if (pageParam) params.append("cursor", pageParam);
+
+      const res = await fetch(`${api.artists.search.path}?${params.toString()}`);
+      if (!res.ok) throw new Error("Failed to search artists");
+      return await res.json() as ArtistSearchPage;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+}
+
 export function useArtist(id: number) {
   return useQuery({
     queryKey: [api.artists.get.path, id],
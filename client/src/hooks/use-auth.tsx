@@ -4,24 +4,33 @@ import { insertUserSchema, type User, type Artist, type Organizer, type Venue }
 import { api, type errorSchemas } from "@shared/routes";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { closeWebSocket } from "@/lib/ws";
 
 // Extended AuthUser type with role and related profiles
 export type AuthUser = User & {
   artist?: Artist;
   organizer?: Organizer;
   venue?: Venue;
-  role?: string; // Computed from metadata or user roles
+  role?: string; // Active role for this session (one of `roles`), or the acting profile's role
+  roles?: string[]; // Every role the user holds, primary first
   name?: string; // Alias for displayName
+  // Organization profile chosen in the profile switcher; absent when acting as the user's own profile
+  actingProfile?: { type: "artist" | "organizer" | "venue"; id: number; name: string; organizationName: string | null };
 };
 
+// Role the app behaves as while acting for an organization profile
+const ACTING_PROFILE_ROLES = { artist: "artist", organizer: "organizer", venue: "venue_manager" } as const;
+
 // Helper to enrich user data with role and name
-function enrichUser(userData: any): AuthUser {
+export function enrichUser(userData: any): AuthUser {
   if (!userData) return userData;
 
   const enriched = { ...userData };
   const metadata = enriched.metadata as any;
 
-  enriched.role = metadata?.role || (enriched.artist ? 'artist' : 'user');
+  enriched.role = enriched.actingProfile
+    ? ACTING_PROFILE_ROLES[enriched.actingProfile.type as keyof typeof ACTING_PROFILE_ROLES]
+    : enriched.role || metadata?.role || (enriched.artist ? 'artist' : 'user');
   enriched.name = enriched.displayName || enriched.firstName || enriched.username || 'User';
 
   return enriched;
@@ -32,6 +41,7 @@ type AuthContextType = {
   isLoading: boolean;
   error: Error | null;
   loginMutation: ReturnType<typeof useLoginMutation>;
+  twoFactorLoginMutation: ReturnType<typeof useTwoFactorLoginMutation>;
   logoutMutation: ReturnType<typeof useLogoutMutation>;
   registerMutation: ReturnType<typeof useRegisterMutation>;
 };
@@ -55,6 +65,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const loginMutation = useLoginMutation();
+  const twoFactorLoginMutation = useTwoFactorLoginMutation();
   const logoutMutation = useLogoutMutation();
   const registerMutation = useRegisterMutation();
 
@@ -65,6 +76,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error: error as Error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -99,10 +111,12 @@ function useLoginMutation() {
         const error = await res.json();
         throw new Error(error.message || "Login failed");
       }
-      return await res.json();
+      return await res.json() as AuthUser | { twoFactorRequired: true };
     },
-    onSuccess: (user) => {
-      queryClient.setQueryData(["/api/user"], enrichUser(user));
+    onSuccess: (result) => {
+      // Accounts with 2FA finish signing in through twoFactorLoginMutation
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], enrichUser(result));
       toast({ title: "Welcome back!", description: "You have successfully logged in." });
     },
     onError: (error: Error) => {
@@ -111,6 +125,33 @@ function useLoginMutation() {
   });
 }
 
+function useTwoFactorLoginMutation() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(api.auth.twoFactorLogin.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        // 401 means the challenge expired or ran out of attempts
+        throw Object.assign(new Error(error.message || "Verification failed"), { restart: res.status === 401 });
+      }
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], enrichUser(user));
+      toast({ title: "Welcome back!", description: "You have successfully logged in." });
+    },
+  });
+}
+
 function useRegisterMutation() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -151,6 +192,7 @@ function useLogoutMutation() {
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
       queryClient.clear(); // Clear all data on logout
+      closeWebSocket(); // The socket is bound to the old session
       toast({ title: "Logged out", description: "See you next time!" });
     },
     onError: (error: Error) => {
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { ArtistAvailability } from "@shared/schema";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type AvailabilityInput = z.infer<typeof api.availability.create.input>;
+type CalendarSubscription = z.infer<typeof api.calendar.subscription.responses[200]>;
+
+export interface CalendarEntry {
+  id: string;
+  type: "booking" | "event" | "availability";
+  title: string;
+  start: string;
+  end: string | null;
+  allDay: boolean;
+  timezone: string | null;
+  status?: string | null;
+  bookingId?: number;
+  eventId?: number;
+  availabilityId?: number;
+  kind?: string;
+}
+
+export function useAvailability() {
+  return useQuery({
+    queryKey: [api.availability.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.availability.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch availability");
+      return await res.json() as ArtistAvailability[];
+    },
+  });
+}
+
+export function useCalendar(params: { from?: string; to?: string; artistId?: number } = {}) {
+  return useQuery({
+    queryKey: [api.calendar.feed.path, params],
+    queryFn: async () => {
+      const query = new URLSearchParams();
+      if (params.from) query.set("from", params.from);
+      if (params.to) query.set("to", params.to);
+      if (params.artistId) query.set("artistId", String(params.artistId));
+      const res = await fetch(`${api.calendar.feed.path}?${query}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch calendar");
+      return await res.json() as CalendarEntry[];
+    },
+  });
+}
+
+export function useCreateAvailability() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: AvailabilityInput) => {
+      const res = await fetch(api.availability.create.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to save availability");
+      }
+      return await res.json() as ArtistAvailability;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.availability.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.calendar.feed.path] });
+      toast({ title: "Availability Updated", description: "Organizers won't be able to book you for these dates." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteAvailability() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.availability.delete.path, { id });
+      const res = await fetch(url, { method: "DELETE", credentials: "include" });
+      if (!res.ok) throw new Error("Failed to remove availability entry");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.availability.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.calendar.feed.path] });
+      toast({ title: "Entry Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useCalendarSubscription(enabled: boolean = true) {
+  return useQuery({
+    queryKey: [api.calendar.subscription.path],
+    queryFn: async () => {
+      const res = await fetch(api.calendar.subscription.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch calendar link");
+      return await res.json() as CalendarSubscription;
+    },
+    enabled,
+  });
+}
+
+export function useRotateCalendarSubscription() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.calendar.rotateSubscription.path, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to reset calendar link");
+      return await res.json() as CalendarSubscription;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([api.calendar.subscription.path], data);
+      toast({ title: "Calendar Link Reset", description: "Calendars using the old link will stop updating." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -4,7 +4,7 @@ import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
 type CreateBookingInput = z.infer<typeof api.bookings.create.input>;
-type UpdateBookingInput = z.infer<typeof api.bookings.update.input>;
+type UpdateBookingInput = z.input<typeof api.bookings.update.input>;
 
 export function useBookings() {
   return useQuery({
@@ -59,15 +59,91 @@ export function useUpdateBooking() {
         body: JSON.stringify(updates),
       });
 
-      if (!res.ok) throw new Error("Failed to update booking");
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update booking");
+      }
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
-      toast({ title: "Booking Updated", description: "Status changed successfully." });
+      toast({ title: "Booking Updated", description: "Your changes have been saved." });
     },
     onError: (error: Error) => {
       toast({ title: "Update Failed", description: error.message, variant: "destructive" });
     },
   });
 }
+
+/** Accept a pending booking request or walk away from it through the negotiation flow */
+export function useRespondToBooking() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, action, reason }: { id: number; action: "accept" | "walkaway"; reason?: string }) => {
+      const url = buildUrl(api.bookings.negotiationAction.path, { id });
+      const res = await fetch(url, {
+        method: api.bookings.negotiationAction.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to respond to booking");
+      }
+      return await res.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+      toast({
+        title: action === "accept" ? "Booking Accepted" : "Booking Declined",
+        description: "The other side has been notified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+type CompletionInput = z.infer<typeof api.bookings.complete.input>;
+
+/** The caller's side confirms the event took place; the booking completes once both sides have */
+export function useConfirmCompletion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & CompletionInput) => {
+      const url = buildUrl(api.bookings.complete.path, { id });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to confirm completion");
+      }
+      return await res.json();
+    },
+    onSuccess: (booking) => {
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.organizer.bookings.list.path] });
+      toast({
+        title: "Completion Confirmed",
+        description: booking?.status === "completed"
+          ? "Both sides have confirmed. The artist payout is queued and reviews are open."
+          : "Waiting for the other side to confirm.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Completion Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { BookingCancellation } from "@shared/schema";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type CancelBookingInput = z.infer<typeof api.cancellations.cancel.input>;
+
+export interface CancellationSettlement {
+  cancelledBy: "artist" | "organizer" | "force_majeure";
+  daysBeforeEvent: number;
+  tier: { minDaysBefore: number; penaltyPct: number; depositForfeited: boolean } | null;
+  paid: number;
+  penalty: number;
+  refundToOrganizer: number;
+  retainedFromEscrow: number;
+  feeDue: number;
+  artistCompensation: number;
+  organizerCompensation: number;
+  platformRetained: number;
+}
+
+export interface PenaltyWindow {
+  minDaysBefore: number;
+  maxDaysBefore: number | null;
+  penaltyPct: number;
+  depositForfeited: boolean;
+}
+
+/** What cancelling now would cost the caller's side */
+export interface CancellationQuote {
+  bookingId: number;
+  contractId: number | null;
+  policyVersion: number | null;
+  settlement: CancellationSettlement;
+  schedule: PenaltyWindow[];
+}
+
+/** Either the recorded cancellation, or a quote while the booking can still be cancelled */
+export interface BookingCancellationState {
+  cancellation: BookingCancellation | null;
+  quote: CancellationQuote | null;
+  message?: string;
+}
+
+export function useBookingCancellation(bookingId: number | undefined, enabled = true) {
+  return useQuery({
+    queryKey: [api.cancellations.get.path, bookingId],
+    queryFn: async () => {
+      const url = buildUrl(api.cancellations.get.path, { id: bookingId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch cancellation");
+      return await res.json() as BookingCancellationState;
+    },
+    enabled: !!bookingId && enabled,
+  });
+}
+
+export function useCancelBooking() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, ...data }: { bookingId: number } & CancelBookingInput) => {
+      const url = buildUrl(api.cancellations.cancel.path, { id: bookingId });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to cancel booking");
+      }
+      return await res.json() as BookingCancellation;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [api.cancellations.get.path, variables.bookingId] });
+      queryClient.invalidateQueries({ queryKey: [api.organizer.bookings.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+      toast({
+        title: "Booking Cancelled",
+        description: "Refunds and any cancellation fee follow the contract's cancellation policy.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel booking",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,174 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ContractAmendment } from "@shared/schema";
+import { useToast } from "./use-toast";
+
+export interface TermChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ClauseDiff {
+  clause: string;
+  label: string;
+  changes: TermChange[];
+}
+
+export type AmendmentStep = "review" | "accept" | "sign" | "waiting";
+
+/** An amendment as the parties see it: its amended text and the caller's next step */
+export interface ContractAmendmentView extends Omit<ContractAmendment, "diff"> {
+  diff: ClauseDiff[];
+  contractText: string | null;
+  nextStep: AmendmentStep | null;
+}
+
+export interface PendingAmendment {
+  amendment: Omit<ContractAmendment, "diff"> & { diff: ClauseDiff[] };
+  bookingId: number | null;
+}
+
+export interface AmendmentProposal {
+  reason: string;
+  changes: Record<string, unknown>;
+}
+
+async function post<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+const amendmentsKey = (contractId: number) => ["contract-amendments", contractId];
+
+export function useContractAmendments(contractId: number | undefined) {
+  return useQuery({
+    queryKey: amendmentsKey(contractId!),
+    queryFn: async () => {
+      const res = await fetch(`/api/contracts/${contractId}/amendments`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch amendments");
+      return await res.json() as ContractAmendmentView[];
+    },
+    enabled: !!contractId,
+  });
+}
+
+/**
+ * Every step of an amendment on one contract. Each mutation refreshes the
+ * amendment list and the contract itself, which changes once an amendment
+ * applies.
+ */
+export function useAmendmentActions(contractId: number, bookingId: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: amendmentsKey(contractId) });
+    queryClient.invalidateQueries({ queryKey: [`contract-${bookingId}`] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const base = `/api/contracts/${contractId}/amendments`;
+
+  const propose = useMutation({
+    mutationFn: (proposal: AmendmentProposal) =>
+      post<ContractAmendment>(base, proposal, "Failed to propose amendment"),
+    onSuccess: (amendment) => {
+      refresh();
+      toast({
+        title: "Amendment proposed",
+        description: amendment.feeChanged
+          ? "The other party reviews it next. Fee changes also need admin approval after signing."
+          : "The other party reviews it next.",
+      });
+    },
+    onError,
+  });
+
+  const review = useMutation({
+    mutationFn: ({ id, decision, note }: { id: number; decision: "approve" | "reject"; note?: string }) =>
+      post<ContractAmendment>(`${base}/${id}/review`, { decision, note }, "Review failed"),
+    onSuccess: (_, { decision }) => {
+      refresh();
+      toast({ title: decision === "approve" ? "Amendment approved" : "Amendment rejected" });
+    },
+    onError,
+  });
+
+  const accept = useMutation({
+    mutationFn: (id: number) => post<ContractAmendment>(`${base}/${id}/accept`, { agreed: true }, "Accept failed"),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Amendment accepted", description: "You may now sign the amendment." });
+    },
+    onError,
+  });
+
+  const sign = useMutation({
+    mutationFn: ({ id, signatureData }: { id: number; signatureData: string }) =>
+      post<{ amendment: ContractAmendment }>(`${base}/${id}/sign`, { signatureData, signatureMethod: "type" }, "Sign failed"),
+    onSuccess: ({ amendment }) => {
+      refresh();
+      toast({
+        title: "Amendment signed",
+        description: amendment.status === "applied"
+          ? "Both parties have signed. The amended contract is now in force."
+          : amendment.status === "admin_review"
+            ? "Both parties have signed. The fee change is with an admin for approval."
+            : "Waiting for the other party to sign.",
+      });
+    },
+    onError,
+  });
+
+  const withdraw = useMutation({
+    mutationFn: ({ id, note }: { id: number; note?: string }) =>
+      post<ContractAmendment>(`${base}/${id}/withdraw`, { note }, "Withdraw failed"),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Amendment withdrawn" });
+    },
+    onError,
+  });
+
+  return { propose, review, accept, sign, withdraw };
+}
+
+export function usePendingAmendments(enabled = true) {
+  return useQuery({
+    queryKey: ["admin", "contract-amendments", "pending"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/contract-amendments/pending", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch amendments");
+      return await res.json() as PendingAmendment[];
+    },
+    enabled,
+  });
+}
+
+/** Approving applies the amendment: contract, booking fee, escrow and invoices follow */
+export function useReviewAmendment() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, status, note }: { id: number; status: "approved" | "rejected"; note?: string }) =>
+      post<ContractAmendment>(`/api/admin/contract-amendments/${id}/review`, { status, note }, "Admin review failed"),
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "contract-amendments", "pending"] });
+      toast({ title: status === "approved" ? "Amendment approved and applied" : "Amendment rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ContractClause, ContractTemplate } from "@shared/schema";
+import { useToast } from "./use-toast";
+
+export interface ClauseLibrary {
+  revision: number;
+  clauses: Pick<ContractClause, "key" | "version" | "title" | "body" | "numbered">[];
+  placeholders: Record<string, string>;
+}
+
+export interface TemplateInput {
+  name: string;
+  description?: string | null;
+  title: string;
+  locale: string;
+  clauseKeys: string[];
+  artistCategory: string | null;
+  eventType: string | null;
+  active: boolean;
+}
+
+async function send<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+export function useClauseLibrary() {
+  return useQuery({
+    queryKey: ["admin", "contract-clauses"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/contract-clauses", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch clause library");
+      return await res.json() as ClauseLibrary;
+    },
+  });
+}
+
+export function useContractTemplates() {
+  return useQuery({
+    queryKey: ["admin", "contract-templates"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/contract-templates", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch contract templates");
+      return await res.json() as ContractTemplate[];
+    },
+  });
+}
+
+/** Saving a clause adds the next library revision; templates pick it up for new contracts */
+export function useSaveClause() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ key, ...clause }: { key: string; title: string; body: string; numbered: boolean }) =>
+      send<ContractClause>(`/api/admin/contract-clauses/${key}`, clause, "Failed to save clause"),
+    onSuccess: (clause) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "contract-clauses"] });
+      toast({ title: `Clause saved as library revision ${clause.version}` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useSaveTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ key, template }: { key: string; template: TemplateInput }) =>
+      send<ContractTemplate>(`/api/admin/contract-templates/${key}`, template, "Failed to save template"),
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "contract-templates"] });
+      toast({ title: `${template.name} saved as version ${template.version}` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
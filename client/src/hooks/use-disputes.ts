@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type OpenDisputeInput = z.infer<typeof api.disputes.open.input>;
+
+export function useBookingDisputes(bookingId: number | undefined) {
+  return useQuery({
+    queryKey: [api.disputes.listForBooking.path, bookingId],
+    queryFn: async () => {
+      const url = buildUrl(api.disputes.listForBooking.path, { id: bookingId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch disputes");
+      return await res.json() as any[];
+    },
+    enabled: !!bookingId,
+  });
+}
+
+export function useOpenDispute() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, ...data }: { bookingId: number } & OpenDisputeInput) => {
+      const url = buildUrl(api.disputes.open.path, { id: bookingId });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to open dispute");
+      }
+      return await res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [api.disputes.listForBooking.path, variables.bookingId] });
+      queryClient.invalidateQueries({ queryKey: [api.organizer.bookings.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+      toast({
+        title: "Dispute Opened",
+        description: "Our team will review it. The artist payout is on hold meanwhile.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not open dispute",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -2,20 +2,24 @@ import { useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { api } from "@shared/routes";
-import { onWsMessage, authenticateWs } from "@/lib/ws";
+import { onWsMessage, bindWsToUser } from "@/lib/ws";
 import { playNotificationSound } from "@/lib/notification-sound";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { z } from "zod";
+
+export type NotificationPreferences = z.infer<typeof api.notifications.preferences.responses[200]>;
+type NotificationPreferencesUpdate = z.infer<typeof api.notifications.updatePreferences.input>;
 
 export function useNotifications() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { user } = useAuth();
 
-  // Authenticate WebSocket for notifications when user is available
+  // Open the session-authenticated WebSocket once the user is known
   useEffect(() => {
     if (user?.id) {
-      authenticateWs(user.id);
+      bindWsToUser(user.id);
     }
   }, [user?.id]);
 
@@ -67,6 +71,9 @@ export function useNotifications() {
         (old: any) => ({ count: (old?.count || 0) + 1 })
       );
 
+      // Inside the user's quiet hours the notification is stored quietly
+      if (notification.silent) return;
+
       // Play sound
       playNotificationSound(notification.priority === "urgent" ? "urgent" : "normal");
 
@@ -111,3 +118,42 @@ export function useNotifications() {
     markAllRead: markAllReadMutation.mutate,
   };
 }
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: [api.notifications.preferences.path],
+    queryFn: async () => {
+      const res = await fetch(api.notifications.preferences.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch notification preferences");
+      return await res.json() as NotificationPreferences;
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: NotificationPreferencesUpdate) => {
+      const res = await fetch(api.notifications.updatePreferences.path, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.errors?.[0]?.message || error.message || "Failed to save notification preferences");
+      }
+      return await res.json() as NotificationPreferences;
+    },
+    onSuccess: (view) => {
+      queryClient.setQueryData([api.notifications.preferences.path], view);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
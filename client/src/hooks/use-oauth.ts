@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "./use-toast";
+
+export interface OAuthProvider {
+  name: string;
+  label: string;
+}
+
+export interface LinkedAccount {
+  id: number;
+  provider: string;
+  label: string;
+  email: string | null;
+  name: string | null;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/** Browser URL that starts sign-in (or linking) at the provider */
+export function oauthStartUrl(provider: string, mode: "login" | "link", next?: string): string {
+  const params = new URLSearchParams();
+  if (mode === "link") params.set("mode", "link");
+  if (next) params.set("next", next);
+  const query = params.toString();
+  return `${buildUrl(api.auth.oauthStart.path, { provider })}${query ? `?${query}` : ""}`;
+}
+
+export function useOAuthProviders() {
+  return useQuery({
+    queryKey: [api.auth.oauthProviders.path],
+    queryFn: async () => {
+      const res = await fetch(api.auth.oauthProviders.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch sign-in providers");
+      return await res.json() as OAuthProvider[];
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useLinkedAccounts() {
+  return useQuery({
+    queryKey: [api.auth.oauthLinks.path],
+    queryFn: async () => {
+      const res = await fetch(api.auth.oauthLinks.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch linked accounts");
+      return await res.json() as LinkedAccount[];
+    },
+  });
+}
+
+export function useUnlinkAccount() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.auth.oauthUnlink.path, { id }), {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to unlink account");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.auth.oauthLinks.path] });
+      toast({ title: "Account unlinked" });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
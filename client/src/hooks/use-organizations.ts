@@ -0,0 +1,270 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type CreateOrganizationInput = z.infer<typeof api.organizations.create.input>;
+type InviteInput = z.input<typeof api.organizations.invite.input>;
+
+export type OrganizationRole = "owner" | "manager" | "viewer";
+export type ProfileType = "artist" | "organizer" | "venue";
+export type InviteState = "pending" | "accepted" | "revoked" | "expired";
+
+export interface ProfileRef {
+  type: ProfileType;
+  id: number;
+}
+
+export interface OrganizationProfile extends ProfileRef {
+  name: string;
+  userId: number | null;
+  organizationId: number | null;
+}
+
+export interface ActingProfile extends OrganizationProfile {
+  organizationName: string | null;
+  own: boolean;
+}
+
+export interface OrganizationSummary {
+  id: number;
+  name: string;
+  slug: string | null;
+  description: string | null;
+  website: string | null;
+  role: OrganizationRole;
+  memberCount: number;
+  profileCount: number;
+}
+
+export interface OrganizationDetails extends Omit<OrganizationSummary, "memberCount" | "profileCount"> {
+  members: { userId: number; role: OrganizationRole; joinedAt: string | null; name: string; email: string }[];
+  profiles: OrganizationProfile[];
+  invites: { id: number; email: string; role: OrganizationRole; state: InviteState; expiresAt: string }[];
+}
+
+export interface InvitePreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  state: InviteState;
+}
+
+async function send<T>(method: string, url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+export function useOrganizations() {
+  return useQuery({
+    queryKey: [api.organizations.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.organizations.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch organizations");
+      return await res.json() as OrganizationSummary[];
+    },
+  });
+}
+
+export function useOrganization(id: number | undefined) {
+  return useQuery({
+    queryKey: [api.organizations.get.path, id],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.organizations.get.path, { id: id! }), { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch organization");
+      return await res.json() as OrganizationDetails;
+    },
+    enabled: !!id,
+  });
+}
+
+/** Invalidates everything an organization change can affect */
+function useInvalidateOrganizations() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [api.organizations.list.path] });
+    queryClient.invalidateQueries({ queryKey: [api.organizations.get.path] });
+    queryClient.invalidateQueries({ queryKey: [api.organizations.myProfiles.path] });
+  };
+}
+
+export function useCreateOrganization() {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: CreateOrganizationInput) =>
+      send<OrganizationSummary>("POST", api.organizations.create.path, data, "Failed to create organization"),
+    onSuccess: (organization) => {
+      invalidate();
+      toast({ title: "Organization created", description: `You are the owner of ${organization.name}.` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useDeleteOrganization() {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: number) =>
+      send("DELETE", buildUrl(api.organizations.delete.path, { id }), undefined, "Failed to delete organization"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Organization deleted" });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useUpdateMemberRole(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: OrganizationRole }) =>
+      send("PATCH", buildUrl(api.organizations.updateMember.path, { id: orgId, userId }), { role }, "Failed to update member"),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useRemoveMember(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (userId: number) =>
+      send("DELETE", buildUrl(api.organizations.removeMember.path, { id: orgId, userId }), undefined, "Failed to remove member"),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useInviteMember(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: InviteInput) =>
+      send<{ inviteUrl: string; emailSent: boolean }>(
+        "POST", buildUrl(api.organizations.invite.path, { id: orgId }), data, "Failed to send invite",
+      ),
+    onSuccess: (result, variables) => {
+      invalidate();
+      toast({
+        title: result.emailSent ? "Invite sent" : "Invite created",
+        description: result.emailSent
+          ? `We emailed ${variables.email} a link to join.`
+          : "The email could not be sent. Share the invite link instead.",
+      });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useRevokeInvite(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (inviteId: number) =>
+      send("DELETE", buildUrl(api.organizations.revokeInvite.path, { id: orgId, inviteId }), undefined, "Failed to revoke invite"),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useAddOrganizationProfile(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (profile: ProfileRef) =>
+      send("POST", buildUrl(api.organizations.addProfile.path, { id: orgId }), profile, "Failed to add profile"),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useRemoveOrganizationProfile(orgId: number) {
+  const invalidate = useInvalidateOrganizations();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (profile: ProfileRef) =>
+      send(
+        "DELETE",
+        buildUrl(api.organizations.removeProfile.path, { id: orgId, type: profile.type, profileId: profile.id }),
+        undefined,
+        "Failed to remove profile",
+      ),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useInvitePreview(token: string | undefined) {
+  return useQuery({
+    queryKey: [api.organizations.previewInvite.path, token],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.organizations.previewInvite.path, { token: token! }), { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch invite");
+      return await res.json() as InvitePreview;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useAcceptInvite() {
+  const invalidate = useInvalidateOrganizations();
+
+  return useMutation({
+    mutationFn: (token: string) =>
+      send<{ orgId: number; role: OrganizationRole }>(
+        "POST", buildUrl(api.organizations.acceptInvite.path, { token }), undefined, "Failed to accept invite",
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+/** Profiles the user may act as, and the organization profile they currently act as (null for their own) */
+export function useActingProfiles(enabled = true) {
+  return useQuery({
+    queryKey: [api.organizations.myProfiles.path],
+    queryFn: async () => {
+      const res = await fetch(api.organizations.myProfiles.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch profiles");
+      return await res.json() as { profiles: ActingProfile[]; acting: ProfileRef | null };
+    },
+    enabled,
+  });
+}
+
+export function useSwitchActingProfile() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (profile: ProfileRef | null) =>
+      send<{ acting: ActingProfile | null }>("PUT", api.organizations.setActingProfile.path, { profile }, "Failed to switch profile"),
+    onSuccess: ({ acting }) => {
+      // Every role-scoped list depends on the acting profile
+      queryClient.invalidateQueries();
+      toast({ title: acting ? `Acting as ${acting.name}` : "Back to your own profile" });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
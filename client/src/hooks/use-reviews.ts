@@ -0,0 +1,93 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type SubmitReviewInput = z.infer<typeof api.reviews.submit.input>;
+
+export type ReviewSubject = "artist" | "organizer" | "venue";
+
+export interface Review {
+  id: number;
+  bookingId: number;
+  reviewerUserId: number | null;
+  reviewerRole: "artist" | "organizer";
+  subjectType: ReviewSubject;
+  subjectId: number;
+  ratings: Record<string, number>;
+  overallRating: string;
+  comment: string | null;
+  status: "submitted" | "published" | "hidden";
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+export interface BookingReviews {
+  windowClosesAt: string | null;
+  revealed: boolean;
+  pendingSubjects: ReviewSubject[];
+  reviews: Review[];
+}
+
+export function useBookingReviews(bookingId: number | undefined, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [api.reviews.listForBooking.path, bookingId],
+    queryFn: async () => {
+      const url = buildUrl(api.reviews.listForBooking.path, { id: bookingId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reviews");
+      return await res.json() as BookingReviews;
+    },
+    enabled: !!bookingId && enabled,
+  });
+}
+
+export function useSubjectReviews(subjectType: ReviewSubject, subjectId: number | undefined) {
+  return useQuery({
+    queryKey: [api.reviews.listForSubject.path, subjectType, subjectId],
+    queryFn: async () => {
+      const url = buildUrl(api.reviews.listForSubject.path, { subjectType, subjectId: subjectId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reviews");
+      return await res.json() as Review[];
+    },
+    enabled: !!subjectId,
+  });
+}
+
+export function useSubmitReview() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, ...data }: { bookingId: number } & SubmitReviewInput) => {
+      const url = buildUrl(api.reviews.submit.path, { id: bookingId });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to submit review");
+      }
+      return await res.json() as Review;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [api.reviews.listForBooking.path, variables.bookingId] });
+      toast({
+        title: "Review Submitted",
+        description: "Reviews are revealed once both sides have submitted or the review window closes.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not submit review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { enrichUser, type AuthUser } from "./use-auth";
+import { useToast } from "./use-toast";
+import { isAdminPanelRole } from "./use-admin-permissions";
+
+export interface MyRoles {
+  roles: string[];
+  primary: string;
+  active: string;
+  selfAssignable: string[];
+}
+
+export const ROLE_LABELS: Record<string, string> = {
+  artist: "Artist",
+  band_manager: "Band Manager",
+  organizer: "Organizer",
+  promoter: "Promoter",
+  venue_manager: "Venue Manager",
+  venue: "Venue Manager",
+  admin: "Admin",
+  platform_admin: "Platform Admin",
+  staff: "Staff",
+};
+
+export function roleLabel(role: string): string {
+  return ROLE_LABELS[role] ?? role;
+}
+
+/** Where the app opens after switching to a role */
+export function roleHomePath(role: string): string {
+  return isAdminPanelRole(role) ? "/admin/dashboard" : "/dashboard";
+}
+
+/** Where a newly added role finishes setting up its profile */
+export const ROLE_SETUP_PATHS: Record<string, string> = {
+  artist: "/profile/setup",
+  band_manager: "/profile/setup",
+  organizer: "/organizer/setup",
+  venue_manager: "/venue/setup",
+};
+
+async function send<T>(method: string, url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+export function useMyRoles(enabled = true) {
+  return useQuery({
+    queryKey: [api.roles.mine.path],
+    queryFn: async () => {
+      const res = await fetch(api.roles.mine.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch roles");
+      return await res.json() as MyRoles;
+    },
+    enabled,
+  });
+}
+
+/** Switches the session's active role; every role-scoped query is refetched */
+export function useSwitchRole() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (role: string) =>
+      send<AuthUser>("PUT", api.roles.setActive.path, { role }, "Failed to switch role"),
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], enrichUser(user));
+      queryClient.invalidateQueries();
+      toast({ title: `Switched to ${roleLabel(user.role ?? "")}` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useAddRole() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (role: string) =>
+      send<{ roles: string[]; primary: string }>("POST", api.roles.add.path, { role }, "Failed to add role"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.roles.mine.path] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useRemoveRole() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (role: string) =>
+      send<{ roles: string[]; primary: string }>("DELETE", buildUrl(api.roles.remove.path, { role }), undefined, "Failed to remove role"),
+    onSuccess: (_result, role) => {
+      queryClient.invalidateQueries({ queryKey: [api.roles.mine.path] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: `${roleLabel(role)} role removed` });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
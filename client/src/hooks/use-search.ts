@@ -0,0 +1,44 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+
+export type GlobalSearchType = "artist" | "venue" | "event" | "organizer" | "user" | "booking";
+
+/** A run of result text; `match` runs are the parts that matched the query */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface GlobalSearchHit {
+  type: GlobalSearchType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  url: string;
+  highlights: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[] | null;
+  };
+}
+
+export interface GlobalSearchResult {
+  query: string;
+  groups: { type: GlobalSearchType; results: GlobalSearchHit[] }[];
+}
+
+/** Grouped results for the command palette; the server decides which types the role may see */
+export function useGlobalSearch(query: string, enabled = true) {
+  const q = query.trim();
+  return useQuery({
+    queryKey: [api.search.global.path, q],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q });
+      const res = await fetch(`${api.search.global.path}?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to search");
+      return await res.json() as GlobalSearchResult;
+    },
+    enabled: enabled && q.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+}
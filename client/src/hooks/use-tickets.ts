@@ -0,0 +1,360 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "./use-toast";
+import { z } from "zod";
+
+type TicketTierInput = z.infer<typeof api.tickets.createTier.input>;
+type CreateOrderInput = z.infer<typeof api.tickets.createOrder.input>;
+type AddGuestInput = z.infer<typeof api.tickets.addGuest.input>;
+
+export type TicketType = "general" | "vip" | "reserved" | "earlybird" | "guestlist";
+
+export interface TicketTier {
+  id: number;
+  eventId: number;
+  name: string;
+  description: string | null;
+  ticketType: TicketType;
+  price: string;
+  earlyBirdPrice: string | null;
+  earlyBirdEndsAt: string | null;
+  earlyBirdQuota: number | null;
+  currency: string | null;
+  quota: number | null;
+  salesStartAt: string | null;
+  salesEndAt: string | null;
+  maxPerOrder: number;
+  active: boolean;
+  sortOrder: number | null;
+  sold: number;
+  remaining: number | null;
+  saleState: "inactive" | "not_started" | "on_sale" | "ended";
+  currentPrice: number;
+  earlyBird: boolean;
+  earlyBirdRemaining: number | null;
+}
+
+export interface Ticket {
+  id: number;
+  eventId: number;
+  tierId: number | null;
+  orderId: number | null;
+  ticketType: TicketType;
+  code: string;
+  status: "reserved" | "valid" | "used" | "cancelled";
+  price: string;
+  earlyBird: boolean;
+  holderName: string | null;
+  holderEmail: string | null;
+  addedByUserId: number | null;
+  addedByRole: "organizer" | "artist" | null;
+  note: string | null;
+  checkedInAt: string | null;
+  createdAt: string;
+  tierName?: string | null;
+}
+
+export interface TicketOrder {
+  id: number;
+  eventId: number;
+  status: "pending" | "paid" | "cancelled" | "refunded" | "expired";
+  items: { tierId: number; quantity: number; unitPrice: number; earlyBird: number; amount: number }[];
+  totalAmount: string;
+  currency: string | null;
+  expiresAt: string | null;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+export interface OrderWithTickets extends TicketOrder {
+  event: { id: number; title: string; startTime: string } | null;
+  tickets: Ticket[];
+}
+
+export interface TicketStorefront {
+  event: {
+    id: number;
+    title: string;
+    description: string | null;
+    startTime: string;
+    doorTime: string | null;
+    endTime: string | null;
+    currency: string | null;
+  };
+  tiers: TicketTier[];
+}
+
+export interface TicketingSummary {
+  event: {
+    id: number;
+    title: string;
+    startTime: string;
+    visibility: "public" | "private" | null;
+    capacityTotal: number | null;
+    capacitySeated: number | null;
+  };
+  tiers: TicketTier[];
+  totals: {
+    sold: number;
+    reserved: number;
+    guestlist: number;
+    checkedIn: number;
+    capacityRemaining: number | null;
+    revenue: number;
+  };
+}
+
+export interface CheckInOutcome {
+  result: "admitted" | "already_used" | "invalid";
+  message: string;
+  ticket: Ticket | null;
+}
+
+async function send<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || "Request failed");
+  }
+  return await res.json() as T;
+}
+
+export function ticketQrUrl(code: string): string {
+  return buildUrl(api.tickets.qr.path, { code });
+}
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+export function useTicketTiers(eventId: number | undefined) {
+  return useQuery({
+    queryKey: [api.tickets.listTiers.path, eventId],
+    queryFn: async () => {
+      const url = buildUrl(api.tickets.listTiers.path, { id: eventId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch ticket tiers");
+      return await res.json() as TicketStorefront;
+    },
+    enabled: !!eventId,
+  });
+}
+
+export function useTicketingSummary(eventId: number | undefined) {
+  return useQuery({
+    queryKey: [api.tickets.summary.path, eventId],
+    queryFn: async () => {
+      const url = buildUrl(api.tickets.summary.path, { id: eventId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch ticketing summary");
+      return await res.json() as TicketingSummary;
+    },
+    enabled: !!eventId,
+  });
+}
+
+function useInvalidateTicketing() {
+  const queryClient = useQueryClient();
+  return (eventId: number) => {
+    queryClient.invalidateQueries({ queryKey: [api.tickets.summary.path, eventId] });
+    queryClient.invalidateQueries({ queryKey: [api.tickets.listTiers.path, eventId] });
+    queryClient.invalidateQueries({ queryKey: [api.tickets.guestlist.path, eventId] });
+  };
+}
+
+export function useSaveTicketTier(eventId: number) {
+  const invalidate = useInvalidateTicketing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ tierId, ...data }: { tierId?: number } & TicketTierInput) => {
+      if (tierId) {
+        return send<TicketTier>("PATCH", buildUrl(api.tickets.updateTier.path, { id: tierId }), data);
+      }
+      return send<TicketTier>("POST", buildUrl(api.tickets.createTier.path, { id: eventId }), data);
+    },
+    onSuccess: (_, variables) => {
+      invalidate(eventId);
+      toast({ title: variables.tierId ? "Tier updated" : "Tier added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save tier", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useRemoveTicketTier(eventId: number) {
+  const invalidate = useInvalidateTicketing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (tierId: number) =>
+      send<{ deleted: boolean }>("DELETE", buildUrl(api.tickets.deleteTier.path, { id: tierId })),
+    onSuccess: (result) => {
+      invalidate(eventId);
+      toast({
+        title: result.deleted ? "Tier deleted" : "Tier deactivated",
+        description: result.deleted ? undefined : "Tickets were already sold from this tier, so it was taken off sale instead.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not remove tier", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+export function useMyTickets() {
+  return useQuery({
+    queryKey: [api.tickets.mine.path],
+    queryFn: async () => {
+      const res = await fetch(api.tickets.mine.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch tickets");
+      return await res.json() as OrderWithTickets[];
+    },
+  });
+}
+
+/** Reserves the tickets, then pays for them straight away when the order is not free */
+export function useBuyTickets(eventId: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: CreateOrderInput) => {
+      const order = await send<TicketOrder>("POST", buildUrl(api.tickets.createOrder.path, { id: eventId }), data);
+      if (order.status !== "pending") return order;
+      return send<TicketOrder>("POST", buildUrl(api.tickets.payOrder.path, { id: order.id }));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.tickets.listTiers.path, eventId] });
+      queryClient.invalidateQueries({ queryKey: [api.tickets.mine.path] });
+      toast({ title: "Tickets booked", description: "Your QR tickets are under My Tickets." });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [api.tickets.mine.path] });
+      toast({ title: "Could not book tickets", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function usePayTicketOrder() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (orderId: number) =>
+      send<TicketOrder>("POST", buildUrl(api.tickets.payOrder.path, { id: orderId })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.tickets.mine.path] });
+      toast({ title: "Payment received", description: "Your tickets are ready." });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [api.tickets.mine.path] });
+      toast({ title: "Payment failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useCancelTicketOrder() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (orderId: number) =>
+      send<{ message: string }>("POST", buildUrl(api.tickets.cancelOrder.path, { id: orderId })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.tickets.mine.path] });
+      toast({ title: "Order cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel order", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// ============================================================================
+// GUESTLIST
+// ============================================================================
+
+export function useGuestlist(eventId: number | undefined, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [api.tickets.guestlist.path, eventId],
+    queryFn: async () => {
+      const url = buildUrl(api.tickets.guestlist.path, { id: eventId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch guestlist");
+      return await res.json() as Ticket[];
+    },
+    enabled: !!eventId && enabled,
+  });
+}
+
+export function useAddGuest(eventId: number) {
+  const invalidate = useInvalidateTicketing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: AddGuestInput) =>
+      send<Ticket>("POST", buildUrl(api.tickets.addGuest.path, { id: eventId }), data),
+    onSuccess: (guest) => {
+      invalidate(eventId);
+      toast({ title: "Guest added", description: `${guest.holderName} is on the guestlist.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add guest", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useRemoveGuest(eventId: number) {
+  const invalidate = useInvalidateTicketing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (ticketId: number) =>
+      send<{ message: string }>("DELETE", buildUrl(api.tickets.removeGuest.path, { id: eventId, ticketId })),
+    onSuccess: () => {
+      invalidate(eventId);
+      toast({ title: "Guest removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not remove guest", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// ============================================================================
+// DOOR CHECK-IN
+// ============================================================================
+
+/**
+ * Resolves with the outcome for admitted, already-used and unknown tickets
+ * alike so the door screen can show each one; only request errors throw.
+ */
+export function useCheckIn(eventId: number) {
+  const invalidate = useInvalidateTicketing();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(buildUrl(api.tickets.checkIn.path, { id: eventId }), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!body.result) throw new Error(body.message || "Check-in failed");
+      return body as CheckInOutcome;
+    },
+    onSuccess: () => invalidate(eventId),
+  });
+}
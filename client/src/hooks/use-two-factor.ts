@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { useToast } from "./use-toast";
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  sessionVerified: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+async function post<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return await res.json() as T;
+}
+
+export function useTwoFactorStatus(enabled = true) {
+  return useQuery({
+    queryKey: [api.auth.twoFactorStatus.path],
+    queryFn: async () => {
+      const res = await fetch(api.auth.twoFactorStatus.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch two-factor status");
+      return await res.json() as TwoFactorStatus;
+    },
+    enabled,
+  });
+}
+
+function useInvalidateTwoFactor() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: [api.auth.twoFactorStatus.path] });
+}
+
+export function useBeginTwoFactorSetup() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: () => post<TwoFactorSetup>(api.auth.twoFactorSetup.path, undefined, "Failed to start setup"),
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+}
+
+export function useEnableTwoFactor() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      post<{ recoveryCodes: string[] }>(api.auth.twoFactorEnable.path, { code }, "Failed to enable two-factor authentication"),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDisableTwoFactor() {
+  const invalidate = useInvalidateTwoFactor();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      post<{ enabled: false }>(api.auth.twoFactorDisable.path, { code }, "Failed to disable two-factor authentication"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Two-factor authentication turned off" });
+    },
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      post<{ recoveryCodes: string[] }>(api.auth.twoFactorRecoveryCodes.path, { code }, "Failed to regenerate recovery codes"),
+    onSuccess: invalidate,
+  });
+}
+
+/** Fresh two-factor check covering the next sensitive action (e.g. signing) */
+export function useStepUp() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      post<{ method: TwoFactorMethod; expiresAt: string }>(api.auth.twoFactorStepUp.path, { code }, "Failed to verify code"),
+    onSuccess: invalidate,
+  });
+}
@@ -2,13 +2,19 @@
  * Singleton WebSocket connection for real-time chat and notifications.
  * Reconnects automatically if the connection drops.
  *
+ * The server authenticates the socket from the session cookie sent with
+ * the upgrade request, so the connection must be re-opened whenever the
+ * logged-in user changes.
+ *
  * Supports:
  *   - Conversation room subscriptions (chat)
- *   - User-level auth for notifications
+ *   - User-level notifications for the session user
  *   - Typed message dispatcher for listeners
  */
 
 let socket: WebSocket | null = null;
+/** User the current socket was opened for (null until bindWsToUser) */
+let socketUserId: number | null = null;
 
 type WsListener = (data: any) => void;
 const listeners = new Map<string, Set<WsListener>>();
@@ -52,17 +58,23 @@ export function onWsMessage(type: string, listener: WsListener): () => void {
 }
 
 /**
- * Authenticate the WebSocket connection for user-level notifications.
- * Call after login when the user ID is known.
+ * Bind the WebSocket connection to the logged-in user. The server reads
+ * the user from the session cookie; if the socket was opened under a
+ * different session (e.g. after switching accounts) it is re-opened.
  */
-export function authenticateWs(userId: number): void {
-  const ws = getWebSocket();
-  const doAuth = () => {
-    ws.send(JSON.stringify({ type: 'auth', userId }));
-  };
-  if (ws.readyState === WebSocket.OPEN) {
-    doAuth();
-  } else {
-    ws.addEventListener('open', doAuth, { once: true });
+export function bindWsToUser(userId: number): void {
+  if (socket && socketUserId !== null && socketUserId !== userId) {
+    closeWebSocket();
+  }
+  socketUserId = userId;
+  getWebSocket();
+}
+
+/** Close the connection, e.g. on logout. */
+export function closeWebSocket(): void {
+  if (socket) {
+    socket.close();
+    socket = null;
   }
+  socketUserId = null;
 }
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { useLocation } from "wouter";
+import { useState, useEffect, useRef, useCallback, type ReactNode } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
@@ -12,6 +12,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, CheckCircle2, XCircle, User as UserIcon } from "lucide-react";
+import { useForgotPassword, useResetPassword, useVerifyEmail } from "@/hooks/use-account";
+import { TwoFactorCodeInput } from "@/components/two-factor/TwoFactorCodeInput";
+import { OAuthButtons } from "@/components/auth/OAuthButtons";
 
 // Schemas for the forms
 const loginSchema = z.object({
@@ -21,7 +24,19 @@ const loginSchema = z.object({
 
 // Extend registration schema based on role selection
 const registerBaseSchema = insertUserSchema.extend({
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string().min(1, "Please confirm password"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
   confirmPassword: z.string().min(1, "Please confirm password"),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -33,12 +48,24 @@ export default function AuthPage() {
   const [, setLocation] = useLocation();
   const { user, logoutMutation } = useAuth();
 
-  // Extract query params manually since wouter doesn't provide them nicely in hook
-  const searchParams = new URLSearchParams(window.location.search);
+  const searchParams = new URLSearchParams(useSearch());
   const initialMode = searchParams.get("mode") === "register" ? "register" : "login";
   const initialRole = searchParams.get("role") || "artist";
+  // Links from verification and reset emails: /auth?mode=verify|reset&token=...
+  const linkToken = searchParams.get("token");
+  const linkMode = searchParams.get("mode");
+  // Returns from Google / single sign-on: ?oauthError=..., or ?twoFactor=1 when a code is still needed
+  const oauthError = searchParams.get("oauthError");
+  const oauthTwoFactor = searchParams.get("twoFactor") === "1";
 
-  const [mode, setMode] = useState<"login" | "register">(initialMode);
+  const [mode, setMode] = useState<"login" | "register" | "forgot">(initialMode);
+
+  if (linkToken && linkMode === "verify") {
+    return <AuthLinkPage><VerifyEmailPanel token={linkToken} /></AuthLinkPage>;
+  }
+  if (linkToken && linkMode === "reset") {
+    return <AuthLinkPage><ResetPasswordForm token={linkToken} /></AuthLinkPage>;
+  }
 
   if (user) {
     const roleLabelMap: Record<string, string> = {
@@ -98,48 +125,125 @@ export default function AuthPage() {
       <Card className="w-full max-w-lg glass-card border-white/10 relative z-10">
         <CardHeader className="text-center pb-2">
           <CardTitle className="text-3xl font-display font-bold">
-            {mode === "login" ? "Welcome Back" : "Join Bandwidth"}
+            {mode === "login" ? "Welcome Back" : mode === "forgot" ? "Reset Password" : "Join Bandwidth"}
           </CardTitle>
           <CardDescription>
             {mode === "login"
               ? "Enter your credentials to access your dashboard"
-              : "Create an account to start your journey"}
+              : mode === "forgot"
+                ? "We'll email you a link to choose a new password"
+                : "Create an account to start your journey"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs value={mode} onValueChange={(v) => setMode(v as "login" | "register")}>
-            <TabsList className="grid w-full grid-cols-2 mb-6 bg-secondary/50">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <LoginForm />
-            </TabsContent>
-
-            <TabsContent value="register">
-              <RegisterForm initialRole={initialRole} />
-            </TabsContent>
-          </Tabs>
+          {mode === "forgot" ? (
+            <ForgotPasswordForm onBack={() => setMode("login")} />
+          ) : (
+            <Tabs value={mode} onValueChange={(v) => setMode(v as "login" | "register")}>
+              <TabsList className="grid w-full grid-cols-2 mb-6 bg-secondary/50">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="register">Register</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <LoginForm
+                  onForgotPassword={() => setMode("forgot")}
+                  oauthError={oauthError}
+                  startWithTwoFactor={oauthTwoFactor}
+                />
+              </TabsContent>
+
+              <TabsContent value="register">
+                <RegisterForm initialRole={initialRole} />
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 }
 
-function LoginForm() {
+interface LoginFormProps {
+  onForgotPassword: () => void;
+  oauthError?: string | null;
+  /** The password (or an external sign-in) was accepted; only the code is left */
+  startWithTwoFactor?: boolean;
+}
+
+function LoginForm({ onForgotPassword, oauthError, startWithTwoFactor = false }: LoginFormProps) {
   const [, setLocation] = useLocation();
-  const { loginMutation } = useAuth();
+  const { loginMutation, twoFactorLoginMutation } = useAuth();
+  const [twoFactorStep, setTwoFactorStep] = useState(startWithTwoFactor);
+  const [code, setCode] = useState("");
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
   });
 
+  // Pages that need a signed-in user (e.g. invite links) send people here with ?next=
+  const next = new URLSearchParams(window.location.search).get("next");
+  const afterLogin = next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard";
+
   const onSubmit = (data: z.infer<typeof loginSchema>) => {
     loginMutation.mutate(data, {
-      onSuccess: () => setLocation("/dashboard"),
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setCode("");
+          setTwoFactorStep(true);
+          return;
+        }
+        setLocation(afterLogin);
+      },
+    });
+  };
+
+  const onVerify = (value: string) => {
+    if (!value.trim()) return;
+    twoFactorLoginMutation.mutate(value, {
+      onSuccess: () => setLocation(afterLogin),
+      onError: (error) => {
+        setCode("");
+        // The challenge expired or ran out of attempts: start again from the password
+        if ((error as Error & { restart?: boolean }).restart) setTwoFactorStep(false);
+      },
     });
   };
 
+  if (twoFactorStep) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-center">
+          Enter the 6-digit code from your authenticator app.
+        </p>
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={onVerify}
+          allowRecovery
+          disabled={twoFactorLoginMutation.isPending}
+        />
+        {twoFactorLoginMutation.error && (
+          <p className="text-xs text-center text-destructive">{twoFactorLoginMutation.error.message}</p>
+        )}
+        <Button
+          className="w-full bg-primary"
+          onClick={() => onVerify(code)}
+          disabled={!code.trim() || twoFactorLoginMutation.isPending}
+        >
+          {twoFactorLoginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+        <button
+          type="button"
+          onClick={() => setTwoFactorStep(false)}
+          className="w-full text-xs text-muted-foreground hover:text-primary"
+        >
+          Back to sign in
+        </button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
       <div className="space-y-2">
@@ -150,7 +254,12 @@ function LoginForm() {
         )}
       </div>
       <div className="space-y-2">
-        <Label>Password</Label>
+        <div className="flex items-center justify-between">
+          <Label>Password</Label>
+          <button type="button" onClick={onForgotPassword} className="text-xs text-muted-foreground hover:text-primary">
+            Forgot password?
+          </button>
+        </div>
         <Input type="password" {...form.register("password")} autoComplete="current-password" className="bg-background/50" />
         {form.formState.errors.password && (
           <p className="text-xs text-destructive">{form.formState.errors.password.message}</p>
@@ -160,6 +269,8 @@ function LoginForm() {
         {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
         Sign In
       </Button>
+      {oauthError && <p className="text-xs text-center text-destructive">{oauthError}</p>}
+      <OAuthButtons next={afterLogin} />
     </form>
   );
 }
@@ -357,7 +468,7 @@ function RegisterForm({ initialRole }: { initialRole: string }) {
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label>Password</Label>
-          <Input type="password" {...form.register("password")} autoComplete="new-password" required className="bg-background/50" />
+          <Input type="password" {...form.register("password")} autoComplete="new-password" required minLength={8} className="bg-background/50" />
         </div>
         <div className="space-y-2">
           <Label>Confirm</Label>
@@ -417,3 +528,147 @@ function RegisterForm({ initialRole }: { initialRole: string }) {
     </form>
   );
 }
+
+/** Card layout for pages opened from an emailed link */
+function AuthLinkPage({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4 relative overflow-hidden">
+      <div className="absolute top-[-20%] right-[-10%] w-[600px] h-[600px] rounded-full bg-primary/20 blur-[128px]" />
+      <div className="absolute bottom-[-20%] left-[-10%] w-[500px] h-[500px] rounded-full bg-blue-600/10 blur-[128px]" />
+      <Card className="w-full max-w-lg glass-card border-white/10 relative z-10">{children}</Card>
+    </div>
+  );
+}
+
+function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const forgotPassword = useForgotPassword();
+  const form = useForm<z.infer<typeof forgotPasswordSchema>>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  if (forgotPassword.isSuccess) {
+    return (
+      <div className="space-y-4 text-center">
+        <CheckCircle2 className="h-10 w-10 mx-auto text-green-500" />
+        <p className="text-sm text-muted-foreground">{forgotPassword.data.message} The link expires in 1 hour.</p>
+        <Button variant="ghost" className="w-full" onClick={onBack}>Back to sign in</Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(({ email }) => forgotPassword.mutate(email))} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Email</Label>
+        <Input type="email" {...form.register("email")} autoComplete="email" className="bg-background/50" />
+        {form.formState.errors.email && (
+          <p className="text-xs text-destructive">{form.formState.errors.email.message}</p>
+        )}
+      </div>
+      {forgotPassword.error && <p className="text-xs text-destructive">{forgotPassword.error.message}</p>}
+      <Button type="submit" className="w-full bg-primary" disabled={forgotPassword.isPending}>
+        {forgotPassword.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Send Reset Link
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>Back to sign in</Button>
+    </form>
+  );
+}
+
+function ResetPasswordForm({ token }: { token: string }) {
+  const [, setLocation] = useLocation();
+  const resetPassword = useResetPassword();
+  const form = useForm<z.infer<typeof resetPasswordSchema>>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  return (
+    <>
+      <CardHeader className="text-center pb-2">
+        <CardTitle className="text-3xl font-display font-bold">Choose a New Password</CardTitle>
+        <CardDescription>You will be signed out on every device.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {resetPassword.isSuccess ? (
+          <div className="space-y-4 text-center">
+            <CheckCircle2 className="h-10 w-10 mx-auto text-green-500" />
+            <p className="text-sm text-muted-foreground">{resetPassword.data.message}</p>
+            <Button className="w-full bg-primary" onClick={() => setLocation("/auth")}>Sign In</Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={form.handleSubmit(({ password }) => resetPassword.mutate({ token, password }))}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label>New Password</Label>
+              <Input type="password" {...form.register("password")} autoComplete="new-password" className="bg-background/50" />
+              {form.formState.errors.password && (
+                <p className="text-xs text-destructive">{form.formState.errors.password.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Confirm</Label>
+              <Input type="password" {...form.register("confirmPassword")} autoComplete="new-password" className="bg-background/50" />
+              {form.formState.errors.confirmPassword && (
+                <p className="text-xs text-destructive">{form.formState.errors.confirmPassword.message}</p>
+              )}
+            </div>
+            {resetPassword.error && <p className="text-xs text-destructive">{resetPassword.error.message}</p>}
+            <Button type="submit" className="w-full bg-primary" disabled={resetPassword.isPending}>
+              {resetPassword.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reset Password
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </>
+  );
+}
+
+function VerifyEmailPanel({ token }: { token: string }) {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const verifyEmail = useVerifyEmail();
+  const { mutate } = verifyEmail;
+  // Links are single-use, so a repeated effect run must not submit the token twice
+  const submitted = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (submitted.current === token) return;
+    submitted.current = token;
+    mutate(token);
+  }, [mutate, token]);
+
+  return (
+    <CardHeader className="text-center gap-2">
+      {verifyEmail.isSuccess ? (
+        <>
+          <CheckCircle2 className="h-10 w-10 mx-auto text-green-500" />
+          <CardTitle className="text-2xl font-display font-bold">Email verified</CardTitle>
+          <CardDescription>You can now send offers and sign contracts.</CardDescription>
+          <Button className="mt-4 bg-primary" onClick={() => setLocation(user ? "/dashboard" : "/auth")}>
+            {user ? "Go to Dashboard" : "Sign In"}
+          </Button>
+        </>
+      ) : verifyEmail.isError ? (
+        <>
+          <XCircle className="h-10 w-10 mx-auto text-destructive" />
+          <CardTitle className="text-2xl font-display font-bold">Verification failed</CardTitle>
+          <CardDescription>{verifyEmail.error.message}</CardDescription>
+          <CardDescription>
+            {user ? "You can send a new link from your dashboard." : "Sign in to request a new link."}
+          </CardDescription>
+          <Button className="mt-4" variant="outline" onClick={() => setLocation(user ? "/dashboard" : "/auth")}>
+            {user ? "Go to Dashboard" : "Sign In"}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Loader2 className="h-8 w-8 mx-auto animate-spin text-muted-foreground" />
+          <CardTitle className="text-2xl font-display font-bold">Verifying your email…</CardTitle>
+        </>
+      )}
+    </CardHeader>
+  );
+}
@@ -1,4 +1,4 @@
-import { useBookings, useUpdateBooking } from "@/hooks/use-bookings";
+import { useBookings, useRespondToBooking } from "@/hooks/use-bookings";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,13 +10,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 export default function Bookings() {
   const { user } = useAuth();
   const { data: bookings, isLoading } = useBookings();
-  const updateMutation = useUpdateBooking();
+  const respondMutation = useRespondToBooking();
 
   if (!user) return null;
   const isArtist = user.role === "artist";
 
-  const handleStatusUpdate = (id: number, status: 'confirmed' | 'cancelled') => {
-    updateMutation.mutate({ id, status });
+  const handleRespond = (id: number, action: 'accept' | 'walkaway') => {
+    respondMutation.mutate({ id, action });
   };
 
   const isPending = (status: string | null) => ['inquiry', 'offered', 'negotiating'].includes(status || '');
@@ -76,16 +76,16 @@ export default function Bookings() {
                             size="sm"
                             variant="ghost"
                             className="h-8 w-8 p-0 text-red-400 hover:text-red-300 hover:bg-red-900/20"
-                            onClick={() => handleStatusUpdate(booking.id, 'cancelled')}
-                            disabled={updateMutation.isPending}
+                            onClick={() => handleRespond(booking.id, 'walkaway')}
+                            disabled={respondMutation.isPending}
                           >
                             <X className="w-4 h-4" />
                           </Button>
                           <Button
                             size="sm"
                             className="h-8 w-8 p-0 bg-green-600 hover:bg-green-500 text-white"
-                            onClick={() => handleStatusUpdate(booking.id, 'confirmed')}
-                            disabled={updateMutation.isPending}
+                            onClick={() => handleRespond(booking.id, 'accept')}
+                            disabled={respondMutation.isPending}
                           >
                             <Check className="w-4 h-4" />
                           </Button>
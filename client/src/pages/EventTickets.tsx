@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Ticket as TicketIcon, Calendar, Clock, Minus, Plus, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useTicketTiers, useBuyTickets, type TicketTier } from "@/hooks/use-tickets";
+
+function formatMoney(amount: number | string, currency: string | null = "INR") {
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency: currency || "INR", maximumFractionDigits: 2 })
+    .format(Number(amount));
+}
+
+function availabilityLabel(tier: TicketTier): string | null {
+  if (tier.saleState === "not_started") {
+    return tier.salesStartAt ? `On sale ${format(new Date(tier.salesStartAt), "PPP p")}` : "Not on sale yet";
+  }
+  if (tier.saleState !== "on_sale") return "Sales closed";
+  if (tier.remaining === 0) return "Sold out";
+  if (tier.remaining !== null && tier.remaining <= 20) return `${tier.remaining} left`;
+  return null;
+}
+
+/** Public ticket page for an event: pick quantities per tier and pay */
+export default function EventTickets() {
+  const [, params] = useRoute("/events/:id/tickets");
+  const eventId = params?.id ? parseInt(params.id, 10) : 0;
+
+  const { data, isLoading, error } = useTicketTiers(eventId || undefined);
+  const buy = useBuyTickets(eventId);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+
+  const setQuantity = (tier: TicketTier, next: number) => {
+    const cap = Math.min(tier.maxPerOrder, tier.remaining ?? tier.maxPerOrder);
+    setQuantities((prev) => ({ ...prev, [tier.id]: Math.max(0, Math.min(next, cap)) }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-center text-muted-foreground py-16">This event is not selling tickets.</p>;
+  }
+
+  const { event, tiers } = data;
+  const items = tiers
+    .filter((t) => (quantities[t.id] || 0) > 0)
+    .map((t) => ({ tierId: t.id, quantity: quantities[t.id] }));
+  // Estimate only: the server prices the order, including early-bird places that run out mid-order
+  const estimate = tiers.reduce((sum, t) => sum + (quantities[t.id] || 0) * t.currentPrice, 0);
+
+  return (
+    <div className="space-y-8 max-w-3xl mx-auto">
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+          <TicketIcon className="w-8 h-8 text-primary" />
+          {event.title}
+        </h1>
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-2">
+          <span className="flex items-center gap-1">
+            <Calendar className="w-4 h-4" /> {format(new Date(event.startTime), "PPP")}
+          </span>
+          <span className="flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {event.doorTime ? `Doors ${format(new Date(event.doorTime), "p")}` : format(new Date(event.startTime), "p")}
+          </span>
+        </div>
+        {event.description && <p className="text-muted-foreground mt-4">{event.description}</p>}
+      </motion.div>
+
+      <div className="space-y-3">
+        {tiers.length === 0 && (
+          <p className="text-center text-muted-foreground py-8">No tickets are on sale for this event.</p>
+        )}
+        {tiers.map((tier) => {
+          const label = availabilityLabel(tier);
+          const purchasable = tier.saleState === "on_sale" && tier.remaining !== 0;
+          const quantity = quantities[tier.id] || 0;
+          return (
+            <Card key={tier.id} className="glass-card border-white/5">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{tier.name}</span>
+                    {tier.earlyBird && <Badge className="bg-primary/15 text-primary border-primary/25 text-[10px]">Early bird</Badge>}
+                    {label && <Badge variant="outline" className="text-[10px]">{label}</Badge>}
+                  </div>
+                  {tier.description && <p className="text-sm text-muted-foreground mt-1">{tier.description}</p>}
+                  <p className="text-sm mt-1">
+                    <span className="font-semibold">{formatMoney(tier.currentPrice, tier.currency)}</span>
+                    {tier.earlyBird && (
+                      <span className="text-muted-foreground line-through ml-2">{formatMoney(tier.price, tier.currency)}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button size="icon" variant="outline" disabled={!purchasable || quantity === 0} onClick={() => setQuantity(tier, quantity - 1)}>
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                  <span className="w-6 text-center font-semibold">{quantity}</span>
+                  <Button size="icon" variant="outline" disabled={!purchasable} onClick={() => setQuantity(tier, quantity + 1)}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between border-t border-white/10 pt-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Total</p>
+          <p className="text-2xl font-bold">{formatMoney(estimate, event.currency)}</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/tickets">
+            <Button variant="outline">My Tickets</Button>
+          </Link>
+          <Button
+            disabled={items.length === 0 || buy.isPending}
+            onClick={() => buy.mutate({ items }, { onSuccess: () => setQuantities({}) })}
+          >
+            {buy.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {estimate > 0 ? "Pay now" : "Get tickets"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
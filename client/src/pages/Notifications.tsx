@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { Bell, CheckCheck } from "lucide-react";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNotifications } from "@/hooks/use-notifications";
@@ -17,17 +18,24 @@ export default function NotificationsPage() {
     <div className="max-w-2xl mx-auto p-4 md:p-6 space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Notifications</h1>
-        {unreadCount > 0 && (
-          <Button
-            variant="outline"
-            size="sm"
-            className="gap-2"
-            onClick={() => markAllRead()}
-          >
-            <CheckCheck className="w-4 h-4" />
-            Mark all read
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {unreadCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => markAllRead()}
+            >
+              <CheckCheck className="w-4 h-4" />
+              Mark all read
+            </Button>
+          )}
+          <Link href="/settings/notifications">
+            <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Notification settings">
+              <Settings className="w-4 h-4" />
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="flex gap-2">
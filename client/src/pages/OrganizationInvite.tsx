@@ -0,0 +1,80 @@
+import { useRoute, useLocation } from "wouter";
+import { Building2, Loader2, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useAcceptInvite, useInvitePreview } from "@/hooks/use-organizations";
+
+const STATE_MESSAGES = {
+  accepted: "This invite has already been used.",
+  revoked: "This invite has been revoked.",
+  expired: "This invite has expired. Ask for a new one.",
+} as const;
+
+/** Landing page for an organization invite link from email */
+export default function OrganizationInvite() {
+  const [, params] = useRoute("/invites/:token");
+  const token = params?.token;
+  const [location, setLocation] = useLocation();
+  const { user, isLoading: isUserLoading } = useAuth();
+  const { data: invite, isLoading } = useInvitePreview(token);
+  const accept = useAcceptInvite();
+
+  const wrongAccount = !!user && !!invite && user.email.toLowerCase() !== invite.email.toLowerCase();
+
+  const handleAccept = () => {
+    if (!token) return;
+    accept.mutate(token, {
+      onSuccess: ({ orgId }) => setLocation(`/settings/organizations?org=${orgId}`),
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-md">
+        {isLoading || isUserLoading ? (
+          <CardContent className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        ) : !invite ? (
+          <CardHeader className="text-center">
+            <XCircle className="h-10 w-10 mx-auto text-destructive" />
+            <CardTitle>Invite not found</CardTitle>
+            <CardDescription>The link may be incomplete. Check the email and try again.</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <Building2 className="h-10 w-10 mx-auto text-primary" />
+              <CardTitle>Join {invite.organizationName}</CardTitle>
+              <CardDescription>
+                You were invited as {invite.role === "owner" ? "an owner" : `a ${invite.role}`} ({invite.email}).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invite.state !== "pending" ? (
+                <p className="text-sm text-center text-muted-foreground">{STATE_MESSAGES[invite.state]}</p>
+              ) : !user ? (
+                <Button className="w-full" onClick={() => setLocation(`/auth?next=${encodeURIComponent(location)}`)}>
+                  Sign in to accept
+                </Button>
+              ) : wrongAccount ? (
+                <p className="text-sm text-center text-muted-foreground">
+                  You are signed in as {user.email}. Sign in with {invite.email} to accept this invite.
+                </p>
+              ) : (
+                <Button className="w-full" onClick={handleAccept} disabled={accept.isPending}>
+                  {accept.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Accept invite
+                </Button>
+              )}
+              {accept.error && (
+                <p className="text-sm text-center text-destructive">{accept.error.message}</p>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { Loader2 } from "lucide-react";
 import { useEffect } from "react";
 import { ImageUpload } from "@/components/ImageUpload";
 import { ProfileAiSettings } from "@/components/agents/ProfileAiSettings";
+import { LinkedAccounts } from "@/components/auth/LinkedAccounts";
 
 export default function Profile() {
   const { user } = useAuth();
@@ -93,6 +94,7 @@ export default function Profile() {
           </Card>
 
           <ProfileAiSettings />
+          <LinkedAccounts />
         </div>
       </div>
     </div>
@@ -0,0 +1,122 @@
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Ticket as TicketIcon, Loader2, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  useMyTickets,
+  usePayTicketOrder,
+  useCancelTicketOrder,
+  ticketQrUrl,
+  type OrderWithTickets,
+} from "@/hooks/use-tickets";
+
+const ORDER_STATUS_STYLES: Record<OrderWithTickets["status"], string> = {
+  pending: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
+  paid: "bg-green-500/10 text-green-500 border-green-500/20",
+  refunded: "bg-zinc-500/10 text-zinc-400 border-zinc-500/20",
+  cancelled: "bg-zinc-500/10 text-zinc-400 border-zinc-500/20",
+  expired: "bg-zinc-500/10 text-zinc-400 border-zinc-500/20",
+};
+
+function formatMoney(amount: number | string, currency: string | null = "INR") {
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency: currency || "INR", maximumFractionDigits: 2 })
+    .format(Number(amount));
+}
+
+function OrderCard({ order }: { order: OrderWithTickets }) {
+  const pay = usePayTicketOrder();
+  const cancel = useCancelTicketOrder();
+
+  return (
+    <Card className="glass-card border-white/5">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-lg">{order.event?.title || "Event"}</CardTitle>
+          <CardDescription>
+            {order.event ? format(new Date(order.event.startTime), "PPP p") : ""}
+            {" · "}{order.tickets.length} ticket{order.tickets.length === 1 ? "" : "s"}
+            {" · "}{formatMoney(order.totalAmount, order.currency)}
+          </CardDescription>
+        </div>
+        <Badge variant="outline" className={ORDER_STATUS_STYLES[order.status]}>{order.status}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.status === "pending" && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-yellow-500/20 bg-yellow-500/5 p-3">
+            <p className="text-sm text-muted-foreground">
+              Held until {order.expiresAt ? format(new Date(order.expiresAt), "p") : "the hold runs out"}. Pay to get your QR tickets.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" disabled={cancel.isPending} onClick={() => cancel.mutate(order.id)}>
+                Cancel
+              </Button>
+              <Button size="sm" disabled={pay.isPending} onClick={() => pay.mutate(order.id)}>
+                {pay.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Pay now
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {order.status === "paid" && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {order.tickets.map((ticket) => (
+              <div key={ticket.id} className="rounded-lg border border-white/10 p-3 flex flex-col items-center gap-2">
+                <div className="relative">
+                  <img
+                    src={ticketQrUrl(ticket.code)}
+                    alt={`QR code for ticket ${ticket.code}`}
+                    className={`w-40 h-40 rounded bg-white p-1 ${ticket.status === "used" ? "opacity-30" : ""}`}
+                  />
+                  {ticket.status === "used" && (
+                    <CheckCircle2 className="absolute inset-0 m-auto w-12 h-12 text-green-500" />
+                  )}
+                </div>
+                <p className="text-sm font-medium">{ticket.tierName || ticket.ticketType}</p>
+                <p className="font-mono text-xs text-muted-foreground">{ticket.code}</p>
+                {ticket.status === "used" && ticket.checkedInAt && (
+                  <p className="text-xs text-green-500">Checked in {format(new Date(ticket.checkedInAt), "p")}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {order.status === "refunded" && (
+          <p className="text-sm text-muted-foreground">This order was refunded and its tickets are no longer valid.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Every ticket order the user has placed, with QR codes for paid tickets */
+export default function Tickets() {
+  const { data: orders, isLoading } = useMyTickets();
+
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+          <TicketIcon className="w-8 h-8 text-primary" />
+          My Tickets
+        </h1>
+        <p className="text-muted-foreground mt-1">Show the QR code at the door to get in.</p>
+      </motion.div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !orders || orders.length === 0 ? (
+        <p className="text-center text-muted-foreground py-16">You have no tickets yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => <OrderCard key={order.id} order={order} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldAlert, ShieldCheck, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface Verification {
+  hash: string;
+  valid: boolean;
+  documentIntact: boolean;
+  executedTextIntact: boolean;
+  contractId: number;
+  bookingReference: string | null;
+  version: number;
+  status: string;
+  fullySigned: boolean;
+  currentVersion: number;
+  /** Set when an applied amendment has replaced this signed version */
+  supersededByVersion: number | null;
+  /** The amendment this version was signed under, if any */
+  amendment: { id: number; status: string } | null;
+  signers: { role: string; name: string; signedAt: string | null; twoFactorVerified: boolean }[];
+}
+
+/** Public check of the document hash printed on an executed contract's certificate page */
+export default function VerifyContract() {
+  const [, params] = useRoute("/verify/:hash");
+  const hash = params?.hash;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["verify", hash],
+    queryFn: async () => {
+      const res = await fetch(`/api/verify/${hash}`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to verify contract");
+      return await res.json() as Verification;
+    },
+    enabled: !!hash,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-lg">
+        {isLoading ? (
+          <CardContent className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        ) : !data ? (
+          <CardHeader className="text-center">
+            <XCircle className="h-10 w-10 mx-auto text-destructive" />
+            <CardTitle>No matching contract</CardTitle>
+            <CardDescription>No signed contract has this document hash. Check that it was copied in full.</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              {data.valid ? (
+                <ShieldCheck className="h-10 w-10 mx-auto text-emerald-500" />
+              ) : (
+                <ShieldAlert className="h-10 w-10 mx-auto text-destructive" />
+              )}
+              <CardTitle>{data.valid ? "Authentic contract" : "Contract has been altered"}</CardTitle>
+              <CardDescription>
+                {data.valid
+                  ? "The stored contract matches the document its parties signed."
+                  : "The stored contract no longer matches the document its parties signed."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-muted-foreground">Contract</span>
+                <span>#{data.contractId}{data.bookingReference ? ` (${data.bookingReference})` : ""}</span>
+                <span className="text-muted-foreground">Signed version</span>
+                <span>v{data.version}</span>
+                <span className="text-muted-foreground">Status</span>
+                <span className="capitalize">{data.status.replace(/_/g, " ")}{data.fullySigned ? "" : " (awaiting signatures)"}</span>
+                {data.amendment && (
+                  <>
+                    <span className="text-muted-foreground">Amendment</span>
+                    <span className="capitalize">#{data.amendment.id} ({data.amendment.status.replace(/_/g, " ")})</span>
+                  </>
+                )}
+              </div>
+              {data.supersededByVersion !== null && (
+                <p className="rounded-md border border-amber-500/30 bg-amber-500/10 p-2 text-xs">
+                  This version was replaced by amended version v{data.supersededByVersion}. It was authentic when signed but is no longer the contract in force.
+                </p>
+              )}
+              <div className="space-y-2">
+                {data.signers.map((signer) => (
+                  <div key={`${signer.role}-${signer.signedAt}`} className="flex items-center justify-between rounded-md border p-2">
+                    <div>
+                      <div className="font-medium">{signer.name}</div>
+                      <div className="text-xs text-muted-foreground capitalize">
+                        {signer.role.replace(/_/g, " ")} · {signer.signedAt ? new Date(signer.signedAt).toUTCString() : "—"}
+                      </div>
+                    </div>
+                    {signer.twoFactorVerified && <Badge variant="secondary">2FA verified</Badge>}
+                  </div>
+                ))}
+              </div>
+              <p className="break-all font-mono text-xs text-muted-foreground">SHA-256 {data.hash}</p>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
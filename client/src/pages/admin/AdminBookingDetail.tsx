@@ -13,6 +13,7 @@ import {
   Calendar,
   User,
   Building2,
+  Scale,
 } from "lucide-react";
 import {
   Card,
@@ -378,6 +379,15 @@ export default function AdminBookingDetail() {
                     View Negotiation
                   </Button>
                 </Link>
+                <Link href={`/admin/disputes?bookingId=${booking.id}`}>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start gap-2 border-white/10 hover:border-primary/30 hover:bg-primary/5"
+                  >
+                    <Scale className="w-4 h-4 text-primary" />
+                    View Disputes
+                  </Button>
+                </Link>
               </CardContent>
             </Card>
           </motion.div>
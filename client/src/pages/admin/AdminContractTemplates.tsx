@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { FileSignature, Loader2, Pencil, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { artistCategoryEnum, eventTypeEnum, type ContractTemplate } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useAdminPermissions } from "@/hooks/use-admin-permissions";
+import {
+  useClauseLibrary,
+  useContractTemplates,
+  useSaveClause,
+  useSaveTemplate,
+  type TemplateInput,
+} from "@/hooks/use-contract-templates";
+
+const ANY = "any";
+
+const label = (value: string) => value.replace(/_/g, " ");
+
+// ─── Clause editor ────────────────────────────────────────────────────────────
+
+interface ClauseDraft {
+  key: string;
+  title: string;
+  body: string;
+  numbered: boolean;
+  isNew: boolean;
+}
+
+function ClauseEditor({ draft, onClose }: { draft: ClauseDraft; onClose: () => void }) {
+  const [form, setForm] = useState(draft);
+  const save = useSaveClause();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{draft.isNew ? "New clause" : `Edit clause "${draft.key}"`}</CardTitle>
+        <CardDescription>Saving adds a new library revision. Contracts already generated keep the text they were rendered with.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Key</Label>
+            <Input
+              value={form.key}
+              disabled={!draft.isNew}
+              onChange={(e) => setForm((f) => ({ ...f, key: e.target.value }))}
+              placeholder="e.g. force_majeure"
+            />
+          </div>
+          <div>
+            <Label>Title</Label>
+            <Input value={form.title} onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))} />
+          </div>
+        </div>
+        <div>
+          <Label>Body</Label>
+          <Textarea
+            value={form.body}
+            onChange={(e) => setForm((f) => ({ ...f, body: e.target.value }))}
+            rows={14}
+            className="font-mono text-xs"
+            placeholder="Use {{event.title}} or {{payment.fee | TBD}} placeholders..."
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={form.numbered} onCheckedChange={(v) => setForm((f) => ({ ...f, numbered: v === true }))} />
+          Numbered section (heading "N. TITLE")
+        </label>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={save.isPending || !form.key || !form.title || !form.body}
+            onClick={() => save.mutate(
+              { key: form.key, title: form.title, body: form.body, numbered: form.numbered },
+              { onSuccess: onClose },
+            )}
+          >
+            {save.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Save clause
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ─── Template editor ──────────────────────────────────────────────────────────
+
+function TemplateEditor({
+  templateKey,
+  initial,
+  isNew,
+  onClose,
+}: {
+  templateKey: string;
+  initial: TemplateInput;
+  isNew: boolean;
+  onClose: () => void;
+}) {
+  const [key, setKey] = useState(templateKey);
+  const [form, setForm] = useState(initial);
+  const [clauseText, setClauseText] = useState(initial.clauseKeys.join("\n"));
+  const save = useSaveTemplate();
+
+  const clauseKeys = clauseText.split("\n").map((k) => k.trim()).filter(Boolean);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{isNew ? "New template" : `Edit template "${templateKey}"`}</CardTitle>
+        <CardDescription>Saving creates the next version. Leave category or event type on "Any" to apply to every booking.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Key</Label>
+            <Input value={key} disabled={!isNew} onChange={(e) => setKey(e.target.value)} placeholder="e.g. festival" />
+          </div>
+          <div>
+            <Label>Name</Label>
+            <Input value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          </div>
+          <div>
+            <Label>Document title</Label>
+            <Input value={form.title} onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))} />
+          </div>
+          <div>
+            <Label>Locale</Label>
+            <Input value={form.locale} onChange={(e) => setForm((f) => ({ ...f, locale: e.target.value }))} placeholder="en-IN" />
+          </div>
+          <div>
+            <Label>Artist category</Label>
+            <Select
+              value={form.artistCategory ?? ANY}
+              onValueChange={(v) => setForm((f) => ({ ...f, artistCategory: v === ANY ? null : v }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {artistCategoryEnum.enumValues.map((c) => (
+                  <SelectItem key={c} value={c} className="capitalize">{label(c)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Event type</Label>
+            <Select
+              value={form.eventType ?? ANY}
+              onValueChange={(v) => setForm((f) => ({ ...f, eventType: v === ANY ? null : v }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {eventTypeEnum.enumValues.map((t) => (
+                  <SelectItem key={t} value={t} className="capitalize">{label(t)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label>Clauses (one key per line, in document order)</Label>
+          <Textarea value={clauseText} onChange={(e) => setClauseText(e.target.value)} rows={10} className="font-mono text-xs" />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={form.active} onCheckedChange={(v) => setForm((f) => ({ ...f, active: v === true }))} />
+          Active (used for new contracts)
+        </label>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={save.isPending || !key || !form.name || !form.title || clauseKeys.length === 0}
+            onClick={() => save.mutate({ key, template: { ...form, clauseKeys } }, { onSuccess: onClose })}
+          >
+            {save.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Save template
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function templateInput(template: ContractTemplate): TemplateInput {
+  return {
+    name: template.name,
+    description: template.description,
+    title: template.title,
+    locale: template.locale,
+    clauseKeys: template.clauseKeys,
+    artistCategory: template.artistCategory,
+    eventType: template.eventType,
+    active: template.active,
+  };
+}
+
+const NEW_TEMPLATE: TemplateInput = {
+  name: "",
+  title: "PERFORMANCE AND BOOKING AGREEMENT",
+  locale: "en-IN",
+  clauseKeys: [],
+  artistCategory: null,
+  eventType: null,
+  active: true,
+};
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function AdminContractTemplates() {
+  const { user } = useAuth();
+  const { data: mine } = useAdminPermissions(user?.role);
+  const canEdit = mine?.permissions.includes("contracts.templates") ?? false;
+
+  const library = useClauseLibrary();
+  const templates = useContractTemplates();
+  const [clauseDraft, setClauseDraft] = useState<ClauseDraft | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<{ key: string; initial: TemplateInput; isNew: boolean } | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <FileSignature className="h-6 w-6 text-muted-foreground" />
+        <div>
+          <h1 className="text-2xl font-bold">Contract Templates</h1>
+          <p className="text-sm text-muted-foreground">
+            Clause library revision {library.data?.revision ?? "—"}. Every contract records the template version and clause revision it was generated from.
+          </p>
+        </div>
+      </div>
+
+      <Tabs defaultValue="templates">
+        <TabsList>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+          <TabsTrigger value="clauses">Clause library</TabsTrigger>
+          <TabsTrigger value="placeholders">Placeholders</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="templates" className="space-y-4">
+          {canEdit && !templateDraft && (
+            <Button size="sm" onClick={() => setTemplateDraft({ key: "", initial: NEW_TEMPLATE, isNew: true })}>
+              <Plus className="h-4 w-4 mr-1" /> New template
+            </Button>
+          )}
+          {templateDraft && (
+            <TemplateEditor
+              key={templateDraft.key || "new"}
+              templateKey={templateDraft.key}
+              initial={templateDraft.initial}
+              isNew={templateDraft.isNew}
+              onClose={() => setTemplateDraft(null)}
+            />
+          )}
+          <Card>
+            <CardContent className="pt-6">
+              {templates.isLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Template</TableHead>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Applies to</TableHead>
+                      <TableHead>Clauses</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {templates.data?.map((t) => (
+                      <TableRow key={t.id}>
+                        <TableCell>
+                          <div className="font-medium">{t.name}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{t.key}</div>
+                        </TableCell>
+                        <TableCell>v{t.version}</TableCell>
+                        <TableCell className="capitalize text-sm">
+                          {t.artistCategory || t.eventType
+                            ? [t.artistCategory, t.eventType].filter(Boolean).map((v) => label(v!)).join(" · ")
+                            : "All bookings"}
+                        </TableCell>
+                        <TableCell>{t.clauseKeys.length}</TableCell>
+                        <TableCell>
+                          {t.active ? (
+                            <Badge className="bg-green-100 text-green-800">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Archived</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canEdit && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setTemplateDraft({ key: t.key, initial: templateInput(t), isNew: false })}
+                            >
+                              <Pencil className="h-3 w-3 mr-1" /> Edit
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="clauses" className="space-y-4">
+          {canEdit && !clauseDraft && (
+            <Button size="sm" onClick={() => setClauseDraft({ key: "", title: "", body: "", numbered: true, isNew: true })}>
+              <Plus className="h-4 w-4 mr-1" /> New clause
+            </Button>
+          )}
+          {clauseDraft && (
+            <ClauseEditor key={clauseDraft.key || "new"} draft={clauseDraft} onClose={() => setClauseDraft(null)} />
+          )}
+          {library.isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            library.data?.clauses.map((clause) => (
+              <Card key={clause.key}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                  <div>
+                    <CardTitle className="text-base">{clause.title}</CardTitle>
+                    <CardDescription className="font-mono text-xs">
+                      {clause.key} · revision {clause.version}{clause.numbered ? "" : " · unnumbered"}
+                    </CardDescription>
+                  </div>
+                  {canEdit && (
+                    <Button size="sm" variant="ghost" onClick={() => setClauseDraft({ ...clause, isNew: false })}>
+                      <Pencil className="h-3 w-3 mr-1" /> Edit
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <pre className="max-h-48 overflow-auto whitespace-pre-wrap text-xs text-muted-foreground">{clause.body}</pre>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="placeholders">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Placeholder</TableHead>
+                    <TableHead>Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(library.data?.placeholders ?? {}).map(([name, description]) => (
+                    <TableRow key={name}>
+                      <TableCell className="font-mono text-xs">{`{{${name}}}`}</TableCell>
+                      <TableCell className="text-sm">{description}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
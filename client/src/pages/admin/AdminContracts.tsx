@@ -7,11 +7,14 @@ import {
   AlertCircle,
   ChevronRight,
   Clock,
+  FilePlus2,
+  Loader2,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -19,6 +22,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ClauseDiffList } from "@/components/booking/ContractAmendments";
+import {
+  usePendingAmendments,
+  useReviewAmendment,
+  type PendingAmendment,
+} from "@/hooks/use-contract-amendments";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -182,9 +191,111 @@ function ContractsTable({
   );
 }
 
+// ─── Amendments ───────────────────────────────────────────────────────────────
+
+function AmendmentReviewCard({ pending }: { pending: PendingAmendment }) {
+  const { amendment, bookingId } = pending;
+  const review = useReviewAmendment();
+  const [note, setNote] = useState("");
+  const commission = amendment.commissionBreakdownJson as Record<string, any> | null;
+
+  return (
+    <div className="border-b border-white/5 last:border-0 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-mono text-xs text-muted-foreground mr-2">#{amendment.id}</span>
+          Contract #{amendment.contractId} · booking #{bookingId ?? "—"} · version {amendment.version} amends {amendment.baseVersion}
+        </div>
+        <span className="text-xs text-muted-foreground">Signed {formatDate(amendment.updatedAt as unknown as string)}</span>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Proposed by the {amendment.proposedByRole}: {amendment.reason}
+      </p>
+      <ClauseDiffList diff={amendment.diff} />
+      {commission && (
+        <p className="text-xs text-muted-foreground">
+          Recalculated: organizer pays {commission.netCostToOrganizer ?? "—"}, artist receives {commission.netPayoutToArtist ?? "—"}, platform revenue {commission.platformRevenue ?? "—"}
+        </p>
+      )}
+      <Textarea
+        placeholder="Review note"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        className="bg-card/40 border-white/10"
+      />
+      <div className="flex justify-end gap-2">
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={review.isPending}
+          onClick={() => review.mutate({ id: amendment.id, status: "rejected", note: note || undefined })}
+        >
+          Reject
+        </Button>
+        <Button
+          size="sm"
+          className="bg-green-600 hover:bg-green-700"
+          disabled={review.isPending}
+          onClick={() => review.mutate({ id: amendment.id, status: "approved", note: note || undefined })}
+        >
+          {review.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin mr-1" />}
+          Approve & apply
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AmendmentsList({
+  amendments,
+  isLoading,
+  isError,
+}: {
+  amendments: PendingAmendment[] | undefined;
+  isLoading: boolean;
+  isError: boolean;
+}) {
+  if (isLoading) {
+    return (
+      <CardContent className="p-6 space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 w-full rounded-lg" />
+        ))}
+      </CardContent>
+    );
+  }
+
+  if (isError) {
+    return (
+      <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+        <AlertCircle className="w-8 h-8 text-destructive" />
+        <p className="text-muted-foreground">Failed to load amendments.</p>
+      </CardContent>
+    );
+  }
+
+  if (!amendments || amendments.length === 0) {
+    return (
+      <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+        <FilePlus2 className="w-8 h-8 text-muted-foreground" />
+        <p className="text-muted-foreground">No fee amendments waiting for review.</p>
+      </CardContent>
+    );
+  }
+
+  return (
+    <div>
+      {amendments.map((pending) => (
+        <AmendmentReviewCard key={pending.amendment.id} pending={pending} />
+      ))}
+    </div>
+  );
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
-type TabKey = "pending" | "all";
+type TabKey = "pending" | "amendments" | "all";
 
 export default function AdminContracts() {
   const [activeTab, setActiveTab] = useState<TabKey>("pending");
@@ -213,12 +324,19 @@ export default function AdminContracts() {
     enabled: activeTab === "all",
   });
 
+  const amendmentsQuery = usePendingAmendments(activeTab === "amendments");
+
   const tabs: { key: TabKey; label: string; icon?: React.ReactNode }[] = [
     {
       key: "pending",
       label: "Pending Review",
       icon: <Clock className="w-3.5 h-3.5" />,
     },
+    {
+      key: "amendments",
+      label: "Fee Amendments",
+      icon: <FilePlus2 className="w-3.5 h-3.5" />,
+    },
     { key: "all", label: "All Contracts" },
   ];
 
@@ -296,7 +414,13 @@ export default function AdminContracts() {
         transition={{ delay: 0.1 }}
       >
         <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl overflow-hidden">
-          {activeTab === "pending" ? (
+          {activeTab === "amendments" ? (
+            <AmendmentsList
+              amendments={amendmentsQuery.data}
+              isLoading={amendmentsQuery.isLoading}
+              isError={amendmentsQuery.isError}
+            />
+          ) : activeTab === "pending" ? (
             <ContractsTable
               contracts={pendingQuery.data}
               isLoading={pendingQuery.isLoading}
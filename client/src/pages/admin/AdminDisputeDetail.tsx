@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  Scale,
+  AlertCircle,
+  Loader2,
+  ClipboardList,
+  Image as ImageIcon,
+  History,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { DisputeStatusBadge, type AdminDispute } from "./AdminDisputes";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface DisputeDetail extends AdminDispute {
+  eventTitle: string;
+  evidence: { id: number; filename: string | null; url: string; uploadedAt: string; ownerUserId: number }[];
+  history: { id: number; occurredAt: string; who: number | null; action: string; context: any }[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const ACTIVE_STATUSES = ["open", "investigating", "escalated"];
+
+function formatDate(iso: string | null | undefined) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function InfoRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-0.5">
+      <span className="text-xs text-muted-foreground uppercase tracking-wide">{label}</span>
+      <span className="text-sm font-medium">{value}</span>
+    </div>
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function AdminDisputeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [outcome, setOutcome] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: dispute, isLoading, isError } = useQuery<DisputeDetail>({
+    queryKey: ["/api/admin/disputes", id],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/disputes/${id}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch dispute");
+      return res.json();
+    },
+    enabled: !!id,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: "investigate" | "escalate" | "resolve"; body?: any }) => {
+      const res = await fetch(`/api/admin/disputes/${id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body ?? {}),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message ?? "Dispute update failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Dispute updated" });
+      setOutcome("");
+      setRefundAmount("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/disputes"] });
+    },
+    onError: (err: any) => {
+      toast({ variant: "destructive", title: err.message ?? "Failed" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-48" />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-48 rounded-xl" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !dispute) {
+    return (
+      <div className="flex flex-col items-center gap-4 pt-16 text-center">
+        <AlertCircle className="w-10 h-10 text-destructive" />
+        <p className="text-muted-foreground">Failed to load dispute.</p>
+        <Link href="/admin/disputes">
+          <Button variant="outline" className="border-white/10">
+            Back to Disputes
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const isActive = ACTIVE_STATUSES.includes(dispute.status);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-center gap-3 flex-wrap"
+      >
+        <Link href="/admin/disputes">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </Link>
+        <Separator orientation="vertical" className="h-5 bg-white/10" />
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+            <Scale className="w-5 h-5 text-primary" />
+          </div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-display font-bold">Dispute #{dispute.id}</h1>
+            <DisputeStatusBadge status={dispute.status} />
+          </div>
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* LEFT column */}
+        <div className="space-y-4">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.05 }}>
+            <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <ClipboardList className="w-4 h-4 text-primary" />
+                  Claim
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <InfoRow
+                  label="Booking"
+                  value={
+                    <Link href={`/admin/bookings/${dispute.bookingId}`}>
+                      <span className="text-primary hover:underline cursor-pointer">
+                        #{dispute.bookingId} · {dispute.eventTitle}
+                      </span>
+                    </Link>
+                  }
+                />
+                <Separator className="bg-white/5" />
+                <InfoRow label="Raised By" value={<span className="capitalize">{dispute.raisedByRole}</span>} />
+                <Separator className="bg-white/5" />
+                <InfoRow label="Reason" value={<span className="capitalize">{dispute.reason.replace(/_/g, " ")}</span>} />
+                <Separator className="bg-white/5" />
+                <InfoRow label="Description" value={<span className="whitespace-pre-wrap font-normal">{dispute.description}</span>} />
+                <Separator className="bg-white/5" />
+                <InfoRow label="Opened" value={formatDate(dispute.createdAt)} />
+                {dispute.resolvedAt && (
+                  <>
+                    <Separator className="bg-white/5" />
+                    <InfoRow label="Resolved" value={formatDate(dispute.resolvedAt)} />
+                    <Separator className="bg-white/5" />
+                    <InfoRow label="Resolution" value={dispute.resolutionNote ?? "—"} />
+                    {dispute.refundAmount && (
+                      <>
+                        <Separator className="bg-white/5" />
+                        <InfoRow label="Refunded" value={`₹${Number(dispute.refundAmount).toLocaleString("en-IN")}`} />
+                      </>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+            <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <ImageIcon className="w-4 h-4 text-primary" />
+                  Evidence ({dispute.evidence.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {dispute.evidence.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No evidence attached.</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2">
+                    {dispute.evidence.map((m) => (
+                      <a key={m.id} href={m.url} target="_blank" rel="noreferrer">
+                        <img
+                          src={m.url}
+                          alt={m.filename ?? `Evidence ${m.id}`}
+                          className="w-full h-24 object-cover rounded-lg border border-white/10 hover:border-primary/40"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </div>
+
+        {/* RIGHT column */}
+        <div className="space-y-4">
+          {isActive && (
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.08 }}>
+              <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl">
+                <CardHeader>
+                  <CardTitle className="text-base">Investigation</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex gap-2">
+                    {dispute.status !== "investigating" && (
+                      <Button
+                        variant="outline"
+                        className="border-white/10"
+                        disabled={actionMutation.isPending}
+                        onClick={() => actionMutation.mutate({ action: "investigate" })}
+                      >
+                        Start Investigation
+                      </Button>
+                    )}
+                    {dispute.status !== "escalated" && (
+                      <Button
+                        variant="outline"
+                        className="border-white/10"
+                        disabled={!note.trim() || actionMutation.isPending}
+                        onClick={() => actionMutation.mutate({ action: "escalate", body: { note } })}
+                      >
+                        Escalate
+                      </Button>
+                    )}
+                  </div>
+                  <Separator className="bg-white/5" />
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium">Resolve</p>
+                    <div className="space-y-1.5">
+                      <Label>Outcome</Label>
+                      <Select value={outcome} onValueChange={setOutcome}>
+                        <SelectTrigger className="bg-card/40 border-white/10">
+                          <SelectValue placeholder="Select outcome…" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-card border-white/10">
+                          <SelectItem value="refund">Refund organizer, cancel or reduce payout</SelectItem>
+                          <SelectItem value="no_refund">No refund, release payout</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {outcome === "refund" && (
+                      <div className="space-y-1.5">
+                        <Label>Refund Amount (blank for full refund; the artist is paid the rest of a partial refund)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                          className="bg-card/40 border-white/10"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-1.5">
+                      <Label>Note (required)</Label>
+                      <Textarea
+                        rows={3}
+                        placeholder="Findings and reasoning…"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        className="bg-card/40 border-white/10 focus:border-primary/40 resize-none"
+                      />
+                    </div>
+                    <Button
+                      onClick={() =>
+                        actionMutation.mutate({
+                          action: "resolve",
+                          body: {
+                            outcome,
+                            note,
+                            ...(refundAmount ? { refundAmount: Number(refundAmount) } : {}),
+                          },
+                        })
+                      }
+                      disabled={!outcome || !note.trim() || actionMutation.isPending}
+                      className="w-full bg-primary hover:bg-primary/90 gap-2"
+                    >
+                      {actionMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+                      Resolve Dispute
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.13 }}>
+            <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <History className="w-4 h-4 text-primary" />
+                  Audit Trail
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {dispute.history.map((entry) => (
+                  <div key={entry.id} className="flex items-start justify-between gap-3 text-sm">
+                    <div>
+                      <p className="font-medium">{entry.action.replace(/_/g, " ")}</p>
+                      {entry.context?.note && (
+                        <p className="text-xs text-muted-foreground">{entry.context.note}</p>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDate(entry.occurredAt)}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { motion } from "framer-motion";
+import { Scale, AlertCircle, ChevronRight } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AdminDispute {
+  id: number;
+  bookingId: number;
+  raisedByUserId: number;
+  raisedByRole: string;
+  reason: string;
+  description: string;
+  status: string;
+  assignedAdminId: number | null;
+  refundAmount: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const STATUS_FILTERS = [
+  { label: "All", value: "" },
+  { label: "Open", value: "open" },
+  { label: "Investigating", value: "investigating" },
+  { label: "Escalated", value: "escalated" },
+  { label: "Refunded", value: "resolved_refund" },
+  { label: "No Refund", value: "resolved_no_refund" },
+];
+
+export function DisputeStatusBadge({ status }: { status: string }) {
+  const cfg: Record<string, string> = {
+    open: "bg-orange-500/15 text-orange-400 border-orange-500/25",
+    investigating: "bg-blue-500/15 text-blue-400 border-blue-500/25",
+    resolving: "bg-purple-500/15 text-purple-400 border-purple-500/25",
+    escalated: "bg-red-500/15 text-red-400 border-red-500/25",
+    resolved_refund: "bg-teal-500/15 text-teal-400 border-teal-500/25",
+    resolved_no_refund: "bg-zinc-500/15 text-zinc-400 border-zinc-500/25",
+  };
+  return (
+    <Badge
+      className={`border ${cfg[status] ?? "bg-muted/50 text-muted-foreground border-white/10"}`}
+    >
+      {status.replace(/_/g, " ")}
+    </Badge>
+  );
+}
+
+function formatDate(iso: string) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function AdminDisputes() {
+  const [statusFilter, setStatusFilter] = useState("");
+  const bookingFilter = new URLSearchParams(useSearch()).get("bookingId");
+
+  const { data: disputes, isLoading, isError } = useQuery<AdminDispute[]>({
+    queryKey: ["/api/admin/disputes", statusFilter],
+    queryFn: async () => {
+      const url = statusFilter
+        ? `/api/admin/disputes?status=${statusFilter}`
+        : "/api/admin/disputes";
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch disputes");
+      return res.json();
+    },
+  });
+
+  const filtered = (disputes ?? []).filter(
+    (d) => !bookingFilter || String(d.bookingId) === bookingFilter
+  );
+  const openCount = (disputes ?? []).filter((d) => d.status === "open").length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-center gap-3"
+      >
+        <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+          <Scale className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-display font-bold">Disputes</h1>
+            {openCount > 0 && (
+              <Badge className="bg-orange-500/15 text-orange-400 border-orange-500/25">
+                {openCount} open
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {bookingFilter
+              ? `Disputes for booking #${bookingFilter}`
+              : "Investigation queue for booking disputes"}
+          </p>
+        </div>
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="flex gap-1.5 flex-wrap"
+      >
+        {STATUS_FILTERS.map((f) => (
+          <Button
+            key={f.value}
+            variant={statusFilter === f.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatusFilter(f.value)}
+            className={
+              statusFilter === f.value
+                ? "bg-primary hover:bg-primary/90 text-primary-foreground"
+                : "border-white/10 text-muted-foreground hover:text-foreground hover:border-white/20"
+            }
+          >
+            {f.label}
+          </Button>
+        ))}
+      </motion.div>
+
+      {/* Table */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl overflow-hidden">
+          {isLoading ? (
+            <CardContent className="p-6 space-y-3">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="h-14 w-full rounded-lg" />
+              ))}
+            </CardContent>
+          ) : isError ? (
+            <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+              <AlertCircle className="w-8 h-8 text-destructive" />
+              <p className="text-muted-foreground">Failed to load disputes. Try refreshing.</p>
+            </CardContent>
+          ) : filtered.length === 0 ? (
+            <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+              <Scale className="w-8 h-8 text-muted-foreground" />
+              <p className="text-muted-foreground">No disputes found.</p>
+            </CardContent>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-white/5 bg-white/[0.02]">
+                    {["ID", "Booking", "Raised By", "Reason", "Status", "Opened", "Actions"].map(
+                      (h) => (
+                        <th
+                          key={h}
+                          className={`px-4 py-3 text-xs text-muted-foreground font-semibold tracking-wider uppercase ${h === "Actions" ? "text-right" : "text-left"}`}
+                        >
+                          {h}
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {filtered.map((dispute, idx) => (
+                    <motion.tr
+                      key={dispute.id}
+                      initial={{ opacity: 0, x: -8 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: idx * 0.025 }}
+                      className="border-b border-white/5 last:border-0 hover:bg-white/[0.02] transition-colors"
+                    >
+                      <td className="px-4 py-3.5 font-mono text-xs text-muted-foreground">
+                        #{dispute.id}
+                      </td>
+                      <td className="px-4 py-3.5">
+                        <Link href={`/admin/bookings/${dispute.bookingId}`}>
+                          <span className="text-primary hover:underline cursor-pointer">
+                            #{dispute.bookingId}
+                          </span>
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3.5 text-muted-foreground capitalize">
+                        {dispute.raisedByRole ?? "—"}
+                      </td>
+                      <td className="px-4 py-3.5 text-muted-foreground capitalize">
+                        {dispute.reason.replace(/_/g, " ")}
+                      </td>
+                      <td className="px-4 py-3.5">
+                        <DisputeStatusBadge status={dispute.status} />
+                      </td>
+                      <td className="px-4 py-3.5 text-muted-foreground">
+                        {formatDate(dispute.createdAt)}
+                      </td>
+                      <td className="px-4 py-3.5 text-right">
+                        <Link href={`/admin/disputes/${dispute.id}`}>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-1 text-primary hover:text-primary hover:bg-primary/10"
+                          >
+                            Review
+                            <ChevronRight className="w-3.5 h-3.5" />
+                          </Button>
+                        </Link>
+                      </td>
+                    </motion.tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
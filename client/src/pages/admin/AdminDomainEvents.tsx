@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Radio, Loader2, RotateCcw, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DomainEventRecord {
+  id: number;
+  type: string;
+  payload: Record<string, any>;
+  actorUserId: number | null;
+  occurredAt: string;
+  status: "pending" | "dispatched" | "failed";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  dispatchedAt: string | null;
+  replayCount: number;
+}
+
+interface DomainEventsResponse {
+  events: DomainEventRecord[];
+  consumers: string[];
+}
+
+const statusVariant: Record<DomainEventRecord["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  dispatched: "default",
+  failed: "destructive",
+};
+
+function relative(date: string | null): string {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "";
+}
+
+export default function AdminDomainEvents() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("all");
+  const [type, setType] = useState("");
+
+  const { data, isLoading } = useQuery<DomainEventsResponse>({
+    queryKey: ["/api/admin/domain-events", status, type],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "100" });
+      if (status !== "all") params.set("status", status);
+      if (type.trim()) params.set("type", type.trim());
+      const res = await fetch(`/api/admin/domain-events?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch");
+      return res.json();
+    },
+    refetchInterval: 15_000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/domain-events"] });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/domain-events/${id}/replay`, {});
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Event requeued" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const replayFailedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/domain-events/replay-failed", {
+        type: type.trim() || undefined,
+      });
+      return await res.json() as { replayed: number };
+    },
+    onSuccess: ({ replayed }) => {
+      invalidate();
+      toast({ title: `${replayed} failed event${replayed === 1 ? "" : "s"} requeued` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const events = data?.events ?? [];
+  const consumers = data?.consumers ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Radio className="w-6 h-6" /> Domain Events
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Events recorded with each business change and relayed to{" "}
+            {consumers.length > 0 ? consumers.join(", ") : "their consumers"}.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => replayFailedMutation.mutate()}
+          disabled={replayFailedMutation.isPending}
+        >
+          {replayFailedMutation.isPending
+            ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            : <AlertTriangle className="w-3.5 h-3.5" />}
+          Replay all failed
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">Outbox</CardTitle>
+              <CardDescription>Newest first. Replaying re-runs consumers; duplicates are ignored.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Filter by type, e.g. booking.confirmed"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                className="h-8 w-64"
+              />
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="dispatched">Dispatched</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No events match.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {events.map((event) => (
+                <div key={event.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">#{event.id}</span>
+                      <span className="text-sm font-medium font-mono truncate">{event.type}</span>
+                      <Badge variant={statusVariant[event.status]} className="text-[10px] capitalize">
+                        {event.status}
+                      </Badge>
+                      {event.replayCount > 0 && (
+                        <Badge variant="outline" className="text-[10px]">Replayed ×{event.replayCount}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {relative(event.occurredAt)}
+                      {event.payload?.entityType && ` · ${event.payload.entityType} ${event.payload.entityId ?? ""}`}
+                      {event.status === "dispatched" && event.dispatchedAt && ` · dispatched ${relative(event.dispatchedAt)}`}
+                      {event.status === "pending" && event.attempts > 0 && ` · retry ${relative(event.nextAttemptAt)}`}
+                      {event.attempts > 0 && ` · ${event.attempts} failed attempt${event.attempts === 1 ? "" : "s"}`}
+                    </p>
+                    {event.lastError && <p className="text-xs text-destructive mt-1 truncate">{event.lastError}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 h-8 flex-shrink-0"
+                    onClick={() => replayMutation.mutate(event.id)}
+                    disabled={replayMutation.isPending}
+                  >
+                    {replayMutation.isPending && replayMutation.variables === event.id
+                      ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      : <RotateCcw className="w-3.5 h-3.5" />}
+                    Replay
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Timer,
+  Loader2,
+  Play,
+  Pause,
+  History,
+  CalendarClock,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ScheduledJob {
+  id: number;
+  key: string;
+  name: string;
+  kind: "recurring" | "once";
+  description: string | null;
+  payload: Record<string, any>;
+  intervalSeconds: number | null;
+  runAt: string;
+  status: "scheduled" | "running" | "completed" | "failed" | "cancelled";
+  enabled: boolean;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+interface JobRun {
+  id: number;
+  jobId: number;
+  jobName: string;
+  trigger: "schedule" | "manual";
+  status: "running" | "succeeded" | "failed";
+  workerId: string | null;
+  startedAt: string;
+  durationMs: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+const jobStatusVariant: Record<ScheduledJob["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+const runStatusVariant: Record<JobRun["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+function formatInterval(seconds: number | null): string {
+  if (!seconds) return "";
+  if (seconds % 86400 === 0) return `every ${seconds / 86400 === 1 ? "day" : `${seconds / 86400} days`}`;
+  if (seconds % 3600 === 0) return `every ${seconds / 3600 === 1 ? "hour" : `${seconds / 3600} hours`}`;
+  if (seconds % 60 === 0) return `every ${seconds / 60 === 1 ? "minute" : `${seconds / 60} minutes`}`;
+  return `every ${seconds}s`;
+}
+
+function relative(date: string | null): string {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "never";
+}
+
+function formatResult(result: Record<string, unknown> | null): string {
+  if (!result) return "";
+  return Object.entries(result).map(([k, v]) => `${k}: ${v}`).join(", ");
+}
+
+export default function AdminJobs() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
+
+  const { data: jobs = [], isLoading } = useQuery<ScheduledJob[]>({
+    queryKey: ["/api/admin/jobs"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/jobs", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch");
+      return res.json();
+    },
+    refetchInterval: 15_000,
+  });
+
+  const { data: runs = [] } = useQuery<JobRun[]>({
+    queryKey: ["/api/admin/jobs/runs", selectedJobId],
+    queryFn: async () => {
+      const query = selectedJobId ? `?jobId=${selectedJobId}&limit=50` : "?limit=50";
+      const res = await fetch(`/api/admin/jobs/runs${query}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch");
+      return res.json();
+    },
+    refetchInterval: 15_000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs/runs"] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${id}/run`);
+      return await res.json() as JobRun;
+    },
+    onSuccess: (run) => {
+      invalidate();
+      if (run.status === "failed") {
+        toast({ title: `${run.jobName} failed`, description: run.error ?? undefined, variant: "destructive" });
+      } else {
+        toast({ title: `${run.jobName} finished`, description: formatResult(run.result) || undefined });
+      }
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/jobs/${id}`, { enabled });
+    },
+    onSuccess: (_data, { enabled }) => {
+      invalidate();
+      toast({ title: enabled ? "Job resumed" : "Job paused" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const recurring = jobs.filter((j) => j.kind === "recurring");
+  const oneOff = jobs.filter((j) => j.kind === "once" && (j.status === "scheduled" || j.status === "running" || j.status === "failed"));
+  const selectedJob = jobs.find((j) => j.id === selectedJobId);
+
+  const renderJob = (job: ScheduledJob) => (
+    <div key={job.id} className="py-3 flex items-start justify-between gap-4">
+      <button className="min-w-0 text-left" onClick={() => setSelectedJobId(job.id)}>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium font-mono truncate">{job.key}</span>
+          <Badge variant={jobStatusVariant[job.status]} className="text-[10px] capitalize">
+            {job.status}
+          </Badge>
+          {!job.enabled && <Badge variant="outline" className="text-[10px]">Paused</Badge>}
+        </div>
+        {job.description && <p className="text-xs text-muted-foreground mt-1">{job.description}</p>}
+        <p className="text-xs text-muted-foreground mt-1">
+          {job.kind === "recurring" && `${formatInterval(job.intervalSeconds)} · `}
+          {job.status === "scheduled" && `next ${relative(job.runAt)} · `}
+          last run {relative(job.lastRunAt)}
+          {job.attempts > 0 && ` · ${job.attempts} consecutive failure${job.attempts === 1 ? "" : "s"}`}
+          {job.status === "running" && job.lockedBy && ` · on ${job.lockedBy}`}
+        </p>
+        {job.lastError && <p className="text-xs text-destructive mt-1 truncate">{job.lastError}</p>}
+      </button>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 h-8"
+          onClick={() => runMutation.mutate(job.id)}
+          disabled={job.status === "running" || runMutation.isPending}
+        >
+          {runMutation.isPending && runMutation.variables === job.id
+            ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            : <Play className="w-3.5 h-3.5" />}
+          Run now
+        </Button>
+        {job.kind === "recurring" && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title={job.enabled ? "Pause" : "Resume"}
+            onClick={() => toggleMutation.mutate({ id: job.id, enabled: !job.enabled })}
+            disabled={toggleMutation.isPending}
+          >
+            {job.enabled ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5 text-green-600" />}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Timer className="w-6 h-6" /> Background Jobs
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Recurring jobs and delayed one-off jobs shared by all server instances.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Timer className="w-5 h-5" /> Recurring Jobs
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recurring.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No recurring jobs registered yet.</p>
+          ) : (
+            <div className="divide-y divide-border">{recurring.map(renderJob)}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" /> Pending One-off Jobs
+          </CardTitle>
+          <CardDescription>Delayed jobs such as booking flow expiry, plus any that failed.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {oneOff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing pending.</p>
+          ) : (
+            <div className="divide-y divide-border">{oneOff.map(renderJob)}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="w-5 h-5" /> Run History
+              </CardTitle>
+              <CardDescription>
+                {selectedJob ? <>Runs of <span className="font-mono">{selectedJob.key}</span></> : "Most recent runs across all jobs."}
+              </CardDescription>
+            </div>
+            {selectedJob && (
+              <Button variant="ghost" size="sm" onClick={() => setSelectedJobId(null)}>
+                Show all
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No runs recorded yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {runs.map((run) => (
+                <div key={run.id} className="py-2 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={runStatusVariant[run.status]} className="text-[10px] capitalize">
+                        {run.status}
+                      </Badge>
+                      <span className="text-sm font-mono truncate">{run.jobName}</span>
+                      {run.trigger === "manual" && <Badge variant="outline" className="text-[10px]">Manual</Badge>}
+                    </div>
+                    {run.error ? (
+                      <p className="text-xs text-destructive mt-1 truncate">{run.error}</p>
+                    ) : run.result && (
+                      <p className="text-xs text-muted-foreground mt-1">{formatResult(run.result)}</p>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground flex-shrink-0">
+                    <p>{new Date(run.startedAt).toLocaleString()}</p>
+                    {run.durationMs !== null && <p>{run.durationMs} ms</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation, Redirect, Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -10,6 +10,7 @@ import {
   Calendar,
   ClipboardList,
   FileText,
+  FileSignature,
   MessageSquare,
   Settings,
   Shield,
@@ -22,9 +23,14 @@ import {
   Gauge,
   BarChart3,
   TrendingUp,
+  Scale,
+  Timer,
+  Radio,
+  Star,
 } from "lucide-react";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -33,6 +39,11 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { useAuth } from "@/hooks/use-auth";
+import { CommandPalette } from "@/components/CommandPalette";
+import { useStepUp, useTwoFactorStatus } from "@/hooks/use-two-factor";
+import { TwoFactorSetup } from "@/components/two-factor/TwoFactorSetup";
+import { TwoFactorCodeInput } from "@/components/two-factor/TwoFactorCodeInput";
+import { isAdminPanelRole, useAdminPermissions } from "@/hooks/use-admin-permissions";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -40,6 +51,8 @@ interface NavItem {
   label: string;
   path: string;
   icon: React.ComponentType<{ className?: string }>;
+  /** Admin permission needed to see the item (and use the API behind it) */
+  permission: string;
 }
 
 interface NavSection {
@@ -53,70 +66,90 @@ const NAV_SECTIONS: NavSection[] = [
   {
     heading: "OVERVIEW",
     items: [
-      { label: "Dashboard", path: "/admin/dashboard", icon: LayoutDashboard },
+      { label: "Dashboard", path: "/admin/dashboard", icon: LayoutDashboard, permission: "dashboard.view" },
     ],
   },
   {
     heading: "PLATFORM DATA",
     items: [
-      { label: "Users", path: "/admin/users", icon: Users },
-      { label: "Roles", path: "/admin/roles", icon: Shield },
-      { label: "Artists", path: "/admin/artists", icon: Music2 },
-      { label: "Organizers", path: "/admin/organizers", icon: Building2 },
-      { label: "Venues", path: "/admin/venues", icon: MapPin },
+      { label: "Users", path: "/admin/users", icon: Users, permission: "users.view" },
+      { label: "Roles", path: "/admin/roles", icon: Shield, permission: "users.view" },
+      { label: "Artists", path: "/admin/artists", icon: Music2, permission: "profiles.view" },
+      { label: "Organizers", path: "/admin/organizers", icon: Building2, permission: "profiles.view" },
+      { label: "Venues", path: "/admin/venues", icon: MapPin, permission: "profiles.view" },
     ],
   },
   {
     heading: "WORKFLOW",
     items: [
-      { label: "Events", path: "/admin/events", icon: Calendar },
-      { label: "Bookings", path: "/admin/bookings", icon: ClipboardList },
-      { label: "Contracts", path: "/admin/contracts", icon: FileText },
-      { label: "Negotiations", path: "/admin/chats", icon: MessageSquare },
+      { label: "Events", path: "/admin/events", icon: Calendar, permission: "events.view" },
+      { label: "Bookings", path: "/admin/bookings", icon: ClipboardList, permission: "bookings.view" },
+      { label: "Disputes", path: "/admin/disputes", icon: Scale, permission: "disputes.view" },
+      { label: "Reviews", path: "/admin/reviews", icon: Star, permission: "reviews.moderate" },
+      { label: "Contracts", path: "/admin/contracts", icon: FileText, permission: "contracts.view" },
+      { label: "Contract Templates", path: "/admin/contract-templates", icon: FileSignature, permission: "contracts.view" },
+      { label: "Negotiations", path: "/admin/chats", icon: MessageSquare, permission: "conversations.view" },
     ],
   },
   {
     heading: "AI AGENTS",
     items: [
-      { label: "Agents", path: "/admin/agents", icon: Bot },
-      { label: "Rate Limits", path: "/admin/agents/rate-limits", icon: Gauge },
-      { label: "Prompts", path: "/admin/agents/prompts", icon: FileText },
-      { label: "Usage", path: "/admin/agents/usage", icon: BarChart3 },
-      { label: "Analytics", path: "/admin/agents/analytics", icon: TrendingUp },
+      { label: "Agents", path: "/admin/agents", icon: Bot, permission: "agents.view" },
+      { label: "Rate Limits", path: "/admin/agents/rate-limits", icon: Gauge, permission: "agents.view" },
+      { label: "Prompts", path: "/admin/agents/prompts", icon: FileText, permission: "agents.view" },
+      { label: "Usage", path: "/admin/agents/usage", icon: BarChart3, permission: "agents.view" },
+      { label: "Analytics", path: "/admin/agents/analytics", icon: TrendingUp, permission: "agents.view" },
     ],
   },
   {
     heading: "SYSTEM",
     items: [
-      { label: "Notifications", path: "/admin/notification-types", icon: Bell },
-      { label: "Settings", path: "/admin/settings", icon: Settings },
-      { label: "Audit Log", path: "/admin/audit", icon: Lock },
+      { label: "Notifications", path: "/admin/notification-types", icon: Bell, permission: "notifications.manage" },
+      { label: "Jobs", path: "/admin/jobs", icon: Timer, permission: "jobs.manage" },
+      { label: "Outbox", path: "/admin/domain-events", icon: Radio, permission: "jobs.manage" },
+      { label: "Settings", path: "/admin/settings", icon: Settings, permission: "settings.manage" },
+      { label: "Audit Log", path: "/admin/audit", icon: Lock, permission: "audit.view" },
     ],
   },
 ];
 
 // ─── Helper ───────────────────────────────────────────────────────────────────
 
-function isAdminRole(role: string): boolean {
-  return role === "admin" || role === "platform_admin";
+/** The nav item a page belongs to: the longest path that prefixes the location */
+function navItemFor(location: string): NavItem | undefined {
+  return NAV_SECTIONS
+    .flatMap((section) => section.items)
+    .filter((item) => location === item.path || location.startsWith(`${item.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/** Sections trimmed to the items the role may open; empty sections are dropped */
+function visibleSections(permissions: string[]): NavSection[] {
+  return NAV_SECTIONS
+    .map((section) => ({ ...section, items: section.items.filter((item) => permissions.includes(item.permission)) }))
+    .filter((section) => section.items.length > 0);
 }
 
 // ─── Sidebar content (shared between desktop & mobile sheet) ──────────────────
 
 interface SidebarContentProps {
   currentPath: string;
+  sections: NavSection[];
   displayName: string;
   onLogout: () => void;
   loggingOut: boolean;
   onNavigate?: () => void; // called after a nav link click (closes mobile sheet)
+  showSearch?: boolean; // desktop only; the mobile header has its own search button
 }
 
 function SidebarContent({
   currentPath,
+  sections,
   displayName,
   onLogout,
   loggingOut,
   onNavigate,
+  showSearch,
 }: SidebarContentProps) {
   return (
     <div className="flex flex-col h-full">
@@ -136,12 +169,13 @@ function SidebarContent({
         <p className="text-[11px] text-muted-foreground mt-0.5 tracking-widest uppercase">
           Control Panel
         </p>
+        {showSearch && <CommandPalette variant="bar" shortcut className="mt-4" />}
       </div>
 
       {/* Nav */}
       <ScrollArea className="flex-1 px-3 py-4">
         <nav className="space-y-6">
-          {NAV_SECTIONS.map((section) => (
+          {sections.map((section) => (
             <div key={section.heading}>
               <p className="text-[10px] font-semibold tracking-widest text-muted-foreground/60 uppercase px-2 mb-1.5">
                 {section.heading}
@@ -210,14 +244,109 @@ function SidebarContent({
   );
 }
 
+// ─── Two-factor gate ──────────────────────────────────────────────────────────
+// The admin API refuses requests until the account has 2FA set up and this
+// session has passed a code, so collect whichever is missing up front.
+
+function TwoFactorGate({ mode, onDone }: { mode: "setup" | "verify"; onDone: () => void }) {
+  const stepUp = useStepUp();
+  const [code, setCode] = useState("");
+
+  const verify = (value: string) => {
+    if (!value.trim()) return;
+    stepUp.mutate(value, { onSuccess: onDone, onError: () => setCode("") });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="glass-card w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5 text-primary" />
+            {mode === "setup" ? "Set up two-factor authentication" : "Two-factor verification"}
+          </CardTitle>
+          <CardDescription>
+            {mode === "setup"
+              ? "Admin accounts must use an authenticator app before opening the control panel."
+              : "Enter the code from your authenticator app to continue."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mode === "setup" ? (
+            <TwoFactorSetup onDone={onDone} />
+          ) : (
+            <>
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={verify}
+                allowRecovery
+                disabled={stepUp.isPending}
+              />
+              {stepUp.error && <p className="text-sm text-center text-destructive">{stepUp.error.message}</p>}
+              <Button className="w-full" onClick={() => verify(code)} disabled={!code.trim() || stepUp.isPending}>
+                {stepUp.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verify
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ─── No permissions ───────────────────────────────────────────────────────────
+// A staff role whose permissions have all been revoked still reaches here.
+
+function NoPermissions({ onLogout }: { onLogout: () => void }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="glass-card w-full max-w-sm text-center">
+        <CardHeader>
+          <Lock className="mx-auto w-10 h-10 text-muted-foreground mb-2" />
+          <CardTitle>No admin permissions</CardTitle>
+          <CardDescription>Your role has not been given access to any part of the admin panel.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" className="w-full" onClick={onLogout}>
+            <LogOut className="w-4 h-4 mr-2" /> Log Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 // ─── AdminLayout ──────────────────────────────────────────────────────────────
 
 export function AdminLayout({ children }: { children: React.ReactNode }) {
   const { user, isLoading, logoutMutation } = useAuth();
   const [location] = useLocation();
   const [mobileOpen, setMobileOpen] = useState(false);
+  // The session's active role; admins acting in another role switch back on /admin
+  const role = user?.role ?? "";
+  const { data: access, isLoading: accessLoading } = useAdminPermissions(user ? role : null);
+  const permissions = access?.permissions ?? [];
+  const hasAccess = permissions.length > 0;
+  const { data: twoFactor, isLoading: twoFactorLoading } = useTwoFactorStatus(!!user && hasAccess);
+  const requiredGate = !twoFactor ? null : !twoFactor.enabled ? "setup" : !twoFactor.sessionVerified ? "verify" : null;
+  // Keeps the setup flow on screen until the recovery codes have been saved
+  const [gate, setGate] = useState<"setup" | "verify" | null>(null);
+
+  useEffect(() => {
+    if (requiredGate) setGate(requiredGate);
+  }, [requiredGate]);
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => {
+        window.location.href = "/admin";
+      },
+    });
+  };
 
-  if (isLoading) {
+  if (isLoading || accessLoading || twoFactorLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -225,21 +354,24 @@ export function AdminLayout({ children }: { children: React.ReactNode }) {
     );
   }
 
-  const role = (user?.metadata as Record<string, string> | null)?.role ?? "";
-  if (!user || !isAdminRole(role)) {
+  if (!user || !isAdminPanelRole(role)) {
     return <Redirect to="/admin" />;
   }
 
+  if (!hasAccess) {
+    return <NoPermissions onLogout={handleLogout} />;
+  }
+
+  const gateMode = gate ?? requiredGate;
+  if (gateMode) {
+    return <TwoFactorGate mode={gateMode} onDone={() => setGate(null)} />;
+  }
+
   const displayName =
     user.displayName || user.firstName || user.username || "Admin";
-
-  const handleLogout = () => {
-    logoutMutation.mutate(undefined, {
-      onSuccess: () => {
-        window.location.href = "/admin";
-      },
-    });
-  };
+  const sections = visibleSections(permissions);
+  const pageItem = navItemFor(location);
+  const canOpen = !pageItem || permissions.includes(pageItem.permission);
 
   return (
     <div className="flex min-h-screen bg-background">
@@ -252,9 +384,11 @@ export function AdminLayout({ children }: { children: React.ReactNode }) {
       >
         <SidebarContent
           currentPath={location}
+          sections={sections}
           displayName={displayName}
           onLogout={handleLogout}
           loggingOut={logoutMutation.isPending}
+          showSearch
         />
       </motion.aside>
 
@@ -269,6 +403,7 @@ export function AdminLayout({ children }: { children: React.ReactNode }) {
           <SheetContent side="left" className="p-0 w-60 glass-card border-r border-white/5">
             <SidebarContent
               currentPath={location}
+              sections={sections}
               displayName={displayName}
               onLogout={handleLogout}
               loggingOut={logoutMutation.isPending}
@@ -285,12 +420,19 @@ export function AdminLayout({ children }: { children: React.ReactNode }) {
         >
           Admin
         </Badge>
+        <CommandPalette className="ml-auto" />
       </div>
 
       {/* ── Main Content ── */}
       <main className="flex-1 md:ml-60 pt-16 md:pt-0 min-h-screen overflow-y-auto">
         <div className="p-6 md:p-8">
-          {children}
+          {canOpen ? children : (
+            <div className="flex flex-col items-center justify-center py-24 text-center text-muted-foreground">
+              <Lock className="w-10 h-10 mb-3" />
+              <p className="font-medium text-foreground">You do not have access to {pageItem.label}</p>
+              <p className="text-sm mt-1">Ask a platform admin to grant your role permission.</p>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -11,23 +11,28 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/use-auth";
-
-function isAdminRole(role: string): boolean {
-  return role === "admin" || role === "platform_admin";
-}
+import { useSwitchRole } from "@/hooks/use-roles";
+import { isAdminPanelRole } from "@/hooks/use-admin-permissions";
+import { api } from "@shared/routes";
+import { TwoFactorCodeInput } from "@/components/two-factor/TwoFactorCodeInput";
 
 export default function AdminLogin() {
   const { user, isLoading, logoutMutation } = useAuth();
+  const switchRole = useSwitchRole();
   const [, navigate] = useLocation();
 
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [codeStep, setCodeStep] = useState(false);
+  const [code, setCode] = useState("");
 
   // If already authenticated as admin, redirect immediately
-  const authenticatedRole = (user?.metadata as Record<string, string> | null)?.role ?? "";
-  if (!isLoading && user && isAdminRole(authenticatedRole)) {
+  const authenticatedRole = user?.role ?? "";
+  // An admin role the user holds but is not currently acting in
+  const heldAdminRole = user?.roles?.find(isAdminPanelRole);
+  if (!isLoading && user && isAdminPanelRole(authenticatedRole)) {
     return <Redirect to="/admin/dashboard" />;
   }
 
@@ -51,17 +56,42 @@ export default function AdminLogin() {
       }
 
       const responseUser = await res.json();
-      const role: string = responseUser?.metadata?.role ?? "";
+      if (responseUser?.twoFactorRequired) {
+        setCode("");
+        setCodeStep(true);
+        return;
+      }
+      await finishLogin(responseUser);
+    } catch {
+      setError("Connection error. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (!value.trim() || submitting) return;
+    setError("");
+    setSubmitting(true);
+
+    try {
+      const res = await fetch("/api/auth/2fa/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ code: value }),
+      });
 
-      if (!isAdminRole(role)) {
-        setError("This account does not have admin access.");
-        // Log them out so the session is not left open
-        await fetch("/api/logout", { method: "POST", credentials: "include" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError((data as { message?: string }).message || "Invalid code");
+        setCode("");
+        // The sign-in challenge expired or ran out of attempts
+        if (res.status === 401) setCodeStep(false);
         return;
       }
 
-      // Full-page navigation so query cache re-initialises cleanly
-      window.location.href = "/admin/dashboard";
+      await finishLogin(await res.json());
     } catch {
       setError("Connection error. Please try again.");
     } finally {
@@ -69,6 +99,31 @@ export default function AdminLogin() {
     }
   };
 
+  const finishLogin = async (responseUser: { role?: string; roles?: string[] } | null) => {
+    const role: string = responseUser?.role ?? "";
+    const adminRole = isAdminPanelRole(role) ? role : responseUser?.roles?.find(isAdminPanelRole);
+
+    if (!adminRole) {
+      setError("This account does not have admin access.");
+      // Log them out so the session is not left open
+      await fetch("/api/logout", { method: "POST", credentials: "include" });
+      return;
+    }
+
+    // A new session starts in the primary role; admins with other roles switch to the admin one
+    if (adminRole !== role) {
+      await fetch(api.roles.setActive.path, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ role: adminRole }),
+      });
+    }
+
+    // Full-page navigation so query cache re-initialises cleanly
+    window.location.href = "/admin/dashboard";
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -78,7 +133,7 @@ export default function AdminLogin() {
   }
 
   // Authenticated but not admin
-  if (user && !isAdminRole(authenticatedRole)) {
+  if (user && !isAdminPanelRole(authenticatedRole)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background p-4">
         <motion.div
@@ -89,12 +144,26 @@ export default function AdminLogin() {
           <Card className="glass-card w-full max-w-sm text-center">
             <CardHeader className="pb-2">
               <ShieldAlert className="mx-auto w-10 h-10 text-destructive mb-2" />
-              <h2 className="text-xl font-bold text-foreground">Access Denied</h2>
+              <h2 className="text-xl font-bold text-foreground">{heldAdminRole ? "Admin Role Not Active" : "Access Denied"}</h2>
               <p className="text-sm text-muted-foreground mt-1">
-                Your account does not have admin privileges.
+                {heldAdminRole
+                  ? "You are signed in with a non-admin role. Switch roles to use the admin panel."
+                  : "Your account does not have admin privileges."}
               </p>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-2">
+              {heldAdminRole && (
+                <Button
+                  className="w-full"
+                  onClick={() => switchRole.mutate(heldAdminRole, { onSuccess: () => navigate("/admin/dashboard") })}
+                  disabled={switchRole.isPending}
+                >
+                  {switchRole.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  ) : null}
+                  Switch to admin role
+                </Button>
+              )}
               <Button
                 variant="destructive"
                 className="w-full"
@@ -138,60 +207,80 @@ export default function AdminLogin() {
             </h2>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-1.5">
-                <Label htmlFor="username">Username</Label>
-                <Input
-                  id="username"
-                  type="text"
-                  autoComplete="username"
-                  placeholder="admin username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
+            {codeStep ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground text-center">
+                  Enter the 6-digit code from your authenticator app.
+                </p>
+                <TwoFactorCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerify}
+                  allowRecovery
                   disabled={submitting}
                 />
+                {error && <p className="text-sm text-destructive text-center">{error}</p>}
+                <Button className="w-full" onClick={() => handleVerify(code)} disabled={submitting || !code.trim()}>
+                  {submitting && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                  Verify
+                </Button>
               </div>
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    autoComplete="username"
+                    placeholder="admin username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    disabled={submitting}
+                  />
+                </div>
 
-              <div className="space-y-1.5">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  autoComplete="current-password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  disabled={submitting}
-                />
-              </div>
-
-              {error && (
-                <motion.p
-                  initial={{ opacity: 0, y: -4 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="text-sm text-destructive text-center"
-                >
-                  {error}
-                </motion.p>
-              )}
+                <div className="space-y-1.5">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={submitting}
+                  />
+                </div>
 
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={submitting || !username || !password}
-              >
-                {submitting ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    Signing in…
-                  </>
-                ) : (
-                  "Sign In"
+                {error && (
+                  <motion.p
+                    initial={{ opacity: 0, y: -4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="text-sm text-destructive text-center"
+                  >
+                    {error}
+                  </motion.p>
                 )}
-              </Button>
-            </form>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={submitting || !username || !password}
+                >
+                  {submitting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      Signing in…
+                    </>
+                  ) : (
+                    "Sign In"
+                  )}
+                </Button>
+              </form>
+            )}
           </CardContent>
         </Card>
 
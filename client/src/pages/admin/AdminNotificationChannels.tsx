@@ -6,6 +6,7 @@ import {
   MessageSquare,
   Smartphone,
   Loader2,
+  RotateCw,
   ToggleLeft,
   ToggleRight,
   Volume2,
@@ -17,6 +18,28 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
+interface NotificationDelivery {
+  id: number;
+  notificationId: number;
+  channel: string;
+  recipient: string;
+  status: "pending" | "sending" | "delivered" | "failed";
+  message: { subject: string };
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const deliveryStatusVariant: Record<NotificationDelivery["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  sending: "secondary",
+  delivered: "default",
+  failed: "destructive",
+};
+
 interface NotificationChannel {
   id: number;
   channel: string;
@@ -37,8 +60,8 @@ const channelMeta: Record<string, { icon: typeof Bell; label: string; descriptio
   email: {
     icon: Mail,
     label: "Email Notifications",
-    description: "Email delivery via SMTP/API. Configure your email provider to enable.",
-    configurable: false,
+    description: "Email delivery via SMTP (SMTP_HOST / SMTP_PORT). Failed sends are retried with backoff.",
+    configurable: true,
   },
   sms: {
     icon: MessageSquare,
@@ -80,6 +103,29 @@ export default function AdminNotificationChannels() {
     },
   });
 
+  const { data: deliveries = [] } = useQuery<NotificationDelivery[]>({
+    queryKey: ["/api/admin/notification-deliveries"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/notification-deliveries?limit=25", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch");
+      return res.json();
+    },
+    refetchInterval: 30_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/notification-deliveries/${id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/notification-deliveries"] });
+      toast({ title: "Delivery requeued" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const toggleSoundMutation = useMutation({
     mutationFn: async ({ id, soundEnabled }: { id: number; soundEnabled: boolean }) => {
       await apiRequest("PUT", `/api/admin/notification-channels/${id}`, {
@@ -107,7 +153,7 @@ export default function AdminNotificationChannels() {
           <Bell className="w-6 h-6" /> Notification Channels
         </h1>
         <p className="text-sm text-muted-foreground mt-1">
-          Enable or disable delivery channels globally. Phase 1: in-app only.
+          Enable or disable delivery channels globally.
         </p>
       </div>
 
@@ -194,6 +240,55 @@ export default function AdminNotificationChannels() {
           );
         })}
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Mail className="w-5 h-5" /> Email Delivery Queue
+          </CardTitle>
+          <CardDescription>Most recent outbound emails and their delivery attempts.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No emails queued yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={deliveryStatusVariant[delivery.status]} className="text-[10px] capitalize">
+                        {delivery.status}
+                      </Badge>
+                      <span className="text-sm font-medium truncate">{delivery.message?.subject}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {delivery.recipient} · {delivery.attempts}/{delivery.maxAttempts} attempts
+                      {delivery.status === "pending" && delivery.attempts > 0 &&
+                        ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                      {delivery.deliveredAt && ` · sent ${new Date(delivery.deliveredAt).toLocaleString()}`}
+                    </p>
+                    {delivery.lastError && delivery.status !== "delivered" && (
+                      <p className="text-xs text-destructive mt-1 truncate">{delivery.lastError}</p>
+                    )}
+                  </div>
+                  {delivery.status === "failed" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 h-8 flex-shrink-0"
+                      onClick={() => retryMutation.mutate(delivery.id)}
+                      disabled={retryMutation.isPending}
+                    >
+                      <RotateCw className="w-3.5 h-3.5" /> Retry
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
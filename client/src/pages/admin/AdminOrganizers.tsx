@@ -9,6 +9,7 @@ import {
   AlertCircle,
   Globe,
   ShieldCheck,
+  Star,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -28,6 +29,8 @@ interface AdminOrganizer {
     email?: string;
     phone?: string;
   };
+  ratingAvg: string;
+  ratingCount: number;
   metadata: {
     trustScore?: number;
     website?: string;
@@ -190,6 +193,9 @@ export default function AdminOrganizers() {
                     <th className="text-left px-4 py-3 text-xs text-muted-foreground font-semibold tracking-wider uppercase">
                       Trust Score
                     </th>
+                    <th className="text-left px-4 py-3 text-xs text-muted-foreground font-semibold tracking-wider uppercase">
+                      Rating
+                    </th>
                     <th className="text-left px-4 py-3 text-xs text-muted-foreground font-semibold tracking-wider uppercase">
                       Status
                     </th>
@@ -247,6 +253,21 @@ export default function AdminOrganizers() {
                       <td className="px-4 py-3.5">
                         <TrustScore score={org.metadata.trustScore} />
                       </td>
+                      <td className="px-4 py-3.5">
+                        {org.ratingCount > 0 ? (
+                          <div className="flex items-center gap-1.5">
+                            <Star className="w-3.5 h-3.5 text-yellow-400 fill-yellow-400" />
+                            <span className="text-foreground font-medium">
+                              {Number(org.ratingAvg).toFixed(1)}
+                            </span>
+                            <span className="text-muted-foreground text-xs">
+                              ({org.ratingCount})
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground text-xs">No reviews</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3.5">
                         <StatusBadge status={org.user.status} />
                       </td>
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { motion } from "framer-motion";
+import { Star, AlertCircle, EyeOff, Eye, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface AdminReview {
+  id: number;
+  bookingId: number;
+  reviewerRole: "artist" | "organizer";
+  subjectType: "artist" | "organizer" | "venue";
+  subjectId: number;
+  ratings: Record<string, number>;
+  overallRating: string;
+  comment: string | null;
+  status: "submitted" | "published" | "hidden";
+  moderationNote: string | null;
+  createdAt: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const STATUS_FILTERS = [
+  { label: "All", value: "" },
+  { label: "Sealed", value: "submitted" },
+  { label: "Published", value: "published" },
+  { label: "Hidden", value: "hidden" },
+];
+
+function ReviewStatusBadge({ status }: { status: AdminReview["status"] }) {
+  const cfg: Record<AdminReview["status"], string> = {
+    submitted: "bg-blue-500/15 text-blue-400 border-blue-500/25",
+    published: "bg-teal-500/15 text-teal-400 border-teal-500/25",
+    hidden: "bg-zinc-500/15 text-zinc-400 border-zinc-500/25",
+  };
+  return (
+    <Badge className={`border ${cfg[status]}`}>
+      {status === "submitted" ? "sealed" : status}
+    </Badge>
+  );
+}
+
+function formatDate(iso: string) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function AdminReviews() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("");
+  const [target, setTarget] = useState<AdminReview | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: reviews, isLoading, isError } = useQuery<AdminReview[]>({
+    queryKey: ["/api/admin/reviews", statusFilter],
+    queryFn: async () => {
+      const url = statusFilter
+        ? `/api/admin/reviews?status=${statusFilter}`
+        : "/api/admin/reviews";
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reviews");
+      return res.json();
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "hide" | "restore" }) => {
+      await apiRequest("PATCH", `/api/admin/reviews/${id}`, { action, note });
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      toast({ title: action === "hide" ? "Review hidden" : "Review restored" });
+      setTarget(null);
+      setNote("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const action = target?.status === "hidden" ? "restore" : "hide";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-center gap-3"
+      >
+        <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+          <Star className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-display font-bold">Reviews</h1>
+          <p className="text-sm text-muted-foreground">
+            Post-event reviews. Hidden reviews no longer count towards profile ratings.
+          </p>
+        </div>
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="flex gap-1.5 flex-wrap"
+      >
+        {STATUS_FILTERS.map((f) => (
+          <Button
+            key={f.value}
+            variant={statusFilter === f.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatusFilter(f.value)}
+            className={
+              statusFilter === f.value
+                ? "bg-primary hover:bg-primary/90 text-primary-foreground"
+                : "border-white/10 text-muted-foreground hover:text-foreground hover:border-white/20"
+            }
+          >
+            {f.label}
+          </Button>
+        ))}
+      </motion.div>
+
+      {/* Table */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card className="bg-card/60 backdrop-blur-xl border border-white/5 shadow-xl overflow-hidden">
+          {isLoading ? (
+            <CardContent className="p-6 space-y-3">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="h-14 w-full rounded-lg" />
+              ))}
+            </CardContent>
+          ) : isError ? (
+            <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+              <AlertCircle className="w-8 h-8 text-destructive" />
+              <p className="text-muted-foreground">Failed to load reviews. Try refreshing.</p>
+            </CardContent>
+          ) : !reviews || reviews.length === 0 ? (
+            <CardContent className="p-12 flex flex-col items-center gap-3 text-center">
+              <Star className="w-8 h-8 text-muted-foreground" />
+              <p className="text-muted-foreground">No reviews found.</p>
+            </CardContent>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-white/5 bg-white/[0.02]">
+                    {["ID", "Booking", "Review", "Rating", "Comment", "Status", "Submitted", "Actions"].map(
+                      (h) => (
+                        <th
+                          key={h}
+                          className={`px-4 py-3 text-xs text-muted-foreground font-semibold tracking-wider uppercase ${h === "Actions" ? "text-right" : "text-left"}`}
+                        >
+                          {h}
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviews.map((review, idx) => (
+                    <motion.tr
+                      key={review.id}
+                      initial={{ opacity: 0, x: -8 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: idx * 0.025 }}
+                      className="border-b border-white/5 last:border-0 hover:bg-white/[0.02] transition-colors"
+                    >
+                      <td className="px-4 py-3.5 font-mono text-xs text-muted-foreground">
+                        #{review.id}
+                      </td>
+                      <td className="px-4 py-3.5">
+                        <Link href={`/admin/bookings/${review.bookingId}`}>
+                          <span className="text-primary hover:underline cursor-pointer">
+                            #{review.bookingId}
+                          </span>
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3.5 text-muted-foreground capitalize">
+                        {review.reviewerRole} → {review.subjectType} #{review.subjectId}
+                      </td>
+                      <td className="px-4 py-3.5 font-semibold">
+                        {Number(review.overallRating).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3.5 max-w-xs">
+                        <p className="truncate text-muted-foreground">{review.comment || "—"}</p>
+                        {review.moderationNote && (
+                          <p className="truncate text-xs text-orange-400">Note: {review.moderationNote}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3.5">
+                        <ReviewStatusBadge status={review.status} />
+                      </td>
+                      <td className="px-4 py-3.5 text-muted-foreground">
+                        {formatDate(review.createdAt)}
+                      </td>
+                      <td className="px-4 py-3.5 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1.5"
+                          onClick={() => setTarget(review)}
+                        >
+                          {review.status === "hidden"
+                            ? <><Eye className="w-3.5 h-3.5" /> Restore</>
+                            : <><EyeOff className="w-3.5 h-3.5" /> Hide</>}
+                        </Button>
+                      </td>
+                    </motion.tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </motion.div>
+
+      <Dialog open={!!target} onOpenChange={(open) => { if (!open) { setTarget(null); setNote(""); } }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action === "hide" ? "Hide review" : "Restore review"} #{target?.id}</DialogTitle>
+            <DialogDescription>
+              {action === "hide"
+                ? "The review is removed from the profile and its rating is recalculated."
+                : "The review counts towards the profile rating again once its booking's reviews are published."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={3}
+            placeholder="Reason (recorded in the audit log)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="resize-none"
+          />
+          <DialogFooter>
+            <Button
+              variant={action === "hide" ? "destructive" : "default"}
+              onClick={() => target && moderateMutation.mutate({ id: target.id, action })}
+              disabled={!note.trim() || moderateMutation.isPending}
+            >
+              {moderateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {action === "hide" ? "Hide" : "Restore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import {
   Shield,
   ChevronLeft,
   ChevronRight,
+  KeyRound,
+  Loader2,
 } from "lucide-react";
 import {
   Card,
@@ -29,7 +31,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useAdminPermissions,
+  usePermissionCatalog,
+  useUpdateRolePermissions,
+  type PermissionDefinition,
+} from "@/hooks/use-admin-permissions";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -105,6 +115,108 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+// ─── Role Permissions ─────────────────────────────────────────────────────────
+// Admin panel roles with the permissions they hold. Platform admin always
+// holds all of them; editing needs the permissions.manage permission.
+
+function RolePermissionsCard() {
+  const { user } = useAuth();
+  const { data: mine } = useAdminPermissions(user?.role);
+  const { data: catalog, isLoading } = usePermissionCatalog();
+  const updateMutation = useUpdateRolePermissions();
+
+  const [role, setRole] = useState("admin");
+  // Unsaved edits for the selected role; null shows what is stored
+  const [draft, setDraft] = useState<string[] | null>(null);
+
+  const canManage = mine?.permissions.includes("permissions.manage") ?? false;
+  const current = catalog?.roles.find((r) => r.role === role);
+  const selected = draft ?? current?.permissions ?? [];
+  const editable = canManage && !!current?.editable;
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, PermissionDefinition[]>();
+    for (const permission of catalog?.permissions ?? []) {
+      byGroup.set(permission.group, [...(byGroup.get(permission.group) ?? []), permission]);
+    }
+    return Array.from(byGroup.entries());
+  }, [catalog]);
+
+  const toggle = (key: string, checked: boolean) => {
+    setDraft(checked ? [...selected, key] : selected.filter((p) => p !== key));
+  };
+
+  const save = () => {
+    updateMutation.mutate({ role, permissions: selected }, { onSuccess: () => setDraft(null) });
+  };
+
+  return (
+    <Card className="border-white/10 bg-white/5">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <KeyRound className="w-4 h-4" /> Admin Permissions
+          </CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">
+            {current && !current.editable
+              ? "Platform admins always hold every permission."
+              : current && !current.configured
+                ? "This role uses the default permissions."
+                : "Changes are recorded in the audit log."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={role} onValueChange={(value) => { setRole(value); setDraft(null); }}>
+            <SelectTrigger className="w-[160px] bg-background/60 border-white/10 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {catalog?.roles.map((r) => (
+                <SelectItem key={r.role} value={r.role}>
+                  {r.role.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {editable && (
+            <Button size="sm" onClick={save} disabled={draft === null || updateMutation.isPending}>
+              {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {groups.map(([group, permissions]) => (
+              <div key={group} className="space-y-2">
+                <p className="text-[10px] font-semibold tracking-widest text-muted-foreground/60 uppercase">{group}</p>
+                {permissions.map((permission) => (
+                  <label key={permission.key} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(permission.key)}
+                      onCheckedChange={(checked) => toggle(permission.key, checked === true)}
+                      disabled={!editable}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      {permission.label}
+                      <span className="block font-mono text-[10px] text-muted-foreground">{permission.key}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // ─── Admin Roles ──────────────────────────────────────────────────────────────
 
 export default function AdminRoles() {
@@ -351,6 +463,14 @@ export default function AdminRoles() {
           </Card>
         </motion.div>
       </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+      >
+        <RolePermissionsCard />
+      </motion.div>
     </div>
   );
 }
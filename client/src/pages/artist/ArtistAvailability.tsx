@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarOff, Plane, Repeat, Trash2, Loader2, CalendarDays } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useAvailability,
+  useCalendar,
+  useCreateAvailability,
+  useDeleteAvailability,
+} from "@/hooks/use-availability";
+
+type Kind = "blocked" | "travel" | "recurring";
+
+const KIND_META: Record<Kind, { label: string; icon: React.ComponentType<{ className?: string }> }> = {
+  blocked: { label: "Blocked dates", icon: CalendarOff },
+  travel: { label: "Travel", icon: Plane },
+  recurring: { label: "Recurring", icon: Repeat },
+};
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatDay(date: string) {
+  return format(parseISO(date), "d MMM yyyy");
+}
+
+export default function ArtistAvailability() {
+  const { data: entries = [], isLoading } = useAvailability();
+  const { data: calendar = [] } = useCalendar();
+  const createAvailability = useCreateAvailability();
+  const deleteAvailability = useDeleteAvailability();
+
+  const [kind, setKind] = useState<Kind>("blocked");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [cities, setCities] = useState("");
+  const [note, setNote] = useState("");
+
+  const toggleDay = (day: number) =>
+    setDaysOfWeek((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+
+  const canSubmit =
+    !!startDate &&
+    (kind !== "recurring" || daysOfWeek.length > 0) &&
+    !!startTime === !!endTime;
+
+  const submit = () => {
+    createAvailability.mutate(
+      {
+        kind,
+        startDate,
+        endDate: endDate || null,
+        ...(kind === "recurring" ? { daysOfWeek, startTime: startTime || null, endTime: endTime || null } : {}),
+        ...(kind === "travel" ? { cities: cities.split(",").map((c) => c.trim()).filter(Boolean) } : {}),
+        note: note || null,
+      },
+      {
+        onSuccess: () => {
+          setStartDate("");
+          setEndDate("");
+          setDaysOfWeek([]);
+          setStartTime("");
+          setEndTime("");
+          setCities("");
+          setNote("");
+        },
+      },
+    );
+  };
+
+  const upcomingBookings = calendar.filter((e) => e.type === "booking").slice(0, 8);
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Availability</h1>
+        <p className="text-sm text-muted-foreground">
+          Mark dates you can't play. Offers and applications that overlap them, or an existing
+          confirmed booking, are rejected automatically.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add unavailability</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1.5">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as Kind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_META) as Kind[]).map((k) => (
+                    <SelectItem key={k} value={k}>
+                      {KIND_META[k].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>{kind === "recurring" ? "Starting" : "From"}</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-1.5">
+                <Label>{kind === "recurring" ? "Until (optional)" : "To (optional)"}</Label>
+                <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+
+            {kind === "recurring" && (
+              <>
+                <div className="space-y-1.5">
+                  <Label>Every</Label>
+                  <div className="flex gap-1.5 flex-wrap">
+                    {DAYS.map((day, index) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={daysOfWeek.includes(index) ? "default" : "outline"}
+                        onClick={() => toggleDay(index)}
+                      >
+                        {day}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label>From time (optional)</Label>
+                    <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>To time</Label>
+                    <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave times empty to block the whole day. An end time before the start runs past midnight.
+                </p>
+              </>
+            )}
+
+            {kind === "travel" && (
+              <div className="space-y-1.5">
+                <Label>Cities</Label>
+                <Input
+                  placeholder="Mumbai, Pune"
+                  value={cities}
+                  onChange={(e) => setCities(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label>Note (optional)</Label>
+              <Input value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} />
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={submit}
+              disabled={!canSubmit || createAvailability.isPending}
+            >
+              {createAvailability.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Your entries</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading ? (
+                <div className="p-6 text-center text-muted-foreground">Loading…</div>
+              ) : entries.length === 0 ? (
+                <div className="p-6 text-center">
+                  <CalendarOff className="w-10 h-10 text-muted-foreground/30 mx-auto mb-2" />
+                  <p className="text-sm text-muted-foreground">You're available every day.</p>
+                </div>
+              ) : (
+                entries.map((entry) => {
+                  const Icon = KIND_META[entry.kind].icon;
+                  const days = (entry.daysOfWeek as number[] | null) ?? [];
+                  return (
+                    <div
+                      key={entry.id}
+                      className="flex items-start justify-between gap-3 rounded-lg border p-3"
+                    >
+                      <div className="flex items-start gap-3">
+                        <Icon className="w-4 h-4 mt-0.5 text-primary" />
+                        <div className="text-sm">
+                          <p className="font-medium">
+                            {entry.kind === "recurring"
+                              ? `Every ${days.map((d) => DAYS[d]).join(", ")}`
+                              : entry.endDate && entry.endDate !== entry.startDate
+                                ? `${formatDay(entry.startDate)} – ${formatDay(entry.endDate)}`
+                                : formatDay(entry.startDate)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.kind === "recurring" &&
+                              `${entry.startTime ? `${entry.startTime}–${entry.endTime}` : "All day"} · from ${formatDay(entry.startDate)}${entry.endDate ? ` until ${formatDay(entry.endDate)}` : ""}`}
+                            {entry.kind === "travel" && ((entry.cities as string[] | null) ?? []).join(", ")}
+                          </p>
+                          {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+                        </div>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteAvailability.mutate(entry.id)}
+                        disabled={deleteAvailability.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <CalendarDays className="w-4 h-4 text-primary" />
+                Upcoming bookings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {upcomingBookings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bookings in the next 90 days.</p>
+              ) : (
+                upcomingBookings.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between text-sm">
+                    <span>{entry.title}</span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="capitalize">
+                        {(entry.status ?? "").replace(/_/g, " ")}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(entry.start), "d MMM, HH:mm")}
+                      </span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
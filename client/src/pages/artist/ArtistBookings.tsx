@@ -26,10 +26,19 @@ import {
     Eye,
     ArrowUpRight,
     FileText,
+    CalendarPlus,
+    Star,
+    Users,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { useNegotiationChatContext } from "@/components/booking/NegotiationChatToggle";
+import { RaiseDisputeDialog } from "@/components/booking/RaiseDisputeDialog";
+import { CancelBookingDialog } from "@/components/booking/CancelBookingDialog";
+import { CompleteBookingDialog } from "@/components/booking/CompleteBookingDialog";
+import { ReviewDialog } from "@/components/booking/ReviewDialog";
+import { GuestlistDialog } from "@/components/booking/GuestlistDialog";
+import { CalendarSyncDialog } from "@/components/booking/CalendarSyncDialog";
 
 type BookingStatus = "all" | "pending" | "negotiating" | "confirmed" | "completed" | "cancelled";
 
@@ -135,14 +144,17 @@ export default function ArtistBookings() {
                     <p className="text-muted-foreground">Manage your gigs and booking requests</p>
                 </div>
 
-                <div className="relative w-full md:w-72">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                        placeholder="Search by organizer or venue..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="pl-9 bg-background/60"
-                    />
+                <div className="flex items-center gap-2 w-full md:w-auto">
+                    <CalendarSyncDialog />
+                    <div className="relative w-full md:w-72">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Search by organizer or venue..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            className="pl-9 bg-background/60"
+                        />
+                    </div>
                 </div>
             </div>
 
@@ -221,7 +233,15 @@ function BookingCard({
     const isPending = ["inquiry", "offered", "negotiating"].includes(status);
     const isContracting = status === "contracting";
     const isConfirmed = ["confirmed", "scheduled", "paid_deposit"].includes(status);
+    const canDispute = isConfirmed || status === "completed";
+    const [showDispute, setShowDispute] = useState(false);
+    const [showCancel, setShowCancel] = useState(false);
+    const [showComplete, setShowComplete] = useState(false);
+    const [showReviews, setShowReviews] = useState(false);
+    const [showGuestlist, setShowGuestlist] = useState(false);
     const eventDate = new Date(booking.eventDate);
+    const canConfirmCompletion = isConfirmed && eventDate <= new Date()
+        && !(booking.meta as any)?.completionFeedback?.artist;
 
     return (
         <motion.div
@@ -336,11 +356,118 @@ function BookingCard({
                                         <ArrowUpRight className="w-4 h-4 ml-2" />
                                     </Button>
                                 )}
+
+                                {(isContracting || canDispute) && (
+                                    <Button size="sm" variant="ghost" className="hover:bg-primary/10" asChild>
+                                        <a href={`/api/bookings/${booking.id}/calendar.ics`} download>
+                                            <CalendarPlus className="w-4 h-4 mr-2" />
+                                            Add to Calendar
+                                        </a>
+                                    </Button>
+                                )}
+
+                                {isConfirmed && booking.eventId && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="hover:bg-primary/10"
+                                        onClick={() => setShowGuestlist(true)}
+                                    >
+                                        <Users className="w-4 h-4 mr-2" />
+                                        Guestlist
+                                    </Button>
+                                )}
+
+                                {status === "completed" && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="hover:bg-primary/10"
+                                        onClick={() => setShowReviews(true)}
+                                    >
+                                        <Star className="w-4 h-4 mr-2" />
+                                        Reviews
+                                    </Button>
+                                )}
+
+                                {canConfirmCompletion && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="hover:bg-primary/10"
+                                        onClick={() => setShowComplete(true)}
+                                    >
+                                        <CheckCircle className="w-4 h-4 mr-2" />
+                                        Confirm Completion
+                                    </Button>
+                                )}
+
+                                {canDispute && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-red-500 hover:bg-red-500/10 hover:text-red-500"
+                                        onClick={() => setShowDispute(true)}
+                                    >
+                                        <AlertCircle className="w-4 h-4 mr-2" />
+                                        Raise Dispute
+                                    </Button>
+                                )}
+
+                                {(isContracting || isConfirmed) && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-red-500 hover:bg-red-500/10 hover:text-red-500"
+                                        onClick={() => setShowCancel(true)}
+                                    >
+                                        <XCircle className="w-4 h-4 mr-2" />
+                                        Cancel Booking
+                                    </Button>
+                                )}
                             </div>
                         </div>
                     </div>
                 </CardContent>
             </Card>
+
+            <RaiseDisputeDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showDispute}
+                onOpenChange={setShowDispute}
+            />
+
+            <CompleteBookingDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                counterpart="organizer"
+                open={showComplete}
+                onOpenChange={setShowComplete}
+            />
+
+            <CancelBookingDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showCancel}
+                onOpenChange={setShowCancel}
+            />
+
+            <ReviewDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showReviews}
+                onOpenChange={setShowReviews}
+            />
+
+            {booking.eventId && (
+                <GuestlistDialog
+                    eventId={booking.eventId}
+                    eventTitle={booking.event?.title}
+                    open={showGuestlist}
+                    onOpenChange={setShowGuestlist}
+                />
+            )}
         </motion.div>
     );
 }
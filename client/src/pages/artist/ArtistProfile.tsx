@@ -14,6 +14,7 @@ import { Progress } from "@/components/ui/progress";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ProfileAiSettings } from "@/components/agents/ProfileAiSettings";
+import { LinkedAccounts } from "@/components/auth/LinkedAccounts";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
@@ -400,6 +401,9 @@ export default function ArtistProfile() {
                     <div className="mt-6">
                         <ProfileAiSettings />
                     </div>
+                    <div className="mt-6">
+                        <LinkedAccounts />
+                    </div>
                 </div>
             </div>
         </div>
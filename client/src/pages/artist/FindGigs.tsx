@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -8,10 +8,10 @@ import { cn } from "@/lib/utils";
 import { Search, MapPin, Calendar, DollarSign, Music, SlidersHorizontal, ArrowUpRight } from "lucide-react";
 import { GigApplicationModal } from "@/components/GigApplicationModal";
 import { EventDetailModal } from "@/components/EventDetailModal";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { format } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useBookings, useUpdateBooking } from "@/hooks/use-bookings";
+import { useBookings, useRespondToBooking } from "@/hooks/use-bookings";
 import { useToast } from "@/hooks/use-toast";
 
 export default function FindGigs() {
@@ -19,13 +19,20 @@ export default function FindGigs() {
     const [, setLocation] = useLocation();
     const { toast } = useToast();
     const { data: bookings } = useBookings();
-    const { mutate: updateBooking } = useUpdateBooking();
+    const { mutate: respondToBooking } = useRespondToBooking();
     const [selectedGig, setSelectedGig] = useState<any>(null);
     const [applyModalOpen, setApplyModalOpen] = useState(false);
     const [detailModalOpen, setDetailModalOpen] = useState(false);
     const [selectedOpportunity, setSelectedOpportunity] = useState<any>(null);
     const [genreFilter, setGenreFilter] = useState("All");
 
+    // Command palette results link here with the search text in the URL
+    const searchParams = useSearch();
+    useEffect(() => {
+        const q = new URLSearchParams(searchParams).get("q");
+        if (q) setSearch(q);
+    }, [searchParams]);
+
     const { data: artistStatus } = useQuery({
         queryKey: ["/api/artists/profile/status"],
         queryFn: async () => {
@@ -65,7 +72,7 @@ export default function FindGigs() {
 
     const handleWithdraw = (bookingId: number) => {
         if (confirm("Are you sure you want to withdraw your application?")) {
-            updateBooking({ id: bookingId, status: "cancelled", notes: "Artist withdrew application." } as any);
+            respondToBooking({ id: bookingId, action: "walkaway", reason: "Artist withdrew application." });
         }
     };
 
@@ -26,6 +26,7 @@ import { ScrollableTimePicker } from "@/components/ScrollableTimePicker";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { StepUpDialog } from "@/components/two-factor/StepUpDialog";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -180,6 +181,7 @@ export default function ContractPage() {
     });
 
     // ─── 6. Sign ────────────────────────────────────────────────────────
+    const [showStepUp, setShowStepUp] = useState(false);
     const { mutate: signContract, isPending: isSigning } = useMutation({
         mutationFn: async () => {
             const res = await fetch(`/api/contracts/${contract.id}/sign`, {
@@ -1135,12 +1137,18 @@ export default function ContractPage() {
                                     <Button
                                         className="w-full h-12 bg-green-600 hover:bg-green-700"
                                         disabled={isSigning || deadlineExpired || !signatureText.trim()}
-                                        onClick={() => signContract()}
+                                        onClick={() => setShowStepUp(true)}
                                     >
                                         {isSigning && <Loader2 className="w-5 h-5 animate-spin mr-2" />}
                                         <PenTool className="w-5 h-5 mr-2" />
                                         Sign Contract
                                     </Button>
+                                    <StepUpDialog
+                                        open={showStepUp}
+                                        onOpenChange={setShowStepUp}
+                                        action="sign this contract"
+                                        onVerified={() => signContract()}
+                                    />
                                     <Button variant="ghost" className="h-12 w-full" onClick={() => setLocation("/dashboard")}>Close</Button>
                                 </div>
                             </div>
@@ -30,11 +30,18 @@ import {
     Eye,
     ArrowUpRight,
     FileText,
+    CalendarPlus,
+    Star,
     User,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { useNegotiationChatContext } from "@/components/booking/NegotiationChatToggle";
+import { RaiseDisputeDialog } from "@/components/booking/RaiseDisputeDialog";
+import { CancelBookingDialog } from "@/components/booking/CancelBookingDialog";
+import { CompleteBookingDialog } from "@/components/booking/CompleteBookingDialog";
+import { ReviewDialog } from "@/components/booking/ReviewDialog";
+import { CalendarSyncDialog } from "@/components/booking/CalendarSyncDialog";
 import { ArtistProfileModal } from "@/components/ArtistProfileModal";
 
 type BookingTab = "all" | "pending" | "negotiating" | "confirmed" | "completed" | "cancelled";
@@ -131,14 +138,17 @@ export default function OrganizerBookings() {
                     <p className="text-muted-foreground">Manage your artist bookings and negotiations</p>
                 </div>
 
-                <div className="relative w-full md:w-72">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                        placeholder="Search by artist, venue or event..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="pl-9 bg-background/60"
-                    />
+                <div className="flex items-center gap-2 w-full md:w-auto">
+                    <CalendarSyncDialog />
+                    <div className="relative w-full md:w-72">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Search by artist, venue or event..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            className="pl-9 bg-background/60"
+                        />
+                    </div>
                 </div>
             </div>
 
@@ -218,12 +228,19 @@ function BookingCard({
     const isPending = ["inquiry", "offered", "negotiating"].includes(status);
     const isContracting = status === "contracting";
     const isConfirmed = ["confirmed", "scheduled", "paid_deposit"].includes(status);
+    const canDispute = isConfirmed || status === "completed";
+    const [showDispute, setShowDispute] = useState(false);
+    const [showCancel, setShowCancel] = useState(false);
+    const [showComplete, setShowComplete] = useState(false);
+    const [showReviews, setShowReviews] = useState(false);
 
     const eventDate = booking.event?.startTime
         ? new Date(booking.event.startTime)
         : booking.eventDate
             ? new Date(booking.eventDate)
             : null;
+    const canConfirmCompletion = isConfirmed && !!eventDate && eventDate <= new Date()
+        && !(booking.meta as any)?.completionFeedback?.organizer;
 
     // Resolve artist display name: stage name (given name) or just name
     const artist = booking.artist || {};
@@ -370,12 +387,98 @@ function BookingCard({
                                         <ArrowUpRight className="w-4 h-4 ml-2" />
                                     </Button>
                                 )}
+
+                                {(isContracting || canDispute) && (
+                                    <Button size="sm" variant="ghost" className="hover:bg-primary/10" asChild>
+                                        <a href={`/api/bookings/${booking.id}/calendar.ics`} download>
+                                            <CalendarPlus className="w-4 h-4 mr-2" />
+                                            Add to Calendar
+                                        </a>
+                                    </Button>
+                                )}
+
+                                {status === "completed" && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="hover:bg-primary/10"
+                                        onClick={() => setShowReviews(true)}
+                                    >
+                                        <Star className="w-4 h-4 mr-2" />
+                                        Reviews
+                                    </Button>
+                                )}
+
+                                {canConfirmCompletion && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="hover:bg-primary/10"
+                                        onClick={() => setShowComplete(true)}
+                                    >
+                                        <CheckCircle className="w-4 h-4 mr-2" />
+                                        Confirm Completion
+                                    </Button>
+                                )}
+
+                                {canDispute && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-red-500 hover:bg-red-500/10 hover:text-red-500"
+                                        onClick={() => setShowDispute(true)}
+                                    >
+                                        <AlertCircle className="w-4 h-4 mr-2" />
+                                        Raise Dispute
+                                    </Button>
+                                )}
+
+                                {(isContracting || isConfirmed) && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-red-500 hover:bg-red-500/10 hover:text-red-500"
+                                        onClick={() => setShowCancel(true)}
+                                    >
+                                        <XCircle className="w-4 h-4 mr-2" />
+                                        Cancel Booking
+                                    </Button>
+                                )}
                             </div>
                         </div>
                     </div>
                 </CardContent>
             </Card>
 
+            <RaiseDisputeDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showDispute}
+                onOpenChange={setShowDispute}
+            />
+
+            <CompleteBookingDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                counterpart="artist"
+                open={showComplete}
+                onOpenChange={setShowComplete}
+            />
+
+            <CancelBookingDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showCancel}
+                onOpenChange={setShowCancel}
+            />
+
+            <ReviewDialog
+                bookingId={booking.id}
+                eventTitle={booking.event?.title}
+                open={showReviews}
+                onOpenChange={setShowReviews}
+            />
+
             <ArtistProfileModal 
                 artist={artist} 
                 open={showArtistProfile} 
@@ -1,9 +1,9 @@
-import { useState } from "react";
-import { useArtists } from "@/hooks/use-artists";
+import { useEffect, useState } from "react";
+import { useArtistSearch, type ArtistSearchHit, type ArtistSort } from "@/hooks/use-artists";
 import { useVenues } from "@/hooks/use-venues";
 import { BookingModal } from "@/components/BookingModal";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -14,23 +14,10 @@ import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search, Music, MapPin, Star, TrendingUp, DollarSign, Filter, X, Building2, Users, CalendarPlus } from "lucide-react";
-import { Artist, User, Venue } from "@shared/schema";
-
-type ArtistWithUser = Artist & { user: User };
-
-const GENRES = [
-  "Techno",
-  "House",
-  "Trance",
-  "Drum & Bass",
-  "Dubstep",
-  "Hip Hop",
-  "Jazz",
-  "Rock",
-  "Electronic",
-  "Ambient"
-];
+import { Search, Music, MapPin, Star, TrendingUp, DollarSign, Filter, X, Building2, Users, CalendarPlus, Loader2 } from "lucide-react";
+import { Venue } from "@shared/schema";
+
+const MAX_BUDGET = 100000;
 
 const CITIES = [
   "Bangalore",
@@ -43,15 +30,15 @@ const CITIES = [
   "Kolkata"
 ];
 
-type SortOption = "relevance" | "price-low" | "price-high" | "rating" | "trust-score";
-
 interface Filters {
   search: string;
   genres: string[];
+  categories: string[];
   minBudget: number;
   maxBudget: number;
   location: string;
-  minTrustScore: number;
+  minRating: number;
+  availableOn: string;
 }
 
 interface VenueFilters {
@@ -77,22 +64,31 @@ export default function OrganizerDiscover() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState<"artists" | "venues">("artists");
-  const [selectedArtist, setSelectedArtist] = useState<ArtistWithUser | null>(null);
+  const [selectedArtist, setSelectedArtist] = useState<ArtistSearchHit | null>(null);
   const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
-  const [sortBy, setSortBy] = useState<SortOption>("relevance");
+  const [sortBy, setSortBy] = useState<ArtistSort>("relevance");
   const [showFilters, setShowFilters] = useState(false);
   // Tracks which artist the organizer clicked "Book Now" on
-  const [bookingArtist, setBookingArtist] = useState<ArtistWithUser | null>(null);
+  const [bookingArtist, setBookingArtist] = useState<ArtistSearchHit | null>(null);
   
   const [filters, setFilters] = useState<Filters>({
     search: "",
     genres: [],
+    categories: [],
     minBudget: 0,
-    maxBudget: 100000,
+    maxBudget: MAX_BUDGET,
     location: "",
-    minTrustScore: 0,
+    minRating: 0,
+    availableOn: "",
   });
 
+  // Wait for a pause in typing before searching
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filters.search), 300);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
   const [venueFilters, setVenueFilters] = useState<VenueFilters>({
     search: "",
     minCapacity: 0,
@@ -101,64 +97,59 @@ export default function OrganizerDiscover() {
     amenities: [],
   });
 
-  // Fetch artists with basic filters (API supports genre, minFee, maxFee)
-  const { data: artists, isLoading } = useArtists({
-    genre: filters.genres[0], // API currently supports single genre
-    minFee: filters.minBudget,
-    maxFee: filters.maxBudget,
+  // Command palette results link here with the tab and search text in the URL
+  const searchParams = useSearch();
+  useEffect(() => {
+    const params = new URLSearchParams(searchParams);
+    const q = params.get("q");
+    if (!q) return;
+    if (params.get("tab") === "venues") {
+      setActiveTab("venues");
+      setVenueFilters((prev) => ({ ...prev, search: q }));
+    } else {
+      setActiveTab("artists");
+      setFilters((prev) => ({ ...prev, search: q }));
+    }
+  }, [searchParams]);
+
+  // Search, filtering, sorting and paging all happen on the server
+  const {
+    data: searchData,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useArtistSearch({
+    q: debouncedSearch || undefined,
+    genre: filters.genres.join(",") || undefined,
+    category: filters.categories.join(",") || undefined,
+    city: filters.location || undefined,
+    minFee: filters.minBudget > 0 ? filters.minBudget : undefined,
+    maxFee: filters.maxBudget < MAX_BUDGET ? filters.maxBudget : undefined,
+    minRating: filters.minRating > 0 ? filters.minRating : undefined,
+    availableOn: filters.availableOn || undefined,
+    sort: sortBy,
   });
 
   // Fetch venues
   const { data: venues, isLoading: isLoadingVenues } = useVenues();
 
-  // Client-side filtering and sorting
-  const filteredAndSortedArtists = artists
-    ? artists
-        .filter((artist) => {
-          // Search filter
-          if (filters.search && !artist.name.toLowerCase().includes(filters.search.toLowerCase())) {
-            return false;
-          }
-          
-          // Location filter (checking metadata)
-          if (filters.location && artist.metadata) {
-            const metadata = artist.metadata as any;
-            const city = metadata.city || metadata.location;
-            if (!city || !city.toLowerCase().includes(filters.location.toLowerCase())) {
-              return false;
-            }
-          }
-          
-          // Trust score filter (from metadata)
-          if (filters.minTrustScore > 0 && artist.metadata) {
-            const metadata = artist.metadata as any;
-            const trustScore = metadata.trustScore || 0;
-            if (trustScore < filters.minTrustScore) {
-              return false;
-            }
-          }
-          
-          return true;
-        })
-        .sort((a, b) => {
-          switch (sortBy) {
-            case "price-low":
-              return Number(a.priceFrom || 0) - Number(b.priceFrom || 0);
-            case "price-high":
-              return Number(b.priceTo || 0) - Number(a.priceTo || 0);
-            case "rating":
-              return Number(b.ratingAvg || 0) - Number(a.ratingAvg || 0);
-            case "trust-score": {
-              const aTrust = (a.metadata as any)?.trustScore || 0;
-              const bTrust = (b.metadata as any)?.trustScore || 0;
-              return bTrust - aTrust;
-            }
-            case "relevance":
-            default:
-              return 0;
-          }
-        })
-    : [];
+  const artists = searchData?.pages.flatMap((page) => page.results) ?? [];
+  const totalArtists = searchData?.pages[0]?.total ?? 0;
+  const facets = searchData?.pages[0]?.facets;
+  // Keep selected values visible even when the current results have none of them
+  const genreOptions = [
+    ...(facets?.genre ?? []),
+    ...filters.genres
+      .filter((g) => !facets?.genre.some((f) => f.value === g))
+      .map((g) => ({ value: g, label: g, count: 0 })),
+  ];
+  const cityOptions = [
+    ...(facets?.city ?? []),
+    ...(filters.location && !facets?.city.some((c) => c.value === filters.location)
+      ? [{ value: filters.location, label: filters.location, count: 0 }]
+      : []),
+  ];
 
   const toggleGenre = (genre: string) => {
     setFilters((prev) => ({
@@ -169,6 +160,15 @@ export default function OrganizerDiscover() {
     }));
   };
 
+  const toggleCategory = (category: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter((c) => c !== category)
+        : [...prev.categories, category],
+    }));
+  };
+
   const toggleAmenity = (amenity: string) => {
     setVenueFilters((prev) => ({
       ...prev,
@@ -182,10 +182,12 @@ export default function OrganizerDiscover() {
     setFilters({
       search: "",
       genres: [],
+      categories: [],
       minBudget: 0,
-      maxBudget: 100000,
+      maxBudget: MAX_BUDGET,
       location: "",
-      minTrustScore: 0,
+      minRating: 0,
+      availableOn: "",
     });
   };
 
@@ -202,10 +204,12 @@ export default function OrganizerDiscover() {
   const hasActiveFilters = 
     filters.search || 
     filters.genres.length > 0 || 
+    filters.categories.length > 0 ||
     filters.minBudget > 0 || 
-    filters.maxBudget < 100000 || 
+    filters.maxBudget < MAX_BUDGET || 
     filters.location || 
-    filters.minTrustScore > 0;
+    filters.minRating > 0 ||
+    filters.availableOn;
 
   const hasActiveVenueFilters =
     venueFilters.search ||
@@ -280,7 +284,7 @@ export default function OrganizerDiscover() {
                   <div className="relative flex-1">
                     <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search artists by name..."
+                      placeholder="Search by name, genre, city or bio..."
                       value={filters.search}
                       onChange={(e) => setFilters({ ...filters, search: e.target.value })}
                       className="pl-9"
@@ -306,19 +310,43 @@ export default function OrganizerDiscover() {
                     <div className="space-y-2">
                       <Label>Genres</Label>
                       <div className="flex flex-wrap gap-2">
-                        {GENRES.map((genre) => (
+                        {genreOptions.length === 0 && (
+                          <span className="text-sm text-muted-foreground">No genres in these results</span>
+                        )}
+                        {genreOptions.map((genre) => (
                           <Badge
-                            key={genre}
-                            variant={filters.genres.includes(genre) ? "default" : "outline"}
+                            key={genre.value}
+                            variant={filters.genres.includes(genre.value) ? "default" : "outline"}
                             className="cursor-pointer"
-                            onClick={() => toggleGenre(genre)}
+                            onClick={() => toggleGenre(genre.value)}
                           >
-                            {genre}
+                            {genre.label}
+                            {genre.count > 0 && <span className="ml-1 opacity-60">{genre.count}</span>}
                           </Badge>
                         ))}
                       </div>
                     </div>
 
+                    {/* Category Filter */}
+                    {(facets?.category.length ?? 0) > 0 && (
+                      <div className="space-y-2">
+                        <Label>Category</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {facets!.category.map((category) => (
+                            <Badge
+                              key={category.value}
+                              variant={filters.categories.includes(category.value) ? "default" : "outline"}
+                              className="cursor-pointer capitalize"
+                              onClick={() => toggleCategory(category.value)}
+                            >
+                              {category.label}
+                              <span className="ml-1 opacity-60">{category.count}</span>
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Budget Range */}
                     <div className="space-y-2">
                       <Label>Budget Range (₹)</Label>
@@ -343,7 +371,7 @@ export default function OrganizerDiscover() {
                         value={[filters.minBudget, filters.maxBudget]}
                         onValueChange={([min, max]) => setFilters({ ...filters, minBudget: min, maxBudget: max })}
                         min={0}
-                        max={100000}
+                        max={MAX_BUDGET}
                         step={1000}
                         className="mt-2"
                       />
@@ -358,24 +386,35 @@ export default function OrganizerDiscover() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="">All Cities</SelectItem>
-                          {CITIES.map((city) => (
-                            <SelectItem key={city} value={city}>
-                              {city}
+                          {cityOptions.map((city) => (
+                            <SelectItem key={city.value} value={city.value}>
+                              {city.label}{city.count > 0 ? ` (${city.count})` : ""}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                     </div>
 
-                    {/* Trust Score Filter */}
+                    {/* Availability Filter */}
                     <div className="space-y-2">
-                      <Label>Minimum Trust Score: {filters.minTrustScore}</Label>
+                      <Label>Available on</Label>
+                      <Input
+                        type="date"
+                        value={filters.availableOn}
+                        onChange={(e) => setFilters({ ...filters, availableOn: e.target.value })}
+                        className="w-48"
+                      />
+                    </div>
+
+                    {/* Rating Filter */}
+                    <div className="space-y-2">
+                      <Label>Minimum Rating: {filters.minRating > 0 ? filters.minRating.toFixed(1) : "Any"}</Label>
                       <Slider
-                        value={[filters.minTrustScore]}
-                        onValueChange={([v]) => setFilters({ ...filters, minTrustScore: v })}
+                        value={[filters.minRating]}
+                        onValueChange={([v]) => setFilters({ ...filters, minRating: v })}
                         min={0}
-                        max={100}
-                        step={5}
+                        max={5}
+                        step={0.5}
                       />
                     </div>
 
@@ -391,18 +430,23 @@ export default function OrganizerDiscover() {
                 {/* Sort Options */}
                 <div className="flex items-center gap-2">
                   <Label className="text-sm text-muted-foreground">Sort by:</Label>
-                  <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortOption)}>
+                  <Select value={sortBy} onValueChange={(v) => setSortBy(v as ArtistSort)}>
                     <SelectTrigger className="w-48">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="relevance">Relevance</SelectItem>
-                      <SelectItem value="price-low">Price: Low to High</SelectItem>
-                      <SelectItem value="price-high">Price: High to Low</SelectItem>
+                      <SelectItem value="fee_asc">Price: Low to High</SelectItem>
+                      <SelectItem value="fee_desc">Price: High to Low</SelectItem>
                       <SelectItem value="rating">Rating</SelectItem>
-                      <SelectItem value="trust-score">Trust Score</SelectItem>
+                      <SelectItem value="newest">Newest</SelectItem>
                     </SelectContent>
                   </Select>
+                  {!isLoading && (
+                    <span className="ml-auto text-sm text-muted-foreground">
+                      {totalArtists} artist{totalArtists === 1 ? "" : "s"}
+                    </span>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -423,7 +467,7 @@ export default function OrganizerDiscover() {
                 </Card>
               ))}
             </div>
-          ) : filteredAndSortedArtists.length === 0 ? (
+          ) : artists.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center">
                 <Music className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -433,11 +477,11 @@ export default function OrganizerDiscover() {
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredAndSortedArtists.map((artist) => {
+              {artists.map((artist) => {
                 const metadata = artist.metadata as any;
                 const trustScore = metadata?.trustScore || 50;
-                const city = metadata?.city || metadata?.location || "Unknown";
-                const genres = metadata?.genres || [];
+                const city = artist.city || "Unknown";
+                const genres = artist.genres;
 
                 return (
                   <Card
@@ -516,6 +560,15 @@ export default function OrganizerDiscover() {
               })}
             </div>
           )}
+
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more artists
+              </Button>
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="venues" className="space-y-6">
@@ -48,6 +48,7 @@ export default function OrganizerEventCreate() {
       capacityTotal: data.capacityTotal,
       currency: data.currency,
       visibility: data.visibility,
+      eventType: data.eventType,
       stages: data.stages?.map(stage => {
         let st = undefined;
         let et = undefined;
@@ -46,6 +46,7 @@ export default function OrganizerEventEdit() {
       capacityTotal: data.capacityTotal,
       currency: data.currency,
       visibility: data.visibility,
+      eventType: data.eventType,
       stages: data.stages?.map(stage => {
         let st = undefined;
         let et = undefined;
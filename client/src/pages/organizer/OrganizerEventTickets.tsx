@@ -0,0 +1,480 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import {
+  ArrowLeft,
+  Ticket as TicketIcon,
+  Plus,
+  Pencil,
+  Trash2,
+  Users,
+  ScanLine,
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  ExternalLink,
+  Loader2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { GuestlistDialog } from "@/components/booking/GuestlistDialog";
+import {
+  useTicketingSummary,
+  useSaveTicketTier,
+  useRemoveTicketTier,
+  useCheckIn,
+  type TicketTier,
+  type CheckInOutcome,
+} from "@/hooks/use-tickets";
+
+const TIER_TYPES = [
+  { value: "general", label: "General admission" },
+  { value: "vip", label: "VIP" },
+  { value: "reserved", label: "Reserved seating" },
+  { value: "earlybird", label: "Early bird" },
+] as const;
+
+const SALE_STATE_LABELS: Record<TicketTier["saleState"], string> = {
+  inactive: "Off sale",
+  not_started: "Not started",
+  on_sale: "On sale",
+  ended: "Ended",
+};
+
+type TierForm = {
+  name: string;
+  ticketType: (typeof TIER_TYPES)[number]["value"];
+  price: string;
+  quota: string;
+  maxPerOrder: string;
+  earlyBirdPrice: string;
+  earlyBirdEndsAt: string;
+  earlyBirdQuota: string;
+  salesStartAt: string;
+  salesEndAt: string;
+  active: boolean;
+};
+
+const EMPTY_FORM: TierForm = {
+  name: "",
+  ticketType: "general",
+  price: "",
+  quota: "",
+  maxPerOrder: "10",
+  earlyBirdPrice: "",
+  earlyBirdEndsAt: "",
+  earlyBirdQuota: "",
+  salesStartAt: "",
+  salesEndAt: "",
+  active: true,
+};
+
+/** datetime-local inputs work in local wall-clock time without a zone */
+function toLocalInput(iso: string | null): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toOptionalInt(value: string): number | null {
+  return value.trim() === "" ? null : parseInt(value, 10);
+}
+
+function formFromTier(tier: TicketTier): TierForm {
+  return {
+    name: tier.name,
+    ticketType: tier.ticketType === "guestlist" ? "general" : tier.ticketType,
+    price: String(Number(tier.price)),
+    quota: tier.quota?.toString() ?? "",
+    maxPerOrder: String(tier.maxPerOrder),
+    earlyBirdPrice: tier.earlyBirdPrice ? String(Number(tier.earlyBirdPrice)) : "",
+    earlyBirdEndsAt: toLocalInput(tier.earlyBirdEndsAt),
+    earlyBirdQuota: tier.earlyBirdQuota?.toString() ?? "",
+    salesStartAt: toLocalInput(tier.salesStartAt),
+    salesEndAt: toLocalInput(tier.salesEndAt),
+    active: tier.active,
+  };
+}
+
+function formatMoney(amount: number | string, currency: string | null = "INR") {
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency: currency || "INR", maximumFractionDigits: 2 })
+    .format(Number(amount));
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <Card className="glass-card border-white/5">
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider">{label}</p>
+        <p className="text-2xl font-bold mt-1">{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CheckInPanel({ eventId }: { eventId: number }) {
+  const checkIn = useCheckIn(eventId);
+  const [code, setCode] = useState("");
+  const [outcome, setOutcome] = useState<CheckInOutcome | null>(null);
+
+  const submit = () => {
+    if (!code.trim()) return;
+    checkIn.mutate(code.trim(), {
+      onSuccess: (result) => {
+        setOutcome(result);
+        setCode("");
+      },
+      onError: (error: Error) => setOutcome({ result: "invalid", message: error.message, ticket: null }),
+    });
+  };
+
+  const tone = outcome?.result === "admitted"
+    ? { icon: CheckCircle2, className: "border-green-500/30 bg-green-500/10 text-green-400" }
+    : outcome?.result === "already_used"
+      ? { icon: AlertTriangle, className: "border-orange-500/30 bg-orange-500/10 text-orange-400" }
+      : { icon: XCircle, className: "border-red-500/30 bg-red-500/10 text-red-400" };
+  const ToneIcon = tone.icon;
+
+  return (
+    <Card className="glass-card border-white/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ScanLine className="w-5 h-5 text-primary" /> Door check-in
+        </CardTitle>
+        <CardDescription>Scan a ticket's QR code into the field, or type the code printed under it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <Input
+            autoFocus
+            placeholder="TKT…"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!code.trim() || checkIn.isPending}>
+            {checkIn.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Check in
+          </Button>
+        </form>
+        {outcome && (
+          <div className={`flex items-start gap-3 rounded-lg border p-3 ${tone.className}`}>
+            <ToneIcon className="w-5 h-5 shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold">{outcome.message}</p>
+              {outcome.ticket && (
+                <p className="text-xs opacity-80 capitalize">
+                  {outcome.ticket.holderName || "Ticket holder"} · {outcome.ticket.ticketType}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OrganizerEventTickets() {
+  const [, params] = useRoute("/organizer/events/:id/tickets");
+  const eventId = params?.id ? parseInt(params.id, 10) : 0;
+  const [, setLocation] = useLocation();
+
+  const { data: summary, isLoading, error } = useTicketingSummary(eventId || undefined);
+  const saveTier = useSaveTicketTier(eventId);
+  const removeTier = useRemoveTicketTier(eventId);
+
+  const [editing, setEditing] = useState<TicketTier | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<TierForm>(EMPTY_FORM);
+  const [showGuestlist, setShowGuestlist] = useState(false);
+
+  const openForm = (tier: TicketTier | null) => {
+    setEditing(tier);
+    setForm(tier ? formFromTier(tier) : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const update = <K extends keyof TierForm>(key: K, value: TierForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const submitTier = () => {
+    const earlyBirdPrice = form.earlyBirdPrice.trim() === "" ? null : Number(form.earlyBirdPrice);
+    saveTier.mutate(
+      {
+        tierId: editing?.id,
+        name: form.name.trim(),
+        ticketType: form.ticketType,
+        price: Number(form.price),
+        quota: toOptionalInt(form.quota),
+        maxPerOrder: toOptionalInt(form.maxPerOrder) ?? 10,
+        earlyBirdPrice,
+        earlyBirdEndsAt: earlyBirdPrice === null ? null : fromLocalInput(form.earlyBirdEndsAt) as any,
+        earlyBirdQuota: earlyBirdPrice === null ? null : toOptionalInt(form.earlyBirdQuota),
+        salesStartAt: fromLocalInput(form.salesStartAt) as any,
+        salesEndAt: fromLocalInput(form.salesEndAt) as any,
+        active: form.active,
+      },
+      { onSuccess: () => setFormOpen(false) },
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-16 space-y-4">
+        <p className="text-muted-foreground">{(error as Error | null)?.message || "Event not found"}</p>
+        <Button variant="outline" onClick={() => setLocation("/organizer/events")}>Back to events</Button>
+      </div>
+    );
+  }
+
+  const { event, tiers, totals } = summary;
+  const isPublic = event.visibility === "public";
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col md:flex-row md:items-center justify-between gap-4"
+      >
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLocation("/organizer/events")}
+            className="rounded-full bg-white/5 hover:bg-white/10"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+              <TicketIcon className="w-8 h-8 text-primary" />
+              Tickets
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {event.title} · {format(new Date(event.startTime), "PPP p")}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => setShowGuestlist(true)}>
+            <Users className="w-4 h-4" /> Guestlist
+          </Button>
+          {isPublic && (
+            <Link href={`/events/${event.id}/tickets`}>
+              <Button variant="outline" className="gap-2">
+                <ExternalLink className="w-4 h-4" /> Ticket page
+              </Button>
+            </Link>
+          )}
+        </div>
+      </motion.div>
+
+      {!isPublic && (
+        <Card className="border-orange-500/30 bg-orange-500/5">
+          <CardContent className="p-4 text-sm text-orange-300">
+            This event is private. Make it public to sell tickets; the guestlist works either way.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <StatCard label="Sold" value={totals.sold} />
+        <StatCard label="Guestlist" value={totals.guestlist} />
+        <StatCard label="Checked in" value={totals.checkedIn} />
+        <StatCard
+          label="Places left"
+          value={totals.capacityRemaining === null ? "No limit" : `${totals.capacityRemaining} / ${event.capacityTotal}`}
+        />
+        <StatCard label="Revenue" value={formatMoney(totals.revenue)} />
+      </div>
+
+      <Card className="glass-card border-white/5">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Ticket tiers</CardTitle>
+            <CardDescription>
+              Every tier shares the event capacity{event.capacitySeated ? `; reserved seating is limited to ${event.capacitySeated} seats` : ""}.
+            </CardDescription>
+          </div>
+          {isPublic && (
+            <Button size="sm" className="gap-2" onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4" /> Add tier
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {tiers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No tiers yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {tiers.map((tier) => (
+                <div key={tier.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 rounded-lg border border-white/10 p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{tier.name}</span>
+                      <Badge variant="outline" className="capitalize text-[10px]">{tier.ticketType}</Badge>
+                      <Badge variant="outline" className="text-[10px]">{SALE_STATE_LABELS[tier.saleState]}</Badge>
+                      {tier.earlyBird && <Badge className="bg-primary/15 text-primary border-primary/25 text-[10px]">Early bird</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatMoney(tier.currentPrice, tier.currency)}
+                      {tier.earlyBird && ` (then ${formatMoney(tier.price, tier.currency)})`}
+                      {" · "}{tier.sold} sold
+                      {tier.remaining !== null && ` · ${tier.remaining} left`}
+                      {tier.earlyBird && tier.earlyBirdRemaining !== null && ` · ${tier.earlyBirdRemaining} at early-bird price`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => openForm(tier)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:bg-destructive/10"
+                      disabled={removeTier.isPending || !tier.active}
+                      onClick={() => removeTier.mutate(tier.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CheckInPanel eventId={event.id} />
+
+      <GuestlistDialog
+        eventId={event.id}
+        eventTitle={event.title}
+        open={showGuestlist}
+        onOpenChange={setShowGuestlist}
+      />
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "Add ticket tier"}</DialogTitle>
+            <DialogDescription>
+              An early-bird price applies until its end date or until its quota is sold, whichever comes first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2 space-y-1.5">
+              <Label>Name</Label>
+              <Input value={form.name} maxLength={100} onChange={(e) => update("name", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Type</Label>
+              <Select value={form.ticketType} onValueChange={(v) => update("ticketType", v as TierForm["ticketType"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TIER_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Price</Label>
+              <Input type="number" min={0} step="0.01" value={form.price} onChange={(e) => update("price", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Quota (optional)</Label>
+              <Input type="number" min={1} value={form.quota} onChange={(e) => update("quota", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Max per order</Label>
+              <Input type="number" min={1} max={50} value={form.maxPerOrder} onChange={(e) => update("maxPerOrder", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Sales start</Label>
+              <Input type="datetime-local" value={form.salesStartAt} onChange={(e) => update("salesStartAt", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Sales end</Label>
+              <Input type="datetime-local" value={form.salesEndAt} onChange={(e) => update("salesEndAt", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Early-bird price</Label>
+              <Input type="number" min={0} step="0.01" value={form.earlyBirdPrice} onChange={(e) => update("earlyBirdPrice", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Early-bird quota</Label>
+              <Input
+                type="number"
+                min={1}
+                disabled={!form.earlyBirdPrice}
+                value={form.earlyBirdQuota}
+                onChange={(e) => update("earlyBirdQuota", e.target.value)}
+              />
+            </div>
+            <div className="col-span-2 space-y-1.5">
+              <Label>Early-bird ends</Label>
+              <Input
+                type="datetime-local"
+                disabled={!form.earlyBirdPrice}
+                value={form.earlyBirdEndsAt}
+                onChange={(e) => update("earlyBirdEndsAt", e.target.value)}
+              />
+            </div>
+            <div className="col-span-2 flex items-center justify-between">
+              <Label>On sale</Label>
+              <Switch checked={form.active} onCheckedChange={(v) => update("active", v)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              onClick={submitTier}
+              disabled={!form.name.trim() || form.price === "" || saveTier.isPending}
+            >
+              {saveTier.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save" : "Add tier"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
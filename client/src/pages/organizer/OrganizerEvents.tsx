@@ -14,6 +14,7 @@ import {
   Plus,
   Clock,
   ChevronRight,
+  Ticket,
 } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
@@ -297,6 +298,16 @@ function EventCard({ event, status, index, onPublish, onDelete }: EventCardProps
             </Link>
           )}
 
+          {/* Ticket tiers, guestlist and door check-in */}
+          {status !== "cancelled" && (
+            <Link href={`/organizer/events/${event.id}/tickets`}>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Ticket className="w-4 h-4" />
+                Tickets
+              </Button>
+            </Link>
+          )}
+
           {/* Publish button for draft events only */}
           {status === "draft" && onPublish && (
             <Button
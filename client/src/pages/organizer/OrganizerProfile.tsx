@@ -39,6 +39,7 @@ import { Shield } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileAiSettings } from "@/components/agents/ProfileAiSettings";
+import { LinkedAccounts } from "@/components/auth/LinkedAccounts";
 import { Separator } from "@/components/ui/separator";
 import { Loader2 } from "lucide-react";
 
@@ -518,6 +519,7 @@ export default function OrganizerProfile() {
 
           {/* AI Settings */}
           <ProfileAiSettings />
+          <LinkedAccounts />
         </div>
 
         {/* Sidebar */}
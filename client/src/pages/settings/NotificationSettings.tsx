@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, BellRing, Loader2, Moon, Mail } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  type NotificationPreferences,
+} from "@/hooks/use-notifications";
+
+const CHANNEL_LABELS: Record<string, string> = {
+  in_app: "In-app",
+  email: "Email",
+  sms: "SMS",
+  push: "Push",
+};
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+type Settings = NotificationPreferences["settings"];
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function formatCategory(category: string): string {
+  return category.charAt(0).toUpperCase() + category.slice(1).replace(/_/g, " ");
+}
+
+function groupByCategory(types: NotificationPreferences["types"]) {
+  const groups = new Map<string, NotificationPreferences["types"]>();
+  for (const type of types) {
+    const list = groups.get(type.category) || [];
+    list.push(type);
+    groups.set(type.category, list);
+  }
+  return Array.from(groups.entries());
+}
+
+export default function NotificationSettings() {
+  const { data, isLoading } = useNotificationPreferences();
+  const update = useUpdateNotificationPreferences();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<Settings | null>(null);
+
+  useEffect(() => {
+    if (data) setSettings(data.settings);
+  }, [data]);
+
+  if (isLoading || !data || !settings) {
+    return (
+      <div className="container max-w-3xl py-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const quietEnabled = settings.quietHoursStart !== null;
+
+  const toggleChannel = (notificationTypeKey: string, channel: string, enabled: boolean) => {
+    update.mutate({
+      preferences: [{ notificationTypeKey, channel: channel as "in_app" | "email" | "sms" | "push", enabled }],
+    });
+  };
+
+  const saveSettings = () => {
+    update.mutate(
+      { settings },
+      { onSuccess: () => toast({ title: "Notification settings saved" }) },
+    );
+  };
+
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <Link href="/notifications">
+          <Button variant="ghost" size="icon" className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Notification Settings</h1>
+          <p className="text-sm text-muted-foreground">
+            Times are in your timezone ({data.timezone}).
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Moon className="h-4 w-4" /> Quiet Hours
+          </CardTitle>
+          <CardDescription>
+            No sounds, pop-ups or emails during these hours. Urgent notifications still come through.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="quiet-hours">Enable quiet hours</Label>
+            <Switch
+              id="quiet-hours"
+              checked={quietEnabled}
+              onCheckedChange={(checked) =>
+                setSettings({
+                  ...settings,
+                  quietHoursStart: checked ? "22:00" : null,
+                  quietHoursEnd: checked ? "07:00" : null,
+                })
+              }
+            />
+          </div>
+          {quietEnabled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-xs">From</Label>
+                <Input
+                  type="time"
+                  value={settings.quietHoursStart ?? ""}
+                  onChange={(e) => setSettings({ ...settings, quietHoursStart: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Until</Label>
+                <Input
+                  type="time"
+                  value={settings.quietHoursEnd ?? ""}
+                  onChange={(e) => setSettings({ ...settings, quietHoursEnd: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mail className="h-4 w-4" /> Email Digest
+          </CardTitle>
+          <CardDescription>
+            Bundle non-urgent emails into one summary instead of sending each one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-xs">Frequency</Label>
+            <Select
+              value={settings.digestFrequency}
+              onValueChange={(value) => setSettings({ ...settings, digestFrequency: value as Settings["digestFrequency"] })}
+            >
+              <SelectTrigger className="bg-background/60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off — send each email</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly (Mondays)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Send at</Label>
+            <Select
+              value={String(settings.digestHour)}
+              onValueChange={(value) => setSettings({ ...settings, digestHour: parseInt(value, 10) })}
+              disabled={settings.digestFrequency === "off"}
+            >
+              <SelectTrigger className="bg-background/60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOURS.map((h) => (
+                  <SelectItem key={h} value={String(h)}>{formatHour(h)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={saveSettings} disabled={update.isPending}>
+          {update.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Settings
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <BellRing className="h-4 w-4" /> Notification Types
+          </CardTitle>
+          <CardDescription>
+            Choose where each kind of notification reaches you. Changes save immediately.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {groupByCategory(data.types).map(([category, types]) => (
+            <div key={category} className="space-y-2">
+              <h3 className="text-sm font-semibold text-muted-foreground">{formatCategory(category)}</h3>
+              <div className="divide-y divide-border/50 rounded-lg border">
+                {types.map((type) => (
+                  <div key={type.key} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{type.label}</span>
+                        {type.priority === "urgent" && (
+                          <Badge variant="outline" className="text-red-600 text-[10px] py-0 px-1.5">Urgent</Badge>
+                        )}
+                      </div>
+                      {type.description && (
+                        <p className="text-xs text-muted-foreground">{type.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      {data.availableChannels.map((channel) => (
+                        <label key={channel} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          {CHANNEL_LABELS[channel] || channel}
+                          <Switch
+                            checked={!!type.channels[channel]}
+                            onCheckedChange={(checked) => toggleChannel(type.key, channel, checked)}
+                            disabled={update.isPending}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {data.types.length === 0 && (
+            <p className="text-sm text-muted-foreground">No notification types apply to your account.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
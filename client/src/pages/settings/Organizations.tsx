@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { ArrowLeft, Building2, Link2, Loader2, Mail, Plus, Trash2, UserMinus, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useAddOrganizationProfile,
+  useCreateOrganization,
+  useDeleteOrganization,
+  useInviteMember,
+  useOrganization,
+  useOrganizations,
+  useRemoveMember,
+  useRemoveOrganizationProfile,
+  useRevokeInvite,
+  useUpdateMemberRole,
+  type OrganizationRole,
+  type ProfileRef,
+} from "@/hooks/use-organizations";
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  viewer: "Viewer",
+};
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Manages members and the organization",
+  manager: "Books, negotiates and signs for its profiles",
+  viewer: "Can see its bookings and contracts",
+};
+
+const PROFILE_LABELS: Record<ProfileRef["type"], string> = {
+  artist: "Artist",
+  organizer: "Organizer",
+  venue: "Venue",
+};
+
+function CreateOrganizationCard() {
+  const create = useCreateOrganization();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState("");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    create.mutate(
+      { name },
+      {
+        onSuccess: (organization) => {
+          setName("");
+          setLocation(`/settings/organizations?org=${organization.id}`);
+        },
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Plus className="h-4 w-4" /> New Organization
+        </CardTitle>
+        <CardDescription>
+          Share artist, venue and organizer profiles with your team, like an agency or a promoter company.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            placeholder="Organization name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-background/60"
+          />
+          <Button type="submit" disabled={create.isPending || name.trim().length < 2}>
+            {create.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function OrganizationDetail({ orgId }: { orgId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { data: org, isLoading } = useOrganization(orgId);
+  const updateRole = useUpdateMemberRole(orgId);
+  const removeMember = useRemoveMember(orgId);
+  const invite = useInviteMember(orgId);
+  const revokeInvite = useRevokeInvite(orgId);
+  const addProfile = useAddOrganizationProfile(orgId);
+  const removeProfile = useRemoveOrganizationProfile(orgId);
+  const deleteOrganization = useDeleteOrganization();
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("viewer");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  if (isLoading || !org || !user) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const isOwner = org.role === "owner";
+  const canManage = org.role === "owner" || org.role === "manager";
+
+  // The user's own profiles that are not in this organization yet
+  const ownProfiles: (ProfileRef & { name: string })[] = [
+    user.artist && { type: "artist" as const, id: user.artist.id, name: user.artist.name, organizationId: user.artist.organizationId },
+    user.organizer && { type: "organizer" as const, id: user.organizer.id, name: user.organizer.name || "Organizer", organizationId: user.organizer.organizationId },
+    user.venue && { type: "venue" as const, id: user.venue.id, name: user.venue.name, organizationId: user.venue.organizationId },
+  ].filter((p): p is NonNullable<typeof p> => !!p && p.organizationId !== orgId);
+
+  const sendInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    invite.mutate(
+      { email: inviteEmail, role: inviteRole },
+      {
+        onSuccess: (result) => {
+          setInviteEmail("");
+          setInviteUrl(result.emailSent ? null : result.inviteUrl);
+        },
+      },
+    );
+  };
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({ title: "Invite link copied" });
+  };
+
+  const leaveOrDelete = () => {
+    if (isOwner && org.members.filter((m) => m.role === "owner").length === 1) {
+      if (!confirm(`Delete ${org.name}? Its profiles stay with their own users.`)) return;
+      deleteOrganization.mutate(orgId, { onSuccess: () => setLocation("/settings/organizations") });
+    } else {
+      if (!confirm(`Leave ${org.name}?`)) return;
+      removeMember.mutate(user.id, { onSuccess: () => setLocation("/settings/organizations") });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">{org.name}</h2>
+          <p className="text-sm text-muted-foreground">You are {org.role === "owner" ? "an owner" : `a ${org.role}`}.</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={leaveOrDelete}>
+          {isOwner && org.members.filter((m) => m.role === "owner").length === 1 ? "Delete organization" : "Leave"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Building2 className="h-4 w-4" /> Profiles
+          </CardTitle>
+          <CardDescription>
+            Owners and managers can act as these profiles from the account menu.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="divide-y divide-border/50 rounded-lg border">
+            {org.profiles.map((profile) => (
+              <div key={`${profile.type}-${profile.id}`} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className="text-[10px]">{PROFILE_LABELS[profile.type]}</Badge>
+                  <span className="text-sm font-medium truncate">{profile.name}</span>
+                </div>
+                {(canManage || profile.userId === user.id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => removeProfile.mutate({ type: profile.type, id: profile.id })}
+                    aria-label="Remove profile"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {org.profiles.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">No profiles yet.</p>
+            )}
+          </div>
+          {canManage && ownProfiles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {ownProfiles.map((profile) => (
+                <Button
+                  key={profile.type}
+                  variant="outline"
+                  size="sm"
+                  disabled={addProfile.isPending}
+                  onClick={() => addProfile.mutate({ type: profile.type, id: profile.id })}
+                >
+                  <Plus className="h-3 w-3 mr-1" /> Add my {PROFILE_LABELS[profile.type].toLowerCase()} profile ({profile.name})
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Users className="h-4 w-4" /> Members
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y divide-border/50 rounded-lg border">
+            {org.members.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {member.name}{member.userId === user.id && <span className="text-muted-foreground"> (you)</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => updateRole.mutate({ userId: member.userId, role: role as OrganizationRole })}
+                    >
+                      <SelectTrigger className="w-32 h-8 bg-background/60">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {isOwner && member.userId !== user.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeMember.mutate(member.userId)}
+                      aria-label="Remove member"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Mail className="h-4 w-4" /> Invites
+            </CardTitle>
+            <CardDescription>
+              Invites are emailed and expire after 7 days. The person joins by signing in with the invited address.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={sendInvite} className="grid grid-cols-[1fr_auto_auto] gap-2 items-end">
+              <div>
+                <Label className="text-xs">Email</Label>
+                <Input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="bg-background/60"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Role</Label>
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrganizationRole)}>
+                  <SelectTrigger className="w-32 bg-background/60">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as OrganizationRole[])
+                      .filter((role) => role !== "owner" || isOwner)
+                      .map((role) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={invite.isPending || !inviteEmail}>
+                {invite.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Invite
+              </Button>
+            </form>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}.</p>
+
+            {inviteUrl && (
+              <div className="flex items-center gap-2 rounded-lg border p-3">
+                <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="text-xs truncate flex-1">{inviteUrl}</span>
+                <Button variant="outline" size="sm" onClick={copyInviteUrl}>Copy</Button>
+              </div>
+            )}
+
+            {org.invites.length > 0 && (
+              <div className="divide-y divide-border/50 rounded-lg border">
+                {org.invites.map((pending) => (
+                  <div key={pending.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <div className="text-sm truncate">{pending.email}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {ROLE_LABELS[pending.role]} · {pending.state === "expired" ? "Expired" : `Expires ${new Date(pending.expiresAt).toLocaleDateString()}`}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => revokeInvite.mutate(pending.id)}>
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default function Organizations() {
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const selectedId = Number(params.get("org")) || undefined;
+  const { data: organizations, isLoading } = useOrganizations();
+
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        {selectedId && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setLocation("/settings/organizations")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        )}
+        <div>
+          <h1 className="text-2xl font-bold">Organizations</h1>
+          <p className="text-sm text-muted-foreground">
+            Teams that share artist, venue and organizer profiles.
+          </p>
+        </div>
+      </div>
+
+      {selectedId ? (
+        <OrganizationDetail orgId={selectedId} />
+      ) : (
+        <>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {organizations?.map((org) => (
+                <Card
+                  key={org.id}
+                  className="cursor-pointer hover:bg-white/5 transition-colors"
+                  onClick={() => setLocation(`/settings/organizations?org=${org.id}`)}
+                >
+                  <CardContent className="flex items-center justify-between gap-4 p-4">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{org.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {org.memberCount} member{org.memberCount === 1 ? "" : "s"} · {org.profileCount} profile{org.profileCount === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">{ROLE_LABELS[org.role]}</Badge>
+                  </CardContent>
+                </Card>
+              ))}
+              {organizations?.length === 0 && (
+                <p className="text-sm text-muted-foreground">You are not in any organization yet.</p>
+              )}
+            </div>
+          )}
+          <CreateOrganizationCard />
+        </>
+      )}
+    </div>
+  );
+}
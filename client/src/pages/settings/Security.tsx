@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  useDisableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useTwoFactorStatus,
+} from "@/hooks/use-two-factor";
+import { TwoFactorSetup } from "@/components/two-factor/TwoFactorSetup";
+import { TwoFactorCodeInput } from "@/components/two-factor/TwoFactorCodeInput";
+import { RecoveryCodesList } from "@/components/two-factor/RecoveryCodesList";
+
+type Action = "setup" | "regenerate" | "disable" | null;
+
+export default function SecuritySettings() {
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const regenerate = useRegenerateRecoveryCodes();
+  const disable = useDisableTwoFactor();
+  const [action, setAction] = useState<Action>(null);
+  const [code, setCode] = useState("");
+
+  if (isLoading || !status) {
+    return (
+      <div className="container max-w-3xl py-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const start = (next: Action) => {
+    setCode("");
+    regenerate.reset();
+    disable.reset();
+    setAction(next);
+  };
+
+  const confirm = () => {
+    if (!code.trim()) return;
+    if (action === "regenerate") regenerate.mutate(code, { onError: () => setCode("") });
+    if (action === "disable") disable.mutate(code, { onSuccess: () => start(null), onError: () => setCode("") });
+  };
+
+  const pending = regenerate.isPending || disable.isPending;
+  const error = regenerate.error || disable.error;
+
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Security</h1>
+        <p className="text-sm text-muted-foreground">Protect your account and your contract signatures.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            {status.enabled ? <ShieldCheck className="h-4 w-4 text-green-500" /> : <ShieldOff className="h-4 w-4" />}
+            Two-Factor Authentication
+            <Badge variant={status.enabled ? "default" : "secondary"} className="ml-auto">
+              {status.enabled ? "On" : "Off"}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Ask for a code from your authenticator app when you sign in. It is also needed to sign contracts
+            {status.required ? ", and is required for admin accounts." : "."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Setup stays mounted after enabling so the new recovery codes can be saved */}
+          {action === "setup" ? (
+            <TwoFactorSetup onDone={() => start(null)} />
+          ) : !status.enabled ? (
+            <Button onClick={() => start("setup")}>Turn on two-factor authentication</Button>
+          ) : regenerate.data ? (
+            <>
+              <RecoveryCodesList codes={regenerate.data.recoveryCodes} />
+              <Button variant="outline" onClick={() => start(null)}>Done</Button>
+            </>
+          ) : action === "regenerate" || action === "disable" ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {action === "regenerate"
+                  ? "Enter a current code to replace all of your recovery codes."
+                  : "Enter a current code to turn off two-factor authentication."}
+              </p>
+              <TwoFactorCodeInput value={code} onChange={setCode} allowRecovery disabled={pending} />
+              {error && <p className="text-sm text-center text-destructive">{error.message}</p>}
+              <div className="flex gap-2 justify-end">
+                <Button variant="ghost" onClick={() => start(null)}>Cancel</Button>
+                <Button
+                  variant={action === "disable" ? "destructive" : "default"}
+                  onClick={confirm}
+                  disabled={!code.trim() || pending}
+                >
+                  {pending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {action === "regenerate" ? "Regenerate codes" : "Turn off"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-muted-foreground mr-auto">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+              </span>
+              <Button variant="outline" onClick={() => start("regenerate")}>Regenerate recovery codes</Button>
+              {!status.required && (
+                <Button variant="ghost" className="text-destructive" onClick={() => start("disable")}>Turn off</Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useBookings, useUpdateBooking } from "@/hooks/use-bookings";
+import { useBookings, useRespondToBooking } from "@/hooks/use-bookings";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { Card, CardContent } from "@/components/ui/card";
@@ -19,11 +19,13 @@ import {
     Eye,
     MessageSquare,
     ArrowUpRight,
-    FileText
+    FileText,
+    CalendarPlus
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { useNegotiationChatContext } from "@/components/booking/NegotiationChatToggle";
+import { CalendarSyncDialog } from "@/components/booking/CalendarSyncDialog";
 
 type BookingStatus = "all" | "pending" | "confirmed" | "completed" | "cancelled";
 
@@ -78,7 +80,7 @@ export default function VenueBookings() {
     const { data: rawBookings, isLoading } = useBookings();
     const bookings = rawBookings as unknown as EnrichedBooking[] | undefined;
 
-    const updateMutation = useUpdateBooking();
+    const respondMutation = useRespondToBooking();
     const { openChat } = useNegotiationChatContext();
 
     const [activeTab, setActiveTab] = useState<BookingStatus>("all");
@@ -125,8 +127,8 @@ export default function VenueBookings() {
         return new Date(dateB).getTime() - new Date(dateA).getTime();
     }) || [];
 
-    const handleStatusUpdate = async (id: number, status: string) => {
-        updateMutation.mutate({ id, status: status as any });
+    const handleRespond = (id: number, action: "accept" | "walkaway") => {
+        respondMutation.mutate({ id, action, reason: responseMessage.trim() || undefined });
         setShowResponseDialog(false);
         setSelectedBooking(null);
         setResponseMessage("");
@@ -150,12 +152,15 @@ export default function VenueBookings() {
                     <h1 className="text-3xl font-display font-bold">Venue Bookings</h1>
                     <p className="text-muted-foreground">Manage artist applications and bookings</p>
                 </div>
-                <Input
-                    placeholder="Search artist or event..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full md:w-72 pl-9 bg-background/60"
-                />
+                <div className="flex items-center gap-2 w-full md:w-auto">
+                    <CalendarSyncDialog />
+                    <Input
+                        placeholder="Search artist or event..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full md:w-72 pl-9 bg-background/60"
+                    />
+                </div>
             </div>
 
             <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as BookingStatus)}>
@@ -255,6 +260,15 @@ export default function VenueBookings() {
                                             </Button>
                                         )}
 
+                                        {["contracting", "confirmed", "scheduled", "paid_deposit", "completed"].includes(selectedBooking.status) && (
+                                            <Button variant="outline" asChild>
+                                                <a href={`/api/bookings/${selectedBooking.id}/calendar.ics`} download>
+                                                    <CalendarPlus className="w-4 h-4 mr-2" />
+                                                    Add to Calendar
+                                                </a>
+                                            </Button>
+                                        )}
+
                                         <Button variant="outline" onClick={handleCloseDetails}>
                                             Close
                                         </Button>
@@ -292,11 +306,11 @@ export default function VenueBookings() {
                     <DialogFooter>
                         <Button variant="outline" onClick={() => setShowResponseDialog(false)}>Cancel</Button>
                         <Button
-                            onClick={() => handleStatusUpdate(selectedBooking.id, responseType === "accept" ? "confirmed" : "cancelled")}
+                            onClick={() => handleRespond(selectedBooking.id, responseType === "accept" ? "accept" : "walkaway")}
                             className={responseType === "accept" ? "bg-green-600" : "bg-red-600"}
-                            disabled={updateMutation.isPending}
+                            disabled={respondMutation.isPending}
                         >
-                            {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            {respondMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                             Confirm
                         </Button>
                     </DialogFooter>
@@ -116,7 +116,7 @@ export default function VenueDashboard() {
                     <div>
                         <p className="font-semibold text-yellow-400">Account Pending Verification</p>
                         <p className="text-sm text-yellow-300/80 mt-0.5">
-                            Your account is awaiting admin approval. You cannot send booking offers until verified.{" "}
+                            Verify your email address to send booking offers. Check your inbox for the link, or resend it from the banner above.{" "}
                             <a href="mailto:support@bandwidth.in" className="underline hover:text-yellow-200">Contact Support</a>
                         </p>
                     </div>
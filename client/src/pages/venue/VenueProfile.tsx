@@ -19,6 +19,7 @@ import {
     Save, Loader2, Globe, Instagram, Mail, Phone, X, Check, Image
 } from "lucide-react";
 import { ProfileAiSettings } from "@/components/agents/ProfileAiSettings";
+import { LinkedAccounts } from "@/components/auth/LinkedAccounts";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 // ============================================================================
@@ -574,6 +575,9 @@ export default function VenueProfile() {
             <div className="mt-6">
                 <ProfileAiSettings />
             </div>
+            <div className="mt-6">
+                <LinkedAccounts />
+            </div>
         </div>
     );
 }
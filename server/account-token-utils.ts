@@ -0,0 +1,185 @@
+/**
+ * Pure utility functions for account email links: signing and checking
+ * email verification and password reset tokens, rate-limit decisions,
+ * password rules and what an unverified account may not do. These functions
+ * contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/account.service.ts
+ * Tested by: tests/services/account.test.ts
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export type AccountTokenPurpose = "email_verification" | "password_reset";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long each kind of link stays valid */
+export const ACCOUNT_TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  email_verification: 24 * HOUR_MS,
+  password_reset: HOUR_MS,
+};
+
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+/** Links sent to one account per purpose */
+export const ACCOUNT_RATE_LIMIT: RateLimit = { max: 3, windowMs: HOUR_MS };
+
+/** Links requested from one IP address across all accounts */
+export const IP_RATE_LIMIT: RateLimit = { max: 10, windowMs: HOUR_MS };
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+export interface AccountTokenPayload {
+  /** account_tokens row id */
+  id: number;
+  userId: number;
+  purpose: AccountTokenPurpose;
+  /** Expiry as epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * The secret account links are signed with. There is no built-in fallback:
+ * anyone who knew it could forge a password reset link for any account.
+ */
+export function accountTokenSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.AUTH_TOKEN_SECRET || env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_TOKEN_SECRET or SESSION_SECRET must be set to sign account links");
+  }
+  return secret;
+}
+
+function signature(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+/** `<payload>.<signature>`, both base64url */
+export function signAccountToken(payload: AccountTokenPayload, secret: string): string {
+  const body = Buffer.from(
+    JSON.stringify([payload.id, payload.userId, payload.purpose, payload.expiresAt]),
+  ).toString("base64url");
+  return `${body}.${signature(body, secret)}`;
+}
+
+export type AccountTokenCheck =
+  | { ok: true; payload: AccountTokenPayload }
+  | { ok: false; reason: "invalid" | "expired" };
+
+/**
+ * Checks the signature, purpose and expiry of a token. A token for another
+ * purpose is "invalid" so a verification link cannot reset a password.
+ */
+export function verifyAccountToken(
+  token: string,
+  purpose: AccountTokenPurpose,
+  secret: string,
+  now: Date = new Date(),
+): AccountTokenCheck {
+  const [body, sig, extra] = token.split(".");
+  if (!body || !sig || extra !== undefined) return { ok: false, reason: "invalid" };
+
+  const expected = Buffer.from(signature(body, secret));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  let parts: unknown;
+  try {
+    parts = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+  if (!Array.isArray(parts) || parts.length !== 4) return { ok: false, reason: "invalid" };
+
+  const [id, userId, tokenPurpose, expiresAt] = parts;
+  if (!Number.isInteger(id) || !Number.isInteger(userId) || typeof expiresAt !== "number") {
+    return { ok: false, reason: "invalid" };
+  }
+  if (tokenPurpose !== purpose) return { ok: false, reason: "invalid" };
+  if (expiresAt <= now.getTime()) return { ok: false, reason: "expired" };
+
+  return { ok: true, payload: { id, userId, purpose, expiresAt } };
+}
+
+export function accountTokenExpiry(purpose: AccountTokenPurpose, now: Date = new Date()): Date {
+  return new Date(now.getTime() + ACCOUNT_TOKEN_TTL_MS[purpose]);
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+export function rateLimitWindowStart(limit: RateLimit, now: Date = new Date()): Date {
+  return new Date(now.getTime() - limit.windowMs);
+}
+
+/**
+ * Whether another request fits the limit, given the times of earlier
+ * requests. When it does not, `retryAfterMs` is how long until the oldest
+ * request in the window drops out.
+ */
+export function checkRateLimit(
+  recent: Date[],
+  limit: RateLimit,
+  now: Date = new Date(),
+): { allowed: boolean; retryAfterMs: number } {
+  const start = rateLimitWindowStart(limit, now).getTime();
+  const inWindow = recent.map((d) => d.getTime()).filter((t) => t > start).sort((a, b) => a - b);
+  if (inWindow.length < limit.max) return { allowed: true, retryAfterMs: 0 };
+  const oldest = inWindow[inWindow.length - limit.max];
+  return { allowed: false, retryAfterMs: Math.max(0, oldest + limit.windowMs - now.getTime()) };
+}
+
+// ---------------------------------------------------------------------------
+// Passwords
+// ---------------------------------------------------------------------------
+
+/** Why a new password is not acceptable, or null */
+export function passwordPolicyError(password: string): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Account restrictions
+// ---------------------------------------------------------------------------
+
+export type RestrictedAction = "send offers" | "sign contracts";
+
+/**
+ * Why the account may not take a binding action yet, or null. Accounts stay
+ * pending_verification until the email link is followed (accounts older than
+ * verification are moved to active by server/scripts/backfill-email-verification.ts).
+ */
+export function accountRestriction(
+  user: { status?: string | null },
+  action: RestrictedAction,
+): string | null {
+  if (user.status === "suspended") {
+    return "Your account is suspended. Please contact support.";
+  }
+  if (user.status === "pending_verification") {
+    return `Verify your email address before you ${action}`;
+  }
+  return null;
+}
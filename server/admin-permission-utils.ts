@@ -0,0 +1,122 @@
+/**
+ * Pure utility functions for admin panel permissions: the permission catalog,
+ * the defaults each admin-panel role starts with, resolving a role's
+ * effective permissions and validating edits to them.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/admin-permission.service.ts, server/routes/admin.ts
+ * Tested by: tests/services/admin-permission.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Catalog
+// ---------------------------------------------------------------------------
+
+export const ADMIN_PERMISSIONS = [
+  { key: "dashboard.view", group: "Overview", label: "View platform stats" },
+  { key: "users.view", group: "Users", label: "View users and roles" },
+  { key: "users.edit", group: "Users", label: "Create, edit and delete users" },
+  { key: "users.suspend", group: "Users", label: "Approve, reject and suspend users" },
+  { key: "users.roles", group: "Users", label: "Grant and revoke user roles" },
+  { key: "profiles.view", group: "Profiles", label: "View artist, organizer and venue profiles" },
+  { key: "profiles.edit", group: "Profiles", label: "Edit artist, organizer and venue profiles" },
+  { key: "events.view", group: "Workflow", label: "View events" },
+  { key: "events.manage", group: "Workflow", label: "Edit and delete events" },
+  { key: "bookings.view", group: "Workflow", label: "View bookings" },
+  { key: "bookings.manage", group: "Workflow", label: "Change booking status" },
+  { key: "disputes.view", group: "Workflow", label: "View disputes" },
+  { key: "disputes.resolve", group: "Workflow", label: "Investigate, escalate and resolve disputes" },
+  { key: "reviews.moderate", group: "Workflow", label: "Hide and restore reviews" },
+  { key: "conversations.view", group: "Workflow", label: "Read negotiation conversations" },
+  { key: "contracts.view", group: "Contracts", label: "View contracts" },
+  { key: "contracts.review", group: "Contracts", label: "Edit, approve and reject contracts" },
+  { key: "contracts.templates", group: "Contracts", label: "Edit the clause library and contract templates" },
+  { key: "finance.view", group: "Finance", label: "View payouts and invoices" },
+  { key: "finance.manage", group: "Finance", label: "Process payouts, refund payments and update invoices" },
+  { key: "agents.view", group: "AI Agents", label: "View agent configs, usage, prompts and analytics" },
+  { key: "agents.configure", group: "AI Agents", label: "Configure agents, LLM keys, prompts, rate limits and the research cache" },
+  { key: "notifications.manage", group: "System", label: "Manage notification types, channels and deliveries" },
+  { key: "jobs.manage", group: "System", label: "Run background jobs and replay domain events" },
+  { key: "settings.manage", group: "System", label: "View and change settings" },
+  { key: "audit.view", group: "System", label: "Read the audit log" },
+  { key: "permissions.manage", group: "System", label: "Change role permissions" },
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number]["key"];
+
+export const ALL_ADMIN_PERMISSIONS: readonly AdminPermission[] = ADMIN_PERMISSIONS.map((p) => p.key);
+
+/** Holds every permission, always; its permissions cannot be edited so the panel can't be locked out */
+export const SUPER_ADMIN_ROLE = "platform_admin";
+
+/** Roles that can be given admin panel permissions */
+export const ADMIN_PANEL_ROLES = ["platform_admin", "admin", "staff"] as const;
+
+/**
+ * Permissions a role has until its permissions are first edited:
+ *   admin — everything except changing role permissions
+ *   staff — read-only access to users, profiles and the booking workflow
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, readonly AdminPermission[]> = {
+  platform_admin: ALL_ADMIN_PERMISSIONS,
+  admin: ALL_ADMIN_PERMISSIONS.filter((p) => p !== "permissions.manage"),
+  staff: [
+    "dashboard.view",
+    "users.view",
+    "profiles.view",
+    "events.view",
+    "bookings.view",
+    "disputes.view",
+    "contracts.view",
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+export function isAdminPermission(value: string): value is AdminPermission {
+  return (ALL_ADMIN_PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isAdminPanelRole(role: string | null | undefined): boolean {
+  return !!role && (ADMIN_PANEL_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * A role's permissions in catalog order. `configured` is the stored list, or
+ * null when the role's permissions have never been edited (defaults apply).
+ * Unknown stored keys are dropped; non-panel roles never hold any.
+ */
+export function effectivePermissions(role: string | null | undefined, configured: readonly string[] | null): AdminPermission[] {
+  if (!role || !isAdminPanelRole(role)) return [];
+  if (role === SUPER_ADMIN_ROLE) return [...ALL_ADMIN_PERMISSIONS];
+  const granted = configured ?? DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+  return ALL_ADMIN_PERMISSIONS.filter((p) => granted.includes(p));
+}
+
+/** Whether a role may use the admin panel at all */
+export function hasAdminAccess(permissions: readonly string[]): boolean {
+  return permissions.length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+/** Why a role's permissions cannot be set to `requested`, or null when they can */
+export function permissionUpdateError(role: string, requested: readonly string[]): string | null {
+  if (role === SUPER_ADMIN_ROLE) return "Platform admin permissions cannot be changed";
+  if (!isAdminPanelRole(role)) return "Only admin and staff roles can hold admin permissions";
+  const unknown = requested.find((p) => !isAdminPermission(p));
+  if (unknown) return `Unknown permission: ${unknown}`;
+  return null;
+}
+
+/** What an edit adds and removes, for the audit log */
+export function diffPermissions(before: readonly string[], after: readonly string[]): { granted: string[]; revoked: string[] } {
+  return {
+    granted: after.filter((p) => !before.includes(p)),
+    revoked: before.filter((p) => !after.includes(p)),
+  };
+}
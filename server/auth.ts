@@ -1,23 +1,71 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { type Express } from "express";
+import { type Express, type Request, type RequestHandler } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User } from "@shared/schema";
 import { pool } from "./db";
 import connectPg from "connect-pg-simple";
 import { normalizeRegistrationRole } from "./role-utils";
+import { chooseActiveRole, mergeAssignedRoles, profileTypeForRole, resolveUserRole } from "./role-resolver";
+import { userRoleService } from "./services/user-role.service";
+import { organizationService } from "./services/organization.service";
+import { accountService, hashPassword } from "./services/account.service";
+import { accountTokenSecret, passwordPolicyError } from "./account-token-utils";
+import { twoFactorService } from "./services/two-factor.service";
+import { LOGIN_CHALLENGE_TTL_MS } from "./two-factor-utils";
+import { api } from "@shared/routes";
+import { disconnectSession } from "./ws-server";
 
 const scryptAsync = promisify(scrypt);
 const PostgresStore = connectPg(session);
 
+let sessionParser: RequestHandler | null = null;
+
+/**
+ * The express-session middleware installed by setupAuth. The WebSocket
+ * upgrade handler runs it against the upgrade request so sockets are
+ * authenticated from the same Postgres-backed session as HTTP requests.
+ */
+export function getSessionParser(): RequestHandler {
+  if (!sessionParser) throw new Error("Session middleware is not initialised; call setupAuth first");
+  return sessionParser;
+}
+
+/**
+ * The session user: the users row with its assigned `roles`, the active
+ * `role` (`requestedRole` while the user still holds it, else the primary
+ * role) and only the own profile that role works through.
+ */
+export async function loadAuthUser(id: number, requestedRole?: string | null): Promise<any> {
+  const user = await storage.getUser(id) as any;
+  if (user) {
+    // Fetch profiles
+    const artist = await storage.getArtistByUserId(id);
+    const organizer = await storage.getOrganizerByUserId(id);
+    const venue = await storage.getVenueByUserId(id);
+
+    const primary = resolveUserRole({ metadata: user.metadata, artist, organizer, venue });
+    user.roles = mergeAssignedRoles(await userRoleService.roleNames(id), primary);
+    user.role = chooseActiveRole(user.roles, requestedRole, primary);
+
+    const profileType = profileTypeForRole(user.role);
+    if (artist && profileType === "artist") user.artist = artist;
+    if (organizer && profileType === "organizer") user.organizer = organizer;
+    if (venue && profileType === "venue") user.venue = venue;
+  }
+  return user;
+}
+
 export function setupAuth(app: Express) {
   // Ensure SESSION_SECRET is set in production
   if (app.get("env") === "production" && !process.env.SESSION_SECRET) {
     throw new Error("SESSION_SECRET environment variable is required in production");
   }
+  // Fail at startup rather than on the first verification or reset link
+  accountTokenSecret();
 
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "dev-secret-change-in-production",
@@ -39,10 +87,29 @@ export function setupAuth(app: Express) {
     app.set("trust proxy", 1);
   }
 
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Apply the acting profile chosen for this session, dropping it once the
+  // user can no longer act for it (removed from the organization, demoted)
+  app.use(async (req, _res, next) => {
+    if (!req.isAuthenticated() || !req.session.actingProfile) return next();
+    try {
+      const user = req.user as any;
+      const profile = await organizationService.resolveActingProfile(user.id, req.session.actingProfile);
+      if (profile) {
+        user.actingProfile = profile;
+      } else {
+        delete req.session.actingProfile;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
@@ -58,21 +125,8 @@ export function setupAuth(app: Express) {
 
         if (timingSafeEqual(Buffer.from(hash, "hex"), hashBuffer)) {
           console.log(`Login successful for: ${username}`);
-          const authenticatedUser = user as any;
-          if (authenticatedUser.metadata && authenticatedUser.metadata.role) {
-            authenticatedUser.role = authenticatedUser.metadata.role;
-          }
-
-          // Fetch profiles for immediate response
-          const artist = await storage.getArtistByUserId(authenticatedUser.id);
-          const organizer = await storage.getOrganizerByUserId(authenticatedUser.id);
-          const venue = await storage.getVenueByUserId(authenticatedUser.id);
-
-          if (artist) authenticatedUser.artist = artist;
-          if (organizer) authenticatedUser.organizer = organizer;
-          if (venue) authenticatedUser.venue = venue;
-
-          return done(null, authenticatedUser);
+          // Login starts a new session, so it begins in the primary role
+          return done(null, await loadAuthUser(user.id));
         } else {
           console.log(`Login failed: Invalid password for: ${username}`);
           return done(null, false, { message: "Invalid password" });
@@ -87,23 +141,11 @@ export function setupAuth(app: Express) {
     done(null, (user as User).id);
   });
 
-  passport.deserializeUser(async (id: number, done) => {
+  passport.deserializeUser(async (req: Request, id: number, done: (err: unknown, user?: Express.User | false | null) => void) => {
     try {
-      const user = await storage.getUser(id) as any;
-      if (user) {
-        if (user.metadata && user.metadata.role) {
-          user.role = user.metadata.role;
-        }
-
-        // Fetch profiles
-        const artist = await storage.getArtistByUserId(id);
-        const organizer = await storage.getOrganizerByUserId(id);
-        const venue = await storage.getVenueByUserId(id);
-
-        if (artist) user.artist = artist;
-        if (organizer) user.organizer = organizer;
-        if (venue) user.venue = venue;
-      }
+      const user = await loadAuthUser(id, req.session.activeRole);
+      // Admin permissions only count once this session has passed two-factor
+      if (user) user.twoFactorVerified = !!req.session.twoFactorVerifiedAt;
       done(null, user);
     } catch (err) {
       done(err);
@@ -117,25 +159,34 @@ export function setupAuth(app: Express) {
         return res.status(409).json({ message: "Username already exists" });
       }
 
-      const salt = randomBytes(16).toString("hex");
-      const hash = (await scryptAsync(req.body.password, salt, 64)) as Buffer;
-      const hashedPassword = `${salt}.${hash.toString("hex")}`;
+      // The verification and reset links go to this address, so it must be real
+      const emailCheck = api.auth.forgotPassword.input.shape.email.safeParse(req.body.email);
+      if (!emailCheck.success) {
+        return res.status(400).json({ message: "A valid email address is required", field: "email" });
+      }
+      const email = emailCheck.data;
+      if (await storage.getUserByUsername(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const passwordError = passwordPolicyError(typeof req.body.password === "string" ? req.body.password : "");
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError, field: "password" });
+      }
+      const hashedPassword = await hashPassword(req.body.password);
 
       // Normalize role: "venue" -> "venue_manager", default to "artist"
       const normalizedRole = normalizeRegistrationRole(req.body.role);
 
       const user = await storage.createUser({
         username: req.body.username,
-        email: req.body.email || `${req.body.username}@example.com`,
+        email,
         passwordHash: hashedPassword,
         displayName: req.body.name,
         phone: req.body.phone,
         metadata: { role: normalizedRole },
       }) as any;
-
-      if (user) {
-        user.role = normalizedRole;
-      }
+      await userRoleService.ensureAssigned(user.id, [normalizedRole]);
 
       // Handle role-specific data creation (use normalizedRole for all checks)
       try {
@@ -172,16 +223,12 @@ export function setupAuth(app: Express) {
       } catch (profileErr) {
         console.error("Profile creation failed during registration:", profileErr);
         // We continue anyway, as the user account is created
-      } // Fetch profiles to include in registration response
-      const artist = await storage.getArtistByUserId(user.id);
-      const organizer = await storage.getOrganizerByUserId(user.id);
-      const venue = await storage.getVenueByUserId(user.id);
+      }
 
-      if (artist) user.artist = artist;
-      if (organizer) user.organizer = organizer;
-      if (venue) user.venue = venue;
+      // Reload with roles and profiles for the registration response
+      const sessionUser = await loadAuthUser(user.id);
 
-      req.login(user, async (err) => {
+      req.login(sessionUser, async (err) => {
         if (err) return next(err);
 
         await storage.createAuditLog({
@@ -192,7 +239,13 @@ export function setupAuth(app: Express) {
           context: { role: req.body.role }
         });
 
-        res.status(201).json(user);
+        // Registration succeeds even if the email cannot be sent; the user
+        // can ask for another link from the app
+        accountService.sendVerificationEmail(user.id, req.ip ?? null).catch((emailErr) => {
+          console.error("Verification email failed during registration:", emailErr);
+        });
+
+        res.status(201).json(sessionUser);
       });
     } catch (err) {
       next(err);
@@ -200,7 +253,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+    passport.authenticate("local", async (err: any, user: any, info: any) => {
       if (err) {
         console.error("Login error:", err);
         return res.status(500).json({ message: "Internal server error during login" });
@@ -209,6 +262,20 @@ export function setupAuth(app: Express) {
         console.log("Login failed:", info?.message || "Invalid credentials");
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
+
+      // With 2FA on, the password only opens a short challenge; the session
+      // is established by POST /api/auth/2fa/login
+      let twoFactorEnabled: boolean;
+      try {
+        twoFactorEnabled = await twoFactorService.isEnabled(user.id);
+      } catch (checkErr) {
+        return next(checkErr);
+      }
+      if (twoFactorEnabled) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + LOGIN_CHALLENGE_TTL_MS, attempts: 0 };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
       req.login(user, async (loginErr) => {
         if (loginErr) {
           console.error("Session login error:", loginErr);
@@ -229,8 +296,11 @@ export function setupAuth(app: Express) {
 
   app.post("/api/logout", (req, res, next) => {
     const userId = (req.user as any)?.id;
+    // Logging out regenerates the session, so note the id its sockets were opened with
+    const sessionId = req.sessionID;
     req.logout(async (err) => {
       if (err) return next(err);
+      disconnectSession(sessionId);
 
       if (userId) {
         await storage.createAuditLog({
@@ -260,8 +330,65 @@ export function setupAuth(app: Express) {
     }
   });
 
+  app.post(api.auth.resendVerification.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const result = await accountService.sendVerificationEmail((req.user as any).id, req.ip ?? null);
+      res.json(result);
+    } catch (err: any) {
+      res.status(accountErrorStatus(err.message)).json({ message: err.message });
+    }
+  });
+
+  app.post(api.auth.verifyEmail.path, async (req, res) => {
+    const parsed = api.auth.verifyEmail.input.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+      await accountService.verifyEmail(parsed.data.token);
+      res.json({ verified: true });
+    } catch (err: any) {
+      res.status(accountErrorStatus(err.message)).json({ message: err.message });
+    }
+  });
+
+  app.post(api.auth.forgotPassword.path, async (req, res) => {
+    const parsed = api.auth.forgotPassword.input.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+      await accountService.requestPasswordReset(parsed.data.email, req.ip ?? null);
+      // Same answer whether or not the address has an account
+      res.json({ message: "If an account uses that email, we have sent a link to reset the password." });
+    } catch (err: any) {
+      res.status(accountErrorStatus(err.message)).json({ message: err.message });
+    }
+  });
+
+  app.post(api.auth.resetPassword.path, async (req, res) => {
+    const parsed = api.auth.resetPassword.input.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+      await accountService.resetPassword(parsed.data.token, parsed.data.password);
+      res.json({ message: "Your password has been reset. Sign in with the new password." });
+    } catch (err: any) {
+      res.status(accountErrorStatus(err.message)).json({ message: err.message });
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.status(200).json(null);
     res.status(200).json(req.user);
   });
 }
+
+function accountErrorStatus(message: string): number {
+  if (message.startsWith("Too many requests")) return 429;
+  if (message.includes("already verified")) return 409;
+  if (message === "User not found") return 404;
+  return 400;
+}
@@ -0,0 +1,253 @@
+/**
+ * Pure utility functions for artist availability and booking conflict checks.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Availability entries hold wall-clock dates/times. An event is converted into
+ * local day segments in its own timezone (events.timezone) before comparing,
+ * so "blocked on 14 June" means 14 June wherever the gig takes place.
+ *
+ * Used by: server/services/availability.service.ts
+ * Tested by: tests/services/availability.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/** Assumed length of an event that has no end time */
+export const DEFAULT_EVENT_DURATION_HOURS = 4;
+
+/** Booking statuses that hold the artist's time; earlier stages can still be declined */
+export const BLOCKING_BOOKING_STATUSES = [
+  "contracting",
+  "confirmed",
+  "paid_deposit",
+  "scheduled",
+  "completed",
+  "disputed",
+] as const;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AvailabilityKind = "blocked" | "travel" | "recurring";
+
+export interface AvailabilityRule {
+  kind: AvailabilityKind;
+  startDate: string;
+  endDate?: string | null;
+  daysOfWeek?: number[] | null;
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+/** Part of a window that falls on one local calendar day */
+export interface LocalDaySegment {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  fromMinute: number;
+  toMinute: number; // exclusive, up to 1440
+}
+
+export interface LocalOccurrence {
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Time helpers
+// ---------------------------------------------------------------------------
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Local calendar date, weekday and minute-of-day of an instant in a timezone.
+ * Unknown timezones fall back to DEFAULT_TIMEZONE.
+ */
+export function toLocalParts(instant: Date, timeZone?: string | null): { date: string; weekday: number; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAYS[get("weekday")] ?? 0,
+    minute: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * Parses "HH:MM" into minutes after midnight. Returns null for empty or malformed input.
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * The time an event occupies. Events without an end time (or with an end
+ * before the start) are assumed to last DEFAULT_EVENT_DURATION_HOURS.
+ */
+export function eventWindow(startTime: Date | string, endTime?: Date | string | null): TimeWindow {
+  const start = new Date(startTime);
+  const end = endTime ? new Date(endTime) : null;
+  if (end && end.getTime() > start.getTime()) return { start, end };
+  return { start, end: new Date(start.getTime() + DEFAULT_EVENT_DURATION_HOURS * 60 * 60 * 1000) };
+}
+
+export function windowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+  return a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+}
+
+/**
+ * Splits a window into per-day segments in the given timezone.
+ */
+export function splitIntoLocalDays(window: TimeWindow, timeZone?: string | null): LocalDaySegment[] {
+  const segments: LocalDaySegment[] = [];
+  const endMs = window.end.getTime();
+  let cursor = window.start.getTime();
+
+  while (cursor < endMs) {
+    const local = toLocalParts(new Date(cursor), timeZone);
+    const minutesLeftToday = MINUTES_PER_DAY - local.minute;
+    const remaining = Math.ceil((endMs - cursor) / 60000);
+    segments.push({
+      date: local.date,
+      weekday: local.weekday,
+      fromMinute: local.minute,
+      toMinute: local.minute + Math.min(minutesLeftToday, remaining),
+    });
+    // Jump to the next local midnight (dropping seconds so we land on it exactly)
+    cursor = cursor - (cursor % 60000) + minutesLeftToday * 60000;
+  }
+
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Availability rules
+// ---------------------------------------------------------------------------
+
+function withinRuleDates(rule: AvailabilityRule, date: string): boolean {
+  if (date < rule.startDate) return false;
+  const last = rule.kind === "recurring" ? rule.endDate : (rule.endDate || rule.startDate);
+  return !last || date <= last;
+}
+
+function rangesOverlap(aFrom: number, aTo: number, bFrom: number, bTo: number): boolean {
+  return aFrom < bTo && bFrom < aTo;
+}
+
+/**
+ * Whether an availability rule makes the artist unavailable during a local day segment.
+ * Recurring rules whose end time is earlier than the start time run past midnight.
+ */
+export function ruleBlocksSegment(rule: AvailabilityRule, segment: LocalDaySegment): boolean {
+  if (rule.kind !== "recurring") {
+    return withinRuleDates(rule, segment.date);
+  }
+
+  const days = rule.daysOfWeek ?? [];
+  const from = parseTimeOfDay(rule.startTime);
+  const to = parseTimeOfDay(rule.endTime);
+
+  if (from === null || to === null) {
+    return days.includes(segment.weekday) && withinRuleDates(rule, segment.date);
+  }
+
+  if (to > from) {
+    return days.includes(segment.weekday)
+      && withinRuleDates(rule, segment.date)
+      && rangesOverlap(from, to, segment.fromMinute, segment.toMinute);
+  }
+
+  // Overnight: [from, midnight) on the listed day plus [midnight, to) on the day after
+  const lateTonight = days.includes(segment.weekday)
+    && withinRuleDates(rule, segment.date)
+    && rangesOverlap(from, MINUTES_PER_DAY, segment.fromMinute, segment.toMinute);
+  const previousDay = addDays(segment.date, -1);
+  const spillover = days.includes((segment.weekday + 6) % 7)
+    && withinRuleDates(rule, previousDay)
+    && rangesOverlap(0, to, segment.fromMinute, segment.toMinute);
+  return lateTonight || spillover;
+}
+
+/**
+ * First rule that blocks any part of the window, evaluated in the event's timezone.
+ */
+export function findBlockingRule<T extends AvailabilityRule>(
+  rules: T[],
+  window: TimeWindow,
+  timeZone?: string | null,
+): T | null {
+  const segments = splitIntoLocalDays(window, timeZone);
+  for (const rule of rules) {
+    if (segments.some((segment) => ruleBlocksSegment(rule, segment))) return rule;
+  }
+  return null;
+}
+
+/**
+ * Concrete local occurrences of a rule between two dates (inclusive), for calendar display.
+ * One-off blocks come back as a single occurrence per day in range.
+ */
+export function expandRule(rule: AvailabilityRule, fromDate: string, toDate: string): LocalOccurrence[] {
+  const occurrences: LocalOccurrence[] = [];
+  const days = rule.daysOfWeek ?? [];
+
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    if (!withinRuleDates(rule, date)) continue;
+    if (rule.kind === "recurring" && !days.includes(weekdayOf(date))) continue;
+    occurrences.push({
+      date,
+      startTime: rule.kind === "recurring" ? rule.startTime ?? null : null,
+      endTime: rule.kind === "recurring" ? rule.endTime ?? null : null,
+    });
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,113 @@
+/**
+ * Pure utility functions for booking-party authorization: who may see or act
+ * on a booking's records (the booking itself, its contract, negotiation,
+ * payments and disputes), and which media entities are private to a booking.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Parties are the artist, the event's promoter and the event's venue, each
+ * through its own user or an organization member (see organization-utils).
+ * Admin panel roles may read, never act, when they hold the resource's
+ * permission.
+ *
+ * Used by: server/services/booking-access.service.ts, server/routes/media.ts
+ * Tested by: tests/properties/booking-access.prop.ts
+ */
+
+import type { AdminPermission } from "./admin-permission-utils";
+import {
+  bookingSides,
+  type BookingParties,
+  type BookingSide,
+  type OrganizationRole,
+  type ProfileAccess,
+} from "./organization-utils";
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+export const BOOKING_RESOURCES = ["booking", "contract", "negotiation", "payments", "dispute"] as const;
+export type BookingResource = typeof BOOKING_RESOURCES[number];
+
+/** Admin permission that lets a non-party read each kind of booking record */
+export const BOOKING_RESOURCE_PERMISSIONS: Record<BookingResource, AdminPermission> = {
+  booking: "bookings.view",
+  contract: "contracts.view",
+  negotiation: "conversations.view",
+  payments: "finance.view",
+  dispute: "disputes.view",
+};
+
+// ---------------------------------------------------------------------------
+// Access decision
+// ---------------------------------------------------------------------------
+
+export interface BookingAccessSubject {
+  userId: number;
+  /** Organization memberships; only consulted for parties that belong to one */
+  memberships: ReadonlyMap<number, OrganizationRole>;
+  /** The active role's admin panel permissions, empty for everyone else */
+  adminPermissions: readonly string[];
+}
+
+export interface BookingAccess {
+  allowed: boolean;
+  /** Sides the user takes part on with the required access */
+  sides: BookingSide[];
+  /** Allowed only through an admin permission */
+  asAdmin: boolean;
+}
+
+/**
+ * Whether the user may see ("view") or act on ("act") a booking's resource.
+ * Parties get both on their own bookings (organization viewers only see);
+ * admins with the resource's permission only see.
+ */
+export function bookingAccess(
+  subject: BookingAccessSubject,
+  parties: BookingParties,
+  resource: BookingResource,
+  required: ProfileAccess = "view",
+): BookingAccess {
+  const sides = bookingSides(subject.userId, parties, subject.memberships, required);
+  if (sides.length > 0) return { allowed: true, sides, asAdmin: false };
+  const asAdmin = required === "view" && subject.adminPermissions.includes(BOOKING_RESOURCE_PERMISSIONS[resource]);
+  return { allowed: asAdmin, sides, asAdmin };
+}
+
+// ---------------------------------------------------------------------------
+// Media entities
+// ---------------------------------------------------------------------------
+
+/** Profile and event images shown on public pages */
+export const PUBLIC_MEDIA_ENTITY_TYPES = [
+  "user_avatar",
+  "artist_profile",
+  "artist_portfolio",
+  "venue_cover",
+  "venue_gallery",
+  "organizer_logo",
+  "event_cover",
+] as const;
+
+/** Media attached to a booking record, keyed by entity type: the record it hangs off */
+export const BOOKING_MEDIA_ENTITY_TYPES: Record<string, BookingResource> = {
+  dispute_evidence: "dispute",
+};
+
+export type MediaEntityScope =
+  | { kind: "public" }
+  | { kind: "booking"; resource: BookingResource }
+  | { kind: "owner" };
+
+/**
+ * Who may see media attached to an entity: anyone for public profile and
+ * event images, the booking's parties for booking records, and only the
+ * uploader (or an admin) for anything else.
+ */
+export function mediaEntityScope(entityType: string | null | undefined): MediaEntityScope {
+  if (!entityType) return { kind: "owner" };
+  if ((PUBLIC_MEDIA_ENTITY_TYPES as readonly string[]).includes(entityType)) return { kind: "public" };
+  if (!Object.prototype.hasOwnProperty.call(BOOKING_MEDIA_ENTITY_TYPES, entityType)) return { kind: "owner" };
+  return { kind: "booking", resource: BOOKING_MEDIA_ENTITY_TYPES[entityType] };
+}
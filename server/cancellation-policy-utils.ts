@@ -0,0 +1,271 @@
+/**
+ * Pure utility functions for cancellation policies: validating a policy's
+ * tier schedule, stamping its penalties into new contracts' terms, picking
+ * the tier that applies on the day a booking is cancelled, and computing
+ * what each party is refunded, owes and is compensated. These functions
+ * contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/cancellation.service.ts,
+ *          server/services/contract.service.ts,
+ *          server/routes/cancellations.ts
+ * Tested by: tests/services/cancellation-policy.test.ts,
+ *            tests/properties/cancellation-policy.prop.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Policies
+// ---------------------------------------------------------------------------
+
+export type CancellingParty = "artist" | "organizer";
+
+/** Who a cancellation is charged to; force majeure charges nobody */
+export type CancellationFault = CancellingParty | "force_majeure";
+
+export interface CancellationTier {
+  /** The tier applies when the event is at least this many days away */
+  minDaysBefore: number;
+  /** Key under the contract's `<party>CancellationPenalties` terms holding the negotiated percentage */
+  term: string;
+  /**
+   * Penalty when the contract doesn't set the term. Organizer penalties are
+   * a percentage of what the organizer owes in total; artist penalties a
+   * percentage of the artist fee.
+   */
+  penaltyPct: number;
+  /**
+   * Organizer tiers only: the deposit is kept even when the penalty is
+   * smaller, in this tier and every tier closer to the event
+   */
+  depositForfeited?: boolean;
+}
+
+export interface CancellationPolicyRules {
+  artist: CancellationTier[];
+  organizer: CancellationTier[];
+}
+
+/** Where each party's negotiated penalties live in `negotiatedTermsJson.cancellation` */
+export const PENALTY_TERM_FIELDS: Record<CancellingParty, string> = {
+  artist: "artistCancellationPenalties",
+  organizer: "organizerCancellationPenalties",
+};
+
+/**
+ * Version 1: the windows and percentages contracts carried before policies
+ * were versioned, with the organizer's deposit forfeited in the earliest tier.
+ */
+export const DEFAULT_CANCELLATION_POLICY: { name: string; description: string; rules: CancellationPolicyRules } = {
+  name: "Standard cancellation policy",
+  description: "Organizer cancellations forfeit the deposit at least, rising to the full amount inside 15 days; artist cancellations refund the organizer in full and pay compensation inside 90 days.",
+  rules: {
+    organizer: [
+      { minDaysBefore: 30, term: "moreThan30Days", penaltyPct: 20, depositForfeited: true },
+      { minDaysBefore: 15, term: "between15And30Days", penaltyPct: 50 },
+      { minDaysBefore: 0, term: "lessThan15Days", penaltyPct: 100 },
+    ],
+    artist: [
+      { minDaysBefore: 90, term: "moreThan90Days", penaltyPct: 0 },
+      { minDaysBefore: 30, term: "between30And90Days", penaltyPct: 20 },
+      { minDaysBefore: 0, term: "lessThan30Days", penaltyPct: 50 },
+    ],
+  },
+};
+
+const TERM_KEY = /^[a-zA-Z][a-zA-Z0-9]{0,63}$/;
+
+/** Why a policy's tiers can't be saved, or null when they can */
+export function policyRulesError(rules: CancellationPolicyRules): string | null {
+  for (const party of ["organizer", "artist"] as const) {
+    const tiers = rules[party];
+    if (!Array.isArray(tiers) || tiers.length === 0) return `The ${party} schedule needs at least one tier`;
+    if (!tiers.some((t) => t.minDaysBefore === 0)) return `The ${party} schedule needs a tier starting at 0 days`;
+    const days = new Set<number>();
+    const terms = new Set<string>();
+    for (const tier of tiers) {
+      if (!Number.isInteger(tier.minDaysBefore) || tier.minDaysBefore < 0) return "Tier days must be whole numbers of 0 or more";
+      if (!(tier.penaltyPct >= 0 && tier.penaltyPct <= 100)) return "Cancellation penalties must be between 0 and 100%";
+      if (!TERM_KEY.test(tier.term)) return `Invalid term key: ${tier.term}`;
+      if (days.has(tier.minDaysBefore)) return `The ${party} schedule has two tiers starting at ${tier.minDaysBefore} days`;
+      if (terms.has(tier.term)) return `The ${party} schedule uses the term ${tier.term} twice`;
+      if (tier.depositForfeited && party === "artist") return "Only organizer tiers can forfeit the deposit";
+      days.add(tier.minDaysBefore);
+      terms.add(tier.term);
+    }
+    const ordered = [...tiers].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+    if (ordered.some((tier, i) => i > 0 && tier.penaltyPct < ordered[i - 1].penaltyPct)) {
+      return `The ${party} penalties can't fall as the event gets closer`;
+    }
+  }
+  return null;
+}
+
+/** Whether the deposit is forfeited in the tier: it or a tier further out forfeits it */
+function forfeitsDeposit(tiers: CancellationTier[], tier: CancellationTier): boolean {
+  return tiers.some((t) => t.depositForfeited && t.minDaysBefore >= tier.minDaysBefore);
+}
+
+function negotiatedPenalty(negotiated: Record<string, any> | null | undefined, party: CancellingParty, tier: CancellationTier): number {
+  const value = negotiated?.[PENALTY_TERM_FIELDS[party]]?.[tier.term];
+  return typeof value === "number" && value >= 0 && value <= 100 ? value : tier.penaltyPct;
+}
+
+/**
+ * The penalty terms a new contract carries under the policy: one entry per
+ * tier, with any percentage already negotiated for the booking kept.
+ */
+export function policyPenaltyTerms(
+  rules: CancellationPolicyRules,
+  negotiated?: Record<string, any> | null,
+): Record<string, Record<string, number>> {
+  const terms: Record<string, Record<string, number>> = {};
+  for (const party of ["artist", "organizer"] as const) {
+    terms[PENALTY_TERM_FIELDS[party]] = Object.fromEntries(
+      rules[party].map((tier) => [tier.term, negotiatedPenalty(negotiated, party, tier)]),
+    );
+  }
+  return terms;
+}
+
+// ---------------------------------------------------------------------------
+// Tiers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days from the cancellation to the event start; negative once the event has started */
+export function daysBeforeEvent(eventStart: Date, cancelledAt: Date): number {
+  return Math.floor((eventStart.getTime() - cancelledAt.getTime()) / DAY_MS);
+}
+
+/** The tier with the largest threshold the cancellation still meets */
+export function tierFor(tiers: CancellationTier[], days: number): CancellationTier | null {
+  let match: CancellationTier | null = null;
+  for (const tier of tiers) {
+    if (tier.minDaysBefore <= days && (!match || tier.minDaysBefore > match.minDaysBefore)) match = tier;
+  }
+  return match;
+}
+
+export interface PenaltyWindow {
+  minDaysBefore: number;
+  /** Exclusive upper bound; null for the earliest window */
+  maxDaysBefore: number | null;
+  penaltyPct: number;
+  depositForfeited: boolean;
+}
+
+/** A party's schedule as the contract applies it, earliest window first */
+export function penaltySchedule(
+  rules: CancellationPolicyRules,
+  party: CancellingParty,
+  negotiated?: Record<string, any> | null,
+): PenaltyWindow[] {
+  const tiers = [...rules[party]].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+  return tiers.map((tier, i) => ({
+    minDaysBefore: tier.minDaysBefore,
+    maxDaysBefore: i === 0 ? null : tiers[i - 1].minDaysBefore,
+    penaltyPct: negotiatedPenalty(negotiated, party, tier),
+    depositForfeited: forfeitsDeposit(tiers, tier),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Settlement
+// ---------------------------------------------------------------------------
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface CancellationInput {
+  cancelledBy: CancellationFault;
+  daysBeforeEvent: number;
+  rules: CancellationPolicyRules;
+  /** The contract's `negotiatedTermsJson.cancellation` */
+  negotiated?: Record<string, any> | null;
+  /** Agreed artist fee */
+  fee: number;
+  /** What the organizer owes in total, its deposit share and the artist's net payout (the escrow schedule) */
+  totalDue: number;
+  depositAmount: number;
+  netPayoutToArtist: number;
+  /** What the organizer has paid into escrow, net of refunds */
+  paid: number;
+}
+
+export interface CancellationSettlement {
+  cancelledBy: CancellationFault;
+  daysBeforeEvent: number;
+  tier: { minDaysBefore: number; penaltyPct: number; depositForfeited: boolean } | null;
+  paid: number;
+  /** What the cancelling party owes under the policy */
+  penalty: number;
+  /** Returned to the organizer out of escrow */
+  refundToOrganizer: number;
+  /** Kept in escrow towards the penalty */
+  retainedFromEscrow: number;
+  /** Penalty escrow doesn't cover, charged to the cancelling party as a cancellation fee */
+  feeDue: number;
+  /** Paid out to the artist */
+  artistCompensation: number;
+  /** Paid out to the organizer on top of the refund */
+  organizerCompensation: number;
+  /** The platform's commission on the organizer's penalty */
+  platformRetained: number;
+}
+
+/**
+ * Applies the policy tier for the cancelling party:
+ *   organizer -> keeps the penalty (at least the deposit where forfeited) out
+ *                of escrow, charging any shortfall; the artist gets the
+ *                penalty less the platform's commission share
+ *   artist    -> the organizer is refunded in full and compensated with the
+ *                penalty, charged to the artist
+ *   force majeure -> everything paid is refunded, nobody is compensated
+ */
+export function computeCancellationSettlement(input: CancellationInput): CancellationSettlement {
+  const paid = round2(Math.max(input.paid, 0));
+  const settlement: CancellationSettlement = {
+    cancelledBy: input.cancelledBy,
+    daysBeforeEvent: input.daysBeforeEvent,
+    tier: null,
+    paid,
+    penalty: 0,
+    refundToOrganizer: paid,
+    retainedFromEscrow: 0,
+    feeDue: 0,
+    artistCompensation: 0,
+    organizerCompensation: 0,
+    platformRetained: 0,
+  };
+  if (input.cancelledBy === "force_majeure") return settlement;
+
+  const party = input.cancelledBy;
+  const tier = tierFor(input.rules[party], Math.max(input.daysBeforeEvent, 0));
+  if (!tier) return settlement;
+  const penaltyPct = negotiatedPenalty(input.negotiated, party, tier);
+  const depositForfeited = forfeitsDeposit(input.rules[party], tier);
+  settlement.tier = { minDaysBefore: tier.minDaysBefore, penaltyPct, depositForfeited };
+
+  if (party === "organizer") {
+    let penalty = round2(input.totalDue * (penaltyPct / 100));
+    if (depositForfeited) penalty = Math.max(penalty, round2(input.depositAmount));
+    penalty = Math.min(penalty, round2(input.totalDue));
+    const retained = Math.min(paid, penalty);
+    const artistShare = input.totalDue > 0 ? input.netPayoutToArtist / input.totalDue : 0;
+
+    settlement.penalty = penalty;
+    settlement.retainedFromEscrow = retained;
+    settlement.refundToOrganizer = round2(paid - retained);
+    settlement.feeDue = round2(penalty - retained);
+    settlement.artistCompensation = round2(penalty * artistShare);
+    settlement.platformRetained = round2(penalty - settlement.artistCompensation);
+    return settlement;
+  }
+
+  const penalty = round2(input.fee * (penaltyPct / 100));
+  settlement.penalty = penalty;
+  settlement.feeDue = penalty;
+  settlement.organizerCompensation = penalty;
+  return settlement;
+}
@@ -0,0 +1,237 @@
+/**
+ * Pure utility functions for amending signed contracts: applying amendment
+ * changes to the negotiated terms, the clause-level diff shown to both
+ * parties, the amendment preamble written into the amended version, and the
+ * review → accept → sign steps each party goes through. These functions
+ * contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/contract-amendment.service.ts,
+ *          server/routes/contracts.ts
+ * Tested by: tests/services/contract-amendment.test.ts
+ */
+
+import { canonicalJson } from "./contract-integrity-utils";
+
+// ---------------------------------------------------------------------------
+// Amendable terms
+// ---------------------------------------------------------------------------
+
+/** Core terms an amendment may replace outright */
+export const AMENDABLE_CORE_TERMS = ["fee", "slotTime", "performanceDuration", "supportSlots"] as const;
+
+/** Term categories an amendment merges into, field by field */
+export const AMENDABLE_CATEGORIES = [
+  "financial",
+  "travel",
+  "accommodation",
+  "technical",
+  "hospitality",
+  "branding",
+  "contentRights",
+  "cancellation",
+] as const;
+
+/** Clause names the diff is grouped under, keyed by top-level term */
+export const AMENDMENT_CLAUSE_LABELS: Record<string, string> = {
+  fee: "Fee",
+  slotTime: "Set time",
+  performanceDuration: "Performance duration",
+  supportSlots: "Support slots",
+  financial: "Payment terms",
+  travel: "Travel",
+  accommodation: "Accommodation",
+  technical: "Technical rider",
+  hospitality: "Hospitality",
+  branding: "Branding and promotion",
+  contentRights: "Content rights",
+  cancellation: "Cancellation",
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * The amended terms: core terms are replaced, categories are merged one
+ * level deep (as contract edits are), and anything else is left alone.
+ */
+export function applyAmendmentChanges(
+  terms: Record<string, unknown>,
+  changes: Record<string, unknown>,
+): Record<string, unknown> {
+  const amended: Record<string, unknown> = JSON.parse(JSON.stringify(terms ?? {}));
+  for (const key of AMENDABLE_CORE_TERMS) {
+    if (changes[key] !== undefined) amended[key] = changes[key];
+  }
+  for (const category of AMENDABLE_CATEGORIES) {
+    const change = changes[category];
+    if (!isPlainObject(change)) continue;
+    const current = isPlainObject(amended[category]) ? amended[category] as Record<string, unknown> : {};
+    amended[category] = { ...current, ...change };
+  }
+  return amended;
+}
+
+// ---------------------------------------------------------------------------
+// Clause-level diff
+// ---------------------------------------------------------------------------
+
+export interface TermChange {
+  /** Dotted path into the terms, e.g. "travel.flightClass" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ClauseDiff {
+  /** Top-level term the changes fall under */
+  clause: string;
+  label: string;
+  changes: TermChange[];
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, out: TermChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    for (const key of keys) collectChanges(before[key], after[key], `${path}.${key}`, out);
+    return;
+  }
+  // Arrays and values are compared whole; missing and null count as the same
+  if (canonicalJson(before ?? null) !== canonicalJson(after ?? null)) {
+    out.push({ path, before: before ?? null, after: after ?? null });
+  }
+}
+
+/**
+ * Every changed value between two sets of terms, grouped by the top-level
+ * term (clause) it belongs to. Clauses keep the order of the labels above,
+ * with unlabelled terms after them in name order.
+ */
+export function diffTerms(before: Record<string, unknown>, after: Record<string, unknown>): ClauseDiff[] {
+  const labelled = Object.keys(AMENDMENT_CLAUSE_LABELS);
+  const others = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]))
+    .filter((key) => !labelled.includes(key))
+    .sort();
+
+  const diff: ClauseDiff[] = [];
+  for (const clause of [...labelled, ...others]) {
+    const changes: TermChange[] = [];
+    collectChanges(before?.[clause], after?.[clause], clause, changes);
+    if (changes.length > 0) {
+      diff.push({ clause, label: AMENDMENT_CLAUSE_LABELS[clause] ?? clause, changes });
+    }
+  }
+  return diff;
+}
+
+/** Whether the amendment changes the agreed fee, which sends it to admin review */
+export function changesFee(before: Record<string, unknown>, after: Record<string, unknown>): boolean {
+  return Number(before?.fee ?? 0) !== Number(after?.fee ?? 0);
+}
+
+/** "Fee, Set time" — the clauses an amendment touches */
+export function summarizeDiff(diff: ClauseDiff[]): string {
+  return diff.map((clause) => clause.label).join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// Amended document
+// ---------------------------------------------------------------------------
+
+/** A term value as it reads in the amendment preamble */
+export function formatTermValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.map(formatTermValue).join("; ") : "—";
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null && v !== "")
+      .map(([k, v]) => `${k}: ${formatTermValue(v)}`)
+      .join(", ") || "—";
+  }
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+export interface AmendmentPreambleInput {
+  /** 1 for the contract's first amendment */
+  number: number;
+  contractId: number;
+  baseVersion: number;
+  reason: string;
+  diff: ClauseDiff[];
+}
+
+/**
+ * Heading put in front of the amended contract text, so the signed version
+ * states what it amends, why, and every changed term.
+ */
+export function amendmentPreamble(input: AmendmentPreambleInput): string {
+  const lines = [
+    `AMENDMENT No. ${input.number} TO CONTRACT #${input.contractId}`,
+    `This amendment replaces version ${input.baseVersion} of the agreement. All terms not listed below are unchanged.`,
+    `Reason: ${input.reason}`,
+    "",
+  ];
+  for (const clause of input.diff) {
+    lines.push(`${clause.label}:`);
+    for (const change of clause.changes) {
+      const field = change.path === clause.clause ? "" : `${change.path.slice(clause.clause.length + 1)}: `;
+      lines.push(`  - ${field}${formatTermValue(change.before)} → ${formatTermValue(change.after)}`);
+    }
+  }
+  lines.push("════════════════════════════════════════════════════════════", "");
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Steps
+// ---------------------------------------------------------------------------
+
+export type AmendmentParty = "artist" | "promoter";
+
+export const OPEN_AMENDMENT_STATUSES = ["proposed", "admin_review"] as const;
+
+/** The amendment columns recording each party's progress */
+export const AMENDMENT_PARTY_FIELDS = {
+  artist: { reviewed: "artistReviewedAt", accepted: "artistAcceptedAt", signed: "artistSignedAt" },
+  promoter: { reviewed: "promoterReviewedAt", accepted: "promoterAcceptedAt", signed: "promoterSignedAt" },
+} as const;
+
+export interface AmendmentProgress {
+  status: string;
+  artistReviewedAt?: Date | string | null;
+  promoterReviewedAt?: Date | string | null;
+  artistAcceptedAt?: Date | string | null;
+  promoterAcceptedAt?: Date | string | null;
+  artistSignedAt?: Date | string | null;
+  promoterSignedAt?: Date | string | null;
+}
+
+export type AmendmentStep = "review" | "accept" | "sign" | "waiting";
+
+export function otherParty(party: AmendmentParty): AmendmentParty {
+  return party === "artist" ? "promoter" : "artist";
+}
+
+/**
+ * What the party has to do next on a proposed amendment, or null once it is
+ * no longer open to the parties. Both parties review (the proposer's review
+ * is recorded when proposing) before either accepts, and each accepts
+ * before signing.
+ */
+export function amendmentStepFor(amendment: AmendmentProgress, party: AmendmentParty): AmendmentStep | null {
+  if (amendment.status !== "proposed") return null;
+  const mine = AMENDMENT_PARTY_FIELDS[party];
+  const theirs = AMENDMENT_PARTY_FIELDS[otherParty(party)];
+  if (!amendment[mine.reviewed]) return "review";
+  if (!amendment[theirs.reviewed]) return "waiting";
+  if (!amendment[mine.accepted]) return "accept";
+  if (!amendment[mine.signed]) return "sign";
+  return "waiting";
+}
+
+/** Where a fully signed amendment goes: fee changes wait for an admin, the rest apply */
+export function statusAfterSigning(amendment: AmendmentProgress & { feeChanged: boolean }): "proposed" | "admin_review" | "applied" {
+  if (!amendment.artistSignedAt || !amendment.promoterSignedAt) return "proposed";
+  return amendment.feeChanged ? "admin_review" : "applied";
+}
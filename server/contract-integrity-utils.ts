@@ -0,0 +1,134 @@
+/**
+ * Pure utility functions for tamper-evident contracts: the canonical form of
+ * a signed contract document and its SHA-256 hash, the signature block
+ * fill-ins written into the executed text, and the rule that keeps signed
+ * contracts from being edited. These functions contain no DB or I/O
+ * dependencies.
+ *
+ * Used by: server/services/contract-integrity.service.ts,
+ *          server/routes/contracts.ts, server/routes/admin.ts
+ * Tested by: tests/services/contract-integrity.test.ts
+ */
+
+import { createHash } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Canonical document
+// ---------------------------------------------------------------------------
+
+export interface ContractDocument {
+  contractId: number;
+  version: number;
+  /** The version's text as generated, before any signature is filled in */
+  text: string;
+  terms: unknown;
+}
+
+/** JSON with object keys sorted at every level, so equal terms always serialize the same */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+/** Line endings as \n, no trailing spaces on a line, no blank lines at either end */
+export function canonicalText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .trim();
+}
+
+/** What a signature hash covers: which contract and version, its text and its terms */
+export function canonicalContractDocument(doc: ContractDocument): string {
+  return [
+    `contract:${doc.contractId}`,
+    `version:${doc.version}`,
+    `terms:${canonicalJson(doc.terms ?? {})}`,
+    "",
+    canonicalText(doc.text),
+  ].join("\n");
+}
+
+export function hashContractDocument(doc: ContractDocument): string {
+  return createHash("sha256").update(canonicalContractDocument(doc), "utf8").digest("hex");
+}
+
+export function isDocumentHash(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+// ---------------------------------------------------------------------------
+// Signature block
+// ---------------------------------------------------------------------------
+
+export interface SignatureFill {
+  role: string;
+  signature: string;
+  signedAt: Date;
+  ipAddress: string | null;
+}
+
+const SIGNATURE_SLOTS = {
+  artist: { signature: "[[ARTIST_SIGNATURE]]", date: "[[ARTIST_DATE]]", ip: "[[ARTIST_IP]]" },
+  promoter: { signature: "[[PROMOTER_SIGNATURE]]", date: "[[PROMOTER_DATE]]", ip: "[[PROMOTER_IP]]" },
+};
+
+/** Signing dates in the executed text: UTC, so the text can be rebuilt from the signature rows */
+export function formatSignatureDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace("T", " ")} UTC`;
+}
+
+/** Writes one party's signature, date and IP into its slots of the signature block */
+export function fillSignatureBlock(text: string, fill: SignatureFill): string {
+  const slots = fill.role === "artist" ? SIGNATURE_SLOTS.artist : SIGNATURE_SLOTS.promoter;
+  return text
+    .replace(slots.signature, fill.signature)
+    .replace(slots.date, formatSignatureDate(fill.signedAt))
+    .replace(slots.ip, fill.ipAddress || "Unknown");
+}
+
+/** The executed text: the signed version with every signature filled in, in signing order */
+export function executedContractText(versionText: string, fills: SignatureFill[]): string {
+  return [...fills]
+    .sort((a, b) => a.signedAt.getTime() - b.signedAt.getTime())
+    .reduce((text, fill) => fillSignatureBlock(text, fill), versionText);
+}
+
+// ---------------------------------------------------------------------------
+// Edits after signing
+// ---------------------------------------------------------------------------
+
+/**
+ * Contract columns an admin may still change once a party has signed. Every
+ * other column either makes up what was signed or records the signing; a
+ * change of terms needs a new version that both parties sign again.
+ */
+export const CONTRACT_FIELDS_EDITABLE_AFTER_SIGNING = [
+  "status",
+  "deadlineAt",
+  "adminReviewStatus",
+  "adminReviewNote",
+] as const;
+
+export function hasSignature(contract: { signedByArtist?: boolean | null; signedByPromoter?: boolean | null }): boolean {
+  return !!contract.signedByArtist || !!contract.signedByPromoter;
+}
+
+/** Why an update can't be applied to this contract, or null */
+export function signedContractChangeError(
+  contract: { signedByArtist?: boolean | null; signedByPromoter?: boolean | null },
+  fields: string[],
+): string | null {
+  if (!hasSignature(contract)) return null;
+  const locked = fields.filter((field) => !(CONTRACT_FIELDS_EDITABLE_AFTER_SIGNING as readonly string[]).includes(field));
+  if (locked.length === 0) return null;
+  return `Contract has been signed; ${locked.join(", ")} can no longer be changed`;
+}
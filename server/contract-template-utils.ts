@@ -0,0 +1,551 @@
+/**
+ * Pure utility functions for contract templates and the clause library:
+ * the built-in default agreement, the placeholder variables bound to a
+ * booking and its `buildTermsFromBooking` terms, placeholder rendering,
+ * clause version resolution and template selection.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/contract-utils.ts, server/services/contract-template.service.ts
+ * Tested by: tests/services/contract-template.test.ts
+ */
+
+import type { BookingForContract } from "./contract-utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ClauseContent {
+  key: string;
+  title: string;
+  body: string;
+  /** Numbered clauses get a "N. TITLE" heading and `{{clause.number}}` in their body */
+  numbered: boolean;
+}
+
+export interface ClauseRecord extends ClauseContent {
+  /** Library revision the clause was saved at */
+  version: number;
+}
+
+export interface TemplateRecord {
+  id: number;
+  key: string;
+  version: number;
+  name: string;
+  title: string;
+  locale: string;
+  clauseKeys: string[];
+  artistCategory: string | null;
+  eventType: string | null;
+  active: boolean;
+}
+
+export interface RenderOptions {
+  /** Date of the agreement; stored so a contract renders the same later */
+  effectiveDate: Date;
+  locale: string;
+  /** IANA zone for dates; omitted means the server's zone */
+  timeZone?: string;
+}
+
+export type TemplateVariables = Record<string, any>;
+
+// ---------------------------------------------------------------------------
+// Placeholders
+// ---------------------------------------------------------------------------
+
+/** `{{ path }}` or `{{ path | fallback }}` */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Placeholders available to every template besides `terms.*` (any path into
+ * the `buildTermsFromBooking` output) and `clause.number`.
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  "agreement.day": "Day of month the agreement takes effect",
+  "agreement.month": "Month the agreement takes effect",
+  "agreement.year": "Year the agreement takes effect",
+  "agreement.date": "Full effective date",
+  "organizer.legalName": "Organizer legal name",
+  "organizer.address": "Organizer permanent address",
+  "organizer.pan": "Organizer PAN",
+  "organizer.gstin": "Organizer GSTIN",
+  "artist.legalName": "Artist legal name",
+  "artist.stageName": "Artist stage name",
+  "artist.address": "Artist permanent address",
+  "artist.pan": "Artist PAN",
+  "artist.gstin": "Artist GSTIN",
+  "artist.bankHolder": "Artist bank account holder",
+  "artist.bankName": "Artist bank name",
+  "artist.bankBranch": "Artist bank branch",
+  "artist.bankAccount": "Artist bank account number",
+  "artist.bankIfsc": "Artist IFSC/SWIFT code",
+  "platform.name": "Platform name",
+  "platform.bankHolder": "Escrow account holder",
+  "platform.bankName": "Escrow bank name",
+  "platform.bankBranch": "Escrow bank branch",
+  "platform.bankAccount": "Escrow account number",
+  "platform.bankIfsc": "Escrow IFSC/SWIFT code",
+  "event.title": "Event title",
+  "event.startDate": "First event date",
+  "event.endDate": "Last event date",
+  "event.time": "Performance time slot",
+  "event.duration": "Performance duration",
+  "event.venue": "Venue name and city",
+  "event.city": "Event city",
+  "payment.currency": "Currency code",
+  "payment.fee": "Agreed artist fee",
+  "payment.organizerFee": "Organizer platform fee",
+  "payment.artistCommission": "Commission deducted from the artist",
+  "payment.totalPayable": "Total payable by the organizer",
+  "payment.netPayout": "Net payout to the artist",
+  "payment.depositPercent": "Deposit percentage",
+  "payment.depositAmount": "Deposit amount",
+  "payment.balanceAmount": "Balance amount",
+  "technical.rider": "Technical rider, one indented line per item",
+};
+
+export function placeholdersIn(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) found.add(match[1]);
+  return Array.from(found);
+}
+
+/** Placeholders a template author used that no contract can fill */
+export function unknownPlaceholders(text: string): string[] {
+  return placeholdersIn(text).filter(
+    (path) => !path.startsWith("terms.") && path !== "clause.number" && !(path in TEMPLATE_PLACEHOLDERS),
+  );
+}
+
+function lookup(variables: TemplateVariables, path: string): unknown {
+  return path.split(".").reduce<any>((value, part) => (value == null ? undefined : value[part]), variables);
+}
+
+function formatValue(value: unknown, locale: string): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number") return value.toLocaleString(locale);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.map((v) => formatValue(v, locale) ?? "").join(", ") : null;
+  if (typeof value === "object") return null;
+  return String(value);
+}
+
+/** Fills placeholders; empty values use the fallback, or show `[path]` so gaps stay visible */
+export function renderPlaceholders(text: string, variables: TemplateVariables, locale: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, path: string, fallback?: string) => {
+    const value = formatValue(lookup(variables, path), locale);
+    if (value !== null) return value;
+    return fallback !== undefined ? fallback.trim() : `[${path}]`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Variables
+// ---------------------------------------------------------------------------
+
+/**
+ * Everything a template can refer to for one booking. `terms` is the
+ * `buildTermsFromBooking` output (or the terms of a later contract version);
+ * the rest are derived the way the original agreement text derived them.
+ */
+export function buildTemplateVariables(
+  booking: BookingForContract,
+  terms: Record<string, any>,
+  options: RenderOptions,
+): TemplateVariables {
+  const meta = (booking.meta || {}) as Record<string, any>;
+  const { locale, timeZone, effectiveDate } = options;
+
+  const startEventDate = booking.event?.startTime || booking.eventDate;
+  const endEventDate = booking.event?.endTime || startEventDate;
+  const formatDate = (value: string | Date | null | undefined) => value
+    ? new Date(value as string).toLocaleDateString(locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone })
+    : '[Date TBD]';
+  const time = booking.slotTime || (startEventDate ? new Date(startEventDate as string).toLocaleTimeString(locale, {
+    hour: '2-digit', minute: '2-digit', timeZone,
+  }) : '[Time TBD]');
+  const money = (amount: number) => amount.toLocaleString(locale);
+
+  const currency = booking.offerCurrency || 'INR';
+  const fee = Number(booking.finalAmount || booking.offerAmount || 0);
+  const deposit = Number(booking.depositPercent || 30);
+
+  const cb = booking.commissionBreakdown || {};
+  const organizerFee = Number(cb.organizerFee || 0);
+  const artistCommission = Number(cb.artistFee || 0) - Number(cb.netPayoutToArtist || fee);
+  const totalPayable = fee + organizerFee;
+  const depositAmount = Math.round(totalPayable * deposit / 100);
+
+  let techRiderText = '';
+  if (terms.technical?.equipmentList?.length || terms.technical?.backlineProvided?.length) {
+    const list1 = terms.technical.equipmentList?.join(', ') || 'None';
+    const list2 = terms.technical.backlineProvided?.join(', ') || 'None';
+    techRiderText = `Artist Brings: ${list1}\nOrganizer Provides: ${list2}`;
+  } else if (booking.artist?.metadata?.technicalRider || booking.artist?.metadata?.equipmentRequirements) {
+    techRiderText = booking.artist.metadata.technicalRider || booking.artist.metadata.equipmentRequirements;
+  } else {
+    techRiderText = 'A detailed Technical Rider will be provided separately.';
+  }
+
+  const city = booking.venue?.city || '[City]';
+  const appBank = booking.appSettings?.bankDetails || {};
+
+  return {
+    terms,
+    agreement: {
+      day: effectiveDate.toLocaleDateString(locale, { day: 'numeric', timeZone }),
+      month: effectiveDate.toLocaleDateString(locale, { month: 'long', timeZone }),
+      year: effectiveDate.toLocaleDateString(locale, { year: 'numeric', timeZone }),
+      date: formatDate(effectiveDate),
+    },
+    organizer: {
+      legalName: booking.organizer?.user?.legalName || booking.organizer?.name || '[Organizer Legal Name]',
+      address: booking.organizer?.user?.permanentAddress || '[Organizer Permanent Address]',
+      pan: booking.organizer?.user?.panNumber || '[Organizer PAN]',
+      gstin: booking.organizer?.user?.gstin || '[Organizer GSTIN, if applicable]',
+    },
+    artist: {
+      legalName: booking.artist?.user?.legalName || booking.artist?.name || '[Artist Legal Name]',
+      stageName: booking.artist?.name || '[Artist Stage Name]',
+      address: booking.artist?.user?.permanentAddress || '[Artist Permanent Address]',
+      pan: booking.artist?.user?.panNumber || '[Artist PAN]',
+      gstin: booking.artist?.user?.gstin || '[Artist GSTIN, if applicable]',
+      bankHolder: booking.artist?.user?.bankAccountHolderName || '[Name]',
+      bankName: booking.artist?.user?.bankName || '[Bank Name]',
+      bankBranch: booking.artist?.user?.bankBranch || '[Branch Name]',
+      bankAccount: booking.artist?.user?.bankAccountNumber || '[Account Number]',
+      bankIfsc: booking.artist?.user?.bankIfsc || '[IFSC/SWIFT]',
+    },
+    platform: {
+      name: booking.appSettings?.name || 'The Platform',
+      bankHolder: appBank.accountHolderName || '[Platform Escrow Account Name]',
+      bankName: appBank.bankName || '[Platform Bank Name]',
+      bankBranch: appBank.bankBranch || '[Platform Branch]',
+      bankAccount: appBank.accountNumber || '[Platform Account Number]',
+      bankIfsc: appBank.ifsc || '[Platform IFSC/SWIFT]',
+    },
+    event: {
+      title: booking.event?.title || '[Event]',
+      startDate: formatDate(startEventDate),
+      endDate: formatDate(endEventDate),
+      time,
+      duration: terms.performanceDuration || meta.performanceDuration || '60 to 90-minute',
+      venue: [booking.venue?.name, city].filter(Boolean).join(', '),
+      city,
+    },
+    payment: {
+      currency,
+      fee: money(fee),
+      organizerFee: money(organizerFee),
+      artistCommission: money(artistCommission),
+      totalPayable: money(totalPayable),
+      netPayout: money(fee - artistCommission),
+      depositPercent: deposit,
+      depositAmount: money(depositAmount),
+      balanceAmount: money(totalPayable - depositAmount),
+    },
+    technical: {
+      rider: techRiderText.split('\n').map((line: string) => '     ' + line).join('\n'),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Joins the title and clauses in order, numbering the numbered ones */
+export function renderContractDocument(
+  title: string,
+  clauses: ClauseContent[],
+  variables: TemplateVariables,
+  locale: string,
+): string {
+  let number = 0;
+  const sections = clauses.map((clause) => {
+    if (!clause.numbered) return renderPlaceholders(clause.body, variables, locale).trim();
+    number += 1;
+    const body = renderPlaceholders(clause.body, { ...variables, clause: { number } }, locale).trim();
+    return `${number}. ${clause.title.toUpperCase()}\n${body}`;
+  });
+  return [title.trim(), ...sections].join('\n\n');
+}
+
+/**
+ * The clauses a template used at a library revision: for each key, the
+ * newest clause saved at or before that revision. Throws when a key has no
+ * clause by then, which means the template and revision don't belong together.
+ */
+export function resolveClauses(library: ClauseRecord[], keys: string[], revision: number): ClauseRecord[] {
+  return keys.map((key) => {
+    const match = library
+      .filter((clause) => clause.key === key && clause.version <= revision)
+      .sort((a, b) => b.version - a.version)[0];
+    if (!match) throw new Error(`Clause "${key}" not found at library version ${revision}`);
+    return match;
+  });
+}
+
+/** Current library revision: the highest clause version (0 for an empty library) */
+export function libraryRevision(library: { version: number }[]): number {
+  return library.reduce((max, clause) => Math.max(max, clause.version), 0);
+}
+
+// ---------------------------------------------------------------------------
+// Template selection
+// ---------------------------------------------------------------------------
+
+/** Newest version of each template key */
+export function latestTemplates<T extends { key: string; version: number }>(templates: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const template of templates) {
+    const current = latest.get(template.key);
+    if (!current || template.version > current.version) latest.set(template.key, template);
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * The template for a booking. Among the newest active template versions,
+ * one matching both the artist category and event type wins over one matching
+ * the category, then the event type, then a general template (neither set).
+ * A template restricted to another category or event type never applies.
+ */
+export function selectTemplate<T extends TemplateRecord>(
+  templates: T[],
+  booking: { artistCategory?: string | null; eventType?: string | null },
+): T | null {
+  const score = (t: T): number => {
+    if (t.artistCategory && t.artistCategory !== booking.artistCategory) return -1;
+    if (t.eventType && t.eventType !== booking.eventType) return -1;
+    return (t.artistCategory ? 2 : 0) + (t.eventType ? 1 : 0);
+  };
+
+  return latestTemplates(templates)
+    .filter((t) => t.active && score(t) >= 0)
+    .sort((a, b) => score(b) - score(a) || b.id - a.id)[0] ?? null;
+}
+
+/** Clause and template keys: lowercase letters, digits and underscores, starting with a letter */
+export function isContentKey(key: string): boolean {
+  return /^[a-z][a-z0-9_]{0,49}$/.test(key);
+}
+
+/** Why a template can't be saved, or null */
+export function templateError(clauseKeys: string[], libraryKeys: string[]): string | null {
+  if (clauseKeys.length === 0) return "A template needs at least one clause";
+  if (new Set(clauseKeys).size !== clauseKeys.length) return "A clause can only appear once in a template";
+  const missing = clauseKeys.find((key) => !libraryKeys.includes(key));
+  if (missing) return `Clause "${missing}" not found`;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in agreement
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_TEMPLATE_KEY = "standard";
+export const DEFAULT_CONTRACT_TITLE = "PERFORMANCE AND BOOKING AGREEMENT";
+
+/**
+ * The standard Performance and Booking Agreement split into library clauses.
+ * An empty library is seeded from these, and contracts generated before
+ * templates existed render from them.
+ */
+export const DEFAULT_CONTRACT_CLAUSES: ClauseContent[] = [
+  {
+    key: "parties",
+    title: "Parties",
+    numbered: false,
+    body: `This Booking Agreement ("Agreement") is made and entered into on this {{agreement.day}} of {{agreement.month}}, {{agreement.year}} ("Effective Date"), under the provisions of the Indian Contract Act, 1872, by and between:
+
+PARTIES:
+
+1. {{organizer.legalName}}, a company/entity incorporated under the laws of India, having its registered office at {{organizer.address}}, holding PAN {{organizer.pan}} and GSTIN {{organizer.gstin}} (hereinafter referred to as the "Booking Agent" or "Promoter", which expression shall, unless repugnant to the context or meaning thereof, be deemed to mean and include its successors and permitted assigns) of the FIRST PART;
+
+AND
+
+2. {{artist.legalName}} professionally known as {{artist.stageName}}, residing at {{artist.address}}, holding PAN {{artist.pan}} and GSTIN {{artist.gstin}} (hereinafter referred to as the "Artist", which expression shall, unless repugnant to the context or meaning thereof, be deemed to mean and include their heirs, executors, and permitted assigns) of the SECOND PART;
+
+AND
+
+3. {{platform.name}}, acting as the "Broker/Middleman" (hereinafter referred to as the "Platform") of the THIRD PART.
+
+(The Booking Agent, the Artist, and the Platform are hereinafter collectively referred to as the "Parties" and individually as a "Party".)
+
+WHEREAS:
+A. The Booking Agent is engaged in the business of organizing and promoting live entertainment events.
+B. The Artist is a recognized performing artist.
+C. The Booking Agent desires to engage the Artist to perform at the Event(s) detailed below, and the Artist has agreed to such engagement subject to the terms and conditions contained herein.
+
+NOW, THEREFORE, IN CONSIDERATION OF THE MUTUAL PROMISES CONTAINED HEREIN, THE PARTIES AGREE AS FOLLOWS:`,
+  },
+  {
+    key: "event_fee",
+    title: "Event Details & Artist Fee",
+    numbered: true,
+    body: `{{clause.number}}.1. Tour/Event Dates: {{event.startDate}} to {{event.endDate}}
+{{clause.number}}.2. Cities/Venues: {{event.venue}}, India
+{{clause.number}}.3. Time Slot: {{event.time}}
+{{clause.number}}.4. Performance Duration: {{event.duration}}
+{{clause.number}}.5. Agreed Fee: {{payment.currency}} {{payment.fee}} for 1 event(s).
+{{clause.number}}.6. Broker Commissions:
+     - Organizer Platform Fee: {{payment.currency}} {{payment.organizerFee}}
+     - Artist Commission Deducted: {{payment.currency}} {{payment.artistCommission}}
+{{clause.number}}.7. The Fee includes the Artist's appearance and performance only. Any additional services will require a separate written agreement.`,
+  },
+  {
+    key: "travel_accommodation",
+    title: "Travel & Accommodation",
+    numbered: true,
+    body: `{{clause.number}}.1. Flights: All international and domestic flights ({{terms.travel.flightClass | economy}}) must be {{terms.travel.flightPreference | approved airlines only}}.
+{{clause.number}}.2. Routing: {{terms.travel.routing | Direct flights preferred}}.
+{{clause.number}}.3. All flights and itineraries must be pre-approved in writing by the Artist before booking.
+{{clause.number}}.4. Accommodation: Minimum {{terms.accommodation.hotelStarRating | 3}}-star hotel accommodation ({{terms.accommodation.roomType | one private room}} for the Artist) featuring:
+     - Early check-in and late checkout
+     - 24-hour room service
+     - High-speed Wi-Fi
+     The hotel must be approved in writing by the Artist before being booked.
+{{clause.number}}.5. Per Diem/Food & Beverage: A {{payment.currency}} {{terms.hospitality.perDiem | 0}} per day allowance for the Artist (via room voucher or cash).
+{{clause.number}}.6. Ground Transportation: All ground transportation between the airport, hotel, and venue must be provided and pre-approved by the Booking Agent. The driver must carry a visible sign with the Artist’s name. If airport pickup is delayed by more than 30 minutes, the Promoter covers the cost of a hotel at the airport.`,
+  },
+  {
+    key: "payment",
+    title: "Payment Terms & Taxes",
+    numbered: true,
+    body: `{{clause.number}}.1. Total Amount Payable by Organizer: {{payment.currency}} {{payment.totalPayable}} (Includes Agreed Fee + Organizer Platform Fee).
+{{clause.number}}.2. Net Payout to Artist: {{payment.currency}} {{payment.netPayout}} (Agreed Fee minus Artist Commission).
+{{clause.number}}.3. Deposit: {{payment.depositPercent}}% ({{payment.currency}} {{payment.depositAmount}}) of Total Amount due before the public announcement of the Artist.
+{{clause.number}}.4. Balance: Remaining {{payment.currency}} {{payment.balanceAmount}} due one week before the first event date.
+{{clause.number}}.5. Net Payments: All payments must be net of all fees, including but not limited to bank fees, currency conversion charges, and local taxes/levies.
+{{clause.number}}.6. GST and Withholding Tax (TDS): Any Goods and Services Tax (GST) applicable under the Central Goods and Services Tax Act, 2017, and Tax Deducted at Source (TDS) under the Income Tax Act, 1961, shall be borne and complied with by the Booking Agent. The Booking Agent shall provide the necessary TDS certificates to the Artist within the statutory timelines.
+     The services under this Agreement are classified under SAC Code 999614 (Live performing arts event presentation and promotion services) for GST purposes.
+{{clause.number}}.7. Bank Details: All payments must be made via bank wire transfer to the Platform's Escrow Account:
+     - Account Holder: {{platform.bankHolder}}
+     - Bank Name: {{platform.bankName}}
+     - Branch: {{platform.bankBranch}}
+     - Account Number: {{platform.bankAccount}}
+     - IFSC/SWIFT Code: {{platform.bankIfsc}}
+{{clause.number}}.8. Artist Payout: The Platform will disburse the Net Payout post-event as per the terms to the Artist's registered bank account:
+     - Account Holder: {{artist.bankHolder}}
+     - Bank Name: {{artist.bankName}}
+     - Branch: {{artist.bankBranch}}
+     - Account Number: {{artist.bankAccount}}
+     - IFSC/SWIFT Code: {{artist.bankIfsc}}`,
+  },
+  {
+    key: "billing",
+    title: "Billing & Promotion",
+    numbered: true,
+    body: `{{clause.number}}.1. The Artist must be billed as the headliner and placed at the top of all promotional material.
+{{clause.number}}.2. Artist logos and artwork must be used strictly as officially provided.
+{{clause.number}}.3. All marketing materials (print and digital) must include the Booking Agent's logo on the top left corner.
+{{clause.number}}.4. All artwork must be approved in writing by the Booking Agent/Artist before distribution.`,
+  },
+  {
+    key: "hospitality",
+    title: "Hospitality & Security",
+    numbered: true,
+    body: `{{clause.number}}.1. The Artist is entitled to {{terms.hospitality.guestListCount | 2}} guest list passes per event.
+{{clause.number}}.2. Drinks and refreshments must be provided in the green room and during the performance.
+{{clause.number}}.3. Press passes may be requested and must be arranged in advance.
+{{clause.number}}.4. A secure, restricted, and lockable backstage area (Green Room) must be provided for the Artist and their belongings.
+{{clause.number}}.5. The Promoter must provide adequate professional security personnel during the performance and transit.`,
+  },
+  {
+    key: "technical",
+    title: "Equipment & Technical Requirements",
+    numbered: true,
+    body: `{{clause.number}}.1. The Artist's Technical Requirements are as follows:
+{{technical.rider}}
+{{clause.number}}.2. The Promoter is required to meet all technical specifications fully and promptly. Failure to do so gives the Artist the right to refuse performance without penalty or refund of the fee.`,
+  },
+  {
+    key: "ip_rights",
+    title: "Intellectual Property, Reproduction & Broadcast Rights",
+    numbered: true,
+    body: `{{clause.number}}.1. No part of the Artist’s performance may be recorded, filmed, broadcasted, live-streamed, or reproduced in any format without prior written consent from the Artist.
+{{clause.number}}.2. Any unauthorized recordings will be considered a material breach of contract and a violation of the Artist's copyright and performers' rights under the Copyright Act, 1957.`,
+  },
+  {
+    key: "cancellation",
+    title: "Cancellation & Force Majeure",
+    numbered: true,
+    body: `{{clause.number}}.1. Promoter Cancellation: If the Promoter/Booking Agent cancels the event, all payments made to the Artist are non-refundable, and any outstanding balance becomes immediately due.
+{{clause.number}}.2. Artist Cancellation: If the Artist cancels (excluding Force Majeure), payments received shall be fully refunded to the Promoter. The Artist reserves the right to cancel up to 90 days prior without penalty.
+{{clause.number}}.3. Force Majeure: Neither Party shall be liable for any failure to perform its obligations where such failure is as a result of Acts of Nature (including fire, flood, earthquake, storm, hurricane, or other natural disaster), war, invasion, act of foreign enemies, hostilities, civil war, rebellion, revolution, insurrection, military or usurped power or confiscation, terrorist activities, nationalization, government sanction or orders (including lockdown orders), blockage, embargo, labor dispute, strike, lockout, pandemic, epidemic, failure of electricity, revocation or non-renewal of venue licenses or permits, or failure of the Platform's technical infrastructure beyond reasonable control.
+{{clause.number}}.4. The affected Party shall notify the other Party in writing within 48 hours of becoming aware of the Force Majeure event, providing details of the event and estimated duration.
+{{clause.number}}.5. If the Force Majeure event continues for more than 30 consecutive days, either Party may terminate this Agreement by written notice without further liability.`,
+  },
+  {
+    key: "disputes",
+    title: "Dispute Resolution & Governing Law",
+    numbered: true,
+    body: `{{clause.number}}.1. This Agreement shall be governed by and construed in accordance with the laws of India.
+{{clause.number}}.2. Any dispute, controversy, or claim arising out of or relating to this Agreement, or the breach, termination, or invalidity thereof, shall be settled by arbitration in accordance with the Arbitration and Conciliation Act, 1996. The arbitral tribunal shall consist of a sole arbitrator mutually appointed by the Parties.
+{{clause.number}}.3. The seat and venue of arbitration shall be {{event.city}}, India. The language of the arbitration shall be English.
+{{clause.number}}.4. Subject to the arbitration clause, the courts at {{event.city}} shall have exclusive jurisdiction over any matters arising out of this Agreement.`,
+  },
+  {
+    key: "indemnification",
+    title: "Indemnification",
+    numbered: true,
+    body: `{{clause.number}}.1. The Booking Agent shall indemnify and hold harmless the Artist and the Platform against any and all claims, damages, losses, costs, and expenses (including reasonable legal fees) arising out of: (a) the Booking Agent's breach of this Agreement; (b) any third-party claims related to the event, venue, or audience; or (c) the Booking Agent's failure to obtain necessary permits, licenses, or approvals.
+{{clause.number}}.2. The Artist shall indemnify and hold harmless the Booking Agent and the Platform against any and all claims, damages, losses, costs, and expenses (including reasonable legal fees) arising out of: (a) the Artist's breach of this Agreement; or (b) any third-party intellectual property claims related to the Artist's performance content.`,
+  },
+  {
+    key: "platform",
+    title: "Platform as Facilitating Agent",
+    numbered: true,
+    body: `{{clause.number}}.1. {{platform.name}} ("Platform") acts as a facilitating agent within the meaning of Sections 182–238 of the Indian Contract Act, 1872, and does not assume the obligations of either Party under this Agreement.
+{{clause.number}}.2. The Platform's role is limited to: (a) facilitating communication between the Parties; (b) providing AI-assisted negotiation mediation; (c) generating and hosting this Agreement; and (d) processing payments through its escrow system.
+{{clause.number}}.3. In the event that the Platform becomes unable to facilitate the transaction due to technical failure, regulatory action, or cessation of operations, the obligations between the Booking Agent and Artist under this Agreement shall survive and remain enforceable independently of the Platform.`,
+  },
+  {
+    key: "data_protection",
+    title: "Data Protection",
+    numbered: true,
+    body: `{{clause.number}}.1. Personal data collected during this engagement shall be processed in accordance with the Digital Personal Data Protection Act, 2023 ("DPDPA") and any rules made thereunder.
+{{clause.number}}.2. Each Party consents to the Platform collecting, storing, and processing personal data (including name, contact information, PAN, GSTIN, and bank details) solely for the purpose of facilitating and enforcing this Agreement.
+{{clause.number}}.3. The Platform shall implement reasonable security safeguards as required under Section 8 of the DPDPA to protect personal data from unauthorized access, disclosure, or destruction.`,
+  },
+  {
+    key: "final_terms",
+    title: "Final Terms",
+    numbered: true,
+    body: `{{clause.number}}.1. Confidentiality: The Artist fee and the terms of this Agreement are strictly confidential.
+{{clause.number}}.2. Amendments: No amendments or modifications to this Agreement shall be valid unless made in writing and signed by both Parties.
+{{clause.number}}.3. Liability: The Artist is not liable for any fines, damages, or legal issues resulting from the Promoter's misconduct, lack of necessary venue licenses, or illegal promotion.
+{{clause.number}}.4. Relationship of Parties: This Agreement does not create a partnership, joint venture, or employer-employee relationship between the Parties. The Artist acts as an independent contractor.`,
+  },
+  {
+    key: "signatures",
+    title: "Signatures",
+    numbered: false,
+    body: `IN WITNESS WHEREOF, the Parties hereto have executed this Agreement digitally under the provisions of the Information Technology Act, 2000 as of the Effective Date.
+
+For {{organizer.legalName}} (Booking Agent / Promoter)
+Name: {{organizer.legalName}}
+Title: Promoter / Organizer
+Digital Signature: [[PROMOTER_SIGNATURE]]
+Date: [[PROMOTER_DATE]]
+IP Address / Timestamp: [[PROMOTER_IP]]
+
+For {{artist.legalName}} (Artist)
+Name: {{artist.legalName}}
+Title: Performing Artist
+Digital Signature: [[ARTIST_SIGNATURE]]
+Date: [[ARTIST_DATE]]
+IP Address / Timestamp: [[ARTIST_IP]]`,
+  },
+];
+
+export const DEFAULT_TEMPLATE = {
+  key: DEFAULT_TEMPLATE_KEY,
+  name: "Standard Performance Agreement",
+  title: DEFAULT_CONTRACT_TITLE,
+  locale: "en-IN",
+  clauseKeys: DEFAULT_CONTRACT_CLAUSES.map((clause) => clause.key),
+};
@@ -6,6 +6,13 @@
  * Tested by: tests/properties/contract-lifecycle.prop.ts
  */
 
+import {
+  DEFAULT_CONTRACT_CLAUSES,
+  DEFAULT_CONTRACT_TITLE,
+  buildTemplateVariables,
+  renderContractDocument,
+} from "./contract-template-utils";
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -236,219 +243,15 @@ export function buildTermsFromBooking(booking: BookingForContract): Record<strin
 }
 
 /**
- * Generate contract text from booking data and terms.
+ * Generate contract text from booking data and terms using the built-in
+ * agreement (server/contract-template-utils.ts). Contracts generated from the
+ * clause library are rendered by the contract template service instead.
  * Pure function — no DB or I/O.
  */
 export function generateContractText(booking: BookingForContract, terms?: Record<string, any>): string {
-  const meta = (booking.meta || {}) as Record<string, any>;
-  const t = terms || {};
-  const now = new Date();
-  
-  const startEventDate = booking.event?.startTime || booking.eventDate;
-  const endEventDate = booking.event?.endTime || startEventDate;
-  
-  const formattedStartDate = startEventDate ? new Date(startEventDate as string).toLocaleDateString('en-US', {
-    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
-  }) : '[Date TBD]';
-  
-  const formattedEndDate = endEventDate ? new Date(endEventDate as string).toLocaleDateString('en-US', {
-    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
-  }) : '[Date TBD]';
-
-  const formattedTime = booking.slotTime || (startEventDate ? new Date(startEventDate as string).toLocaleTimeString('en-US', {
-    hour: '2-digit', minute: '2-digit'
-  }) : '[Time TBD]');
-  
-  const currency = booking.offerCurrency || 'INR';
-  const fee = Number(booking.finalAmount || booking.offerAmount || 0);
-  const deposit = Number(booking.depositPercent || 30);
-
-  // Legal details extraction
-  const orgName = booking.organizer?.user?.legalName || booking.organizer?.name || '[Organizer Legal Name]';
-  const orgAddress = booking.organizer?.user?.permanentAddress || '[Organizer Permanent Address]';
-  const orgPAN = booking.organizer?.user?.panNumber || '[Organizer PAN]';
-  const orgGSTIN = booking.organizer?.user?.gstin || '[Organizer GSTIN, if applicable]';
-
-  const artLegalName = booking.artist?.user?.legalName || booking.artist?.name || '[Artist Legal Name]';
-  const artStageName = booking.artist?.name || '[Artist Stage Name]';
-  const artAddress = booking.artist?.user?.permanentAddress || '[Artist Permanent Address]';
-  const artPAN = booking.artist?.user?.panNumber || '[Artist PAN]';
-  const artGSTIN = booking.artist?.user?.gstin || '[Artist GSTIN, if applicable]';
-
-  const bankHolder = booking.artist?.user?.bankAccountHolderName || '[Name]';
-  const bankName = booking.artist?.user?.bankName || '[Bank Name]';
-  const bankBranch = booking.artist?.user?.bankBranch || '[Branch Name]';
-  const bankAcc = booking.artist?.user?.bankAccountNumber || '[Account Number]';
-  const bankIfsc = booking.artist?.user?.bankIfsc || '[IFSC/SWIFT]';
-
-  const city = booking.venue?.city || '[City]';
-  const duration = t.performanceDuration || meta.performanceDuration || '60 to 90-minute';
-
-  const appName = booking.appSettings?.name || 'The Platform';
-  const appBank = booking.appSettings?.bankDetails || {};
-  const appBankHolder = appBank.accountHolderName || '[Platform Escrow Account Name]';
-  const appBankName = appBank.bankName || '[Platform Bank Name]';
-  const appBankBranch = appBank.bankBranch || '[Platform Branch]';
-  const appBankAcc = appBank.accountNumber || '[Platform Account Number]';
-  const appBankIfsc = appBank.ifsc || '[Platform IFSC/SWIFT]';
-
-  const cb = booking.commissionBreakdown || {};
-  const organizerFee = Number(cb.organizerFee || 0);
-  const artistCommission = Number(cb.artistFee || 0) - Number(cb.netPayoutToArtist || fee);
-  const totalPayable = fee + organizerFee;
-  const netPayout = fee - artistCommission;
-  
-  // Calculate deposit based on the total payable amount
-  const depositAmount = Math.round(totalPayable * deposit / 100);
-  const balanceAmount = totalPayable - depositAmount;
-
-  let techRiderText = '';
-  if (t.technical?.equipmentList?.length || t.technical?.backlineProvided?.length) {
-    const list1 = t.technical.equipmentList?.join(', ') || 'None';
-    const list2 = t.technical.backlineProvided?.join(', ') || 'None';
-    techRiderText = `Artist Brings: ${list1}\nOrganizer Provides: ${list2}`;
-  } else if (booking.artist?.metadata?.technicalRider || booking.artist?.metadata?.equipmentRequirements) {
-    techRiderText = booking.artist.metadata.technicalRider || booking.artist.metadata.equipmentRequirements;
-  } else {
-    techRiderText = 'A detailed Technical Rider will be provided separately.';
-  }
-
-  return `
-PERFORMANCE AND BOOKING AGREEMENT
-
-This Booking Agreement ("Agreement") is made and entered into on this ${now.getDate()} of ${now.toLocaleString('default', { month: 'long' })}, ${now.getFullYear()} ("Effective Date"), under the provisions of the Indian Contract Act, 1872, by and between:
-
-PARTIES:
-
-1. ${orgName}, a company/entity incorporated under the laws of India, having its registered office at ${orgAddress}, holding PAN ${orgPAN} and GSTIN ${orgGSTIN} (hereinafter referred to as the "Booking Agent" or "Promoter", which expression shall, unless repugnant to the context or meaning thereof, be deemed to mean and include its successors and permitted assigns) of the FIRST PART;
-
-AND
-
-2. ${artLegalName} professionally known as ${artStageName}, residing at ${artAddress}, holding PAN ${artPAN} and GSTIN ${artGSTIN} (hereinafter referred to as the "Artist", which expression shall, unless repugnant to the context or meaning thereof, be deemed to mean and include their heirs, executors, and permitted assigns) of the SECOND PART;
-
-AND
-
-3. ${appName}, acting as the "Broker/Middleman" (hereinafter referred to as the "Platform") of the THIRD PART.
-
-(The Booking Agent, the Artist, and the Platform are hereinafter collectively referred to as the "Parties" and individually as a "Party".)
-
-WHEREAS:
-A. The Booking Agent is engaged in the business of organizing and promoting live entertainment events.
-B. The Artist is a recognized performing artist.
-C. The Booking Agent desires to engage the Artist to perform at the Event(s) detailed below, and the Artist has agreed to such engagement subject to the terms and conditions contained herein.
-
-NOW, THEREFORE, IN CONSIDERATION OF THE MUTUAL PROMISES CONTAINED HEREIN, THE PARTIES AGREE AS FOLLOWS:
-
-1. EVENT DETAILS & ARTIST FEE
-1.1. Tour/Event Dates: ${formattedStartDate} to ${formattedEndDate}
-1.2. Cities/Venues: ${city}, India
-1.3. Time Slot: ${formattedTime}
-1.4. Performance Duration: ${duration}
-1.5. Agreed Fee: ${currency} ${fee.toLocaleString()} for 1 event(s).
-1.6. Broker Commissions:
-     - Organizer Platform Fee: ${currency} ${organizerFee.toLocaleString()}
-     - Artist Commission Deducted: ${currency} ${artistCommission.toLocaleString()}
-1.7. The Fee includes the Artist's appearance and performance only. Any additional services will require a separate written agreement.
-
-2. TRAVEL & ACCOMMODATION
-2.1. Flights: All international and domestic flights (${t.travel?.flightClass || 'economy'}) must be ${t.travel?.flightPreference || 'approved airlines only'}.
-2.2. Routing: ${t.travel?.routing || 'Direct flights preferred'}.
-2.3. All flights and itineraries must be pre-approved in writing by the Artist before booking.
-2.4. Accommodation: Minimum ${t.accommodation?.hotelStarRating || 3}-star hotel accommodation (${t.accommodation?.roomType || 'one private room'} for the Artist) featuring:
-     - Early check-in and late checkout
-     - 24-hour room service
-     - High-speed Wi-Fi
-     The hotel must be approved in writing by the Artist before being booked.
-2.5. Per Diem/Food & Beverage: A ${currency} ${t.hospitality?.perDiem || 0} per day allowance for the Artist (via room voucher or cash).
-2.6. Ground Transportation: All ground transportation between the airport, hotel, and venue must be provided and pre-approved by the Booking Agent. The driver must carry a visible sign with the Artist’s name. If airport pickup is delayed by more than 30 minutes, the Promoter covers the cost of a hotel at the airport.
-
-3. PAYMENT TERMS & TAXES
-3.1. Total Amount Payable by Organizer: ${currency} ${totalPayable.toLocaleString()} (Includes Agreed Fee + Organizer Platform Fee).
-3.2. Net Payout to Artist: ${currency} ${netPayout.toLocaleString()} (Agreed Fee minus Artist Commission).
-3.3. Deposit: ${deposit}% (${currency} ${depositAmount.toLocaleString()}) of Total Amount due before the public announcement of the Artist.
-3.4. Balance: Remaining ${currency} ${balanceAmount.toLocaleString()} due one week before the first event date.
-3.5. Net Payments: All payments must be net of all fees, including but not limited to bank fees, currency conversion charges, and local taxes/levies.
-3.6. GST and Withholding Tax (TDS): Any Goods and Services Tax (GST) applicable under the Central Goods and Services Tax Act, 2017, and Tax Deducted at Source (TDS) under the Income Tax Act, 1961, shall be borne and complied with by the Booking Agent. The Booking Agent shall provide the necessary TDS certificates to the Artist within the statutory timelines.
-     The services under this Agreement are classified under SAC Code 999614 (Live performing arts event presentation and promotion services) for GST purposes.
-3.7. Bank Details: All payments must be made via bank wire transfer to the Platform's Escrow Account:
-     - Account Holder: ${appBankHolder}
-     - Bank Name: ${appBankName}
-     - Branch: ${appBankBranch}
-     - Account Number: ${appBankAcc}
-     - IFSC/SWIFT Code: ${appBankIfsc}
-     (The Platform will disburse the Net Payout to the Artist's registered bank account post-event as per the terms).
-
-4. BILLING & PROMOTION
-4.1. The Artist must be billed as the headliner and placed at the top of all promotional material.
-4.2. Artist logos and artwork must be used strictly as officially provided.
-4.3. All marketing materials (print and digital) must include the Booking Agent's logo on the top left corner.
-4.4. All artwork must be approved in writing by the Booking Agent/Artist before distribution.
-
-5. HOSPITALITY & SECURITY
-5.1. The Artist is entitled to ${t.hospitality?.guestListCount || 2} guest list passes per event.
-5.2. Drinks and refreshments must be provided in the green room and during the performance.
-5.3. Press passes may be requested and must be arranged in advance.
-5.4. A secure, restricted, and lockable backstage area (Green Room) must be provided for the Artist and their belongings.
-5.5. The Promoter must provide adequate professional security personnel during the performance and transit.
-
-6. EQUIPMENT & TECHNICAL REQUIREMENTS
-6.1. The Artist's Technical Requirements are as follows:
-${techRiderText.split('\n').map(line => '     ' + line).join('\n')}
-6.2. The Promoter is required to meet all technical specifications fully and promptly. Failure to do so gives the Artist the right to refuse performance without penalty or refund of the fee.
-
-7. INTELLECTUAL PROPERTY, REPRODUCTION & BROADCAST RIGHTS
-7.1. No part of the Artist’s performance may be recorded, filmed, broadcasted, live-streamed, or reproduced in any format without prior written consent from the Artist.
-7.2. Any unauthorized recordings will be considered a material breach of contract and a violation of the Artist's copyright and performers' rights under the Copyright Act, 1957.
-
-8. CANCELLATION & FORCE MAJEURE
-8.1. Promoter Cancellation: If the Promoter/Booking Agent cancels the event, all payments made to the Artist are non-refundable, and any outstanding balance becomes immediately due.
-8.2. Artist Cancellation: If the Artist cancels (excluding Force Majeure), payments received shall be fully refunded to the Promoter. The Artist reserves the right to cancel up to 90 days prior without penalty.
-8.3. Force Majeure: Neither Party shall be liable for any failure to perform its obligations where such failure is as a result of Acts of Nature (including fire, flood, earthquake, storm, hurricane, or other natural disaster), war, invasion, act of foreign enemies, hostilities, civil war, rebellion, revolution, insurrection, military or usurped power or confiscation, terrorist activities, nationalization, government sanction or orders (including lockdown orders), blockage, embargo, labor dispute, strike, lockout, pandemic, epidemic, failure of electricity, revocation or non-renewal of venue licenses or permits, or failure of the Platform's technical infrastructure beyond reasonable control.
-8.4. The affected Party shall notify the other Party in writing within 48 hours of becoming aware of the Force Majeure event, providing details of the event and estimated duration.
-8.5. If the Force Majeure event continues for more than 30 consecutive days, either Party may terminate this Agreement by written notice without further liability.
-
-9. DISPUTE RESOLUTION & GOVERNING LAW
-9.1. This Agreement shall be governed by and construed in accordance with the laws of India.
-9.2. Any dispute, controversy, or claim arising out of or relating to this Agreement, or the breach, termination, or invalidity thereof, shall be settled by arbitration in accordance with the Arbitration and Conciliation Act, 1996. The arbitral tribunal shall consist of a sole arbitrator mutually appointed by the Parties.
-9.3. The seat and venue of arbitration shall be ${city}, India. The language of the arbitration shall be English.
-9.4. Subject to the arbitration clause, the courts at ${city} shall have exclusive jurisdiction over any matters arising out of this Agreement.
-
-10. INDEMNIFICATION
-10.1. The Booking Agent shall indemnify and hold harmless the Artist and the Platform against any and all claims, damages, losses, costs, and expenses (including reasonable legal fees) arising out of: (a) the Booking Agent's breach of this Agreement; (b) any third-party claims related to the event, venue, or audience; or (c) the Booking Agent's failure to obtain necessary permits, licenses, or approvals.
-10.2. The Artist shall indemnify and hold harmless the Booking Agent and the Platform against any and all claims, damages, losses, costs, and expenses (including reasonable legal fees) arising out of: (a) the Artist's breach of this Agreement; or (b) any third-party intellectual property claims related to the Artist's performance content.
-
-11. PLATFORM AS FACILITATING AGENT
-11.1. ${appName} ("Platform") acts as a facilitating agent within the meaning of Sections 182–238 of the Indian Contract Act, 1872, and does not assume the obligations of either Party under this Agreement.
-11.2. The Platform's role is limited to: (a) facilitating communication between the Parties; (b) providing AI-assisted negotiation mediation; (c) generating and hosting this Agreement; and (d) processing payments through its escrow system.
-11.3. In the event that the Platform becomes unable to facilitate the transaction due to technical failure, regulatory action, or cessation of operations, the obligations between the Booking Agent and Artist under this Agreement shall survive and remain enforceable independently of the Platform.
-
-12. DATA PROTECTION
-12.1. Personal data collected during this engagement shall be processed in accordance with the Digital Personal Data Protection Act, 2023 ("DPDPA") and any rules made thereunder.
-12.2. Each Party consents to the Platform collecting, storing, and processing personal data (including name, contact information, PAN, GSTIN, and bank details) solely for the purpose of facilitating and enforcing this Agreement.
-12.3. The Platform shall implement reasonable security safeguards as required under Section 8 of the DPDPA to protect personal data from unauthorized access, disclosure, or destruction.
-
-13. FINAL TERMS
-13.1. Confidentiality: The Artist fee and the terms of this Agreement are strictly confidential.
-13.2. Amendments: No amendments or modifications to this Agreement shall be valid unless made in writing and signed by both Parties.
-13.3. Liability: The Artist is not liable for any fines, damages, or legal issues resulting from the Promoter's misconduct, lack of necessary venue licenses, or illegal promotion.
-13.4. Relationship of Parties: This Agreement does not create a partnership, joint venture, or employer-employee relationship between the Parties. The Artist acts as an independent contractor.
-
-IN WITNESS WHEREOF, the Parties hereto have executed this Agreement digitally under the provisions of the Information Technology Act, 2000 as of the Effective Date.
-
-For ${orgName} (Booking Agent / Promoter)
-Name: ${orgName}
-Title: Promoter / Organizer
-Digital Signature: [[PROMOTER_SIGNATURE]]
-Date: [[PROMOTER_DATE]]
-IP Address / Timestamp: [[PROMOTER_IP]]
-
-For ${artLegalName} (Artist)
-Name: ${artLegalName}
-Title: Performing Artist
-Digital Signature: [[ARTIST_SIGNATURE]]
-Date: [[ARTIST_DATE]]
-IP Address / Timestamp: [[ARTIST_IP]]
-`.trim();
+  const locale = 'en-US';
+  const variables = buildTemplateVariables(booking, terms || {}, { effectiveDate: new Date(), locale });
+  return renderContractDocument(DEFAULT_CONTRACT_TITLE, DEFAULT_CONTRACT_CLAUSES, variables, locale);
 }
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Pure utility functions for building iCalendar (RFC 5545) documents.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/calendar-feed.service.ts
+ * Tested by: tests/services/calendar-feed.test.ts
+ */
+
+import { DEFAULT_TIMEZONE } from "./availability-utils";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ICS_PRODUCT_ID = "-//BANDWIDTH//Bookings Calendar//EN";
+
+/** Booking statuses that appear in calendar feeds */
+export const FEED_BOOKING_STATUSES = [
+  "contracting",
+  "confirmed",
+  "paid_deposit",
+  "scheduled",
+  "completed",
+] as const;
+
+const MAX_LINE_OCTETS = 75;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  lastModified?: Date | null;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Escapes TEXT values: backslash, semicolon, comma and newlines.
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line at 75 octets; continuation lines start with a space.
+ * Never splits a multi-byte UTF-8 character.
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const bytes = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+/** UTC date-time in basic format, e.g. 20260614T143000Z */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Wall-clock time in a timezone, e.g. "19:30" */
+export function formatLocalTime(date: Date, timeZone?: string | null): string {
+  try {
+    return new Intl.DateTimeFormat("en-GB", {
+      timeZone: timeZone || DEFAULT_TIMEZONE,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(date);
+  } catch {
+    return formatLocalTime(date, DEFAULT_TIMEZONE);
+  }
+}
+
+/**
+ * Single-line venue address from the venues.address JSONB (or a temporary venue's location).
+ */
+export function formatVenueAddress(
+  venue: { name?: string | null; address?: unknown } | null | undefined,
+  temporaryVenue?: { name?: string | null; location?: string | null } | null,
+): string | null {
+  if (venue?.name) {
+    const address = venue.address;
+    let line = "";
+    if (typeof address === "string") {
+      line = address;
+    } else if (address && typeof address === "object") {
+      const addr = address as Record<string, unknown>;
+      line = typeof addr.full === "string" && addr.full
+        ? addr.full
+        : ["street", "line1", "line2", "area", "city", "state", "pincode", "postalCode", "country"]
+          .map((key) => addr[key])
+          .filter((v): v is string | number => (typeof v === "string" && v.trim() !== "") || typeof v === "number")
+          .join(", ");
+    }
+    return line ? `${venue.name}, ${line}` : venue.name;
+  }
+  if (temporaryVenue?.name) {
+    return temporaryVenue.location ? `${temporaryVenue.name}, ${temporaryVenue.location}` : temporaryVenue.name;
+  }
+  return null;
+}
+
+export function icsStatusForBooking(status: string | null | undefined): IcsEvent["status"] {
+  if (status === "contracting") return "TENTATIVE";
+  if (status === "cancelled" || status === "refunded") return "CANCELLED";
+  return "CONFIRMED";
+}
+
+// ---------------------------------------------------------------------------
+// Document builder
+// ---------------------------------------------------------------------------
+
+function eventLines(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Full VCALENDAR document with CRLF line endings and folded lines.
+ */
+export function buildIcsCalendar(name: string, events: IcsEvent[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...events.flatMap((event) => eventLines(event, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
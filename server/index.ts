@@ -5,6 +5,8 @@ import { createServer } from "http";
 import cors from "cors";
 import { initWebSocketServer } from "./ws-server";
 import { notificationService } from "./services/notification.service";
+import { jobScheduler } from "./services/job-scheduler.service";
+import { registerScheduledJobs } from "./services/scheduled-jobs";
 
 const app = express();
 const httpServer = createServer(app);
@@ -69,27 +71,6 @@ app.use((req, res, next) => {
   await registerRoutes(httpServer, app);
   await notificationService.init();
 
-  // Daily research cache cleanup + fee multiplier retraining (self-learning)
-  const startDailyJobs = async () => {
-    try {
-      const { researchService } = await import("./services/research.service");
-      const { storage } = await import("./storage");
-      // Clean expired research cache
-      const deleted = await storage.deleteExpiredResearchCache();
-      if (deleted > 0) console.log(`[Daily] Cleaned ${deleted} expired research cache entries`);
-      // Retrain fee multipliers from negotiation outcomes
-      await researchService.retrainMultipliers();
-      console.log("[Daily] Fee multiplier retraining complete");
-    } catch (err) {
-      console.error("[Daily] Job failed:", err);
-    }
-  };
-  // Run daily (24h interval), first run after 1 hour to avoid startup load
-  setTimeout(() => {
-    startDailyJobs();
-    setInterval(startDailyJobs, 24 * 60 * 60 * 1000);
-  }, 60 * 60 * 1000);
-
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -133,18 +114,11 @@ app.use((req, res, next) => {
     () => {
       log(`serving on port ${port}`);
 
-      // Contract deadline enforcement: check every 5 minutes
-      setInterval(async () => {
-        try {
-          const { checkContractDeadlines } = await import("./routes/contracts");
-          const voided = await checkContractDeadlines();
-          if (voided > 0) {
-            log(`[ContractTimeout] Voided ${voided} expired contract(s)`);
-          }
-        } catch (err) {
-          // Silent fail - server may not be fully ready yet
-        }
-      }, 5 * 60 * 1000); // Every 5 minutes
+      // Background jobs (deadlines, escrow, invoices, notifications, research)
+      registerScheduledJobs();
+      jobScheduler.start().catch((err) => {
+        console.error("[Jobs] Failed to start scheduler:", err);
+      });
     },
   );
 })();
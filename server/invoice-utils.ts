@@ -0,0 +1,195 @@
+/**
+ * Pure utility functions for GST invoice generation.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/invoice.service.ts
+ * Tested by: tests/services/invoice.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_GST_RATE_PCT = 18;
+
+/** GST state codes keyed by lower-cased state / union territory name */
+export const GST_STATE_CODES: Record<string, string> = {
+  "jammu and kashmir": "01",
+  "himachal pradesh": "02",
+  "punjab": "03",
+  "chandigarh": "04",
+  "uttarakhand": "05",
+  "haryana": "06",
+  "delhi": "07",
+  "rajasthan": "08",
+  "uttar pradesh": "09",
+  "bihar": "10",
+  "sikkim": "11",
+  "arunachal pradesh": "12",
+  "nagaland": "13",
+  "manipur": "14",
+  "mizoram": "15",
+  "tripura": "16",
+  "meghalaya": "17",
+  "assam": "18",
+  "west bengal": "19",
+  "jharkhand": "20",
+  "odisha": "21",
+  "chhattisgarh": "22",
+  "madhya pradesh": "23",
+  "gujarat": "24",
+  "dadra and nagar haveli and daman and diu": "26",
+  "maharashtra": "27",
+  "karnataka": "29",
+  "goa": "30",
+  "lakshadweep": "31",
+  "kerala": "32",
+  "tamil nadu": "33",
+  "puducherry": "34",
+  "andaman and nicobar islands": "35",
+  "telangana": "36",
+  "andhra pradesh": "37",
+  "ladakh": "38",
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface InvoiceLineItem {
+  description: string;
+  /** SAC code for the service line */
+  sac: string;
+  amount: number;
+  taxable: boolean;
+}
+
+export interface GstBreakdown {
+  supplyType: SupplyType;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+export interface InvoiceTotals extends GstBreakdown {
+  subtotal: number;
+  totalAmount: number;
+}
+
+export interface BookingAmounts {
+  artistFee: number | string | null;
+  organizerFee: number | string | null;
+  artistCommissionPct: number | string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Indian financial year (April–March) for a date, evaluated in IST.
+ * e.g. 2026-02-10 -> "2025-26", 2026-04-01 -> "2026-27"
+ */
+export function getFinancialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const year = ist.getUTCFullYear();
+  const startYear = ist.getUTCMonth() >= 3 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number, prefix: string = "INV"): string {
+  return `${prefix}/${financialYear}/${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Extracts the two-digit state code from a GSTIN (first two characters).
+ */
+export function stateCodeFromGstin(gstin: string | null | undefined): string | null {
+  if (!gstin) return null;
+  const code = gstin.trim().slice(0, 2);
+  return /^\d{2}$/.test(code) ? code : null;
+}
+
+export function stateCodeFromName(state: string | null | undefined): string | null {
+  if (!state) return null;
+  return GST_STATE_CODES[state.trim().toLowerCase().replace(/&/g, "and")] || null;
+}
+
+/**
+ * Same state -> CGST + SGST (half each); different or unknown state -> IGST.
+ */
+export function splitGst(
+  taxableAmount: number,
+  supplierStateCode: string | null,
+  placeOfSupplyCode: string | null,
+  ratePct: number = DEFAULT_GST_RATE_PCT,
+): GstBreakdown {
+  const taxable = round2(taxableAmount);
+  const totalTax = round2(taxable * (ratePct / 100));
+  const intraState = !!supplierStateCode && supplierStateCode === placeOfSupplyCode;
+
+  if (intraState) {
+    const cgstAmount = round2(totalTax / 2);
+    const sgstAmount = round2(totalTax - cgstAmount);
+    return { supplyType: "intra_state", taxableAmount: taxable, cgstAmount, sgstAmount, igstAmount: 0, totalTax };
+  }
+
+  return { supplyType: "inter_state", taxableAmount: taxable, cgstAmount: 0, sgstAmount: 0, igstAmount: totalTax, totalTax };
+}
+
+export function computeInvoiceTotals(
+  lines: InvoiceLineItem[],
+  supplierStateCode: string | null,
+  placeOfSupplyCode: string | null,
+  ratePct: number = DEFAULT_GST_RATE_PCT,
+): InvoiceTotals {
+  const subtotal = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+  const taxable = lines.filter((l) => l.taxable).reduce((sum, l) => sum + l.amount, 0);
+  const gst = splitGst(taxable, supplierStateCode, placeOfSupplyCode, ratePct);
+  return { ...gst, subtotal, totalAmount: round2(subtotal + gst.totalTax) };
+}
+
+/**
+ * Lines billed to the organizer: the artist's fee plus the platform fee.
+ * The artist fee only attracts GST when the artist is GST-registered.
+ */
+export function buildOrganizerInvoiceLines(amounts: BookingAmounts, artistGstRegistered: boolean): InvoiceLineItem[] {
+  return [
+    {
+      description: "Artist performance fee",
+      sac: "999623",
+      amount: round2(Number(amounts.artistFee || 0)),
+      taxable: artistGstRegistered,
+    },
+    {
+      description: "Platform booking fee",
+      sac: "998599",
+      amount: round2(Number(amounts.organizerFee || 0)),
+      taxable: true,
+    },
+  ];
+}
+
+/**
+ * Lines billed to the artist: the platform commission deducted from their fee.
+ */
+export function buildArtistInvoiceLines(amounts: BookingAmounts): InvoiceLineItem[] {
+  const fee = Number(amounts.artistFee || 0);
+  const pct = Number(amounts.artistCommissionPct || 0);
+  return [
+    {
+      description: `Platform commission (${pct}% of artist fee)`,
+      sac: "998599",
+      amount: round2(fee * (pct / 100)),
+      taxable: true,
+    },
+  ];
+}
@@ -0,0 +1,105 @@
+/**
+ * Pure utility functions for the background job scheduler: what happens to
+ * a job row after a run, retry backoff and lock expiry.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/job-scheduler.service.ts
+ * Tested by: tests/services/job-scheduler.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How often each server instance looks for due jobs */
+export const JOB_POLL_INTERVAL_MS = 15 * 1000;
+
+/** A job still "running" after this long is assumed to belong to a crashed instance */
+export const JOB_LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** First retry of a failed one-off job after one minute, doubling up to an hour */
+export const JOB_RETRY_BASE_DELAY_MS = 60 * 1000;
+export const JOB_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Run history older than this is pruned */
+export const JOB_RUN_RETENTION_DAYS = 30;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type JobKind = "recurring" | "once";
+
+export interface JobRunOutcome {
+  kind: JobKind;
+  intervalSeconds: number | null;
+  /** Consecutive failures before this run */
+  attempts: number;
+  maxAttempts: number;
+  success: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface JobStateAfterRun {
+  status: "scheduled" | "completed" | "failed";
+  runAt: Date;
+  attempts: number;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/** Key for a one-off job about a single entity, e.g. "booking.expire-flow:123" */
+export function jobKey(name: string, entityId: number | string): string {
+  return `${name}:${entityId}`;
+}
+
+export function jobRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(JOB_RETRY_BASE_DELAY_MS * 2 ** exponent, JOB_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Next run of a recurring job: one interval after it started, but never
+ * before it finished (a slow run does not cause an immediate re-run).
+ */
+export function nextRecurringRunAt(intervalSeconds: number, startedAt: Date, finishedAt: Date): Date {
+  const next = startedAt.getTime() + intervalSeconds * 1000;
+  return new Date(Math.max(next, finishedAt.getTime()));
+}
+
+/**
+ * Job row state after a run. Recurring jobs always go back to "scheduled"
+ * (failures are counted but do not stop them). One-off jobs complete on
+ * success and are retried with backoff until maxAttempts, then fail.
+ */
+export function stateAfterRun(outcome: JobRunOutcome): JobStateAfterRun {
+  const attempts = outcome.success ? 0 : outcome.attempts + 1;
+
+  if (outcome.kind === "recurring") {
+    return {
+      status: "scheduled",
+      runAt: nextRecurringRunAt(outcome.intervalSeconds ?? 60, outcome.startedAt, outcome.finishedAt),
+      attempts,
+    };
+  }
+
+  if (outcome.success) {
+    return { status: "completed", runAt: outcome.startedAt, attempts };
+  }
+  if (attempts >= outcome.maxAttempts) {
+    return { status: "failed", runAt: outcome.startedAt, attempts };
+  }
+  return {
+    status: "scheduled",
+    runAt: new Date(outcome.finishedAt.getTime() + jobRetryDelayMs(attempts)),
+    attempts,
+  };
+}
+
+/** Cut-off before which a "running" lock is considered abandoned */
+export function staleLockCutoff(now: Date): Date {
+  return new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+}
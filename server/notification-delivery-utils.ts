@@ -0,0 +1,204 @@
+/**
+ * Pure utility functions for external notification delivery (email and
+ * future channels): template rendering and retry scheduling.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/notification.service.ts,
+ *          server/services/notification-delivery.service.ts,
+ *          server/services/notification-preference.service.ts
+ * Tested by: tests/services/notification-delivery.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** First retry after one minute, doubling up to six hours */
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+export const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** A "sending" row older than this is assumed to belong to a crashed worker */
+export const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RenderedMessage {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateInput {
+  title: string;
+  body: string;
+  actionUrl?: string | null;
+  baseUrl: string;
+  recipientName?: string | null;
+  priority?: "normal" | "urgent" | string | null;
+}
+
+export interface DigestItem {
+  title: string;
+  body: string;
+  actionUrl?: string | null;
+  createdAt?: Date | string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Templating
+// ---------------------------------------------------------------------------
+
+/** Replace {{variable}} and {{nested.path}} tokens with payload values */
+export function interpolateTemplate(template: string, data: Record<string, any>): string {
+  return template.replace(/\{\{(\w+(?:\.\w+)*)\}\}/g, (_, path: string) => {
+    const value = path.split(".").reduce((obj: any, key: string) => obj?.[key], data);
+    return value != null ? String(value) : "";
+  });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Resolve a notification's actionUrl (usually app-relative) against the public base URL */
+export function absoluteActionUrl(actionUrl: string | null | undefined, baseUrl: string): string | null {
+  if (!actionUrl) return null;
+  if (/^https?:\/\//i.test(actionUrl)) return actionUrl;
+  return `${baseUrl.replace(/\/+$/, "")}/${actionUrl.replace(/^\/+/, "")}`;
+}
+
+const FOOTER = "You received this email because of activity on your BANDWIDTH account.";
+
+function emailLayout(subject: string, content: string): string {
+  return [
+    `<!DOCTYPE html>`,
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`,
+    `<body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">`,
+    `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0;"><tr><td align="center">`,
+    `<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;padding:32px;">`,
+    `<tr><td>`,
+    `<p style="margin:0 0 24px;font-size:13px;letter-spacing:2px;font-weight:700;color:#7c3aed;">BANDWIDTH</p>`,
+    content,
+    `<p style="margin:32px 0 0;font-size:12px;color:#71717a;">${FOOTER}</p>`,
+    `</td></tr></table>`,
+    `</td></tr></table>`,
+    `</body></html>`,
+  ].join("");
+}
+
+/**
+ * Render an already-interpolated notification title/body as an email.
+ * Blank lines in the body become paragraphs; single newlines become <br>.
+ */
+export function renderNotificationEmail(input: EmailTemplateInput): RenderedMessage {
+  const urgent = input.priority === "urgent";
+  const subject = `${urgent ? "[Urgent] " : ""}${input.title}`;
+  const link = absoluteActionUrl(input.actionUrl, input.baseUrl);
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : "Hi,";
+  const paragraphs = input.body.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+
+  const text = [
+    greeting,
+    "",
+    ...paragraphs.flatMap((p) => [p, ""]),
+    link ? `View details: ${link}\n` : null,
+    "—",
+    FOOTER,
+  ].filter((line) => line !== null).join("\n");
+
+  const htmlParagraphs = paragraphs
+    .map((p) => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+  const button = link
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(link)}" style="background:#7c3aed;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:600;display:inline-block;">View details</a></p>`
+    : "";
+  const banner = urgent
+    ? `<p style="margin:0 0 16px;color:#b91c1c;font-weight:600;">Action needed</p>`
+    : "";
+
+  const html = emailLayout(subject, [
+    banner,
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(input.title)}</h1>`,
+    `<p style="margin:0 0 16px;">${escapeHtml(greeting)}</p>`,
+    htmlParagraphs,
+    button,
+  ].join(""));
+
+  return { subject, html, text };
+}
+
+/** Render several held notifications as one daily/weekly digest email */
+export function renderDigestEmail(input: {
+  items: DigestItem[];
+  frequency: "daily" | "weekly";
+  baseUrl: string;
+  recipientName?: string | null;
+}): RenderedMessage {
+  const count = input.items.length;
+  const subject = `Your ${input.frequency} BANDWIDTH digest: ${count} update${count === 1 ? "" : "s"}`;
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : "Hi,";
+  const intro = `Here's what happened since your last ${input.frequency} digest.`;
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    "",
+    ...input.items.flatMap((item) => {
+      const link = absoluteActionUrl(item.actionUrl, input.baseUrl);
+      return [`• ${item.title}`, `  ${item.body}`, link ? `  ${link}` : null, ""];
+    }),
+    "—",
+    FOOTER,
+  ].filter((line) => line !== null).join("\n");
+
+  const rows = input.items.map((item) => {
+    const link = absoluteActionUrl(item.actionUrl, input.baseUrl);
+    const title = link
+      ? `<a href="${escapeHtml(link)}" style="color:#7c3aed;text-decoration:none;">${escapeHtml(item.title)}</a>`
+      : escapeHtml(item.title);
+    return `<tr><td style="padding:12px 0;border-top:1px solid #e4e4e7;"><p style="margin:0 0 4px;font-weight:600;">${title}</p><p style="margin:0;line-height:1.5;color:#52525b;">${escapeHtml(item.body).replace(/\n/g, "<br>")}</p></td></tr>`;
+  }).join("");
+
+  const html = emailLayout(subject, [
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(subject)}</h1>`,
+    `<p style="margin:0 0 8px;">${escapeHtml(greeting)}</p>`,
+    `<p style="margin:0 0 16px;">${escapeHtml(intro)}</p>`,
+    `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}</table>`,
+  ].join(""));
+
+  return { subject, html, text };
+}
+
+// ---------------------------------------------------------------------------
+// Retry scheduling
+// ---------------------------------------------------------------------------
+
+/** Exponential backoff delay before the next try, given the attempts made so far (≥ 1) */
+export function retryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * When to try again after a failed attempt, or null when the delivery
+ * should be marked failed (attempts exhausted or a permanent rejection).
+ */
+export function nextAttemptAfterFailure(
+  attempts: number,
+  maxAttempts: number,
+  permanent: boolean,
+  now: Date = new Date(),
+): Date | null {
+  if (permanent || attempts >= maxAttempts) return null;
+  return new Date(now.getTime() + retryDelayMs(attempts));
+}
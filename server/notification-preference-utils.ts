@@ -0,0 +1,141 @@
+/**
+ * Pure utility functions for per-user notification preferences:
+ * channel resolution, quiet hours and digest scheduling.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * All clock comparisons happen in the user's timezone (users.timezone).
+ *
+ * Used by: server/services/notification-preference.service.ts
+ * Tested by: tests/services/notification-preference.test.ts
+ */
+
+import { parseTimeOfDay, toLocalParts } from "./availability-utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+export interface ChannelPreference {
+  channel: string;
+  enabled: boolean;
+}
+
+export interface QuietHours {
+  start: string | null;
+  end: string | null;
+}
+
+/** How a single notification should go out on external channels */
+export type DeliveryTiming =
+  | { mode: "now" }
+  | { mode: "deferred"; notBefore: Date }
+  | { mode: "digest" };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Weekly digests go out on Mondays (0 = Sunday) */
+export const WEEKLY_DIGEST_WEEKDAY = 1;
+
+// ---------------------------------------------------------------------------
+// Channels
+// ---------------------------------------------------------------------------
+
+/**
+ * Channels a user receives a notification type on. Explicit preferences
+ * win; otherwise the type's default channels apply. Only channels in
+ * `available` (globally enabled and deliverable) are returned.
+ */
+export function resolveChannels(
+  typeDefaults: string[],
+  preferences: ChannelPreference[],
+  available: string[],
+): string[] {
+  return available.filter((channel) => {
+    const pref = preferences.find((p) => p.channel === channel);
+    return pref ? pref.enabled : typeDefaults.includes(channel);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Quiet hours
+// ---------------------------------------------------------------------------
+
+/** Minutes from `now` until quiet hours end, or null when outside quiet hours (or none set) */
+function minutesUntilQuietEnd(now: Date, timeZone: string | null | undefined, quiet: QuietHours): number | null {
+  const start = parseTimeOfDay(quiet.start);
+  const end = parseTimeOfDay(quiet.end);
+  if (start === null || end === null || start === end) return null;
+
+  const minute = toLocalParts(now, timeZone).minute;
+  const inside = start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end; // wraps midnight, e.g. 22:00–07:00
+  if (!inside) return null;
+
+  return (end - minute + 24 * 60) % (24 * 60);
+}
+
+export function isWithinQuietHours(now: Date, timeZone: string | null | undefined, quiet: QuietHours): boolean {
+  return minutesUntilQuietEnd(now, timeZone, quiet) !== null;
+}
+
+/** The instant quiet hours end, or null when `now` is outside them */
+export function quietHoursEndAt(now: Date, timeZone: string | null | undefined, quiet: QuietHours): Date | null {
+  const minutes = minutesUntilQuietEnd(now, timeZone, quiet);
+  if (minutes === null) return null;
+  const end = new Date(now.getTime() + minutes * 60 * 1000);
+  end.setUTCSeconds(0, 0);
+  return end;
+}
+
+/**
+ * Decide when a notification goes out on external channels.
+ * Urgent notifications always go now; others are batched into the digest
+ * when one is configured, or held until quiet hours end.
+ */
+export function planDelivery(opts: {
+  priority: string | null | undefined;
+  now: Date;
+  timeZone: string | null | undefined;
+  quietHours: QuietHours;
+  digestFrequency: DigestFrequency;
+}): DeliveryTiming {
+  if (opts.priority === "urgent") return { mode: "now" };
+  if (opts.digestFrequency !== "off") return { mode: "digest" };
+
+  const notBefore = quietHoursEndAt(opts.now, opts.timeZone, opts.quietHours);
+  return notBefore ? { mode: "deferred", notBefore } : { mode: "now" };
+}
+
+// ---------------------------------------------------------------------------
+// Digest scheduling
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a user's digest should be sent now: at or after `digestHour`
+ * local time, on Mondays for weekly digests, and not already sent for the
+ * current local day (daily) or in the last six days (weekly).
+ */
+export function isDigestDue(opts: {
+  now: Date;
+  timeZone: string | null | undefined;
+  frequency: DigestFrequency;
+  digestHour: number;
+  lastDigestAt: Date | null;
+}): boolean {
+  if (opts.frequency === "off") return false;
+
+  const local = toLocalParts(opts.now, opts.timeZone);
+  if (local.minute < opts.digestHour * 60) return false;
+  if (opts.frequency === "weekly" && local.weekday !== WEEKLY_DIGEST_WEEKDAY) return false;
+  if (!opts.lastDigestAt) return true;
+
+  if (opts.frequency === "weekly") {
+    return opts.now.getTime() - opts.lastDigestAt.getTime() >= 6 * 24 * 60 * 60 * 1000;
+  }
+  return toLocalParts(opts.lastDigestAt, opts.timeZone).date < local.date;
+}
@@ -0,0 +1,271 @@
+/**
+ * Pure utility functions for OAuth / OpenID Connect sign-in: PKCE and state
+ * values, authorization URLs, ID token signature and claim checks, and the
+ * rules for matching an external identity to a local account. These
+ * functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/identity-providers.ts, server/services/oauth.service.ts,
+ *          server/routes/oauth.ts
+ * Tested by: tests/services/oauth.test.ts
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How long the browser has to come back from the provider */
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+/** Allowed clock difference when checking ID token times */
+export const ID_TOKEN_CLOCK_SKEW_S = 60;
+
+export type OAuthMode = "login" | "link";
+
+/** What the browser carries to the provider and back, kept in the session */
+export interface OAuthState {
+  provider: string;
+  mode: OAuthMode;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  /** Signed-in user starting a link */
+  userId?: number;
+  next: string;
+  expiresAt: number;
+}
+
+/** The parts of an ID token the app uses */
+export interface ExternalIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  picture: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Authorization request
+// ---------------------------------------------------------------------------
+
+export function randomUrlToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/** RFC 7636 S256 challenge for a code verifier */
+export function pkceChallenge(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("base64url");
+}
+
+export function buildAuthorizationUrl(
+  endpoint: string,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    scope: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    prompt?: string;
+  },
+): string {
+  const url = new URL(endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", params.scope);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", pkceChallenge(params.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.prompt) url.searchParams.set("prompt", params.prompt);
+  return url.toString();
+}
+
+/** Only same-site paths; anything else falls back to `fallback` */
+export function safeNextPath(next: unknown, fallback: string): string {
+  return typeof next === "string" && next.startsWith("/") && !next.startsWith("//") && !next.includes("\\")
+    ? next
+    : fallback;
+}
+
+/** Adds a query parameter to a same-site path, keeping any existing query */
+export function withQueryParam(path: string, key: string, value: string): string {
+  const [base, hash = ""] = path.split("#");
+  const separator = base.includes("?") ? "&" : "?";
+  return `${base}${separator}${key}=${encodeURIComponent(value)}${hash ? `#${hash}` : ""}`;
+}
+
+/** Why the callback's state cannot be accepted, or null */
+export function oauthStateError(
+  saved: OAuthState | undefined,
+  provider: string,
+  state: unknown,
+  now: Date = new Date(),
+): string | null {
+  if (!saved || saved.provider !== provider || typeof state !== "string" || saved.state !== state) {
+    return "Sign-in request not recognised. Please try again.";
+  }
+  if (saved.expiresAt <= now.getTime()) return "Sign-in request expired. Please try again.";
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// ID tokens
+// ---------------------------------------------------------------------------
+
+export interface DecodedJwt {
+  header: { alg?: string; kid?: string; [key: string]: unknown };
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8")),
+      payload: JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8")),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], "base64url"),
+    };
+  } catch {
+    throw new Error("Malformed ID token");
+  }
+}
+
+const JWT_ALGORITHMS: Record<string, { hash: string; kty: string; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  ES256: { hash: "sha256", kty: "EC", dsaEncoding: "ieee-p1363" },
+};
+
+/** Checks the signature against the provider's JWKS (RS256 or ES256) */
+export function verifyJwtSignature(jwt: DecodedJwt, keys: JsonWebKey[]): boolean {
+  const alg = jwt.header.alg || "";
+  const spec = JWT_ALGORITHMS[alg];
+  if (!spec) return false;
+
+  const candidates = keys.filter((key) =>
+    key.kty === spec.kty &&
+    (!jwt.header.kid || key.kid === jwt.header.kid) &&
+    (!key.use || key.use === "sig") &&
+    (!key.alg || key.alg === alg));
+
+  return candidates.some((jwk) => {
+    try {
+      const key = createPublicKey({ key: jwk, format: "jwk" });
+      return verify(spec.hash, Buffer.from(jwt.signingInput), spec.dsaEncoding ? { key, dsaEncoding: spec.dsaEncoding } : key, jwt.signature);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** Why the ID token's claims cannot be accepted, or null (OIDC Core 3.1.3.7) */
+export function idTokenClaimsError(
+  claims: Record<string, any>,
+  expected: { issuers: string[]; clientId: string; nonce: string },
+  now: Date = new Date(),
+): string | null {
+  const nowS = Math.floor(now.getTime() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (!expected.issuers.includes(claims.iss)) return "ID token issuer mismatch";
+  if (!audiences.includes(expected.clientId)) return "ID token audience mismatch";
+  if (audiences.length > 1 && claims.azp !== expected.clientId) return "ID token authorized party mismatch";
+  if (typeof claims.exp !== "number" || claims.exp + ID_TOKEN_CLOCK_SKEW_S <= nowS) return "ID token expired";
+  if (typeof claims.iat === "number" && claims.iat - ID_TOKEN_CLOCK_SKEW_S > nowS) return "ID token issued in the future";
+  if (claims.nonce !== expected.nonce) return "ID token nonce mismatch";
+  if (typeof claims.sub !== "string" || !claims.sub) return "ID token has no subject";
+  return null;
+}
+
+export function identityFromClaims(claims: Record<string, any>): ExternalIdentity {
+  const email = typeof claims.email === "string" && claims.email ? claims.email : null;
+  return {
+    subject: String(claims.sub),
+    email,
+    // Some providers send the flag as a string
+    emailVerified: !!email && (claims.email_verified === true || claims.email_verified === "true"),
+    name: typeof claims.name === "string" ? claims.name : null,
+    picture: typeof claims.picture === "string" ? claims.picture : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Account matching
+// ---------------------------------------------------------------------------
+
+export type OAuthSignInDecision =
+  | { action: "sign_in"; userId: number }
+  | { action: "link_and_sign_in"; userId: number }
+  | { action: "reject"; reason: string };
+
+/** The local account holding the identity's email address */
+export interface EmailAccount {
+  id: number;
+  /** Whether the account has proven it owns the address */
+  emailVerified: boolean;
+  status: string | null;
+}
+
+const INACTIVE_ACCOUNT = "This account is not active. Contact support.";
+
+function isActiveAccount(account: Pick<EmailAccount, "status">): boolean {
+  return account.status !== "suspended" && account.status !== "deleted";
+}
+
+/**
+ * Sign-in with an external identity: an existing link wins; otherwise the
+ * identity is linked to the account with the same email, but only when both
+ * the provider and the account have verified that email. An unverified
+ * account could have been registered by anyone, so its owner links the
+ * provider from their profile after signing in with the password.
+ * Suspended and deleted accounts are refused either way.
+ */
+export function decideOAuthSignIn(
+  identity: ExternalIdentity,
+  providerLabel: string,
+  linkedAccount: Pick<EmailAccount, "id" | "status"> | null,
+  emailAccount: EmailAccount | null,
+): OAuthSignInDecision {
+  if (linkedAccount !== null) {
+    if (!isActiveAccount(linkedAccount)) return { action: "reject", reason: INACTIVE_ACCOUNT };
+    return { action: "sign_in", userId: linkedAccount.id };
+  }
+  const linkFromProfile = `Sign in with your password and link ${providerLabel} from your profile.`;
+  if (!identity.email) {
+    return { action: "reject", reason: `${providerLabel} did not share an email address. ${linkFromProfile}` };
+  }
+  if (!identity.emailVerified) {
+    return { action: "reject", reason: `Your ${providerLabel} email address is not verified. ${linkFromProfile}` };
+  }
+  if (emailAccount === null) {
+    return { action: "reject", reason: `No account uses ${identity.email}. Create an account first, then link ${providerLabel} from your profile.` };
+  }
+  if (!isActiveAccount(emailAccount)) {
+    return { action: "reject", reason: INACTIVE_ACCOUNT };
+  }
+  if (!emailAccount.emailVerified) {
+    return { action: "reject", reason: `The account using ${identity.email} has not verified its email address. ${linkFromProfile}` };
+  }
+  return { action: "link_and_sign_in", userId: emailAccount.id };
+}
+
+/** Why a signed-in user cannot link this identity, or null */
+export function oauthLinkError(userId: number, linkedUserId: number | null, providerLabel: string): string | null {
+  if (linkedUserId !== null && linkedUserId !== userId) {
+    return `This ${providerLabel} account is already linked to another user`;
+  }
+  return null;
+}
+
+/** Accounts without a password must keep at least one linked identity */
+export function unlinkError(hasPassword: boolean, linkCount: number): string | null {
+  if (!hasPassword && linkCount <= 1) {
+    return "Set a password before unlinking your only sign-in method";
+  }
+  return null;
+}
@@ -0,0 +1,201 @@
+/**
+ * Pure utility functions for organizations: member role checks, invite
+ * tokens and states, the last-owner rule, and who may act for an artist,
+ * venue or promoter profile (directly or through an organization).
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/organization.service.ts
+ * Tested by: tests/services/organization.test.ts
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ORGANIZATION_ROLES = ["owner", "manager", "viewer"] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+/** Invite links stop working after this many days */
+export const INVITE_TTL_DAYS = 7;
+
+export const PROFILE_TYPES = ["artist", "organizer", "venue"] as const;
+export type ProfileType = typeof PROFILE_TYPES[number];
+
+/** Side of a booking: the artist, or the organizer/venue making the offer */
+export type BookingSide = "artist" | "organizer";
+
+/** What a user may do with a profile: act for it (book, negotiate, sign) or only see it */
+export type ProfileAccess = "act" | "view";
+
+const ROLE_RANK: Record<OrganizationRole, number> = { viewer: 0, manager: 1, owner: 2 };
+
+// ---------------------------------------------------------------------------
+// Member roles
+// ---------------------------------------------------------------------------
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === "string" && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+}
+
+export function hasOrganizationRole(role: OrganizationRole | null | undefined, minimum: OrganizationRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/** Owners and managers act for the organization's profiles; viewers only see them */
+export function accessForRole(role: OrganizationRole | null | undefined): ProfileAccess | null {
+  if (!role) return null;
+  return hasOrganizationRole(role, "manager") ? "act" : "view";
+}
+
+/** Managers may invite managers and viewers; only owners may invite owners */
+export function canInviteRole(inviter: OrganizationRole | null | undefined, role: OrganizationRole): boolean {
+  if (!hasOrganizationRole(inviter, "manager")) return false;
+  return role !== "owner" || inviter === "owner";
+}
+
+/**
+ * Error for a change that would leave the organization without an owner
+ * (demoting or removing its last owner), or null when the change is allowed.
+ */
+export function lastOwnerError(
+  members: { userId: number; role: OrganizationRole }[],
+  userId: number,
+  newRole: OrganizationRole | null,
+): string | null {
+  const target = members.find((m) => m.userId === userId);
+  if (!target || target.role !== "owner" || newRole === "owner") return null;
+  const owners = members.filter((m) => m.role === "owner").length;
+  return owners <= 1 ? "An organization must keep at least one owner" : null;
+}
+
+// ---------------------------------------------------------------------------
+// Invites
+// ---------------------------------------------------------------------------
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** A new invite token (sent in the link) and the hash stored for it */
+export function generateInviteToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function inviteExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export type InviteState = "pending" | "accepted" | "revoked" | "expired";
+
+export function inviteState(invite: { status: string; expiresAt: Date | string }, now: Date = new Date()): InviteState {
+  if (invite.status === "accepted") return "accepted";
+  if (invite.status === "revoked") return "revoked";
+  return new Date(invite.expiresAt) <= now ? "expired" : "pending";
+}
+
+/** Why an invite cannot be accepted by this account, or null when it can */
+export function inviteAcceptError(
+  invite: { status: string; expiresAt: Date | string; email: string },
+  accountEmail: string,
+  now: Date = new Date(),
+): string | null {
+  const state = inviteState(invite, now);
+  if (state === "accepted") return "This invite has already been used";
+  if (state === "revoked") return "This invite has been revoked";
+  if (state === "expired") return "This invite has expired";
+  if (normalizeEmail(invite.email) !== normalizeEmail(accountEmail)) {
+    return "This invite was sent to a different email address";
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Profile access
+// ---------------------------------------------------------------------------
+
+export interface ProfileOwnership {
+  userId: number | null;
+  organizationId: number | null;
+}
+
+/**
+ * Access a user has to a profile: full access to their own profile, else the
+ * access their role in the profile's organization gives. `memberships` maps
+ * organization id to the user's role there.
+ */
+export function profileAccess(
+  userId: number,
+  profile: ProfileOwnership | null | undefined,
+  memberships: ReadonlyMap<number, OrganizationRole>,
+): ProfileAccess | null {
+  if (!profile) return null;
+  if (profile.userId === userId) return "act";
+  if (profile.organizationId === null) return null;
+  return accessForRole(memberships.get(profile.organizationId));
+}
+
+export function canActFor(
+  userId: number,
+  profile: ProfileOwnership | null | undefined,
+  memberships: ReadonlyMap<number, OrganizationRole>,
+): boolean {
+  return profileAccess(userId, profile, memberships) === "act";
+}
+
+export interface BookingParties {
+  artist?: ProfileOwnership | null;
+  organizer?: ProfileOwnership | null;
+  venue?: ProfileOwnership | null;
+}
+
+/**
+ * Sides of a booking the user may take part on with the given access. The
+ * organizer side is the event's promoter or its venue. Artist comes first,
+ * matching how a user on both sides has always been treated.
+ */
+export function bookingSides(
+  userId: number,
+  parties: BookingParties,
+  memberships: ReadonlyMap<number, OrganizationRole>,
+  required: ProfileAccess = "act",
+): BookingSide[] {
+  const allows = (profile: ProfileOwnership | null | undefined) => {
+    const access = profileAccess(userId, profile, memberships);
+    return access === "act" || (access === "view" && required === "view");
+  };
+  const sides: BookingSide[] = [];
+  if (allows(parties.artist)) sides.push("artist");
+  if (allows(parties.organizer) || allows(parties.venue)) sides.push("organizer");
+  return sides;
+}
+
+/** True when some party's profile belongs to an organization, so memberships matter */
+export function partiesHaveOrganization(parties: BookingParties): boolean {
+  return [parties.artist, parties.organizer, parties.venue].some((p) => p?.organizationId != null);
+}
+
+// ---------------------------------------------------------------------------
+// Slugs
+// ---------------------------------------------------------------------------
+
+/** URL slug for an organization name; a numeric suffix is added when taken */
+export function organizationSlug(name: string, taken: (slug: string) => boolean): string {
+  const base = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "organization";
+  if (!taken(base)) return base;
+  for (let n = 2; ; n++) {
+    const candidate = `${base}-${n}`;
+    if (!taken(candidate)) return candidate;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Pure utility functions for the domain event outbox: which consumers still
+ * need an event and what happens to the event row after a dispatch attempt.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/outbox-relay.service.ts
+ * Tested by: tests/services/outbox.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Dispatch attempts before an event is parked as failed (admins can replay it) */
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+/** First retry after 30 seconds, doubling up to an hour */
+export const OUTBOX_RETRY_BASE_DELAY_MS = 30 * 1000;
+export const OUTBOX_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** A claimed event untouched for this long is assumed to belong to a crashed relay */
+export const OUTBOX_STALE_LOCK_MS = 5 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DispatchOutcome {
+  /** Failed attempts before this one */
+  attempts: number;
+  maxAttempts: number;
+  /** Consumers that threw, with their error messages */
+  failures: { consumer: string; error: string }[];
+  now: Date;
+}
+
+export type OutboxStateAfterDispatch =
+  | { status: "dispatched"; attempts: number; lastError: null }
+  | { status: "pending"; attempts: number; nextAttemptAt: Date; lastError: string }
+  | { status: "failed"; attempts: number; lastError: string };
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** Registered consumers that have not yet recorded handling the event */
+export function pendingConsumers(registered: string[], consumed: string[]): string[] {
+  return registered.filter((name) => !consumed.includes(name));
+}
+
+export function outboxRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(OUTBOX_RETRY_BASE_DELAY_MS * 2 ** exponent, OUTBOX_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Event row state after a dispatch attempt. The event is dispatched once
+ * every consumer has succeeded; otherwise it is retried with backoff (only
+ * the failed consumers run again) until maxAttempts.
+ */
+export function outboxStateAfterDispatch(outcome: DispatchOutcome): OutboxStateAfterDispatch {
+  if (outcome.failures.length === 0) {
+    return { status: "dispatched", attempts: outcome.attempts, lastError: null };
+  }
+
+  const attempts = outcome.attempts + 1;
+  const lastError = outcome.failures.map((f) => `${f.consumer}: ${f.error}`).join("; ");
+  if (attempts >= outcome.maxAttempts) {
+    return { status: "failed", attempts, lastError };
+  }
+  return {
+    status: "pending",
+    attempts,
+    nextAttemptAt: new Date(outcome.now.getTime() + outboxRetryDelayMs(attempts)),
+    lastError,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Pure utility functions for post-event reviews: which criteria apply to each
+ * review direction, score validation, the blind-reveal rule and the rating
+ * aggregates stored on artists, promoters and venues.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/review.service.ts
+ * Tested by: tests/services/review.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Days after completion during which both sides can review */
+export const REVIEW_WINDOW_DAYS = 14;
+
+export const REVIEW_SCORE_MIN = 1;
+export const REVIEW_SCORE_MAX = 5;
+
+export type ReviewCriterion = "punctuality" | "professionalism" | "rider_compliance" | "payment_timeliness";
+export type ReviewSubject = "artist" | "organizer" | "venue";
+export type ReviewerRole = "artist" | "organizer";
+
+/**
+ * Criteria scored per subject:
+ *   artist    — reviewed by the organizer: on time, conduct, kept to the agreed rider
+ *   organizer — reviewed by the artist: conduct, rider provided, paid on time
+ *   venue     — reviewed by the artist: ready on time, staff conduct, tech/hospitality per rider
+ */
+export const REVIEW_CRITERIA: Record<ReviewSubject, readonly ReviewCriterion[]> = {
+  artist: ["punctuality", "professionalism", "rider_compliance"],
+  organizer: ["professionalism", "rider_compliance", "payment_timeliness"],
+  venue: ["punctuality", "professionalism", "rider_compliance"],
+};
+
+// ---------------------------------------------------------------------------
+// Who reviews what
+// ---------------------------------------------------------------------------
+
+/**
+ * Subjects a party may review for a booking. The first entry is required for
+ * that side to count as "submitted"; the venue review is optional.
+ */
+export function reviewSubjectsFor(role: ReviewerRole, hasVenue: boolean): ReviewSubject[] {
+  if (role === "organizer") return ["artist"];
+  return hasVenue ? ["organizer", "venue"] : ["organizer"];
+}
+
+/** The review a side must submit before the other side's review can be revealed early */
+export function requiredSubjectFor(role: ReviewerRole): ReviewSubject {
+  return role === "organizer" ? "artist" : "organizer";
+}
+
+// ---------------------------------------------------------------------------
+// Scores
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks that every criterion for the subject has a whole-number score in
+ * range and that no other criteria are present. Returns an error message or null.
+ */
+export function validateCriteriaRatings(subject: ReviewSubject, ratings: Record<string, number>): string | null {
+  const criteria = REVIEW_CRITERIA[subject];
+  const extra = Object.keys(ratings).filter((k) => !(criteria as readonly string[]).includes(k));
+  if (extra.length > 0) return `Unknown criteria for ${subject}: ${extra.join(", ")}`;
+
+  for (const criterion of criteria) {
+    const score = ratings[criterion];
+    if (score === undefined) return `Missing rating for ${criterion}`;
+    if (!Number.isInteger(score) || score < REVIEW_SCORE_MIN || score > REVIEW_SCORE_MAX) {
+      return `Rating for ${criterion} must be a whole number from ${REVIEW_SCORE_MIN} to ${REVIEW_SCORE_MAX}`;
+    }
+  }
+  return null;
+}
+
+/** Mean of the criteria scores, rounded to two decimals */
+export function overallRating(ratings: Record<string, number>): number {
+  const scores = Object.values(ratings);
+  if (scores.length === 0) return 0;
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  return Math.round(mean * 100) / 100;
+}
+
+/**
+ * Values for ratingAvg / ratingCount from the overall ratings of a subject's
+ * published reviews. ratingAvg is a numeric(3,2) string, "0" when unrated.
+ */
+export function aggregateRatings(overalls: number[]): { ratingAvg: string; ratingCount: number } {
+  if (overalls.length === 0) return { ratingAvg: "0", ratingCount: 0 };
+  const mean = overalls.reduce((sum, r) => sum + r, 0) / overalls.length;
+  return { ratingAvg: mean.toFixed(2), ratingCount: overalls.length };
+}
+
+// ---------------------------------------------------------------------------
+// Blind reveal
+// ---------------------------------------------------------------------------
+
+export function reviewWindowClosesAt(completedAt: Date): Date {
+  return new Date(completedAt.getTime() + REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * When a booking completed: the later of the two sides' completion
+ * confirmations in `meta.completionFeedback`, or null when the booking was
+ * completed another way (e.g. an admin override).
+ */
+export function completionConfirmedAt(meta: Record<string, any> | null | undefined): Date | null {
+  const feedback = meta?.completionFeedback || {};
+  const times = [feedback.organizer?.confirmedAt, feedback.artist?.confirmedAt]
+    .map((value) => (typeof value === "string" ? new Date(value) : null))
+    .filter((date): date is Date => !!date && !isNaN(date.getTime()));
+  if (times.length < 2) return null;
+  return new Date(Math.max(...times.map((date) => date.getTime())));
+}
+
+export interface RevealState {
+  artistSubmitted: boolean;
+  organizerSubmitted: boolean;
+  windowClosesAt: Date | null;
+  now: Date;
+}
+
+/**
+ * Reviews are revealed together once both sides have submitted, or when the
+ * window closes with at least one review in — so neither side can tailor its
+ * review to the other's.
+ */
+export function shouldRevealReviews(state: RevealState): boolean {
+  if (state.artistSubmitted && state.organizerSubmitted) return true;
+  if (!state.windowClosesAt || state.now < state.windowClosesAt) return false;
+  return state.artistSubmitted || state.organizerSubmitted;
+}
@@ -7,8 +7,38 @@
  *
  * Extracted here so both call-sites can share the logic and property tests
  * can import them directly.
+ *
+ * A user may hold several roles (`user_roles`). `resolveUserRole` gives the
+ * primary one; the session picks one of the assigned roles as the active
+ * role (`chooseActiveRole`), which authorization checks read through
+ * `activeRole`.
  */
 
+export type RoleProfileType = 'artist' | 'organizer' | 'venue';
+
+/** The profile each role works through; admin and staff roles have none */
+const ROLE_PROFILE_TYPES: Record<string, RoleProfileType> = {
+  artist: 'artist',
+  band_manager: 'artist',
+  organizer: 'organizer',
+  promoter: 'organizer',
+  venue_manager: 'venue',
+  venue: 'venue',
+};
+
+/** Legacy records store "venue"; the role_name enum uses "venue_manager" */
+export function normalizeRole(role: string): string {
+  return role === 'venue' ? 'venue_manager' : role;
+}
+
+export function profileTypeForRole(role: string | null | undefined): RoleProfileType | null {
+  return (role && ROLE_PROFILE_TYPES[role]) || null;
+}
+
+export function isAdminRole(role: string | null | undefined): boolean {
+  return role === 'admin' || role === 'platform_admin';
+}
+
 /**
  * Resolves the canonical user role from a user object.
  *
@@ -46,8 +76,53 @@ export function resolveContractRole(user: {
   metadata?: { role?: string } | null;
   role?: string;
 }): 'artist' | 'promoter' {
-  const role = user.metadata?.role || user.role;
-  if (role === 'artist' || role === 'band_manager') return 'artist';
-  if (role === 'venue_manager' || role === 'venue' || role === 'organizer' || role === 'promoter') return 'promoter';
-  return 'promoter';
+  return contractRoleFor(user.metadata?.role || user.role);
+}
+
+/** Contract side for a single role; see resolveContractRole */
+export function contractRoleFor(role: string | null | undefined): 'artist' | 'promoter' {
+  return profileTypeForRole(role) === 'artist' ? 'artist' : 'promoter';
+}
+
+/**
+ * The assigned roles: `user_roles` rows plus the primary role, which older
+ * accounts only have in metadata. Primary first, no duplicates.
+ */
+export function mergeAssignedRoles(rows: string[], primary: string): string[] {
+  const merged = [normalizeRole(primary)];
+  for (const role of rows.map(normalizeRole)) {
+    if (!merged.includes(role)) merged.push(role);
+  }
+  return merged;
+}
+
+/**
+ * The role a session acts in: the requested one if the user still holds it,
+ * else the primary role.
+ */
+export function chooseActiveRole(assigned: string[], requested: string | null | undefined, primary: string): string {
+  if (requested && assigned.includes(normalizeRole(requested))) return normalizeRole(requested);
+  return normalizeRole(primary);
+}
+
+/**
+ * The role authorization checks use. `user.role` is the session's active
+ * role (set by loadAuthUser); without it this falls back to the primary role.
+ */
+export function activeRole(user: {
+  role?: string | null;
+  metadata?: { role?: string } | null;
+  venue?: unknown;
+  organizer?: unknown;
+  artist?: unknown;
+}): string {
+  return user.role ? normalizeRole(user.role) : resolveUserRole(user);
+}
+
+/** Why `role` cannot be removed from a user holding `assigned`, or null */
+export function removeRoleError(assigned: string[], role: string): string | null {
+  const normalized = normalizeRole(role);
+  if (!assigned.includes(normalized)) return 'Role not assigned';
+  if (assigned.length <= 1) return 'A user must keep at least one role';
+  return null;
 }
@@ -19,3 +19,6 @@ export function shouldCreateOrganizerRecord(normalizedRole: string): boolean {
 
 /** Valid roles in the role_name enum */
 export const VALID_ROLES = ['artist', 'band_manager', 'organizer', 'venue_manager', 'admin', 'staff'] as const;
+
+/** Roles a user may add to their own account; admin and staff roles are granted by an admin */
+export const SELF_ASSIGNABLE_ROLES = ['artist', 'band_manager', 'organizer', 'venue_manager'] as const;
@@ -3,7 +3,7 @@ import adminRouter from "./routes/admin";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
-import { api } from "@shared/routes";
+import { api, BOOKING_EDITABLE_STATUSES } from "@shared/routes";
 import { z } from "zod";
 import { Booking, auditLogs, bookingProposals, bookings } from "@shared/schema";
 import opportunitiesRouter from "./routes/opportunities";
@@ -14,6 +14,18 @@ import venueRouter from "./routes/venue";
 import mediaRouter from "./routes/media";
 import notificationsRouter from "./routes/notifications";
 import agentsRouter from "./routes/agents";
+import paymentsRouter from "./routes/payments";
+import invoicesRouter from "./routes/invoices";
+import disputesRouter from "./routes/disputes";
+import cancellationsRouter from "./routes/cancellations";
+import reviewsRouter from "./routes/reviews";
+import ticketsRouter from "./routes/tickets";
+import searchRouter from "./routes/search";
+import organizationsRouter from "./routes/organizations";
+import twoFactorRouter from "./routes/two-factor";
+import oauthRouter from "./routes/oauth";
+import rolesRouter from "./routes/roles";
+import availabilityRouter from "./routes/availability";
 import { orchestrator } from "./services/agent-orchestrator";
 import { EventWizardAgent } from "./services/agents/event-wizard.agent";
 import { NegotiationAgent } from "./services/agents/negotiation.agent";
@@ -23,7 +35,14 @@ import { venueProfileCompleteSchema, buildVenueMetadata, buildVenueRecord } from
 import { db } from "./db";
 import { normalizeApplicationProposalSnapshot } from "@shared/negotiation-application";
 import { negotiationService } from "./services/negotiation.service";
+import { actingArtist, actingOrganizer, actingVenue } from "./services/organization.service";
+import { bookingService } from "./services/booking.service";
+import { bookingAccessService } from "./services/booking-access.service";
 import { emitDomainEvent } from "./services/event-bus";
+import { availabilityService, describeConflict } from "./services/availability.service";
+import { eventWindow } from "./availability-utils";
+import { accountRestriction } from "./account-token-utils";
+import { activeRole, contractRoleFor } from "./role-resolver";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -77,6 +96,18 @@ export async function registerRoutes(
   app.use("/api", organizerRouter);
   app.use("/api", venueRouter);
   app.use("/api", mediaRouter);
+  app.use("/api", paymentsRouter);
+  app.use("/api", invoicesRouter);
+  app.use("/api", disputesRouter);
+  app.use("/api", cancellationsRouter);
+  app.use("/api", reviewsRouter);
+  app.use("/api", ticketsRouter);
+  app.use("/api", searchRouter);
+  app.use("/api", organizationsRouter);
+  app.use("/api", twoFactorRouter);
+  app.use("/api", oauthRouter);
+  app.use("/api", rolesRouter);
+  app.use("/api", availabilityRouter);
   app.use(notificationsRouter);
   app.use("/api/admin", adminRouter); // Admin routes mounted under /api/admin
   app.use("/api/agents", agentsRouter);
@@ -200,13 +231,9 @@ export async function registerRoutes(
     try {
       const user = req.user as any;
 
-      // Resolve the user's role using a fallback chain:
-      //   1. user.role       — set during login/deserialisation from metadata
-      //   2. metadata.role   — the canonical source written at registration
-      //   3. 'artist'        — safe default (most platform users are artists)
-      // This guards against sessions where `user.role` was not hydrated
-      // (e.g. older sessions serialised before the role-hydration patch).
-      const userRole = user.role || (user.metadata as any)?.role || 'artist';
+      // The role this session acts in (see activeRole), not the primary
+      // role stored in metadata
+      const userRole = activeRole(user);
 
       if (userRole !== 'artist') {
         return res.status(403).json({ message: "Only artists can complete artist profiles" });
@@ -279,7 +306,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const artist = await storage.getArtistByUserId(user.id);
+      const artist = await actingArtist(user);
       const meta = (artist?.metadata as any) ?? {};
       // Primary check: explicit flag set by the profile completion wizard.
       // Fallback: if key profile fields are populated the profile is effectively
@@ -304,7 +331,7 @@ export async function registerRoutes(
 
     try {
       const user = req.user as any;
-      const userRole = user.role || (user.metadata as any)?.role || 'artist';
+      const userRole = activeRole(user);
       if (userRole !== 'venue_manager' && userRole !== 'venue' && userRole !== 'organizer') {
         return res.status(403).json({ message: "Only venue managers or organizers can complete venue profiles" });
       }
@@ -373,7 +400,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
       const isComplete = (venue?.metadata as any)?.profileComplete === true;
       res.json({ isComplete });
     } catch (error) {
@@ -386,7 +413,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
       if (!venue) {
         return res.json({ venue: null });
       }
@@ -402,7 +429,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
 
       if (!venue) {
         return res.status(404).json({ message: "Venue not found" });
@@ -451,7 +478,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
 
       if (!venue) {
         return res.json({
@@ -476,7 +503,7 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
       if (!venue) return res.json([]);
 
       const events = await storage.getVenueUpcomingEvents(venue.id);
@@ -516,21 +543,23 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const userRole = user.role || (user.metadata as any)?.role || 'artist';
+      // An organization profile the user acts as decides which side's bookings to list
+      const actingType = user.actingProfile?.type;
+      const userRole = actingType === 'venue' ? 'venue_manager' : actingType || activeRole(user);
       let bookings = [];
 
       if (userRole === 'artist') {
-        const artist = await storage.getArtistByUserId(user.id);
+        const artist = await actingArtist(user);
         if (artist) {
           bookings = await storage.getBookingsByArtistWithDetails(artist.id);
         }
       } else if (userRole === 'organizer') {
-        const organizer = await storage.getOrganizerByUserId(user.id);
+        const organizer = await actingOrganizer(user);
         if (organizer) {
           bookings = await storage.getBookingsByOrganizerWithDetails(organizer.id);
         }
       } else if (userRole === 'venue' || userRole === 'venue_manager') {
-        const venue = await storage.getVenueByUserId(user.id);
+        const venue = await actingVenue(user);
         if (venue) {
           bookings = await storage.getBookingsByVenueWithDetails(venue.id);
         }
@@ -547,13 +576,10 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const userRole = user.role || (user.metadata as any)?.role || 'artist';
+      const userRole = activeRole(user);
 
-      if (user.status === 'pending_verification' || user.status === 'suspended') {
-        return res.status(403).json({
-          message: "Your account is currently " + (user.status === 'suspended' ? "suspended" : "pending verification") + ". Please contact support or wait for admin approval."
-        });
-      }
+      const restriction = accountRestriction(user, "send offers");
+      if (restriction) return res.status(403).json({ message: restriction });
 
       const { artistId, eventDate, offerAmount, currency, notes, slotTime } = req.body;
       let { eventId, organizerId } = req.body;
@@ -566,12 +592,12 @@ export async function registerRoutes(
 
       // If organizerId is not provided, try to find it from user
       if (!organizerId) {
-        const organizer = await storage.getOrganizerByUserId(user.id);
+        const organizer = await actingOrganizer(user);
         if (organizer) organizerId = organizer.id;
       }
 
       let venueId: number | undefined;
-      const venue = await storage.getVenueByUserId(user.id);
+      const venue = await actingVenue(user);
       if (venue) {
         venueId = venue.id;
         contextName = venue.name;
@@ -606,6 +632,17 @@ export async function registerRoutes(
         }
       }
 
+      // Reject offers that overlap the artist's committed bookings or blocked dates
+      const existingEvent = eventId ? await storage.getEvent(eventId) : undefined;
+      if (existingEvent || eventDate) {
+        const conflict = existingEvent
+          ? await availabilityService.findConflictForEvent(Number(artistId), existingEvent)
+          : await availabilityService.findConflict(Number(artistId), eventWindow(new Date(eventDate)), null);
+        if (conflict) {
+          return res.status(409).json({ message: describeConflict(conflict), conflict });
+        }
+      }
+
       // If no eventId, create a placeholder event so the booking is visible/valid
       if (!eventId && eventDate) {
         const artist = await storage.getArtist(artistId);
@@ -651,6 +688,7 @@ export async function registerRoutes(
       };
 
       const booking = await storage.createBooking(bookingData);
+      await bookingService.scheduleFlowExpiry(booking.id, deadline);
 
       await storage.createAuditLog({
         who: user.id,
@@ -662,7 +700,7 @@ export async function registerRoutes(
 
       // Notify artist about new offer
       const evt = eventId ? await storage.getEvent(eventId) : undefined;
-      emitDomainEvent("booking.offer_sent", {
+      await emitDomainEvent("booking.offer_sent", {
         bookingId: booking.id,
         entityType: "booking",
         entityId: booking.id,
@@ -685,16 +723,59 @@ export async function registerRoutes(
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID format" });
       }
-      const existing = await storage.getBooking(id);
-      if (!existing) return res.status(404).json({ message: "Booking not found" });
+      // Only the booking's parties (or their organizations' managers) may change it
+      const access = await bookingAccessService.check(req.user, id, "booking", "act");
+      if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+      if (!access.allowed) return res.status(403).json({ message: "Not authorized to update this booking" });
+      if (req.body && "status" in req.body) {
+        return res.status(400).json({
+          message: "Booking status changes through negotiation actions, POST /api/bookings/:id/cancel, POST /api/bookings/:id/complete or a dispute",
+        });
+      }
+      const parsed = api.bookings.update.input.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+      }
+      if (!(BOOKING_EDITABLE_STATUSES as readonly string[]).includes(access.booking.status || "inquiry")) {
+        return res.status(409).json({ message: "The booking terms can only change while it is being negotiated" });
+      }
 
-      const updated = await storage.updateBooking(id, req.body);
+      const updated = await storage.updateBooking(id, parsed.data);
       res.json(updated);
     } catch (error) {
       res.status(400).json({ message: "Failed to update booking" });
     }
   });
 
+  app.post(api.bookings.complete.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const id = getParamId(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      const parsed = api.bookings.complete.input.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+      }
+      const access = await bookingAccessService.check(req.user, id, "booking", "act");
+      if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+      if (!access.allowed || access.sides.length === 0) {
+        return res.status(403).json({ message: "Not authorized to complete this booking" });
+      }
+      // A user on both sides confirms for the side of the role they act as
+      const side = access.sides.length === 1
+        ? access.sides[0]
+        : contractRoleFor(activeRole(req.user)) === "artist" ? "artist" : "organizer";
+
+      const updated = await bookingService.confirmCompletion(id, side, parsed.data, (req.user as any).id);
+      res.json(updated);
+    } catch (error: any) {
+      const message = error.message || "Failed to confirm completion";
+      res.status(message === "Booking not found" ? 404 : 400).json({ message });
+    }
+  });
+
   // --- New Negotiation API Routes ---
   
   function getParamId(idParam: string | string[] | undefined): number {
@@ -705,7 +786,12 @@ export async function registerRoutes(
   app.get(api.bookings.negotiationSummary.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
-      const summary = await negotiationService.getSummary(getParamId(req.params.id));
+      const bookingId = getParamId(req.params.id);
+      const access = await bookingAccessService.check(req.user, bookingId, "negotiation");
+      if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+      if (!access.allowed) return res.status(403).json({ message: "Not authorized to view this negotiation" });
+
+      const summary = await negotiationService.getSummary(bookingId);
       res.json(summary);
     } catch (err: any) {
       if (err.message === "Booking not found") return res.status(404).json({ message: err.message });
@@ -719,6 +805,10 @@ export async function registerRoutes(
     try {
       const bookingId = getParamId(req.params.id);
       const payload = api.bookings.negotiationAction.input.parse(req.body);
+      if (payload.action === "edit") {
+        const restriction = accountRestriction(req.user as any, "send offers");
+        if (restriction) return res.status(403).json({ message: restriction });
+      }
       const summary = await negotiationService.handleNegotiationAction(
         bookingId,
         (req.user as any).id,
@@ -743,6 +833,8 @@ export async function registerRoutes(
     res.setHeader('X-Deprecated', 'Use POST /api/bookings/:id/negotiation/action instead');
     try {
       const payload = api.bookings.submitProposal.input.parse(req.body);
+      const restriction = accountRestriction(req.user as any, "send offers");
+      if (restriction) return res.status(403).json({ message: restriction });
       const summary = await negotiationService.handleNegotiationAction(
         getParamId(req.params.id),
         (req.user as any).id,
@@ -795,10 +887,12 @@ export async function registerRoutes(
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const user = req.user as any;
-      const userRole = user.role || (user.metadata as any)?.role || 'artist';
+      const userRole = activeRole(user);
       if (userRole !== 'artist') {
         return res.status(403).json({ message: "Only artists can apply to events" });
       }
+      const restriction = accountRestriction(user, "send offers");
+      if (restriction) return res.status(403).json({ message: restriction });
 
       const applicationInput = api.bookings.apply.input.parse(req.body);
       const normalizedProposalSnapshot = normalizeApplicationProposalSnapshot(applicationInput.proposal);
@@ -808,7 +902,7 @@ export async function registerRoutes(
       const currency = normalizedProposalSnapshot.financial.currency;
       const artistMessage = applicationInput.message?.trim() || normalizedProposalSnapshot.notes?.artist || null;
 
-      const artist = await storage.getArtistByUserId(user.id);
+      const artist = await actingArtist(user);
       if (!artist) {
         return res.status(404).json({ message: "Artist profile not found" });
       }
@@ -826,6 +920,11 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Event not found or not accepting applications" });
       }
 
+      const conflict = await availabilityService.findConflictForEvent(artist.id, event);
+      if (conflict) {
+        return res.status(409).json({ message: describeConflict(conflict, true), conflict });
+      }
+
       const appliedAt = new Date();
       const appliedAtIso = appliedAt.toISOString();
       const riderRequirements = normalizedProposalSnapshot.techRider?.artistRequirements || [];
@@ -925,19 +1024,23 @@ export async function registerRoutes(
           },
         });
 
+        // Notify organizer about new application
+        const appliedEvent = await storage.getEvent(eventId);
+        await emitDomainEvent("booking.application_received", {
+          bookingId: createdBooking.id,
+          entityType: "booking",
+          entityId: createdBooking.id,
+          eventTitle: appliedEvent?.title || "Event",
+          artistName: artist?.name || user.displayName || "Artist",
+          actionUrl: `/bookings?bookingId=${createdBooking.id}`,
+        }, user.id, tx);
+
         return [createdBooking, createdProposal] as const;
       });
 
-      // Notify organizer about new application
-      const appliedEvent = await storage.getEvent(eventId);
-      emitDomainEvent("booking.application_received", {
-        bookingId: booking.id,
-        entityType: "booking",
-        entityId: booking.id,
-        eventTitle: appliedEvent?.title || "Event",
-        artistName: artist?.name || user.displayName || "Artist",
-        actionUrl: `/bookings?bookingId=${booking.id}`,
-      }, user.id);
+      if (booking.flowDeadlineAt) {
+        await bookingService.scheduleFlowExpiry(booking.id, booking.flowDeadlineAt);
+      }
 
       const proposalResponse = {
         id: proposal.id,
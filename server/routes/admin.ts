@@ -5,10 +5,30 @@ import { appSettings, systemSettings, agentFeedback } from "@shared/schema";
 import { eq, desc } from "drizzle-orm";
 import { notificationService } from "../services/notification.service";
 import { emitDomainEvent } from "../services/event-bus";
+import { escrowService } from "../services/escrow.service";
+import { invoiceService } from "../services/invoice.service";
+import { disputeService } from "../services/dispute.service";
+import { notificationDeliveryService } from "../services/notification-delivery.service";
+import { jobScheduler } from "../services/job-scheduler.service";
+import { outboxRelay } from "../services/outbox-relay.service";
+import { reviewService } from "../services/review.service";
+import { bookingService } from "../services/booking.service";
+import { resolveDisputeSchema, moderateReviewSchema, adminContractUpdateSchema, roleSelectionSchema, rolePermissionsSchema, contractClauseSchema, contractTemplateSchema, adminCancelBookingSchema, cancellationFaultEnum, cancellationPolicySchema } from "@shared/routes";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 import { api } from "@shared/routes";
 import { encrypt, isEncryptionConfigured } from "../services/encryption.service";
+import { twoFactorService } from "../services/two-factor.service";
+import { userRoleService } from "../services/user-role.service";
+import { normalizeRole } from "../role-resolver";
+import { adminPermissionService } from "../services/admin-permission.service";
+import { ADMIN_PERMISSIONS, hasAdminAccess, isAdminPanelRole, type AdminPermission } from "../admin-permission-utils";
+import { contractTemplateService } from "../services/contract-template.service";
+import { TEMPLATE_PLACEHOLDERS } from "../contract-template-utils";
+import { signedContractChangeError } from "../contract-integrity-utils";
+import { contractAmendmentService } from "../services/contract-amendment.service";
+import { cancellationService } from "../services/cancellation.service";
+import { disconnectUser } from "../ws-server";
 
 const router = Router();
 
@@ -20,24 +40,66 @@ async function hashPassword(password: string): Promise<string> {
   return `${salt}.${buf.toString("hex")}`;
 }
 
-// Middleware to check if user is admin
-function isAdmin(req: any, res: any, next: any) {
+// GET /api/admin/me/permissions — the active role's admin permissions (empty
+// for non-admin roles). Sits in front of the admin gate so the panel can
+// decide what to show before 2FA has been passed.
+router.get("/me/permissions", async (req, res) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const role = (req.user as any).role;
+    res.json({ role, permissions: await adminPermissionService.permissionsFor(role) });
+  } catch (error) {
+    console.error("Error fetching admin permissions:", error);
+    res.status(500).json({ message: "Failed to fetch permissions" });
+  }
+});
+
+// Middleware to check if user is admin: the active role needs at least one
+// admin permission. Admins must have 2FA on and have passed it in this session.
+async function isAdmin(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) return res.sendStatus(401);
   const user = req.user as any;
-  if (user.role !== "admin" && user.role !== "platform_admin") {
-    return res.status(403).json({ message: "Admin access required" });
+  try {
+    const permissions = await adminPermissionService.permissionsFor(user.role);
+    if (!hasAdminAccess(permissions)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    res.locals.adminPermissions = permissions;
+    if (!(await twoFactorService.isEnabled(user.id))) {
+      return res.status(403).json({ message: "Set up two-factor authentication to use the admin panel", code: "TWO_FACTOR_SETUP_REQUIRED" });
+    }
+    if (!req.session.twoFactorVerifiedAt) {
+      return res.status(403).json({ message: "Enter your two-factor code to use the admin panel", code: "TWO_FACTOR_REQUIRED" });
+    }
+    next();
+  } catch (err) {
+    next(err);
   }
-  next();
 }
 
 // Apply admin middleware to all routes in this router
 router.use(isAdmin);
 
+// Each route names the permission it needs; isAdmin has loaded the role's set
+function requirePermission(permission: AdminPermission) {
+  return (_req: any, res: any, next: any) => {
+    if (!(res.locals.adminPermissions as AdminPermission[]).includes(permission)) {
+      return res.status(403).json({ message: "You do not have permission to do this", permission });
+    }
+    next();
+  };
+}
+
+// Handing out an admin panel role is as strong as editing role permissions
+function canGrantRole(res: any, role: string): boolean {
+  return !isAdminPanelRole(normalizeRole(role)) || (res.locals.adminPermissions as AdminPermission[]).includes("permissions.manage");
+}
+
 // ============================================================================
 // STATS
 // ============================================================================
 
-router.get("/stats", async (req, res) => {
+router.get("/stats", requirePermission("dashboard.view"), async (req, res) => {
   try {
     const stats = await storage.getPlatformStats();
     res.json(stats);
@@ -52,7 +114,7 @@ router.get("/stats", async (req, res) => {
 // ============================================================================
 
 // List all users
-router.get("/users", async (req, res) => {
+router.get("/users", requirePermission("users.view"), async (req, res) => {
   try {
     const users = await storage.getAllUsers();
     res.json(users);
@@ -63,7 +125,7 @@ router.get("/users", async (req, res) => {
 });
 
 // Create a new user with profile
-router.post("/users", async (req, res) => {
+router.post("/users", requirePermission("users.edit"), async (req, res) => {
   try {
     const { username, email, password, displayName, role, firstName, lastName, phone } = req.body;
 
@@ -75,6 +137,9 @@ router.post("/users", async (req, res) => {
     if (!validRoles.includes(role)) {
       return res.status(400).json({ message: "Invalid role" });
     }
+    if (!canGrantRole(res, role)) {
+      return res.status(403).json({ message: "Granting admin roles requires the permissions.manage permission" });
+    }
 
     const passwordHash = await hashPassword(password);
 
@@ -108,7 +173,7 @@ router.post("/users", async (req, res) => {
 });
 
 // Get a single user with their profile
-router.get("/users/:id", async (req, res) => {
+router.get("/users/:id", requirePermission("users.view"), async (req, res) => {
   try {
     const userId = parseInt(req.params.id);
     const user = await storage.getUserWithProfile(userId);
@@ -121,7 +186,7 @@ router.get("/users/:id", async (req, res) => {
 });
 
 // Update a user's fields
-router.patch("/users/:id", async (req, res) => {
+router.patch("/users/:id", requirePermission("users.edit"), async (req, res) => {
   try {
     const userId = parseInt(req.params.id);
     const updated = await storage.adminUpdateUser(userId, req.body);
@@ -142,7 +207,7 @@ router.patch("/users/:id", async (req, res) => {
 });
 
 // Update user status (Approve/Reject/Suspend)
-router.patch("/users/:id/status", async (req, res) => {
+router.patch("/users/:id/status", requirePermission("users.suspend"), async (req, res) => {
   try {
     const userId = parseInt(req.params.id);
     const { status } = req.body;
@@ -152,6 +217,7 @@ router.patch("/users/:id/status", async (req, res) => {
     }
 
     const updated = await storage.updateUserStatus(userId, status);
+    if (status === "suspended") disconnectUser(userId);
 
     await storage.createAuditLog({
       who: (req.user as any).id,
@@ -169,7 +235,7 @@ router.patch("/users/:id/status", async (req, res) => {
 });
 
 // Update user role
-router.patch("/users/:id/role", async (req, res) => {
+router.patch("/users/:id/role", requirePermission("users.roles"), async (req, res) => {
   try {
     const userId = parseInt(req.params.id);
     const { role } = req.body;
@@ -178,6 +244,9 @@ router.patch("/users/:id/role", async (req, res) => {
     if (!validRoles.includes(role)) {
       return res.status(400).json({ message: "Invalid role" });
     }
+    if (!canGrantRole(res, role)) {
+      return res.status(403).json({ message: "Granting admin roles requires the permissions.manage permission" });
+    }
 
     const updated = await storage.updateUserRole(userId, role);
 
@@ -196,11 +265,56 @@ router.patch("/users/:id/role", async (req, res) => {
   }
 });
 
+function roleErrorStatus(message: string): number {
+  if (message.endsWith("not found") || message === "Role not assigned") return 404;
+  if (message.includes("already") || message.startsWith("A user must keep")) return 409;
+  return 400;
+}
+
+// List a user's assigned roles (primary first)
+router.get("/users/:id/roles", requirePermission("users.view"), async (req, res) => {
+  try {
+    res.json(await userRoleService.rolesFor(parseInt(req.params.id)));
+  } catch (error: any) {
+    res.status(roleErrorStatus(error.message || "")).json({ message: error.message || "Failed to fetch user roles" });
+  }
+});
+
+// Grant an additional role; the user keeps their other roles
+router.post("/users/:id/roles", requirePermission("users.roles"), async (req, res) => {
+  const parsed = roleSelectionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  if (!canGrantRole(res, parsed.data.role)) {
+    return res.status(403).json({ message: "Granting admin roles requires the permissions.manage permission" });
+  }
+  try {
+    const summary = await userRoleService.assign(parseInt(req.params.id), parsed.data.role, (req.user as any).id);
+    res.status(201).json(summary);
+  } catch (error: any) {
+    res.status(roleErrorStatus(error.message || "")).json({ message: error.message || "Failed to add role" });
+  }
+});
+
+// Revoke one role; removing the primary role promotes the next one
+router.delete("/users/:id/roles/:role", requirePermission("users.roles"), async (req, res) => {
+  if (!canGrantRole(res, req.params.role)) {
+    return res.status(403).json({ message: "Revoking admin roles requires the permissions.manage permission" });
+  }
+  try {
+    res.json(await userRoleService.remove(parseInt(req.params.id), req.params.role, (req.user as any).id));
+  } catch (error: any) {
+    res.status(roleErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove role" });
+  }
+});
+
 // Soft-delete a user
-router.delete("/users/:id", async (req, res) => {
+router.delete("/users/:id", requirePermission("users.edit"), async (req, res) => {
   try {
     const userId = parseInt(req.params.id);
     const updated = await storage.updateUserStatus(userId, "deleted");
+    disconnectUser(userId);
 
     await storage.createAuditLog({
       who: (req.user as any).id,
@@ -222,7 +336,7 @@ router.delete("/users/:id", async (req, res) => {
 // ============================================================================
 
 // Get role summary with user counts
-router.get("/roles", async (req, res) => {
+router.get("/roles", requirePermission("users.view"), async (req, res) => {
   try {
     const roleSummary = await storage.getRoleSummary();
     res.json(roleSummary);
@@ -233,7 +347,7 @@ router.get("/roles", async (req, res) => {
 });
 
 // Get users by role
-router.get("/roles/:roleName/users", async (req, res) => {
+router.get("/roles/:roleName/users", requirePermission("users.view"), async (req, res) => {
   try {
     const { roleName } = req.params;
     const users = await storage.getUsersByRole(roleName);
@@ -244,11 +358,48 @@ router.get("/roles/:roleName/users", async (req, res) => {
   }
 });
 
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+function permissionErrorStatus(message: string): number {
+  if (message.includes("cannot be changed")) return 403;
+  return 400;
+}
+
+// GET /api/admin/permissions — the permission catalog and every admin panel role's grants
+router.get("/permissions", requirePermission("users.view"), async (req, res) => {
+  try {
+    res.json({ permissions: ADMIN_PERMISSIONS, roles: await adminPermissionService.listRoles() });
+  } catch (error) {
+    console.error("Error fetching role permissions:", error);
+    res.status(500).json({ message: "Failed to fetch role permissions" });
+  }
+});
+
+// PUT /api/admin/roles/:roleName/permissions — replace a role's permissions (audited)
+router.put("/roles/:roleName/permissions", requirePermission("permissions.manage"), async (req, res) => {
+  const parsed = rolePermissionsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const summary = await adminPermissionService.setRolePermissions(
+      req.params.roleName as string,
+      parsed.data.permissions,
+      (req.user as any).id,
+    );
+    res.json(summary);
+  } catch (error: any) {
+    res.status(permissionErrorStatus(error.message || "")).json({ message: error.message || "Failed to update role permissions" });
+  }
+});
+
 // ============================================================================
 // ARTISTS
 // ============================================================================
 
-router.get("/artists", async (req, res) => {
+router.get("/artists", requirePermission("profiles.view"), async (req, res) => {
   try {
     const artists = await storage.getAdminArtistList();
     res.json(artists);
@@ -258,7 +409,7 @@ router.get("/artists", async (req, res) => {
   }
 });
 
-router.get("/artists/:id", async (req, res) => {
+router.get("/artists/:id", requirePermission("profiles.view"), async (req, res) => {
   try {
     const artistId = parseInt(req.params.id);
     const artist = await storage.getArtist(artistId);
@@ -270,7 +421,7 @@ router.get("/artists/:id", async (req, res) => {
   }
 });
 
-router.patch("/artists/:id", async (req, res) => {
+router.patch("/artists/:id", requirePermission("profiles.edit"), async (req, res) => {
   try {
     const artistId = parseInt(req.params.id);
     const updated = await storage.updateArtist(artistId, req.body);
@@ -294,7 +445,7 @@ router.patch("/artists/:id", async (req, res) => {
 // ORGANIZERS
 // ============================================================================
 
-router.get("/organizers", async (req, res) => {
+router.get("/organizers", requirePermission("profiles.view"), async (req, res) => {
   try {
     const organizers = await storage.getAdminOrganizerList();
     res.json(organizers);
@@ -304,7 +455,7 @@ router.get("/organizers", async (req, res) => {
   }
 });
 
-router.get("/organizers/:id", async (req, res) => {
+router.get("/organizers/:id", requirePermission("profiles.view"), async (req, res) => {
   try {
     const organizerId = parseInt(req.params.id);
     const organizer = await storage.getOrganizer(organizerId);
@@ -316,7 +467,7 @@ router.get("/organizers/:id", async (req, res) => {
   }
 });
 
-router.patch("/organizers/:id", async (req, res) => {
+router.patch("/organizers/:id", requirePermission("profiles.edit"), async (req, res) => {
   try {
     const organizerId = parseInt(req.params.id);
     const updated = await storage.updateOrganizer(organizerId, req.body);
@@ -340,7 +491,7 @@ router.patch("/organizers/:id", async (req, res) => {
 // VENUES
 // ============================================================================
 
-router.get("/venues", async (req, res) => {
+router.get("/venues", requirePermission("profiles.view"), async (req, res) => {
   try {
     const venues = await storage.getAdminVenueList();
     res.json(venues);
@@ -350,7 +501,7 @@ router.get("/venues", async (req, res) => {
   }
 });
 
-router.get("/venues/:id", async (req, res) => {
+router.get("/venues/:id", requirePermission("profiles.view"), async (req, res) => {
   try {
     const venueId = parseInt(req.params.id);
     const venue = await storage.getAdminVenueDetail(venueId);
@@ -362,7 +513,7 @@ router.get("/venues/:id", async (req, res) => {
   }
 });
 
-router.patch("/venues/:id", async (req, res) => {
+router.patch("/venues/:id", requirePermission("profiles.edit"), async (req, res) => {
   try {
     const venueId = parseInt(req.params.id);
     const updated = await storage.updateVenue(venueId, req.body);
@@ -386,7 +537,7 @@ router.patch("/venues/:id", async (req, res) => {
 // EVENTS
 // ============================================================================
 
-router.get("/events", async (req, res) => {
+router.get("/events", requirePermission("events.view"), async (req, res) => {
   try {
     const status = req.query.status as string | undefined;
     const eventsList = await storage.getAllEvents(status ? { status } : undefined);
@@ -397,7 +548,7 @@ router.get("/events", async (req, res) => {
   }
 });
 
-router.get("/events/:id", async (req, res) => {
+router.get("/events/:id", requirePermission("events.view"), async (req, res) => {
   try {
     const eventId = parseInt(req.params.id);
     const event = await storage.getEvent(eventId);
@@ -409,7 +560,7 @@ router.get("/events/:id", async (req, res) => {
   }
 });
 
-router.patch("/events/:id", async (req, res) => {
+router.patch("/events/:id", requirePermission("events.manage"), async (req, res) => {
   try {
     const eventId = parseInt(req.params.id);
     const updated = await storage.adminUpdateEvent(eventId, req.body);
@@ -429,7 +580,7 @@ router.patch("/events/:id", async (req, res) => {
   }
 });
 
-router.delete("/events/:id", async (req, res) => {
+router.delete("/events/:id", requirePermission("events.manage"), async (req, res) => {
   try {
     const eventId = parseInt(req.params.id);
 
@@ -459,7 +610,7 @@ router.delete("/events/:id", async (req, res) => {
 // BOOKINGS
 // ============================================================================
 
-router.get("/bookings", async (req, res) => {
+router.get("/bookings", requirePermission("bookings.view"), async (req, res) => {
   try {
     const status = req.query.status as string | undefined;
     const bookingsList = await storage.getAllBookings(status ? { status } : undefined);
@@ -470,7 +621,7 @@ router.get("/bookings", async (req, res) => {
   }
 });
 
-router.get("/bookings/:id", async (req, res) => {
+router.get("/bookings/:id", requirePermission("bookings.view"), async (req, res) => {
   try {
     const bookingId = parseInt(req.params.id);
     const booking = await storage.getBookingWithDetails(bookingId);
@@ -482,7 +633,7 @@ router.get("/bookings/:id", async (req, res) => {
   }
 });
 
-router.patch("/bookings/:id/status", async (req, res) => {
+router.patch("/bookings/:id/status", requirePermission("bookings.manage"), async (req, res) => {
   try {
     const bookingId = parseInt(req.params.id);
     const { status, reason } = req.body;
@@ -506,6 +657,10 @@ router.patch("/bookings/:id/status", async (req, res) => {
       reason,
       (req.user as any).id
     );
+    if (status === "completed") {
+      // Queue the artist payout and open reviews, as when both parties confirm
+      await bookingService.onCompleted(bookingId);
+    }
 
     res.json(updated);
   } catch (error) {
@@ -514,12 +669,121 @@ router.patch("/bookings/:id/status", async (req, res) => {
   }
 });
 
+function cancellationErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Booking is already cancelled") || message.startsWith("Booking cannot be cancelled")) return 409;
+  if (message.startsWith("The event has already started")) return 409;
+  return 400;
+}
+
+// GET /api/admin/bookings/:id/cancellation-quote?fault=organizer — what cancelling now would cost, charged to `fault`
+router.get("/bookings/:id/cancellation-quote", requirePermission("bookings.view"), async (req, res) => {
+  const bookingId = parseInt(req.params.id as string);
+  const fault = cancellationFaultEnum.safeParse(req.query.fault ?? "force_majeure");
+  if (isNaN(bookingId) || !fault.success) {
+    return res.status(400).json({ message: "Invalid booking ID or fault" });
+  }
+  try {
+    res.json(await cancellationService.quote(bookingId, fault.data));
+  } catch (error: any) {
+    res.status(cancellationErrorStatus(error.message || "")).json({ message: error.message || "Failed to quote cancellation" });
+  }
+});
+
+// POST /api/admin/bookings/:id/cancel — cancel on a party's behalf or for force majeure, settling through escrow
+router.post("/bookings/:id/cancel", requirePermission("bookings.manage"), async (req, res) => {
+  const bookingId = parseInt(req.params.id as string);
+  if (isNaN(bookingId)) return res.status(400).json({ message: "Invalid booking ID" });
+  const parsed = adminCancelBookingSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const cancellation = await cancellationService.cancel(bookingId, (req.user as any).id, {
+      ...parsed.data,
+      cancelledByRole: "admin",
+    });
+    res.status(201).json(cancellation);
+  } catch (error: any) {
+    console.error("Error cancelling booking:", error);
+    res.status(cancellationErrorStatus(error.message || "")).json({ message: error.message || "Failed to cancel booking" });
+  }
+});
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+// Investigation queue: open and escalated disputes first, newest first
+router.get("/disputes", requirePermission("disputes.view"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const result = await disputeService.listDisputes(status);
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    res.status(500).json({ message: "Failed to fetch disputes" });
+  }
+});
+
+router.get("/disputes/:id", requirePermission("disputes.view"), async (req, res) => {
+  try {
+    const dispute = await disputeService.getDisputeWithDetails(parseInt(req.params.id));
+    if (!dispute) return res.status(404).json({ message: "Dispute not found" });
+    res.json(dispute);
+  } catch (error) {
+    console.error("Error fetching dispute:", error);
+    res.status(500).json({ message: "Failed to fetch dispute" });
+  }
+});
+
+router.post("/disputes/:id/investigate", requirePermission("disputes.resolve"), async (req, res) => {
+  try {
+    const updated = await disputeService.startInvestigation(parseInt(req.params.id), (req.user as any).id);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error starting dispute investigation:", error);
+    res.status(400).json({ message: error.message || "Failed to update dispute" });
+  }
+});
+
+router.post("/disputes/:id/escalate", requirePermission("disputes.resolve"), async (req, res) => {
+  try {
+    const { note } = req.body;
+    if (!note) {
+      return res.status(400).json({ message: "A note is required to escalate" });
+    }
+    const updated = await disputeService.escalate(parseInt(req.params.id), (req.user as any).id, note);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error escalating dispute:", error);
+    res.status(400).json({ message: error.message || "Failed to escalate dispute" });
+  }
+});
+
+router.post("/disputes/:id/resolve", requirePermission("disputes.resolve"), async (req, res) => {
+  try {
+    const parsed = resolveDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const updated = await disputeService.resolve(parseInt(req.params.id), (req.user as any).id, parsed.data);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error resolving dispute:", error);
+    if (error.message === "Dispute is already being resolved") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(400).json({ message: error.message || "Failed to resolve dispute" });
+  }
+});
+
 // ============================================================================
 // CONTRACTS
 // ============================================================================
 
 // This route must be defined before /contracts/:id to avoid :id catching "pending"
-router.get("/contracts/pending", async (req, res) => {
+router.get("/contracts/pending", requirePermission("contracts.view"), async (req, res) => {
   try {
     const contracts = await storage.getContractsForAdminReview();
     res.json(contracts);
@@ -529,7 +793,7 @@ router.get("/contracts/pending", async (req, res) => {
   }
 });
 
-router.get("/contracts", async (req, res) => {
+router.get("/contracts", requirePermission("contracts.view"), async (req, res) => {
   try {
     const status = req.query.status as string | undefined;
     const contractsList = await storage.getAllContracts(status ? { status } : undefined);
@@ -540,7 +804,7 @@ router.get("/contracts", async (req, res) => {
   }
 });
 
-router.get("/contracts/:id", async (req, res) => {
+router.get("/contracts/:id", requirePermission("contracts.view"), async (req, res) => {
   try {
     const contractId = parseInt(req.params.id);
     const contract = await storage.getContractWithDetails(contractId);
@@ -552,17 +816,31 @@ router.get("/contracts/:id", async (req, res) => {
   }
 });
 
-router.patch("/contracts/:id", async (req, res) => {
+router.patch("/contracts/:id", requirePermission("contracts.review"), async (req, res) => {
   try {
     const contractId = parseInt(req.params.id);
-    const updated = await storage.adminUpdateContract(contractId, req.body);
+    const contract = await storage.getContract(contractId);
+    if (!contract) return res.status(404).json({ message: "Contract not found" });
+
+    // The update is built from the allowed columns only; unknown keys are rejected
+    const parsed = adminContractUpdateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const fields = Object.keys(parsed.data);
+
+    // Signed text and terms are covered by the signatures' document hashes
+    const lockedError = signedContractChangeError(contract, fields);
+    if (lockedError) return res.status(409).json({ message: lockedError });
+
+    const updated = await storage.adminUpdateContract(contractId, parsed.data);
 
     await storage.createAuditLog({
       who: (req.user as any).id,
       action: "admin_contract_updated",
       entityType: "contract",
       entityId: contractId,
-      context: { fields: Object.keys(req.body) },
+      context: { fields },
     });
 
     res.json(updated);
@@ -573,7 +851,7 @@ router.patch("/contracts/:id", async (req, res) => {
 });
 
 // Review contract (approve/reject)
-router.post("/contracts/:id/review", async (req, res) => {
+router.post("/contracts/:id/review", requirePermission("contracts.review"), async (req, res) => {
   try {
     const contractId = parseInt(req.params.id);
     const { status, note } = req.body;
@@ -582,12 +860,24 @@ router.post("/contracts/:id/review", async (req, res) => {
       return res.status(400).json({ message: "Invalid status" });
     }
 
+    const contract = await storage.getContract(contractId);
+    if (!contract) {
+      return res.status(404).json({ message: "Contract not found" });
+    }
+    if (contract.status !== "admin_review") {
+      return res.status(409).json({ message: "Contract is not awaiting admin review" });
+    }
+
+    // Conditional on admin_review, so a second reviewer racing this one gets the 409 too
     const updated = await storage.reviewContract(
       contractId,
       (req.user as any).id,
       status,
       note
     );
+    if (!updated) {
+      return res.status(409).json({ message: "Contract is not awaiting admin review" });
+    }
 
     await storage.createAuditLog({
       who: (req.user as any).id,
@@ -599,7 +889,10 @@ router.post("/contracts/:id/review", async (req, res) => {
 
     // Notify both parties about admin review result
     if (status === "approved") {
-      emitDomainEvent("contract.admin_approved", {
+      await escrowService.onContractSigned(contractId);
+      await invoiceService.generateForContract(contractId);
+
+      await emitDomainEvent("contract.admin_approved", {
         bookingId: updated.bookingId,
         contractId,
         entityType: "contract",
@@ -616,11 +909,246 @@ router.post("/contracts/:id/review", async (req, res) => {
   }
 });
 
+// GET /api/admin/contract-amendments/pending — signed fee amendments waiting for review
+router.get("/contract-amendments/pending", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    res.json(await contractAmendmentService.pendingAdminReview());
+  } catch (error) {
+    console.error("Error fetching pending amendments:", error);
+    res.status(500).json({ message: "Failed to fetch amendments" });
+  }
+});
+
+// POST /api/admin/contract-amendments/:id/review — approving applies the amendment
+router.post("/contract-amendments/:id/review", requirePermission("contracts.review"), async (req, res) => {
+  const amendmentId = parseInt(req.params.id as string);
+  const { status, note } = req.body ?? {};
+  if (isNaN(amendmentId)) return res.status(400).json({ message: "Invalid amendment ID" });
+  if (!["approved", "rejected"].includes(status)) {
+    return res.status(400).json({ message: "Invalid status" });
+  }
+  try {
+    // The service audits the outcome: the applied amendment or the rejection
+    const amendment = await contractAmendmentService.adminReview(amendmentId, (req.user as any).id, status, note ?? null);
+    res.json(amendment);
+  } catch (error: any) {
+    const message = error.message || "Failed to review amendment";
+    const code = message.includes("not found") ? 404 : message.includes("not awaiting") || message.includes("no longer open") ? 409 : 400;
+    res.status(code).json({ message });
+  }
+});
+
+// ============================================================================
+// CONTRACT TEMPLATES & CLAUSE LIBRARY
+// ============================================================================
+
+function templateErrorStatus(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (message.includes("before templates") || message.includes("no recorded")) return 409;
+  return 400;
+}
+
+// GET /api/admin/contract-clauses — newest version of each clause, the library revision and the placeholders
+router.get("/contract-clauses", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    const library = await contractTemplateService.library();
+    res.json({ ...library, placeholders: TEMPLATE_PLACEHOLDERS });
+  } catch (error) {
+    console.error("Error fetching clause library:", error);
+    res.status(500).json({ message: "Failed to fetch clause library" });
+  }
+});
+
+router.get("/contract-clauses/:key/history", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    res.json(await contractTemplateService.clauseHistory(req.params.key as string));
+  } catch (error) {
+    console.error("Error fetching clause history:", error);
+    res.status(500).json({ message: "Failed to fetch clause history" });
+  }
+});
+
+// PUT /api/admin/contract-clauses/:key — save the clause as the next library revision (audited)
+router.put("/contract-clauses/:key", requirePermission("contracts.templates"), async (req, res) => {
+  const parsed = contractClauseSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const clause = await contractTemplateService.saveClause(req.params.key as string, parsed.data, (req.user as any).id);
+    res.json(clause);
+  } catch (error: any) {
+    res.status(templateErrorStatus(error.message || "")).json({ message: error.message || "Failed to save clause" });
+  }
+});
+
+// GET /api/admin/contract-templates — newest version of each template
+router.get("/contract-templates", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    res.json(await contractTemplateService.listTemplates());
+  } catch (error) {
+    console.error("Error fetching contract templates:", error);
+    res.status(500).json({ message: "Failed to fetch contract templates" });
+  }
+});
+
+router.get("/contract-templates/:key/history", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    res.json(await contractTemplateService.templateHistory(req.params.key as string));
+  } catch (error) {
+    console.error("Error fetching template history:", error);
+    res.status(500).json({ message: "Failed to fetch template history" });
+  }
+});
+
+// PUT /api/admin/contract-templates/:key — save the next version of a template, creating it if new (audited)
+router.put("/contract-templates/:key", requirePermission("contracts.templates"), async (req, res) => {
+  const parsed = contractTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const template = await contractTemplateService.saveTemplate(req.params.key as string, parsed.data, (req.user as any).id);
+    res.json(template);
+  } catch (error: any) {
+    res.status(templateErrorStatus(error.message || "")).json({ message: error.message || "Failed to save template" });
+  }
+});
+
+// GET /api/admin/cancellation-policies — every policy version, newest first
+router.get("/cancellation-policies", requirePermission("contracts.view"), async (req, res) => {
+  try {
+    res.json(await cancellationService.listPolicies());
+  } catch (error) {
+    console.error("Error fetching cancellation policies:", error);
+    res.status(500).json({ message: "Failed to fetch cancellation policies" });
+  }
+});
+
+// POST /api/admin/cancellation-policies — save the next policy version; new contracts are generated with it (audited)
+router.post("/cancellation-policies", requirePermission("contracts.templates"), async (req, res) => {
+  const parsed = cancellationPolicySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    res.status(201).json(await cancellationService.savePolicy(parsed.data, (req.user as any).id));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message || "Failed to save cancellation policy" });
+  }
+});
+
+// GET /api/admin/contracts/:id/rerender?version=N — render a stored version again from its template and clause revision
+router.get("/contracts/:id/rerender", requirePermission("contracts.view"), async (req, res) => {
+  const contractId = parseInt(req.params.id as string);
+  const version = req.query.version ? parseInt(req.query.version as string) : undefined;
+  if (isNaN(contractId) || (version !== undefined && isNaN(version))) {
+    return res.status(400).json({ message: "Invalid ID" });
+  }
+  try {
+    res.json(await contractTemplateService.rerender(contractId, version));
+  } catch (error: any) {
+    res.status(templateErrorStatus(error.message || "")).json({ message: error.message || "Failed to render contract" });
+  }
+});
+
+// ============================================================================
+// PAYMENTS, PAYOUTS & INVOICES
+// ============================================================================
+
+router.get("/payouts", requirePermission("finance.view"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const result = await escrowService.listPayouts(status);
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching payouts:", error);
+    res.status(500).json({ message: "Failed to fetch payouts" });
+  }
+});
+
+router.post("/payouts/:id/process", requirePermission("finance.manage"), async (req, res) => {
+  try {
+    const payoutId = parseInt(req.params.id);
+    const updated = await escrowService.processPayout(payoutId, (req.user as any).id);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error processing payout:", error);
+    res.status(400).json({ message: error.message || "Failed to process payout" });
+  }
+});
+
+router.post("/payouts/:id/hold", requirePermission("finance.manage"), async (req, res) => {
+  try {
+    const payoutId = parseInt(req.params.id);
+    const { hold, reason } = req.body;
+    const updated = await escrowService.setPayoutHold(payoutId, hold !== false, reason || null, (req.user as any).id);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error updating payout hold:", error);
+    res.status(400).json({ message: error.message || "Failed to update payout hold" });
+  }
+});
+
+router.post("/payments/:id/refund", requirePermission("finance.manage"), async (req, res) => {
+  try {
+    const paymentId = parseInt(req.params.id);
+    const { amount, reason } = req.body;
+    if (!reason) {
+      return res.status(400).json({ message: "A reason is required for refunds" });
+    }
+    const updated = await escrowService.refundPayment(
+      paymentId,
+      amount != null ? Number(amount) : null,
+      reason,
+      (req.user as any).id
+    );
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error refunding payment:", error);
+    if (error.message === "Payment is already being refunded") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(400).json({ message: error.message || "Failed to refund payment" });
+  }
+});
+
+router.get("/invoices", requirePermission("finance.view"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const result = await invoiceService.listInvoices({ status });
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching invoices:", error);
+    res.status(500).json({ message: "Failed to fetch invoices" });
+  }
+});
+
+router.patch("/invoices/:id/status", requirePermission("finance.manage"), async (req, res) => {
+  try {
+    const invoiceId = parseInt(req.params.id);
+    const { status, reason } = req.body;
+
+    if (!["cancelled", "refunded"].includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    if (!reason) {
+      return res.status(400).json({ message: "A reason is required for invoice status changes" });
+    }
+
+    const updated = await invoiceService.updateStatus(invoiceId, status, reason, (req.user as any).id);
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error updating invoice status:", error);
+    res.status(500).json({ message: "Failed to update invoice status" });
+  }
+});
+
 // ============================================================================
 // CONVERSATIONS
 // ============================================================================
 
-router.get("/conversations", async (req, res) => {
+router.get("/conversations", requirePermission("conversations.view"), async (req, res) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
     const convos = await storage.getAllConversations(limit);
@@ -631,7 +1159,7 @@ router.get("/conversations", async (req, res) => {
   }
 });
 
-router.get("/conversations/:id/messages", async (req, res) => {
+router.get("/conversations/:id/messages", requirePermission("conversations.view"), async (req, res) => {
   try {
     const conversationId = parseInt(req.params.id);
     const msgs = await storage.getConversationMessages(conversationId);
@@ -646,7 +1174,7 @@ router.get("/conversations/:id/messages", async (req, res) => {
 // SETTINGS
 // ============================================================================
 
-router.get("/settings", async (req, res) => {
+router.get("/settings", requirePermission("settings.manage"), async (req, res) => {
   try {
     const settings = await db.select().from(appSettings);
     res.json(settings);
@@ -656,7 +1184,7 @@ router.get("/settings", async (req, res) => {
   }
 });
 
-router.post("/settings", async (req, res) => {
+router.post("/settings", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { key, value } = req.body;
     if (!key) return res.status(400).json({ message: "Key is required" });
@@ -687,7 +1215,7 @@ router.post("/settings", async (req, res) => {
   }
 });
 
-router.get("/settings/system", async (req, res) => {
+router.get("/settings/system", requirePermission("settings.manage"), async (req, res) => {
   try {
     const settings = await db.select().from(systemSettings);
     res.json(settings);
@@ -697,7 +1225,7 @@ router.get("/settings/system", async (req, res) => {
   }
 });
 
-router.post("/settings/system", async (req, res) => {
+router.post("/settings/system", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { key, value, description } = req.body;
     if (!key) return res.status(400).json({ message: "Key is required" });
@@ -735,7 +1263,7 @@ router.post("/settings/system", async (req, res) => {
 // AUDIT LOGS
 // ============================================================================
 
-router.get("/audit", async (req, res) => {
+router.get("/audit", requirePermission("audit.view"), async (req, res) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
     const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
@@ -754,7 +1282,7 @@ router.get("/audit", async (req, res) => {
 // ============================================================================
 
 // GET /api/admin/notification-types — list all notification types
-router.get("/notification-types", async (req, res) => {
+router.get("/notification-types", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const types = await storage.getNotificationTypes();
     res.json(types);
@@ -765,7 +1293,7 @@ router.get("/notification-types", async (req, res) => {
 });
 
 // POST /api/admin/notification-types — create new notification type
-router.post("/notification-types", async (req, res) => {
+router.post("/notification-types", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const { key, category, label, description, titleTemplate, bodyTemplate, targetRoles, channels, enabled, priority } = req.body;
     if (!key || !category || !label || !titleTemplate || !bodyTemplate || !targetRoles) {
@@ -792,7 +1320,7 @@ router.post("/notification-types", async (req, res) => {
 });
 
 // PUT /api/admin/notification-types/:id — update notification type
-router.put("/notification-types/:id", async (req, res) => {
+router.put("/notification-types/:id", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
@@ -813,7 +1341,7 @@ router.put("/notification-types/:id", async (req, res) => {
 });
 
 // DELETE /api/admin/notification-types/:id — disable notification type
-router.delete("/notification-types/:id", async (req, res) => {
+router.delete("/notification-types/:id", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
@@ -827,7 +1355,7 @@ router.delete("/notification-types/:id", async (req, res) => {
 });
 
 // GET /api/admin/notification-channels — list all channels
-router.get("/notification-channels", async (req, res) => {
+router.get("/notification-channels", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const channels = await storage.getNotificationChannels();
     res.json(channels);
@@ -838,7 +1366,7 @@ router.get("/notification-channels", async (req, res) => {
 });
 
 // PUT /api/admin/notification-channels/:id — update channel config
-router.put("/notification-channels/:id", async (req, res) => {
+router.put("/notification-channels/:id", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
@@ -859,12 +1387,12 @@ router.put("/notification-channels/:id", async (req, res) => {
 });
 
 // POST /api/admin/notifications/test — send a test notification
-router.post("/notifications/test", async (req, res) => {
+router.post("/notifications/test", requirePermission("notifications.manage"), async (req, res) => {
   try {
     const { userId, title, body } = req.body;
     if (!userId || !title) return res.status(400).json({ message: "userId and title are required" });
 
-    emitDomainEvent("system.announcement", {
+    await emitDomainEvent("system.announcement", {
       entityType: "system",
       entityId: 0,
       targetUserId: userId,
@@ -879,12 +1407,261 @@ router.post("/notifications/test", async (req, res) => {
   }
 });
 
+const DELIVERY_STATUSES = ["pending", "sending", "delivered", "failed"] as const;
+
+// GET /api/admin/notification-deliveries?status= — outbound email queue
+router.get("/notification-deliveries", requirePermission("notifications.manage"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(DELIVERY_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    const deliveries = await notificationDeliveryService.list({
+      status: status as (typeof DELIVERY_STATUSES)[number] | undefined,
+      limit: Math.min(Number(req.query.limit) || 50, 200),
+    });
+    res.json(deliveries);
+  } catch (error) {
+    console.error("Error fetching notification deliveries:", error);
+    res.status(500).json({ message: "Failed to fetch notification deliveries" });
+  }
+});
+
+// POST /api/admin/notification-deliveries/:id/retry — requeue a failed delivery
+router.post("/notification-deliveries/:id/retry", requirePermission("notifications.manage"), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const delivery = await notificationDeliveryService.retry(id);
+    await storage.createAuditLog({
+      who: (req.user as any).id,
+      action: "notification_delivery_retried",
+      entityType: "notification_delivery",
+      entityId: id,
+      context: { notificationId: delivery.notificationId },
+    });
+    notificationDeliveryService.processDue().catch((err) => {
+      console.error("Error processing notification deliveries:", err);
+    });
+    res.json(delivery);
+  } catch (error: any) {
+    if (error.message === "Delivery not found") return res.status(404).json({ message: error.message });
+    if (error.message === "Only failed deliveries can be retried") return res.status(409).json({ message: error.message });
+    console.error("Error retrying notification delivery:", error);
+    res.status(500).json({ message: "Failed to retry notification delivery" });
+  }
+});
+
+// ============================================================================
+// REVIEWS — Moderation
+// ============================================================================
+
+const REVIEW_STATUSES = ["submitted", "published", "hidden"] as const;
+
+// GET /api/admin/reviews?status= — all reviews, sealed ones included, newest first
+router.get("/reviews", requirePermission("reviews.moderate"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(REVIEW_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    const result = await reviewService.listForModeration(status as (typeof REVIEW_STATUSES)[number] | undefined);
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+});
+
+// PATCH /api/admin/reviews/:id — hide a review (drops it from the rating) or restore it
+router.patch("/reviews/:id", requirePermission("reviews.moderate"), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const parsed = moderateReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const review = await reviewService.moderate(id, (req.user as any).id, parsed.data);
+    res.json(review);
+  } catch (error: any) {
+    if (error.message === "Review not found") return res.status(404).json({ message: error.message });
+    if (error.message === "Review is already hidden" || error.message === "Review is not hidden") {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error moderating review:", error);
+    res.status(500).json({ message: "Failed to moderate review" });
+  }
+});
+
+// ============================================================================
+// BACKGROUND JOBS
+// ============================================================================
+
+const JOB_KINDS = ["recurring", "once"] as const;
+const JOB_STATUSES = ["scheduled", "running", "completed", "failed", "cancelled"] as const;
+
+// GET /api/admin/jobs?kind=&status= — scheduled jobs with their next run and last result
+router.get("/jobs", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const kind = req.query.kind as string | undefined;
+    const status = req.query.status as string | undefined;
+    if (kind && !(JOB_KINDS as readonly string[]).includes(kind)) {
+      return res.status(400).json({ message: "Invalid kind" });
+    }
+    if (status && !(JOB_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    const jobs = await jobScheduler.list({
+      kind: kind as (typeof JOB_KINDS)[number] | undefined,
+      status: status as (typeof JOB_STATUSES)[number] | undefined,
+      limit: Math.min(Number(req.query.limit) || 100, 500),
+    });
+    res.json(jobs);
+  } catch (error) {
+    console.error("Error fetching jobs:", error);
+    res.status(500).json({ message: "Failed to fetch jobs" });
+  }
+});
+
+// GET /api/admin/jobs/runs?jobId= — run history, newest first
+router.get("/jobs/runs", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const jobId = req.query.jobId ? Number(req.query.jobId) : undefined;
+    if (jobId !== undefined && isNaN(jobId)) return res.status(400).json({ message: "Invalid job ID" });
+    const runs = await jobScheduler.listRuns({
+      jobId,
+      limit: Math.min(Number(req.query.limit) || 50, 200),
+    });
+    res.json(runs);
+  } catch (error) {
+    console.error("Error fetching job runs:", error);
+    res.status(500).json({ message: "Failed to fetch job runs" });
+  }
+});
+
+// POST /api/admin/jobs/:id/run — run a job now and return the recorded run
+router.post("/jobs/:id/run", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const userId = (req.user as any).id;
+    const run = await jobScheduler.trigger(id, userId);
+    await storage.createAuditLog({
+      who: userId,
+      action: "job_triggered",
+      entityType: "scheduled_job",
+      entityId: id,
+      context: { jobName: run.jobName, runId: run.id, status: run.status },
+    });
+    res.json(run);
+  } catch (error: any) {
+    if (error.message === "Job not found") return res.status(404).json({ message: error.message });
+    if (error.message === "Job is already running") return res.status(409).json({ message: error.message });
+    console.error("Error triggering job:", error);
+    res.status(500).json({ message: "Failed to run job" });
+  }
+});
+
+// PATCH /api/admin/jobs/:id — pause or resume a job
+router.patch("/jobs/:id", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    if (typeof req.body?.enabled !== "boolean") {
+      return res.status(400).json({ message: "enabled must be a boolean" });
+    }
+    const job = await jobScheduler.setEnabled(id, req.body.enabled);
+    await storage.createAuditLog({
+      who: (req.user as any).id,
+      action: job.enabled ? "job_resumed" : "job_paused",
+      entityType: "scheduled_job",
+      entityId: id,
+      context: { key: job.key },
+    });
+    res.json(job);
+  } catch (error: any) {
+    if (error.message === "Job not found") return res.status(404).json({ message: error.message });
+    console.error("Error updating job:", error);
+    res.status(500).json({ message: "Failed to update job" });
+  }
+});
+
+// ============================================================================
+// DOMAIN EVENTS (OUTBOX)
+// ============================================================================
+
+const DOMAIN_EVENT_STATUSES = ["pending", "dispatched", "failed"] as const;
+
+// GET /api/admin/domain-events?status=&type= — outbox events, newest first
+router.get("/domain-events", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(DOMAIN_EVENT_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    const events = await outboxRelay.list({
+      status: status as (typeof DOMAIN_EVENT_STATUSES)[number] | undefined,
+      type: (req.query.type as string) || undefined,
+      limit: Math.min(Number(req.query.limit) || 50, 200),
+    });
+    res.json({ events, consumers: outboxRelay.consumerNames() });
+  } catch (error) {
+    console.error("Error fetching domain events:", error);
+    res.status(500).json({ message: "Failed to fetch domain events" });
+  }
+});
+
+// POST /api/admin/domain-events/:id/replay — send one event through its consumers again
+router.post("/domain-events/:id/replay", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const consumer = typeof req.body?.consumer === "string" ? req.body.consumer : undefined;
+    const event = await outboxRelay.replay(id, consumer);
+    await storage.createAuditLog({
+      who: (req.user as any).id,
+      action: "domain_event_replayed",
+      entityType: "domain_event",
+      entityId: id,
+      context: { type: event.type, consumer: consumer ?? "all" },
+    });
+    res.json(event);
+  } catch (error: any) {
+    if (error.message === "Event not found") return res.status(404).json({ message: error.message });
+    if (error.message?.startsWith("Unknown consumer")) return res.status(400).json({ message: error.message });
+    console.error("Error replaying domain event:", error);
+    res.status(500).json({ message: "Failed to replay domain event" });
+  }
+});
+
+// POST /api/admin/domain-events/replay-failed — requeue every failed event (optionally by type / since)
+router.post("/domain-events/replay-failed", requirePermission("jobs.manage"), async (req, res) => {
+  try {
+    const type = typeof req.body?.type === "string" && req.body.type ? req.body.type : undefined;
+    const since = req.body?.since ? new Date(req.body.since) : undefined;
+    if (since && isNaN(since.getTime())) return res.status(400).json({ message: "Invalid since date" });
+    const replayed = await outboxRelay.replayFailed({ type, since });
+    await storage.createAuditLog({
+      who: (req.user as any).id,
+      action: "domain_events_replayed",
+      entityType: "domain_event",
+      entityId: null,
+      context: { type: type ?? null, since: since?.toISOString() ?? null, replayed },
+    });
+    res.json({ replayed });
+  } catch (error) {
+    console.error("Error replaying failed domain events:", error);
+    res.status(500).json({ message: "Failed to replay domain events" });
+  }
+});
+
 // ============================================================================
 // AI AGENTS — Admin Management
 // ============================================================================
 
 // GET /agents/configs — list all agent configurations
-router.get("/agents/configs", async (req, res) => {
+router.get("/agents/configs", requirePermission("agents.view"), async (req, res) => {
   try {
     const configs = await storage.listAgentConfigs();
     res.json(configs);
@@ -895,7 +1672,7 @@ router.get("/agents/configs", async (req, res) => {
 });
 
 // PUT /agents/configs/:agentType — update agent configuration
-router.put("/agents/configs/:agentType", async (req, res) => {
+router.put("/agents/configs/:agentType", requirePermission("agents.configure"), async (req, res) => {
   try {
     const { agentType } = req.params;
     const parsed = api.agents.admin.configs.update.input.safeParse(req.body);
@@ -926,7 +1703,7 @@ router.put("/agents/configs/:agentType", async (req, res) => {
 });
 
 // GET /agents/rate-limits — list rate limits
-router.get("/agents/rate-limits", async (req, res) => {
+router.get("/agents/rate-limits", requirePermission("agents.view"), async (req, res) => {
   try {
     const limits = await storage.listAgentRateLimits();
     res.json(limits);
@@ -937,7 +1714,7 @@ router.get("/agents/rate-limits", async (req, res) => {
 });
 
 // POST /agents/rate-limits — create/update rate limit
-router.post("/agents/rate-limits", async (req, res) => {
+router.post("/agents/rate-limits", requirePermission("agents.configure"), async (req, res) => {
   try {
     const parsed = api.agents.admin.rateLimits.upsert.input.safeParse(req.body);
     if (!parsed.success) {
@@ -952,7 +1729,7 @@ router.post("/agents/rate-limits", async (req, res) => {
 });
 
 // DELETE /agents/rate-limits/:id — delete rate limit
-router.delete("/agents/rate-limits/:id", async (req, res) => {
+router.delete("/agents/rate-limits/:id", requirePermission("agents.configure"), async (req, res) => {
   try {
     await storage.deleteAgentRateLimit(Number(req.params.id));
     res.json({ success: true });
@@ -963,7 +1740,7 @@ router.delete("/agents/rate-limits/:id", async (req, res) => {
 });
 
 // GET /agents/usage — usage stats
-router.get("/agents/usage", async (req, res) => {
+router.get("/agents/usage", requirePermission("agents.view"), async (req, res) => {
   try {
     const stats = await storage.getAgentUsageStats({});
     res.json(stats);
@@ -974,7 +1751,7 @@ router.get("/agents/usage", async (req, res) => {
 });
 
 // GET /agents/sessions — all agent sessions (admin view)
-router.get("/agents/sessions", async (req, res) => {
+router.get("/agents/sessions", requirePermission("agents.view"), async (req, res) => {
   try {
     const sessions = await storage.listAgentSessions({});
     res.json(sessions);
@@ -985,7 +1762,7 @@ router.get("/agents/sessions", async (req, res) => {
 });
 
 // GET /agents/feedback — all feedback
-router.get("/agents/feedback", async (req, res) => {
+router.get("/agents/feedback", requirePermission("agents.view"), async (req, res) => {
   try {
     const feedback = await db
       .select()
@@ -1000,7 +1777,7 @@ router.get("/agents/feedback", async (req, res) => {
 });
 
 // GET /agents/prompts — list prompt versions
-router.get("/agents/prompts", async (req, res) => {
+router.get("/agents/prompts", requirePermission("agents.view"), async (req, res) => {
   try {
     const [ewPrompts, negPrompts] = await Promise.all([
       storage.listPromptVersions("event_wizard"),
@@ -1014,7 +1791,7 @@ router.get("/agents/prompts", async (req, res) => {
 });
 
 // POST /agents/prompts — create prompt version
-router.post("/agents/prompts", async (req, res) => {
+router.post("/agents/prompts", requirePermission("agents.configure"), async (req, res) => {
   try {
     const parsed = api.agents.admin.prompts.create.input.safeParse(req.body);
     if (!parsed.success) {
@@ -1029,7 +1806,7 @@ router.post("/agents/prompts", async (req, res) => {
 });
 
 // PUT /agents/prompts/:id/activate — set active prompt version
-router.put("/agents/prompts/:id/activate", async (req, res) => {
+router.put("/agents/prompts/:id/activate", requirePermission("agents.configure"), async (req, res) => {
   try {
     const id = Number(req.params.id);
     const prompt = await storage.activatePromptVersion(id);
@@ -1044,7 +1821,7 @@ router.put("/agents/prompts/:id/activate", async (req, res) => {
 // RESEARCH CONFIGURATION
 // ============================================================================
 
-router.get("/agents/research/config", async (req, res) => {
+router.get("/agents/research/config", requirePermission("agents.view"), async (req, res) => {
   try {
     const configs = await storage.listAgentConfigs();
     const negotiationConfig = configs.find((c: any) => c.agentType === "negotiation");
@@ -1061,7 +1838,7 @@ router.get("/agents/research/config", async (req, res) => {
   }
 });
 
-router.put("/agents/research/config", async (req, res) => {
+router.put("/agents/research/config", requirePermission("agents.configure"), async (req, res) => {
   try {
     const { researchConfig } = req.body;
     if (!researchConfig) return res.status(400).json({ message: "researchConfig is required" });
@@ -1077,7 +1854,7 @@ router.put("/agents/research/config", async (req, res) => {
   }
 });
 
-router.post("/agents/research/cache/clear", async (req, res) => {
+router.post("/agents/research/cache/clear", requirePermission("agents.configure"), async (req, res) => {
   try {
     // Import and use Drizzle directly for bulk delete
     const { db } = await import("../db");
@@ -1093,7 +1870,7 @@ router.post("/agents/research/cache/clear", async (req, res) => {
 // NEGOTIATION ANALYTICS
 // ============================================================================
 
-router.get("/negotiation/analytics", async (req, res) => {
+router.get("/negotiation/analytics", requirePermission("agents.view"), async (req, res) => {
   try {
     const outcomes = await storage.getNegotiationOutcomes({});
 
@@ -1152,7 +1929,7 @@ router.get("/negotiation/analytics", async (req, res) => {
   }
 });
 
-router.get("/negotiation/outcomes", async (req, res) => {
+router.get("/negotiation/outcomes", requirePermission("agents.view"), async (req, res) => {
   try {
     const { outcome, artistId, startDate, endDate, limit } = req.query;
     const outcomes = await storage.getNegotiationOutcomes({
@@ -6,43 +6,26 @@
 
 import { Router } from "express";
 import { storage } from "../storage";
+import { organizationService } from "../services/organization.service";
+import { bookingAccessService } from "../services/booking-access.service";
 import { orchestrator } from "../services/agent-orchestrator";
 import { AgentError } from "../services/agent-base";
 import { encrypt, isEncryptionConfigured } from "../services/encryption.service";
 import { validateApiKey } from "../services/llm-proxy.service";
 import { api } from "@shared/routes";
 import { db } from "../db";
-import { artists, events, promoters, venues, conversations } from "@shared/schema";
+import { conversations } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 
 const router = Router();
 
-/** Check if a user is a participant in a booking. */
-async function isBookingParticipant(booking: any, userId: number, userRole: string): Promise<boolean> {
-  if (userRole === "admin" || userRole === "platform_admin") return true;
-
-  // Direct artist check: does the booking's artistId belong to this user?
-  if (booking.artistId) {
-    const [artistRow] = await db.select().from(artists).where(eq(artists.id, booking.artistId));
-    if (artistRow?.userId === userId) return true;
-  }
-
-  // Organizer check: does the booking's event belong to an organizer owned by this user?
-  if (booking.eventId) {
-    const [eventRow] = await db.select().from(events).where(eq(events.id, booking.eventId));
-    if (eventRow?.organizerId) {
-      const [promoterRow] = await db.select().from(promoters).where(eq(promoters.id, eventRow.organizerId));
-      if (promoterRow?.userId === userId) return true;
-    }
-
-    // Venue check via event
-    if (eventRow?.venueId) {
-      const [venueRow] = await db.select().from(venues).where(eq(venues.id, eventRow.venueId));
-      if (venueRow?.userId === userId) return true;
-    }
-  }
-
-  return false;
+/**
+ * Whether the user may run the negotiation agent on a booking ("act") or read
+ * its status ("view"): a party directly or through its organization, or an
+ * admin with conversations.view for reads.
+ */
+async function canUseNegotiation(user: any, bookingId: number, required: "view" | "act"): Promise<boolean> {
+  return (await bookingAccessService.check(user, bookingId, "negotiation", required)).allowed;
 }
 
 // All agent routes require authentication
@@ -422,7 +405,7 @@ router.post("/negotiation/:bookingId/start", async (req, res) => {
     const booking = await storage.getBooking(bookingId);
     if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-    if (!(await isBookingParticipant(booking, user.id, user.role))) {
+    if (!(await canUseNegotiation(user, bookingId, "act"))) {
       return res.status(403).json({ message: "You are not a participant in this booking" });
     }
 
@@ -555,7 +538,7 @@ router.post("/negotiation/:bookingId/message", async (req, res) => {
     const booking = await storage.getBooking(bookingId);
     if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-    if (!(await isBookingParticipant(booking, user.id, user.role))) {
+    if (!(await canUseNegotiation(user, bookingId, "act"))) {
       return res.status(403).json({ message: "Not a participant in this booking" });
     }
 
@@ -567,7 +550,8 @@ router.post("/negotiation/:bookingId/message", async (req, res) => {
 
     // Determine sender role from booking participant data
     const bookingDetails = await storage.getBookingWithDetails(bookingId);
-    const senderRole = bookingDetails?.artist?.userId === user.id ? "artist" : "organizer";
+    const [side] = bookingDetails ? await organizationService.bookingSides(user.id, bookingDetails) : [];
+    const senderRole = side ?? "organizer";
 
     // Process through negotiation agent
     const { NegotiationAgent } = await import("../services/agents/negotiation.agent");
@@ -603,7 +587,7 @@ router.get("/negotiation/:bookingId/status", async (req, res) => {
     const booking = await storage.getBooking(bookingId);
     if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-    if (!(await isBookingParticipant(booking, user.id, user.role))) {
+    if (!(await canUseNegotiation(user, bookingId, "view"))) {
       return res.status(403).json({ message: "Not authorized" });
     }
 
@@ -650,7 +634,7 @@ router.post("/negotiation/:bookingId/build-contract", async (req, res) => {
     const booking = await storage.getBooking(bookingId);
     if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-    if (!(await isBookingParticipant(booking, user.id, user.role))) {
+    if (!(await canUseNegotiation(user, bookingId, "act"))) {
       return res.status(403).json({ message: "Not a participant in this booking" });
     }
 
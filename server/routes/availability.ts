@@ -0,0 +1,208 @@
+import { Router, type Request, type Response } from "express";
+import { availabilityEntrySchema, calendarQuerySchema } from "@shared/routes";
+import { storage } from "../storage";
+import { actingArtist } from "../services/organization.service";
+import { availabilityService, resolveCalendarRange } from "../services/availability.service";
+import { calendarFeedService } from "../services/calendar-feed.service";
+import { adminPermissionService } from "../services/admin-permission.service";
+import { activeRole, resolveUserRole } from "../role-resolver";
+
+const router = Router();
+
+function requestBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// ============================================================================
+// ARTIST AVAILABILITY
+// ============================================================================
+
+router.get("/artists/availability", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const artist = await actingArtist(req.user as any);
+    if (!artist) return res.status(404).json({ message: "Artist profile not found" });
+
+    res.json(await availabilityService.listForArtist(artist.id));
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    res.status(500).json({ message: "Failed to fetch availability" });
+  }
+});
+
+router.post("/artists/availability", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const artist = await actingArtist(user);
+    if (!artist) return res.status(404).json({ message: "Artist profile not found" });
+
+    const parsed = availabilityEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const entry = await availabilityService.create(artist.id, user.id, parsed.data);
+    res.status(201).json(entry);
+  } catch (error) {
+    console.error("Error creating availability:", error);
+    res.status(500).json({ message: "Failed to create availability entry" });
+  }
+});
+
+router.put("/artists/availability/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const artist = await actingArtist(user);
+    if (!artist) return res.status(404).json({ message: "Artist profile not found" });
+
+    const parsed = availabilityEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const entry = await availabilityService.update(parseInt(req.params.id as string, 10), artist.id, user.id, parsed.data);
+    res.json(entry);
+  } catch (error: any) {
+    if (error.message === "Availability entry not found") return res.status(404).json({ message: error.message });
+    console.error("Error updating availability:", error);
+    res.status(500).json({ message: "Failed to update availability entry" });
+  }
+});
+
+router.delete("/artists/availability/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const artist = await actingArtist(user);
+    if (!artist) return res.status(404).json({ message: "Artist profile not found" });
+
+    await availabilityService.remove(parseInt(req.params.id as string, 10), artist.id, user.id);
+    res.sendStatus(204);
+  } catch (error: any) {
+    if (error.message === "Availability entry not found") return res.status(404).json({ message: error.message });
+    console.error("Error deleting availability:", error);
+    res.status(500).json({ message: "Failed to delete availability entry" });
+  }
+});
+
+// ============================================================================
+// CALENDAR FEED
+// ============================================================================
+
+// GET /calendar?from=YYYY-MM-DD&to=YYYY-MM-DD&artistId= — role-aware calendar entries
+router.get("/calendar", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const parsed = calendarQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    let range: { from: string; to: string };
+    try {
+      range = resolveCalendarRange(parsed.data.from, parsed.data.to);
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "bookings.view");
+    const entries = await availabilityService.getCalendar(
+      { userId: user.id, role: activeRole(user), isAdmin: asAdmin },
+      range.from,
+      range.to,
+      parsed.data.artistId,
+    );
+    res.json(entries);
+  } catch (error: any) {
+    if (error.message === "Artist not found") return res.status(404).json({ message: error.message });
+    console.error("Error fetching calendar:", error);
+    res.status(500).json({ message: "Failed to fetch calendar" });
+  }
+});
+
+// ============================================================================
+// ICS EXPORT
+// ============================================================================
+
+function subscriptionResponse(req: Request, row: { token: string; createdAt: Date | null; lastUsedAt: Date | null }) {
+  return {
+    url: `${requestBaseUrl(req)}/api/calendar/ics/${row.token}.ics`,
+    createdAt: row.createdAt,
+    lastUsedAt: row.lastUsedAt,
+  };
+}
+
+// GET /calendar/subscription — the caller's secret .ics subscription URL
+router.get("/calendar/subscription", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const row = await calendarFeedService.getOrCreateToken((req.user as any).id);
+    res.json(subscriptionResponse(req, row));
+  } catch (error) {
+    console.error("Error fetching calendar subscription:", error);
+    res.status(500).json({ message: "Failed to fetch calendar subscription" });
+  }
+});
+
+// POST /calendar/subscription/rotate — issue a new URL; the old one stops working
+router.post("/calendar/subscription/rotate", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const row = await calendarFeedService.rotateToken((req.user as any).id);
+    res.json(subscriptionResponse(req, row));
+  } catch (error) {
+    console.error("Error rotating calendar subscription:", error);
+    res.status(500).json({ message: "Failed to rotate calendar subscription" });
+  }
+});
+
+// GET /calendar/ics/:token.ics — subscription feed, authenticated by the token alone
+router.get("/calendar/ics/:token", async (req: Request, res: Response) => {
+  try {
+    const token = (req.params.token as string).replace(/\.ics$/, "");
+    const user = await calendarFeedService.getUserByToken(token);
+    if (!user) return res.status(404).json({ message: "Calendar feed not found" });
+
+    // No session behind a feed token, so the feed follows the primary role
+    const role = resolveUserRole({ metadata: user.metadata as { role?: string } | null });
+    const body = await calendarFeedService.buildFeed(user, role, requestBaseUrl(req));
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=900");
+    res.send(body);
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    res.status(500).json({ message: "Failed to build calendar feed" });
+  }
+});
+
+// GET /bookings/:id/calendar.ics — single booking download for its parties
+router.get("/bookings/:id/calendar.ics", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "bookings.view");
+    const { filename, body } = await calendarFeedService.buildBookingIcs(
+      bookingId,
+      { id: user.id, isAdmin: asAdmin },
+      requestBaseUrl(req),
+    );
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(body);
+  } catch (error: any) {
+    if (error.message === "Booking not found") return res.status(404).json({ message: error.message });
+    if (error.message?.startsWith("Not authorized")) return res.status(403).json({ message: error.message });
+    console.error("Error exporting booking calendar:", error);
+    res.status(500).json({ message: "Failed to export booking" });
+  }
+});
+
+export default router;
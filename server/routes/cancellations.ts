@@ -0,0 +1,102 @@
+import { Router, type Request, type Response } from "express";
+import { cancelBookingSchema } from "@shared/routes";
+import { bookingAccessService } from "../services/booking-access.service";
+import { cancellationService } from "../services/cancellation.service";
+import { activeRole, contractRoleFor } from "../role-resolver";
+import type { CancellingParty } from "../cancellation-policy-utils";
+
+const router = Router();
+
+function cancellationErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Booking is already cancelled")) return 409;
+  if (message.startsWith("Booking cannot be cancelled")) return 409;
+  if (message.startsWith("The event has already started")) return 409;
+  return 400;
+}
+
+/**
+ * The side the user cancels for. A user on both sides of a booking (through
+ * organizations) cancels for the side of the profile or role they act as.
+ */
+function cancellingSide(user: any, sides: CancellingParty[]): CancellingParty | null {
+  if (sides.length <= 1) return sides[0] ?? null;
+  if (user.actingProfile) return user.actingProfile.type === "artist" ? "artist" : "organizer";
+  return contractRoleFor(activeRole(user)) === "artist" ? "artist" : "organizer";
+}
+
+// ============================================================================
+// CANCELLATIONS
+// ============================================================================
+
+// GET /bookings/:id/cancellation — the recorded cancellation, or what cancelling now would cost the caller's side
+router.get("/bookings/:id/cancellation", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const access = await bookingAccessService.check(user, bookingId, "booking", "view");
+    if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+    if (!access.allowed) return res.status(403).json({ message: "Not authorized to view this booking" });
+
+    const cancellation = await cancellationService.forBooking(bookingId);
+    if (cancellation) return res.json({ cancellation, quote: null });
+
+    const side = cancellingSide(user, access.sides);
+    if (!side) return res.json({ cancellation: null, quote: null });
+    try {
+      const quote = await cancellationService.quote(bookingId, side);
+      res.json({ cancellation: null, quote });
+    } catch (error: any) {
+      // Not cancellable (yet or any more): nothing to quote
+      if (cancellationErrorStatus(error.message || "") === 409) {
+        return res.json({ cancellation: null, quote: null, message: error.message });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error fetching cancellation:", error);
+    res.status(cancellationErrorStatus(error.message || "")).json({ message: error.message || "Failed to fetch cancellation" });
+  }
+});
+
+// POST /bookings/:id/cancel — the artist or organizer cancels; the policy charges their side
+router.post("/bookings/:id/cancel", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const parsed = cancelBookingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const access = await bookingAccessService.check(user, bookingId, "booking", "act");
+    if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+    const side = cancellingSide(user, access.sides);
+    if (!access.allowed || !side) {
+      return res.status(403).json({ message: "Only the booking's artist or organizer can cancel it" });
+    }
+
+    const cancellation = await cancellationService.cancel(bookingId, user.id, {
+      fault: side,
+      cancelledByRole: side,
+      reason: parsed.data.reason,
+      note: parsed.data.note,
+    });
+    res.status(201).json(cancellation);
+  } catch (error: any) {
+    console.error("Error cancelling booking:", error);
+    res.status(cancellationErrorStatus(error.message || "")).json({ message: error.message || "Failed to cancel booking" });
+  }
+});
+
+export default router;
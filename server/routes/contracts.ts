@@ -7,10 +7,21 @@ import {
     conversations, conversationParticipants, messages, bookings, appSettings
 } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
-import { generateContractText, buildTermsFromBooking } from "../contract-utils";
 import { bookingService } from "../services/booking.service";
+import { contractService } from "../services/contract.service";
+import { contractIntegrityService } from "../services/contract-integrity.service";
+import { appBaseUrl } from "../services/notification-channels";
+import { fillSignatureBlock, formatSignatureDate, hasSignature } from "../contract-integrity-utils";
 import { emitDomainEvent } from "../services/event-bus";
+import { escrowService } from "../services/escrow.service";
+import { invoiceService } from "../services/invoice.service";
+import { bookingAccessService } from "../services/booking-access.service";
+import { accountRestriction } from "../account-token-utils";
+import { consumeStepUp, twoFactorService } from "../services/two-factor.service";
+import { contractAmendmentService } from "../services/contract-amendment.service";
+import { amendmentStepFor } from "../contract-amendment-utils";
 import PDFDocument from "pdfkit";
+import { activeRole, contractRoleFor } from "../role-resolver";
 
 const router = Router();
 
@@ -30,11 +41,29 @@ function isDeadlinePassed(contract: any): boolean {
 }
 
 function getUserRole(user: any): 'artist' | 'promoter' {
-    const role = user.metadata?.role || user.role;
-    if (role === 'artist' || role === 'band_manager') return 'artist';
-    if (role === 'venue_manager' || role === 'venue' || role === 'organizer' || role === 'promoter') return 'promoter';
-    // Default to promoter for any unrecognized role on the contract side
-    return 'promoter';
+    // An organization profile the user acts as decides the side
+    if (user.actingProfile) return user.actingProfile.type === 'artist' ? 'artist' : 'promoter';
+    // Otherwise the session's active role; unrecognized roles count as promoter
+    return contractRoleFor(activeRole(user));
+}
+
+/**
+ * The contract's booking when the user may see it ("view") or act for their
+ * side of it ("act"): a party's own user or organization member, or an admin
+ * with contracts.view for reads. Sends 404/403 and returns null otherwise.
+ */
+async function authorizeContract(user: any, bookingId: number, required: "view" | "act", res: any) {
+    const access = await bookingAccessService.check(user, bookingId, "contract", required);
+    if (!access.booking) {
+        res.status(404).json({ message: "Booking not found" });
+        return null;
+    }
+    const side = getUserRole(user) === 'artist' ? 'artist' : 'organizer';
+    if (!access.allowed || (required === "act" && !access.sides.includes(side))) {
+        res.status(403).json({ message: `Not authorized to ${required === "act" ? "act on" : "view"} this contract` });
+        return null;
+    }
+    return access;
 }
 
 async function checkBookingFlowDeadline(bookingId: number, req: any, res: any): Promise<boolean> {
@@ -296,8 +325,9 @@ router.post("/bookings/:bookingId/contract/initiate", async (req, res) => {
         const bookingId = parseInt(req.params.bookingId);
         if (isNaN(bookingId)) return res.status(400).json({ message: "Invalid booking ID" });
 
-        const booking = await storage.getBookingWithDetails(bookingId);
-        if (!booking) return res.status(404).json({ message: "Booking not found" });
+        const access = await authorizeContract(req.user, bookingId, "act", res);
+        if (!access) return;
+        const booking = access.booking;
 
         if (booking.flowDeadlineAt && new Date() > new Date(booking.flowDeadlineAt)) {
             await bookingService.expireBookingFlow(bookingId, "Booking flow 72-hour deadline has passed", (req.user as any)?.id);
@@ -332,13 +362,13 @@ router.post("/bookings/:bookingId/contract/initiate", async (req, res) => {
             });
         }
 
-        const { contractService } = await import("../services/contract.service");
-        const contract = await contractService.generateContractFromSnapshot(bookingId);
+        const contract = await contractService.generateContractFromSnapshot(bookingId, (req.user as any)?.id);
 
         // Update contract status to sent and set sequence
         const now = new Date();
         const deadline = addHours(now, DEADLINE_HOURS);
         
+        // Version v1 is created with the contract
         await storage.updateContract(contract.id, {
             status: 'sent',
             signerSequence: { steps: ['promoter', 'artist'] },
@@ -349,16 +379,6 @@ router.post("/bookings/:bookingId/contract/initiate", async (req, res) => {
             promoterEditUsed: false,
         });
 
-        // Create version v1
-        await storage.createContractVersion({
-            contractId: contract.id,
-            version: 1,
-            contractText: contract.contractText!,
-            terms: contract.negotiatedTermsJson as any || {},
-            createdBy: (req.user as any)?.id,
-            changeSummary: 'Initial contract generation from negotiated terms',
-        });
-
         // Update booking status to contracting
         await storage.updateBooking(bookingId, { status: 'contracting' as any });
 
@@ -402,6 +422,7 @@ router.get("/bookings/:bookingId/contract", async (req, res) => {
 
         const contract = await storage.getContractByBookingId(bookingId);
         if (!contract) return res.status(404).json({ message: "No contract found for this booking" });
+        if (!(await authorizeContract(req.user, bookingId, "view", res))) return;
 
         const details = await storage.getContractWithDetails(contract.id);
 
@@ -448,6 +469,7 @@ router.post("/contracts/:id/review", async (req, res) => {
 
         const contract = await storage.getContract(contractId);
         if (!contract) return res.status(404).json({ message: "Contract not found" });
+        if (!(await authorizeContract(req.user, contract.bookingId!, "act", res))) return;
 
         if (await checkBookingFlowDeadline(contract.bookingId!, req, res)) return;
 
@@ -465,6 +487,11 @@ router.post("/contracts/:id/review", async (req, res) => {
         const role = getUserRole(user);
         const isArtist = role === 'artist';
         const body = reviewSchema.parse(req.body);
+
+        // Signed text is final: edits would need a new version signed by both parties
+        if (body.action === "PROPOSE_EDITS" && hasSignature(contract)) {
+            return res.status(409).json({ message: "Contract has been signed and can no longer be edited" });
+        }
         // Check sequential rule: Organizer first, Artist last.
             if (isArtist && !contract.promoterReviewDoneAt) {
                 return res.status(400).json({ message: "Organizer must review the contract first." });
@@ -533,7 +560,8 @@ router.post("/contracts/:id/review", async (req, res) => {
             // Directly apply changes (no pending approval needed)
             const newTerms = applyContractChanges(currentTerms, body.changes);
             const newVersionNum = (contract.currentVersion || 1) + 1;
-            const newContractText = generateContractText(booking, newTerms);
+            const { contractText: newContractText, renderVariables } =
+                await contractService.renderContractRevision(contract, newTerms, booking);
 
             // Create new contract version with merged terms
             await storage.createContractVersion({
@@ -541,6 +569,7 @@ router.post("/contracts/:id/review", async (req, res) => {
                 version: newVersionNum,
                 contractText: newContractText,
                 terms: newTerms,
+                renderVariables,
                 createdBy: user.id,
                 changeSummary: `${role} edits applied directly: ${body.note || 'Changes applied'}`,
             });
@@ -657,6 +686,7 @@ router.post("/contracts/:id/edit-requests/:reqId/respond", async (req, res) => {
 
         const contract = await storage.getContract(contractId);
         if (!contract) return res.status(404).json({ message: "Contract not found" });
+        if (!(await authorizeContract(req.user, contract.bookingId!, "act", res))) return;
 
         if (await checkBookingFlowDeadline(contract.bookingId!, req, res)) return;
 
@@ -664,6 +694,10 @@ router.post("/contracts/:id/edit-requests/:reqId/respond", async (req, res) => {
             return res.status(400).json({ message: "Contract deadline has passed" });
         }
 
+        if (hasSignature(contract)) {
+            return res.status(409).json({ message: "Contract has been signed and can no longer be edited" });
+        }
+
         const editRequest = await storage.getContractEditRequest(reqId);
         if (!editRequest) return res.status(404).json({ message: "Edit request not found" });
         if (editRequest.contractId !== contractId) {
@@ -735,13 +769,15 @@ router.post("/contracts/:id/edit-requests/:reqId/respond", async (req, res) => {
 
             // Regenerate contract text with updated terms
             const booking = await storage.getBookingWithDetails(contract.bookingId!);
-            const newContractText = generateContractText(booking, newTerms);
+            const { contractText: newContractText, renderVariables } =
+                await contractService.renderContractRevision(contract, newTerms, booking);
 
             await storage.createContractVersion({
                 contractId,
                 version: newVersionNum,
                 contractText: newContractText,
                 terms: newTerms,
+                renderVariables,
                 createdBy: user.id,
                 changeSummary: `${editRequest.requestedByRole} edit approved: ${editRequest.note || 'Changes applied'}`,
             });
@@ -830,6 +866,7 @@ router.post("/contracts/:id/accept", async (req, res) => {
 
         const contract = await storage.getContract(contractId);
         if (!contract) return res.status(404).json({ message: "Contract not found" });
+        if (!(await authorizeContract(req.user, contract.bookingId!, "act", res))) return;
 
         if (await checkBookingFlowDeadline(contract.bookingId!, req, res)) return;
 
@@ -914,6 +951,7 @@ router.post("/contracts/:id/sign", async (req, res) => {
 
         const contract = await storage.getContract(contractId);
         if (!contract) return res.status(404).json({ message: "Contract not found" });
+        if (!(await authorizeContract(req.user, contract.bookingId!, "act", res))) return;
 
         if (await checkBookingFlowDeadline(contract.bookingId!, req, res)) return;
 
@@ -951,21 +989,23 @@ router.post("/contracts/:id/sign", async (req, res) => {
             return res.status(400).json({ message: "You have already signed this contract" });
         }
 
-        // Verify authorization against booking
-        const booking = await storage.getBookingWithDetails(contract.bookingId!);
-        if (!booking) return res.status(404).json({ message: "Associated booking not found" });
+        const restriction = accountRestriction(user, "sign contracts");
+        if (restriction) return res.status(403).json({ message: restriction });
 
-        if (isArtist) {
-            const artist = await storage.getArtistByUserId(user.id);
-            if (!artist || booking.artistId !== artist.id) {
-                return res.status(403).json({ message: "Not authorized to sign this contract" });
-            }
+        // Signing needs a fresh 2FA check (POST /api/auth/2fa/step-up) just before it
+        if (!(await twoFactorService.isEnabled(user.id))) {
+            return res.status(403).json({ message: "Set up two-factor authentication to sign contracts", code: "TWO_FACTOR_SETUP_REQUIRED" });
+        }
+        const stepUp = consumeStepUp(req.session);
+        if (!stepUp) {
+            return res.status(403).json({ message: "Confirm your two-factor code to sign this contract", code: "STEP_UP_REQUIRED" });
         }
 
-        // Record signature
+        // Record signature with the hash of the version being signed
         const signatureText = body.signatureData || user.displayName || user.username || 'Signed';
         const ipAddress = req.ip || 'Unknown';
-        
+        const signed = await contractIntegrityService.documentForSigning(contract);
+
         await storage.createContractSignature({
             contractId,
             userId: user.id,
@@ -974,23 +1014,20 @@ router.post("/contracts/:id/sign", async (req, res) => {
             signatureType: body.signatureMethod === 'draw' ? 'drawn' : body.signatureMethod === 'upload' ? 'uploaded' : 'typed',
             ipAddress: req.ip || null,
             userAgent: req.headers['user-agent'] || null,
+            twoFactorMethod: stepUp.method,
+            twoFactorVerifiedAt: stepUp.at,
+            documentHash: signed.hash,
+            contractVersion: signed.version,
+            signedAt: now,
         });
 
         // Update contract text with signature details
-        let updatedContractText: string = contract.contractText || "";
-        const formattedDate = now.toLocaleString();
-        
-        if (isArtist) {
-            updatedContractText = updatedContractText
-                .replace('[[ARTIST_SIGNATURE]]', signatureText)
-                .replace('[[ARTIST_DATE]]', formattedDate)
-                .replace('[[ARTIST_IP]]', ipAddress);
-        } else {
-            updatedContractText = updatedContractText
-                .replace('[[PROMOTER_SIGNATURE]]', signatureText)
-                .replace('[[PROMOTER_DATE]]', formattedDate)
-                .replace('[[PROMOTER_IP]]', ipAddress);
-        }
+        const updatedContractText = fillSignatureBlock(contract.contractText || "", {
+            role: isArtist ? 'artist' : 'promoter',
+            signature: signatureText,
+            signedAt: now,
+            ipAddress: req.ip || null,
+        });
 
         // Update contract
         const signedAtField = isArtist ? 'artistSignedAt' : 'promoterSignedAt';
@@ -1041,6 +1078,11 @@ router.post("/contracts/:id/sign", async (req, res) => {
 
         await storage.updateContract(contractId, updateData);
 
+        if (updateData.status === 'signed') {
+            await escrowService.onContractSigned(contractId);
+            await invoiceService.generateForContract(contractId);
+        }
+
         await storage.createAuditLog({
             who: user.id,
             action: "contract_signed",
@@ -1049,6 +1091,9 @@ router.post("/contracts/:id/sign", async (req, res) => {
             context: {
                 role,
                 signatureMethod: body.signatureMethod,
+                twoFactorMethod: stepUp.method,
+                documentHash: signed.hash,
+                version: signed.version,
                 fullyExecuted
             }
         });
@@ -1059,7 +1104,7 @@ router.post("/contracts/:id/sign", async (req, res) => {
         const signBookingDetails = await storage.getBookingWithDetails(contract.bookingId!);
         const signEventTitle = signBookingDetails?.event?.title || "Event";
 
-        emitDomainEvent("contract.signed", {
+        await emitDomainEvent("contract.signed", {
           bookingId: contract.bookingId,
           contractId,
           entityType: "contract",
@@ -1070,7 +1115,7 @@ router.post("/contracts/:id/sign", async (req, res) => {
         }, user.id);
 
         if (fullyExecuted) {
-          emitDomainEvent("contract.fully_signed", {
+          await emitDomainEvent("contract.fully_signed", {
             bookingId: contract.bookingId,
             contractId,
             entityType: "contract",
@@ -1097,6 +1142,248 @@ router.post("/contracts/:id/sign", async (req, res) => {
     }
 });
 
+// ============================================================================
+// 7. AMENDMENTS AFTER SIGNING
+// /api/contracts/:id/amendments — propose, review, accept, sign, withdraw
+// ============================================================================
+
+const amendmentChangesSchema = contractChangesSchema.omit({ eventDate: true }).extend({
+    fee: z.number().positive().optional(),
+    performanceDuration: z.string().min(1).max(100).optional(),
+    supportSlots: z.array(z.object({
+        name: z.string().min(1).max(200),
+        slotTime: z.string().max(100).optional(),
+        duration: z.string().max(100).optional(),
+    })).max(10).optional(),
+}).strict();
+
+const proposeAmendmentSchema = z.object({
+    reason: z.string().trim().min(1).max(2000),
+    changes: amendmentChangesSchema,
+});
+
+const amendmentReviewSchema = z.object({
+    decision: z.enum(["approve", "reject"]),
+    note: z.string().max(2000).optional(),
+});
+
+const amendmentWithdrawSchema = z.object({
+    note: z.string().max(2000).optional(),
+});
+
+function amendmentErrorStatus(message: string): number {
+    if (message.includes("not found")) return 404;
+    if (message.startsWith("Amendment is") || message.includes("already") || message.includes("open amendment")
+        || message.startsWith("Waiting") || message.includes("no longer open")) return 409;
+    if (message.startsWith("Only the proposing") || message.startsWith("Withdraw your own")) return 403;
+    if (message.includes("Commission policy")) return 409;
+    if (message.startsWith("Contracts can't be amended while")) return 409;
+    return 400;
+}
+
+/** The contract and the caller's side for an amendment request; sends 400/404/403 itself */
+async function loadContractForAmendment(req: any, res: any, required: "view" | "act") {
+    const contractId = parseInt(req.params.id);
+    if (isNaN(contractId)) {
+        res.status(400).json({ message: "Invalid contract ID" });
+        return null;
+    }
+    const contract = await storage.getContract(contractId);
+    if (!contract) {
+        res.status(404).json({ message: "Contract not found" });
+        return null;
+    }
+    const access = await authorizeContract(req.user, contract.bookingId!, required, res);
+    if (!access) return null;
+    return { contract, booking: access.booking, party: getUserRole(req.user) };
+}
+
+function amendmentIdParam(req: any, res: any): number | null {
+    const amendmentId = parseInt(req.params.amendmentId);
+    if (isNaN(amendmentId)) {
+        res.status(400).json({ message: "Invalid amendment ID" });
+        return null;
+    }
+    return amendmentId;
+}
+
+// GET /api/contracts/:id/amendments — amendments newest first, with each one's
+// amended text and the caller's next step
+router.get("/contracts/:id/amendments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+        const loaded = await loadContractForAmendment(req, res, "view");
+        if (!loaded) return;
+        const amendments = await contractAmendmentService.list(loaded.contract.id);
+        const versions = await storage.getContractVersions(loaded.contract.id);
+        res.json(amendments.map((amendment) => ({
+            ...amendment,
+            contractText: versions.find((v) => v.version === amendment.version)?.contractText ?? null,
+            nextStep: amendmentStepFor(amendment, loaded.party),
+        })));
+    } catch (error) {
+        console.error("Error fetching contract amendments:", error);
+        res.status(500).json({ message: "Failed to fetch amendments" });
+    }
+});
+
+router.post("/contracts/:id/amendments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = proposeAmendmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+        const loaded = await loadContractForAmendment(req, res, "act");
+        if (!loaded) return;
+        const { contract, booking, party } = loaded;
+
+        // Category edits follow the same rules as edits before signing
+        const { fee, slotTime, performanceDuration, supportSlots, ...categories } = parsed.data.changes;
+        const validation = validateContractChanges(categories, contract.negotiatedTermsJson || {}, booking);
+        if (!validation.valid) {
+            return res.status(400).json({ message: "Invalid changes", errors: validation.errors });
+        }
+
+        const user = req.user as any;
+        const amendment = await contractAmendmentService.propose(contract, booking, party, user.id, parsed.data);
+
+        await postContractSystemMessage(contract.bookingId!,
+            `📝 ${party === 'artist' ? 'Artist' : 'Promoter'} proposed an amendment to the signed contract: "${parsed.data.reason}"${amendment.feeChanged ? ' The fee change needs admin approval once both parties sign.' : ''}`
+        );
+
+        res.status(201).json(amendment);
+    } catch (error: any) {
+        const message = error.message || "Failed to propose amendment";
+        res.status(amendmentErrorStatus(message)).json({ message });
+    }
+});
+
+router.post("/contracts/:id/amendments/:amendmentId/review", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = amendmentReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+        const amendmentId = amendmentIdParam(req, res);
+        if (amendmentId === null) return;
+        const loaded = await loadContractForAmendment(req, res, "act");
+        if (!loaded) return;
+
+        const amendment = await contractAmendmentService.review(
+            loaded.contract.id, amendmentId, loaded.party, (req.user as any).id, parsed.data.decision, parsed.data.note,
+        );
+
+        await postContractSystemMessage(loaded.contract.bookingId!, parsed.data.decision === 'approve'
+            ? `✅ ${loaded.party === 'artist' ? 'Artist' : 'Promoter'} approved amendment #${amendmentId}. Both parties can now accept and sign it.`
+            : `❌ ${loaded.party === 'artist' ? 'Artist' : 'Promoter'} rejected amendment #${amendmentId}. The signed contract stays as it is.${parsed.data.note ? ` Reason: "${parsed.data.note}"` : ''}`
+        );
+
+        res.json(amendment);
+    } catch (error: any) {
+        const message = error.message || "Failed to review amendment";
+        res.status(amendmentErrorStatus(message)).json({ message });
+    }
+});
+
+router.post("/contracts/:id/amendments/:amendmentId/accept", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = acceptSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+        const amendmentId = amendmentIdParam(req, res);
+        if (amendmentId === null) return;
+        const loaded = await loadContractForAmendment(req, res, "act");
+        if (!loaded) return;
+
+        const amendment = await contractAmendmentService.accept(loaded.contract.id, amendmentId, loaded.party, (req.user as any).id);
+        res.json(amendment);
+    } catch (error: any) {
+        const message = error.message || "Failed to accept amendment";
+        res.status(amendmentErrorStatus(message)).json({ message });
+    }
+});
+
+router.post("/contracts/:id/amendments/:amendmentId/sign", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = signSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+        const amendmentId = amendmentIdParam(req, res);
+        if (amendmentId === null) return;
+        const loaded = await loadContractForAmendment(req, res, "act");
+        if (!loaded) return;
+        const { contract, party } = loaded;
+        const user = req.user as any;
+
+        const restriction = accountRestriction(user, "sign contracts");
+        if (restriction) return res.status(403).json({ message: restriction });
+
+        // Same fresh 2FA check as signing the contract itself
+        if (!(await twoFactorService.isEnabled(user.id))) {
+            return res.status(403).json({ message: "Set up two-factor authentication to sign contracts", code: "TWO_FACTOR_SETUP_REQUIRED" });
+        }
+        const stepUp = consumeStepUp(req.session);
+        if (!stepUp) {
+            return res.status(403).json({ message: "Confirm your two-factor code to sign this amendment", code: "STEP_UP_REQUIRED" });
+        }
+
+        const body = parsed.data;
+        const { amendment, document } = await contractAmendmentService.sign(contract, amendmentId, party, user.id, {
+            signatureData: body.signatureData || user.displayName || user.username || 'Signed',
+            signatureType: body.signatureMethod === 'draw' ? 'drawn' : body.signatureMethod === 'upload' ? 'uploaded' : 'typed',
+            ipAddress: req.ip || null,
+            userAgent: req.headers['user-agent'] || null,
+            twoFactorMethod: stepUp.method,
+            twoFactorVerifiedAt: stepUp.at,
+        });
+
+        const who = party === 'artist' ? 'Artist' : 'Promoter';
+        await postContractSystemMessage(contract.bookingId!,
+            amendment.status === 'applied'
+                ? `🎉 Both parties signed amendment #${amendmentId}. The contract is now on version ${amendment.version}.`
+                : amendment.status === 'admin_review'
+                    ? `✍️ Both parties signed amendment #${amendmentId}. The fee change is with the platform admin for approval.`
+                    : `✍️ ${who} signed amendment #${amendmentId}. Waiting for the other party.`
+        );
+
+        res.json({ amendment, documentHash: document.hash, version: document.version });
+    } catch (error: any) {
+        const message = error.message || "Failed to sign amendment";
+        res.status(amendmentErrorStatus(message)).json({ message });
+    }
+});
+
+router.post("/contracts/:id/amendments/:amendmentId/withdraw", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = amendmentWithdrawSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    try {
+        const amendmentId = amendmentIdParam(req, res);
+        if (amendmentId === null) return;
+        const loaded = await loadContractForAmendment(req, res, "act");
+        if (!loaded) return;
+
+        const amendment = await contractAmendmentService.withdraw(
+            loaded.contract.id, amendmentId, loaded.party, (req.user as any).id, parsed.data.note,
+        );
+        await postContractSystemMessage(loaded.contract.bookingId!,
+            `↩️ ${loaded.party === 'artist' ? 'Artist' : 'Promoter'} withdrew amendment #${amendmentId}.`
+        );
+        res.json(amendment);
+    } catch (error: any) {
+        const message = error.message || "Failed to withdraw amendment";
+        res.status(amendmentErrorStatus(message)).json({ message });
+    }
+});
+
 // ============================================================================
 // 8. TIMEOUT CHECK (cron or on-demand)
 // POST /api/contracts/check-deadlines
@@ -1143,7 +1430,7 @@ export async function checkContractDeadlines() {
             });
 
             // Notify both parties about voided contract
-            emitDomainEvent("contract.voided", {
+            await emitDomainEvent("contract.voided", {
               bookingId: contract.bookingId,
               contractId: contract.id,
               entityType: "contract",
@@ -1179,6 +1466,7 @@ router.post("/bookings/:id/contract/generate", async (req, res) => {
     try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+        if (!(await authorizeContract(req.user, id, "act", res))) return;
 
         const existing = await storage.getContractByBookingId(id);
         if (existing) {
@@ -1186,32 +1474,16 @@ router.post("/bookings/:id/contract/generate", async (req, res) => {
             return res.json({ message: "Contract already exists", contract: existing, ...details });
         }
 
-        const booking = await storage.getBookingWithDetails(id);
-        if (!booking) return res.status(404).json({ message: "Booking not found" });
-
         const now = new Date();
         const deadline = addHours(now, DEADLINE_HOURS);
-        const terms = buildTermsFromBooking(booking);
-        const contractText = generateContractText(booking, terms);
+        const generated = await contractService.generateContractFromSnapshot(id, (req.user as any)?.id);
 
-        const contract = await storage.createContract({
-            bookingId: id,
-            contractText,
+        const contract = await storage.updateContract(generated.id, {
             status: 'sent',
             signerSequence: { steps: ['promoter', 'artist'] },
             initiatedAt: now,
             deadlineAt: deadline,
-            currentVersion: 1,
-            metadata: { terms },
-        });
-
-        await storage.createContractVersion({
-            contractId: contract.id,
-            version: 1,
-            contractText,
-            terms,
-            createdBy: (req.user as any)?.id,
-            changeSummary: 'Initial contract generation',
+            metadata: { terms: generated.negotiatedTermsJson },
         });
 
         await storage.createAuditLog({
@@ -1229,22 +1501,38 @@ router.post("/bookings/:id/contract/generate", async (req, res) => {
     }
 });
 
+// ============================================================================
+// GET /api/verify/:hash — public check of a signed contract's document hash
+// ============================================================================
+
+router.get("/verify/:hash", async (req, res) => {
+    try {
+        const result = await contractIntegrityService.verify((req.params.hash as string).toLowerCase());
+        if (!result) {
+            return res.status(404).json({ valid: false, message: "No signed contract matches this hash" });
+        }
+        res.json(result);
+    } catch (error) {
+        console.error("Error verifying contract hash:", error);
+        res.status(500).json({ message: "Failed to verify contract" });
+    }
+});
+
 /**
  * GET /contracts/:id/pdf
  * Generate PDF document for a contract.
  */
-router.get("/:id/pdf", async (req, res) => {
+router.get("/contracts/:id/pdf", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
         const contractId = parseInt(req.params.id);
+        if (isNaN(contractId)) return res.status(400).json({ message: "Invalid contract ID" });
         const contract = await storage.getContractWithDetails(contractId);
         if (!contract) return res.status(404).json({ message: "Contract not found" });
 
-        // Security check
-        const user = req.user as any;
-        const role = getUserRole(user);
-        // Additional auth checks can be added here if needed
+        // Contracts carry PAN, GSTIN and bank details: parties and contract admins only
+        if (!(await authorizeContract(req.user, contract.bookingId, "view", res))) return;
 
         const doc = new PDFDocument({ margin: 50 });
         const filename = `Contract_BK-${contract.bookingId}_v${contract.currentVersion}.pdf`;
@@ -1278,12 +1566,13 @@ router.get("/:id/pdf", async (req, res) => {
 
         // Add contract text
         const textLines = (contract.contractText || "").split("\n");
+        const title = textLines[0]?.trim();
         for (const line of textLines) {
             if (line.startsWith("════") || line.startsWith("────")) {
                 doc.moveDown(0.5);
                 doc.lineWidth(1).moveTo(50, doc.y).lineTo(550, doc.y).stroke();
                 doc.moveDown(0.5);
-            } else if (line.trim() === "PERFORMANCE AND BOOKING AGREEMENT" || line.includes("★ Non-Editable Core Terms")) {
+            } else if (line.trim() === title || line.trim() === "PERFORMANCE AND BOOKING AGREEMENT" || line.includes("★ Non-Editable Core Terms")) {
                 doc.fontSize(14).font('Helvetica-Bold').text(line, { align: 'center' });
                 doc.fontSize(11).font('Helvetica');
             } else if (line.match(/^[0-9]+\./)) {
@@ -1296,6 +1585,13 @@ router.get("/:id/pdf", async (req, res) => {
         }
 
         // Add IT Act 2000 Compliance Logging for Signatures
+        // Signatures on the current version; an applied amendment replaces the original ones
+        const allSigners = await contractIntegrityService.signers(contract.id);
+        const currentSigners = allSigners.filter((s) => s.contractVersion === contract.currentVersion);
+        const signers = currentSigners.length > 0 ? currentSigners : allSigners;
+        const signerFor = (isArtistSide: boolean) =>
+            signers.filter((s) => (s.role === 'artist') === isArtistSide).pop();
+
         doc.addPage();
         doc.fontSize(16).font('Helvetica-Bold').text("SIGNATURE CERTIFICATE", { align: 'center' });
         doc.moveDown(2);
@@ -1304,28 +1600,45 @@ router.get("/:id/pdf", async (req, res) => {
         doc.text(`Contract ID: ${contract.id}`);
         doc.text(`Booking Reference: BK-${contract.bookingId}`);
         doc.text(`Version: ${contract.currentVersion}`);
+        const currentVersionRow = contract.versions?.find((v: any) => v.version === contract.currentVersion);
+        if (currentVersionRow?.amendsVersion) {
+            doc.text(`Amendment #${currentVersionRow.amendmentId}: replaces signed version ${currentVersionRow.amendsVersion}`);
+        }
         doc.moveDown();
 
-        if (contract.signedByPromoter) {
-            doc.font('Helvetica-Bold').text("Promoter / Booking Agent Signature");
-            doc.font('Helvetica').text(`Signed At: ${contract.promoterSignedAt ? new Date(contract.promoterSignedAt).toISOString() : 'N/A'}`);
-            doc.text(`IP Address: ${contract.promoterSignatureIp || 'N/A'}`);
+        const signatureSection = (heading: string, signed: boolean | null, signedAt: Date | null, ip: string | null, isArtistSide: boolean) => {
+            const signer = signerFor(isArtistSide);
+            doc.font('Helvetica-Bold').text(heading);
+            if (!signed) {
+                doc.font('Helvetica').text("Status: PENDING");
+                return;
+            }
+            doc.font('Helvetica');
+            if (signer) doc.text(`Signer: ${signer.name}`);
+            const at = signer?.signedAt ?? signedAt;
+            doc.text(`Signed At: ${at ? new Date(at).toISOString() : 'N/A'}`);
+            doc.text(`IP Address: ${(signer ? signer.ipAddress : ip) || 'N/A'}`);
+            if (signer?.twoFactorMethod) doc.text(`Identity Check: two-factor (${signer.twoFactorMethod === 'totp' ? 'authenticator app' : 'recovery code'})`);
+            if (signer?.documentHash) {
+                doc.text(`Signed Version: ${signer.contractVersion}`);
+                doc.font('Courier').fontSize(8).text(`Document SHA-256: ${signer.documentHash}`);
+                doc.font('Helvetica').fontSize(10);
+            }
             doc.text("Status: Verified under IT Act 2000");
-        } else {
-            doc.font('Helvetica-Bold').text("Promoter / Booking Agent Signature");
-            doc.font('Helvetica').text("Status: PENDING");
-        }
+        };
 
+        signatureSection("Promoter / Booking Agent Signature", contract.signedByPromoter, contract.promoterSignedAt, contract.promoterSignatureIp, false);
         doc.moveDown(2);
-
-        if (contract.signedByArtist) {
-            doc.font('Helvetica-Bold').text("Artist Signature");
-            doc.font('Helvetica').text(`Signed At: ${contract.artistSignedAt ? new Date(contract.artistSignedAt).toISOString() : 'N/A'}`);
-            doc.text(`IP Address: ${contract.artistSignatureIp || 'N/A'}`);
-            doc.text("Status: Verified under IT Act 2000");
-        } else {
-            doc.font('Helvetica-Bold').text("Artist Signature");
-            doc.font('Helvetica').text("Status: PENDING");
+        signatureSection("Artist Signature", contract.signedByArtist, contract.artistSignedAt, contract.artistSignatureIp, true);
+
+        const hash = signers.find((s) => s.documentHash)?.documentHash;
+        if (hash) {
+            doc.moveDown(2);
+            doc.font('Helvetica-Bold').text("Verification");
+            doc.font('Helvetica').text(
+                "The SHA-256 hash covers the signed version's text and terms. Any change to the contract after signing makes verification fail.",
+            );
+            doc.text(`${appBaseUrl().replace(/\/+$/, "")}/verify/${hash}`);
         }
 
         doc.end();
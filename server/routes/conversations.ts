@@ -27,6 +27,8 @@
 
 import { Router } from "express";
 import { storage } from "../storage";
+import { organizationService } from "../services/organization.service";
+import { bookingAccessService } from "../services/booking-access.service";
 import { eq, and, desc } from "drizzle-orm";
 import { db } from "../db";
 import {
@@ -40,6 +42,29 @@ import { NegotiationAgent } from "../services/agents/negotiation.agent";
 
 const router = Router();
 
+/**
+ * Whether the user may read ("view") or post in ("act") a conversation.
+ * Booking conversations follow the booking: its parties, directly or through
+ * their organizations, and admins with conversations.view for reads. Other
+ * conversations are limited to their participant rows.
+ */
+async function canAccessConversation(
+    user: any,
+    convo: { id: number; entityType: string | null; entityId: number | null },
+    required: "view" | "act",
+): Promise<boolean> {
+    if (convo.entityType === "booking" && convo.entityId) {
+        return (await bookingAccessService.check(user, convo.entityId, "negotiation", required)).allowed;
+    }
+    const participant = await db.query.conversationParticipants.findFirst({
+        where: and(
+            eq(conversationParticipants.conversationId, convo.id),
+            eq(conversationParticipants.userId, user.id)
+        )
+    });
+    return !!participant;
+}
+
 // ===================================
 // Conversation Management
 // ===================================
@@ -90,7 +115,7 @@ router.get("/conversations", async (req, res) => {
  * (each participant includes the related user record).
  * Also includes workflowInstance for backward compatibility (may be null).
  *
- * Access control: only participants may view the conversation (403).
+ * Access control: 403 unless canAccessConversation allows reading.
  *
  * @param id - Conversation ID (integer path param).
  * @returns {Conversation & { workflowInstance?, participants[] }}
@@ -103,16 +128,6 @@ router.get("/conversations/:id", async (req, res) => {
     if (isNaN(conversationId)) return res.status(400).json({ message: "Invalid ID" });
 
     try {
-        // Participation gate — reject non-participants with 403
-        const participant = await db.query.conversationParticipants.findFirst({
-            where: and(
-                eq(conversationParticipants.conversationId, conversationId),
-                eq(conversationParticipants.userId, user.id)
-            )
-        });
-
-        if (!participant) return res.status(403).json({ message: "Not a participant" });
-
         // Eager-load workflow state and participant user profiles
         const convo = await db.query.conversations.findFirst({
             where: eq(conversations.id, conversationId),
@@ -127,6 +142,9 @@ router.get("/conversations/:id", async (req, res) => {
         });
 
         if (!convo) return res.status(404).json({ message: "Conversation not found" });
+        if (!(await canAccessConversation(user, convo, "view"))) {
+            return res.status(403).json({ message: "Not a participant" });
+        }
 
         res.json(convo);
     } catch (error) {
@@ -146,7 +164,7 @@ router.get("/conversations/:id", async (req, res) => {
  * returning so the client receives them oldest-first — matching the
  * natural reading order in a chat UI.
  *
- * Access control: 403 for non-participants.
+ * Access control: 403 unless canAccessConversation allows reading.
  *
  * @param id    - Conversation ID (integer path param).
  * @param cursor - (query param, reserved) Future cursor for pagination.
@@ -156,15 +174,17 @@ router.get("/conversations/:id/messages", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const conversationId = parseInt(req.params.id);
 
+    if (isNaN(conversationId)) return res.status(400).json({ message: "Invalid ID" });
+
     try {
-        // Participation gate — only participants may read messages
-        const participant = await db.query.conversationParticipants.findFirst({
-            where: and(
-                eq(conversationParticipants.conversationId, conversationId),
-                eq(conversationParticipants.userId, (req.user as any).id)
-            )
+        // Participation gate — only those who may read the conversation see its messages
+        const convo = await db.query.conversations.findFirst({
+            where: eq(conversations.id, conversationId),
         });
-        if (!participant) return res.status(403).json({ message: "Not a participant" });
+        if (!convo) return res.status(404).json({ message: "Conversation not found" });
+        if (!(await canAccessConversation(req.user, convo, "view"))) {
+            return res.status(403).json({ message: "Not a participant" });
+        }
 
         // Fetch newest 50 messages (DESC) then reverse for chronological output.
         // Each message includes the sender's user record for display names/avatars.
@@ -242,6 +262,10 @@ router.post("/entities/:entityType/:entityId/conversation/:conversationType/open
         // already exists for this (entityType, entityId, conversationType).
         // ---------------------------------------------------------------
         if (entityType === "booking" && conversationType === "negotiation") {
+            // Opening adds the caller as a participant, so only the booking's parties may
+            const access = await bookingAccessService.check(user, entityId, "negotiation", "act");
+            if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+            if (!access.allowed) return res.status(403).json({ message: "Not a participant in this booking" });
             const convo = await negotiationService.openNegotiation(entityId, user.id);
             return res.json(convo);
         }
@@ -403,18 +427,23 @@ router.post("/conversations/:id/messages", async (req, res) => {
         const convo = await db.query.conversations.findFirst({
             where: eq(conversations.id, conversationId),
         });
+        if (!convo) return res.status(404).json({ message: "Conversation not found" });
+        if (!(await canAccessConversation(user, convo, "act"))) {
+            return res.status(403).json({ message: "Not a participant" });
+        }
 
         let processedBody: string | null = null;
         let agentFilterAction: string | null = null;
         let agentFilterReason: string | null = null;
 
-        if (convo?.conversationType === "negotiation" && convo.entityType === "booking" && convo.entityId) {
+        if (convo.conversationType === "negotiation" && convo.entityType === "booking" && convo.entityId) {
             const activeSession = await storage.getActiveAgentSession(user.id, "negotiation", convo.entityId);
             if (activeSession) {
                 try {
                     // Determine sender role from booking participant data
                     const bookingDetails = await storage.getBookingWithDetails(convo.entityId);
-                    const senderRole = bookingDetails?.artist?.userId === user.id ? "artist" : "organizer";
+                    const [side] = bookingDetails ? await organizationService.bookingSides(user.id, bookingDetails) : [];
+                    const senderRole = side ?? "organizer";
 
                     const agent = new NegotiationAgent();
                     const result = await agent.processMessage({
@@ -563,6 +592,13 @@ router.put("/conversations/:id/messages/:messageId/feedback", async (req, res) =
 
         if (!msg) return res.status(404).json({ message: "Message not found" });
 
+        const convo = msg.conversationId
+            ? await db.query.conversations.findFirst({ where: eq(conversations.id, msg.conversationId) })
+            : undefined;
+        if (!convo || !(await canAccessConversation(user, convo, "act"))) {
+            return res.status(403).json({ message: "Not a participant" });
+        }
+
         // Only allow feedback on agent-processed messages
         if (!msg.isAgentGenerated && !msg.agentFilterAction) {
             return res.status(400).json({ message: "Feedback only available on agent-processed messages" });
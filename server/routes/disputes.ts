@@ -0,0 +1,113 @@
+import { Router, type Request, type Response } from "express";
+import { openDisputeSchema, attachDisputeEvidenceSchema } from "@shared/routes";
+import { disputeService } from "../services/dispute.service";
+import { bookingAccessService } from "../services/booking-access.service";
+
+const router = Router();
+
+function disputeErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Only the booking's")) return 403;
+  if (message.startsWith("An active dispute")) return 409;
+  return 400;
+}
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+// POST /bookings/:id/disputes — artist or organizer opens a dispute
+router.post("/bookings/:id/disputes", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const parsed = openDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const dispute = await disputeService.openDispute(bookingId, user, parsed.data);
+    res.status(201).json(dispute);
+  } catch (error: any) {
+    console.error("Error opening dispute:", error);
+    res.status(disputeErrorStatus(error.message || "")).json({ message: error.message || "Failed to open dispute" });
+  }
+});
+
+// GET /bookings/:id/disputes — dispute history for a booking
+router.get("/bookings/:id/disputes", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const access = await bookingAccessService.check(user, bookingId, "dispute");
+    if (!access.booking) return res.status(404).json({ message: "Booking not found" });
+    if (!access.allowed) {
+      return res.status(403).json({ message: "Not authorized to view disputes for this booking" });
+    }
+
+    const result = await disputeService.getDisputesForBooking(bookingId);
+    res.json(result);
+  } catch (error: any) {
+    console.error("Error fetching disputes:", error);
+    res.status(500).json({ message: "Failed to fetch disputes" });
+  }
+});
+
+router.get("/disputes/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const disputeId = parseInt(req.params.id as string, 10);
+    if (isNaN(disputeId)) {
+      return res.status(400).json({ message: "Invalid dispute ID" });
+    }
+
+    const dispute = await disputeService.getDisputeWithDetails(disputeId);
+    if (!dispute) return res.status(404).json({ message: "Dispute not found" });
+
+    const access = await bookingAccessService.check(user, dispute.bookingId, "dispute");
+    if (!access.allowed) {
+      return res.status(403).json({ message: "Not authorized to view this dispute" });
+    }
+
+    res.json(dispute);
+  } catch (error) {
+    console.error("Error fetching dispute:", error);
+    res.status(500).json({ message: "Failed to fetch dispute" });
+  }
+});
+
+// POST /disputes/:id/evidence — attach more of the caller's uploaded media
+router.post("/disputes/:id/evidence", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const disputeId = parseInt(req.params.id as string, 10);
+    if (isNaN(disputeId)) {
+      return res.status(400).json({ message: "Invalid dispute ID" });
+    }
+
+    const parsed = attachDisputeEvidenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    await disputeService.addEvidence(disputeId, user, parsed.data.mediaIds);
+    res.json(await disputeService.getDisputeWithDetails(disputeId));
+  } catch (error: any) {
+    console.error("Error adding dispute evidence:", error);
+    res.status(disputeErrorStatus(error.message || "")).json({ message: error.message || "Failed to add evidence" });
+  }
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import { Router, type Request, type Response } from "express";
+import PDFDocument from "pdfkit";
+import { bookingAccessService } from "../services/booking-access.service";
+import { invoiceService } from "../services/invoice.service";
+import type { Invoice } from "@shared/schema";
+import type { InvoiceLineItem } from "../invoice-utils";
+import { adminPermissionService } from "../services/admin-permission.service";
+
+const router = Router();
+
+// Recipients and admins with finance.view can view an invoice
+async function canViewInvoice(user: any, invoice: Invoice): Promise<boolean> {
+  return invoice.recipientUserId === user.id || adminPermissionService.userHas(user, "finance.view");
+}
+
+function formatMoney(currency: string | null, value: number | string | null): string {
+  return `${currency || "INR"} ${Number(value || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+// GET /invoices — invoices addressed to the current user
+router.get("/invoices", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const status = req.query.status as string | undefined;
+    const result = await invoiceService.listInvoices({ recipientUserId: user.id, status });
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching invoices:", error);
+    res.status(500).json({ message: "Failed to fetch invoices" });
+  }
+});
+
+// GET /bookings/:id/invoices — each party sees the invoice addressed to them; admins see both
+router.get("/bookings/:id/invoices", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const access = await bookingAccessService.check(user, bookingId, "payments");
+    if (!access.booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    if (!access.allowed) {
+      return res.status(403).json({ message: "Not authorized to view invoices for this booking" });
+    }
+
+    const result = await invoiceService.getInvoicesForBooking(bookingId);
+    const financeAdmin = await adminPermissionService.userHas(user, "finance.view");
+    res.json(result.filter((invoice) => financeAdmin || invoice.recipientUserId === user.id));
+  } catch (error) {
+    console.error("Error fetching booking invoices:", error);
+    res.status(500).json({ message: "Failed to fetch invoices" });
+  }
+});
+
+router.get("/invoices/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const invoice = await invoiceService.getInvoice(parseInt(req.params.id as string, 10));
+    if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+    if (!(await canViewInvoice(req.user, invoice))) {
+      return res.status(403).json({ message: "Not authorized to view this invoice" });
+    }
+    res.json(invoice);
+  } catch (error) {
+    console.error("Error fetching invoice:", error);
+    res.status(500).json({ message: "Failed to fetch invoice" });
+  }
+});
+
+/**
+ * GET /invoices/:id/pdf
+ * Generate a GST tax invoice PDF.
+ */
+router.get("/invoices/:id/pdf", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const invoice = await invoiceService.getInvoice(parseInt(req.params.id as string, 10));
+    if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+    if (!(await canViewInvoice(req.user, invoice))) {
+      return res.status(403).json({ message: "Not authorized to view this invoice" });
+    }
+
+    const supplier = (invoice.supplierDetails as Record<string, any>) || {};
+    const recipient = (invoice.recipientDetails as Record<string, any>) || {};
+    const meta = (invoice.metadata as Record<string, any>) || {};
+    const lines = (invoice.lineItems as InvoiceLineItem[]) || [];
+    const currency = invoice.currency;
+
+    const doc = new PDFDocument({ margin: 50 });
+    const filename = `Invoice_${invoice.invoiceNumber.replace(/\//g, "-")}.pdf`;
+
+    res.setHeader("Content-disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Content-type", "application/pdf");
+
+    doc.pipe(res);
+
+    doc.fontSize(16).font("Helvetica-Bold").text("TAX INVOICE", { align: "center" });
+    doc.moveDown();
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`);
+    doc.text(`Invoice Date: ${invoice.issuedAt ? new Date(invoice.issuedAt).toLocaleDateString("en-IN") : "N/A"}`);
+    if (invoice.dueAt) {
+      doc.text(`Due Date: ${new Date(invoice.dueAt).toLocaleDateString("en-IN")}`);
+    }
+    doc.text(`Booking Reference: BK-${invoice.bookingId}`);
+    if (meta.eventTitle) doc.text(`Event: ${meta.eventTitle}`);
+    doc.text(`Status: ${(invoice.status || "draft").toUpperCase()}`);
+    doc.moveDown();
+
+    doc.font("Helvetica-Bold").text("Supplier");
+    doc.font("Helvetica").text(supplier.name || "N/A");
+    if (supplier.address) doc.text(supplier.address);
+    doc.text(`GSTIN: ${supplier.gstin || "Not registered"}`);
+    doc.moveDown();
+
+    doc.font("Helvetica-Bold").text("Billed To");
+    doc.font("Helvetica").text(recipient.name || "N/A");
+    if (recipient.address) doc.text(recipient.address);
+    doc.text(`GSTIN: ${recipient.gstin || "Unregistered"}`);
+    if (recipient.pan) doc.text(`PAN: ${recipient.pan}`);
+    doc.text(`Place of Supply: ${invoice.placeOfSupply || "N/A"}`);
+    doc.moveDown();
+
+    doc.lineWidth(1).moveTo(50, doc.y).lineTo(550, doc.y).stroke();
+    doc.moveDown(0.5);
+    for (const line of lines) {
+      doc.text(`${line.description} (SAC ${line.sac})${line.taxable ? "" : " — not taxable"}`, { continued: true });
+      doc.text(formatMoney(currency, line.amount), { align: "right" });
+    }
+    doc.moveDown(0.5);
+    doc.lineWidth(1).moveTo(50, doc.y).lineTo(550, doc.y).stroke();
+    doc.moveDown(0.5);
+
+    const rate = Number(meta.gstRatePct || 0);
+    doc.text("Subtotal", { continued: true }).text(formatMoney(currency, invoice.subtotal), { align: "right" });
+    if (invoice.supplyType === "intra_state") {
+      doc.text(`CGST @ ${rate / 2}%`, { continued: true }).text(formatMoney(currency, invoice.cgstAmount), { align: "right" });
+      doc.text(`SGST @ ${rate / 2}%`, { continued: true }).text(formatMoney(currency, invoice.sgstAmount), { align: "right" });
+    } else {
+      doc.text(`IGST @ ${rate}%`, { continued: true }).text(formatMoney(currency, invoice.igstAmount), { align: "right" });
+    }
+    doc.font("Helvetica-Bold").text("Total", { continued: true }).text(formatMoney(currency, invoice.totalAmount), { align: "right" });
+    doc.font("Helvetica");
+
+    if (meta.deductedFromPayout) {
+      doc.moveDown();
+      doc.text(`This amount is deducted from the artist fee of ${formatMoney(currency, meta.grossArtistFee)} before payout.`);
+    }
+
+    doc.moveDown(2);
+    doc.fontSize(8).text("This is a computer generated invoice and does not require a signature.", { align: "center" });
+
+    doc.end();
+  } catch (error) {
+    console.error("Error generating invoice PDF:", error);
+    res.status(500).json({ message: "Failed to generate invoice PDF" });
+  }
+});
+
+export default router;
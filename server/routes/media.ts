@@ -2,6 +2,11 @@ import { Router } from "express";
 import multer from "multer";
 import { storage } from "../storage";
 import { z } from "zod";
+import { adminPermissionService } from "../services/admin-permission.service";
+import { bookingAccessService } from "../services/booking-access.service";
+import { disputeService } from "../services/dispute.service";
+import { mediaEntityScope, type BookingResource } from "../booking-access-utils";
+import type { ProfileAccess } from "../organization-utils";
 
 const router = Router();
 
@@ -32,6 +37,7 @@ const ENTITY_IMAGE_LIMITS: Record<string, number> = {
   venue_gallery: 20,
   organizer_logo: 1,
   event_cover: 3,
+  dispute_evidence: 20,
 };
 
 const DEFAULT_IMAGE_LIMIT = 10;
@@ -50,6 +56,40 @@ function toPublicRecord(record: any): any {
   return { ...rest, url: `/api/media/${record.id}/file` };
 }
 
+/**
+ * Whether the user may see ("view") or add to ("act") the media of a record
+ * private to a booking, e.g. a dispute's evidence: the booking's parties, and
+ * admins holding the record's permission for reads.
+ */
+async function canAccessBookingMedia(
+  user: any,
+  resource: BookingResource,
+  entityId: number,
+  required: ProfileAccess,
+): Promise<boolean> {
+  const bookingId = resource === "dispute"
+    ? (await disputeService.getDispute(entityId))?.bookingId
+    : entityId;
+  if (!bookingId) return false;
+  return (await bookingAccessService.check(user, bookingId, resource, required)).allowed;
+}
+
+/**
+ * Whether the user may see one media record. Public profile and event images
+ * are open to everyone; booking records to their parties; anything else to
+ * its uploader and admins with profiles.view.
+ */
+async function canViewMedia(user: any, record: { ownerUserId: number | null; entityType: string | null; entityId: number | null }): Promise<boolean> {
+  const scope = mediaEntityScope(record.entityType);
+  if (scope.kind === "public") return true;
+  if (!user) return false;
+  if (record.ownerUserId === user.id) return true;
+  if (scope.kind === "booking") {
+    return record.entityId !== null && canAccessBookingMedia(user, scope.resource, record.entityId, "view");
+  }
+  return adminPermissionService.userHas(user, "profiles.view");
+}
+
 // ---------------------------------------------------------------------------
 // POST /api/media/upload — Upload images from device (multipart form-data)
 // ---------------------------------------------------------------------------
@@ -82,6 +122,12 @@ router.post(
         }
       }
 
+      // Media on a booking record can only be added by the booking's parties
+      const scope = mediaEntityScope(entityType);
+      if (scope.kind === "booking" && !(entityId && await canAccessBookingMedia(user, scope.resource, entityId, "act"))) {
+        return res.status(403).json({ message: "Not authorized to add media to this entity" });
+      }
+
       // Enforce per-entity limits when entityType + entityId are provided
       if (entityType && entityId) {
         const maxAllowed =
@@ -151,6 +197,11 @@ router.post("/media/url", async (req, res) => {
 
     const { url, entityType, entityId, altText } = parsed.data;
 
+    const scope = mediaEntityScope(entityType);
+    if (scope.kind === "booking" && !(await canAccessBookingMedia(user, scope.resource, entityId, "act"))) {
+      return res.status(403).json({ message: "Not authorized to add media to this entity" });
+    }
+
     // Enforce per-entity limits
     const maxAllowed =
       ENTITY_IMAGE_LIMITS[entityType] ?? DEFAULT_IMAGE_LIMIT;
@@ -245,7 +296,8 @@ router.post("/media/url", async (req, res) => {
 });
 
 // ---------------------------------------------------------------------------
-// GET /api/media/:id/file — Serve image binary (or redirect for external URL)
+// GET /api/media/:id/file — Serve image binary (or redirect for external URL).
+// Profile and event images are public; other media needs canViewMedia.
 // ---------------------------------------------------------------------------
 router.get("/media/:id/file", async (req, res) => {
   try {
@@ -262,6 +314,11 @@ router.get("/media/:id/file", async (req, res) => {
       return res.status(404).json({ message: "Media not found" });
     }
 
+    const isPublic = mediaEntityScope(record.entityType).kind === "public";
+    if (!isPublic && !(await canViewMedia(req.isAuthenticated() ? req.user : null, record))) {
+      return res.status(req.isAuthenticated() ? 403 : 401).json({ message: "Not authorized to view this media" });
+    }
+
     // Base64 data URL
     if (record.data.startsWith("data:")) {
       const match = record.data.match(
@@ -277,7 +334,7 @@ router.get("/media/:id/file", async (req, res) => {
 
       res.set("Content-Type", mimeType);
       res.set("Content-Length", String(buffer.length));
-      res.set("Cache-Control", "public, max-age=86400");
+      res.set("Cache-Control", isPublic ? "public, max-age=86400" : "private, max-age=86400");
       return res.send(buffer);
     }
 
@@ -290,7 +347,9 @@ router.get("/media/:id/file", async (req, res) => {
 });
 
 // ---------------------------------------------------------------------------
-// GET /api/media/entity/:entityType/:entityId — List images for an entity
+// GET /api/media/entity/:entityType/:entityId — List images for an entity.
+// Public for profile and event images; booking records (dispute evidence)
+// need booking access; other entities list only what the caller may see.
 // ---------------------------------------------------------------------------
 router.get("/media/entity/:entityType/:entityId", async (req, res) => {
   try {
@@ -306,7 +365,18 @@ router.get("/media/entity/:entityType/:entityId", async (req, res) => {
       return res.status(400).json({ message: "Invalid entity ID format" });
     }
 
-    const records = await storage.getMediaByEntity(entityType, entityId);
+    const scope = mediaEntityScope(entityType);
+    if (scope.kind !== "public" && !req.isAuthenticated()) return res.sendStatus(401);
+    const user = req.user as any;
+
+    if (scope.kind === "booking" && !(await canAccessBookingMedia(user, scope.resource, entityId, "view"))) {
+      return res.status(403).json({ message: "Not authorized to view media for this entity" });
+    }
+
+    let records = await storage.getMediaByEntity(entityType, entityId);
+    if (scope.kind === "owner" && !(await adminPermissionService.userHas(user, "profiles.view"))) {
+      records = records.filter((record) => record.ownerUserId === user.id);
+    }
     const publicRecords = records.map(toPublicRecord);
 
     res.json(publicRecords);
@@ -317,7 +387,7 @@ router.get("/media/entity/:entityType/:entityId", async (req, res) => {
 });
 
 // ---------------------------------------------------------------------------
-// DELETE /api/media/:id — Delete a media record (owner or admin only)
+// DELETE /api/media/:id — Delete a media record (owner or admin with profiles.edit)
 // ---------------------------------------------------------------------------
 router.delete("/media/:id", async (req, res) => {
   if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -338,9 +408,7 @@ router.delete("/media/:id", async (req, res) => {
       return res.status(404).json({ message: "Media not found" });
     }
 
-    const userRole = user.role || (user.metadata as any)?.role;
-    const isAdmin =
-      userRole === "admin" || userRole === "platform_admin";
+    const isAdmin = await adminPermissionService.userHas(user, "profiles.edit");
 
     if (record.ownerUserId !== user.id && !isAdmin) {
       return res
@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { api } from "@shared/routes";
+import { api, updateNotificationPreferencesSchema } from "@shared/routes";
+import { notificationService } from "../services/notification.service";
+import { notificationPreferenceService } from "../services/notification-preference.service";
+import { activeRole } from "../role-resolver";
 
 const router = Router();
 
@@ -70,4 +73,42 @@ router.post(api.notifications.markAllRead.path, async (req, res) => {
   }
 });
 
+// GET /api/notification-preferences — per-type channel switches, quiet hours and digest mode
+router.get(api.notifications.preferences.path, async (req, res) => {
+  if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const user = req.user as any;
+    const role = activeRole(user);
+    const view = await notificationPreferenceService.getForUser(user, role, notificationService.availableChannels());
+    res.json(view);
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    res.status(500).json({ message: "Failed to fetch notification preferences" });
+  }
+});
+
+// PUT /api/notification-preferences — update channel switches and/or settings
+router.put(api.notifications.updatePreferences.path, async (req, res) => {
+  if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+
+  try {
+    const user = req.user as any;
+    await notificationPreferenceService.update(user.id, parsed.data);
+    const role = activeRole(user);
+    res.json(await notificationPreferenceService.getForUser(user, role, notificationService.availableChannels()));
+  } catch (error: any) {
+    if (error.message?.startsWith("Unknown notification type")) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating notification preferences:", error);
+    res.status(500).json({ message: "Failed to update notification preferences" });
+  }
+});
+
 export default router;
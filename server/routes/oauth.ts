@@ -0,0 +1,176 @@
+import { Router, type Request, type Response } from "express";
+import { storage } from "../storage";
+import { loadAuthUser } from "../auth";
+import { oauthService } from "../services/oauth.service";
+import { twoFactorService } from "../services/two-factor.service";
+import { getIdentityProvider, listIdentityProviders } from "../services/identity-providers";
+import { appBaseUrl } from "../services/notification-channels";
+import { LOGIN_CHALLENGE_TTL_MS } from "../two-factor-utils";
+import {
+  OAUTH_STATE_TTL_MS,
+  oauthStateError,
+  randomUrlToken,
+  safeNextPath,
+  withQueryParam,
+  type OAuthMode,
+} from "../oauth-utils";
+
+const router = Router();
+
+function oauthErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Set a password")) return 409;
+  return 400;
+}
+
+/** Registered with the provider, so built from the public origin rather than the request */
+function callbackUrl(provider: string): string {
+  return `${appBaseUrl().replace(/\/+$/, "")}/api/auth/oauth/${provider}/callback`;
+}
+
+// ============================================================================
+// SIGN-IN FLOW
+// ============================================================================
+
+// GET /auth/oauth/providers — configured providers, for sign-in buttons
+router.get("/auth/oauth/providers", (_req: Request, res: Response) => {
+  res.json(listIdentityProviders().map(({ name, label }) => ({ name, label })));
+});
+
+// GET /auth/oauth/:provider/start — browser navigation; redirects to the provider.
+// ?mode=link links the identity to the signed-in user instead of signing in.
+router.get("/auth/oauth/:provider/start", async (req: Request, res: Response) => {
+  const provider = getIdentityProvider(req.params.provider as string);
+  if (!provider) return res.status(404).json({ message: "Sign-in provider not found" });
+
+  const mode: OAuthMode = req.query.mode === "link" ? "link" : "login";
+  if (mode === "link" && !req.isAuthenticated()) return res.redirect("/auth");
+
+  const state = {
+    provider: provider.name,
+    mode,
+    state: randomUrlToken(),
+    nonce: randomUrlToken(),
+    codeVerifier: randomUrlToken(48),
+    userId: mode === "link" ? (req.user as any).id : undefined,
+    next: safeNextPath(req.query.next, mode === "link" ? "/profile" : "/dashboard"),
+    expiresAt: Date.now() + OAUTH_STATE_TTL_MS,
+  };
+
+  try {
+    const url = await provider.authorizationUrl({
+      redirectUri: callbackUrl(provider.name),
+      state: state.state,
+      nonce: state.nonce,
+      codeVerifier: state.codeVerifier,
+    });
+    req.session.oauth = state;
+    res.redirect(url);
+  } catch (error: any) {
+    console.error(`Error starting ${provider.name} sign-in:`, error);
+    const back = mode === "link" ? state.next : "/auth";
+    res.redirect(withQueryParam(back, "oauthError", `Could not reach ${provider.label}. Please try again.`));
+  }
+});
+
+// GET /auth/oauth/:provider/callback — the provider sends the browser back here
+router.get("/auth/oauth/:provider/callback", async (req: Request, res: Response) => {
+  const providerName = req.params.provider as string;
+  const provider = getIdentityProvider(providerName);
+  const saved = req.session.oauth;
+  delete req.session.oauth;
+
+  const fail = (message: string) => {
+    const back = saved?.mode === "link" ? saved.next : "/auth";
+    res.redirect(withQueryParam(back, "oauthError", message));
+  };
+
+  if (!provider) return fail("Sign-in provider not found");
+  const stateError = oauthStateError(saved, providerName, req.query.state);
+  if (stateError || !saved) return fail(stateError || "Sign-in request not recognised. Please try again.");
+  if (typeof req.query.error === "string") {
+    return fail(req.query.error === "access_denied" ? `${provider.label} sign-in was cancelled` : `${provider.label} sign-in failed`);
+  }
+  if (typeof req.query.code !== "string") return fail(`${provider.label} sign-in failed`);
+
+  let identity;
+  try {
+    identity = await provider.exchangeCode({
+      code: req.query.code,
+      redirectUri: callbackUrl(provider.name),
+      nonce: saved.nonce,
+      codeVerifier: saved.codeVerifier,
+    });
+  } catch (error: any) {
+    console.error(`Error completing ${provider.name} sign-in:`, error);
+    return fail(`${provider.label} sign-in failed. Please try again.`);
+  }
+
+  if (saved.mode === "link") {
+    const user = req.user as any;
+    if (!req.isAuthenticated() || user.id !== saved.userId) return fail("Sign in again to link this account");
+    try {
+      await oauthService.link(user.id, provider, identity);
+      return res.redirect(withQueryParam(saved.next, "linked", provider.name));
+    } catch (error: any) {
+      return fail(error.message || "Failed to link account");
+    }
+  }
+
+  try {
+    const userId = await oauthService.signIn(provider, identity);
+
+    // The provider stands in for the password; 2FA still applies
+    if (await twoFactorService.isEnabled(userId)) {
+      req.session.pendingTwoFactor = { userId, expiresAt: Date.now() + LOGIN_CHALLENGE_TTL_MS, attempts: 0 };
+      return res.redirect(`/auth?twoFactor=1&next=${encodeURIComponent(saved.next)}`);
+    }
+
+    const user = await loadAuthUser(userId);
+    if (!user) return fail("Account not found");
+    req.login(user, async (loginErr) => {
+      if (loginErr) {
+        console.error("Session login error:", loginErr);
+        return fail("Failed to establish session");
+      }
+      await storage.createAuditLog({
+        who: user.id,
+        action: "user_login",
+        entityType: "user",
+        entityId: user.id,
+        context: { provider: provider.name },
+      });
+      res.redirect(saved.next);
+    });
+  } catch (error: any) {
+    fail(error.message || `${provider.label} sign-in failed`);
+  }
+});
+
+// ============================================================================
+// LINKED ACCOUNTS
+// ============================================================================
+
+// GET /auth/oauth/links — identities linked to the signed-in user
+router.get("/auth/oauth/links", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    res.json(await oauthService.listLinks((req.user as any).id));
+  } catch (error: any) {
+    console.error("Error fetching linked accounts:", error);
+    res.status(500).json({ message: "Failed to fetch linked accounts" });
+  }
+});
+
+// DELETE /auth/oauth/links/:id — unlink an identity
+router.delete("/auth/oauth/links/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    await oauthService.unlink((req.user as any).id, parseInt(req.params.id as string, 10));
+    res.sendStatus(204);
+  } catch (error: any) {
+    res.status(oauthErrorStatus(error.message || "")).json({ message: error.message || "Failed to unlink account" });
+  }
+});
+
+export default router;
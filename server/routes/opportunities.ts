@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage";
+import { actingOrganizer, actingVenue } from "../services/organization.service";
 import { z } from "zod";
 
 const router = Router();
@@ -17,11 +18,11 @@ router.post("/opportunities", async (req, res) => {
         let organizerId: number | null = null;
 
         if (user.role === 'venue' || user.role === 'venue_manager') {
-            const venue = await storage.getVenueByUserId(user.id);
+            const venue = await actingVenue(user);
             if (!venue) return res.status(400).json({ message: "Venue profile not found" });
             venueId = venue.id;
         } else if (user.role === 'organizer') {
-            const organizer = await storage.getOrganizerByUserId(user.id);
+            const organizer = await actingOrganizer(user);
             if (!organizer) return res.status(400).json({ message: "Organizer profile not found" });
             organizerId = organizer.id;
         }
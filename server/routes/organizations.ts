@@ -0,0 +1,290 @@
+import { Router, type Request, type Response } from "express";
+import {
+  actingProfileSchema,
+  createOrganizationSchema,
+  organizationInviteSchema,
+  organizationMemberRoleSchema,
+  profileRefSchema,
+  updateOrganizationSchema,
+} from "@shared/routes";
+import { organizationService } from "../services/organization.service";
+import { PROFILE_TYPES, type ProfileType } from "../organization-utils";
+
+const router = Router();
+
+function organizationErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Only") || message.startsWith("Not authorized") || message.includes("different email address")) return 403;
+  if (message.startsWith("An organization must") || message.includes("already")) return 409;
+  return 400;
+}
+
+function parseId(value: unknown): number {
+  return parseInt(value as string, 10);
+}
+
+// ============================================================================
+// ORGANIZATIONS
+// ============================================================================
+
+// GET /organizations — organizations the user belongs to, with their role
+router.get("/organizations", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    res.json(await organizationService.listForUser((req.user as any).id));
+  } catch (error: any) {
+    console.error("Error fetching organizations:", error);
+    res.status(500).json({ message: "Failed to fetch organizations" });
+  }
+});
+
+// POST /organizations — create an organization; the creator becomes its owner
+router.post("/organizations", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const parsed = createOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.status(201).json(await organizationService.create((req.user as any).id, parsed.data));
+  } catch (error: any) {
+    console.error("Error creating organization:", error);
+    res.status(500).json({ message: "Failed to create organization" });
+  }
+});
+
+// GET /organizations/:id — organization with members, profiles and (for managers) pending invites
+router.get("/organizations/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+
+    res.json(await organizationService.getDetails(orgId, (req.user as any).id));
+  } catch (error: any) {
+    if (error.message === "Organization not found") return res.status(404).json({ message: error.message });
+    console.error("Error fetching organization:", error);
+    res.status(500).json({ message: "Failed to fetch organization" });
+  }
+});
+
+// PATCH /organizations/:id — owners and managers edit the organization
+router.patch("/organizations/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+
+    const parsed = updateOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.json(await organizationService.update(orgId, (req.user as any).id, parsed.data));
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to update organization" });
+  }
+});
+
+// DELETE /organizations/:id — owners delete the organization; its profiles stay with their users
+router.delete("/organizations/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+
+    await organizationService.remove(orgId, (req.user as any).id);
+    res.json({ message: "Organization deleted" });
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to delete organization" });
+  }
+});
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+// PATCH /organizations/:id/members/:userId — owners change a member's role
+router.patch("/organizations/:id/members/:userId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    const memberId = parseId(req.params.userId);
+    if (isNaN(orgId) || isNaN(memberId)) return res.status(400).json({ message: "Invalid ID" });
+
+    const parsed = organizationMemberRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    await organizationService.updateMemberRole(orgId, (req.user as any).id, memberId, parsed.data.role);
+    res.json({ message: "Role updated" });
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to update member" });
+  }
+});
+
+// DELETE /organizations/:id/members/:userId — owners remove a member, or a member leaves
+router.delete("/organizations/:id/members/:userId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    const memberId = parseId(req.params.userId);
+    if (isNaN(orgId) || isNaN(memberId)) return res.status(400).json({ message: "Invalid ID" });
+
+    await organizationService.removeMember(orgId, (req.user as any).id, memberId);
+    res.json({ message: "Member removed" });
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove member" });
+  }
+});
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+// POST /organizations/:id/invites — owners and managers invite someone by email
+router.post("/organizations/:id/invites", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+
+    const parsed = organizationInviteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.status(201).json(await organizationService.invite(orgId, (req.user as any).id, parsed.data));
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to send invite" });
+  }
+});
+
+// DELETE /organizations/:id/invites/:inviteId — revoke a pending invite
+router.delete("/organizations/:id/invites/:inviteId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    const inviteId = parseId(req.params.inviteId);
+    if (isNaN(orgId) || isNaN(inviteId)) return res.status(400).json({ message: "Invalid ID" });
+
+    await organizationService.revokeInvite(orgId, (req.user as any).id, inviteId);
+    res.json({ message: "Invite revoked" });
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to revoke invite" });
+  }
+});
+
+// GET /organization-invites/:token — what the invite is for, shown before signing in to accept
+router.get("/organization-invites/:token", async (req: Request, res: Response) => {
+  try {
+    res.json(await organizationService.previewInvite(req.params.token as string));
+  } catch (error: any) {
+    if (error.message === "Invite not found") return res.status(404).json({ message: error.message });
+    console.error("Error fetching invite:", error);
+    res.status(500).json({ message: "Failed to fetch invite" });
+  }
+});
+
+// POST /organization-invites/:token/accept — join the organization; the account email must match the invite
+router.post("/organization-invites/:token/accept", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    res.json(await organizationService.acceptInvite(req.params.token as string, req.user as any));
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to accept invite" });
+  }
+});
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+// POST /organizations/:id/profiles — add one of the user's own artist, organizer or venue profiles
+router.post("/organizations/:id/profiles", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+
+    const parsed = profileRefSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.status(201).json(await organizationService.attachProfile(orgId, (req.user as any).id, parsed.data));
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to add profile" });
+  }
+});
+
+// DELETE /organizations/:id/profiles/:type/:profileId — take a profile out of the organization
+router.delete("/organizations/:id/profiles/:type/:profileId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const orgId = parseId(req.params.id);
+    const profileId = parseId(req.params.profileId);
+    const type = req.params.type as ProfileType;
+    if (isNaN(orgId) || isNaN(profileId) || !PROFILE_TYPES.includes(type)) {
+      return res.status(400).json({ message: "Invalid profile" });
+    }
+
+    await organizationService.detachProfile(orgId, (req.user as any).id, { type, id: profileId });
+    res.json({ message: "Profile removed" });
+  } catch (error: any) {
+    res.status(organizationErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove profile" });
+  }
+});
+
+// ============================================================================
+// ACTING PROFILE
+// ============================================================================
+
+// GET /me/profiles — profiles the user may act as, and the one currently chosen
+router.get("/me/profiles", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const profiles = await organizationService.actingProfilesFor(user.id);
+    const acting = user.actingProfile ? { type: user.actingProfile.type, id: user.actingProfile.id } : null;
+    res.json({ profiles, acting });
+  } catch (error: any) {
+    console.error("Error fetching profiles:", error);
+    res.status(500).json({ message: "Failed to fetch profiles" });
+  }
+});
+
+// PUT /me/acting-profile — act as an organization profile for this session, or null for the user's own
+router.put("/me/acting-profile", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const parsed = actingProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const user = req.user as any;
+    if (!parsed.data.profile) {
+      delete req.session.actingProfile;
+      return res.json({ acting: null });
+    }
+
+    const profile = await organizationService.resolveActingProfile(user.id, parsed.data.profile);
+    if (!profile) return res.status(403).json({ message: "Not authorized to act for this profile" });
+
+    // Acting as your own profile is the default, so it needs no session state
+    if (profile.own) {
+      delete req.session.actingProfile;
+    } else {
+      req.session.actingProfile = { type: profile.type, id: profile.id };
+    }
+    res.json({ acting: profile.own ? null : profile });
+  } catch (error: any) {
+    console.error("Error switching acting profile:", error);
+    res.status(500).json({ message: "Failed to switch profile" });
+  }
+});
+
+export default router;
@@ -1,7 +1,9 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { organizerOnboardingSchema, organizerProfileUpdateSchema, createEventSchema, completionConfirmSchema } from "@shared/routes";
 import { storage } from "../storage";
-import { emitDomainEvent } from "../services/event-bus";
+import { actingOrganizer } from "../services/organization.service";
+import { bookingService } from "../services/booking.service";
+import { activeRole, profileTypeForRole } from "../role-resolver";
 
 const router = Router();
 
@@ -16,8 +18,7 @@ function isAuthenticated(req: Request, res: Response, next: NextFunction) {
 // Middleware: require organizer or promoter role
 function isOrganizer(req: Request, res: Response, next: NextFunction) {
   const user = req.user as any;
-  const role = user.role || user.metadata?.role;
-  if (role !== "organizer" && role !== "promoter") {
+  if (profileTypeForRole(activeRole(user)) !== "organizer") {
     return res.status(403).json({ message: "Organizer or promoter role required" });
   }
   next();
@@ -30,7 +31,7 @@ router.use("/organizer", isAuthenticated, isOrganizer);
 router.get("/organizer/profile", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -52,7 +53,7 @@ router.put("/organizer/profile", async (req: Request, res: Response) => {
     if (!parsed.success) {
       return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
     }
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -116,7 +117,7 @@ router.post("/organizer/profile/complete", async (req: Request, res: Response) =
 router.get("/organizer/profile/status", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -131,7 +132,7 @@ router.get("/organizer/profile/status", async (req: Request, res: Response) => {
 router.get("/organizer/dashboard", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -158,7 +159,7 @@ router.get("/organizer/activity", async (req: Request, res: Response) => {
 router.get("/organizer/events", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -178,7 +179,7 @@ router.post("/organizer/events", async (req: Request, res: Response) => {
     if (!parsed.success) {
       return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
     }
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -223,7 +224,7 @@ router.get("/organizer/events/:id", async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid event ID" });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -252,7 +253,7 @@ router.put("/organizer/events/:id", async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid event ID" });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -306,7 +307,7 @@ router.delete("/organizer/events/:id", async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid event ID" });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -341,7 +342,7 @@ router.put("/organizer/events/:id/publish", async (req: Request, res: Response)
       return res.status(400).json({ message: "Invalid event ID" });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -368,7 +369,7 @@ router.put("/organizer/events/:id/publish", async (req: Request, res: Response)
 router.get("/organizer/bookings", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -391,7 +392,7 @@ router.get("/organizer/bookings/:id", async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid booking ID" });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -427,7 +428,7 @@ router.post("/organizer/bookings/:id/complete", async (req: Request, res: Respon
       return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
     }
 
-    const organizer = await storage.getOrganizerByUserId(user.id);
+    const organizer = await actingOrganizer(user);
     if (!organizer) {
       return res.status(404).json({ message: "Organizer profile not found" });
     }
@@ -442,45 +443,12 @@ router.post("/organizer/bookings/:id/complete", async (req: Request, res: Respon
       return res.status(403).json({ message: "Not authorized to complete this booking" });
     }
 
-    const existingMeta = (booking.meta as Record<string, any>) || {};
-    const completionFeedback = existingMeta.completionFeedback || {};
-
-    // Record organizer's confirmation
-    completionFeedback.organizer = {
-      confirmedBy: "organizer",
-      rating: parsed.data.rating,
-      note: parsed.data.note,
-      confirmedAt: new Date().toISOString(),
-    };
-
-    const newMeta = {
-      ...existingMeta,
-      completionFeedback,
-    };
-
-    // If both organizer and artist have confirmed, update status to completed
-    const bothConfirmed = completionFeedback.organizer && completionFeedback.artist;
-    const updateData: Record<string, any> = { meta: newMeta };
-    if (bothConfirmed) {
-      updateData.status = "completed";
-    }
-
-    const updated = await storage.updateBooking(bookingId, updateData);
-
-    if (bothConfirmed) {
-      const completedDetails = await storage.getBookingWithDetails(bookingId);
-      emitDomainEvent("booking.confirmed", {
-        bookingId,
-        entityType: "booking",
-        entityId: bookingId,
-        eventTitle: completedDetails?.event?.title || "Event",
-        newStatus: "completed",
-        actionUrl: `/bookings?bookingId=${bookingId}`,
-      }, (req.user as any).id);
-    }
-
+    const updated = await bookingService.confirmCompletion(bookingId, "organizer", parsed.data, user.id);
     return res.json(updated);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message?.startsWith("Booking cannot be completed")) {
+      return res.status(400).json({ message: error.message });
+    }
     return res.status(500).json({ message: "Failed to confirm completion" });
   }
 });
@@ -0,0 +1,73 @@
+import { Router, type Request, type Response } from "express";
+import { storage } from "../storage";
+import { bookingAccessService } from "../services/booking-access.service";
+import { escrowService } from "../services/escrow.service";
+
+const router = Router();
+
+// ============================================================================
+// ESCROW LEDGER
+// ============================================================================
+
+// GET /bookings/:id/payments — deposit/balance payments, payouts and escrow balance
+router.get("/bookings/:id/payments", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    // Both parties (including their organizations' members) and admins with finance.view
+    const access = await bookingAccessService.check(req.user, bookingId, "payments");
+    if (!access.booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    if (!access.allowed) {
+      return res.status(403).json({ message: "Not authorized to view payments for this booking" });
+    }
+
+    const ledger = await escrowService.getLedger(bookingId);
+    res.json(ledger);
+  } catch (error) {
+    console.error("Error fetching booking ledger:", error);
+    res.status(500).json({ message: "Failed to fetch payments" });
+  }
+});
+
+// POST /payments/:id/pay — the payer settles an initiated payment through the gateway
+router.post("/payments/:id/pay", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const paymentId = parseInt(req.params.id as string, 10);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid payment ID" });
+    }
+
+    const payment = await storage.getPayment(paymentId);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    if (payment.payerId !== user.id) {
+      return res.status(403).json({ message: "Only the payer can settle this payment" });
+    }
+
+    const updated = await escrowService.capturePayment(paymentId, user.id);
+    if (updated.status !== "captured") {
+      return res.status(402).json({ message: "Payment was declined", payment: updated });
+    }
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Error capturing payment:", error);
+    if (error.message?.startsWith("Payment cannot be captured")) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error.message === "Payment is already being captured") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: "Failed to process payment" });
+  }
+});
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router, type Request, type Response } from "express";
+import { submitReviewSchema } from "@shared/routes";
+import { reviewService } from "../services/review.service";
+import { adminPermissionService } from "../services/admin-permission.service";
+
+const router = Router();
+
+const REVIEW_SUBJECTS = ["artist", "organizer", "venue"] as const;
+
+function reviewErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Only the booking's")) return 403;
+  if (message.includes("already been submitted")) return 409;
+  return 400;
+}
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+// POST /bookings/:id/reviews — artist or organizer reviews the other side of a completed booking
+router.post("/bookings/:id/reviews", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const parsed = submitReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const review = await reviewService.submit(bookingId, user.id, {
+      subjectType: parsed.data.subjectType,
+      ratings: parsed.data.ratings as Record<string, number>,
+      comment: parsed.data.comment,
+    });
+    res.status(201).json(review);
+  } catch (error: any) {
+    console.error("Error submitting review:", error);
+    res.status(reviewErrorStatus(error.message || "")).json({ message: error.message || "Failed to submit review" });
+  }
+});
+
+// GET /bookings/:id/reviews — the caller's own reviews plus the other side's once revealed
+router.get("/bookings/:id/reviews", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const bookingId = parseInt(req.params.id as string, 10);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const isAdmin = await adminPermissionService.userHas(user, "reviews.moderate");
+    if (!isAdmin && !(await reviewService.getPartyRole(bookingId, user.id))) {
+      return res.status(403).json({ message: "Not authorized to view reviews for this booking" });
+    }
+
+    res.json(await reviewService.getForBooking(bookingId, user.id, isAdmin));
+  } catch (error: any) {
+    if (error.message === "Booking not found") return res.status(404).json({ message: error.message });
+    console.error("Error fetching booking reviews:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+});
+
+// GET /reviews/:subjectType/:subjectId — published reviews shown on a profile
+router.get("/reviews/:subjectType/:subjectId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const subjectType = req.params.subjectType as (typeof REVIEW_SUBJECTS)[number];
+    const subjectId = parseInt(req.params.subjectId as string, 10);
+    if (!REVIEW_SUBJECTS.includes(subjectType) || isNaN(subjectId)) {
+      return res.status(400).json({ message: "Invalid review subject" });
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    res.json(await reviewService.listForSubject(subjectType, subjectId, limit));
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import { Router, type Request, type Response } from "express";
+import { roleSelectionSchema } from "@shared/routes";
+import { loadAuthUser } from "../auth";
+import { userRoleService } from "../services/user-role.service";
+import { normalizeRole, profileTypeForRole } from "../role-resolver";
+import { SELF_ASSIGNABLE_ROLES } from "../role-utils";
+
+const router = Router();
+
+function roleErrorStatus(message: string): number {
+  if (message.endsWith("not found") || message === "Role not assigned") return 404;
+  if (message.includes("already") || message.startsWith("A user must keep")) return 409;
+  return 400;
+}
+
+function isSelfAssignable(role: string): boolean {
+  return (SELF_ASSIGNABLE_ROLES as readonly string[]).includes(normalizeRole(role));
+}
+
+// ============================================================================
+// ASSIGNED ROLES
+// ============================================================================
+
+// GET /me/roles — roles the user holds, the primary one and the one this session acts in
+router.get("/me/roles", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const { roles, primary } = await userRoleService.rolesFor(user.id);
+    res.json({
+      roles,
+      primary,
+      active: user.role,
+      selfAssignable: SELF_ASSIGNABLE_ROLES.filter((role) => !roles.includes(role)),
+    });
+  } catch (error: any) {
+    console.error("Error fetching roles:", error);
+    res.status(500).json({ message: "Failed to fetch roles" });
+  }
+});
+
+// POST /me/roles — add a role to your own account (admin and staff roles are granted by an admin)
+router.post("/me/roles", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = roleSelectionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  if (!isSelfAssignable(parsed.data.role)) {
+    return res.status(403).json({ message: "This role can only be granted by an admin" });
+  }
+  try {
+    const userId = (req.user as any).id;
+    res.status(201).json(await userRoleService.assign(userId, parsed.data.role, userId));
+  } catch (error: any) {
+    res.status(roleErrorStatus(error.message || "")).json({ message: error.message || "Failed to add role" });
+  }
+});
+
+// DELETE /me/roles/:role — give up a role; the last one cannot be removed
+router.delete("/me/roles/:role", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const role = req.params.role as string;
+  if (!isSelfAssignable(role)) {
+    return res.status(403).json({ message: "This role can only be removed by an admin" });
+  }
+  try {
+    const userId = (req.user as any).id;
+    res.json(await userRoleService.remove(userId, role, userId));
+  } catch (error: any) {
+    res.status(roleErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove role" });
+  }
+});
+
+// ============================================================================
+// ACTIVE ROLE
+// ============================================================================
+
+// PUT /me/active-role — act in another of your roles for the rest of this session
+router.put("/me/active-role", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = roleSelectionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const user = req.user as any;
+    const role = normalizeRole(parsed.data.role);
+    if (!(user.roles as string[]).includes(role)) {
+      return res.status(403).json({ message: "You do not have this role" });
+    }
+
+    req.session.activeRole = role;
+    // An organization profile of another kind belongs to the previous role
+    if (req.session.actingProfile && req.session.actingProfile.type !== profileTypeForRole(role)) {
+      delete req.session.actingProfile;
+    }
+    res.json(await loadAuthUser(user.id, role));
+  } catch (error: any) {
+    console.error("Error switching role:", error);
+    res.status(500).json({ message: "Failed to switch role" });
+  }
+});
+
+export default router;
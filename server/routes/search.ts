@@ -0,0 +1,52 @@
+import { Router, type Request, type Response } from "express";
+import { artistSearchSchema, globalSearchSchema } from "@shared/routes";
+import { searchService } from "../services/search.service";
+
+const router = Router();
+
+function searchErrorStatus(message: string): number {
+  if (message === "Invalid cursor" || message.startsWith("Unknown artist category")) return 400;
+  return 500;
+}
+
+// ============================================================================
+// ARTIST SEARCH
+// ============================================================================
+
+// GET /artists/search — full-text artist directory search with filters, facets and cursor pagination
+router.get("/artists/search", async (req: Request, res: Response) => {
+  try {
+    const parsed = artistSearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.json(await searchService.searchArtists(parsed.data));
+  } catch (error: any) {
+    console.error("Error searching artists:", error);
+    const status = searchErrorStatus(error.message || "");
+    res.status(status).json({ message: status === 500 ? "Failed to search artists" : error.message });
+  }
+});
+
+// ============================================================================
+// GLOBAL SEARCH
+// ============================================================================
+
+// GET /search — best matches per result type the user's role may see, for the command palette
+router.get("/search", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const parsed = globalSearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    res.json(await searchService.searchAll(parsed.data, req.user as any));
+  } catch (error: any) {
+    console.error("Error running global search:", error);
+    res.status(500).json({ message: "Failed to search" });
+  }
+});
+
+export default router;
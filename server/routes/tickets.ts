@@ -0,0 +1,322 @@
+import { Router, type Request, type Response } from "express";
+import QRCode from "qrcode";
+import {
+  ticketTierSchema,
+  updateTicketTierSchema,
+  createTicketOrderSchema,
+  refundTicketOrderSchema,
+  addGuestSchema,
+  ticketCheckInSchema,
+} from "@shared/routes";
+import { ticketingService } from "../services/ticketing.service";
+import { adminPermissionService } from "../services/admin-permission.service";
+
+const router = Router();
+
+function ticketErrorStatus(message: string): number {
+  if (message.endsWith("not found")) return 404;
+  if (message.startsWith("Only the") || message.startsWith("Not authorized")) return 403;
+  if (message.includes("capacity") || message.includes("left") || message.includes("sold out")) return 409;
+  if (message === "Payment failed" || message.startsWith("Declined")) return 402;
+  return 400;
+}
+
+function parseId(value: unknown): number {
+  return parseInt(value as string, 10);
+}
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+// GET /events/:id/ticket-tiers — the event with its tiers, live prices and availability
+router.get("/events/:id/ticket-tiers", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.view");
+    res.json(await ticketingService.listTiers(eventId, user.id, asAdmin));
+  } catch (error: any) {
+    if (error.message === "Event not found") return res.status(404).json({ message: error.message });
+    console.error("Error fetching ticket tiers:", error);
+    res.status(500).json({ message: "Failed to fetch ticket tiers" });
+  }
+});
+
+// POST /events/:id/ticket-tiers — organizer adds a tier
+router.post("/events/:id/ticket-tiers", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const parsed = ticketTierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    const tier = await ticketingService.createTier(eventId, user.id, asAdmin, parsed.data);
+    res.status(201).json(tier);
+  } catch (error: any) {
+    console.error("Error creating ticket tier:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to create ticket tier" });
+  }
+});
+
+// PATCH /ticket-tiers/:id — organizer edits a tier
+router.patch("/ticket-tiers/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const tierId = parseId(req.params.id);
+    if (isNaN(tierId)) return res.status(400).json({ message: "Invalid tier ID" });
+
+    const parsed = updateTicketTierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    res.json(await ticketingService.updateTier(tierId, user.id, asAdmin, parsed.data));
+  } catch (error: any) {
+    console.error("Error updating ticket tier:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to update ticket tier" });
+  }
+});
+
+// DELETE /ticket-tiers/:id — deletes an unsold tier, deactivates one with tickets
+router.delete("/ticket-tiers/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const tierId = parseId(req.params.id);
+    if (isNaN(tierId)) return res.status(400).json({ message: "Invalid tier ID" });
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    res.json(await ticketingService.removeTier(tierId, user.id, asAdmin));
+  } catch (error: any) {
+    console.error("Error removing ticket tier:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove ticket tier" });
+  }
+});
+
+// GET /events/:id/ticketing — organizer sales, guestlist and check-in summary
+router.get("/events/:id/ticketing", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.view");
+    res.json(await ticketingService.getSummary(eventId, user.id, asAdmin));
+  } catch (error: any) {
+    console.error("Error fetching ticketing summary:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to fetch ticketing summary" });
+  }
+});
+
+// ============================================================================
+// ORDERS & TICKETS
+// ============================================================================
+
+// POST /events/:id/ticket-orders — reserve tickets; paid orders must be paid before they expire
+router.post("/events/:id/ticket-orders", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const parsed = createTicketOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const order = await ticketingService.createOrder(eventId, user.id, {
+      ...parsed.data,
+      buyerName: parsed.data.buyerName || user.displayName || user.username,
+      buyerEmail: parsed.data.buyerEmail || user.email || undefined,
+    });
+    res.status(201).json(order);
+  } catch (error: any) {
+    console.error("Error creating ticket order:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to create order" });
+  }
+});
+
+// POST /ticket-orders/:id/pay — take payment through the gateway and issue the tickets
+router.post("/ticket-orders/:id/pay", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const orderId = parseId(req.params.id);
+    if (isNaN(orderId)) return res.status(400).json({ message: "Invalid order ID" });
+
+    res.json(await ticketingService.payOrder(orderId, user.id));
+  } catch (error: any) {
+    console.error("Error paying ticket order:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to pay for order" });
+  }
+});
+
+// POST /ticket-orders/:id/cancel — buyer abandons an unpaid order
+router.post("/ticket-orders/:id/cancel", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const orderId = parseId(req.params.id);
+    if (isNaN(orderId)) return res.status(400).json({ message: "Invalid order ID" });
+
+    await ticketingService.cancelOrder(orderId, user.id);
+    res.json({ message: "Order cancelled" });
+  } catch (error: any) {
+    console.error("Error cancelling ticket order:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to cancel order" });
+  }
+});
+
+// POST /ticket-orders/:id/refund — organizer or admin refunds a paid order
+router.post("/ticket-orders/:id/refund", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const orderId = parseId(req.params.id);
+    if (isNaN(orderId)) return res.status(400).json({ message: "Invalid order ID" });
+
+    const parsed = refundTicketOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "finance.manage");
+    res.json(await ticketingService.refundOrder(orderId, user.id, asAdmin, parsed.data.reason));
+  } catch (error: any) {
+    console.error("Error refunding ticket order:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to refund order" });
+  }
+});
+
+// GET /tickets/mine — the caller's orders with their tickets
+router.get("/tickets/mine", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    res.json(await ticketingService.listOrdersForBuyer(user.id));
+  } catch (error) {
+    console.error("Error fetching tickets:", error);
+    res.status(500).json({ message: "Failed to fetch tickets" });
+  }
+});
+
+// GET /tickets/:code/qr — PNG QR code encoding the ticket code
+router.get("/tickets/:code/qr", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const asAdmin = await adminPermissionService.userHas(user, "events.view");
+    const ticket = await ticketingService.getTicketForHolder(req.params.code as string, user.id, asAdmin);
+
+    const png = await QRCode.toBuffer(ticket.code, { type: "png", errorCorrectionLevel: "M", margin: 2, width: 320 });
+    res.set("Content-Type", "image/png");
+    res.set("Cache-Control", "private, max-age=3600");
+    res.send(png);
+  } catch (error: any) {
+    console.error("Error rendering ticket QR:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to render ticket" });
+  }
+});
+
+// ============================================================================
+// GUESTLIST
+// ============================================================================
+
+// GET /events/:id/guestlist — organizer sees all guests, a booked artist their own
+router.get("/events/:id/guestlist", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.view");
+    res.json(await ticketingService.listGuestlist(eventId, user.id, asAdmin));
+  } catch (error: any) {
+    console.error("Error fetching guestlist:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to fetch guestlist" });
+  }
+});
+
+// POST /events/:id/guestlist — add a guest; counts against the event capacity
+router.post("/events/:id/guestlist", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const parsed = addGuestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    const guest = await ticketingService.addGuest(eventId, user.id, asAdmin, parsed.data);
+    res.status(201).json(guest);
+  } catch (error: any) {
+    console.error("Error adding guest:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to add guest" });
+  }
+});
+
+// DELETE /events/:id/guestlist/:ticketId — remove a guest who has not checked in
+router.delete("/events/:id/guestlist/:ticketId", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    const ticketId = parseId(req.params.ticketId);
+    if (isNaN(eventId) || isNaN(ticketId)) return res.status(400).json({ message: "Invalid ID" });
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    await ticketingService.removeGuest(eventId, ticketId, user.id, asAdmin);
+    res.json({ message: "Guest removed" });
+  } catch (error: any) {
+    console.error("Error removing guest:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to remove guest" });
+  }
+});
+
+// ============================================================================
+// DOOR CHECK-IN
+// ============================================================================
+
+// POST /events/:id/check-in — validate a scanned code and mark the ticket used
+router.post("/events/:id/check-in", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const eventId = parseId(req.params.id);
+    if (isNaN(eventId)) return res.status(400).json({ message: "Invalid event ID" });
+
+    const parsed = ticketCheckInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const asAdmin = await adminPermissionService.userHas(user, "events.manage");
+    const outcome = await ticketingService.checkIn(eventId, parsed.data.code, user.id, asAdmin);
+    const status = outcome.result === "admitted" ? 200 : outcome.ticket ? 409 : 404;
+    res.status(status).json(outcome);
+  } catch (error: any) {
+    console.error("Error checking ticket in:", error);
+    res.status(ticketErrorStatus(error.message || "")).json({ message: error.message || "Failed to check ticket in" });
+  }
+});
+
+export default router;
@@ -0,0 +1,169 @@
+import { Router, type Request, type Response } from "express";
+import { twoFactorCodeSchema } from "@shared/routes";
+import { storage } from "../storage";
+import { loadAuthUser } from "../auth";
+import { twoFactorService } from "../services/two-factor.service";
+import { LOGIN_CHALLENGE_MAX_ATTEMPTS, STEP_UP_TTL_MS } from "../two-factor-utils";
+
+const router = Router();
+
+function twoFactorErrorStatus(message: string): number {
+  if (message.includes("already enabled")) return 409;
+  if (message.includes("required for admin")) return 403;
+  if (message.startsWith("Too many incorrect codes")) return 429;
+  if (message === "User not found") return 404;
+  return 400;
+}
+
+// ============================================================================
+// ENROLMENT
+// ============================================================================
+
+// GET /auth/2fa — whether 2FA is on, required for the role, and passed in this session
+router.get("/auth/2fa", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    const user = req.user as any;
+    const status = await twoFactorService.status(user.id, user.role);
+    res.json({ ...status, sessionVerified: !!req.session.twoFactorVerifiedAt });
+  } catch (error: any) {
+    console.error("Error fetching two-factor status:", error);
+    res.status(500).json({ message: "Failed to fetch two-factor status" });
+  }
+});
+
+// POST /auth/2fa/setup — new secret and QR code; 2FA stays off until /enable
+router.post("/auth/2fa/setup", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  try {
+    res.json(await twoFactorService.beginSetup((req.user as any).id));
+  } catch (error: any) {
+    res.status(twoFactorErrorStatus(error.message || "")).json({ message: error.message || "Failed to start setup" });
+  }
+});
+
+// POST /auth/2fa/enable — confirm the first code; returns recovery codes once
+router.post("/auth/2fa/enable", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const result = await twoFactorService.enable((req.user as any).id, parsed.data.code);
+    // The code just entered counts as this session's check
+    req.session.twoFactorVerifiedAt = Date.now();
+    res.json(result);
+  } catch (error: any) {
+    res.status(twoFactorErrorStatus(error.message || "")).json({ message: error.message || "Failed to enable two-factor authentication" });
+  }
+});
+
+// POST /auth/2fa/disable — needs a current code; not allowed for admin roles
+router.post("/auth/2fa/disable", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const user = req.user as any;
+    await twoFactorService.disable(user.id, user.role, parsed.data.code);
+    delete req.session.twoFactorVerifiedAt;
+    delete req.session.stepUp;
+    res.json({ enabled: false });
+  } catch (error: any) {
+    res.status(twoFactorErrorStatus(error.message || "")).json({ message: error.message || "Failed to disable two-factor authentication" });
+  }
+});
+
+// POST /auth/2fa/recovery-codes — replace every recovery code
+router.post("/auth/2fa/recovery-codes", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    res.json(await twoFactorService.regenerateRecoveryCodes((req.user as any).id, parsed.data.code));
+  } catch (error: any) {
+    res.status(twoFactorErrorStatus(error.message || "")).json({ message: error.message || "Failed to regenerate recovery codes" });
+  }
+});
+
+// ============================================================================
+// CHALLENGES
+// ============================================================================
+
+// POST /auth/2fa/step-up — fresh check before a sensitive action such as signing
+router.post("/auth/2fa/step-up", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+  try {
+    const method = await twoFactorService.verify((req.user as any).id, parsed.data.code);
+    const now = Date.now();
+    req.session.twoFactorVerifiedAt = now;
+    req.session.stepUp = { at: now, method };
+    res.json({ method, expiresAt: new Date(now + STEP_UP_TTL_MS).toISOString() });
+  } catch (error: any) {
+    res.status(twoFactorErrorStatus(error.message || "")).json({ message: error.message || "Failed to verify code" });
+  }
+});
+
+// POST /auth/2fa/login — second step of a login whose password was accepted
+router.post("/auth/2fa/login", async (req: Request, res: Response, next) => {
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+  }
+
+  const pending = req.session.pendingTwoFactor;
+  if (!pending || pending.expiresAt <= Date.now()) {
+    delete req.session.pendingTwoFactor;
+    return res.status(401).json({ message: "Your sign-in has expired. Enter your password again." });
+  }
+
+  let method;
+  try {
+    method = await twoFactorService.verify(pending.userId, parsed.data.code);
+  } catch (error: any) {
+    pending.attempts += 1;
+    if (twoFactorErrorStatus(error.message || "") === 429) {
+      delete req.session.pendingTwoFactor;
+      return res.status(429).json({ message: error.message });
+    }
+    if (pending.attempts >= LOGIN_CHALLENGE_MAX_ATTEMPTS) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Too many incorrect codes. Enter your password again." });
+    }
+    return res.status(400).json({ message: error.message || "Invalid two-factor code" });
+  }
+
+  try {
+    const user = await loadAuthUser(pending.userId);
+    if (!user) return res.status(401).json({ message: "Invalid credentials" });
+
+    // req.login starts a new session, which drops the pending challenge
+    req.login(user, async (loginErr) => {
+      if (loginErr) return next(loginErr);
+      req.session.twoFactorVerifiedAt = Date.now();
+
+      await storage.createAuditLog({
+        who: user.id,
+        action: "user_login",
+        entityType: "user",
+        entityId: user.id,
+        context: { twoFactorMethod: method },
+      });
+
+      res.status(200).json(user);
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
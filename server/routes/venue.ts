@@ -1,5 +1,7 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { storage } from "../storage";
+import { actingVenue } from "../services/organization.service";
+import { activeRole, profileTypeForRole } from "../role-resolver";
 
 const router = Router();
 
@@ -14,8 +16,7 @@ function isAuthenticated(req: Request, res: Response, next: NextFunction) {
 // Middleware: require venue_manager or venue role
 function isVenueManager(req: Request, res: Response, next: NextFunction) {
   const user = req.user as any;
-  const role = user.role || user.metadata?.role;
-  if (role !== "venue_manager" && role !== "venue") {
+  if (profileTypeForRole(activeRole(user)) !== "venue") {
     return res.status(403).json({ message: "Venue manager role required" });
   }
   next();
@@ -28,7 +29,7 @@ router.use("/venue/applications", isAuthenticated, isVenueManager);
 router.get("/venue/applications", async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
-    const venue = await storage.getVenueByUserId(user.id);
+    const venue = await actingVenue(user);
     if (!venue) {
       return res.status(404).json({ message: "Venue profile not found" });
     }
@@ -49,7 +50,7 @@ router.post("/venue/applications/:id/accept", async (req: Request, res: Response
       return res.status(400).json({ message: "Invalid booking ID" });
     }
 
-    const venue = await storage.getVenueByUserId(user.id);
+    const venue = await actingVenue(user);
     if (!venue) {
       return res.status(404).json({ message: "Venue profile not found" });
     }
@@ -89,7 +90,7 @@ router.post("/venue/applications/:id/decline", async (req: Request, res: Respons
       return res.status(400).json({ message: "Invalid booking ID" });
     }
 
-    const venue = await storage.getVenueByUserId(user.id);
+    const venue = await actingVenue(user);
     if (!venue) {
       return res.status(404).json({ message: "Venue profile not found" });
     }
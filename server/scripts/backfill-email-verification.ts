@@ -0,0 +1,33 @@
+import { db } from "../db";
+import { users, accountTokens } from "../../shared/schema";
+import { and, eq, notExists } from "drizzle-orm";
+
+/**
+ * Accounts created before email verification existed were left in the
+ * column default, pending_verification, and accountRestriction would now
+ * stop them sending offers or signing contracts. Every account registered
+ * since has been sent a verification link, so the pending accounts that
+ * never had one are the old ones: move them to active. Safe to run again.
+ */
+async function run() {
+  console.log("Starting backfill for accounts created before email verification...");
+
+  const activated = await db.update(users)
+    .set({ status: "active", updatedAt: new Date() })
+    .where(and(
+      eq(users.status, "pending_verification"),
+      notExists(
+        db.select({ id: accountTokens.id }).from(accountTokens).where(and(
+          eq(accountTokens.userId, users.id),
+          eq(accountTokens.purpose, "email_verification"),
+        )),
+      ),
+    ))
+    .returning({ id: users.id });
+
+  console.log(`Activated ${activated.length} accounts.`);
+  console.log("Backfill completed.");
+  process.exit(0);
+}
+
+run().catch(console.error);
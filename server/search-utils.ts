@@ -0,0 +1,444 @@
+/**
+ * Pure utility functions for search: query parsing, the text stored in
+ * search_documents, keyset cursors, sort keys, fee facet buckets, and the
+ * role scopes, highlights and links of the global search.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/search.service.ts
+ * Tested by: tests/services/search.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SEARCH_PAGE_SIZE = 20;
+export const SEARCH_MAX_PAGE_SIZE = 50;
+
+/** Longest query text we parse; the rest is ignored */
+export const SEARCH_MAX_QUERY_LENGTH = 100;
+
+/** Terms beyond this are dropped from the full-text query */
+const MAX_QUERY_TERMS = 8;
+
+/** Sort key given to artists with no fee so they land at the end of fee sorts */
+export const UNPRICED_FEE_ASC = 1e12;
+export const UNPRICED_FEE_DESC = -1;
+
+/** Results per type in the global search, by default and at most */
+export const GLOBAL_SEARCH_LIMIT = 5;
+export const GLOBAL_SEARCH_MAX_LIMIT = 10;
+
+/** Longest snippet of body text shown under a global search result */
+export const SNIPPET_LENGTH = 140;
+
+export const ARTIST_SORTS = ["relevance", "fee_asc", "fee_desc", "rating", "newest"] as const;
+export type ArtistSort = typeof ARTIST_SORTS[number];
+
+/** Fee facet buckets (lower bound inclusive, upper bound exclusive), by the artist's starting fee */
+export const FEE_BUCKETS: readonly { key: string; label: string; min: number; max: number | null }[] = [
+  { key: "under_10k", label: "Under ₹10k", min: 0, max: 10000 },
+  { key: "10k_25k", label: "₹10k – ₹25k", min: 10000, max: 25000 },
+  { key: "25k_50k", label: "₹25k – ₹50k", min: 25000, max: 50000 },
+  { key: "50k_1l", label: "₹50k – ₹1L", min: 50000, max: 100000 },
+  { key: "1l_plus", label: "₹1L+", min: 100000, max: null },
+];
+
+// ---------------------------------------------------------------------------
+// Query text
+// ---------------------------------------------------------------------------
+
+/** Trims, collapses whitespace and caps the query length; empty input gives "" */
+export function normalizeSearchText(input: string | null | undefined): string {
+  if (!input) return "";
+  return input.replace(/\s+/g, " ").trim().slice(0, SEARCH_MAX_QUERY_LENGTH);
+}
+
+/**
+ * Lowercase words of a query, in order, without duplicates. ASCII punctuation
+ * separates words, which also keeps tsquery operators out of the terms.
+ */
+export function searchTerms(input: string | null | undefined): string[] {
+  const words = normalizeSearchText(input).toLowerCase().split(/[\s!-\/:-@\[-`{-~]+/).filter(Boolean);
+  return Array.from(new Set(words)).slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * A to_tsquery() expression where every term must match as a prefix, so
+ * "tech hou" finds "Tech House" while the user is still typing. Terms never
+ * contain operator characters, so the expression needs no escaping. Null when
+ * the query has no usable terms.
+ */
+export function toPrefixTsQuery(input: string | null | undefined): string | null {
+  const terms = searchTerms(input);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/** Splits a comma-separated filter value ("techno, house") into trimmed, non-empty parts */
+export function splitFilterList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return Array.from(new Set(value.split(",").map((part) => part.trim()).filter(Boolean)));
+}
+
+// ---------------------------------------------------------------------------
+// Search documents
+// ---------------------------------------------------------------------------
+
+export interface ArtistDocumentSource {
+  name: string;
+  bio?: string | null;
+  isBand?: boolean | null;
+  genres: string[];
+  city?: string | null;
+  category?: string | null;
+  members?: unknown;
+}
+
+export interface SearchDocumentText {
+  title: string;
+  keywords: string;
+  body: string;
+}
+
+/**
+ * Text stored for an artist. Genres, city and category are keywords (weight B)
+ * so "techno mumbai" ranks an artist tagged with both above one whose bio
+ * merely mentions them.
+ */
+export function buildArtistDocument(source: ArtistDocumentSource): SearchDocumentText {
+  const keywords = [
+    ...source.genres,
+    source.city ?? "",
+    source.category ? source.category.replace(/_/g, " ") : "",
+    source.isBand ? "band" : "",
+  ];
+
+  const memberNames = Array.isArray(source.members)
+    ? source.members
+      .map((member) => (typeof member === "string" ? member : member?.name))
+      .filter((name): name is string => typeof name === "string")
+    : [];
+
+  return {
+    title: normalizeSearchText(source.name) || source.name,
+    keywords: joinKeywords(keywords),
+    body: [source.bio ?? "", ...memberNames].map((part) => part.trim()).filter(Boolean).join("\n"),
+  };
+}
+
+export interface VenueDocumentSource {
+  name: string;
+  description?: string | null;
+  city?: string | null;
+  amenities?: unknown;
+}
+
+/** Text stored for a venue: city and amenities are keywords */
+export function buildVenueDocument(source: VenueDocumentSource): SearchDocumentText {
+  const amenities = Array.isArray(source.amenities)
+    ? source.amenities.filter((a): a is string => typeof a === "string")
+    : [];
+  return {
+    title: normalizeSearchText(source.name) || source.name,
+    keywords: joinKeywords([source.city ?? "", ...amenities]),
+    body: (source.description ?? "").trim(),
+  };
+}
+
+export interface EventDocumentSource {
+  title: string;
+  description?: string | null;
+  venueName?: string | null;
+  city?: string | null;
+  organizerName?: string | null;
+  genres?: string[];
+}
+
+/** Text stored for an event: where it is, who runs it and its genres are keywords */
+export function buildEventDocument(source: EventDocumentSource): SearchDocumentText {
+  return {
+    title: normalizeSearchText(source.title) || source.title,
+    keywords: joinKeywords([source.venueName ?? "", source.city ?? "", source.organizerName ?? "", ...(source.genres ?? [])]),
+    body: (source.description ?? "").trim(),
+  };
+}
+
+export interface OrganizerDocumentSource {
+  name: string;
+  description?: string | null;
+  contactName?: string | null;
+}
+
+export function buildOrganizerDocument(source: OrganizerDocumentSource): SearchDocumentText {
+  return {
+    title: normalizeSearchText(source.name) || source.name,
+    keywords: joinKeywords([source.contactName ?? ""]),
+    body: (source.description ?? "").trim(),
+  };
+}
+
+function joinKeywords(keywords: string[]): string {
+  return Array.from(new Set(keywords.map((k) => k.trim()).filter(Boolean))).join(" ");
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Ids of the genre rows named in an artist profile (primary and secondary genre
+ * names from the profile wizard), matched case-insensitively by name or slug.
+ * Names with no matching genre are skipped.
+ */
+export function matchGenreIds(
+  profileGenres: (string | null | undefined)[],
+  genreRows: { id: number; name: string; slug: string | null }[],
+): number[] {
+  const byKey = new Map<string, number>();
+  for (const row of genreRows) {
+    byKey.set(row.name.toLowerCase(), row.id);
+    byKey.set(row.slug || slugify(row.name), row.id);
+  }
+
+  const ids: number[] = [];
+  for (const name of profileGenres) {
+    if (!name || !name.trim()) continue;
+    const id = byKey.get(name.trim().toLowerCase()) ?? byKey.get(slugify(name));
+    if (id !== undefined && !ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * Names of the given genres followed by their ancestors in the genre tree, so
+ * an artist tagged "Deep House" is also found by "house" under a "House" parent.
+ */
+export function genreLineageNames(
+  genreIds: number[],
+  genreRows: { id: number; name: string; parentId: number | null }[],
+): string[] {
+  const byId = new Map(genreRows.map((row) => [row.id, row]));
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (!names.includes(name)) names.push(name);
+  };
+
+  for (const id of genreIds) {
+    const row = byId.get(id);
+    if (row) add(row.name);
+  }
+  for (const id of genreIds) {
+    const seen = new Set<number>([id]);
+    let parentId = byId.get(id)?.parentId ?? null;
+    while (parentId !== null && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = byId.get(parentId);
+      if (!parent) break;
+      add(parent.name);
+      parentId = parent.parentId;
+    }
+  }
+  return names;
+}
+
+// ---------------------------------------------------------------------------
+// Sorting & cursors
+// ---------------------------------------------------------------------------
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Direction of each sort's key. Every sort breaks ties on artist id ascending,
+ * so the (key, id) pair is unique and pages never overlap or skip rows.
+ */
+export const ARTIST_SORT_DIRECTIONS: Record<ArtistSort, SortDirection> = {
+  relevance: "desc",
+  fee_asc: "asc",
+  fee_desc: "desc",
+  rating: "desc",
+  newest: "desc",
+};
+
+/** Position after the last row of a page: the sort it belongs to, that row's key and id */
+export interface SearchCursor {
+  sort: ArtistSort;
+  key: string;
+  id: number;
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString("base64url");
+}
+
+/** Null when the cursor is malformed or was issued for a different sort */
+export function decodeCursor(value: string, sort: ArtistSort): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [cursorSort, key, id] = parsed;
+    if (cursorSort !== sort) return null;
+    if (typeof key !== "string" || !/^-?\d+(\.\d+)?$/.test(key)) return null;
+    if (!Number.isInteger(id) || id <= 0) return null;
+    return { sort, key, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Trims a result fetched with `limit + 1` rows to one page and, when there
+ * was an extra row, returns the cursor for the next page.
+ */
+export function paginate<T extends { id: number; sortKey: string }>(
+  rows: T[],
+  limit: number,
+  sort: ArtistSort,
+): { page: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) return { page: rows, nextCursor: null };
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return { page, nextCursor: encodeCursor({ sort, key: last.sortKey, id: last.id }) };
+}
+
+export function clampPageSize(limit: number | null | undefined): number {
+  if (!limit || !Number.isFinite(limit)) return SEARCH_PAGE_SIZE;
+  return Math.max(1, Math.min(SEARCH_MAX_PAGE_SIZE, Math.floor(limit)));
+}
+
+// ---------------------------------------------------------------------------
+// Global search
+// ---------------------------------------------------------------------------
+
+export const GLOBAL_SEARCH_TYPES = ["artist", "venue", "event", "organizer", "user", "booking"] as const;
+export type GlobalSearchType = typeof GLOBAL_SEARCH_TYPES[number];
+
+/**
+ * Result types a role may search, in the order their groups are shown.
+ * Artists look for gigs (public events) and the venues behind them, organizers
+ * and venue managers look for talent and venues, and admins see everything,
+ * including users and bookings looked up by id. Other roles see public events.
+ */
+export function searchScopeFor(role: string | null | undefined): GlobalSearchType[] {
+  switch (role) {
+    case "admin":
+    case "platform_admin":
+      return [...GLOBAL_SEARCH_TYPES];
+    case "organizer":
+    case "promoter":
+    case "venue_manager":
+    case "venue":
+      return ["artist", "venue"];
+    case "artist":
+    case "band_manager":
+      return ["event", "venue"];
+    default:
+      return ["event"];
+  }
+}
+
+/** The id in an id lookup such as "#42" or "42"; null for any other query */
+export function parseIdQuery(input: string | null | undefined): number | null {
+  const match = normalizeSearchText(input).match(/^#?(\d{1,9})$/);
+  if (!match) return null;
+  const id = Number(match[1]);
+  return id > 0 ? id : null;
+}
+
+/** An ILIKE pattern matching values that contain the text, with wildcards in the text escaped */
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/** Where a result opens in the client for the searching role */
+export function searchResultUrl(type: GlobalSearchType, id: number, title: string, role: string | null | undefined): string {
+  const q = encodeURIComponent(title);
+  if (role === "admin" || role === "platform_admin") {
+    return `/admin/${type}s/${id}`;
+  }
+  switch (type) {
+    case "artist":
+      return `/organizer/discover?q=${q}`;
+    case "venue":
+      return role === "artist" || role === "band_manager"
+        ? `/find-gigs?q=${q}`
+        : `/organizer/discover?tab=venues&q=${q}`;
+    case "event":
+      return `/events/${id}/tickets`;
+    default:
+      return `/${type}s/${id}`;
+  }
+}
+
+/** A run of result text, marked when it matched a query term */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+function isWordChar(ch: string): boolean {
+  return ch.toLowerCase() !== ch.toUpperCase() || (ch >= "0" && ch <= "9");
+}
+
+/**
+ * Splits text into matched and unmatched runs. A term matches at the start of
+ * a word, case-insensitively, the way prefix full-text matching found it.
+ * The client renders the runs as text, so nothing here is treated as markup.
+ */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text) return [];
+  const lower = text.toLowerCase();
+  const sorted = terms.filter(Boolean).sort((a, b) => b.length - a.length);
+  const segments: HighlightSegment[] = [];
+  let plainStart = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const atWordStart = isWordChar(text[i]) && (i === 0 || !isWordChar(text[i - 1]));
+    const term = atWordStart ? sorted.find((t) => lower.startsWith(t, i)) : undefined;
+    if (!term) {
+      i++;
+      continue;
+    }
+    if (i > plainStart) segments.push({ text: text.slice(plainStart, i), match: false });
+    segments.push({ text: text.slice(i, i + term.length), match: true });
+    i += term.length;
+    plainStart = i;
+  }
+  if (plainStart < text.length) segments.push({ text: text.slice(plainStart), match: false });
+  return segments;
+}
+
+/**
+ * A highlighted excerpt of body text around the first matched term, cut at
+ * word boundaries with ellipses, or the start of the text when no term
+ * matches it. Null when there is no text.
+ */
+export function buildSnippet(text: string | null | undefined, terms: string[], maxLength = SNIPPET_LENGTH): HighlightSegment[] | null {
+  const clean = (text ?? "").replace(/\s+/g, " ").trim();
+  if (!clean) return null;
+  if (clean.length <= maxLength) return highlightSegments(clean, terms);
+
+  const segments = highlightSegments(clean, terms);
+  const first = segments.findIndex((s) => s.match);
+  const matchAt = first < 0 ? 0 : segments.slice(0, first).reduce((n, s) => n + s.text.length, 0);
+
+  // Keep about a quarter of the window before the match for context
+  let start = Math.max(0, Math.min(matchAt - Math.floor(maxLength / 4), clean.length - maxLength));
+  let end = start + maxLength;
+  if (start > 0) {
+    const space = clean.indexOf(" ", start);
+    start = space >= 0 && space < matchAt ? space + 1 : start;
+  }
+  if (end < clean.length) {
+    const space = clean.lastIndexOf(" ", end);
+    end = space > start ? space : end;
+  }
+
+  const excerpt = `${start > 0 ? "…" : ""}${clean.slice(start, end)}${end < clean.length ? "…" : ""}`;
+  return highlightSegments(excerpt, terms);
+}
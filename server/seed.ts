@@ -239,8 +239,8 @@ async function seed() {
             { key: "booking.application_received", category: "booking", label: "Artist Application Received", description: "Sent to the organizer when an artist applies to their event", titleTemplate: "New application from {{artistName}}", bodyTemplate: "{{artistName}} has applied to perform at {{eventTitle}}. Review their proposal.", targetRoles: ["organizer"], channels: ["in_app"], priority: "normal" as const },
             { key: "booking.offer_sent", category: "booking", label: "Booking Offer Sent", description: "Sent to the artist when an organizer sends them an offer", titleTemplate: "New offer for {{eventTitle}}", bodyTemplate: "You've received an offer to perform at {{eventTitle}}. Review the details.", targetRoles: ["artist"], channels: ["in_app"], priority: "normal" as const },
             { key: "booking.status_changed", category: "booking", label: "Booking Status Changed", description: "Sent when a booking status transitions", titleTemplate: "Booking updated: {{eventTitle}}", bodyTemplate: "Your booking for {{eventTitle}} has been updated to {{newStatus}}.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
-            { key: "booking.confirmed", category: "booking", label: "Booking Confirmed", description: "Sent when a booking is confirmed", titleTemplate: "Booking confirmed: {{eventTitle}}", bodyTemplate: "The booking for {{eventTitle}} has been confirmed. Contract will be generated shortly.", targetRoles: ["artist", "organizer", "venue_manager"], channels: ["in_app"], priority: "urgent" as const },
-            { key: "booking.cancelled", category: "booking", label: "Booking Cancelled", description: "Sent when a booking is cancelled or expired", titleTemplate: "Booking cancelled: {{eventTitle}}", bodyTemplate: "The booking for {{eventTitle}} has been cancelled. Reason: {{reason}}.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "urgent" as const },
+            { key: "booking.confirmed", category: "booking", label: "Booking Confirmed", description: "Sent when a booking is confirmed", titleTemplate: "Booking confirmed: {{eventTitle}}", bodyTemplate: "The booking for {{eventTitle}} has been confirmed. Contract will be generated shortly.", targetRoles: ["artist", "organizer", "venue_manager"], channels: ["in_app", "email"], priority: "urgent" as const },
+            { key: "booking.cancelled", category: "booking", label: "Booking Cancelled", description: "Sent when a booking is cancelled or expired", titleTemplate: "Booking cancelled: {{eventTitle}}", bodyTemplate: "The booking for {{eventTitle}} has been cancelled. Reason: {{reason}}.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
             { key: "booking.deadline_approaching", category: "booking", label: "Booking Deadline Approaching", description: "Sent when a booking flow deadline is approaching", titleTemplate: "Action needed: {{eventTitle}}", bodyTemplate: "The deadline for responding to {{eventTitle}} is approaching. Please take action.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "urgent" as const },
 
             // Negotiation events
@@ -252,17 +252,33 @@ async function seed() {
             // Contract events
             { key: "contract.generated", category: "contract", label: "Contract Generated", description: "Sent to organizer when contract is auto-generated", titleTemplate: "Contract ready: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} has been generated and is ready for your review.", targetRoles: ["organizer"], channels: ["in_app"], priority: "normal" as const },
             { key: "contract.edit_submitted", category: "contract", label: "Contract Edit Submitted", description: "Sent when the other party submits contract edits", titleTemplate: "Contract edited: {{eventTitle}}", bodyTemplate: "{{actorName}} has submitted edits to the contract for {{eventTitle}}. Please review.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
-            { key: "contract.ready_to_sign", category: "contract", label: "Contract Ready to Sign", description: "Sent when contract edits are complete and ready for signing", titleTemplate: "Sign contract: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} is ready for your signature.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "urgent" as const },
+            { key: "contract.ready_to_sign", category: "contract", label: "Contract Ready to Sign", description: "Sent when contract edits are complete and ready for signing", titleTemplate: "Sign contract: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} is ready for your signature.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
             { key: "contract.signed", category: "contract", label: "Contract Signed", description: "Sent when one party signs the contract", titleTemplate: "Contract signed: {{eventTitle}}", bodyTemplate: "{{actorName}} has signed the contract for {{eventTitle}}.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
             { key: "contract.fully_signed", category: "contract", label: "Contract Fully Signed", description: "Sent to admin when both parties have signed", titleTemplate: "Contract awaiting review: {{eventTitle}}", bodyTemplate: "Both parties have signed the contract for {{eventTitle}}. Admin review required.", targetRoles: ["admin"], channels: ["in_app"], priority: "urgent" as const },
             { key: "contract.admin_approved", category: "contract", label: "Contract Approved by Admin", description: "Sent when admin approves the contract", titleTemplate: "Contract approved: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} has been approved. The booking is now official!", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "urgent" as const },
-            { key: "contract.voided", category: "contract", label: "Contract Voided", description: "Sent when a contract is voided", titleTemplate: "Contract voided: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} has been voided. Reason: {{reason}}.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "urgent" as const },
+            { key: "contract.voided", category: "contract", label: "Contract Voided", description: "Sent when a contract is voided", titleTemplate: "Contract voided: {{eventTitle}}", bodyTemplate: "The contract for {{eventTitle}} has been voided. Reason: {{reason}}.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
+            { key: "contract.amendment_proposed", category: "contract", label: "Contract Amendment Proposed", description: "Sent when a party proposes an amendment to a signed contract", titleTemplate: "Amendment proposed: {{eventTitle}}", bodyTemplate: "{{actorName}} proposed an amendment to the signed contract for {{eventTitle}}. Please review.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
+            { key: "contract.amendment_review", category: "contract", label: "Contract Amendment Awaiting Review", description: "Sent to admin when both parties have signed a fee amendment", titleTemplate: "Fee amendment awaiting review: {{eventTitle}}", bodyTemplate: "Both parties signed a fee amendment to the contract for {{eventTitle}}. Admin review required.", targetRoles: ["admin"], channels: ["in_app"], priority: "urgent" as const },
+            { key: "contract.amendment_applied", category: "contract", label: "Contract Amendment Applied", description: "Sent when a signed amendment takes effect", titleTemplate: "Contract amended: {{eventTitle}}", bodyTemplate: "The amendment to the contract for {{eventTitle}} is now in effect.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
 
             // Payment events
             { key: "payment.received", category: "payment", label: "Payment Received", description: "Sent when a payment is received", titleTemplate: "Payment received: {{amount}}", bodyTemplate: "A payment of {{amount}} has been received for {{eventTitle}}.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
-            { key: "payment.deposit_due", category: "payment", label: "Deposit Due", description: "Sent when a deposit payment is due", titleTemplate: "Deposit due: {{eventTitle}}", bodyTemplate: "A deposit payment is due for {{eventTitle}}. Please process the payment.", targetRoles: ["organizer"], channels: ["in_app"], priority: "urgent" as const },
+            { key: "payment.deposit_due", category: "payment", label: "Deposit Due", description: "Sent when a deposit payment is due", titleTemplate: "Deposit due: {{eventTitle}}", bodyTemplate: "A deposit payment is due for {{eventTitle}}. Please process the payment.", targetRoles: ["organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
             { key: "payout.processed", category: "payment", label: "Payout Processed", description: "Sent when an artist payout is processed", titleTemplate: "Payout processed: {{amount}}", bodyTemplate: "Your payout of {{amount}} for {{eventTitle}} has been processed.", targetRoles: ["artist"], channels: ["in_app"], priority: "normal" as const },
 
+            // Dispute events
+            { key: "dispute.opened", category: "dispute", label: "Dispute Opened", description: "Sent to both parties and admins when a booking dispute is opened", titleTemplate: "Dispute opened: {{eventTitle}}", bodyTemplate: "{{actorName}} has opened a dispute for {{eventTitle}}. The artist payout is on hold while it is investigated.", targetRoles: ["artist", "organizer", "admin"], channels: ["in_app", "email"], priority: "urgent" as const },
+            { key: "dispute.resolved", category: "dispute", label: "Dispute Resolved", description: "Sent to both parties when an admin resolves a dispute", titleTemplate: "Dispute resolved: {{eventTitle}}", bodyTemplate: "The dispute for {{eventTitle}} has been resolved: {{outcome}}.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "urgent" as const },
+
+            // Review events
+            { key: "review.submitted", category: "review", label: "Review Submitted", description: "Sent to the other party when one side reviews a completed booking", titleTemplate: "New review for {{eventTitle}}", bodyTemplate: "{{actorName}} has reviewed {{eventTitle}}. Leave your review to see theirs.", targetRoles: ["artist", "organizer"], channels: ["in_app"], priority: "normal" as const },
+            { key: "reviews.published", category: "review", label: "Reviews Published", description: "Sent to both parties when a booking's reviews are revealed", titleTemplate: "Reviews published: {{eventTitle}}", bodyTemplate: "The reviews for {{eventTitle}} are now visible.", targetRoles: ["artist", "organizer"], channels: ["in_app", "email"], priority: "normal" as const },
+
+            // Ticketing events
+            { key: "ticket.order_paid", category: "ticketing", label: "Tickets Sold", description: "Sent to the organizer when a ticket order for their event is paid", titleTemplate: "{{quantity}} ticket(s) sold for {{eventTitle}}", bodyTemplate: "A ticket order of {{amount}} for {{eventTitle}} has been paid.", targetRoles: ["organizer"], channels: ["in_app"], priority: "normal" as const },
+            { key: "ticket.order_refunded", category: "ticketing", label: "Tickets Refunded", description: "Sent to the buyer when the organizer refunds their ticket order", titleTemplate: "Your tickets for {{eventTitle}} were refunded", bodyTemplate: "Your order of {{amount}} for {{eventTitle}} has been refunded: {{reason}}", targetRoles: [], channels: ["in_app", "email"], priority: "normal" as const },
+            { key: "ticket.guest_added", category: "ticketing", label: "Guestlist Addition", description: "Sent to the organizer when a booked artist adds a guest", titleTemplate: "Guest added to {{eventTitle}}", bodyTemplate: "{{guestName}} was added to the guestlist for {{eventTitle}}.", targetRoles: ["organizer"], channels: ["in_app"], priority: "normal" as const },
+
             // System events
             { key: "system.announcement", category: "system", label: "Platform Announcement", description: "Admin broadcast to all users or specific roles", titleTemplate: "{{title}}", bodyTemplate: "{{message}}", targetRoles: ["artist", "organizer", "venue_manager"], channels: ["in_app"], priority: "normal" as const },
             { key: "profile.reminder", category: "system", label: "Profile Completion Reminder", description: "Sent to users with incomplete profiles", titleTemplate: "Complete your profile", bodyTemplate: "Your profile is incomplete. Complete it to start discovering opportunities.", targetRoles: ["artist", "organizer", "venue_manager"], channels: ["in_app"], priority: "normal" as const },
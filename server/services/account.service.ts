@@ -0,0 +1,258 @@
+import { db } from "../db";
+import { accountTokens, auditLogs, users } from "../../shared/schema";
+import type { AccountToken, User } from "../../shared/schema";
+import { and, eq, gte, isNull, ne, sql, type SQL } from "drizzle-orm";
+import { randomBytes, scrypt } from "crypto";
+import { promisify } from "util";
+import { appBaseUrl, getChannelAdapter } from "./notification-channels";
+import { renderNotificationEmail } from "../notification-delivery-utils";
+import { normalizeEmail } from "../organization-utils";
+import {
+  ACCOUNT_RATE_LIMIT,
+  IP_RATE_LIMIT,
+  accountTokenExpiry,
+  accountTokenSecret,
+  checkRateLimit,
+  passwordPolicyError,
+  rateLimitWindowStart,
+  signAccountToken,
+  verifyAccountToken,
+  type AccountTokenPurpose,
+} from "../account-token-utils";
+
+const scryptAsync = promisify(scrypt);
+
+/** `<salt>.<scrypt hash>`, the format the local strategy checks */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}.${hash.toString("hex")}`;
+}
+
+function retryMessage(retryAfterMs: number): string {
+  const minutes = Math.max(1, Math.ceil(retryAfterMs / 60_000));
+  return `Too many requests. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+const LINK_ERRORS: Record<AccountTokenPurpose, { invalid: string; expired: string; used: string }> = {
+  email_verification: {
+    invalid: "This verification link is invalid",
+    expired: "This verification link has expired. Request a new one.",
+    used: "This verification link has already been used",
+  },
+  password_reset: {
+    invalid: "This password reset link is invalid",
+    expired: "This password reset link has expired. Request a new one.",
+    used: "This password reset link has already been used",
+  },
+};
+
+/**
+ * Email verification and password reset. Links carry a signed token naming
+ * an account_tokens row; the row makes each link single-use and backs the
+ * per-account and per-IP rate limits.
+ */
+export class AccountService {
+  private async audit(who: number, action: string, context?: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType: "user", entityId: who, context });
+  }
+
+  private async recentRequests(where: SQL | undefined): Promise<Date[]> {
+    const rows = await db.select({ createdAt: accountTokens.createdAt }).from(accountTokens).where(where);
+    return rows.map((r) => r.createdAt);
+  }
+
+  /** Throws when the IP has asked for too many links */
+  private async checkIpLimit(ip: string | null): Promise<void> {
+    if (!ip) return;
+    const recent = await this.recentRequests(and(
+      eq(accountTokens.requestIp, ip),
+      gte(accountTokens.createdAt, rateLimitWindowStart(IP_RATE_LIMIT)),
+    ));
+    const check = checkRateLimit(recent, IP_RATE_LIMIT);
+    if (!check.allowed) throw new Error(retryMessage(check.retryAfterMs));
+  }
+
+  private async accountLimit(userId: number, purpose: AccountTokenPurpose) {
+    const recent = await this.recentRequests(and(
+      eq(accountTokens.userId, userId),
+      eq(accountTokens.purpose, purpose),
+      gte(accountTokens.createdAt, rateLimitWindowStart(ACCOUNT_RATE_LIMIT)),
+    ));
+    return checkRateLimit(recent, ACCOUNT_RATE_LIMIT);
+  }
+
+  private async issueToken(user: User, purpose: AccountTokenPurpose, ip: string | null): Promise<string> {
+    const [row] = await db.insert(accountTokens).values({
+      userId: user.id,
+      purpose,
+      email: normalizeEmail(user.email),
+      requestIp: ip,
+      expiresAt: accountTokenExpiry(purpose),
+    }).returning();
+    return signAccountToken(
+      { id: row.id, userId: user.id, purpose, expiresAt: row.expiresAt.getTime() },
+      accountTokenSecret(),
+    );
+  }
+
+  private async sendEmail(user: User, title: string, body: string, actionUrl: string): Promise<boolean> {
+    const adapter = getChannelAdapter("email");
+    if (!adapter) return false;
+
+    const message = renderNotificationEmail({
+      title,
+      body,
+      actionUrl,
+      baseUrl: appBaseUrl(),
+      recipientName: user.displayName ?? user.username ?? undefined,
+    });
+    try {
+      const result = await adapter.send({ ...message, to: user.email });
+      if (!result.success) console.error(`[Account] Email to user ${user.id} failed:`, result.error);
+      return result.success;
+    } catch (err) {
+      console.error(`[Account] Email to user ${user.id} failed:`, err);
+      return false;
+    }
+  }
+
+  /** Loads the row a checked token names, rejecting used or mismatched rows */
+  private async redeemable(token: string, purpose: AccountTokenPurpose): Promise<{ row: AccountToken; user: User }> {
+    const errors = LINK_ERRORS[purpose];
+    const check = verifyAccountToken(token, purpose, accountTokenSecret());
+    if (!check.ok) throw new Error(errors[check.reason]);
+
+    const [row] = await db.select().from(accountTokens).where(eq(accountTokens.id, check.payload.id));
+    if (!row || row.userId !== check.payload.userId || row.purpose !== purpose) {
+      throw new Error(errors.invalid);
+    }
+    if (row.usedAt) throw new Error(errors.used);
+
+    const [user] = await db.select().from(users).where(eq(users.id, row.userId));
+    // A link sent to an old address stops working once the email changes
+    if (!user || normalizeEmail(user.email) !== row.email) throw new Error(errors.invalid);
+    return { row, user };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Email verification
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Emails a verification link. Registration sends one without waiting;
+   * the resend route surfaces the rate-limit error.
+   */
+  async sendVerificationEmail(userId: number, ip: string | null): Promise<{ emailSent: boolean }> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) throw new Error("User not found");
+    if (user.emailVerifiedAt) throw new Error("Your email address is already verified");
+
+    await this.checkIpLimit(ip);
+    const limit = await this.accountLimit(user.id, "email_verification");
+    if (!limit.allowed) throw new Error(retryMessage(limit.retryAfterMs));
+
+    const token = await this.issueToken(user, "email_verification", ip);
+    const emailSent = await this.sendEmail(
+      user,
+      "Verify your email address",
+      `Confirm that ${user.email} is your email address to start sending offers and signing contracts on BANDWIDTH.\n\nThe link expires in 24 hours. If you did not create an account, you can ignore this email.`,
+      `/auth?mode=verify&token=${encodeURIComponent(token)}`,
+    );
+    await this.audit(user.id, "email_verification_sent", { emailSent });
+    return { emailSent };
+  }
+
+  async verifyEmail(token: string): Promise<{ userId: number }> {
+    const { row, user } = await this.redeemable(token, "email_verification");
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(accountTokens).set({ usedAt: now })
+        .where(and(eq(accountTokens.id, row.id), isNull(accountTokens.usedAt)))
+        .returning({ id: accountTokens.id });
+      if (!claimed) throw new Error(LINK_ERRORS.email_verification.used);
+
+      await tx.update(users).set({
+        emailVerifiedAt: user.emailVerifiedAt ?? now,
+        status: sql`case when ${users.status} = 'pending_verification' then 'active'::user_status else ${users.status} end`,
+        updatedAt: now,
+      }).where(eq(users.id, user.id));
+    });
+    await this.audit(user.id, "email_verified", { email: row.email });
+    return { userId: user.id };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Password reset
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Emails a reset link when the address belongs to an account. Unknown
+   * addresses and accounts over their limit are skipped silently so the
+   * response never reveals which emails are registered; only the per-IP
+   * limit is reported.
+   */
+  async requestPasswordReset(email: string, ip: string | null): Promise<void> {
+    await this.checkIpLimit(ip);
+
+    const [user] = await db.select().from(users)
+      .where(sql`lower(${users.email}) = ${normalizeEmail(email)}`);
+    if (!user || user.status === "suspended") return;
+
+    const limit = await this.accountLimit(user.id, "password_reset");
+    if (!limit.allowed) {
+      console.warn(`[Account] Password reset for user ${user.id} skipped: rate limited`);
+      return;
+    }
+
+    const token = await this.issueToken(user, "password_reset", ip);
+    const emailSent = await this.sendEmail(
+      user,
+      "Reset your password",
+      `We received a request to reset the password for ${user.email}.\n\nThe link expires in 1 hour and can be used once. If you did not ask for this, you can ignore this email and your password will stay the same.`,
+      `/auth?mode=reset&token=${encodeURIComponent(token)}`,
+    );
+    await this.audit(user.id, "password_reset_requested", { emailSent, ip });
+  }
+
+  /**
+   * Sets a new password, spends every outstanding reset link for the
+   * account and signs it out everywhere.
+   */
+  async resetPassword(token: string, password: string): Promise<{ userId: number }> {
+    const policyError = passwordPolicyError(password);
+    if (policyError) throw new Error(policyError);
+
+    const { row, user } = await this.redeemable(token, "password_reset");
+    const passwordHash = await hashPassword(password);
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(accountTokens).set({ usedAt: now })
+        .where(and(eq(accountTokens.id, row.id), isNull(accountTokens.usedAt)))
+        .returning({ id: accountTokens.id });
+      if (!claimed) throw new Error(LINK_ERRORS.password_reset.used);
+
+      await tx.update(accountTokens).set({ usedAt: now })
+        .where(and(
+          eq(accountTokens.userId, user.id),
+          eq(accountTokens.purpose, "password_reset"),
+          ne(accountTokens.id, row.id),
+          isNull(accountTokens.usedAt),
+        ));
+      // Following a link sent to the address also proves the user owns it
+      await tx.update(users).set({
+        passwordHash,
+        emailVerifiedAt: user.emailVerifiedAt ?? now,
+        status: sql`case when ${users.status} = 'pending_verification' then 'active'::user_status else ${users.status} end`,
+        updatedAt: now,
+      }).where(eq(users.id, user.id));
+      await tx.execute(sql`delete from session where sess->'passport'->>'user' = ${String(user.id)}`);
+    });
+    await this.audit(user.id, "password_reset");
+    return { userId: user.id };
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,103 @@
+import { db } from "../db";
+import { auditLogs, rolePermissions, roles } from "../../shared/schema";
+import { eq } from "drizzle-orm";
+import { activeRole } from "../role-resolver";
+import {
+  ADMIN_PANEL_ROLES,
+  SUPER_ADMIN_ROLE,
+  diffPermissions,
+  effectivePermissions,
+  isAdminPanelRole,
+  permissionUpdateError,
+  type AdminPermission,
+} from "../admin-permission-utils";
+
+export interface RolePermissionSummary {
+  role: string;
+  permissions: AdminPermission[];
+  /** False while the role still uses its default permissions */
+  configured: boolean;
+  editable: boolean;
+}
+
+type RoleName = (typeof roles.$inferInsert)["name"];
+
+/**
+ * Admin panel permissions per role. A role's permissions live in
+ * role_permissions once an admin has edited them; before that the code
+ * defaults apply. Platform admins always hold every permission.
+ */
+export class AdminPermissionService {
+  private async audit(who: number, roleId: number, action: string, context: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType: "role", entityId: roleId, context });
+  }
+
+  async summary(role: string): Promise<RolePermissionSummary> {
+    const editable = isAdminPanelRole(role) && role !== SUPER_ADMIN_ROLE;
+    if (!editable) {
+      return { role, permissions: effectivePermissions(role, null), configured: false, editable };
+    }
+
+    const [record] = await db.select().from(roles).where(eq(roles.name, role as RoleName));
+    if (!record?.permissionsConfiguredAt) {
+      return { role, permissions: effectivePermissions(role, null), configured: false, editable };
+    }
+    const rows = await db.select({ permission: rolePermissions.permission })
+      .from(rolePermissions)
+      .where(eq(rolePermissions.roleId, record.id));
+    return { role, permissions: effectivePermissions(role, rows.map((r) => r.permission)), configured: true, editable };
+  }
+
+  async permissionsFor(role: string | null | undefined): Promise<AdminPermission[]> {
+    if (!role) return [];
+    return (await this.summary(role)).permissions;
+  }
+
+  /**
+   * The signed-in user's admin permissions, from their active role. As in the
+   * admin panel, none apply until the session has passed two-factor
+   * authentication (`user.twoFactorVerified`, set when the session user is loaded).
+   */
+  async permissionsForUser(user: any): Promise<AdminPermission[]> {
+    if (!user?.twoFactorVerified) return [];
+    return this.permissionsFor(activeRole(user));
+  }
+
+  /** Whether the signed-in user's active role holds `permission` */
+  async userHas(user: any, permission: AdminPermission): Promise<boolean> {
+    return (await this.permissionsForUser(user)).includes(permission);
+  }
+
+  /** Every admin panel role with its current permissions */
+  async listRoles(): Promise<RolePermissionSummary[]> {
+    return Promise.all(ADMIN_PANEL_ROLES.map((role) => this.summary(role)));
+  }
+
+  /** Replaces a role's permissions and audits what was granted and revoked */
+  async setRolePermissions(role: string, requested: string[], who: number): Promise<RolePermissionSummary> {
+    const error = permissionUpdateError(role, requested);
+    if (error) throw new Error(error);
+
+    const before = await this.summary(role);
+    const permissions = effectivePermissions(role, requested);
+
+    await db.insert(roles).values({ name: role as RoleName }).onConflictDoNothing({ target: roles.name });
+    const [record] = await db.select({ id: roles.id }).from(roles).where(eq(roles.name, role as RoleName));
+
+    await db.transaction(async (tx) => {
+      await tx.delete(rolePermissions).where(eq(rolePermissions.roleId, record.id));
+      if (permissions.length > 0) {
+        await tx.insert(rolePermissions).values(
+          permissions.map((permission) => ({ roleId: record.id, permission, grantedBy: who })),
+        );
+      }
+      await tx.update(roles).set({ permissionsConfiguredAt: new Date() }).where(eq(roles.id, record.id));
+    });
+
+    const { granted, revoked } = diffPermissions(before.permissions, permissions);
+    await this.audit(who, record.id, "role_permissions_updated", { role, granted, revoked, permissions });
+    return { role, permissions, configured: true, editable: true };
+  }
+}
+
+export const adminPermissionService = new AdminPermissionService();
@@ -1,6 +1,7 @@
 import { db } from "../db";
 import { artists, artistCategoryHistory, users } from "../../shared/schema";
 import { eq } from "drizzle-orm";
+import { searchService } from "./search.service";
 
 export class ArtistCategoryService {
   /**
@@ -76,6 +77,7 @@ export class ArtistCategoryService {
         changedBy: changedByUserId || null,
         changedAt: now,
       });
+      searchService.indexInBackground("artist", artistId);
     }
 
     return updatedArtist;
@@ -0,0 +1,391 @@
+import { db } from "../db";
+import { artistAvailability, artists, bookings, events, auditLogs } from "../../shared/schema";
+import type { ArtistAvailability, Event } from "../../shared/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import { storage } from "../storage";
+import {
+  BLOCKING_BOOKING_STATUSES,
+  DEFAULT_TIMEZONE,
+  addDays,
+  eventWindow,
+  expandRule,
+  findBlockingRule,
+  toLocalParts,
+  windowsOverlap,
+  type AvailabilityRule,
+  type TimeWindow,
+} from "../availability-utils";
+
+/** Longest range the calendar feed will expand in one request */
+export const MAX_CALENDAR_RANGE_DAYS = 366;
+
+export interface AvailabilityInput {
+  kind: "blocked" | "travel" | "recurring";
+  startDate: string;
+  endDate?: string | null;
+  daysOfWeek?: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  cities?: string[];
+  note?: string | null;
+}
+
+export type ScheduleConflict =
+  | {
+    type: "booking";
+    bookingId: number;
+    eventId: number | null;
+    eventTitle: string;
+    status: string | null;
+    startTime: string;
+    endTime: string;
+  }
+  | {
+    type: "availability";
+    availabilityId: number;
+    kind: string;
+    startDate: string;
+    endDate: string | null;
+    note: string | null;
+  };
+
+export interface CalendarEntry {
+  id: string;
+  type: "booking" | "event" | "availability";
+  title: string;
+  /** ISO instant for bookings/events; local "YYYY-MM-DD[THH:MM]" for availability */
+  start: string;
+  end: string | null;
+  allDay: boolean;
+  timezone: string | null;
+  status?: string | null;
+  bookingId?: number;
+  eventId?: number;
+  availabilityId?: number;
+  kind?: string;
+}
+
+export interface CalendarViewer {
+  userId: number;
+  role: string;
+  isAdmin: boolean;
+}
+
+function toRule(entry: ArtistAvailability): AvailabilityRule & { entry: ArtistAvailability } {
+  return {
+    kind: entry.kind,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    daysOfWeek: (entry.daysOfWeek as number[] | null) ?? [],
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    entry,
+  };
+}
+
+/**
+ * Availability Service
+ *
+ * Artists record blocked dates, travel and recurring unavailability. New offers
+ * and applications are checked against those entries and against the artist's
+ * committed bookings (BLOCKING_BOOKING_STATUSES) before they are created.
+ */
+export class AvailabilityService {
+  async listForArtist(artistId: number): Promise<ArtistAvailability[]> {
+    return db.select().from(artistAvailability)
+      .where(eq(artistAvailability.artistId, artistId))
+      .orderBy(desc(artistAvailability.startDate));
+  }
+
+  private async getOwned(id: number, artistId: number): Promise<ArtistAvailability> {
+    const [entry] = await db.select().from(artistAvailability)
+      .where(and(eq(artistAvailability.id, id), eq(artistAvailability.artistId, artistId)));
+    if (!entry) throw new Error("Availability entry not found");
+    return entry;
+  }
+
+  private toValues(input: AvailabilityInput) {
+    const recurring = input.kind === "recurring";
+    return {
+      kind: input.kind,
+      startDate: input.startDate,
+      endDate: input.endDate || (recurring ? null : input.startDate),
+      daysOfWeek: recurring ? Array.from(new Set(input.daysOfWeek ?? [])).sort((a, b) => a - b) : [],
+      startTime: recurring ? input.startTime ?? null : null,
+      endTime: recurring ? input.endTime ?? null : null,
+      cities: input.kind === "travel" ? input.cities ?? [] : [],
+      note: input.note ?? null,
+    };
+  }
+
+  async create(artistId: number, userId: number, input: AvailabilityInput): Promise<ArtistAvailability> {
+    const [created] = await db.insert(artistAvailability)
+      .values({ artistId, ...this.toValues(input) })
+      .returning();
+
+    await db.insert(auditLogs).values({
+      who: userId,
+      action: "availability_created",
+      entityType: "artist_availability",
+      entityId: created.id,
+      context: { artistId, kind: created.kind, startDate: created.startDate, endDate: created.endDate },
+    });
+
+    return created;
+  }
+
+  async update(id: number, artistId: number, userId: number, input: AvailabilityInput): Promise<ArtistAvailability> {
+    const before = await this.getOwned(id, artistId);
+    const [updated] = await db.update(artistAvailability)
+      .set({ ...this.toValues(input), updatedAt: new Date() })
+      .where(eq(artistAvailability.id, id))
+      .returning();
+
+    await db.insert(auditLogs).values({
+      who: userId,
+      action: "availability_updated",
+      entityType: "artist_availability",
+      entityId: id,
+      diff: { before, after: updated },
+      context: { artistId },
+    });
+
+    return updated;
+  }
+
+  async remove(id: number, artistId: number, userId: number): Promise<void> {
+    const entry = await this.getOwned(id, artistId);
+    await db.delete(artistAvailability).where(eq(artistAvailability.id, id));
+
+    await db.insert(auditLogs).values({
+      who: userId,
+      action: "availability_deleted",
+      entityType: "artist_availability",
+      entityId: id,
+      context: { artistId, kind: entry.kind, startDate: entry.startDate, endDate: entry.endDate },
+    });
+  }
+
+  private async getCommittedBookings(artistId: number) {
+    return db.select({ booking: bookings, event: events })
+      .from(bookings)
+      .innerJoin(events, eq(bookings.eventId, events.id))
+      .where(and(
+        eq(bookings.artistId, artistId),
+        inArray(bookings.status, [...BLOCKING_BOOKING_STATUSES]),
+      ));
+  }
+
+  /**
+   * First booking or availability entry that overlaps the window, or null if the
+   * artist is free. Availability entries are compared in `timeZone` (the event's).
+   */
+  async findConflict(
+    artistId: number,
+    window: TimeWindow,
+    timeZone: string | null | undefined,
+    options: { excludeBookingId?: number } = {},
+  ): Promise<ScheduleConflict | null> {
+    const committed = await this.getCommittedBookings(artistId);
+    for (const { booking, event } of committed) {
+      if (booking.id === options.excludeBookingId) continue;
+      const existing = eventWindow(event.startTime, event.endTime);
+      if (windowsOverlap(window, existing)) {
+        return {
+          type: "booking",
+          bookingId: booking.id,
+          eventId: event.id,
+          eventTitle: event.title,
+          status: booking.status,
+          startTime: existing.start.toISOString(),
+          endTime: existing.end.toISOString(),
+        };
+      }
+    }
+
+    const entries = await this.listForArtist(artistId);
+    const blocking = findBlockingRule(entries.map(toRule), window, timeZone);
+    if (blocking) {
+      return {
+        type: "availability",
+        availabilityId: blocking.entry.id,
+        kind: blocking.entry.kind,
+        startDate: blocking.entry.startDate,
+        endDate: blocking.entry.endDate,
+        note: blocking.entry.note,
+      };
+    }
+
+    return null;
+  }
+
+  async findConflictForEvent(artistId: number, event: Pick<Event, "startTime" | "endTime" | "timezone">): Promise<ScheduleConflict | null> {
+    return this.findConflict(artistId, eventWindow(event.startTime, event.endTime), event.timezone);
+  }
+
+  // ==========================================================================
+  // CALENDAR FEED
+  // ==========================================================================
+
+  private bookingEntry(booking: { id: number; status: string | null }, event: Event, title: string): CalendarEntry {
+    const window = eventWindow(event.startTime, event.endTime);
+    return {
+      id: `booking:${booking.id}`,
+      type: "booking",
+      title,
+      start: window.start.toISOString(),
+      end: window.end.toISOString(),
+      allDay: false,
+      timezone: event.timezone ?? DEFAULT_TIMEZONE,
+      status: booking.status,
+      bookingId: booking.id,
+      eventId: event.id,
+    };
+  }
+
+  private availabilityEntries(entries: ArtistAvailability[], from: string, to: string, redact: boolean): CalendarEntry[] {
+    const result: CalendarEntry[] = [];
+    for (const entry of entries) {
+      const label = redact
+        ? "Unavailable"
+        : entry.note || (entry.kind === "travel" ? "Travel" : "Unavailable");
+
+      for (const occurrence of expandRule(toRule(entry), from, to)) {
+        result.push({
+          id: `availability:${entry.id}:${occurrence.date}`,
+          type: "availability",
+          title: label,
+          start: occurrence.startTime ? `${occurrence.date}T${occurrence.startTime}` : occurrence.date,
+          end: occurrence.endTime
+            ? `${occurrence.endTime > (occurrence.startTime ?? "") ? occurrence.date : addDays(occurrence.date, 1)}T${occurrence.endTime}`
+            : null,
+          allDay: !occurrence.startTime,
+          timezone: null,
+          ...(redact ? {} : { availabilityId: entry.id, kind: entry.kind }),
+        });
+      }
+    }
+    return result;
+  }
+
+  private async artistCalendar(artistId: number, from: string, to: string, redact: boolean): Promise<CalendarEntry[]> {
+    const entries: CalendarEntry[] = [];
+    const rows = redact
+      ? await this.getCommittedBookings(artistId)
+      : (await storage.getBookingsByArtistWithDetails(artistId))
+        .filter((b) => b.event)
+        .map((b) => ({ booking: b, event: b.event as Event }));
+
+    for (const { booking, event } of rows) {
+      const entry = this.bookingEntry(booking, event, redact ? "Booked" : event.title);
+      entries.push(redact ? { ...entry, bookingId: undefined, eventId: undefined, status: undefined } : entry);
+    }
+
+    entries.push(...this.availabilityEntries(await this.listForArtist(artistId), from, to, redact));
+    return entries;
+  }
+
+  /**
+   * Calendar entries visible to the viewer between two local dates (inclusive):
+   * - artist: own bookings plus availability
+   * - organizer / promoter: own events and the bookings on them
+   * - venue_manager: bookings at the venue
+   * - admin: every booking, or any single artist's full calendar via `artistId`
+   * Anyone else passing `artistId` sees that artist's busy times without details.
+   */
+  async getCalendar(viewer: CalendarViewer, from: string, to: string, artistId?: number): Promise<CalendarEntry[]> {
+    const entries = await this.collectCalendar(viewer, from, to, artistId);
+
+    // Bookings/events are instants; keep the ones whose local date falls in range
+    const inRange = entries.filter((entry) => {
+      if (entry.type === "availability") return true;
+      const startDate = toLocalParts(new Date(entry.start), entry.timezone).date;
+      const endDate = entry.end ? toLocalParts(new Date(entry.end), entry.timezone).date : startDate;
+      return endDate >= from && startDate <= to;
+    });
+
+    return inRange.sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  private async collectCalendar(viewer: CalendarViewer, from: string, to: string, artistId?: number): Promise<CalendarEntry[]> {
+    if (artistId) {
+      const [artist] = await db.select().from(artists).where(eq(artists.id, artistId));
+      if (!artist) throw new Error("Artist not found");
+      const isOwner = artist.userId === viewer.userId;
+      return this.artistCalendar(artistId, from, to, !(isOwner || viewer.isAdmin));
+    }
+
+    if (viewer.isAdmin) {
+      const rows = await db.select({ booking: bookings, event: events })
+        .from(bookings)
+        .innerJoin(events, eq(bookings.eventId, events.id));
+      return rows.map(({ booking, event }) => this.bookingEntry(booking, event, event.title));
+    }
+
+    switch (viewer.role) {
+      case "artist": {
+        const artist = await storage.getArtistByUserId(viewer.userId);
+        return artist ? this.artistCalendar(artist.id, from, to, false) : [];
+      }
+      case "organizer":
+      case "promoter": {
+        const organizer = await storage.getOrganizerByUserId(viewer.userId);
+        if (!organizer) return [];
+        const organizerEvents = await storage.getEventsByOrganizer(organizer.id);
+        const organizerBookings = await storage.getBookingsByOrganizerWithDetails(organizer.id);
+        return [
+          ...organizerEvents.map((event): CalendarEntry => {
+            const window = eventWindow(event.startTime, event.endTime);
+            return {
+              id: `event:${event.id}`,
+              type: "event",
+              title: event.title,
+              start: window.start.toISOString(),
+              end: window.end.toISOString(),
+              allDay: false,
+              timezone: event.timezone ?? DEFAULT_TIMEZONE,
+              status: event.status,
+              eventId: event.id,
+            };
+          }),
+          ...organizerBookings.map((b) =>
+            this.bookingEntry(b, b.event, `${b.artist?.name ?? "Artist"} · ${b.event.title}`)),
+        ];
+      }
+      case "venue_manager": {
+        const venue = await storage.getVenueByUserId(viewer.userId);
+        if (!venue) return [];
+        const venueBookings = await storage.getBookingsByVenueWithDetails(venue.id);
+        return venueBookings.map((b) =>
+          this.bookingEntry(b, b.event, `${b.artist?.name ?? "Artist"} · ${b.event.title}`));
+      }
+      default:
+        return [];
+    }
+  }
+}
+
+export const availabilityService = new AvailabilityService();
+
+/**
+ * Default calendar range: today through 90 days ahead, capped at MAX_CALENDAR_RANGE_DAYS.
+ */
+export function resolveCalendarRange(from?: string, to?: string, now: Date = new Date()): { from: string; to: string } {
+  const start = from ?? now.toISOString().slice(0, 10);
+  const requestedEnd = to ?? addDays(start, 90);
+  const maxEnd = addDays(start, MAX_CALENDAR_RANGE_DAYS - 1);
+  if (requestedEnd < start) throw new Error("Calendar range end is before its start");
+  return { from: start, to: requestedEnd > maxEnd ? maxEnd : requestedEnd };
+}
+
+/**
+ * Human-readable 409 message. `self` phrases it for the artist (applications).
+ */
+export function describeConflict(conflict: ScheduleConflict, self: boolean = false): string {
+  const subject = self ? "You" : "The artist";
+  if (conflict.type === "booking") {
+    return `${subject} ${self ? "are" : "is"} already booked for "${conflict.eventTitle}" at an overlapping time`;
+  }
+  const what = conflict.kind === "travel" ? "travelling" : "unavailable";
+  return `${subject} ${self ? "are" : "is"} marked as ${what} for this date`;
+}
@@ -0,0 +1,45 @@
+import { storage } from "../storage";
+import { organizationService } from "./organization.service";
+import { adminPermissionService } from "./admin-permission.service";
+import { partiesHaveOrganization, type OrganizationRole, type ProfileAccess } from "../organization-utils";
+import { bookingAccess, type BookingAccess, type BookingResource } from "../booking-access-utils";
+
+export interface BookingAccessResult extends BookingAccess {
+  /** The booking with its artist, event, organizer and venue; null when it doesn't exist */
+  booking: any | null;
+}
+
+/**
+ * One authorization check for everything hanging off a booking. Routes ask
+ * whether the signed-in user may see or act on a booking's resource and get
+ * the loaded booking back, so a missing booking (404) and a stranger (403)
+ * are told apart the same way everywhere.
+ */
+export class BookingAccessService {
+  async check(
+    user: any,
+    bookingId: number,
+    resource: BookingResource,
+    required: ProfileAccess = "view",
+  ): Promise<BookingAccessResult> {
+    const booking = await storage.getBookingWithDetails(bookingId);
+    if (!booking) return { booking: null, allowed: false, sides: [], asAdmin: false };
+    return { booking, ...(await this.checkLoaded(user, booking, resource, required)) };
+  }
+
+  /** Same check for a booking the caller has already loaded with getBookingWithDetails */
+  async checkLoaded(
+    user: any,
+    booking: any,
+    resource: BookingResource,
+    required: ProfileAccess = "view",
+  ): Promise<BookingAccess> {
+    const memberships = partiesHaveOrganization(booking)
+      ? await organizationService.membershipsFor(user.id)
+      : new Map<number, OrganizationRole>();
+    const adminPermissions = await adminPermissionService.permissionsForUser(user);
+    return bookingAccess({ userId: user.id, memberships, adminPermissions }, booking, resource, required);
+  }
+}
+
+export const bookingAccessService = new BookingAccessService();
@@ -5,6 +5,25 @@ import { commissionPolicyService } from "./commissionPolicy.service";
 import { generateContractText, buildTermsFromBooking } from "../contract-utils";
 import { emitDomainEvent } from "./event-bus";
 import { storage } from "../storage";
+import type { Booking } from "../../shared/schema";
+import { escrowService } from "./escrow.service";
+import { reviewService } from "./review.service";
+import { jobScheduler } from "./job-scheduler.service";
+import { jobKey } from "../job-scheduler-utils";
+
+/** One-off job that cancels a booking when its 72-hour flow deadline passes */
+export const BOOKING_FLOW_EXPIRY_JOB = "booking.expire-flow";
+
+// Statuses in which the flow deadline still applies
+const FLOW_STATUSES = ["inquiry", "offered", "negotiating", "contracting"];
+
+/** Bookings whose event can be confirmed as having taken place */
+export const COMPLETABLE_BOOKING_STATUSES = ["confirmed", "paid_deposit", "scheduled"];
+
+export interface CompletionFeedback {
+  rating: number;
+  note?: string;
+}
 
 export class BookingService {
   async expireBookingFlow(bookingId: number, reason: string, userId?: number): Promise<boolean> {
@@ -33,17 +52,17 @@ export class BookingService {
             context: { reason }
           });
         }
-      });
 
-      // Notify both parties about cancellation
-      emitDomainEvent("booking.cancelled", {
-        bookingId,
-        entityType: "booking",
-        entityId: bookingId,
-        eventTitle: "Event",
-        reason,
-        actionUrl: `/bookings?bookingId=${bookingId}`,
-      }, userId || null);
+        // Notify both parties about cancellation (committed with the status change)
+        await emitDomainEvent("booking.cancelled", {
+          bookingId,
+          entityType: "booking",
+          entityId: bookingId,
+          eventTitle: "Event",
+          reason,
+          actionUrl: `/bookings?bookingId=${bookingId}`,
+        }, userId || null, tx);
+      });
 
       // Record expiry outcome for self-learning
       try {
@@ -75,6 +94,32 @@ export class BookingService {
     }
   }
 
+  /** Schedule (or move) the expiry job for a booking's flow deadline */
+  async scheduleFlowExpiry(bookingId: number, deadline: Date): Promise<void> {
+    try {
+      await jobScheduler.schedule(BOOKING_FLOW_EXPIRY_JOB, { bookingId }, deadline, {
+        key: jobKey(BOOKING_FLOW_EXPIRY_JOB, bookingId),
+      });
+    } catch (error) {
+      // Endpoints still check the deadline lazily, so this is not fatal
+      console.error("Failed to schedule booking flow expiry:", error);
+    }
+  }
+
+  /**
+   * Cancel the booking if its flow deadline has passed and it is still being
+   * negotiated or contracted. Returns false when there was nothing to expire.
+   */
+  async expireIfFlowOverdue(bookingId: number, now: Date = new Date()): Promise<boolean> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking || !booking.flowDeadlineAt || booking.flowDeadlineAt > now) return false;
+    if (!booking.status || !FLOW_STATUSES.includes(booking.status)) return false;
+
+    const expired = await this.expireBookingFlow(bookingId, "negotiation_expired");
+    if (!expired) throw new Error("Failed to expire booking flow");
+    return true;
+  }
+
   async confirmBookingAndSnapshot(bookingId: number) {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
     if (!booking) throw new Error("Booking not found");
@@ -112,6 +157,62 @@ export class BookingService {
 
     return updatedBooking;
   }
+
+  /**
+   * Records one side's confirmation that the event took place. The booking
+   * row is locked so two confirmations arriving together both count; once
+   * the organizer and the artist have both confirmed, the booking completes.
+   */
+  async confirmCompletion(
+    bookingId: number,
+    side: "artist" | "organizer",
+    feedback: CompletionFeedback,
+    actorUserId: number,
+  ): Promise<Booking> {
+    const { booking, completed } = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for("update");
+      if (!current) throw new Error("Booking not found");
+      if (!COMPLETABLE_BOOKING_STATUSES.includes(current.status || "")) {
+        throw new Error(`Booking cannot be completed from status ${current.status}`);
+      }
+
+      const meta = (current.meta as Record<string, any>) || {};
+      const completionFeedback = {
+        ...(meta.completionFeedback || {}),
+        [side]: { confirmedBy: side, rating: feedback.rating, note: feedback.note, confirmedAt: new Date().toISOString() },
+      };
+      const completed = !!(completionFeedback.organizer && completionFeedback.artist);
+
+      const [updated] = await tx.update(bookings)
+        .set({ meta: { ...meta, completionFeedback }, ...(completed ? { status: "completed" as const } : {}), updatedAt: new Date() })
+        .where(eq(bookings.id, bookingId))
+        .returning();
+      return { booking: updated, completed };
+    });
+
+    if (completed) {
+      await this.onCompleted(bookingId);
+      const details = await storage.getBookingWithDetails(bookingId);
+      await emitDomainEvent("booking.confirmed", {
+        bookingId,
+        entityType: "booking",
+        entityId: bookingId,
+        eventTitle: details?.event?.title || "Event",
+        newStatus: "completed",
+        actionUrl: `/bookings?bookingId=${bookingId}`,
+      }, actorUserId);
+    }
+    return booking;
+  }
+
+  /**
+   * What follows a booking becoming completed, however it got there: the
+   * artist payout is queued and the review window opens. Both are idempotent.
+   */
+  async onCompleted(bookingId: number): Promise<void> {
+    await escrowService.onBookingCompleted(bookingId);
+    await reviewService.openWindow(bookingId);
+  }
 }
 
 export const bookingService = new BookingService();
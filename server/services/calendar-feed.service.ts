@@ -0,0 +1,253 @@
+import { randomBytes } from "crypto";
+import { db } from "../db";
+import { calendarFeedTokens, eventStages, temporaryVenues, users } from "../../shared/schema";
+import type { CalendarFeedToken, Event, EventStage, TemporaryVenue, User } from "../../shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { eventWindow } from "../availability-utils";
+import {
+  FEED_BOOKING_STATUSES,
+  buildIcsCalendar,
+  formatLocalTime,
+  formatVenueAddress,
+  icsStatusForBooking,
+  type IcsEvent,
+} from "../ics-utils";
+
+export type FeedPerspective = "artist" | "organizer" | "venue";
+
+export interface BookingIcsContext {
+  baseUrl: string;
+  perspective: FeedPerspective;
+  stage?: EventStage | null;
+  temporaryVenue?: TemporaryVenue | null;
+}
+
+function uidDomain(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host || "bandwidth";
+  } catch {
+    return "bandwidth";
+  }
+}
+
+function timeRange(start: Date, end: Date, timeZone: string | null | undefined): string {
+  return `${formatLocalTime(start, timeZone)}–${formatLocalTime(end, timeZone)}`;
+}
+
+/**
+ * Maps a booking (as returned by the storage *WithDetails helpers) to a calendar event.
+ * The artist's stage slot, when set, is used as the event time instead of the whole event.
+ */
+export function bookingToIcsEvent(booking: any, context: BookingIcsContext): IcsEvent {
+  const event: Event = booking.event;
+  const timeZone = event.timezone;
+  const eventSpan = eventWindow(event.startTime, event.endTime);
+  const stage = context.stage;
+  const slot = stage?.startTime ? eventWindow(stage.startTime, stage.endTime) : eventSpan;
+  const location = formatVenueAddress(booking.venue, context.temporaryVenue);
+  const url = `${context.baseUrl}/bookings?bookingId=${booking.id}`;
+
+  const artistName = booking.artist?.name || "Artist";
+  const summary = context.perspective === "artist"
+    ? `Gig: ${event.title}`
+    : `${artistName} · ${event.title}`;
+
+  const description = [
+    `Status: ${String(booking.status || "").replace(/_/g, " ")}`,
+    context.perspective !== "artist" ? `Artist: ${artistName}` : null,
+    event.doorTime ? `Doors: ${formatLocalTime(new Date(event.doorTime), timeZone)}` : null,
+    `Event: ${timeRange(eventSpan.start, eventSpan.end, timeZone)} (${timeZone || "Asia/Kolkata"})`,
+    stage ? `Stage: ${stage.name || "Main"}${stage.startTime ? `, ${timeRange(slot.start, slot.end, timeZone)}` : ""}` : null,
+    location ? `Venue: ${location}` : null,
+    `Booking: ${url}`,
+  ].filter(Boolean).join("\n");
+
+  return {
+    uid: `booking-${booking.id}@${uidDomain(context.baseUrl)}`,
+    start: slot.start,
+    end: slot.end,
+    summary,
+    description,
+    location,
+    url,
+    status: icsStatusForBooking(booking.status),
+    lastModified: booking.updatedAt ? new Date(booking.updatedAt) : null,
+  };
+}
+
+export function organizerEventToIcsEvent(
+  event: Event,
+  context: { baseUrl: string; venue?: { name?: string | null; address?: unknown } | null; temporaryVenue?: TemporaryVenue | null },
+): IcsEvent {
+  const span = eventWindow(event.startTime, event.endTime);
+  const location = formatVenueAddress(context.venue, context.temporaryVenue);
+  const url = `${context.baseUrl}/organizer/events/${event.id}/edit`;
+
+  const description = [
+    `Status: ${event.status || "draft"}`,
+    event.doorTime ? `Doors: ${formatLocalTime(new Date(event.doorTime), event.timezone)}` : null,
+    location ? `Venue: ${location}` : null,
+    `Event: ${url}`,
+  ].filter(Boolean).join("\n");
+
+  return {
+    uid: `event-${event.id}@${uidDomain(context.baseUrl)}`,
+    start: span.start,
+    end: span.end,
+    summary: event.title,
+    description,
+    location,
+    url,
+    status: event.status === "published" || event.status === "completed" ? "CONFIRMED" : "TENTATIVE",
+    lastModified: event.updatedAt ? new Date(event.updatedAt) : null,
+  };
+}
+
+function isFeedBooking(booking: any): boolean {
+  return !!booking.event && (FEED_BOOKING_STATUSES as readonly string[]).includes(booking.status);
+}
+
+/**
+ * Calendar Feed Service
+ *
+ * Issues per-user secret tokens for .ics subscription URLs and renders
+ * bookings (and an organizer's events) as iCalendar documents.
+ */
+export class CalendarFeedService {
+  async getOrCreateToken(userId: number): Promise<CalendarFeedToken> {
+    const [existing] = await db.select().from(calendarFeedTokens).where(eq(calendarFeedTokens.userId, userId));
+    if (existing) return existing;
+
+    const [created] = await db.insert(calendarFeedTokens)
+      .values({ userId, token: randomBytes(24).toString("hex") })
+      .onConflictDoNothing()
+      .returning();
+    // Lost a race with a concurrent request; the other insert won
+    return created ?? (await db.select().from(calendarFeedTokens).where(eq(calendarFeedTokens.userId, userId)))[0];
+  }
+
+  async rotateToken(userId: number): Promise<CalendarFeedToken> {
+    const token = randomBytes(24).toString("hex");
+    const [row] = await db.insert(calendarFeedTokens)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        set: { token, createdAt: new Date(), lastUsedAt: null },
+      })
+      .returning();
+    return row;
+  }
+
+  async getUserByToken(token: string): Promise<User | null> {
+    if (!/^[a-f0-9]{48}$/.test(token)) return null;
+    const [row] = await db.select().from(calendarFeedTokens).where(eq(calendarFeedTokens.token, token));
+    if (!row) return null;
+
+    const [user] = await db.select().from(users).where(eq(users.id, row.userId));
+    if (!user || user.status === "suspended") return null;
+
+    await db.update(calendarFeedTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(calendarFeedTokens.id, row.id));
+    return user;
+  }
+
+  private async loadStages(bookingList: any[]): Promise<Map<number, EventStage>> {
+    const ids = Array.from(new Set(bookingList.map((b) => b.stageId).filter(Boolean))) as number[];
+    if (ids.length === 0) return new Map();
+    const rows = await db.select().from(eventStages).where(inArray(eventStages.id, ids));
+    return new Map(rows.map((s) => [s.id, s]));
+  }
+
+  private async loadTemporaryVenues(eventIds: number[]): Promise<Map<number, TemporaryVenue>> {
+    const ids = Array.from(new Set(eventIds));
+    if (ids.length === 0) return new Map();
+    const rows = await db.select().from(temporaryVenues).where(inArray(temporaryVenues.eventId, ids));
+    return new Map(rows.filter((t) => t.eventId).map((t) => [t.eventId as number, t]));
+  }
+
+  private async bookingEvents(bookingList: any[], baseUrl: string, perspective: FeedPerspective): Promise<IcsEvent[]> {
+    const feedBookings = bookingList.filter(isFeedBooking);
+    const stages = await this.loadStages(feedBookings);
+    const tempVenues = await this.loadTemporaryVenues(
+      feedBookings.filter((b) => !b.event.venueId).map((b) => b.event.id),
+    );
+
+    return feedBookings.map((b) => bookingToIcsEvent(b, {
+      baseUrl,
+      perspective,
+      stage: b.stageId ? stages.get(b.stageId) : null,
+      temporaryVenue: tempVenues.get(b.event.id) ?? null,
+    }));
+  }
+
+  /**
+   * Subscription feed for the token's owner:
+   * - artist: their bookings
+   * - organizer / promoter: their events plus the bookings on them
+   * - venue_manager: bookings at their venue
+   */
+  async buildFeed(user: User, role: string, baseUrl: string): Promise<string> {
+    const name = `${user.displayName || user.username || "BANDWIDTH"} — Bookings`;
+    const icsEvents: IcsEvent[] = [];
+
+    if (role === "artist") {
+      const artist = await storage.getArtistByUserId(user.id);
+      if (artist) {
+        icsEvents.push(...await this.bookingEvents(await storage.getBookingsByArtistWithDetails(artist.id), baseUrl, "artist"));
+      }
+    } else if (role === "organizer" || role === "promoter") {
+      const organizer = await storage.getOrganizerByUserId(user.id);
+      if (organizer) {
+        const organizerEvents = (await storage.getEventsByOrganizer(organizer.id))
+          .filter((e) => e.status !== "cancelled");
+        const tempVenues = await this.loadTemporaryVenues(organizerEvents.filter((e) => !e.venueId).map((e) => e.id));
+        for (const event of organizerEvents) {
+          const venue = event.venueId ? await storage.getVenue(event.venueId) : null;
+          icsEvents.push(organizerEventToIcsEvent(event, { baseUrl, venue, temporaryVenue: tempVenues.get(event.id) }));
+        }
+        icsEvents.push(...await this.bookingEvents(await storage.getBookingsByOrganizerWithDetails(organizer.id), baseUrl, "organizer"));
+      }
+    } else if (role === "venue_manager" || role === "venue") {
+      const venue = await storage.getVenueByUserId(user.id);
+      if (venue) {
+        icsEvents.push(...await this.bookingEvents(await storage.getBookingsByVenueWithDetails(venue.id), baseUrl, "venue"));
+      }
+    }
+
+    return buildIcsCalendar(name, icsEvents.sort((a, b) => a.start.getTime() - b.start.getTime()));
+  }
+
+  /**
+   * Single-booking download. Throws "Booking not found" and
+   * "Not authorized to access this booking" for the route to map.
+   */
+  async buildBookingIcs(bookingId: number, viewer: { id: number; isAdmin: boolean }, baseUrl: string): Promise<{ filename: string; body: string }> {
+    const booking = await storage.getBookingWithDetails(bookingId);
+    if (!booking || !booking.event) throw new Error("Booking not found");
+
+    const perspective: FeedPerspective | null =
+      booking.artist?.userId === viewer.id ? "artist"
+        : booking.organizer?.userId === viewer.id ? "organizer"
+          : booking.venue?.userId === viewer.id ? "venue"
+            : viewer.isAdmin ? "organizer" : null;
+    if (!perspective) throw new Error("Not authorized to access this booking");
+
+    const stages = await this.loadStages([booking]);
+    const tempVenues = booking.event.venueId ? new Map() : await this.loadTemporaryVenues([booking.event.id]);
+    const icsEvent = bookingToIcsEvent(booking, {
+      baseUrl,
+      perspective,
+      stage: booking.stageId ? stages.get(booking.stageId) : null,
+      temporaryVenue: tempVenues.get(booking.event.id) ?? null,
+    });
+
+    return {
+      filename: `booking-${booking.id}.ics`,
+      body: buildIcsCalendar(booking.event.title, [icsEvent]),
+    };
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
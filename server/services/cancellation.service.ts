@@ -0,0 +1,258 @@
+import { db } from "../db";
+import { auditLogs, bookingCancellations, bookings, cancellationPolicies, contracts, events } from "../../shared/schema";
+import type { Booking, BookingCancellation, CancellationPolicy, Contract } from "../../shared/schema";
+import { desc, eq } from "drizzle-orm";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  computeCancellationSettlement,
+  daysBeforeEvent,
+  penaltySchedule,
+  policyRulesError,
+  type CancellationFault,
+  type CancellationPolicyRules,
+  type CancellationSettlement,
+  type PenaltyWindow,
+} from "../cancellation-policy-utils";
+import { calculateEscrowSchedule, escrowPaidIn, escrowService } from "./escrow.service";
+import { invoiceService } from "./invoice.service";
+import { emitDomainEvent } from "./event-bus";
+
+/** Bookings past negotiation that can still be cancelled */
+export const CANCELLABLE_BOOKING_STATUSES = ["contracting", "confirmed", "paid_deposit", "scheduled"];
+
+export interface CancellationPolicyInput {
+  name: string;
+  description?: string | null;
+  rules: CancellationPolicyRules;
+}
+
+export interface CancellationQuote {
+  bookingId: number;
+  contractId: number | null;
+  /** Null when the booking has no signed contract, so no penalties apply */
+  policyVersion: number | null;
+  settlement: CancellationSettlement;
+  /** The cancelling party's penalty windows under the contract */
+  schedule: PenaltyWindow[];
+}
+
+export interface CancelBookingInput {
+  fault: CancellationFault;
+  cancelledByRole: "artist" | "organizer" | "admin";
+  reason: string;
+  note?: string | null;
+}
+
+const EMPTY_RULES: CancellationPolicyRules = { artist: [], organizer: [] };
+
+function reasonLabel(reason: string): string {
+  return reason.replace(/_/g, " ");
+}
+
+/**
+ * Versioned cancellation policies and booking cancellations. Policies are
+ * never updated in place; a signed contract is settled by the policy version
+ * stamped on it at generation, with the penalty percentages negotiated into
+ * its terms.
+ */
+export class CancellationService {
+  /** Seeds the standard policy as version 1 when no policy exists yet */
+  async ensureDefaults(): Promise<void> {
+    const [any] = await db.select({ id: cancellationPolicies.id }).from(cancellationPolicies).limit(1);
+    if (any) return;
+    await db.insert(cancellationPolicies)
+      .values({ ...DEFAULT_CANCELLATION_POLICY, version: 1 })
+      .onConflictDoNothing();
+  }
+
+  /** Every policy version, newest first */
+  async listPolicies(): Promise<CancellationPolicy[]> {
+    await this.ensureDefaults();
+    return db.select().from(cancellationPolicies).orderBy(desc(cancellationPolicies.version));
+  }
+
+  /** The policy new contracts are generated with */
+  async currentPolicy(): Promise<CancellationPolicy> {
+    const [latest] = await this.listPolicies();
+    return latest;
+  }
+
+  async getPolicy(version: number): Promise<CancellationPolicy> {
+    await this.ensureDefaults();
+    const [policy] = await db.select().from(cancellationPolicies).where(eq(cancellationPolicies.version, version));
+    if (!policy) throw new Error("Cancellation policy not found");
+    return policy;
+  }
+
+  /** Saves the next policy version; contracts already generated keep theirs */
+  async savePolicy(input: CancellationPolicyInput, who: number): Promise<CancellationPolicy> {
+    const error = policyRulesError(input.rules);
+    if (error) throw new Error(error);
+
+    const current = await this.currentPolicy();
+    const [policy] = await db.insert(cancellationPolicies).values({
+      version: current.version + 1,
+      name: input.name,
+      description: input.description ?? null,
+      rules: input.rules,
+      createdBy: who,
+    }).returning();
+
+    await db.insert(auditLogs).values({
+      who,
+      action: "cancellation_policy_saved",
+      entityType: "cancellation_policy",
+      entityId: policy.id,
+      context: { version: policy.version, previousVersion: current.version },
+    });
+    return policy;
+  }
+
+  async forBooking(bookingId: number): Promise<BookingCancellation | null> {
+    const [cancellation] = await db.select().from(bookingCancellations).where(eq(bookingCancellations.bookingId, bookingId));
+    return cancellation ?? null;
+  }
+
+  /**
+   * What cancelling the booking now would cost each party. Bookings without
+   * a signed contract cancel without penalties.
+   */
+  async quote(bookingId: number, fault: CancellationFault, at: Date = new Date()): Promise<CancellationQuote> {
+    const { quote } = await this.evaluate(bookingId, fault, at);
+    return quote;
+  }
+
+  private async evaluate(bookingId: number, fault: CancellationFault, at: Date) {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) throw new Error("Booking not found");
+    if (await this.forBooking(bookingId)) throw new Error("Booking is already cancelled");
+    if (!CANCELLABLE_BOOKING_STATUSES.includes(booking.status || "")) {
+      throw new Error(`Booking cannot be cancelled from status ${booking.status}`);
+    }
+
+    const [event] = booking.eventId ? await db.select().from(events).where(eq(events.id, booking.eventId)) : [];
+    const days = event?.startTime ? daysBeforeEvent(new Date(event.startTime), at) : 0;
+    if (days < 0) throw new Error("The event has already started");
+
+    const [contract] = booking.contractId
+      ? await db.select().from(contracts).where(eq(contracts.id, booking.contractId))
+      : [];
+    // Contracts generated before policies were versioned follow version 1
+    const policy = contract?.status === "signed" ? await this.getPolicy(contract.cancellationPolicyVersion ?? 1) : null;
+    const rules = (policy?.rules as CancellationPolicyRules | undefined) ?? EMPTY_RULES;
+    const terms = (contract?.negotiatedTermsJson as Record<string, any> | null) ?? {};
+
+    const schedule = calculateEscrowSchedule(
+      contract?.commissionBreakdownJson as Record<string, any> | null,
+      booking.depositPercent,
+      booking.finalAmount || booking.offerAmount,
+    );
+    const settlement = computeCancellationSettlement({
+      cancelledBy: fault,
+      daysBeforeEvent: days,
+      rules,
+      negotiated: terms.cancellation,
+      fee: Number(terms.fee ?? booking.finalAmount ?? booking.offerAmount ?? 0),
+      totalDue: schedule.totalDue,
+      depositAmount: schedule.depositAmount,
+      netPayoutToArtist: schedule.netPayoutToArtist,
+      paid: escrowPaidIn(await escrowService.getPaymentsForBooking(bookingId)),
+    });
+
+    const quote: CancellationQuote = {
+      bookingId,
+      contractId: contract?.id ?? null,
+      policyVersion: policy?.version ?? null,
+      settlement,
+      schedule: fault === "force_majeure" ? [] : penaltySchedule(rules, fault, terms.cancellation),
+    };
+    return { booking, contract: contract as Contract | undefined, event, quote };
+  }
+
+  /**
+   * Cancels the booking: records who cancelled, when and why, then settles
+   * the money through escrow (refund, cancellation fee, compensation
+   * payouts) and closes the booking's invoices.
+   */
+  async cancel(bookingId: number, userId: number, input: CancelBookingInput): Promise<BookingCancellation> {
+    const now = new Date();
+    const { booking, contract, event, quote } = await this.evaluate(bookingId, input.fault, now);
+    const { settlement } = quote;
+
+    const cancellation = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(bookingCancellations).values({
+        bookingId,
+        contractId: contract?.id ?? null,
+        cancelledBy: userId,
+        cancelledByRole: input.cancelledByRole,
+        fault: input.fault,
+        reason: input.reason,
+        note: input.note ?? null,
+        bookingStatusBefore: booking.status as Booking["status"],
+        policyVersion: quote.policyVersion,
+        daysBeforeEvent: settlement.daysBeforeEvent,
+        settlement,
+        cancelledAt: now,
+      }).returning();
+
+      await tx.update(bookings)
+        .set({ status: "cancelled", updatedAt: now })
+        .where(eq(bookings.id, bookingId));
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "booking_cancelled",
+        entityType: "booking",
+        entityId: bookingId,
+        context: {
+          cancellationId: created.id,
+          cancelledByRole: input.cancelledByRole,
+          fault: input.fault,
+          reason: input.reason,
+          from: booking.status,
+          policyVersion: quote.policyVersion,
+        },
+      });
+      return created;
+    });
+
+    const auditReason = `Cancellation #${cancellation.id}: ${reasonLabel(input.reason)}`;
+    const moved = await escrowService.settleCancellation(bookingId, cancellation.id, settlement, auditReason, userId);
+    const [settled] = await db.update(bookingCancellations)
+      .set({ refundedAmount: moved.refunded.toFixed(2), feePaymentId: moved.feePayment?.id ?? null })
+      .where(eq(bookingCancellations.id, cancellation.id))
+      .returning();
+
+    for (const invoice of await invoiceService.getInvoicesForBooking(bookingId)) {
+      if (invoice.status === "draft" || invoice.status === "issued" || invoice.status === "overdue") {
+        await invoiceService.updateStatus(invoice.id, "cancelled", auditReason, userId);
+      } else if (invoice.status === "paid" && moved.refunded > 0) {
+        await invoiceService.updateStatus(invoice.id, "refunded", auditReason, userId);
+      }
+    }
+
+    await emitDomainEvent("booking.cancelled", {
+      bookingId,
+      entityType: "booking",
+      entityId: bookingId,
+      eventTitle: event?.title || "Event",
+      reason: this.summarize(input, settlement),
+      actionUrl: `/bookings?bookingId=${bookingId}`,
+    }, userId);
+
+    return settled;
+  }
+
+  /** One line for the cancellation notice: who, why and the money */
+  private summarize(input: CancelBookingInput, settlement: CancellationSettlement): string {
+    const by = input.fault === "force_majeure" ? "force majeure" : `cancelled by the ${input.fault}`;
+    const parts = [`${reasonLabel(input.reason)} (${by}, ${settlement.daysBeforeEvent} days before the event)`];
+    if (settlement.refundToOrganizer > 0) parts.push(`refund to organizer ${settlement.refundToOrganizer.toFixed(2)}`);
+    if (settlement.feeDue > 0) parts.push(`cancellation fee due ${settlement.feeDue.toFixed(2)}`);
+    if (settlement.artistCompensation > 0) parts.push(`compensation to artist ${settlement.artistCompensation.toFixed(2)}`);
+    if (settlement.organizerCompensation > 0) parts.push(`compensation to organizer ${settlement.organizerCompensation.toFixed(2)}`);
+    return parts.join("; ");
+  }
+}
+
+export const cancellationService = new CancellationService();
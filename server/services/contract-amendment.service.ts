@@ -0,0 +1,494 @@
+import { db } from "../db";
+import { artistCategoryEnum, auditLogs, bookings, contractAmendments, contractSignatures, contractVersions, contracts, disputes } from "../../shared/schema";
+import type { Contract, ContractAmendment } from "../../shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  AMENDMENT_PARTY_FIELDS,
+  OPEN_AMENDMENT_STATUSES,
+  amendmentPreamble,
+  amendmentStepFor,
+  applyAmendmentChanges,
+  changesFee,
+  diffTerms,
+  statusAfterSigning,
+  summarizeDiff,
+  type AmendmentParty,
+  type AmendmentStep,
+  type ClauseDiff,
+} from "../contract-amendment-utils";
+import type { BookingForContract } from "../contract-utils";
+import { commissionPolicyService } from "./commissionPolicy.service";
+import { contractService } from "./contract.service";
+import { contractIntegrityService, type SignedDocument } from "./contract-integrity.service";
+import { escrowService } from "./escrow.service";
+import { invoiceService } from "./invoice.service";
+import { emitDomainEvent } from "./event-bus";
+import { ACTIVE_DISPUTE_STATUSES } from "./dispute.service";
+
+export interface AmendmentProposal {
+  changes: Record<string, unknown>;
+  reason: string;
+}
+
+export interface AmendmentSignature {
+  signatureData: string;
+  signatureType: "typed" | "drawn" | "uploaded";
+  ipAddress: string | null;
+  userAgent: string | null;
+  twoFactorMethod: string;
+  twoFactorVerifiedAt: Date;
+}
+
+type PartyStep = Exclude<AmendmentStep, "waiting">;
+
+/** Booking statuses between a signed contract and the event, while terms can still change */
+const AMENDABLE_BOOKING_STATUSES = ["confirmed", "paid_deposit", "scheduled"] as const;
+
+const STEP_FIELDS: Record<PartyStep, "reviewed" | "accepted" | "signed"> = {
+  review: "reviewed",
+  accept: "accepted",
+  sign: "signed",
+};
+
+const STEP_ERRORS: Record<PartyStep | "waiting", string> = {
+  review: "Review the amendment first",
+  accept: "Accept the amendment before signing",
+  sign: "Sign the amendment first",
+  waiting: "Waiting for the other party to review the amendment",
+};
+
+/**
+ * Amendments to signed contracts. A party proposes changes to the signed
+ * terms; the amended version is rendered from the contract's template with
+ * an amendment preamble and recorded as a new contract version linked to
+ * the signed one. Both parties review, accept and sign it (with a two-factor
+ * step-up, as for the original), fee changes then wait for an admin, and
+ * applying the amendment moves the contract, booking, escrow and invoices
+ * onto the amended terms.
+ */
+export class ContractAmendmentService {
+  async list(contractId: number): Promise<ContractAmendment[]> {
+    return db.select().from(contractAmendments)
+      .where(eq(contractAmendments.contractId, contractId))
+      .orderBy(desc(contractAmendments.id));
+  }
+
+  async get(contractId: number, amendmentId: number): Promise<ContractAmendment> {
+    const [amendment] = await db.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.id, amendmentId), eq(contractAmendments.contractId, contractId)));
+    if (!amendment) throw new Error("Amendment not found");
+    return amendment;
+  }
+
+  /** Fee amendments both parties have signed, waiting for an admin */
+  async pendingAdminReview() {
+    return db.select({ amendment: contractAmendments, bookingId: contracts.bookingId })
+      .from(contractAmendments)
+      .innerJoin(contracts, eq(contracts.id, contractAmendments.contractId))
+      .where(eq(contractAmendments.status, "admin_review"))
+      .orderBy(contractAmendments.updatedAt);
+  }
+
+  /**
+   * Proposes an amendment to a signed contract and renders its version, while
+   * the booking is confirmed and before the event, with no open dispute. The
+   * proposer's review is recorded straight away; a fee change recalculates
+   * the commission breakdown through the commission policy.
+   */
+  async propose(
+    contract: Contract,
+    legacyBooking: any,
+    party: AmendmentParty,
+    userId: number,
+    proposal: AmendmentProposal,
+  ): Promise<ContractAmendment> {
+    if (contract.status !== "signed") {
+      throw new Error("Only signed contracts can be amended");
+    }
+    const [booking] = contract.bookingId
+      ? await db.select({ status: bookings.status }).from(bookings).where(eq(bookings.id, contract.bookingId))
+      : [];
+    if (!booking || !contract.bookingId) throw new Error("Booking not found");
+    if (!(AMENDABLE_BOOKING_STATUSES as readonly string[]).includes(booking.status || "")) {
+      throw new Error(`Contracts can't be amended while the booking is ${booking.status}`);
+    }
+    const [dispute] = await db.select({ id: disputes.id }).from(disputes).where(and(
+      eq(disputes.bookingId, contract.bookingId),
+      inArray(disputes.status, [...ACTIVE_DISPUTE_STATUSES, "resolving"]),
+    ));
+    if (dispute) {
+      throw new Error("Contracts can't be amended while the booking has an open dispute");
+    }
+    const existing = await this.list(contract.id);
+    if (existing.some((a) => (OPEN_AMENDMENT_STATUSES as readonly string[]).includes(a.status))) {
+      throw new Error("Contract already has an open amendment");
+    }
+
+    const baseVersion = contract.currentVersion ?? 1;
+    const [baseRow] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contract.id), eq(contractVersions.version, baseVersion)));
+    const before = ((baseRow?.terms ?? contract.negotiatedTermsJson) || {}) as Record<string, unknown>;
+    const after = applyAmendmentChanges(before, proposal.changes);
+    const diff = diffTerms(before, after);
+    if (diff.length === 0) {
+      throw new Error("Amendment does not change the contract");
+    }
+
+    const feeChanged = changesFee(before, after);
+    const commissionBreakdownJson = feeChanged
+      ? await commissionPolicyService.calculateBookingMath(
+        artistCategoryEnum.enumValues.find((c) => c === contract.artistCategorySnapshot) ?? "mid_scale",
+        contract.trustScoreSnapshot || "standard",
+        Number(after.fee),
+      )
+      : contract.commissionBreakdownJson;
+
+    // Only what the amendment changes replaces the booking's values, so
+    // untouched clauses render exactly as they were signed
+    const overrides: Partial<BookingForContract> = {};
+    if (feeChanged) {
+      overrides.finalAmount = Number(after.fee);
+      overrides.commissionBreakdown = commissionBreakdownJson;
+    }
+    if (diff.some((c) => c.clause === "slotTime")) overrides.slotTime = (after.slotTime as string | null) ?? null;
+    const rendered = await contractService.renderContractRevision(contract, after, legacyBooking, overrides);
+
+    const [latest] = await db.select({ version: contractVersions.version }).from(contractVersions)
+      .where(eq(contractVersions.contractId, contract.id))
+      .orderBy(desc(contractVersions.version))
+      .limit(1);
+    const version = Math.max(latest?.version ?? 0, baseVersion) + 1;
+    const number = existing.length + 1;
+    const contractText = amendmentPreamble({ number, contractId: contract.id, baseVersion, reason: proposal.reason, diff })
+      + rendered.contractText;
+    const now = new Date();
+
+    return db.transaction(async (tx) => {
+      const [amendment] = await tx.insert(contractAmendments).values({
+        contractId: contract.id,
+        baseVersion,
+        version,
+        proposedBy: userId,
+        proposedByRole: party,
+        reason: proposal.reason,
+        changes: proposal.changes,
+        diff,
+        feeChanged,
+        commissionBreakdownJson,
+        [AMENDMENT_PARTY_FIELDS[party].reviewed]: now,
+      }).returning();
+
+      await tx.insert(contractVersions).values({
+        contractId: contract.id,
+        version,
+        contractText,
+        terms: after,
+        renderVariables: rendered.renderVariables,
+        createdBy: userId,
+        changeSummary: `Amendment No. ${number} proposed by ${party}: ${summarizeDiff(diff)}`,
+        amendsVersion: baseVersion,
+        amendmentId: amendment.id,
+      });
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "contract_amendment_proposed",
+        entityType: "contract",
+        entityId: contract.id,
+        context: { amendmentId: amendment.id, baseVersion, version, feeChanged, clauses: diff.map((c) => c.clause) },
+      });
+
+      await emitDomainEvent("contract.amendment_proposed", {
+        bookingId: contract.bookingId,
+        contractId: contract.id,
+        amendmentId: amendment.id,
+        entityType: "contract",
+        entityId: contract.id,
+        eventTitle: (after.eventTitle as string) || "Event",
+        actorName: party === "artist" ? "Artist" : "Organizer",
+        actionUrl: `/contract/${contract.id}`,
+      }, userId, tx);
+
+      return amendment;
+    });
+  }
+
+  /** The counterparty's review: approving records it, rejecting closes the amendment */
+  async review(
+    contractId: number,
+    amendmentId: number,
+    party: AmendmentParty,
+    userId: number,
+    decision: "approve" | "reject",
+    note?: string | null,
+  ): Promise<ContractAmendment> {
+    const amendment = await this.get(contractId, amendmentId);
+    const step = amendmentStepFor(amendment, party);
+    if (step === null) throw new Error(`Amendment is ${amendment.status}`);
+
+    if (decision === "reject") {
+      if (amendment.proposedByRole === party) throw new Error("Withdraw your own amendment instead of rejecting it");
+      if (amendment[AMENDMENT_PARTY_FIELDS[party].signed]) throw new Error("You have already signed this amendment");
+      return this.close(amendment, "rejected", userId, note ?? null, "contract_amendment_rejected");
+    }
+
+    this.requireStep(amendment, party, "review");
+    return this.recordStep(amendment, { [AMENDMENT_PARTY_FIELDS[party].reviewed]: new Date() }, userId, "contract_amendment_reviewed", { party });
+  }
+
+  /** The accept checkpoint before signing, once both parties have reviewed */
+  async accept(contractId: number, amendmentId: number, party: AmendmentParty, userId: number): Promise<ContractAmendment> {
+    const amendment = await this.get(contractId, amendmentId);
+    this.requireStep(amendment, party, "accept");
+    return this.recordStep(amendment, { [AMENDMENT_PARTY_FIELDS[party].accepted]: new Date() }, userId, "contract_amendment_accepted", { party });
+  }
+
+  /**
+   * Signs the amendment's version, storing the signature with that version's
+   * document hash. The second signature applies the amendment, or sends it
+   * to admin review when it changes the fee.
+   */
+  async sign(
+    contract: Contract,
+    amendmentId: number,
+    party: AmendmentParty,
+    userId: number,
+    signature: AmendmentSignature,
+  ): Promise<{ amendment: ContractAmendment; document: SignedDocument }> {
+    const amendment = await this.get(contract.id, amendmentId);
+    this.requireStep(amendment, party, "sign");
+
+    const document = await contractIntegrityService.documentForSigning(contract, amendment.version);
+    const now = new Date();
+
+    const { updated, status } = await db.transaction(async (tx) => {
+      // Lock the row so two parties signing at once each see the other's signature
+      const [current] = await tx.select().from(contractAmendments)
+        .where(eq(contractAmendments.id, amendment.id))
+        .for("update");
+      this.requireStep(current, party, "sign");
+      const status = statusAfterSigning({ ...current, [AMENDMENT_PARTY_FIELDS[party].signed]: now });
+
+      await tx.insert(contractSignatures).values({
+        contractId: contract.id,
+        userId,
+        role: party,
+        signatureData: signature.signatureData,
+        signatureType: signature.signatureType,
+        ipAddress: signature.ipAddress,
+        userAgent: signature.userAgent,
+        twoFactorMethod: signature.twoFactorMethod,
+        twoFactorVerifiedAt: signature.twoFactorVerifiedAt,
+        documentHash: document.hash,
+        contractVersion: document.version,
+        signedAt: now,
+      });
+
+      const [row] = await tx.update(contractAmendments)
+        .set({
+          [AMENDMENT_PARTY_FIELDS[party].signed]: now,
+          status: status === "admin_review" ? "admin_review" : current.status,
+          updatedAt: now,
+        })
+        .where(eq(contractAmendments.id, amendment.id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "contract_amendment_signed",
+        entityType: "contract",
+        entityId: contract.id,
+        context: {
+          amendmentId: amendment.id,
+          party,
+          twoFactorMethod: signature.twoFactorMethod,
+          documentHash: document.hash,
+          version: document.version,
+        },
+      });
+
+      if (status === "admin_review") {
+        await emitDomainEvent("contract.amendment_review", {
+          bookingId: contract.bookingId,
+          contractId: contract.id,
+          amendmentId: amendment.id,
+          entityType: "contract",
+          entityId: contract.id,
+          eventTitle: (contract.negotiatedTermsJson as any)?.eventTitle || "Event",
+          actionUrl: `/contract/${contract.id}`,
+        }, userId, tx);
+      }
+      return { updated: row, status };
+    });
+
+    if (status === "applied") {
+      return { amendment: await this.apply(updated, userId), document };
+    }
+    return { amendment: updated, document };
+  }
+
+  /** The proposer takes the amendment back before it is applied */
+  async withdraw(contractId: number, amendmentId: number, party: AmendmentParty, userId: number, note?: string | null) {
+    const amendment = await this.get(contractId, amendmentId);
+    if (amendment.status !== "proposed") throw new Error(`Amendment is ${amendment.status}`);
+    if (amendment.proposedByRole !== party) throw new Error("Only the proposing party can withdraw an amendment");
+    return this.close(amendment, "withdrawn", userId, note ?? null, "contract_amendment_withdrawn");
+  }
+
+  /** Admin decision on a signed fee amendment: approving applies it */
+  async adminReview(amendmentId: number, adminId: number, decision: "approved" | "rejected", note?: string | null) {
+    const [amendment] = await db.select().from(contractAmendments).where(eq(contractAmendments.id, amendmentId));
+    if (!amendment) throw new Error("Amendment not found");
+    if (amendment.status !== "admin_review") throw new Error("Amendment is not awaiting admin review");
+
+    const now = new Date();
+    const [reviewed] = await db.update(contractAmendments)
+      .set({ adminReviewedBy: adminId, adminReviewedAt: now, adminReviewNote: note ?? null, updatedAt: now })
+      .where(eq(contractAmendments.id, amendmentId))
+      .returning();
+
+    if (decision === "approved") return this.apply(reviewed, adminId);
+    return this.close(reviewed, "rejected", adminId, note ?? null, "admin_contract_amendment_rejected");
+  }
+
+  /**
+   * Makes the amendment's version the contract's current one: its executed
+   * text, terms and commission breakdown replace the signed ones (the old
+   * executed text is kept on the amendment for verification), the booking
+   * takes the amended fee and set time, and a fee change moves escrow
+   * payments and reissues unpaid invoices.
+   */
+  private async apply(amendment: ContractAmendment, actorUserId: number): Promise<ContractAmendment> {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, amendment.contractId));
+    if (!contract || !contract.bookingId) throw new Error("Contract not found");
+    const [version] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contract.id), eq(contractVersions.version, amendment.version)));
+    if (!version) throw new Error("Amendment version not found");
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, contract.bookingId));
+    if (!booking) throw new Error("Booking not found");
+
+    const executed = await contractIntegrityService.executedVersionText(contract.id, amendment.version);
+    const terms = version.terms as Record<string, any>;
+    const diff = amendment.diff as ClauseDiff[];
+    const breakdown = amendment.commissionBreakdownJson as Record<string, any> | null;
+    const now = new Date();
+
+    const bookingChanges: Partial<typeof bookings.$inferInsert> = { updatedAt: now };
+    if (amendment.feeChanged && breakdown) {
+      bookingChanges.finalAmount = String(terms.fee);
+      bookingChanges.grossBookingValue = String(breakdown.grossBookingValue);
+      bookingChanges.artistFee = String(breakdown.artistFee);
+      bookingChanges.organizerFee = String(breakdown.organizerFee);
+      bookingChanges.artistCommissionPct = String(breakdown.artistCommissionPct);
+      bookingChanges.organizerCommissionPct = String(breakdown.organizerCommissionPct);
+      bookingChanges.platformRevenue = String(breakdown.platformRevenue);
+    }
+    if (diff.some((c) => c.clause === "slotTime")) {
+      bookingChanges.meta = { ...((booking.meta as Record<string, unknown>) || {}), slotTime: terms.slotTime ?? null };
+    }
+
+    const applied = await db.transaction(async (tx) => {
+      const [row] = await tx.update(contractAmendments)
+        .set({ status: "applied", appliedAt: now, baseExecutedText: contract.contractText, updatedAt: now })
+        .where(and(eq(contractAmendments.id, amendment.id), inArray(contractAmendments.status, [...OPEN_AMENDMENT_STATUSES])))
+        .returning();
+      if (!row) throw new Error("Amendment is no longer open");
+
+      await tx.update(contracts).set({
+        contractText: executed ?? version.contractText,
+        currentVersion: amendment.version,
+        negotiatedTermsJson: terms,
+        commissionBreakdownJson: breakdown ?? contract.commissionBreakdownJson,
+        metadata: { ...((contract.metadata as Record<string, unknown>) || {}), terms },
+        updatedAt: now,
+      }).where(eq(contracts.id, contract.id));
+
+      await tx.update(bookings).set(bookingChanges).where(eq(bookings.id, booking.id));
+
+      await tx.insert(auditLogs).values({
+        who: actorUserId,
+        action: "contract_amendment_applied",
+        entityType: "contract",
+        entityId: contract.id,
+        context: { amendmentId: amendment.id, fromVersion: amendment.baseVersion, toVersion: amendment.version, feeChanged: amendment.feeChanged },
+      });
+
+      await emitDomainEvent("contract.amendment_applied", {
+        bookingId: contract.bookingId,
+        contractId: contract.id,
+        amendmentId: amendment.id,
+        entityType: "contract",
+        entityId: contract.id,
+        eventTitle: terms.eventTitle || "Event",
+        actionUrl: `/contract/${contract.id}`,
+      }, actorUserId, tx);
+
+      return row;
+    });
+
+    if (amendment.feeChanged) {
+      const reason = `Contract amendment #${amendment.id}`;
+      await escrowService.onContractAmended(contract.id, amendment.id, actorUserId);
+      await invoiceService.reissueForContract(contract.id, reason, actorUserId);
+    }
+    return applied;
+  }
+
+  /** Throws unless `required` is the party's next step on the amendment */
+  private requireStep(amendment: ContractAmendment, party: AmendmentParty, required: PartyStep) {
+    const step = amendmentStepFor(amendment, party);
+    if (step === null) throw new Error(`Amendment is ${amendment.status}`);
+    if (step === required) return;
+    const done = STEP_FIELDS[required];
+    if (amendment[AMENDMENT_PARTY_FIELDS[party][done]]) throw new Error(`You have already ${done} this amendment`);
+    throw new Error(STEP_ERRORS[step]);
+  }
+
+  private async recordStep(
+    amendment: ContractAmendment,
+    changes: Record<string, Date>,
+    userId: number,
+    action: string,
+    context: Record<string, unknown>,
+  ): Promise<ContractAmendment> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.update(contractAmendments)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(contractAmendments.id, amendment.id))
+        .returning();
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action,
+        entityType: "contract",
+        entityId: amendment.contractId,
+        context: { amendmentId: amendment.id, ...context },
+      });
+      return row;
+    });
+  }
+
+  private async close(
+    amendment: ContractAmendment,
+    status: "rejected" | "withdrawn",
+    userId: number,
+    note: string | null,
+    action: string,
+  ): Promise<ContractAmendment> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.update(contractAmendments)
+        .set({ status, closedBy: userId, closedNote: note, updatedAt: new Date() })
+        .where(eq(contractAmendments.id, amendment.id))
+        .returning();
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action,
+        entityType: "contract",
+        entityId: amendment.contractId,
+        context: { amendmentId: amendment.id, note },
+      });
+      return row;
+    });
+  }
+}
+
+export const contractAmendmentService = new ContractAmendmentService();
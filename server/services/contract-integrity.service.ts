@@ -0,0 +1,169 @@
+import { db } from "../db";
+import { contractAmendments, contractSignatures, contractVersions, contracts, users } from "../../shared/schema";
+import type { Contract } from "../../shared/schema";
+import { and, asc, eq } from "drizzle-orm";
+import {
+  canonicalText,
+  executedContractText,
+  hashContractDocument,
+  isDocumentHash,
+} from "../contract-integrity-utils";
+
+export interface SignedDocument {
+  version: number;
+  text: string;
+  hash: string;
+}
+
+export interface ContractSigner {
+  role: string;
+  name: string;
+  signatureData: string | null;
+  signedAt: Date | null;
+  ipAddress: string | null;
+  twoFactorMethod: string | null;
+  documentHash: string | null;
+  contractVersion: number | null;
+}
+
+/**
+ * Document hashes for contract signatures. Each signature stores the SHA-256
+ * of the contract version it signed (canonical text plus terms), so anyone
+ * holding the hash from the executed PDF can check the stored contract
+ * against it.
+ */
+export class ContractIntegrityService {
+  /**
+   * The version being signed (the current one unless an amendment's version
+   * is given) and its hash. Contracts generated before versions were always
+   * recorded get their version row from the current text, so later
+   * signatures and verification have something to compare to.
+   */
+  async documentForSigning(contract: Contract, version: number = contract.currentVersion ?? 1): Promise<SignedDocument> {
+    let [row] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contract.id), eq(contractVersions.version, version)));
+    if (!row) {
+      [row] = await db.insert(contractVersions).values({
+        contractId: contract.id,
+        version,
+        contractText: contract.contractText || "",
+        terms: contract.negotiatedTermsJson ?? {},
+        changeSummary: "Recorded at signing",
+      }).returning();
+    }
+    const hash = hashContractDocument({ contractId: contract.id, version, text: row.contractText, terms: row.terms });
+    return { version, text: row.contractText, hash };
+  }
+
+  /** A version's text with the signatures made on it filled in, as it stands once executed */
+  async executedVersionText(contractId: number, version: number): Promise<string | null> {
+    const [row] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contractId), eq(contractVersions.version, version)));
+    if (!row) return null;
+    const signers = (await this.signers(contractId)).filter((s) => s.contractVersion === version);
+    return executedContractText(row.contractText, signers.map((s) => ({
+      role: s.role,
+      signature: s.signatureData || "",
+      signedAt: s.signedAt ?? new Date(0),
+      ipAddress: s.ipAddress,
+    })));
+  }
+
+  /** Signatures with the signer's legal or display name, oldest first */
+  async signers(contractId: number): Promise<ContractSigner[]> {
+    const rows = await db.select({
+      role: contractSignatures.role,
+      signatureData: contractSignatures.signatureData,
+      signedAt: contractSignatures.signedAt,
+      ipAddress: contractSignatures.ipAddress,
+      twoFactorMethod: contractSignatures.twoFactorMethod,
+      documentHash: contractSignatures.documentHash,
+      contractVersion: contractSignatures.contractVersion,
+      legalName: users.legalName,
+      displayName: users.displayName,
+      username: users.username,
+    })
+      .from(contractSignatures)
+      .innerJoin(users, eq(users.id, contractSignatures.userId))
+      .where(eq(contractSignatures.contractId, contractId))
+      .orderBy(asc(contractSignatures.signedAt));
+
+    return rows.map(({ legalName, displayName, username, ...row }) => ({
+      ...row,
+      name: legalName || displayName || username || "Unknown",
+    }));
+  }
+
+  /**
+   * Checks a document hash: the signed version must still hash to it, and the
+   * contract's executed text must equal that version with the recorded
+   * signatures filled in. A version replaced by an amendment is checked
+   * against the executed text kept on that amendment; an amendment that was
+   * never applied has no executed copy, so only its version is checked.
+   * Returns null for unknown hashes.
+   */
+  async verify(hash: string) {
+    if (!isDocumentHash(hash)) return null;
+    const [signature] = await db.select().from(contractSignatures)
+      .where(eq(contractSignatures.documentHash, hash))
+      .limit(1);
+    if (!signature || signature.contractVersion == null) return null;
+
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, signature.contractId));
+    if (!contract) return null;
+    const [version] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contract.id), eq(contractVersions.version, signature.contractVersion)));
+
+    const documentIntact = !!version && hashContractDocument({
+      contractId: contract.id,
+      version: version.version,
+      text: version.contractText,
+      terms: version.terms,
+    }) === hash;
+
+    const signers = (await this.signers(contract.id)).filter((s) => s.documentHash === hash);
+    const executed = version
+      ? executedContractText(version.contractText, signers.map((s) => ({
+        role: s.role,
+        signature: s.signatureData || "",
+        signedAt: s.signedAt ?? new Date(0),
+        ipAddress: s.ipAddress,
+      })))
+      : null;
+
+    const amendments = await db.select().from(contractAmendments).where(eq(contractAmendments.contractId, contract.id));
+    const supersededBy = amendments.find((a) => a.status === "applied" && a.baseVersion === signature.contractVersion);
+    const amendment = amendments.find((a) => a.version === signature.contractVersion) ?? null;
+    const executedCopy = signature.contractVersion === (contract.currentVersion ?? 1)
+      ? contract.contractText || ""
+      : supersededBy?.baseExecutedText ?? null;
+    const executedTextIntact = executedCopy === null
+      ? documentIntact
+      : executed !== null && canonicalText(executed) === canonicalText(executedCopy);
+
+    return {
+      hash,
+      valid: documentIntact && executedTextIntact,
+      documentIntact,
+      executedTextIntact,
+      contractId: contract.id,
+      bookingReference: contract.bookingId ? `BK-${contract.bookingId}` : null,
+      version: signature.contractVersion,
+      status: contract.status,
+      fullySigned: amendment
+        ? !!amendment.artistSignedAt && !!amendment.promoterSignedAt
+        : !!contract.signedByArtist && !!contract.signedByPromoter,
+      currentVersion: contract.currentVersion ?? 1,
+      supersededByVersion: supersededBy?.version ?? null,
+      amendment: amendment ? { id: amendment.id, status: amendment.status } : null,
+      signers: signers.map((s) => ({
+        role: s.role,
+        name: s.name,
+        signedAt: s.signedAt,
+        twoFactorVerified: !!s.twoFactorMethod,
+      })),
+    };
+  }
+}
+
+export const contractIntegrityService = new ContractIntegrityService();
@@ -0,0 +1,249 @@
+import { db } from "../db";
+import { auditLogs, contractClauses, contractTemplates, contractVersions, contracts } from "../../shared/schema";
+import type { Contract, ContractTemplate } from "../../shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import type { BookingForContract } from "../contract-utils";
+import {
+  DEFAULT_CONTRACT_CLAUSES,
+  DEFAULT_TEMPLATE,
+  buildTemplateVariables,
+  isContentKey,
+  latestTemplates,
+  libraryRevision,
+  renderContractDocument,
+  resolveClauses,
+  selectTemplate,
+  templateError,
+  unknownPlaceholders,
+  type ClauseContent,
+  type ClauseRecord,
+  type TemplateVariables,
+} from "../contract-template-utils";
+
+export interface RenderedContract {
+  text: string;
+  variables: TemplateVariables;
+  contractTemplateId: number;
+  templateVersion: number;
+  clauseVersion: number;
+}
+
+export interface TemplateInput {
+  name: string;
+  description?: string | null;
+  title: string;
+  locale: string;
+  clauseKeys: string[];
+  artistCategory?: string | null;
+  eventType?: string | null;
+  active: boolean;
+}
+
+export interface TemplateSelectors {
+  artistCategory?: string | null;
+  eventType?: string | null;
+}
+
+type ArtistCategory = (typeof contractTemplates.$inferInsert)["artistCategory"];
+type EventType = (typeof contractTemplates.$inferInsert)["eventType"];
+
+/**
+ * Clause library and contract templates. Clauses and templates are never
+ * updated in place: every save is a new version, and each contract records
+ * the template row and clause library revision it was rendered from, so
+ * any version of it can be rendered again exactly.
+ */
+export class ContractTemplateService {
+  private async audit(who: number, entityType: string, entityId: number, action: string, context: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType, entityId, context });
+  }
+
+  /** Seeds the built-in agreement as clause revision 1 and the "standard" template when nothing exists yet */
+  async ensureDefaults(): Promise<void> {
+    const [anyTemplate] = await db.select({ id: contractTemplates.id }).from(contractTemplates).limit(1);
+    if (anyTemplate) return;
+    const [anyClause] = await db.select({ id: contractClauses.id }).from(contractClauses).limit(1);
+    if (!anyClause) {
+      await db.insert(contractClauses)
+        .values(DEFAULT_CONTRACT_CLAUSES.map((clause) => ({ ...clause, version: 1 })))
+        .onConflictDoNothing();
+    }
+    await db.insert(contractTemplates)
+      .values({ ...DEFAULT_TEMPLATE, version: 1 })
+      .onConflictDoNothing();
+  }
+
+  /** Every clause version, oldest first */
+  async clauseRecords(): Promise<ClauseRecord[]> {
+    return db.select({
+      key: contractClauses.key,
+      version: contractClauses.version,
+      title: contractClauses.title,
+      body: contractClauses.body,
+      numbered: contractClauses.numbered,
+    }).from(contractClauses).orderBy(asc(contractClauses.version));
+  }
+
+  /** The newest version of each clause plus the library revision */
+  async library(): Promise<{ revision: number; clauses: ClauseRecord[] }> {
+    await this.ensureDefaults();
+    const records = await this.clauseRecords();
+    const latest = new Map<string, ClauseRecord>();
+    for (const clause of records) latest.set(clause.key, clause);
+    return { revision: libraryRevision(records), clauses: Array.from(latest.values()) };
+  }
+
+  async clauseHistory(key: string) {
+    return db.select().from(contractClauses)
+      .where(eq(contractClauses.key, key))
+      .orderBy(desc(contractClauses.version));
+  }
+
+  /** Saves a clause as the next library revision */
+  async saveClause(key: string, content: Omit<ClauseContent, "key">, who: number) {
+    if (!isContentKey(key)) throw new Error("Invalid clause key");
+    const unknown = unknownPlaceholders(content.body);
+    if (unknown.length > 0) throw new Error(`Unknown placeholders: ${unknown.join(", ")}`);
+
+    await this.ensureDefaults();
+    const version = libraryRevision(await this.clauseRecords()) + 1;
+    const [clause] = await db.insert(contractClauses)
+      .values({ key, version, ...content, createdBy: who })
+      .returning();
+    await this.audit(who, "contract_clause", clause.id, "contract_clause_saved", { key, version });
+    return clause;
+  }
+
+  /** The newest version of each template */
+  async listTemplates(): Promise<ContractTemplate[]> {
+    await this.ensureDefaults();
+    return latestTemplates(await db.select().from(contractTemplates).orderBy(asc(contractTemplates.key)));
+  }
+
+  async templateHistory(key: string) {
+    return db.select().from(contractTemplates)
+      .where(eq(contractTemplates.key, key))
+      .orderBy(desc(contractTemplates.version));
+  }
+
+  /** Saves the next version of a template key (the first one creates it) */
+  async saveTemplate(key: string, input: TemplateInput, who: number): Promise<ContractTemplate> {
+    if (!isContentKey(key)) throw new Error("Invalid template key");
+    const { clauses } = await this.library();
+    const error = templateError(input.clauseKeys, clauses.map((c) => c.key));
+    if (error) throw new Error(error);
+
+    const [latest] = await db.select({ version: contractTemplates.version })
+      .from(contractTemplates)
+      .where(eq(contractTemplates.key, key))
+      .orderBy(desc(contractTemplates.version))
+      .limit(1);
+    const version = (latest?.version ?? 0) + 1;
+
+    const [template] = await db.insert(contractTemplates).values({
+      key,
+      version,
+      name: input.name,
+      description: input.description ?? null,
+      title: input.title,
+      locale: input.locale,
+      clauseKeys: input.clauseKeys,
+      artistCategory: (input.artistCategory ?? null) as ArtistCategory,
+      eventType: (input.eventType ?? null) as EventType,
+      active: input.active,
+      createdBy: who,
+    }).returning();
+    await this.audit(who, "contract_template", template.id, "contract_template_saved", { key, version, active: input.active });
+    return template;
+  }
+
+  /** Renders a template at a clause library revision */
+  async render(
+    template: ContractTemplate,
+    clauseVersion: number,
+    variables: TemplateVariables,
+  ): Promise<RenderedContract> {
+    const clauses = resolveClauses(await this.clauseRecords(), template.clauseKeys, clauseVersion);
+    return {
+      text: renderContractDocument(template.title, clauses, variables, template.locale),
+      variables,
+      contractTemplateId: template.id,
+      templateVersion: template.version,
+      clauseVersion,
+    };
+  }
+
+  /** Renders a new contract from the template that fits the booking, at the current clause revision */
+  async renderNew(
+    booking: BookingForContract,
+    terms: Record<string, unknown>,
+    selectors: TemplateSelectors,
+    timeZone?: string,
+  ): Promise<RenderedContract> {
+    await this.ensureDefaults();
+    const template = selectTemplate(await db.select().from(contractTemplates), selectors);
+    if (!template) throw new Error("No contract template applies to this booking");
+
+    const revision = libraryRevision(await this.clauseRecords());
+    const variables = buildTemplateVariables(booking, terms, { effectiveDate: new Date(), locale: template.locale, timeZone });
+    return this.render(template, revision, variables);
+  }
+
+  /**
+   * Renders new terms for an existing contract with the template and clause
+   * revision it was generated from, keeping the date it was generated on.
+   * Returns null for contracts generated before templates.
+   */
+  async renderForContract(
+    contract: Contract,
+    booking: BookingForContract,
+    terms: Record<string, unknown>,
+    timeZone?: string,
+  ): Promise<RenderedContract | null> {
+    if (!contract.contractTemplateId || contract.clauseVersion == null) return null;
+    const [template] = await db.select().from(contractTemplates).where(eq(contractTemplates.id, contract.contractTemplateId));
+    if (!template) return null;
+
+    const effectiveDate = contract.createdAt ?? new Date();
+    const variables = buildTemplateVariables(booking, terms, { effectiveDate, locale: template.locale, timeZone });
+    return this.render(template, contract.clauseVersion, variables);
+  }
+
+  /**
+   * Renders a stored contract version again from its template, clause
+   * revision and recorded placeholder values, and reports whether the result
+   * matches the stored text.
+   */
+  async rerender(contractId: number, version?: number) {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract) throw new Error("Contract not found");
+    if (!contract.contractTemplateId || contract.clauseVersion == null) {
+      throw new Error("Contract was generated before templates");
+    }
+
+    const number = version ?? contract.currentVersion ?? 1;
+    const [stored] = await db.select().from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contractId), eq(contractVersions.version, number)));
+    if (!stored) throw new Error("Contract version not found");
+    if (!stored.renderVariables) throw new Error("Contract version has no recorded placeholder values");
+
+    const [template] = await db.select().from(contractTemplates).where(eq(contractTemplates.id, contract.contractTemplateId));
+    if (!template) throw new Error("Contract template not found");
+
+    const rendered = await this.render(template, contract.clauseVersion, stored.renderVariables as TemplateVariables);
+    return {
+      contractId,
+      version: number,
+      templateKey: template.key,
+      templateVersion: template.version,
+      clauseVersion: contract.clauseVersion,
+      text: rendered.text,
+      // Amendment versions carry the amendment preamble ahead of the rendered agreement
+      matchesStored: stored.amendmentId
+        ? stored.contractText.endsWith(rendered.text)
+        : rendered.text === stored.contractText,
+    };
+  }
+}
+
+export const contractTemplateService = new ContractTemplateService();
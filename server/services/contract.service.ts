@@ -1,10 +1,15 @@
 import { db } from "../db";
-import { bookings, contracts, events, venues, promoters, artists, users, appSettings } from "../../shared/schema";
+import { bookings, contracts, contractVersions, events, venues, promoters, artists, users, appSettings } from "../../shared/schema";
+import type { Contract } from "../../shared/schema";
 import { eq, inArray } from "drizzle-orm";
-import { generateContractText, buildTermsFromBooking } from "../contract-utils";
+import { generateContractText, buildTermsFromBooking, type BookingForContract } from "../contract-utils";
+import { contractTemplateService } from "./contract-template.service";
+import { cancellationService } from "./cancellation.service";
+import { policyPenaltyTerms, type CancellationPolicyRules } from "../cancellation-policy-utils";
 
 export class ContractService {
-  async generateContractFromSnapshot(bookingId: number) {
+  /** Loads everything a contract is rendered from: parties, event, venue, platform details and the fee snapshot */
+  async loadBookingForContract(bookingId: number) {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
     if (!booking) throw new Error("Booking not found");
 
@@ -68,7 +73,7 @@ export class ContractService {
     //   throw new Error("DB Error: Missing required legal profile information (Legal Name, PAN, or Address). Please update your profile.");
     // }
 
-    const bookingForContract = {
+    const bookingForContract: BookingForContract = {
       id: booking.id,
       offerAmount: booking.offerAmount,
       finalAmount: booking.finalAmount,
@@ -107,26 +112,100 @@ export class ContractService {
       commissionBreakdown: commissionBreakdownJson,
     };
 
-    const terms = buildTermsFromBooking(bookingForContract);
-    const contractText = generateContractText(bookingForContract, terms);
-
-    const [contract] = await db.insert(contracts).values({
-      bookingId: booking.id,
-      status: "draft",
-      contractText: contractText,
-      artistCategorySnapshot: booking.artistCategorySnapshot,
-      trustScoreSnapshot: booking.trustTierSnapshot,
+    return {
+      booking,
+      bookingForContract,
       commissionBreakdownJson,
-      negotiatedTermsJson: terms,
-      artistSignatureRequired: true,
-      organizerSignatureRequired: true,
-    }).returning();
+      eventType: event?.eventType ?? null,
+      timeZone: event?.timezone ?? undefined,
+    };
+  }
+
+  /**
+   * Generates the draft contract and its version 1 from the template that
+   * fits the booking's artist category and event type, stamping the template
+   * and clause library revision used. The current cancellation policy is
+   * stamped too, and its tiers become the contract's penalty terms.
+   */
+  async generateContractFromSnapshot(bookingId: number, createdBy?: number) {
+    const { booking, bookingForContract, commissionBreakdownJson, eventType, timeZone } =
+      await this.loadBookingForContract(bookingId);
+
+    const terms = buildTermsFromBooking(bookingForContract);
+    const policy = await cancellationService.currentPolicy();
+    const negotiatedCancellation = (bookingForContract.meta as Record<string, any> | undefined)?.terms?.cancellation;
+    terms.cancellation = {
+      ...(terms.cancellation as Record<string, unknown>),
+      ...policyPenaltyTerms(policy.rules as CancellationPolicyRules, negotiatedCancellation),
+    };
+    const rendered = await contractTemplateService.renderNew(
+      bookingForContract,
+      terms,
+      { artistCategory: booking.artistCategorySnapshot, eventType },
+      timeZone,
+    );
+
+    const contract = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(contracts).values({
+        bookingId: booking.id,
+        status: "draft",
+        contractText: rendered.text,
+        artistCategorySnapshot: booking.artistCategorySnapshot,
+        trustScoreSnapshot: booking.trustTierSnapshot,
+        commissionBreakdownJson,
+        negotiatedTermsJson: terms,
+        contractTemplateId: rendered.contractTemplateId,
+        templateVersion: rendered.templateVersion,
+        clauseVersion: rendered.clauseVersion,
+        cancellationPolicyVersion: policy.version,
+        currentVersion: 1,
+        artistSignatureRequired: true,
+        organizerSignatureRequired: true,
+      }).returning();
+
+      await tx.insert(contractVersions).values({
+        contractId: created.id,
+        version: 1,
+        contractText: rendered.text,
+        terms,
+        renderVariables: rendered.variables,
+        createdBy: createdBy ?? null,
+        changeSummary: "Initial contract generation from negotiated terms",
+      });
 
-    // Link back to booking
-    await db.update(bookings).set({ contractId: contract.id }).where(eq(bookings.id, booking.id));
+      // Link back to booking
+      await tx.update(bookings).set({ contractId: created.id }).where(eq(bookings.id, booking.id));
+      return created;
+    });
 
     return contract;
   }
+
+  /**
+   * Renders edited terms for an existing contract. Contracts generated from a
+   * template keep their template and clause revision; older contracts fall
+   * back to the built-in agreement. `bookingOverrides` replaces booking
+   * values the text is rendered from (an amended fee, set time or
+   * commission breakdown) that aren't stored on the booking yet.
+   */
+  async renderContractRevision(
+    contract: Contract,
+    terms: Record<string, unknown>,
+    legacyBooking: any,
+    bookingOverrides: Partial<BookingForContract> = {},
+  ) {
+    if (contract.bookingId && contract.contractTemplateId) {
+      const { bookingForContract, timeZone } = await this.loadBookingForContract(contract.bookingId);
+      const rendered = await contractTemplateService.renderForContract(
+        contract,
+        { ...bookingForContract, ...bookingOverrides },
+        terms,
+        timeZone,
+      );
+      if (rendered) return { contractText: rendered.text, renderVariables: rendered.variables };
+    }
+    return { contractText: generateContractText({ ...legacyBooking, ...bookingOverrides }, terms), renderVariables: null };
+  }
 }
 
 export const contractService = new ContractService();
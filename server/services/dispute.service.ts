@@ -0,0 +1,373 @@
+import { db } from "../db";
+import { bookings, disputes, media, events, promoters, artists, auditLogs } from "../../shared/schema";
+import type { Dispute } from "../../shared/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import { escrowService } from "./escrow.service";
+import { invoiceService } from "./invoice.service";
+import { emitDomainEvent } from "./event-bus";
+import { bookingAccessService } from "./booking-access.service";
+import { activeRole, contractRoleFor } from "../role-resolver";
+
+/**
+ * Booking statuses a dispute can be raised from. Everything between a signed
+ * contract and completion counts as "scheduled" (confirmed/paid_deposit/scheduled).
+ */
+export const DISPUTABLE_BOOKING_STATUSES = ["confirmed", "paid_deposit", "scheduled", "completed"] as const;
+
+export const ACTIVE_DISPUTE_STATUSES = ["open", "investigating", "escalated"] as const;
+
+export const DISPUTE_EVIDENCE_ENTITY = "dispute_evidence";
+
+export type DisputeParty = "artist" | "organizer";
+
+export interface OpenDisputeInput {
+  reason: string;
+  description: string;
+  evidenceMediaIds?: number[];
+}
+
+export interface ResolveDisputeInput {
+  outcome: "refund" | "no_refund";
+  refundAmount?: number;
+  note: string;
+}
+
+/**
+ * Dispute Service
+ *
+ * open -> investigating -> resolving -> resolved_refund | resolved_no_refund
+ *                      \-> escalated -> resolving -> resolved_*
+ *
+ * Opening a dispute moves the booking to `disputed` and holds the artist payout.
+ * Every transition is written to audit_logs with the acting user.
+ */
+export class DisputeService {
+  private async getParties(bookingId: number) {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) throw new Error("Booking not found");
+
+    const [event] = booking.eventId ? await db.select().from(events).where(eq(events.id, booking.eventId)) : [];
+    const [organizer] = event?.organizerId ? await db.select().from(promoters).where(eq(promoters.id, event.organizerId)) : [];
+    const [artist] = booking.artistId ? await db.select().from(artists).where(eq(artists.id, booking.artistId)) : [];
+
+    return {
+      booking,
+      eventTitle: event?.title || "Event",
+      artistUserId: artist?.userId ?? null,
+      organizerUserId: organizer?.userId ?? null,
+    };
+  }
+
+  /**
+   * The side of the booking the user acts for: the artist or organizer
+   * themselves, or an owner or manager of their organization or venue.
+   * Null when the user can't act on the booking's dispute. A user on both
+   * sides acts for the side of the role they are signed in as.
+   */
+  async actingSide(user: any, bookingId: number): Promise<DisputeParty | null> {
+    const access = await bookingAccessService.check(user, bookingId, "dispute", "act");
+    if (!access.booking) throw new Error("Booking not found");
+    if (access.sides.length === 0) return null;
+    if (access.sides.length === 1) return access.sides[0];
+    return contractRoleFor(activeRole(user)) === "artist" ? "artist" : "organizer";
+  }
+
+  private async attachMedia(
+    disputeId: number,
+    userId: number,
+    mediaIds: number[],
+    tx: Pick<typeof db, "select" | "update"> = db,
+  ): Promise<number> {
+    if (mediaIds.length === 0) return 0;
+
+    // Only the uploader's own, still-unattached (or already dispute-scoped) files can be attached
+    const owned = await tx.select().from(media).where(and(
+      inArray(media.id, mediaIds),
+      eq(media.ownerUserId, userId),
+    ));
+    const attachable = owned.filter((m) => !m.entityType || m.entityType === DISPUTE_EVIDENCE_ENTITY);
+    if (attachable.length !== mediaIds.length) {
+      throw new Error("Evidence must be your own uploaded files");
+    }
+
+    await tx.update(media)
+      .set({ entityType: DISPUTE_EVIDENCE_ENTITY, entityId: disputeId })
+      .where(inArray(media.id, mediaIds));
+    return attachable.length;
+  }
+
+  async openDispute(bookingId: number, user: any, input: OpenDisputeInput): Promise<Dispute> {
+    const role = await this.actingSide(user, bookingId);
+    if (!role) {
+      throw new Error("Only the booking's artist or organizer can open a dispute");
+    }
+    const userId: number = user.id;
+    const { booking, eventTitle } = await this.getParties(bookingId);
+
+    if (!(DISPUTABLE_BOOKING_STATUSES as readonly string[]).includes(booking.status || "")) {
+      throw new Error(`Disputes cannot be opened for a booking in status ${booking.status}`);
+    }
+
+    const [active] = await db.select().from(disputes).where(and(
+      eq(disputes.bookingId, bookingId),
+      inArray(disputes.status, [...ACTIVE_DISPUTE_STATUSES, "resolving"]),
+    ));
+    if (active) {
+      throw new Error("An active dispute already exists for this booking");
+    }
+
+    // Evidence and the payout hold go in with the dispute, so a bad file leaves nothing behind
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(disputes).values({
+        bookingId,
+        raisedByUserId: userId,
+        raisedByRole: role,
+        reason: input.reason,
+        description: input.description,
+        status: "open",
+        bookingStatusBefore: booking.status,
+      }).returning();
+
+      await tx.update(bookings)
+        .set({ status: "disputed", updatedAt: new Date() })
+        .where(eq(bookings.id, bookingId));
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "dispute_opened",
+        entityType: "dispute",
+        entityId: created.id,
+        context: { bookingId, role, reason: input.reason, bookingStatusBefore: booking.status },
+      });
+
+      if (input.evidenceMediaIds?.length) {
+        await this.attachMedia(created.id, userId, input.evidenceMediaIds, tx);
+      }
+
+      await escrowService.setBookingPayoutHold(bookingId, true, `Dispute #${created.id}`, userId, tx);
+
+      await emitDomainEvent("dispute.opened", {
+        bookingId,
+        entityType: "dispute",
+        entityId: created.id,
+        eventTitle,
+        actorName: role === "artist" ? "Artist" : "Organizer",
+        reason: input.reason,
+        actionUrl: `/bookings?bookingId=${bookingId}`,
+      }, userId, tx);
+
+      return created;
+    });
+  }
+
+  async addEvidence(disputeId: number, user: any, mediaIds: number[]): Promise<Dispute> {
+    const userId: number = user.id;
+    const dispute = await this.getDispute(disputeId);
+    if (!dispute) throw new Error("Dispute not found");
+    if (!(ACTIVE_DISPUTE_STATUSES as readonly string[]).includes(dispute.status || "")) {
+      throw new Error("Evidence can only be added to an active dispute");
+    }
+    if (!(await this.actingSide(user, dispute.bookingId))) {
+      throw new Error("Only the booking's artist or organizer can add evidence");
+    }
+
+    const attached = await this.attachMedia(disputeId, userId, mediaIds);
+
+    await db.insert(auditLogs).values({
+      who: userId,
+      action: "dispute_evidence_added",
+      entityType: "dispute",
+      entityId: disputeId,
+      context: { mediaIds, attached },
+    });
+
+    return dispute;
+  }
+
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    const [dispute] = await db.select().from(disputes).where(eq(disputes.id, id));
+    return dispute;
+  }
+
+  /**
+   * Dispute with its evidence (media without the raw data) and audit trail.
+   */
+  async getDisputeWithDetails(id: number): Promise<any> {
+    const dispute = await this.getDispute(id);
+    if (!dispute) return undefined;
+
+    const evidence = await db.select({
+      id: media.id,
+      ownerUserId: media.ownerUserId,
+      mediaType: media.mediaType,
+      filename: media.filename,
+      mimeType: media.mimeType,
+      fileSize: media.fileSize,
+      altText: media.altText,
+      uploadedAt: media.uploadedAt,
+    }).from(media).where(and(eq(media.entityType, DISPUTE_EVIDENCE_ENTITY), eq(media.entityId, id)));
+
+    const history = await db.select().from(auditLogs)
+      .where(and(eq(auditLogs.entityType, "dispute"), eq(auditLogs.entityId, id)))
+      .orderBy(auditLogs.occurredAt);
+
+    const { eventTitle } = await this.getParties(dispute.bookingId);
+
+    return {
+      ...dispute,
+      eventTitle,
+      evidence: evidence.map((m) => ({ ...m, url: `/api/media/${m.id}/file` })),
+      history,
+    };
+  }
+
+  async getDisputesForBooking(bookingId: number): Promise<Dispute[]> {
+    return db.select().from(disputes)
+      .where(eq(disputes.bookingId, bookingId))
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  async listDisputes(status?: string): Promise<Dispute[]> {
+    return db.select().from(disputes)
+      .where(status ? eq(disputes.status, status as NonNullable<Dispute["status"]>) : undefined)
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  private async transition(
+    id: number,
+    from: readonly string[],
+    update: Partial<typeof disputes.$inferInsert>,
+    action: string,
+    adminId: number,
+    context: Record<string, any> = {},
+  ): Promise<Dispute> {
+    const dispute = await this.getDispute(id);
+    if (!dispute) throw new Error("Dispute not found");
+    if (!from.includes(dispute.status || "")) {
+      throw new Error(`Dispute cannot move from status ${dispute.status}`);
+    }
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(disputes)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(disputes.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        who: adminId,
+        action,
+        entityType: "dispute",
+        entityId: id,
+        context: { bookingId: dispute.bookingId, from: dispute.status, to: updated.status, ...context },
+      });
+
+      return updated;
+    });
+  }
+
+  /** Admin picks up the dispute from the queue */
+  async startInvestigation(id: number, adminId: number): Promise<Dispute> {
+    return this.transition(id, ["open", "escalated"], { status: "investigating", assignedAdminId: adminId }, "dispute_investigating", adminId);
+  }
+
+  async escalate(id: number, adminId: number, note: string): Promise<Dispute> {
+    return this.transition(id, ["open", "investigating"], { status: "escalated" }, "dispute_escalated", adminId, { note });
+  }
+
+  /**
+   * Resolves the dispute and settles money:
+   *   refund (full)    -> refund captured payments, cancel artist payout, booking `refunded`
+   *   refund (partial) -> refund `refundAmount`, reduce the artist payout to what
+   *                       escrow still holds and release it, booking returns to
+   *                       its pre-dispute status
+   *   no_refund        -> release payout hold, booking returns to its pre-dispute status
+   */
+  async resolve(id: number, adminId: number, input: ResolveDisputeInput): Promise<Dispute> {
+    const dispute = await this.getDispute(id);
+    if (!dispute) throw new Error("Dispute not found");
+    if (!(ACTIVE_DISPUTE_STATUSES as readonly string[]).includes(dispute.status || "")) {
+      throw new Error(`Dispute cannot move from status ${dispute.status}`);
+    }
+
+    // Claim the dispute so two admins resolving it at once can't both move money
+    const [claimed] = await db.update(disputes)
+      .set({ status: "resolving", updatedAt: new Date() })
+      .where(and(eq(disputes.id, id), eq(disputes.status, dispute.status!)))
+      .returning();
+    if (!claimed) {
+      throw new Error("Dispute is already being resolved");
+    }
+
+    const { eventTitle } = await this.getParties(dispute.bookingId);
+    const reason = `Dispute #${id}: ${input.note}`;
+    let refunded = 0;
+    let partial = false;
+    let fullRefund = false;
+
+    try {
+      // A refund smaller than what escrow holds leaves the rest for the artist
+      const { escrowBalance } = await escrowService.getLedger(dispute.bookingId);
+      partial = input.outcome === "refund" && input.refundAmount !== undefined && input.refundAmount < escrowBalance;
+      fullRefund = input.outcome === "refund" && !partial;
+
+      if (partial) {
+        refunded = await escrowService.settlePartialRefund(dispute.bookingId, input.refundAmount!, reason, adminId);
+      } else if (fullRefund) {
+        refunded = await escrowService.refundBooking(dispute.bookingId, input.refundAmount ?? null, reason, adminId);
+        await escrowService.cancelPayoutsForBooking(dispute.bookingId, reason, adminId);
+      } else {
+        await escrowService.setBookingPayoutHold(dispute.bookingId, false, null, adminId);
+      }
+    } catch (error) {
+      // Hand the dispute back so the resolution can be retried
+      await db.update(disputes)
+        .set({ status: dispute.status, updatedAt: new Date() })
+        .where(eq(disputes.id, id));
+      throw error;
+    }
+
+    const updated = await this.transition(
+      id,
+      ["resolving"],
+      {
+        status: input.outcome === "refund" ? "resolved_refund" : "resolved_no_refund",
+        resolutionNote: input.note,
+        refundAmount: input.outcome === "refund" ? refunded.toFixed(2) : null,
+        resolvedBy: adminId,
+        resolvedAt: new Date(),
+      },
+      "dispute_resolved",
+      adminId,
+      { from: dispute.status, outcome: input.outcome, refunded, partial },
+    );
+
+    await db.update(bookings)
+      .set({
+        status: fullRefund ? "refunded" : (dispute.bookingStatusBefore || "completed"),
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, dispute.bookingId));
+
+    if (fullRefund) {
+      const bookingInvoices = await invoiceService.getInvoicesForBooking(dispute.bookingId);
+      for (const invoice of bookingInvoices) {
+        if (invoice.status !== "cancelled" && invoice.status !== "refunded") {
+          await invoiceService.updateStatus(invoice.id, "refunded", reason, adminId);
+        }
+      }
+    }
+
+    await emitDomainEvent("dispute.resolved", {
+      bookingId: dispute.bookingId,
+      entityType: "dispute",
+      entityId: id,
+      eventTitle,
+      outcome: fullRefund ? "refund issued" : partial ? "partial refund issued" : "no refund",
+      actionUrl: `/bookings?bookingId=${dispute.bookingId}`,
+    }, adminId);
+
+    return updated;
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -0,0 +1,1026 @@
+import { db } from "../db";
+import { bookings, contracts, payments, payouts, events, promoters, artists, auditLogs, disputes } from "../../shared/schema";
+import type { Payment, Payout } from "../../shared/schema";
+import { eq, and, lte, asc, inArray, sql } from "drizzle-orm";
+import { getPaymentGateway } from "./payment-gateway";
+import { emitDomainEvent } from "./event-bus";
+import { invoiceService } from "./invoice.service";
+import type { CancellationSettlement } from "../cancellation-policy-utils";
+
+/** Balance is due this many hours before the event when the booking has no finalDueAt */
+const DEFAULT_BALANCE_LEAD_HOURS = 48;
+
+/** Hold placed on cancellation compensation until the cancellation fee funding it is paid */
+const AWAITING_CANCELLATION_FEE = "Awaiting cancellation fee";
+
+/** Hold placed on a payout queued before escrow holds enough to cover it */
+const AWAITING_ESCROW_FUNDS = "Awaiting escrow funds";
+
+/** The database or a transaction it has open */
+export type EscrowExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+export interface EscrowSchedule {
+  totalDue: number;
+  depositAmount: number;
+  balanceAmount: number;
+  netPayoutToArtist: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Splits what the organizer owes into a deposit and a balance.
+ * Falls back to the agreed fee when the contract carries no commission breakdown
+ * (contracts created through the legacy generate route).
+ */
+export function calculateEscrowSchedule(
+  breakdown: Record<string, any> | null | undefined,
+  depositPercent: number | string | null | undefined,
+  fallbackFee: number | string | null | undefined,
+): EscrowSchedule {
+  const fee = Number(fallbackFee || 0);
+  const totalDue = round2(Number(breakdown?.netCostToOrganizer) || fee);
+  const pct = Math.min(Math.max(Number(depositPercent ?? 30), 0), 100);
+  const depositAmount = round2(totalDue * (pct / 100));
+  const balanceAmount = round2(totalDue - depositAmount);
+  const netPayoutToArtist = round2(Number(breakdown?.netPayoutToArtist) || fee);
+
+  return { totalDue, depositAmount, balanceAmount, netPayoutToArtist };
+}
+
+/** Payments that make up what the organizer owes for a booking */
+const ESCROW_PAYMENT_TYPES = ["deposit", "balance", "adjustment"];
+
+export interface EscrowAdjustment {
+  /** What the existing payments add up to, net of refunds */
+  previousTotal: number;
+  totalDue: number;
+  /** Initiated payments whose amount changes */
+  resize: { paymentId: number; amount: number }[];
+  /** Initiated payments no longer needed */
+  cancel: number[];
+  /** Extra amount to collect in a new adjustment payment */
+  charge: number;
+  /** Amount to hand back out of captured payments */
+  refund: number;
+}
+
+/**
+ * Moves a booking's escrow payments to a new total after the contract's fee
+ * changes. Increases go onto the balance while it is still uncollected,
+ * otherwise into a new adjustment payment; decreases come off uncollected
+ * payments (newest first) and the rest is refunded.
+ */
+export function planEscrowAdjustment(
+  existing: Pick<Payment, "id" | "amount" | "status" | "paymentType" | "metadata">[],
+  totalDue: number,
+): EscrowAdjustment {
+  const active = existing.filter((p) =>
+    ESCROW_PAYMENT_TYPES.includes(p.paymentType || "") && p.status !== "cancelled" && p.status !== "failed");
+  const pending = active.filter((p) => p.status === "initiated");
+  const previousTotal = round2(active.reduce(
+    (sum, p) => sum + Number(p.amount) - Number((p.metadata as Record<string, any>)?.refundedAmount || 0), 0));
+  const plan: EscrowAdjustment = { previousTotal, totalDue: round2(totalDue), resize: [], cancel: [], charge: 0, refund: 0 };
+
+  let delta = round2(totalDue - previousTotal);
+  if (delta > 0) {
+    const balance = pending.find((p) => p.paymentType === "balance");
+    if (balance) plan.resize.push({ paymentId: balance.id, amount: round2(Number(balance.amount) + delta) });
+    else plan.charge = delta;
+    return plan;
+  }
+
+  for (const payment of [...pending].sort((a, b) => b.id - a.id)) {
+    if (delta >= 0) break;
+    const cut = Math.min(Number(payment.amount), -delta);
+    const amount = round2(Number(payment.amount) - cut);
+    if (amount > 0) plan.resize.push({ paymentId: payment.id, amount });
+    else plan.cancel.push(payment.id);
+    delta = round2(delta + cut);
+  }
+  plan.refund = delta < 0 ? round2(-delta) : 0;
+  return plan;
+}
+
+/** What the organizer has paid into escrow for the booking, net of refunds */
+export function escrowPaidIn(existing: Pick<Payment, "amount" | "status" | "paymentType" | "metadata">[]): number {
+  return round2(existing
+    .filter((p) => ESCROW_PAYMENT_TYPES.includes(p.paymentType || "") && (p.status === "captured" || p.status === "refunded"))
+    .reduce((sum, p) => sum + Number(p.amount) - Number((p.metadata as Record<string, any>)?.refundedAmount || 0), 0));
+}
+
+/** What has been refunded to the organizer out of the booking's escrow payments */
+export function escrowRefunded(existing: Pick<Payment, "paymentType" | "metadata">[]): number {
+  return round2(existing
+    .filter((p) => ESCROW_PAYMENT_TYPES.includes(p.paymentType || ""))
+    .reduce((sum, p) => sum + Number((p.metadata as Record<string, any>)?.refundedAmount || 0), 0));
+}
+
+/**
+ * What escrow still holds for a booking's payouts: everything captured, net
+ * of refunds, less payouts already paid or being sent. `exceptPayoutId`
+ * leaves out the payout being checked.
+ */
+export function escrowAvailable(
+  bookingPayments: Pick<Payment, "amount" | "status" | "metadata">[],
+  bookingPayouts: Pick<Payout, "id" | "amount" | "status">[],
+  exceptPayoutId?: number,
+): number {
+  const captured = bookingPayments
+    .filter((p) => p.status === "captured" || p.status === "refunded")
+    .reduce((sum, p) => sum + Number(p.amount) - Number((p.metadata as Record<string, any>)?.refundedAmount || 0), 0);
+  const committed = bookingPayouts
+    .filter((p) => p.id !== exceptPayoutId && (p.status === "paid" || p.status === "processing"))
+    .reduce((sum, p) => sum + Number(p.amount), 0);
+  return round2(captured - committed);
+}
+
+/**
+ * Escrow Service
+ *
+ * Holds organizer money in platform escrow between contract signature and
+ * event completion:
+ *   signed contract  -> deposit + balance payments created (initiated)
+ *   finalDueAt       -> balance captured
+ *   booking complete -> artist payout queued, then processed via the gateway
+ */
+export class EscrowService {
+  private async loadParties(bookingId: number) {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const [event] = booking.eventId
+      ? await db.select().from(events).where(eq(events.id, booking.eventId))
+      : [];
+    const [organizer] = event?.organizerId
+      ? await db.select().from(promoters).where(eq(promoters.id, event.organizerId))
+      : [];
+    const [artist] = booking.artistId
+      ? await db.select().from(artists).where(eq(artists.id, booking.artistId))
+      : [];
+
+    return { booking, event, organizerUserId: organizer?.userId ?? null, artistUserId: artist?.userId ?? null };
+  }
+
+  /**
+   * Creates the deposit and balance payments for a fully signed contract.
+   * Safe to call more than once: existing escrow payments are returned as-is.
+   */
+  async onContractSigned(contractId: number): Promise<Payment[]> {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract || !contract.bookingId) {
+      throw new Error("Contract not found");
+    }
+
+    const existing = await this.getPaymentsForBooking(contract.bookingId);
+    if (existing.some((p) => p.paymentType === "deposit")) {
+      return existing;
+    }
+
+    const { booking, event, organizerUserId } = await this.loadParties(contract.bookingId);
+    const schedule = calculateEscrowSchedule(
+      contract.commissionBreakdownJson as Record<string, any> | null,
+      booking.depositPercent,
+      booking.finalAmount || booking.offerAmount,
+    );
+
+    const now = new Date();
+    let balanceDueAt = booking.finalDueAt;
+    if (!balanceDueAt && event?.startTime) {
+      balanceDueAt = new Date(new Date(event.startTime).getTime() - DEFAULT_BALANCE_LEAD_HOURS * 60 * 60 * 1000);
+    }
+    if (!balanceDueAt || balanceDueAt < now) {
+      balanceDueAt = now;
+    }
+
+    const gateway = getPaymentGateway();
+    const currency = booking.offerCurrency || "INR";
+
+    const created = await db.transaction(async (tx) => {
+      const rows = await tx.insert(payments).values([
+        {
+          bookingId: booking.id,
+          payerId: organizerUserId,
+          amount: schedule.depositAmount.toFixed(2),
+          currency,
+          paymentType: "deposit",
+          status: "initiated",
+          gateway: gateway.name,
+          dueAt: now,
+          metadata: { contractId, depositPercent: booking.depositPercent },
+        },
+        {
+          bookingId: booking.id,
+          payerId: organizerUserId,
+          amount: schedule.balanceAmount.toFixed(2),
+          currency,
+          paymentType: "balance",
+          status: "initiated",
+          gateway: gateway.name,
+          dueAt: balanceDueAt,
+          metadata: { contractId },
+        },
+      ]).returning();
+
+      await tx.update(bookings).set({
+        depositAmount: schedule.depositAmount.toFixed(2),
+        finalDueAt: balanceDueAt,
+        updatedAt: now,
+      }).where(eq(bookings.id, booking.id));
+
+      await tx.insert(auditLogs).values({
+        who: null,
+        action: "escrow_payments_created",
+        entityType: "booking",
+        entityId: booking.id,
+        context: { contractId, ...schedule },
+      });
+
+      await emitDomainEvent("payment.deposit_due", {
+        bookingId: booking.id,
+        contractId,
+        entityType: "booking",
+        entityId: booking.id,
+        eventTitle: event?.title || "Event",
+        amount: schedule.depositAmount.toFixed(2),
+        actionUrl: `/bookings?bookingId=${booking.id}`,
+      }, null, tx);
+
+      return rows;
+    });
+
+    return created;
+  }
+
+  /**
+   * Brings the escrow payments in line with an amended contract's commission
+   * breakdown. Does nothing before the signed-contract payments exist; they
+   * are created from the amended breakdown later.
+   */
+  async onContractAmended(contractId: number, amendmentId: number, actorUserId: number | null = null): Promise<EscrowAdjustment | null> {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract || !contract.bookingId) {
+      throw new Error("Contract not found");
+    }
+
+    const existing = await this.getPaymentsForBooking(contract.bookingId);
+    if (!existing.some((p) => p.paymentType === "deposit")) {
+      return null;
+    }
+
+    const { booking, organizerUserId } = await this.loadParties(contract.bookingId);
+    const schedule = calculateEscrowSchedule(
+      contract.commissionBreakdownJson as Record<string, any> | null,
+      booking.depositPercent,
+      booking.finalAmount || booking.offerAmount,
+    );
+    const plan = planEscrowAdjustment(existing, schedule.totalDue);
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      for (const { paymentId, amount } of plan.resize) {
+        await tx.update(payments).set({ amount: amount.toFixed(2) }).where(eq(payments.id, paymentId));
+      }
+      if (plan.cancel.length > 0) {
+        await tx.update(payments).set({ status: "cancelled" }).where(inArray(payments.id, plan.cancel));
+      }
+      if (plan.charge > 0) {
+        await tx.insert(payments).values({
+          bookingId: booking.id,
+          payerId: organizerUserId,
+          amount: plan.charge.toFixed(2),
+          currency: booking.offerCurrency || "INR",
+          paymentType: "adjustment",
+          status: "initiated",
+          gateway: getPaymentGateway().name,
+          dueAt: booking.finalDueAt && booking.finalDueAt > now ? booking.finalDueAt : now,
+          metadata: { contractId, amendmentId },
+        });
+      }
+
+      await tx.insert(auditLogs).values({
+        who: actorUserId,
+        action: "escrow_adjusted_for_amendment",
+        entityType: "booking",
+        entityId: booking.id,
+        context: { contractId, amendmentId, ...plan },
+      });
+    });
+
+    if (plan.refund > 0) {
+      await this.refundCaptured(booking.id, plan.refund, `Contract amendment #${amendmentId}`, actorUserId);
+    }
+    return plan;
+  }
+
+  /**
+   * Authorizes and captures an initiated payment into escrow. The payment is
+   * claimed (moved to processing) before the gateway is called, so the pay
+   * route, the escrow job and an admin can't charge it twice.
+   */
+  async capturePayment(paymentId: number, actorUserId: number | null = null): Promise<Payment> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+    if (payment.status === "captured") {
+      return payment;
+    }
+    if (payment.status === "processing") {
+      throw new Error("Payment is already being captured");
+    }
+    if (payment.status !== "initiated" && payment.status !== "authorized") {
+      throw new Error(`Payment cannot be captured from status ${payment.status}`);
+    }
+
+    const [claimed] = await db.update(payments)
+      .set({ status: "processing" })
+      .where(and(eq(payments.id, paymentId), eq(payments.status, payment.status)))
+      .returning();
+    if (!claimed) {
+      throw new Error("Payment is already being captured");
+    }
+
+    const gateway = getPaymentGateway(payment.gateway);
+    const amount = Number(payment.amount);
+    let transactionId = payment.gatewayTransactionId;
+    let capture: Awaited<ReturnType<typeof gateway.capture>>;
+
+    try {
+      if (!transactionId || payment.status === "initiated") {
+        const auth = await gateway.authorize({
+          amount,
+          currency: payment.currency || "INR",
+          reference: `booking-${payment.bookingId}-${payment.paymentType}-${payment.id}`,
+        });
+        if (!auth.success) {
+          const [failed] = await db.update(payments)
+            .set({ status: "failed", gatewayResponse: auth.raw })
+            .where(eq(payments.id, paymentId))
+            .returning();
+          return failed;
+        }
+        transactionId = auth.transactionId;
+      }
+
+      capture = await gateway.capture(transactionId!, amount);
+    } catch (error) {
+      // The gateway never answered: hand the payment back for another attempt
+      await db.update(payments)
+        .set({ status: payment.status, gatewayTransactionId: transactionId })
+        .where(eq(payments.id, paymentId));
+      throw error;
+    }
+    const [updated] = await db.update(payments)
+      .set({
+        status: capture.success ? "captured" : "failed",
+        gatewayTransactionId: transactionId,
+        gatewayResponse: capture.raw,
+        completedAt: capture.success ? new Date() : null,
+      })
+      .where(eq(payments.id, paymentId))
+      .returning();
+
+    if (!capture.success) {
+      return updated;
+    }
+
+    if (payment.paymentType === "deposit" && payment.bookingId) {
+      const [booking] = await db.select().from(bookings).where(eq(bookings.id, payment.bookingId));
+      if (booking && (booking.status === "contracting" || booking.status === "confirmed")) {
+        await db.update(bookings)
+          .set({ status: "paid_deposit", updatedAt: new Date() })
+          .where(eq(bookings.id, booking.id));
+      }
+    }
+
+    if (payment.paymentType === "cancellation_fee" && payment.bookingId) {
+      await this.releaseCancellationHolds(payment.bookingId, actorUserId);
+    }
+    if (payment.bookingId) {
+      await this.releaseFundedPayouts(payment.bookingId, actorUserId);
+    }
+
+    if (payment.bookingId && payment.paymentType !== "cancellation_fee") {
+      const bookingPayments = await this.getPaymentsForBooking(payment.bookingId);
+      if (bookingPayments.every((p) => p.status === "captured" || p.status === "cancelled")) {
+        await invoiceService.markPaidForBooking(payment.bookingId, "organizer");
+      }
+    }
+
+    await db.insert(auditLogs).values({
+      who: actorUserId,
+      action: "payment_captured",
+      entityType: "payment",
+      entityId: paymentId,
+      context: { bookingId: payment.bookingId, paymentType: payment.paymentType, amount: payment.amount },
+    });
+
+    const eventTitle = payment.bookingId ? await this.getEventTitle(payment.bookingId) : "Event";
+    await emitDomainEvent("payment.received", {
+      bookingId: payment.bookingId,
+      entityType: "payment",
+      entityId: paymentId,
+      eventTitle,
+      amount: payment.amount,
+      actionUrl: `/bookings?bookingId=${payment.bookingId}`,
+    }, actorUserId);
+
+    return updated;
+  }
+
+  /**
+   * Captures every balance payment whose due date has passed.
+   * Returns the number of payments captured.
+   */
+  async captureDueBalances(now: Date = new Date()): Promise<number> {
+    const due = await db.select().from(payments).where(and(
+      eq(payments.paymentType, "balance"),
+      eq(payments.status, "initiated"),
+      lte(payments.dueAt, now),
+    ));
+
+    let captured = 0;
+    for (const payment of due) {
+      try {
+        const result = await this.capturePayment(payment.id);
+        if (result.status === "captured") captured++;
+      } catch (error) {
+        console.error(`[Escrow] Failed to capture balance payment ${payment.id}:`, error);
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * Refunds a captured payment back to the payer. Partial refunds keep the
+   * payment captured and record the refunded amount in metadata.
+   */
+  async refundPayment(paymentId: number, amount: number | null, reason: string, actorUserId: number | null = null): Promise<Payment> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+    if (payment.status !== "captured" || !payment.gatewayTransactionId) {
+      throw new Error("Only captured payments can be refunded");
+    }
+
+    const meta = (payment.metadata as Record<string, any>) || {};
+    const alreadyRefunded = Number(meta.refundedAmount || 0);
+    const refundable = round2(Number(payment.amount) - alreadyRefunded);
+    const refundAmount = round2(amount ?? refundable);
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error("Invalid refund amount");
+    }
+
+    // Claim the payment so a concurrent refund can't read the same refundable amount
+    const [claimed] = await db.update(payments)
+      .set({ status: "processing" })
+      .where(and(eq(payments.id, paymentId), eq(payments.status, "captured")))
+      .returning();
+    if (!claimed) {
+      throw new Error("Payment is already being refunded");
+    }
+
+    const gateway = getPaymentGateway(payment.gateway);
+    let result: Awaited<ReturnType<typeof gateway.refund>>;
+    try {
+      result = await gateway.refund(payment.gatewayTransactionId, refundAmount);
+    } catch (error) {
+      await db.update(payments).set({ status: "captured" }).where(eq(payments.id, paymentId));
+      throw error;
+    }
+    if (!result.success) {
+      await db.update(payments).set({ status: "captured" }).where(eq(payments.id, paymentId));
+      throw new Error(result.error || "Refund failed");
+    }
+
+    const totalRefunded = round2(alreadyRefunded + refundAmount);
+    const [updated] = await db.update(payments)
+      .set({
+        status: totalRefunded >= Number(payment.amount) ? "refunded" : "captured",
+        metadata: {
+          ...meta,
+          refundedAmount: totalRefunded,
+          refunds: [...(meta.refunds || []), { amount: refundAmount, reason, transactionId: result.transactionId, at: new Date().toISOString() }],
+        },
+      })
+      .where(eq(payments.id, paymentId))
+      .returning();
+
+    await db.insert(auditLogs).values({
+      who: actorUserId,
+      action: "payment_refunded",
+      entityType: "payment",
+      entityId: paymentId,
+      context: { bookingId: payment.bookingId, amount: refundAmount, reason },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Cancels payments that never reached escrow, e.g. when a booking is cancelled.
+   */
+  async cancelPendingPayments(bookingId: number): Promise<number> {
+    const cancelled = await db.update(payments)
+      .set({ status: "cancelled" })
+      .where(and(eq(payments.bookingId, bookingId), eq(payments.status, "initiated")))
+      .returning();
+    return cancelled.length;
+  }
+
+  /**
+   * Queues the artist payout once the booking is completed.
+   * Idempotent: returns the existing payout when one is already queued,
+   * checked again under a lock on the booking before inserting.
+   * A payout escrow can't cover yet (e.g. the balance payment failed) is
+   * queued on hold and released when the money is captured.
+   */
+  async onBookingCompleted(bookingId: number): Promise<Payout | null> {
+    const [existing] = await db.select().from(payouts).where(eq(payouts.bookingId, bookingId));
+    if (existing) {
+      return existing;
+    }
+
+    const { booking, artistUserId } = await this.loadParties(bookingId);
+    if (!artistUserId) {
+      throw new Error("Artist not found for booking");
+    }
+
+    const [contract] = booking.contractId
+      ? await db.select().from(contracts).where(eq(contracts.id, booking.contractId))
+      : [];
+    const schedule = calculateEscrowSchedule(
+      contract?.commissionBreakdownJson as Record<string, any> | null,
+      booking.depositPercent,
+      booking.finalAmount || booking.offerAmount,
+    );
+
+    // A dispute raised before completion keeps the payout on hold until it is resolved
+    const [openDispute] = await db.select({ id: disputes.id }).from(disputes).where(and(
+      eq(disputes.bookingId, bookingId),
+      inArray(disputes.status, ["open", "investigating", "escalated", "resolving"]),
+    ));
+
+    // Refunds already made (a partially refunded dispute) come out of the payout
+    const bookingPayments = await this.getPaymentsForBooking(bookingId);
+    const amount = round2(Math.min(schedule.netPayoutToArtist, schedule.totalDue - escrowRefunded(bookingPayments)));
+    if (amount <= 0) {
+      return null;
+    }
+
+    const available = escrowAvailable(bookingPayments, []);
+    const holdReason = openDispute
+      ? `Dispute #${openDispute.id}`
+      : amount > available ? AWAITING_ESCROW_FUNDS : null;
+
+    return db.transaction(async (tx) => {
+      // Lock the booking so two completions racing past the check above queue one payout
+      await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, bookingId)).for("update");
+      const [queued] = await tx.select().from(payouts).where(eq(payouts.bookingId, bookingId));
+      if (queued) {
+        return queued;
+      }
+
+      const [payout] = await tx.insert(payouts).values({
+        toUserId: artistUserId,
+        bookingId,
+        amount: amount.toFixed(2),
+        currency: booking.offerCurrency || "INR",
+        status: "queued",
+        metadata: holdReason
+          ? { contractId: booking.contractId ?? null, hold: true, holdReason }
+          : { contractId: booking.contractId ?? null },
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        who: null,
+        action: "payout_queued",
+        entityType: "payout",
+        entityId: payout.id,
+        context: { bookingId, amount: payout.amount },
+      });
+
+      return payout;
+    });
+  }
+
+  /**
+   * Sends a queued payout through the gateway.
+   * Payouts flagged with metadata.hold are skipped until the hold is released.
+   * The payout is claimed (moved to processing) under a lock on its booking
+   * once escrow is known to cover it, so concurrent calls send it only once
+   * and never pay out more than escrow holds.
+   */
+  async processPayout(payoutId: number, actorUserId: number | null = null): Promise<Payout> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, payoutId));
+    if (!payout) {
+      throw new Error("Payout not found");
+    }
+    if (payout.status === "paid") {
+      return payout;
+    }
+    if (payout.status !== "queued" && payout.status !== "failed") {
+      throw new Error(`Payout cannot be processed from status ${payout.status}`);
+    }
+    if ((payout.metadata as Record<string, any>)?.hold) {
+      throw new Error("Payout is on hold");
+    }
+
+    const claimed = await db.transaction(async (tx) => {
+      if (payout.bookingId) {
+        await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, payout.bookingId)).for("update");
+        const available = escrowAvailable(
+          await tx.select().from(payments).where(eq(payments.bookingId, payout.bookingId)),
+          await tx.select().from(payouts).where(eq(payouts.bookingId, payout.bookingId)),
+          payoutId,
+        );
+        if (Number(payout.amount) > available) {
+          throw new Error("Escrow does not hold enough to cover this payout");
+        }
+      }
+      const [row] = await tx.update(payouts)
+        .set({ status: "processing" })
+        .where(and(
+          eq(payouts.id, payoutId),
+          eq(payouts.status, payout.status!),
+          sql`coalesce((${payouts.metadata}->>'hold')::boolean, false) = false`,
+        ))
+        .returning();
+      return row;
+    });
+    if (!claimed) {
+      throw new Error("Payout is already being processed or was put on hold");
+    }
+
+    const gateway = getPaymentGateway();
+    let result: Awaited<ReturnType<typeof gateway.transfer>>;
+    try {
+      result = await gateway.transfer({
+        amount: Number(payout.amount),
+        currency: payout.currency || "INR",
+        toUserId: payout.toUserId!,
+        reference: `payout-${payout.id}`,
+      });
+    } catch (error) {
+      await db.update(payouts).set({ status: payout.status }).where(eq(payouts.id, payoutId));
+      throw error;
+    }
+
+    const [updated] = await db.update(payouts)
+      .set({
+        status: result.success ? "paid" : "failed",
+        providerResponse: result.raw,
+        paidAt: result.success ? new Date() : null,
+      })
+      .where(eq(payouts.id, payoutId))
+      .returning();
+
+    await db.insert(auditLogs).values({
+      who: actorUserId,
+      action: result.success ? "payout_paid" : "payout_failed",
+      entityType: "payout",
+      entityId: payoutId,
+      context: { bookingId: payout.bookingId, amount: payout.amount },
+    });
+
+    if (result.success && payout.bookingId) {
+      // Artist commission invoice is settled by deduction from this payout
+      await invoiceService.markPaidForBooking(payout.bookingId, "artist");
+
+      await emitDomainEvent("payout.processed", {
+        bookingId: payout.bookingId,
+        entityType: "payout",
+        entityId: payoutId,
+        eventTitle: await this.getEventTitle(payout.bookingId),
+        amount: payout.amount,
+        actionUrl: `/bookings?bookingId=${payout.bookingId}`,
+      }, actorUserId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Processes all queued payouts that are not on hold.
+   */
+  async processQueuedPayouts(): Promise<number> {
+    const queued = await db.select().from(payouts)
+      .where(eq(payouts.status, "queued"))
+      .orderBy(asc(payouts.initiatedAt));
+
+    let paid = 0;
+    for (const payout of queued) {
+      if ((payout.metadata as Record<string, any>)?.hold) continue;
+      try {
+        const result = await this.processPayout(payout.id);
+        if (result.status === "paid") paid++;
+      } catch (error) {
+        console.error(`[Escrow] Failed to process payout ${payout.id}:`, error);
+      }
+    }
+    return paid;
+  }
+
+  /**
+   * Places or releases a hold on a queued payout (e.g. while a dispute is open).
+   */
+  async setPayoutHold(
+    payoutId: number,
+    hold: boolean,
+    reason: string | null,
+    actorUserId: number | null = null,
+    tx?: EscrowExecutor,
+  ): Promise<Payout> {
+    const executor = tx ?? db;
+    const [payout] = await executor.select().from(payouts).where(eq(payouts.id, payoutId));
+    if (!payout) {
+      throw new Error("Payout not found");
+    }
+
+    const meta = (payout.metadata as Record<string, any>) || {};
+    const [updated] = await executor.update(payouts)
+      .set({ metadata: { ...meta, hold, holdReason: hold ? reason : null } })
+      .where(eq(payouts.id, payoutId))
+      .returning();
+
+    await executor.insert(auditLogs).values({
+      who: actorUserId,
+      action: hold ? "payout_held" : "payout_released",
+      entityType: "payout",
+      entityId: payoutId,
+      context: { bookingId: payout.bookingId, reason },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Holds or releases every queued payout for a booking. Returns the payouts touched.
+   */
+  async setBookingPayoutHold(
+    bookingId: number,
+    hold: boolean,
+    reason: string | null,
+    actorUserId: number | null = null,
+    tx?: EscrowExecutor,
+  ): Promise<Payout[]> {
+    const queued = await (tx ?? db).select().from(payouts)
+      .where(and(eq(payouts.bookingId, bookingId), inArray(payouts.status, ["queued", "failed"])));
+
+    const updated: Payout[] = [];
+    for (const payout of queued) {
+      updated.push(await this.setPayoutHold(payout.id, hold, reason, actorUserId, tx));
+    }
+    return updated;
+  }
+
+  /**
+   * Cancels payouts for a booking that have not been paid yet.
+   */
+  async cancelPayoutsForBooking(bookingId: number, reason: string, actorUserId: number | null = null): Promise<number> {
+    const cancelled = await db.update(payouts)
+      .set({ status: "cancelled" })
+      .where(and(eq(payouts.bookingId, bookingId), inArray(payouts.status, ["queued", "failed"])))
+      .returning();
+
+    for (const payout of cancelled) {
+      await db.insert(auditLogs).values({
+        who: actorUserId,
+        action: "payout_cancelled",
+        entityType: "payout",
+        entityId: payout.id,
+        context: { bookingId, reason },
+      });
+    }
+    return cancelled.length;
+  }
+
+  /**
+   * Refunds captured payments for a booking, oldest first, up to `amount`
+   * (everything captured when null). Returns the total refunded.
+   */
+  async refundBooking(bookingId: number, amount: number | null, reason: string, actorUserId: number | null = null): Promise<number> {
+    const refunded = await this.refundCaptured(bookingId, amount, reason, actorUserId);
+    await this.cancelPendingPayments(bookingId);
+    return refunded;
+  }
+
+  /**
+   * Settles a partial refund: refunds up to `amount` of what escrow captured,
+   * reduces unpaid payouts to what escrow still holds (cancelling any left
+   * with nothing) and releases their holds. Returns the total refunded.
+   */
+  async settlePartialRefund(bookingId: number, amount: number, reason: string, actorUserId: number | null = null): Promise<number> {
+    const refunded = await this.refundCaptured(bookingId, amount, reason, actorUserId);
+
+    const bookingPayouts = await db.select().from(payouts)
+      .where(eq(payouts.bookingId, bookingId))
+      .orderBy(asc(payouts.id));
+    let available = escrowAvailable(await this.getPaymentsForBooking(bookingId), bookingPayouts);
+
+    for (const payout of bookingPayouts) {
+      if (payout.status !== "queued" && payout.status !== "failed") continue;
+
+      const reduced = round2(Math.max(0, Math.min(Number(payout.amount), available)));
+      if (reduced <= 0) {
+        await db.update(payouts).set({ status: "cancelled" }).where(eq(payouts.id, payout.id));
+        await db.insert(auditLogs).values({
+          who: actorUserId,
+          action: "payout_cancelled",
+          entityType: "payout",
+          entityId: payout.id,
+          context: { bookingId, reason },
+        });
+        continue;
+      }
+
+      if (reduced < Number(payout.amount)) {
+        await db.update(payouts).set({ amount: reduced.toFixed(2) }).where(eq(payouts.id, payout.id));
+        await db.insert(auditLogs).values({
+          who: actorUserId,
+          action: "payout_reduced",
+          entityType: "payout",
+          entityId: payout.id,
+          context: { bookingId, from: payout.amount, to: reduced.toFixed(2), reason },
+        });
+      }
+      await this.setPayoutHold(payout.id, false, null, actorUserId);
+      available = round2(available - reduced);
+    }
+
+    return refunded;
+  }
+
+  /**
+   * Moves the money for a cancelled booking: unpaid escrow payments and
+   * queued payouts are cancelled, the organizer's refund comes out of escrow,
+   * penalty escrow doesn't cover is charged to the cancelling party as a
+   * `cancellation_fee` payment, and compensation is queued as payouts. Payouts
+   * funded by an unpaid cancellation fee stay on hold until it is captured.
+   */
+  async settleCancellation(
+    bookingId: number,
+    cancellationId: number,
+    settlement: CancellationSettlement,
+    reason: string,
+    actorUserId: number | null = null,
+  ): Promise<{ refunded: number; feePayment: Payment | null; payouts: Payout[] }> {
+    const { booking, organizerUserId, artistUserId } = await this.loadParties(bookingId);
+    const currency = booking.offerCurrency || "INR";
+
+    await this.cancelPayoutsForBooking(bookingId, reason, actorUserId);
+    const refunded = settlement.refundToOrganizer > 0
+      ? await this.refundCaptured(bookingId, settlement.refundToOrganizer, reason, actorUserId)
+      : 0;
+    await this.cancelPendingPayments(bookingId);
+
+    const [payer, payee] = settlement.cancelledBy === "artist"
+      ? [artistUserId, organizerUserId]
+      : [organizerUserId, artistUserId];
+    const awaitingFee = settlement.feeDue > 0;
+
+    const result = await db.transaction(async (tx) => {
+      let feePayment: Payment | null = null;
+      if (awaitingFee) {
+        [feePayment] = await tx.insert(payments).values({
+          bookingId,
+          payerId: payer,
+          payeeId: payee,
+          amount: settlement.feeDue.toFixed(2),
+          currency,
+          paymentType: "cancellation_fee",
+          status: "initiated",
+          gateway: getPaymentGateway().name,
+          dueAt: new Date(),
+          metadata: { cancellationId },
+        }).returning();
+      }
+
+      const queued: Payout[] = [];
+      const compensation: [number | null, number][] = [
+        [artistUserId, settlement.artistCompensation],
+        [organizerUserId, settlement.organizerCompensation],
+      ];
+      for (const [toUserId, amount] of compensation) {
+        if (!toUserId || amount <= 0) continue;
+        const [payout] = await tx.insert(payouts).values({
+          toUserId,
+          bookingId,
+          amount: amount.toFixed(2),
+          currency,
+          status: "queued",
+          metadata: awaitingFee
+            ? { cancellationId, compensation: true, hold: true, holdReason: AWAITING_CANCELLATION_FEE }
+            : { cancellationId, compensation: true },
+        }).returning();
+        queued.push(payout);
+      }
+
+      await tx.insert(auditLogs).values({
+        who: actorUserId,
+        action: "cancellation_settled",
+        entityType: "booking",
+        entityId: bookingId,
+        context: {
+          cancellationId,
+          refunded,
+          feePaymentId: feePayment?.id ?? null,
+          payoutIds: queued.map((p) => p.id),
+          ...settlement,
+        },
+      });
+      return { feePayment, payouts: queued };
+    });
+
+    return { refunded, ...result };
+  }
+
+  /** Releases compensation payouts that were waiting for the booking's cancellation fee */
+  private async releaseCancellationHolds(bookingId: number, actorUserId: number | null) {
+    const held = await db.select().from(payouts)
+      .where(and(eq(payouts.bookingId, bookingId), eq(payouts.status, "queued")));
+    for (const payout of held) {
+      if ((payout.metadata as Record<string, any>)?.holdReason === AWAITING_CANCELLATION_FEE) {
+        await this.setPayoutHold(payout.id, false, null, actorUserId);
+      }
+    }
+  }
+
+  /** Releases payouts queued before escrow could cover them, once it can */
+  private async releaseFundedPayouts(bookingId: number, actorUserId: number | null) {
+    const bookingPayouts = await db.select().from(payouts).where(eq(payouts.bookingId, bookingId));
+    let available = escrowAvailable(await this.getPaymentsForBooking(bookingId), bookingPayouts);
+    for (const payout of bookingPayouts) {
+      if (payout.status !== "queued") continue;
+      if ((payout.metadata as Record<string, any>)?.holdReason !== AWAITING_ESCROW_FUNDS) continue;
+      if (Number(payout.amount) > available) continue;
+      await this.setPayoutHold(payout.id, false, null, actorUserId);
+      available = round2(available - Number(payout.amount));
+    }
+  }
+
+  /** Refunds captured payments, oldest first, up to `amount`; uncollected payments are left alone */
+  private async refundCaptured(bookingId: number, amount: number | null, reason: string, actorUserId: number | null): Promise<number> {
+    const captured = (await this.getPaymentsForBooking(bookingId)).filter((p) => p.status === "captured");
+    let remaining = amount ?? Infinity;
+    let refunded = 0;
+
+    for (const payment of captured) {
+      if (remaining <= 0) break;
+      const refundable = round2(Number(payment.amount) - Number((payment.metadata as Record<string, any>)?.refundedAmount || 0));
+      if (refundable <= 0) continue;
+
+      const portion = round2(Math.min(refundable, remaining));
+      await this.refundPayment(payment.id, portion, reason, actorUserId);
+      refunded = round2(refunded + portion);
+      remaining = round2(remaining - portion);
+    }
+    return refunded;
+  }
+
+  async listPayouts(status?: string): Promise<Payout[]> {
+    const query = db.select().from(payouts);
+    const rows = status
+      ? await query.where(eq(payouts.status, status as NonNullable<Payout["status"]>))
+      : await query;
+    return rows.sort((a, b) => b.id - a.id);
+  }
+
+  async getPaymentsForBooking(bookingId: number): Promise<Payment[]> {
+    return db.select().from(payments)
+      .where(eq(payments.bookingId, bookingId))
+      .orderBy(asc(payments.id));
+  }
+
+  async getLedger(bookingId: number): Promise<{ payments: Payment[]; payouts: Payout[]; escrowBalance: number }> {
+    const bookingPayments = await this.getPaymentsForBooking(bookingId);
+    const bookingPayouts = await db.select().from(payouts)
+      .where(eq(payouts.bookingId, bookingId))
+      .orderBy(asc(payouts.id));
+
+    const captured = bookingPayments
+      .filter((p) => p.status === "captured" || p.status === "refunded")
+      .reduce((sum, p) => sum + Number(p.amount) - Number((p.metadata as Record<string, any>)?.refundedAmount || 0), 0);
+    const paidOut = bookingPayouts
+      .filter((p) => p.status === "paid")
+      .reduce((sum, p) => sum + Number(p.amount), 0);
+
+    return { payments: bookingPayments, payouts: bookingPayouts, escrowBalance: round2(captured - paidOut) };
+  }
+
+  private async getEventTitle(bookingId: number): Promise<string> {
+    const [row] = await db.select({ title: events.title })
+      .from(bookings)
+      .innerJoin(events, eq(bookings.eventId, events.id))
+      .where(eq(bookings.id, bookingId));
+    return row?.title || "Event";
+  }
+}
+
+export const escrowService = new EscrowService();
@@ -1,46 +1,43 @@
 /**
- * Domain Event Bus — in-process event system for triggering notifications.
+ * Domain Events — transactional outbox for triggering notifications.
  *
- * Business services emit domain events after successful operations.
- * The NotificationService subscribes to all events via the "*" wildcard.
+ * Business services record a domain event after (or as part of) a change.
+ * Pass the transaction when there is one: the event row then commits or
+ * rolls back together with the business change, so a crash can neither
+ * lose the event nor announce a change that never happened.
  *
- * If horizontal scaling is needed later, swap EventEmitter for Redis pub/sub
- * without changing call sites.
+ * Stored events are delivered to consumers (e.g. NotificationService) by
+ * the outbox relay with at-least-once semantics; consumers must tolerate
+ * seeing the same event twice (use DomainEvent.id to deduplicate).
  */
 
-import { EventEmitter } from "events";
+import { db } from "../db";
+import { domainEvents } from "../../shared/schema";
+import { outboxRelay } from "./outbox-relay.service";
 
 export interface DomainEvent {
+  /** Outbox row id — stable across redeliveries and replays */
+  id: number;
   type: string;
   payload: Record<string, any>;
   actorUserId: number | null;
   timestamp: string;
 }
 
-class DomainEventBus extends EventEmitter {
-  override emit(type: string, event: DomainEvent): boolean {
-    // Emit on specific type AND wildcard so notification service can subscribe once
-    super.emit(type, event);
-    if (type !== "*") {
-      super.emit("*", event);
-    }
-    return true;
-  }
-}
-
-export const eventBus = new DomainEventBus();
-eventBus.setMaxListeners(50);
+/** The database or an open transaction */
+export type DomainEventExecutor = Pick<typeof db, "insert">;
 
-/** Helper for consistent event emission from business services */
-export function emitDomainEvent(
+/** Record a domain event in the outbox. Returns the event id. */
+export async function emitDomainEvent(
   type: string,
   payload: Record<string, any>,
-  actorUserId: number | null
-): void {
-  eventBus.emit(type, {
-    type,
-    payload,
-    actorUserId,
-    timestamp: new Date().toISOString(),
-  });
+  actorUserId: number | null,
+  tx?: DomainEventExecutor,
+): Promise<number> {
+  const [row] = await (tx ?? db).insert(domainEvents)
+    .values({ type, payload, actorUserId })
+    .returning({ id: domainEvents.id });
+
+  outboxRelay.kick();
+  return row.id;
 }
@@ -0,0 +1,199 @@
+import type { JsonWebKey } from "crypto";
+import {
+  buildAuthorizationUrl,
+  decodeJwt,
+  idTokenClaimsError,
+  identityFromClaims,
+  verifyJwtSignature,
+  type ExternalIdentity,
+} from "../oauth-utils";
+
+/**
+ * Identity Provider abstraction
+ *
+ * Sign-in routes never talk to Google (or any other provider) directly.
+ * Each provider is an IdentityProvider registered by name, so new ones can
+ * be added without touching the auth routes. Google and a generic OpenID
+ * Connect provider are configured from the environment; the generic one
+ * also lets tests and local development point at a mock issuer.
+ */
+
+export interface AuthorizationRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  redirectUri: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface IdentityProvider {
+  readonly name: string;
+  /** Shown on buttons, e.g. "Google" */
+  readonly label: string;
+  /** Where to send the browser to sign in */
+  authorizationUrl(request: AuthorizationRequest): Promise<string>;
+  /** Trade the callback code for a verified identity */
+  exchangeCode(exchange: CodeExchange): Promise<ExternalIdentity>;
+}
+
+export interface OidcProviderConfig {
+  name: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  /** Issuer values accepted in ID tokens besides `issuer` */
+  extraIssuers?: string[];
+  prompt?: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Identity provider request failed (${res.status}): ${body.slice(0, 200)}`);
+  }
+  return await res.json() as T;
+}
+
+/**
+ * Authorization code flow with PKCE against any OpenID Connect issuer.
+ * Discovery and signing keys are cached; keys are refetched once when a
+ * token names a key id we have not seen (provider key rotation).
+ */
+export class OidcProvider implements IdentityProvider {
+  readonly name: string;
+  readonly label: string;
+  private discovery: Promise<OidcDiscovery> | null = null;
+  private keys: JsonWebKey[] | null = null;
+
+  constructor(private readonly config: OidcProviderConfig) {
+    this.name = config.name;
+    this.label = config.label;
+  }
+
+  private discover(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const url = `${this.config.issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+      this.discovery = fetchJson<OidcDiscovery>(url).catch((err) => {
+        this.discovery = null;
+        throw err;
+      });
+    }
+    return this.discovery;
+  }
+
+  private async signingKeys(kid: string | undefined): Promise<JsonWebKey[]> {
+    const known = this.keys && (!kid || this.keys.some((key) => key.kid === kid));
+    if (!known) {
+      const { jwks_uri } = await this.discover();
+      this.keys = (await fetchJson<{ keys: JsonWebKey[] }>(jwks_uri)).keys || [];
+    }
+    return this.keys!;
+  }
+
+  async authorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    return buildAuthorizationUrl(authorization_endpoint, {
+      clientId: this.config.clientId,
+      redirectUri: request.redirectUri,
+      scope: this.config.scope || "openid email profile",
+      state: request.state,
+      nonce: request.nonce,
+      codeVerifier: request.codeVerifier,
+      prompt: this.config.prompt,
+    });
+  }
+
+  async exchangeCode(exchange: CodeExchange): Promise<ExternalIdentity> {
+    const discovery = await this.discover();
+    const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: exchange.code,
+        redirect_uri: exchange.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: exchange.codeVerifier,
+      }).toString(),
+    });
+    if (!tokens.id_token) throw new Error("Identity provider did not return an ID token");
+
+    const jwt = decodeJwt(tokens.id_token);
+    if (!verifyJwtSignature(jwt, await this.signingKeys(jwt.header.kid))) {
+      throw new Error("ID token signature is invalid");
+    }
+    const claimsError = idTokenClaimsError(jwt.payload, {
+      issuers: [discovery.issuer, ...(this.config.extraIssuers || [])],
+      clientId: this.config.clientId,
+      nonce: exchange.nonce,
+    });
+    if (claimsError) throw new Error(claimsError);
+
+    return identityFromClaims(jwt.payload);
+  }
+}
+
+const providers = new Map<string, IdentityProvider>();
+
+export function registerIdentityProvider(provider: IdentityProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getIdentityProvider(name: string): IdentityProvider | undefined {
+  return providers.get(name);
+}
+
+export function listIdentityProviders(): IdentityProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Providers configured in the environment:
+ * - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET
+ * - Generic OIDC: OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, and
+ *   optionally OIDC_PROVIDER_NAME (default "oidc") and OIDC_PROVIDER_LABEL
+ */
+export function identityProvidersFromEnv(env: NodeJS.ProcessEnv = process.env): IdentityProvider[] {
+  const configured: IdentityProvider[] = [];
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    configured.push(new OidcProvider({
+      name: "google",
+      label: "Google",
+      issuer: "https://accounts.google.com",
+      extraIssuers: ["accounts.google.com"],
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      prompt: "select_account",
+    }));
+  }
+  if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET) {
+    configured.push(new OidcProvider({
+      name: env.OIDC_PROVIDER_NAME || "oidc",
+      label: env.OIDC_PROVIDER_LABEL || "Single sign-on",
+      issuer: env.OIDC_ISSUER,
+      clientId: env.OIDC_CLIENT_ID,
+      clientSecret: env.OIDC_CLIENT_SECRET,
+      scope: env.OIDC_SCOPE,
+    }));
+  }
+  return configured;
+}
+
+identityProvidersFromEnv().forEach(registerIdentityProvider);
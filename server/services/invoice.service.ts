@@ -0,0 +1,324 @@
+import { db } from "../db";
+import { bookings, contracts, invoices, invoiceSequences, events, venues, promoters, artists, users, appSettings, auditLogs } from "../../shared/schema";
+import type { Invoice } from "../../shared/schema";
+import { eq, and, lt, inArray, desc, sql } from "drizzle-orm";
+import {
+  DEFAULT_GST_RATE_PCT,
+  getFinancialYear,
+  formatInvoiceNumber,
+  stateCodeFromGstin,
+  stateCodeFromName,
+  computeInvoiceTotals,
+  buildOrganizerInvoiceLines,
+  buildArtistInvoiceLines,
+  type InvoiceLineItem,
+} from "../invoice-utils";
+
+/** Organizer invoices fall due this many days after issue when no finalDueAt is set */
+const DEFAULT_PAYMENT_TERMS_DAYS = 7;
+
+export type InvoiceType = "organizer" | "artist";
+
+interface PlatformGstDetails {
+  legalName: string;
+  gstin: string | null;
+  address: string | null;
+  gstRatePct: number;
+}
+
+/**
+ * Invoice Service
+ *
+ * Issues GST invoices for a booking once its contract is signed:
+ *   - organizer invoice: artist fee + platform booking fee
+ *   - artist invoice:    platform commission deducted from the payout
+ * Numbers are sequential per Indian financial year (INV/2026-27/000001).
+ */
+export class InvoiceService {
+  private async getPlatformDetails(): Promise<PlatformGstDetails> {
+    const settings = await db.select().from(appSettings).where(inArray(appSettings.key, ["app_name", "platform_gst_details"]));
+    const config = settings.reduce((acc, curr) => {
+      acc[curr.key] = curr.value;
+      return acc;
+    }, {} as Record<string, any>);
+
+    const gst = config["platform_gst_details"] || {};
+    return {
+      legalName: gst.legalName || config["app_name"] || "The Platform",
+      gstin: gst.gstin || null,
+      address: gst.address || null,
+      gstRatePct: Number(gst.gstRatePct ?? DEFAULT_GST_RATE_PCT),
+    };
+  }
+
+  private async nextSequence(tx: any, financialYear: string): Promise<number> {
+    const [row] = await tx.insert(invoiceSequences)
+      .values({ financialYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: invoiceSequences.financialYear,
+        set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1` },
+      })
+      .returning();
+    return row.lastNumber;
+  }
+
+  private async createInvoice(data: {
+    invoiceType: InvoiceType;
+    bookingId: number;
+    contractId: number | null;
+    recipientUserId: number | null;
+    supplierDetails: Record<string, any>;
+    recipientDetails: Record<string, any>;
+    placeOfSupply: string | null;
+    supplierStateCode: string | null;
+    gstRatePct: number;
+    lines: InvoiceLineItem[];
+    currency: string;
+    dueAt: Date | null;
+    metadata?: Record<string, any>;
+  }): Promise<Invoice> {
+    const now = new Date();
+    const totals = computeInvoiceTotals(data.lines, data.supplierStateCode, data.placeOfSupply, data.gstRatePct);
+    const financialYear = getFinancialYear(now);
+
+    return db.transaction(async (tx) => {
+      const sequence = await this.nextSequence(tx, financialYear);
+      const [invoice] = await tx.insert(invoices).values({
+        invoiceNumber: formatInvoiceNumber(financialYear, sequence),
+        financialYear,
+        sequence,
+        invoiceType: data.invoiceType,
+        bookingId: data.bookingId,
+        contractId: data.contractId,
+        recipientUserId: data.recipientUserId,
+        supplierDetails: data.supplierDetails,
+        recipientDetails: data.recipientDetails,
+        placeOfSupply: data.placeOfSupply,
+        supplyType: totals.supplyType,
+        lineItems: data.lines,
+        subtotal: totals.subtotal.toFixed(2),
+        cgstAmount: totals.cgstAmount.toFixed(2),
+        sgstAmount: totals.sgstAmount.toFixed(2),
+        igstAmount: totals.igstAmount.toFixed(2),
+        totalAmount: totals.totalAmount.toFixed(2),
+        currency: data.currency,
+        status: "issued",
+        issuedAt: now,
+        dueAt: data.dueAt,
+        metadata: { gstRatePct: data.gstRatePct, ...(data.metadata || {}) },
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        who: null,
+        action: "invoice_issued",
+        entityType: "invoice",
+        entityId: invoice.id,
+        context: { invoiceNumber: invoice.invoiceNumber, bookingId: data.bookingId, invoiceType: data.invoiceType },
+      });
+
+      return invoice;
+    });
+  }
+
+  /**
+   * Issues the organizer and artist invoices for a signed contract.
+   * Invoice types that already exist for the booking are not issued again.
+   */
+  async generateForContract(contractId: number): Promise<Invoice[]> {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract || !contract.bookingId) {
+      throw new Error("Contract not found");
+    }
+
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, contract.bookingId));
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const existing = await this.getInvoicesForBooking(booking.id);
+    const issuedTypes = new Set(existing.filter((i) => i.status !== "cancelled").map((i) => i.invoiceType));
+
+    const [event] = booking.eventId ? await db.select().from(events).where(eq(events.id, booking.eventId)) : [];
+    const [venue] = event?.venueId ? await db.select().from(venues).where(eq(venues.id, event.venueId)) : [];
+    const [organizer] = event?.organizerId ? await db.select().from(promoters).where(eq(promoters.id, event.organizerId)) : [];
+    const [organizerUser] = organizer?.userId ? await db.select().from(users).where(eq(users.id, organizer.userId)) : [];
+    const [artist] = booking.artistId ? await db.select().from(artists).where(eq(artists.id, booking.artistId)) : [];
+    const [artistUser] = artist?.userId ? await db.select().from(users).where(eq(users.id, artist.userId)) : [];
+
+    const platform = await this.getPlatformDetails();
+    const supplierStateCode = stateCodeFromGstin(platform.gstin);
+    const supplierDetails = { name: platform.legalName, gstin: platform.gstin, address: platform.address };
+    const venueStateCode = stateCodeFromName((venue?.address as Record<string, any> | null)?.state);
+
+    const breakdown = (contract.commissionBreakdownJson as Record<string, any>) || {};
+    const amounts = {
+      artistFee: booking.artistFee ?? breakdown.artistFee ?? booking.finalAmount ?? booking.offerAmount,
+      organizerFee: booking.organizerFee ?? breakdown.organizerFee ?? 0,
+      artistCommissionPct: booking.artistCommissionPct ?? breakdown.artistCommissionPct ?? 0,
+    };
+    const currency = booking.offerCurrency || "INR";
+    const created: Invoice[] = [];
+
+    if (!issuedTypes.has("organizer")) {
+      const artistGstRegistered = !!artistUser?.gstin && artistUser.gstRegistrationType === "registered";
+      const dueAt = booking.finalDueAt
+        || new Date(Date.now() + DEFAULT_PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000);
+
+      created.push(await this.createInvoice({
+        invoiceType: "organizer",
+        bookingId: booking.id,
+        contractId,
+        recipientUserId: organizerUser?.id ?? null,
+        supplierDetails,
+        recipientDetails: {
+          name: organizerUser?.legalName || organizer?.name || organizerUser?.displayName || "Organizer",
+          gstin: organizerUser?.gstin || null,
+          pan: organizerUser?.panNumber || null,
+          address: organizerUser?.permanentAddress || null,
+        },
+        placeOfSupply: stateCodeFromGstin(organizerUser?.gstin) || venueStateCode,
+        supplierStateCode,
+        gstRatePct: platform.gstRatePct,
+        lines: buildOrganizerInvoiceLines(amounts, artistGstRegistered),
+        currency,
+        dueAt,
+        metadata: { eventTitle: event?.title || null, artistName: artist?.name || null },
+      }));
+    }
+
+    if (!issuedTypes.has("artist")) {
+      const artistFee = Number(amounts.artistFee || 0);
+      const lines = buildArtistInvoiceLines(amounts);
+
+      created.push(await this.createInvoice({
+        invoiceType: "artist",
+        bookingId: booking.id,
+        contractId,
+        recipientUserId: artistUser?.id ?? null,
+        supplierDetails,
+        recipientDetails: {
+          name: artistUser?.legalName || artist?.name || artistUser?.displayName || "Artist",
+          gstin: artistUser?.gstin || null,
+          pan: artistUser?.panNumber || null,
+          address: artistUser?.permanentAddress || null,
+        },
+        placeOfSupply: stateCodeFromGstin(artistUser?.gstin) || venueStateCode,
+        supplierStateCode,
+        gstRatePct: platform.gstRatePct,
+        lines,
+        currency,
+        // Commission is settled by deduction from the payout, so there is no due date
+        dueAt: null,
+        metadata: { eventTitle: event?.title || null, grossArtistFee: artistFee, deductedFromPayout: true },
+      }));
+    }
+
+    return created;
+  }
+
+  /**
+   * Replaces a booking's unpaid invoices after its contract's amounts change:
+   * open invoices are cancelled and issued again from the amended figures.
+   * Paid invoices are kept as they are.
+   */
+  async reissueForContract(contractId: number, reason: string, actorUserId: number): Promise<Invoice[]> {
+    const [contract] = await db.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract || !contract.bookingId) {
+      throw new Error("Contract not found");
+    }
+
+    const open = (await this.getInvoicesForBooking(contract.bookingId))
+      .filter((i) => i.status === "draft" || i.status === "issued" || i.status === "overdue");
+    if (open.length === 0) return [];
+    for (const invoice of open) {
+      await this.updateStatus(invoice.id, "cancelled", reason, actorUserId);
+    }
+    return this.generateForContract(contractId);
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoicesForBooking(bookingId: number): Promise<Invoice[]> {
+    return db.select().from(invoices)
+      .where(eq(invoices.bookingId, bookingId))
+      .orderBy(invoices.id);
+  }
+
+  async listInvoices(filters: { status?: string; recipientUserId?: number } = {}): Promise<Invoice[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(invoices.status, filters.status as NonNullable<Invoice["status"]>));
+    if (filters.recipientUserId) conditions.push(eq(invoices.recipientUserId, filters.recipientUserId));
+
+    return db.select().from(invoices)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(invoices.id));
+  }
+
+  /**
+   * Marks the booking's open invoices of a type as paid.
+   */
+  async markPaidForBooking(bookingId: number, invoiceType: InvoiceType): Promise<number> {
+    const updated = await db.update(invoices)
+      .set({ status: "paid", paidAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(invoices.bookingId, bookingId),
+        eq(invoices.invoiceType, invoiceType),
+        inArray(invoices.status, ["issued", "overdue"]),
+      ))
+      .returning();
+    return updated.length;
+  }
+
+  /**
+   * Moves issued invoices past their due date to overdue.
+   * Returns the number of invoices transitioned.
+   */
+  async markOverdueInvoices(now: Date = new Date()): Promise<number> {
+    const updated = await db.update(invoices)
+      .set({ status: "overdue", updatedAt: now })
+      .where(and(eq(invoices.status, "issued"), lt(invoices.dueAt, now)))
+      .returning();
+
+    for (const invoice of updated) {
+      await db.insert(auditLogs).values({
+        who: null,
+        action: "invoice_overdue",
+        entityType: "invoice",
+        entityId: invoice.id,
+        context: { invoiceNumber: invoice.invoiceNumber, bookingId: invoice.bookingId, dueAt: invoice.dueAt },
+      });
+    }
+    return updated.length;
+  }
+
+  async updateStatus(id: number, status: "cancelled" | "refunded", reason: string, actorUserId: number): Promise<Invoice> {
+    const invoice = await this.getInvoice(id);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+
+    const [updated] = await db.update(invoices)
+      .set({
+        status,
+        updatedAt: new Date(),
+        metadata: { ...((invoice.metadata as Record<string, any>) || {}), statusReason: reason },
+      })
+      .where(eq(invoices.id, id))
+      .returning();
+
+    await db.insert(auditLogs).values({
+      who: actorUserId,
+      action: `invoice_${status}`,
+      entityType: "invoice",
+      entityId: id,
+      context: { invoiceNumber: invoice.invoiceNumber, reason },
+    });
+
+    return updated;
+  }
+}
+
+export const invoiceService = new InvoiceService();
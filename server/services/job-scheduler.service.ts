@@ -0,0 +1,301 @@
+import { hostname } from "os";
+import { db } from "../db";
+import { jobRuns, scheduledJobs } from "../../shared/schema";
+import type { JobRun, ScheduledJob } from "../../shared/schema";
+import { and, asc, desc, eq, inArray, lt, lte, ne, or } from "drizzle-orm";
+import {
+  JOB_POLL_INTERVAL_MS,
+  JOB_RUN_RETENTION_DAYS,
+  staleLockCutoff,
+  stateAfterRun,
+} from "../job-scheduler-utils";
+
+export type JobTrigger = "schedule" | "manual";
+
+export interface JobContext {
+  job: ScheduledJob;
+  trigger: JobTrigger;
+}
+
+/** Returns an optional summary stored on the run (e.g. { voided: 2 }) */
+export type JobHandler = (payload: Record<string, any>, context: JobContext) => Promise<Record<string, unknown> | void>;
+
+export interface RecurringJobDefinition {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  /** Delay before the first run when the job is created (default: one interval) */
+  firstRunDelaySeconds?: number;
+  handler: JobHandler;
+}
+
+export interface ScheduleJobOptions {
+  /** Dedupe key; scheduling the same key again moves the existing job */
+  key?: string;
+  description?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Job Scheduler Service
+ *
+ * Postgres-backed replacement for per-process timers. Recurring jobs are
+ * declared in code and upserted into scheduled_jobs on start; one-off jobs
+ * are scheduled at runtime. Every instance polls for due rows and claims
+ * them with FOR UPDATE SKIP LOCKED, so a job runs on one instance at a time.
+ * Each run is recorded in job_runs.
+ */
+export class JobSchedulerService {
+  readonly workerId = `${hostname()}:${process.pid}`;
+  private handlers = new Map<string, { description: string; handler: JobHandler }>();
+  private recurring: RecurringJobDefinition[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  defineRecurring(definition: RecurringJobDefinition): void {
+    this.handlers.set(definition.name, { description: definition.description, handler: definition.handler });
+    this.recurring = this.recurring.filter((d) => d.name !== definition.name).concat(definition);
+  }
+
+  /** Register the handler for one-off jobs scheduled under this name */
+  defineHandler(name: string, description: string, handler: JobHandler): void {
+    this.handlers.set(name, { description, handler });
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.syncRecurring();
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => console.error("[Jobs] Poll failed:", err));
+    }, JOB_POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Create rows for newly declared recurring jobs; keep run times and pause state of existing ones */
+  private async syncRecurring(): Promise<void> {
+    const now = new Date();
+    for (const def of this.recurring) {
+      const delay = def.firstRunDelaySeconds ?? def.intervalSeconds;
+      await db.insert(scheduledJobs)
+        .values({
+          key: def.name,
+          name: def.name,
+          kind: "recurring",
+          description: def.description,
+          intervalSeconds: def.intervalSeconds,
+          runAt: new Date(now.getTime() + delay * 1000),
+        })
+        .onConflictDoUpdate({
+          target: scheduledJobs.key,
+          set: { description: def.description, intervalSeconds: def.intervalSeconds, updatedAt: now },
+        });
+    }
+  }
+
+  /**
+   * Schedule a one-off job. Re-scheduling an existing key moves it to the
+   * new time with the new payload, unless it is running right now.
+   */
+  async schedule(
+    name: string,
+    payload: Record<string, any>,
+    runAt: Date,
+    options: ScheduleJobOptions = {},
+  ): Promise<ScheduledJob | null> {
+    const now = new Date();
+    const [row] = await db.insert(scheduledJobs)
+      .values({
+        key: options.key ?? `${name}:${now.getTime()}`,
+        name,
+        kind: "once",
+        description: options.description ?? this.handlers.get(name)?.description ?? null,
+        payload,
+        runAt,
+        maxAttempts: options.maxAttempts ?? 3,
+      })
+      .onConflictDoUpdate({
+        target: scheduledJobs.key,
+        set: { payload, runAt, status: "scheduled", attempts: 0, lastError: null, updatedAt: now },
+        setWhere: and(eq(scheduledJobs.kind, "once"), ne(scheduledJobs.status, "running")),
+      })
+      .returning();
+    return row ?? null;
+  }
+
+  /** Cancel a pending one-off job. Returns false when there was nothing to cancel. */
+  async cancel(key: string): Promise<boolean> {
+    const rows = await db.update(scheduledJobs)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.key, key), eq(scheduledJobs.kind, "once"), eq(scheduledJobs.status, "scheduled")))
+      .returning({ id: scheduledJobs.id });
+    return rows.length > 0;
+  }
+
+  /** Claim due jobs (and jobs abandoned by a crashed instance) and mark them running */
+  private async claimDue(limit: number, now: Date): Promise<ScheduledJob[]> {
+    const due = db.select({ id: scheduledJobs.id })
+      .from(scheduledJobs)
+      .where(or(
+        and(
+          eq(scheduledJobs.status, "scheduled"),
+          eq(scheduledJobs.enabled, true),
+          lte(scheduledJobs.runAt, now),
+        ),
+        and(eq(scheduledJobs.status, "running"), lt(scheduledJobs.lockedAt, staleLockCutoff(now))),
+      ))
+      .orderBy(asc(scheduledJobs.runAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(scheduledJobs)
+      .set({ status: "running", lockedBy: this.workerId, lockedAt: now, updatedAt: now })
+      .where(inArray(scheduledJobs.id, due))
+      .returning();
+  }
+
+  /** Run a claimed job, record the run and schedule what comes next */
+  private async execute(job: ScheduledJob, trigger: JobTrigger, triggeredBy?: number): Promise<JobRun> {
+    const startedAt = new Date();
+    const [run] = await db.insert(jobRuns).values({
+      jobId: job.id,
+      jobName: job.name,
+      trigger,
+      triggeredBy: triggeredBy ?? null,
+      workerId: this.workerId,
+      startedAt,
+    }).returning();
+
+    let result: Record<string, unknown> | null = null;
+    let error: string | null = null;
+    const registered = this.handlers.get(job.name);
+    if (!registered) {
+      error = `No handler registered for job: ${job.name}`;
+    } else {
+      try {
+        result = (await registered.handler((job.payload as Record<string, any>) || {}, { job, trigger })) || null;
+      } catch (err: any) {
+        error = err?.message || String(err);
+      }
+    }
+
+    const finishedAt = new Date();
+    const next = stateAfterRun({
+      kind: job.kind,
+      intervalSeconds: job.intervalSeconds,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      success: error === null,
+      startedAt,
+      finishedAt,
+    });
+
+    // A manual run of a recurring job does not move its regular slot forward
+    const keepSlot = trigger === "manual" && job.kind === "recurring" && job.runAt > finishedAt;
+    await db.update(scheduledJobs)
+      .set({
+        status: next.status,
+        runAt: keepSlot ? job.runAt : next.runAt,
+        attempts: next.attempts,
+        lastRunAt: startedAt,
+        lastError: error,
+        lockedBy: null,
+        lockedAt: null,
+        updatedAt: finishedAt,
+      })
+      .where(eq(scheduledJobs.id, job.id));
+
+    const [finished] = await db.update(jobRuns)
+      .set({
+        status: error === null ? "succeeded" : "failed",
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        result,
+        error,
+      })
+      .where(eq(jobRuns.id, run.id))
+      .returning();
+
+    if (error !== null) {
+      console.error(`[Jobs] ${job.key} failed:`, error);
+    }
+    return finished;
+  }
+
+  /**
+   * Run everything that is due. Overlapping calls in the same process return
+   * immediately; other instances are kept apart by row locks.
+   */
+  async tick(limit: number = 10): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+    try {
+      const jobs = await this.claimDue(limit, new Date());
+      for (const job of jobs) {
+        await this.execute(job, "schedule");
+      }
+      return jobs.length;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /** Run a job now (admin "Run now"), regardless of its schedule or pause state */
+  async trigger(id: number, userId?: number): Promise<JobRun> {
+    const now = new Date();
+    const [job] = await db.update(scheduledJobs)
+      .set({ status: "running", lockedBy: this.workerId, lockedAt: now, updatedAt: now })
+      .where(and(eq(scheduledJobs.id, id), ne(scheduledJobs.status, "running")))
+      .returning();
+
+    if (!job) {
+      const [existing] = await db.select({ id: scheduledJobs.id }).from(scheduledJobs).where(eq(scheduledJobs.id, id));
+      if (!existing) throw new Error("Job not found");
+      throw new Error("Job is already running");
+    }
+    return await this.execute(job, "manual", userId);
+  }
+
+  /** Pause or resume a job */
+  async setEnabled(id: number, enabled: boolean): Promise<ScheduledJob> {
+    const [job] = await db.update(scheduledJobs)
+      .set({ enabled, updatedAt: new Date() })
+      .where(eq(scheduledJobs.id, id))
+      .returning();
+    if (!job) throw new Error("Job not found");
+    return job;
+  }
+
+  async list(opts: { kind?: ScheduledJob["kind"]; status?: ScheduledJob["status"]; limit?: number } = {}): Promise<ScheduledJob[]> {
+    return await db.select()
+      .from(scheduledJobs)
+      .where(and(
+        opts.kind ? eq(scheduledJobs.kind, opts.kind) : undefined,
+        opts.status ? eq(scheduledJobs.status, opts.status) : undefined,
+      ))
+      .orderBy(asc(scheduledJobs.kind), asc(scheduledJobs.runAt))
+      .limit(opts.limit ?? 100);
+  }
+
+  async listRuns(opts: { jobId?: number; limit?: number } = {}): Promise<JobRun[]> {
+    return await db.select()
+      .from(jobRuns)
+      .where(opts.jobId ? eq(jobRuns.jobId, opts.jobId) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(opts.limit ?? 50);
+  }
+
+  /** Delete run history older than the retention window. Returns rows removed. */
+  async pruneRuns(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const deleted = await db.delete(jobRuns)
+      .where(lt(jobRuns.startedAt, cutoff))
+      .returning({ id: jobRuns.id });
+    return deleted.length;
+  }
+}
+
+export const jobScheduler = new JobSchedulerService();
@@ -10,6 +10,7 @@ import { storage } from "../storage";
 import { bookingService } from "./booking.service";
 import { contractService } from "./contract.service";
 import { emitDomainEvent } from "./event-bus";
+import { organizationService } from "./organization.service";
 import { agentSessions } from "@shared/schema";
 import {
   type NegotiationSnapshot,
@@ -124,9 +125,9 @@ export class NegotiationService {
   ): Promise<"artist" | "organizer"> {
     const details = await storage.getBookingWithDetails(bookingId);
     if (!details) throw new Error("Booking not found");
-    if (details.artist?.userId === userId) return "artist";
-    if (details.organizer?.userId === userId) return "organizer";
-    if (details.venue?.userId === userId) return "organizer";
+    // Owners and managers of a party's organization negotiate for it too
+    const [side] = await organizationService.bookingSides(userId, details);
+    if (side) return side;
     throw new Error("User is not a participant in this negotiation");
   }
 
@@ -373,18 +374,19 @@ export class NegotiationService {
             },
           })
           .where(eq(bookings.id, bookingId));
-      });
 
-      // Notify other party about new proposal
-      const editEvent = await storage.getBookingWithDetails(bookingId);
-      emitDomainEvent("negotiation.proposal_received", {
-        bookingId,
-        entityType: "booking",
-        entityId: bookingId,
-        eventTitle: editEvent?.event?.title || "Event",
-        actorName: editEvent?.artist?.name || editEvent?.organizer?.name || "Participant",
-        actionUrl: `/bookings?bookingId=${bookingId}`,
-      }, userId);
+        // Notify other party about new proposal
+        const editEvent = await storage.getBookingWithDetails(bookingId);
+        await emitDomainEvent("negotiation.proposal_received", {
+          bookingId,
+          entityType: "booking",
+          entityId: bookingId,
+          eventTitle: editEvent?.event?.title || "Event",
+          actorName: editEvent?.artist?.name || editEvent?.organizer?.name || "Participant",
+          actionUrl: `/bookings?bookingId=${bookingId}`,
+        }, userId, tx);
+      });
+      await bookingService.scheduleFlowExpiry(bookingId, newDeadline);
 
       return this.getSummary(bookingId);
     }
@@ -476,6 +478,16 @@ export class NegotiationService {
             },
           })
           .where(eq(bookings.id, bookingId));
+
+        // Notify both parties about acceptance
+        await emitDomainEvent("negotiation.accepted", {
+          bookingId,
+          entityType: "booking",
+          entityId: bookingId,
+          eventTitle: details?.event?.title || "Event",
+          actorName: details?.artist?.name || details?.organizer?.name || "Participant",
+          actionUrl: `/bookings?bookingId=${bookingId}`,
+        }, userId, tx);
       });
 
       // Contract generation — AFTER transaction commits
@@ -501,21 +513,11 @@ export class NegotiationService {
         );
       }
 
-      // Notify both parties about acceptance
-      const acceptEvent = await storage.getBookingWithDetails(bookingId);
-      emitDomainEvent("negotiation.accepted", {
-        bookingId,
-        entityType: "booking",
-        entityId: bookingId,
-        eventTitle: acceptEvent?.event?.title || "Event",
-        actorName: acceptEvent?.artist?.name || acceptEvent?.organizer?.name || "Participant",
-        actionUrl: `/bookings?bookingId=${bookingId}`,
-      }, userId);
-
       // Also emit contract generated if it was created
       const genContract = await storage.getContractByBookingId(bookingId);
       if (genContract) {
-        emitDomainEvent("contract.generated", {
+        const acceptEvent = await storage.getBookingWithDetails(bookingId);
+        await emitDomainEvent("contract.generated", {
           bookingId,
           contractId: genContract.id,
           entityType: "contract",
@@ -624,19 +626,19 @@ export class NegotiationService {
             },
           })
           .where(eq(bookings.id, bookingId));
-      });
 
-      // Notify both parties about walkaway
-      const walkEvent = await storage.getBookingWithDetails(bookingId);
-      emitDomainEvent("negotiation.declined", {
-        bookingId,
-        entityType: "booking",
-        entityId: bookingId,
-        eventTitle: walkEvent?.event?.title || "Event",
-        actorName: walkEvent?.artist?.name || walkEvent?.organizer?.name || "Participant",
-        reason: payload.note || "Party walked away",
-        actionUrl: `/bookings?bookingId=${bookingId}`,
-      }, userId);
+        // Notify both parties about walkaway
+        const walkEvent = await storage.getBookingWithDetails(bookingId);
+        await emitDomainEvent("negotiation.declined", {
+          bookingId,
+          entityType: "booking",
+          entityId: bookingId,
+          eventTitle: walkEvent?.event?.title || "Event",
+          actorName: walkEvent?.artist?.name || walkEvent?.organizer?.name || "Participant",
+          reason: payload.note || "Party walked away",
+          actionUrl: `/bookings?bookingId=${bookingId}`,
+        }, userId, tx);
+      });
 
       // Record walkaway outcome for self-learning
       try {
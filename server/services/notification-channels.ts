@@ -0,0 +1,116 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+/**
+ * Notification channel adapters
+ *
+ * External channels (email, sms, push) are delivered through adapters so the
+ * provider can change without touching NotificationService or the delivery
+ * queue. A channel with no registered adapter is skipped when notifications
+ * are fanned out.
+ */
+
+export type ExternalChannel = "email" | "sms" | "push";
+
+export interface ChannelMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface ChannelSendResult {
+  success: boolean;
+  providerMessageId?: string;
+  error?: string;
+  /** The provider rejected the message outright; retrying will not help */
+  permanent?: boolean;
+}
+
+export interface NotificationChannelAdapter {
+  readonly channel: ExternalChannel;
+  readonly name: string;
+  send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * SMTP settings from the environment. The defaults point at a local SMTP
+ * sink (Mailpit / MailHog listen on localhost:1025 without auth), so email
+ * works out of the box in development.
+ */
+export function smtpOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpOptions {
+  return {
+    host: env.SMTP_HOST || "localhost",
+    port: parseInt(env.SMTP_PORT || "1025", 10),
+    secure: env.SMTP_SECURE === "true",
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || "BANDWIDTH <notifications@bandwidth.local>",
+  };
+}
+
+/** Public origin used for links in emails (there is no request to derive it from) */
+export function appBaseUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return env.APP_BASE_URL || `http://localhost:${env.PORT || "5000"}`;
+}
+
+export class SmtpEmailAdapter implements NotificationChannelAdapter {
+  readonly channel = "email" as const;
+  readonly name = "smtp";
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly options: SmtpOptions = smtpOptionsFromEnv()) {}
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: this.options.host,
+        port: this.options.port,
+        secure: this.options.secure,
+        auth: this.options.user ? { user: this.options.user, pass: this.options.pass } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: this.options.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      return { success: true, providerMessageId: info.messageId };
+    } catch (err: any) {
+      // 5xx SMTP replies (unknown mailbox, rejected content) are permanent
+      const code = typeof err?.responseCode === "number" ? err.responseCode : null;
+      return {
+        success: false,
+        error: err?.message || "SMTP delivery failed",
+        permanent: code !== null && code >= 500,
+      };
+    }
+  }
+}
+
+const adapters = new Map<ExternalChannel, NotificationChannelAdapter>();
+
+export function registerChannelAdapter(adapter: NotificationChannelAdapter): void {
+  adapters.set(adapter.channel, adapter);
+}
+
+export function getChannelAdapter(channel: string): NotificationChannelAdapter | undefined {
+  return adapters.get(channel as ExternalChannel);
+}
+
+registerChannelAdapter(new SmtpEmailAdapter());
@@ -0,0 +1,178 @@
+import { db } from "../db";
+import { notificationDeliveries, notifications } from "../../shared/schema";
+import type { NotificationDelivery } from "../../shared/schema";
+import { and, asc, desc, eq, inArray, lte, or, lt } from "drizzle-orm";
+import { getChannelAdapter, type ChannelSendResult, type ExternalChannel } from "./notification-channels";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  STALE_LOCK_MS,
+  nextAttemptAfterFailure,
+  type RenderedMessage,
+} from "../notification-delivery-utils";
+
+export interface EnqueueDeliveryInput {
+  notificationId: number;
+  channel: ExternalChannel;
+  recipient: string;
+  message: RenderedMessage;
+  maxAttempts?: number;
+  /** Hold the first attempt until this time (e.g. end of quiet hours) */
+  notBefore?: Date;
+  /** Further notifications this delivery covers (digests) */
+  relatedNotificationIds?: number[];
+}
+
+export interface DeliveryRunResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+type DeliveryStatus = NotificationDelivery["status"];
+
+/**
+ * Notification Delivery Service
+ *
+ * Persistent outbound queue for external channels. Rows are claimed with
+ * FOR UPDATE SKIP LOCKED so several workers can drain the queue, sent via
+ * the channel adapter, and retried with exponential backoff. On success the
+ * parent notification is marked delivered.
+ */
+export class NotificationDeliveryService {
+  private running = false;
+
+  async enqueue(input: EnqueueDeliveryInput): Promise<NotificationDelivery> {
+    const [row] = await db.insert(notificationDeliveries).values({
+      notificationId: input.notificationId,
+      channel: input.channel,
+      recipient: input.recipient,
+      message: input.message,
+      relatedNotificationIds: input.relatedNotificationIds ?? [],
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      ...(input.notBefore ? { nextAttemptAt: input.notBefore } : {}),
+    }).returning();
+    return row;
+  }
+
+  /** Claim due rows (and rows abandoned mid-send) and mark them sending */
+  private async claimDue(limit: number, now: Date): Promise<NotificationDelivery[]> {
+    const due = db.select({ id: notificationDeliveries.id })
+      .from(notificationDeliveries)
+      .where(or(
+        and(eq(notificationDeliveries.status, "pending"), lte(notificationDeliveries.nextAttemptAt, now)),
+        and(
+          eq(notificationDeliveries.status, "sending"),
+          lt(notificationDeliveries.lockedAt, new Date(now.getTime() - STALE_LOCK_MS)),
+        ),
+      ))
+      .orderBy(asc(notificationDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(notificationDeliveries)
+      .set({ status: "sending", lockedAt: now, updatedAt: now })
+      .where(inArray(notificationDeliveries.id, due))
+      .returning();
+  }
+
+  private async attempt(row: NotificationDelivery): Promise<DeliveryStatus> {
+    const adapter = getChannelAdapter(row.channel);
+    let result: ChannelSendResult;
+    if (!adapter) {
+      result = { success: false, error: `No adapter registered for channel: ${row.channel}` };
+    } else {
+      try {
+        result = await adapter.send({ ...(row.message as RenderedMessage), to: row.recipient });
+      } catch (err: any) {
+        result = { success: false, error: err?.message || "Delivery failed" };
+      }
+    }
+
+    const attempts = row.attempts + 1;
+    const now = new Date();
+
+    if (result.success) {
+      await db.update(notificationDeliveries)
+        .set({
+          status: "delivered",
+          attempts,
+          providerMessageId: result.providerMessageId ?? null,
+          lastError: null,
+          lockedAt: null,
+          deliveredAt: now,
+          updatedAt: now,
+        })
+        .where(eq(notificationDeliveries.id, row.id));
+      const notificationIds = [row.notificationId, ...((row.relatedNotificationIds as number[]) || [])];
+      await db.update(notifications)
+        .set({ delivered: true, deliveredAt: now })
+        .where(inArray(notifications.id, notificationIds));
+      return "delivered";
+    }
+
+    const nextAttemptAt = nextAttemptAfterFailure(attempts, row.maxAttempts, !!result.permanent, now);
+    await db.update(notificationDeliveries)
+      .set({
+        status: nextAttemptAt ? "pending" : "failed",
+        attempts,
+        lastError: result.error ?? null,
+        nextAttemptAt: nextAttemptAt ?? row.nextAttemptAt,
+        lockedAt: null,
+        updatedAt: now,
+      })
+      .where(eq(notificationDeliveries.id, row.id));
+    return nextAttemptAt ? "pending" : "failed";
+  }
+
+  /**
+   * Send everything that is due. Overlapping calls in the same process
+   * return immediately; other processes are kept apart by row locks.
+   */
+  async processDue(limit: number = 25): Promise<DeliveryRunResult> {
+    const result: DeliveryRunResult = { delivered: 0, retrying: 0, failed: 0 };
+    if (this.running) return result;
+    this.running = true;
+
+    try {
+      const rows = await this.claimDue(limit, new Date());
+      for (const row of rows) {
+        const status = await this.attempt(row);
+        if (status === "delivered") result.delivered++;
+        else if (status === "failed") result.failed++;
+        else result.retrying++;
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async list(opts: { status?: DeliveryStatus; limit?: number } = {}): Promise<NotificationDelivery[]> {
+    return await db.select()
+      .from(notificationDeliveries)
+      .where(opts.status ? eq(notificationDeliveries.status, opts.status) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(opts.limit ?? 50);
+  }
+
+  /** Put a failed delivery back in the queue for one more attempt */
+  async retry(id: number): Promise<NotificationDelivery> {
+    const [row] = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, id));
+    if (!row) throw new Error("Delivery not found");
+    if (row.status !== "failed") throw new Error("Only failed deliveries can be retried");
+
+    const now = new Date();
+    const [updated] = await db.update(notificationDeliveries)
+      .set({
+        status: "pending",
+        nextAttemptAt: now,
+        maxAttempts: Math.max(row.maxAttempts, row.attempts + 1),
+        updatedAt: now,
+      })
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+}
+
+export const notificationDeliveryService = new NotificationDeliveryService();
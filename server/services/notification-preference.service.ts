@@ -0,0 +1,234 @@
+import { db } from "../db";
+import { notificationPreferences, notificationSettings, notifications, users } from "../../shared/schema";
+import type { NotificationPreference, NotificationSettings, User } from "../../shared/schema";
+import { and, asc, eq, inArray, isNull, ne, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationDeliveryService } from "./notification-delivery.service";
+import { appBaseUrl } from "./notification-channels";
+import { renderDigestEmail } from "../notification-delivery-utils";
+import { isDigestDue, resolveChannels, type DigestFrequency } from "../notification-preference-utils";
+
+export interface NotificationSettingsInput {
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestFrequency: DigestFrequency;
+  digestHour: number;
+}
+
+export interface PreferenceUpdate {
+  notificationTypeKey: string;
+  channel: "in_app" | "email" | "sms" | "push";
+  enabled: boolean;
+}
+
+export interface PreferenceTypeView {
+  key: string;
+  label: string;
+  category: string;
+  description: string | null;
+  priority: string;
+  defaultChannels: string[];
+  channels: Record<string, boolean>;
+}
+
+export interface NotificationPreferencesView {
+  timezone: string;
+  settings: NotificationSettingsInput;
+  availableChannels: string[];
+  types: PreferenceTypeView[];
+}
+
+const DEFAULT_SETTINGS: NotificationSettingsInput = {
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  digestFrequency: "off",
+  digestHour: 9,
+};
+
+const ROLE_ALIASES: Record<string, string[]> = {
+  organizer: ["organizer", "promoter"],
+  promoter: ["organizer", "promoter"],
+  venue_manager: ["venue_manager", "venue"],
+  venue: ["venue_manager", "venue"],
+  platform_admin: ["platform_admin", "admin"],
+  admin: ["platform_admin", "admin"],
+};
+
+/** Whether a notification type can reach a user of this role (no target roles = everyone) */
+export function typeAppliesToRole(targetRoles: string[], role: string): boolean {
+  if (targetRoles.length === 0 || targetRoles.includes("all")) return true;
+  const roles = ROLE_ALIASES[role] || [role];
+  return targetRoles.some((r) => roles.includes(r));
+}
+
+function settingsView(row: NotificationSettings | null | undefined): NotificationSettingsInput {
+  if (!row) return { ...DEFAULT_SETTINGS };
+  return {
+    quietHoursStart: row.quietHoursStart,
+    quietHoursEnd: row.quietHoursEnd,
+    digestFrequency: row.digestFrequency,
+    digestHour: row.digestHour,
+  };
+}
+
+/**
+ * Notification Preference Service
+ *
+ * Stores per-user channel choices for each notification type, quiet hours
+ * and digest mode, and sends the daily/weekly digest emails.
+ */
+export class NotificationPreferenceService {
+  async getSettings(userId: number): Promise<NotificationSettings | null> {
+    const [row] = await db.select().from(notificationSettings).where(eq(notificationSettings.userId, userId));
+    return row ?? null;
+  }
+
+  async getPreferencesForType(userId: number, notificationTypeKey: string): Promise<NotificationPreference[]> {
+    return await db.select().from(notificationPreferences).where(and(
+      eq(notificationPreferences.userId, userId),
+      eq(notificationPreferences.notificationTypeKey, notificationTypeKey),
+    ));
+  }
+
+  /** Settings page model: every enabled type that applies to the user's role, with effective channels */
+  async getForUser(user: User, role: string, availableChannels: string[]): Promise<NotificationPreferencesView> {
+    const [types, prefs, settings] = await Promise.all([
+      storage.getNotificationTypes(),
+      db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, user.id)),
+      this.getSettings(user.id),
+    ]);
+
+    const visible = types.filter((t) => t.enabled && typeAppliesToRole((t.targetRoles as string[]) || [], role));
+
+    return {
+      timezone: user.timezone || "Asia/Kolkata",
+      settings: settingsView(settings),
+      availableChannels,
+      types: visible.map((t) => {
+        const defaults = (t.channels as string[]) || ["in_app"];
+        const enabled = resolveChannels(defaults, prefs.filter((p) => p.notificationTypeKey === t.key), availableChannels);
+        return {
+          key: t.key,
+          label: t.label,
+          category: t.category,
+          description: t.description,
+          priority: t.priority,
+          defaultChannels: defaults,
+          channels: Object.fromEntries(availableChannels.map((ch) => [ch, enabled.includes(ch)])),
+        };
+      }),
+    };
+  }
+
+  async update(
+    userId: number,
+    input: { settings?: NotificationSettingsInput; preferences?: PreferenceUpdate[] },
+  ): Promise<void> {
+    const now = new Date();
+
+    if (input.preferences?.length) {
+      const knownKeys = new Set((await storage.getNotificationTypes()).map((t) => t.key));
+      for (const pref of input.preferences) {
+        if (!knownKeys.has(pref.notificationTypeKey)) {
+          throw new Error(`Unknown notification type: ${pref.notificationTypeKey}`);
+        }
+      }
+
+      await db.insert(notificationPreferences)
+        .values(input.preferences.map((p) => ({ userId, ...p, updatedAt: now })))
+        .onConflictDoUpdate({
+          target: [notificationPreferences.userId, notificationPreferences.notificationTypeKey, notificationPreferences.channel],
+          set: { enabled: sql`excluded.enabled`, updatedAt: now },
+        });
+    }
+
+    if (input.settings) {
+      const previous = await this.getSettings(userId);
+      await db.insert(notificationSettings)
+        .values({ userId, ...input.settings, updatedAt: now })
+        .onConflictDoUpdate({
+          target: notificationSettings.userId,
+          set: { ...input.settings, updatedAt: now },
+        });
+
+      // Turning the digest off: send whatever was being held so nothing is lost
+      if (previous && previous.digestFrequency !== "off" && input.settings.digestFrequency === "off") {
+        const user = await storage.getUser(userId);
+        if (user) await this.sendDigest(user, previous.digestFrequency, now);
+      }
+    }
+  }
+
+  /**
+   * Queue one digest email with the user's held notifications.
+   * Returns false when there was nothing to send.
+   */
+  private async sendDigest(user: User, frequency: "daily" | "weekly", now: Date): Promise<boolean> {
+    const held = await db.select().from(notifications)
+      .where(and(
+        eq(notifications.userId, user.id),
+        eq(notifications.digest, true),
+        isNull(notifications.digestedAt),
+      ))
+      .orderBy(asc(notifications.createdAt));
+
+    await db.update(notificationSettings)
+      .set({ lastDigestAt: now })
+      .where(eq(notificationSettings.userId, user.id));
+    if (held.length === 0 || !user.email) return false;
+
+    const [first, ...rest] = held;
+    await notificationDeliveryService.enqueue({
+      notificationId: first.id,
+      relatedNotificationIds: rest.map((n) => n.id),
+      channel: "email",
+      recipient: user.email,
+      message: renderDigestEmail({
+        items: held,
+        frequency,
+        baseUrl: appBaseUrl(),
+        recipientName: user.displayName,
+      }),
+    });
+    await db.update(notifications)
+      .set({ digestedAt: now })
+      .where(inArray(notifications.id, held.map((n) => n.id)));
+    return true;
+  }
+
+  /** Send digests for every user whose daily/weekly slot has arrived. Returns the number queued. */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const rows = await db.select({ settings: notificationSettings, user: users })
+      .from(notificationSettings)
+      .innerJoin(users, eq(users.id, notificationSettings.userId))
+      .where(ne(notificationSettings.digestFrequency, "off"));
+
+    let sent = 0;
+    for (const { settings, user } of rows) {
+      if (settings.digestFrequency === "off") continue;
+      const due = isDigestDue({
+        now,
+        timeZone: user.timezone,
+        frequency: settings.digestFrequency,
+        digestHour: settings.digestHour,
+        lastDigestAt: settings.lastDigestAt,
+      });
+      if (!due) continue;
+
+      try {
+        if (await this.sendDigest(user, settings.digestFrequency, now)) sent++;
+      } catch (err) {
+        console.error(`[NotificationPreferences] Digest failed for user ${user.id}:`, err);
+      }
+    }
+
+    if (sent > 0) {
+      notificationDeliveryService.processDue().catch((err) => {
+        console.error("[NotificationPreferences] Delivery run failed:", err);
+      });
+    }
+    return sent;
+  }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
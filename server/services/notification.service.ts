@@ -2,16 +2,44 @@
  * Notification Service — core engine for routing domain events to user notifications.
  *
  * Lifecycle:
- *   1. init() — loads notification type definitions into memory cache, subscribes to event bus
- *   2. handleEvent() — looks up type by key, resolves target users, renders templates, persists + pushes
+ *   1. init() — loads notification type definitions into memory cache, registers as the
+ *      "notifications" consumer of the domain event outbox
+ *   2. handleEvent() — looks up type by key, resolves target users, renders templates, applies each
+ *      user's channel preferences, quiet hours and digest mode, then persists + pushes.
+ *      Idempotent: notifications carry the event id, so a redelivered event only
+ *      creates the ones still missing. Throws if any recipient failed so the relay retries.
+ *      in_app: stored delivered and pushed over WebSocket
+ *      email (and any channel with a registered adapter): stored undelivered and
+ *      queued in notification_deliveries; the delivery worker marks it delivered
  *   3. refreshTypeCache() — called after admin updates notification types
  */
 
-import { eventBus, type DomainEvent } from "./event-bus";
+import type { DomainEvent } from "./event-bus";
+import { outboxRelay } from "./outbox-relay.service";
 import { storage } from "../storage";
 import { broadcastToUser } from "../ws-server";
 import { resolveTargetUsers } from "./notification-resolvers";
-import type { NotificationType } from "@shared/schema";
+import { appBaseUrl, getChannelAdapter } from "./notification-channels";
+import { notificationDeliveryService } from "./notification-delivery.service";
+import { notificationPreferenceService } from "./notification-preference.service";
+import { interpolateTemplate, renderNotificationEmail } from "../notification-delivery-utils";
+import {
+  isWithinQuietHours,
+  planDelivery,
+  resolveChannels,
+  type ChannelPreference,
+  type DeliveryTiming,
+  type DigestFrequency,
+  type QuietHours,
+} from "../notification-preference-utils";
+import { notificationChannelEnum, type NotificationType, type User } from "@shared/schema";
+
+interface Recipient {
+  user: User;
+  preferences: ChannelPreference[];
+  quietHours: QuietHours;
+  digestFrequency: DigestFrequency;
+}
 
 class NotificationService {
   private typeCache = new Map<string, NotificationType>();
@@ -21,11 +49,9 @@ class NotificationService {
     await this.refreshTypeCache();
     await this.refreshChannelCache();
 
-    eventBus.on("*", (event: DomainEvent) => {
-      this.handleEvent(event).catch((err) => {
-        console.error(`[NotificationService] Error handling ${event.type}:`, err);
-      });
-    });
+    outboxRelay.registerConsumer("notifications", (event) => this.handleEvent(event));
+    // Deliver anything recorded while the server was down
+    outboxRelay.kick(0);
 
     console.log(`[NotificationService] Initialized with ${this.typeCache.size} notification types`);
   }
@@ -42,6 +68,28 @@ class NotificationService {
     channels.forEach((c) => this.channelEnabledCache.set(c.channel!, c.enabled));
   }
 
+  /** Channels that are switched on globally and have a way to be delivered */
+  availableChannels(): string[] {
+    return notificationChannelEnum.enumValues.filter(
+      (ch) => this.channelEnabledCache.get(ch) !== false && (ch === "in_app" || !!getChannelAdapter(ch))
+    );
+  }
+
+  private async loadRecipient(userId: number, typeKey: string): Promise<Recipient | null> {
+    const [user, preferences, settings] = await Promise.all([
+      storage.getUser(userId),
+      notificationPreferenceService.getPreferencesForType(userId, typeKey),
+      notificationPreferenceService.getSettings(userId),
+    ]);
+    if (!user) return null;
+    return {
+      user,
+      preferences,
+      quietHours: { start: settings?.quietHoursStart ?? null, end: settings?.quietHoursEnd ?? null },
+      digestFrequency: settings?.digestFrequency ?? "off",
+    };
+  }
+
   private async handleEvent(event: DomainEvent): Promise<void> {
     const typeDef = this.typeCache.get(event.type);
     if (!typeDef || !typeDef.enabled) return;
@@ -51,18 +99,43 @@ class NotificationService {
     if (targetUserIds.length === 0) return;
 
     // Render templates
-    const title = this.interpolate(typeDef.titleTemplate, event.payload);
-    const body = this.interpolate(typeDef.bodyTemplate, event.payload);
-
-    const activeChannels = ((typeDef.channels as string[]) || ["in_app"]).filter(
-      (ch) => this.channelEnabledCache.get(ch) !== false
+    const title = interpolateTemplate(typeDef.titleTemplate, event.payload);
+    const body = interpolateTemplate(typeDef.bodyTemplate, event.payload);
+
+    // Each user's preferences choose from these, defaulting to the type's channels
+    const availableChannels = this.availableChannels();
+    const typeChannels = (typeDef.channels as string[]) || ["in_app"];
+    const now = new Date();
+    let queued = false;
+    let failures = 0;
+
+    // Already created on an earlier delivery of this event
+    const existing = new Set(
+      (await storage.getNotificationsBySourceEvent(event.id)).map((n) => `${n.userId}:${n.channel}`)
     );
 
     for (const userId of targetUserIds) {
       // Don't notify the actor who triggered the event
       if (userId === event.actorUserId) continue;
 
-      for (const channel of activeChannels) {
+      let recipient: Recipient | null;
+      try {
+        recipient = await this.loadRecipient(userId, event.type);
+      } catch (err) {
+        console.error(`[NotificationService] Failed to load preferences for user ${userId}:`, err);
+        failures++;
+        continue;
+      }
+      if (!recipient) continue;
+
+      const channels = resolveChannels(typeChannels, recipient.preferences, availableChannels);
+      // Urgent notifications always interrupt; others arrive silently during quiet hours
+      const silent = typeDef.priority !== "urgent"
+        && isWithinQuietHours(now, recipient.user.timezone, recipient.quietHours);
+
+      for (const channel of channels) {
+        if (existing.has(`${userId}:${channel}`)) continue;
+
         if (channel === "in_app") {
           try {
             const notification = await storage.createNotification({
@@ -77,6 +150,7 @@ class NotificationService {
               data: event.payload,
               delivered: true,
               deliveredAt: new Date(),
+              sourceEventId: event.id,
             });
 
             // Push real-time via WebSocket
@@ -85,23 +159,88 @@ class NotificationService {
               data: {
                 ...notification,
                 priority: typeDef.priority,
+                silent,
               },
             });
           } catch (err) {
             console.error(`[NotificationService] Failed to create notification for user ${userId}:`, err);
+            failures++;
+          }
+        } else if (channel === "email") {
+          try {
+            const timing = planDelivery({
+              priority: typeDef.priority,
+              now,
+              timeZone: recipient.user.timezone,
+              quietHours: recipient.quietHours,
+              digestFrequency: recipient.digestFrequency,
+            });
+            queued = (await this.queueEmail(recipient.user, event, typeDef, title, body, timing)) || queued;
+          } catch (err) {
+            console.error(`[NotificationService] Failed to queue email for user ${userId}:`, err);
+            failures++;
           }
         }
-        // Future: email, sms, push channel handlers
       }
     }
+
+    // Send right away rather than waiting for the next worker tick
+    if (queued) {
+      notificationDeliveryService.processDue().catch((err) => {
+        console.error("[NotificationService] Delivery run failed:", err);
+      });
+    }
+
+    if (failures > 0) {
+      throw new Error(`Failed to notify ${failures} recipient channel(s) for ${event.type}`);
+    }
   }
 
-  /** Replace {{variable}} and {{nested.path}} tokens with event payload values */
-  private interpolate(template: string, data: Record<string, any>): string {
-    return template.replace(/\{\{(\w+(?:\.\w+)*)\}\}/g, (_, path: string) => {
-      const value = path.split(".").reduce((obj: any, key: string) => obj?.[key], data);
-      return value != null ? String(value) : "";
+  /**
+   * Persist an undelivered email notification and queue it, or hold it for
+   * the user's digest. Returns true when something was queued to send now.
+   */
+  private async queueEmail(
+    user: User,
+    event: DomainEvent,
+    typeDef: NotificationType,
+    title: string,
+    body: string,
+    timing: DeliveryTiming,
+  ): Promise<boolean> {
+    if (!user.email) return false;
+
+    const notification = await storage.createNotification({
+      userId: user.id,
+      notificationTypeKey: event.type,
+      channel: "email",
+      title,
+      body,
+      entityType: event.payload.entityType || null,
+      entityId: event.payload.entityId || null,
+      actionUrl: event.payload.actionUrl || null,
+      data: event.payload,
+      delivered: false,
+      digest: timing.mode === "digest",
+      sourceEventId: event.id,
+    });
+    if (timing.mode === "digest") return false;
+
+    await notificationDeliveryService.enqueue({
+      notificationId: notification.id,
+      channel: "email",
+      recipient: user.email,
+      notBefore: timing.mode === "deferred" ? timing.notBefore : undefined,
+      message: renderNotificationEmail({
+        title,
+        body,
+        actionUrl: notification.actionUrl,
+        baseUrl: appBaseUrl(),
+        recipientName: user.displayName,
+        priority: typeDef.priority,
+      }),
     });
+    return timing.mode === "now";
   }
 }
 
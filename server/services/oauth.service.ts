@@ -0,0 +1,152 @@
+import { db } from "../db";
+import { auditLogs, authProviders, users } from "../../shared/schema";
+import type { AuthProvider } from "../../shared/schema";
+import { and, count, eq, sql } from "drizzle-orm";
+import { normalizeEmail } from "../organization-utils";
+import {
+  decideOAuthSignIn,
+  oauthLinkError,
+  unlinkError,
+  type ExternalIdentity,
+  type OAuthState,
+} from "../oauth-utils";
+import { getIdentityProvider, type IdentityProvider } from "./identity-providers";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Sign-in or link in progress at an external identity provider */
+    oauth?: OAuthState;
+  }
+}
+
+export interface LinkedAccount {
+  id: number;
+  provider: string;
+  label: string;
+  email: string | null;
+  name: string | null;
+  createdAt: Date | null;
+  lastUsedAt: Date | null;
+}
+
+function identityData(identity: ExternalIdentity) {
+  return { email: identity.email, emailVerified: identity.emailVerified, name: identity.name, picture: identity.picture };
+}
+
+/**
+ * Links external identities (authProviders rows) to users. The OIDC
+ * protocol lives in the identity providers; this service decides which
+ * account an identity belongs to.
+ */
+export class OAuthService {
+  private async audit(who: number, action: string, context?: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType: "user", entityId: who, context });
+  }
+
+  private async linkFor(provider: string, subject: string): Promise<AuthProvider | undefined> {
+    const [row] = await db.select().from(authProviders)
+      .where(and(eq(authProviders.provider, provider), eq(authProviders.providerUserId, subject)));
+    return row;
+  }
+
+  private async touch(linkId: number, identity: ExternalIdentity) {
+    await db.update(authProviders)
+      .set({ data: identityData(identity), lastUsedAt: new Date() })
+      .where(eq(authProviders.id, linkId));
+  }
+
+  /**
+   * The user an identity signs in as. Unlinked identities are linked to the
+   * active account with the same email only when the provider and the
+   * account have both verified it.
+   */
+  async signIn(provider: IdentityProvider, identity: ExternalIdentity): Promise<number> {
+    const link = await this.linkFor(provider.name, identity.subject);
+    let linkedUser: { id: number; status: string | null } | undefined;
+    if (link?.userId) {
+      [linkedUser] = await db.select({ id: users.id, status: users.status }).from(users).where(eq(users.id, link.userId));
+    }
+    let emailUser: { id: number; emailVerifiedAt: Date | null; status: string | null } | undefined;
+    if (!link && identity.email) {
+      [emailUser] = await db.select({ id: users.id, emailVerifiedAt: users.emailVerifiedAt, status: users.status }).from(users)
+        .where(sql`lower(${users.email}) = ${normalizeEmail(identity.email)}`);
+    }
+
+    const decision = decideOAuthSignIn(
+      identity,
+      provider.label,
+      linkedUser ?? null,
+      emailUser ? { id: emailUser.id, emailVerified: !!emailUser.emailVerifiedAt, status: emailUser.status } : null,
+    );
+    if (decision.action === "reject") throw new Error(decision.reason);
+
+    if (decision.action === "sign_in") {
+      await this.touch(link!.id, identity);
+      return decision.userId;
+    }
+
+    await db.insert(authProviders).values({
+      userId: decision.userId,
+      provider: provider.name,
+      providerUserId: identity.subject,
+      data: identityData(identity),
+      lastUsedAt: new Date(),
+    });
+    await this.audit(decision.userId, "oauth_linked", { provider: provider.name, email: identity.email, matchedBy: "email" });
+    return decision.userId;
+  }
+
+  /** Links an identity to a signed-in user; linking the same one again is a no-op */
+  async link(userId: number, provider: IdentityProvider, identity: ExternalIdentity): Promise<void> {
+    const existing = await this.linkFor(provider.name, identity.subject);
+    const error = oauthLinkError(userId, existing?.userId ?? null, provider.label);
+    if (error) throw new Error(error);
+
+    if (existing) {
+      await this.touch(existing.id, identity);
+      return;
+    }
+    await db.insert(authProviders).values({
+      userId,
+      provider: provider.name,
+      providerUserId: identity.subject,
+      data: identityData(identity),
+      lastUsedAt: new Date(),
+    });
+    await this.audit(userId, "oauth_linked", { provider: provider.name, email: identity.email, matchedBy: "user" });
+  }
+
+  async listLinks(userId: number): Promise<LinkedAccount[]> {
+    const rows = await db.select().from(authProviders)
+      .where(eq(authProviders.userId, userId))
+      .orderBy(authProviders.createdAt);
+    return rows.map((row) => {
+      const data = (row.data || {}) as { email?: string | null; name?: string | null };
+      return {
+        id: row.id,
+        provider: row.provider,
+        label: getIdentityProvider(row.provider)?.label ?? row.provider,
+        email: data.email ?? null,
+        name: data.name ?? null,
+        createdAt: row.createdAt,
+        lastUsedAt: row.lastUsedAt,
+      };
+    });
+  }
+
+  async unlink(userId: number, linkId: number): Promise<void> {
+    const [row] = await db.select().from(authProviders)
+      .where(and(eq(authProviders.id, linkId), eq(authProviders.userId, userId)));
+    if (!row) throw new Error("Linked account not found");
+
+    const [user] = await db.select({ passwordHash: users.passwordHash }).from(users).where(eq(users.id, userId));
+    const [links] = await db.select({ n: count() }).from(authProviders).where(eq(authProviders.userId, userId));
+    const error = unlinkError(!!user?.passwordHash, Number(links?.n ?? 0));
+    if (error) throw new Error(error);
+
+    await db.delete(authProviders).where(eq(authProviders.id, row.id));
+    await this.audit(userId, "oauth_unlinked", { provider: row.provider });
+  }
+}
+
+export const oauthService = new OAuthService();
@@ -0,0 +1,545 @@
+import { db } from "../db";
+import {
+  artists, auditLogs, organizationInvites, organizationMembers, organizations, promoters, users, venues,
+} from "../../shared/schema";
+import type { Artist, Organization, OrganizationInvite, Organizer, Venue } from "../../shared/schema";
+import { and, asc, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { appBaseUrl, getChannelAdapter } from "./notification-channels";
+import { renderNotificationEmail } from "../notification-delivery-utils";
+import {
+  bookingSides,
+  canInviteRole,
+  generateInviteToken,
+  hasOrganizationRole,
+  hashInviteToken,
+  inviteAcceptError,
+  inviteExpiry,
+  inviteState,
+  lastOwnerError,
+  normalizeEmail,
+  organizationSlug,
+  partiesHaveOrganization,
+  profileAccess,
+  type BookingParties,
+  type BookingSide,
+  type InviteState,
+  type OrganizationRole,
+  type ProfileAccess,
+  type ProfileType,
+} from "../organization-utils";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Profile the user has chosen to act as; unset means their own profile */
+    actingProfile?: ProfileRef;
+  }
+}
+
+export interface ProfileRef {
+  type: ProfileType;
+  id: number;
+}
+
+export interface OrganizationInput {
+  name: string;
+  description?: string | null;
+  website?: string | null;
+}
+
+export interface OrganizationProfile extends ProfileRef {
+  name: string;
+  userId: number | null;
+  organizationId: number | null;
+}
+
+export interface ActingProfile extends OrganizationProfile {
+  organizationName: string | null;
+  /** True for the user's own profile, false when acting through an organization */
+  own: boolean;
+}
+
+export interface OrganizationMemberView {
+  userId: number;
+  role: OrganizationRole;
+  joinedAt: Date | null;
+  name: string;
+  email: string;
+}
+
+export interface OrganizationInviteView {
+  id: number;
+  email: string;
+  role: OrganizationRole;
+  state: InviteState;
+  expiresAt: Date;
+  createdAt: Date | null;
+}
+
+export type OrganizationSummary = Organization & { role: OrganizationRole; memberCount: number; profileCount: number };
+
+export interface OrganizationDetails extends Organization {
+  role: OrganizationRole;
+  members: OrganizationMemberView[];
+  profiles: OrganizationProfile[];
+  /** Only listed for owners and managers */
+  invites: OrganizationInviteView[];
+}
+
+function profileTable(type: ProfileType) {
+  return type === "artist" ? artists : type === "organizer" ? promoters : venues;
+}
+
+/**
+ * Organization Service
+ *
+ * Organizations let several users share artist, venue and promoter profiles
+ * (an agency with many artists, a promoter company with several staff).
+ * Members join by email invite and hold one role: owners manage members and
+ * the organization, managers act for its profiles, viewers can only see them.
+ * Profiles are linked to an organization through their organizationId, and a
+ * member with act access may switch the profile they act as for the session.
+ */
+export class OrganizationService {
+  // ==========================================================================
+  // MEMBERSHIP
+  // ==========================================================================
+
+  /** The user's role in each of their organizations */
+  async membershipsFor(userId: number): Promise<Map<number, OrganizationRole>> {
+    const rows = await db.select({ orgId: organizationMembers.orgId, role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+    return new Map(rows.map((r) => [r.orgId, r.role]));
+  }
+
+  async roleIn(orgId: number, userId: number): Promise<OrganizationRole | null> {
+    const [row] = await db.select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)));
+    return row?.role ?? null;
+  }
+
+  /** Non-members get "not found" so organizations are not revealed to outsiders */
+  private async requireRole(orgId: number, userId: number, minimum: OrganizationRole): Promise<OrganizationRole> {
+    const role = await this.roleIn(orgId, userId);
+    if (!role) throw new Error("Organization not found");
+    if (!hasOrganizationRole(role, minimum)) {
+      throw new Error(minimum === "owner" ? "Only organization owners can do this" : "Only organization owners and managers can do this");
+    }
+    return role;
+  }
+
+  private async audit(who: number, action: string, orgId: number, context: Record<string, unknown> = {}) {
+    await db.insert(auditLogs).values({ who, action, entityType: "organization", entityId: orgId, context });
+  }
+
+  // ==========================================================================
+  // ORGANIZATIONS
+  // ==========================================================================
+
+  async listForUser(userId: number): Promise<OrganizationSummary[]> {
+    const memberCount = sql<number>`(select count(*)::int from ${organizationMembers} m where m.org_id = ${organizations.id})`;
+    const profileCount = sql<number>`(
+      (select count(*) from ${artists} where ${artists.organizationId} = ${organizations.id})
+      + (select count(*) from ${promoters} where ${promoters.organizationId} = ${organizations.id})
+      + (select count(*) from ${venues} where ${venues.organizationId} = ${organizations.id})
+    )::int`;
+
+    const rows = await db.select({ organization: organizations, role: organizationMembers.role, memberCount, profileCount })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.orgId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizations.name));
+
+    return rows.map((r) => ({ ...r.organization, role: r.role, memberCount: r.memberCount, profileCount: r.profileCount }));
+  }
+
+  /** Creates the organization with the creator as its first owner */
+  async create(userId: number, input: OrganizationInput): Promise<Organization> {
+    const name = input.name.trim();
+    const base = organizationSlug(name, () => false);
+    const existing = await db.select({ slug: organizations.slug }).from(organizations)
+      .where(sql`${organizations.slug} like ${`${base}%`}`);
+    const taken = new Set(existing.map((e) => e.slug));
+    const slug = organizationSlug(name, (candidate) => taken.has(candidate));
+
+    const created = await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({
+        name,
+        slug,
+        description: input.description ?? null,
+        website: input.website ?? null,
+        createdBy: userId,
+      }).returning();
+      await tx.insert(organizationMembers).values({ orgId: organization.id, userId, role: "owner" });
+      return organization;
+    });
+
+    await this.audit(userId, "organization_created", created.id, { name });
+    return created;
+  }
+
+  async getDetails(orgId: number, userId: number): Promise<OrganizationDetails> {
+    const role = await this.requireRole(orgId, userId, "viewer");
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, orgId));
+    if (!organization) throw new Error("Organization not found");
+
+    const [members, profiles, invites] = await Promise.all([
+      this.listMembers(orgId),
+      this.listProfiles(orgId),
+      hasOrganizationRole(role, "manager") ? this.listInvites(orgId) : Promise.resolve([]),
+    ]);
+    return { ...organization, role, members, profiles, invites };
+  }
+
+  async update(orgId: number, userId: number, input: Partial<OrganizationInput>): Promise<Organization> {
+    await this.requireRole(orgId, userId, "manager");
+    const changes: Partial<Organization> = {};
+    if (input.name !== undefined) changes.name = input.name.trim();
+    if (input.description !== undefined) changes.description = input.description;
+    if (input.website !== undefined) changes.website = input.website;
+
+    const [updated] = await db.update(organizations).set(changes).where(eq(organizations.id, orgId)).returning();
+    await this.audit(userId, "organization_updated", orgId, { changes });
+    return updated;
+  }
+
+  /** Deleting unlinks the organization's profiles; they stay with their own users */
+  async remove(orgId: number, userId: number): Promise<void> {
+    await this.requireRole(orgId, userId, "owner");
+    await db.delete(organizations).where(eq(organizations.id, orgId));
+    await this.audit(userId, "organization_deleted", orgId);
+  }
+
+  // ==========================================================================
+  // MEMBERS
+  // ==========================================================================
+
+  async listMembers(orgId: number): Promise<OrganizationMemberView[]> {
+    const rows = await db.select({
+      userId: organizationMembers.userId,
+      role: organizationMembers.role,
+      joinedAt: organizationMembers.joinedAt,
+      name: sql<string>`coalesce(${users.displayName}, ${users.username}, ${users.email})`,
+      email: users.email,
+    })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.orgId, orgId))
+      .orderBy(asc(organizationMembers.joinedAt), asc(organizationMembers.userId));
+    return rows;
+  }
+
+  async updateMemberRole(orgId: number, actorId: number, userId: number, role: OrganizationRole): Promise<void> {
+    await this.requireRole(orgId, actorId, "owner");
+    const members = await this.listMembers(orgId);
+    if (!members.some((m) => m.userId === userId)) throw new Error("Member not found");
+    const error = lastOwnerError(members, userId, role);
+    if (error) throw new Error(error);
+
+    await db.update(organizationMembers).set({ role })
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)));
+    await this.audit(actorId, "organization_member_role_changed", orgId, { userId, role });
+  }
+
+  /** Owners remove anyone; any member may leave */
+  async removeMember(orgId: number, actorId: number, userId: number): Promise<void> {
+    if (actorId !== userId) await this.requireRole(orgId, actorId, "owner");
+    const members = await this.listMembers(orgId);
+    if (!members.some((m) => m.userId === userId)) throw new Error("Member not found");
+    const error = lastOwnerError(members, userId, null);
+    if (error) throw new Error(error);
+
+    await db.delete(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)));
+    await this.audit(actorId, actorId === userId ? "organization_member_left" : "organization_member_removed", orgId, { userId });
+  }
+
+  // ==========================================================================
+  // INVITES
+  // ==========================================================================
+
+  async listInvites(orgId: number): Promise<OrganizationInviteView[]> {
+    const rows = await db.select().from(organizationInvites)
+      .where(and(eq(organizationInvites.orgId, orgId), eq(organizationInvites.status, "pending")))
+      .orderBy(asc(organizationInvites.createdAt));
+    return rows.map((invite) => this.inviteView(invite));
+  }
+
+  private inviteView(invite: OrganizationInvite): OrganizationInviteView {
+    return {
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      state: inviteState(invite),
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  /**
+   * Invites an email address, replacing any pending invite for it, and emails
+   * the link. The link is also returned so it can be shared by hand when
+   * email is not delivered.
+   */
+  async invite(
+    orgId: number,
+    actorId: number,
+    input: { email: string; role: OrganizationRole },
+  ): Promise<{ invite: OrganizationInviteView; inviteUrl: string; emailSent: boolean }> {
+    const actorRole = await this.requireRole(orgId, actorId, "manager");
+    if (!canInviteRole(actorRole, input.role)) throw new Error("Only organization owners can invite owners");
+
+    const email = normalizeEmail(input.email);
+    const [member] = await db.select({ userId: organizationMembers.userId })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(and(eq(organizationMembers.orgId, orgId), sql`lower(${users.email}) = ${email}`));
+    if (member) throw new Error("This person is already a member");
+
+    const { token, tokenHash } = generateInviteToken();
+    const created = await db.transaction(async (tx) => {
+      await tx.update(organizationInvites).set({ status: "revoked" })
+        .where(and(
+          eq(organizationInvites.orgId, orgId),
+          eq(organizationInvites.email, email),
+          eq(organizationInvites.status, "pending"),
+        ));
+      const [row] = await tx.insert(organizationInvites).values({
+        orgId,
+        email,
+        role: input.role,
+        tokenHash,
+        invitedBy: actorId,
+        expiresAt: inviteExpiry(),
+      }).returning();
+      return row;
+    });
+    await this.audit(actorId, "organization_invite_sent", orgId, { email, role: input.role });
+
+    const actionUrl = `/invites/${token}`;
+    const emailSent = await this.sendInviteEmail(orgId, actorId, email, input.role, actionUrl);
+    return {
+      invite: this.inviteView(created),
+      inviteUrl: `${appBaseUrl().replace(/\/+$/, "")}${actionUrl}`,
+      emailSent,
+    };
+  }
+
+  private async sendInviteEmail(orgId: number, actorId: number, email: string, role: OrganizationRole, actionUrl: string): Promise<boolean> {
+    const adapter = getChannelAdapter("email");
+    if (!adapter) return false;
+
+    const [organization] = await db.select({ name: organizations.name }).from(organizations).where(eq(organizations.id, orgId));
+    const [inviter] = await db.select({ name: sql<string>`coalesce(${users.displayName}, ${users.username}, ${users.email})` })
+      .from(users).where(eq(users.id, actorId));
+
+    const message = renderNotificationEmail({
+      title: `Join ${organization?.name ?? "an organization"} on BANDWIDTH`,
+      body: `${inviter?.name ?? "A teammate"} invited you to join ${organization?.name ?? "their organization"} as ${role === "owner" ? "an owner" : `a ${role}`}.\n\nSign in or create an account with this email address to accept. The invite expires in 7 days.`,
+      actionUrl,
+      baseUrl: appBaseUrl(),
+    });
+    try {
+      const result = await adapter.send({ ...message, to: email });
+      if (!result.success) console.error(`[Organizations] Invite email to ${email} failed:`, result.error);
+      return result.success;
+    } catch (err) {
+      console.error(`[Organizations] Invite email to ${email} failed:`, err);
+      return false;
+    }
+  }
+
+  async revokeInvite(orgId: number, actorId: number, inviteId: number): Promise<void> {
+    await this.requireRole(orgId, actorId, "manager");
+    const [revoked] = await db.update(organizationInvites).set({ status: "revoked" })
+      .where(and(
+        eq(organizationInvites.id, inviteId),
+        eq(organizationInvites.orgId, orgId),
+        eq(organizationInvites.status, "pending"),
+      ))
+      .returning();
+    if (!revoked) throw new Error("Invite not found");
+    await this.audit(actorId, "organization_invite_revoked", orgId, { email: revoked.email });
+  }
+
+  private async findInvite(token: string) {
+    const [row] = await db.select({ invite: organizationInvites, organizationName: organizations.name })
+      .from(organizationInvites)
+      .innerJoin(organizations, eq(organizations.id, organizationInvites.orgId))
+      .where(eq(organizationInvites.tokenHash, hashInviteToken(token)));
+    if (!row) throw new Error("Invite not found");
+    return row;
+  }
+
+  /** What the invite page shows before the user accepts */
+  async previewInvite(token: string): Promise<{ organizationName: string; email: string; role: OrganizationRole; state: InviteState }> {
+    const { invite, organizationName } = await this.findInvite(token);
+    return { organizationName, email: invite.email, role: invite.role, state: inviteState(invite) };
+  }
+
+  async acceptInvite(token: string, user: { id: number; email: string }): Promise<{ orgId: number; role: OrganizationRole }> {
+    const { invite } = await this.findInvite(token);
+    const error = inviteAcceptError(invite, user.email);
+    if (error) throw new Error(error);
+
+    const existing = await this.roleIn(invite.orgId, user.id);
+    await db.transaction(async (tx) => {
+      if (!existing) {
+        await tx.insert(organizationMembers).values({ orgId: invite.orgId, userId: user.id, role: invite.role });
+      }
+      await tx.update(organizationInvites)
+        .set({ status: "accepted", acceptedBy: user.id, acceptedAt: new Date() })
+        .where(eq(organizationInvites.id, invite.id));
+    });
+    await this.audit(user.id, "organization_invite_accepted", invite.orgId, { role: existing ?? invite.role });
+    return { orgId: invite.orgId, role: existing ?? invite.role };
+  }
+
+  // ==========================================================================
+  // PROFILES
+  // ==========================================================================
+
+  private async profileRows(condition: (table: typeof artists | typeof promoters | typeof venues) => SQL | undefined) {
+    const [artistRows, organizerRows, venueRows] = await Promise.all([
+      db.select({ id: artists.id, name: artists.name, userId: artists.userId, organizationId: artists.organizationId })
+        .from(artists).where(condition(artists)),
+      db.select({ id: promoters.id, name: promoters.name, userId: promoters.userId, organizationId: promoters.organizationId })
+        .from(promoters).where(condition(promoters)),
+      db.select({ id: venues.id, name: venues.name, userId: venues.userId, organizationId: venues.organizationId })
+        .from(venues).where(condition(venues)),
+    ]);
+    return [
+      ...artistRows.map((r) => ({ ...r, type: "artist" as const })),
+      ...organizerRows.map((r) => ({ ...r, name: r.name || "Organizer", type: "organizer" as const })),
+      ...venueRows.map((r) => ({ ...r, type: "venue" as const })),
+    ];
+  }
+
+  async listProfiles(orgId: number): Promise<OrganizationProfile[]> {
+    return this.profileRows((table) => eq(table.organizationId, orgId));
+  }
+
+  private async getProfile(ref: ProfileRef): Promise<OrganizationProfile | null> {
+    const table = profileTable(ref.type);
+    const [row] = await db.select({ id: table.id, name: table.name, userId: table.userId, organizationId: table.organizationId })
+      .from(table)
+      .where(eq(table.id, ref.id));
+    if (!row) return null;
+    return { ...row, type: ref.type, name: row.name || "Organizer" };
+  }
+
+  /** Links a profile the actor owns to the organization */
+  async attachProfile(orgId: number, actorId: number, ref: ProfileRef): Promise<OrganizationProfile> {
+    await this.requireRole(orgId, actorId, "manager");
+    const profile = await this.getProfile(ref);
+    if (!profile) throw new Error("Profile not found");
+    if (profile.userId !== actorId) throw new Error("Only the profile's own user can add it to an organization");
+    if (profile.organizationId !== null && profile.organizationId !== orgId) {
+      throw new Error("This profile already belongs to another organization");
+    }
+
+    const table = profileTable(ref.type);
+    await db.update(table).set({ organizationId: orgId }).where(eq(table.id, ref.id));
+    await this.audit(actorId, "organization_profile_added", orgId, { ...ref });
+    return { ...profile, organizationId: orgId };
+  }
+
+  /** Owners and managers, or the profile's own user, can take a profile out of the organization */
+  async detachProfile(orgId: number, actorId: number, ref: ProfileRef): Promise<void> {
+    const profile = await this.getProfile(ref);
+    if (!profile || profile.organizationId !== orgId) throw new Error("Profile not found");
+    if (profile.userId !== actorId) await this.requireRole(orgId, actorId, "manager");
+
+    const table = profileTable(ref.type);
+    await db.update(table).set({ organizationId: null }).where(eq(table.id, ref.id));
+    await this.audit(actorId, "organization_profile_removed", orgId, { ...ref });
+  }
+
+  // ==========================================================================
+  // ACTING PROFILE & AUTHORIZATION
+  // ==========================================================================
+
+  /** Profiles the user may act as: their own, and those of organizations where they are an owner or manager */
+  async actingProfilesFor(userId: number): Promise<ActingProfile[]> {
+    const memberships = await this.membershipsFor(userId);
+    const actOrgIds = Array.from(memberships.entries())
+      .filter(([, role]) => hasOrganizationRole(role, "manager"))
+      .map(([orgId]) => orgId);
+
+    const rows = await this.profileRows((table) => actOrgIds.length > 0
+      ? or(eq(table.userId, userId), inArray(table.organizationId, actOrgIds))
+      : eq(table.userId, userId));
+
+    const orgIds = Array.from(new Set(rows.map((r) => r.organizationId).filter((id): id is number => id !== null)));
+    const orgNames = orgIds.length > 0
+      ? new Map((await db.select({ id: organizations.id, name: organizations.name }).from(organizations)
+        .where(inArray(organizations.id, orgIds))).map((o) => [o.id, o.name]))
+      : new Map<number, string>();
+
+    return rows.map((row) => ({
+      ...row,
+      own: row.userId === userId,
+      organizationName: row.organizationId !== null ? orgNames.get(row.organizationId) ?? null : null,
+    }));
+  }
+
+  /** The chosen acting profile when the user may still act as it, else null */
+  async resolveActingProfile(userId: number, ref: ProfileRef | null | undefined): Promise<ActingProfile | null> {
+    if (!ref) return null;
+    const profile = await this.getProfile(ref);
+    if (!profile) return null;
+    const memberships = profile.userId === userId ? new Map() : await this.membershipsFor(userId);
+    if (profileAccess(userId, profile, memberships) !== "act") return null;
+
+    let organizationName: string | null = null;
+    if (profile.organizationId !== null) {
+      const [org] = await db.select({ name: organizations.name }).from(organizations).where(eq(organizations.id, profile.organizationId));
+      organizationName = org?.name ?? null;
+    }
+    return { ...profile, own: profile.userId === userId, organizationName };
+  }
+
+  /**
+   * Sides of a booking the user takes part on, directly or as an organization
+   * member. Memberships are only looked up when a party belongs to an
+   * organization. `required` "view" also admits viewers.
+   */
+  async bookingSides(userId: number, parties: BookingParties, required: ProfileAccess = "act"): Promise<BookingSide[]> {
+    const memberships = partiesHaveOrganization(parties)
+      ? await this.membershipsFor(userId)
+      : new Map<number, OrganizationRole>();
+    return bookingSides(userId, parties, memberships, required);
+  }
+}
+
+export const organizationService = new OrganizationService();
+
+// ============================================================================
+// ACTING PROFILE LOOKUPS
+// ============================================================================
+
+/** The request user; `actingProfile` is set from the session once access is re-checked */
+interface ActingUser {
+  id: number;
+  actingProfile?: ProfileRef | null;
+}
+
+/** The artist profile the user acts as: the chosen acting profile, else their own */
+export async function actingArtist(user: ActingUser): Promise<Artist | undefined> {
+  const where = user.actingProfile?.type === "artist" ? eq(artists.id, user.actingProfile.id) : eq(artists.userId, user.id);
+  const [artist] = await db.select().from(artists).where(where);
+  return artist;
+}
+
+export async function actingOrganizer(user: ActingUser): Promise<Organizer | undefined> {
+  const where = user.actingProfile?.type === "organizer" ? eq(promoters.id, user.actingProfile.id) : eq(promoters.userId, user.id);
+  const [organizer] = await db.select().from(promoters).where(where);
+  return organizer;
+}
+
+export async function actingVenue(user: ActingUser): Promise<Venue | undefined> {
+  const where = user.actingProfile?.type === "venue" ? eq(venues.id, user.actingProfile.id) : eq(venues.userId, user.id);
+  const [venue] = await db.select().from(venues).where(where);
+  return venue;
+}
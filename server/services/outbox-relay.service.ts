@@ -0,0 +1,230 @@
+import { db } from "../db";
+import { domainEventConsumptions, domainEvents } from "../../shared/schema";
+import type { DomainEventRecord } from "../../shared/schema";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import type { DomainEvent } from "./event-bus";
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_STALE_LOCK_MS,
+  outboxStateAfterDispatch,
+  pendingConsumers,
+} from "../outbox-utils";
+
+/** Must be idempotent: an event can be delivered more than once */
+export type DomainEventConsumer = (event: DomainEvent) => Promise<void>;
+
+export interface DispatchRunResult {
+  dispatched: number;
+  retrying: number;
+  failed: number;
+}
+
+type DomainEventStatus = DomainEventRecord["status"];
+
+function toDomainEvent(row: DomainEventRecord): DomainEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: (row.payload as Record<string, any>) || {},
+    actorUserId: row.actorUserId,
+    timestamp: row.occurredAt.toISOString(),
+  };
+}
+
+/**
+ * Outbox Relay Service
+ *
+ * Dispatches committed domain_events rows to registered consumers with
+ * at-least-once semantics. Events are claimed with FOR UPDATE SKIP LOCKED,
+ * each consumer's success is recorded in domain_event_consumptions so a
+ * retry only re-runs the consumers that failed, and failing events back off
+ * until they are parked as failed for an admin to replay.
+ */
+export class OutboxRelayService {
+  private consumers = new Map<string, DomainEventConsumer>();
+  private running = false;
+  private rerun = false;
+  private kickTimer: NodeJS.Timeout | null = null;
+
+  registerConsumer(name: string, consumer: DomainEventConsumer): void {
+    this.consumers.set(name, consumer);
+  }
+
+  consumerNames(): string[] {
+    return Array.from(this.consumers.keys());
+  }
+
+  /**
+   * Dispatch soon. The short delay lets the emitting transaction commit; an
+   * event that is not yet visible is picked up by the next scheduled run.
+   */
+  kick(delayMs: number = 250): void {
+    if (this.kickTimer) return;
+    this.kickTimer = setTimeout(() => {
+      this.kickTimer = null;
+      this.dispatchPending().catch((err) => {
+        console.error("[Outbox] Dispatch failed:", err);
+      });
+    }, delayMs);
+  }
+
+  /** Claim due events (and events abandoned mid-dispatch) for this relay */
+  private async claimDue(limit: number, now: Date): Promise<DomainEventRecord[]> {
+    const due = db.select({ id: domainEvents.id })
+      .from(domainEvents)
+      .where(and(
+        eq(domainEvents.status, "pending"),
+        lte(domainEvents.nextAttemptAt, now),
+        or(isNull(domainEvents.lockedAt), lt(domainEvents.lockedAt, new Date(now.getTime() - OUTBOX_STALE_LOCK_MS))),
+      ))
+      .orderBy(asc(domainEvents.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(domainEvents)
+      .set({ lockedAt: now })
+      .where(inArray(domainEvents.id, due))
+      .returning();
+  }
+
+  private async dispatch(row: DomainEventRecord): Promise<DomainEventStatus> {
+    const consumed = await db.select({ consumer: domainEventConsumptions.consumer })
+      .from(domainEventConsumptions)
+      .where(eq(domainEventConsumptions.eventId, row.id));
+    const todo = pendingConsumers(this.consumerNames(), consumed.map((c) => c.consumer));
+
+    const event = toDomainEvent(row);
+    const failures: { consumer: string; error: string }[] = [];
+    for (const name of todo) {
+      try {
+        await this.consumers.get(name)!(event);
+        await db.insert(domainEventConsumptions)
+          .values({ eventId: row.id, consumer: name })
+          .onConflictDoNothing();
+      } catch (err: any) {
+        failures.push({ consumer: name, error: err?.message || String(err) });
+      }
+    }
+
+    const now = new Date();
+    const next = outboxStateAfterDispatch({
+      attempts: row.attempts,
+      maxAttempts: OUTBOX_MAX_ATTEMPTS,
+      failures,
+      now,
+    });
+    await db.update(domainEvents)
+      .set({
+        status: next.status,
+        attempts: next.attempts,
+        lastError: next.lastError,
+        lockedAt: null,
+        ...(next.status === "pending" ? { nextAttemptAt: next.nextAttemptAt } : {}),
+        ...(next.status === "dispatched" ? { dispatchedAt: now } : {}),
+      })
+      .where(eq(domainEvents.id, row.id));
+
+    if (failures.length > 0) {
+      console.error(`[Outbox] Event ${row.id} (${row.type}) failed: ${next.lastError}`);
+    }
+    return next.status;
+  }
+
+  /**
+   * Dispatch everything that is due, oldest first. A call made while a run
+   * is in progress makes that run go round again instead of overlapping.
+   */
+  async dispatchPending(limit: number = 50): Promise<DispatchRunResult> {
+    const result: DispatchRunResult = { dispatched: 0, retrying: 0, failed: 0 };
+    // Nothing to deliver to yet (consumers register during startup)
+    if (this.consumers.size === 0) return result;
+    if (this.running) {
+      this.rerun = true;
+      return result;
+    }
+    this.running = true;
+
+    try {
+      do {
+        this.rerun = false;
+        let claimed: DomainEventRecord[];
+        do {
+          claimed = await this.claimDue(limit, new Date());
+          for (const row of claimed) {
+            const status = await this.dispatch(row);
+            if (status === "dispatched") result.dispatched++;
+            else if (status === "failed") result.failed++;
+            else result.retrying++;
+          }
+        } while (claimed.length === limit);
+      } while (this.rerun);
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async list(opts: { status?: DomainEventStatus; type?: string; limit?: number } = {}): Promise<DomainEventRecord[]> {
+    return await db.select()
+      .from(domainEvents)
+      .where(and(
+        opts.status ? eq(domainEvents.status, opts.status) : undefined,
+        opts.type ? eq(domainEvents.type, opts.type) : undefined,
+      ))
+      .orderBy(desc(domainEvents.id))
+      .limit(opts.limit ?? 50);
+  }
+
+  /**
+   * Send an event through the relay again. By default every consumer runs
+   * again (they are idempotent, so only missing side effects are produced);
+   * pass a consumer name to replay for that consumer only.
+   */
+  async replay(id: number, consumer?: string): Promise<DomainEventRecord> {
+    const [row] = await db.select().from(domainEvents).where(eq(domainEvents.id, id));
+    if (!row) throw new Error("Event not found");
+    if (consumer && !this.consumers.has(consumer)) throw new Error(`Unknown consumer: ${consumer}`);
+
+    await db.delete(domainEventConsumptions).where(and(
+      eq(domainEventConsumptions.eventId, id),
+      consumer ? eq(domainEventConsumptions.consumer, consumer) : undefined,
+    ));
+    const [updated] = await db.update(domainEvents)
+      .set({
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+        replayCount: sql`${domainEvents.replayCount} + 1`,
+      })
+      .where(eq(domainEvents.id, id))
+      .returning();
+
+    this.kick(0);
+    return updated;
+  }
+
+  /** Requeue every failed event (optionally of one type or since a time). Returns how many. */
+  async replayFailed(opts: { type?: string; since?: Date } = {}): Promise<number> {
+    const rows = await db.update(domainEvents)
+      .set({
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+        replayCount: sql`${domainEvents.replayCount} + 1`,
+      })
+      .where(and(
+        eq(domainEvents.status, "failed"),
+        opts.type ? eq(domainEvents.type, opts.type) : undefined,
+        opts.since ? gte(domainEvents.occurredAt, opts.since) : undefined,
+      ))
+      .returning({ id: domainEvents.id });
+
+    if (rows.length > 0) this.kick(0);
+    return rows.length;
+  }
+}
+
+export const outboxRelay = new OutboxRelayService();
@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto";
+
+/**
+ * Payment Gateway abstraction
+ *
+ * The escrow ledger never talks to a provider SDK directly. Every money
+ * movement goes through a PaymentGateway so the provider (Razorpay, Stripe,
+ * a bank transfer rail, ...) can be swapped via PAYMENT_GATEWAY without
+ * touching booking or contract code.
+ */
+
+export interface GatewayChargeInput {
+  amount: number;
+  currency: string;
+  reference: string;
+  metadata?: Record<string, any>;
+}
+
+export interface GatewayTransferInput {
+  amount: number;
+  currency: string;
+  toUserId: number;
+  reference: string;
+  metadata?: Record<string, any>;
+}
+
+export interface GatewayResult {
+  success: boolean;
+  transactionId: string;
+  raw: Record<string, any>;
+  error?: string;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  /** Reserve funds on the payer's instrument */
+  authorize(input: GatewayChargeInput): Promise<GatewayResult>;
+  /** Settle a previously authorized amount into platform escrow */
+  capture(transactionId: string, amount: number): Promise<GatewayResult>;
+  /** Return captured funds (fully or partially) to the payer */
+  refund(transactionId: string, amount: number): Promise<GatewayResult>;
+  /** Pay funds out of escrow to a user's bank account */
+  transfer(input: GatewayTransferInput): Promise<GatewayResult>;
+}
+
+/**
+ * Local fake gateway used in development and tests.
+ * Every call succeeds unless the amount is negative or the reference
+ * contains "fail", which makes failure paths easy to exercise by hand.
+ */
+export class FakeGateway implements PaymentGateway {
+  readonly name = "fake";
+
+  private result(prefix: string, ok: boolean, raw: Record<string, any>): GatewayResult {
+    return {
+      success: ok,
+      transactionId: `${prefix}_${randomUUID()}`,
+      raw: { ...raw, gateway: this.name, at: new Date().toISOString() },
+      error: ok ? undefined : "Declined by fake gateway",
+    };
+  }
+
+  async authorize(input: GatewayChargeInput): Promise<GatewayResult> {
+    const ok = input.amount >= 0 && !input.reference.includes("fail");
+    return this.result("fake_auth", ok, { op: "authorize", ...input });
+  }
+
+  async capture(transactionId: string, amount: number): Promise<GatewayResult> {
+    const res = this.result("fake_cap", amount >= 0, { op: "capture", authorization: transactionId, amount });
+    return { ...res, transactionId };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<GatewayResult> {
+    return this.result("fake_ref", amount >= 0, { op: "refund", original: transactionId, amount });
+  }
+
+  async transfer(input: GatewayTransferInput): Promise<GatewayResult> {
+    const ok = input.amount >= 0 && !input.reference.includes("fail");
+    return this.result("fake_trf", ok, { op: "transfer", ...input });
+  }
+}
+
+const gateways = new Map<string, PaymentGateway>();
+
+export function registerPaymentGateway(gateway: PaymentGateway): void {
+  gateways.set(gateway.name, gateway);
+}
+
+/**
+ * Returns the gateway by name, falling back to PAYMENT_GATEWAY and then "fake".
+ */
+export function getPaymentGateway(name?: string | null): PaymentGateway {
+  const key = name || process.env.PAYMENT_GATEWAY || "fake";
+  const gateway = gateways.get(key);
+  if (!gateway) {
+    throw new Error(`Payment gateway not registered: ${key}`);
+  }
+  return gateway;
+}
+
+registerPaymentGateway(new FakeGateway());
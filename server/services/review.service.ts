@@ -0,0 +1,352 @@
+import { db } from "../db";
+import { bookings, reviews, events, promoters, artists, venues, auditLogs } from "../../shared/schema";
+import type { Review } from "../../shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { emitDomainEvent } from "./event-bus";
+import { jobScheduler } from "./job-scheduler.service";
+import { jobKey } from "../job-scheduler-utils";
+import {
+  aggregateRatings,
+  completionConfirmedAt,
+  overallRating,
+  requiredSubjectFor,
+  reviewSubjectsFor,
+  reviewWindowClosesAt,
+  shouldRevealReviews,
+  validateCriteriaRatings,
+  type ReviewerRole,
+  type ReviewSubject,
+} from "../review-utils";
+
+export const REVIEW_REVEAL_JOB = "reviews.reveal";
+
+export interface SubmitReviewInput {
+  subjectType: ReviewSubject;
+  ratings: Record<string, number>;
+  comment?: string;
+}
+
+export interface ModerateReviewInput {
+  action: "hide" | "restore";
+  note: string;
+}
+
+export interface BookingReviews {
+  windowClosesAt: Date | null;
+  revealed: boolean;
+  /** Subjects the caller can still review (empty for admins and non-parties) */
+  pendingSubjects: ReviewSubject[];
+  reviews: Review[];
+}
+
+/**
+ * Review Service
+ *
+ * Once a booking is completed, a review window opens (REVIEW_WINDOW_DAYS).
+ * The organizer reviews the artist; the artist reviews the organizer and,
+ * when the event has a venue, the venue. Reviews stay sealed until both sides
+ * have submitted or the window closes, then they are published together and
+ * the subjects' ratingAvg / ratingCount are recomputed. Admins can hide a
+ * review, which also removes it from the aggregates.
+ */
+export class ReviewService {
+  private async getParties(bookingId: number) {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) throw new Error("Booking not found");
+
+    const [event] = booking.eventId ? await db.select().from(events).where(eq(events.id, booking.eventId)) : [];
+    const [organizer] = event?.organizerId ? await db.select().from(promoters).where(eq(promoters.id, event.organizerId)) : [];
+    const [artist] = booking.artistId ? await db.select().from(artists).where(eq(artists.id, booking.artistId)) : [];
+
+    return {
+      booking,
+      eventTitle: event?.title || "Event",
+      artistId: artist?.id ?? null,
+      artistUserId: artist?.userId ?? null,
+      organizerId: organizer?.id ?? null,
+      organizerUserId: organizer?.userId ?? null,
+      venueId: event?.venueId ?? null,
+    };
+  }
+
+  async getPartyRole(bookingId: number, userId: number): Promise<ReviewerRole | null> {
+    const { artistUserId, organizerUserId } = await this.getParties(bookingId);
+    if (artistUserId === userId) return "artist";
+    if (organizerUserId === userId) return "organizer";
+    return null;
+  }
+
+  /**
+   * Start the review window for a booking that just reached `completed` and
+   * schedule the reveal for when it closes. Safe to call more than once.
+   */
+  async openWindow(bookingId: number, now: Date = new Date()): Promise<Date> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) throw new Error("Booking not found");
+    if (booking.reviewWindowClosesAt) return booking.reviewWindowClosesAt;
+
+    const closesAt = reviewWindowClosesAt(now);
+    await db.update(bookings)
+      .set({ reviewWindowClosesAt: closesAt, updatedAt: now })
+      .where(eq(bookings.id, bookingId));
+
+    try {
+      await jobScheduler.schedule(REVIEW_REVEAL_JOB, { bookingId }, closesAt, {
+        key: jobKey(REVIEW_REVEAL_JOB, bookingId),
+      });
+    } catch (error) {
+      // Reads reveal lazily once the window has closed, so this is not fatal
+      console.error("Failed to schedule review reveal:", error);
+    }
+    return closesAt;
+  }
+
+  async submit(bookingId: number, userId: number, input: SubmitReviewInput): Promise<Review> {
+    const parties = await this.getParties(bookingId);
+    const { booking } = parties;
+    const role = await this.getPartyRole(bookingId, userId);
+    if (!role) {
+      throw new Error("Only the booking's artist or organizer can leave a review");
+    }
+    if (booking.status !== "completed") {
+      throw new Error("Reviews can only be left once the booking is completed");
+    }
+
+    const now = new Date();
+    // The window opens on completion; bookings completed before that count from both confirmations
+    const closesAt = booking.reviewWindowClosesAt
+      ?? await this.openWindow(bookingId, completionConfirmedAt(booking.meta as Record<string, any> | null) ?? now);
+    if (now >= closesAt) {
+      throw new Error("The review window for this booking has closed");
+    }
+
+    if (!reviewSubjectsFor(role, !!parties.venueId).includes(input.subjectType)) {
+      throw new Error(`A ${role} cannot review the ${input.subjectType} of this booking`);
+    }
+    const invalid = validateCriteriaRatings(input.subjectType, input.ratings);
+    if (invalid) throw new Error(invalid);
+
+    const subjectId = input.subjectType === "artist" ? parties.artistId
+      : input.subjectType === "organizer" ? parties.organizerId
+      : parties.venueId;
+    if (!subjectId) throw new Error(`This booking has no ${input.subjectType} to review`);
+
+    const [existing] = await db.select({ id: reviews.id }).from(reviews).where(and(
+      eq(reviews.bookingId, bookingId),
+      eq(reviews.subjectType, input.subjectType),
+    ));
+    if (existing) {
+      throw new Error("A review for this booking has already been submitted");
+    }
+
+    // After the reveal (e.g. an optional venue review added later) there is nothing left to seal
+    const publishNow = !!booking.reviewsRevealedAt;
+
+    const review = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(reviews).values({
+        bookingId,
+        reviewerUserId: userId,
+        reviewerRole: role,
+        subjectType: input.subjectType,
+        subjectId,
+        ratings: input.ratings,
+        overallRating: overallRating(input.ratings).toFixed(2),
+        comment: input.comment?.trim() || null,
+        status: publishNow ? "published" : "submitted",
+        publishedAt: publishNow ? now : null,
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "review_submitted",
+        entityType: "review",
+        entityId: created.id,
+        context: { bookingId, role, subjectType: input.subjectType, subjectId },
+      });
+
+      await emitDomainEvent("review.submitted", {
+        bookingId,
+        entityType: "review",
+        entityId: created.id,
+        eventTitle: parties.eventTitle,
+        actorName: role === "artist" ? "The artist" : "The organizer",
+        actionUrl: `/bookings?bookingId=${bookingId}`,
+      }, userId, tx);
+
+      return created;
+    });
+
+    if (publishNow) {
+      await this.recomputeAggregates(review.subjectType, review.subjectId);
+    } else {
+      await this.revealIfDue(bookingId, now);
+    }
+    return review;
+  }
+
+  /**
+   * Publish a booking's sealed reviews when the reveal rule is met and
+   * recompute the reviewed profiles' ratings. Returns true if it revealed.
+   */
+  async revealIfDue(bookingId: number, now: Date = new Date()): Promise<boolean> {
+    const { booking, eventTitle } = await this.getParties(bookingId);
+    if (booking.reviewsRevealedAt) return false;
+
+    const bookingReviews = await db.select().from(reviews).where(eq(reviews.bookingId, bookingId));
+    const submittedFor = (role: ReviewerRole) =>
+      bookingReviews.some((r) => r.subjectType === requiredSubjectFor(role));
+
+    if (!shouldRevealReviews({
+      artistSubmitted: submittedFor("artist"),
+      organizerSubmitted: submittedFor("organizer"),
+      windowClosesAt: booking.reviewWindowClosesAt,
+      now,
+    })) {
+      return false;
+    }
+
+    const revealed = await db.transaction(async (tx) => {
+      // Guard against a concurrent reveal (e.g. the job and a submission racing)
+      const [claimed] = await tx.update(bookings)
+        .set({ reviewsRevealedAt: now, updatedAt: now })
+        .where(and(eq(bookings.id, bookingId), isNull(bookings.reviewsRevealedAt)))
+        .returning({ id: bookings.id });
+      if (!claimed) return false;
+
+      await tx.update(reviews)
+        .set({ status: "published", publishedAt: now, updatedAt: now })
+        .where(and(eq(reviews.bookingId, bookingId), eq(reviews.status, "submitted")));
+
+      await emitDomainEvent("reviews.published", {
+        bookingId,
+        entityType: "booking",
+        entityId: bookingId,
+        eventTitle,
+        actionUrl: `/bookings?bookingId=${bookingId}`,
+      }, null, tx);
+
+      return true;
+    });
+    if (!revealed) return false;
+
+    for (const review of bookingReviews) {
+      await this.recomputeAggregates(review.subjectType, review.subjectId);
+    }
+    await jobScheduler.cancel(jobKey(REVIEW_REVEAL_JOB, bookingId));
+    return true;
+  }
+
+  /**
+   * Reviews for a booking as the caller may see them: their own always, the
+   * other side's only once revealed. Admins see everything.
+   */
+  async getForBooking(bookingId: number, userId: number, isAdmin: boolean): Promise<BookingReviews> {
+    await this.revealIfDue(bookingId);
+    const parties = await this.getParties(bookingId);
+    const { booking } = parties;
+
+    const all = await db.select().from(reviews)
+      .where(eq(reviews.bookingId, bookingId))
+      .orderBy(reviews.createdAt);
+
+    const role = isAdmin ? null : await this.getPartyRole(bookingId, userId);
+    const visible = isAdmin ? all : all.filter((r) =>
+      r.reviewerUserId === userId || r.status === "published");
+
+    const windowOpen = booking.status === "completed"
+      && (!booking.reviewWindowClosesAt || new Date() < booking.reviewWindowClosesAt);
+    const pendingSubjects = role && windowOpen
+      ? reviewSubjectsFor(role, !!parties.venueId).filter((s) => !all.some((r) => r.subjectType === s))
+      : [];
+
+    return {
+      windowClosesAt: booking.reviewWindowClosesAt,
+      revealed: !!booking.reviewsRevealedAt,
+      pendingSubjects,
+      reviews: visible,
+    };
+  }
+
+  /** Published reviews about an artist, organizer or venue, newest first */
+  async listForSubject(subjectType: ReviewSubject, subjectId: number, limit: number = 20): Promise<Review[]> {
+    return db.select().from(reviews)
+      .where(and(
+        eq(reviews.subjectType, subjectType),
+        eq(reviews.subjectId, subjectId),
+        eq(reviews.status, "published"),
+      ))
+      .orderBy(desc(reviews.publishedAt))
+      .limit(limit);
+  }
+
+  async listForModeration(status?: Review["status"]): Promise<Review[]> {
+    return db.select().from(reviews)
+      .where(status ? eq(reviews.status, status) : undefined)
+      .orderBy(desc(reviews.createdAt))
+      .limit(200);
+  }
+
+  /**
+   * Hide a review (removing it from the aggregates) or restore it. A restored
+   * review goes back to sealed if its booking has not been revealed yet.
+   */
+  async moderate(id: number, adminId: number, input: ModerateReviewInput): Promise<Review> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    if (!review) throw new Error("Review not found");
+    if (input.action === "hide" && review.status === "hidden") throw new Error("Review is already hidden");
+    if (input.action === "restore" && review.status !== "hidden") throw new Error("Review is not hidden");
+
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, review.bookingId));
+    const now = new Date();
+    const status: Review["status"] = input.action === "hide" ? "hidden"
+      : booking?.reviewsRevealedAt ? "published" : "submitted";
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx.update(reviews)
+        .set({
+          status,
+          publishedAt: status === "published" ? (review.publishedAt ?? now) : review.publishedAt,
+          moderatedBy: adminId,
+          moderatedAt: now,
+          moderationNote: input.note,
+          updatedAt: now,
+        })
+        .where(eq(reviews.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        who: adminId,
+        action: input.action === "hide" ? "review_hidden" : "review_restored",
+        entityType: "review",
+        entityId: id,
+        context: { bookingId: review.bookingId, from: review.status, to: status, note: input.note },
+      });
+
+      return row;
+    });
+
+    await this.recomputeAggregates(review.subjectType, review.subjectId);
+    return updated;
+  }
+
+  /** Rewrite ratingAvg / ratingCount on the reviewed profile from its published reviews */
+  async recomputeAggregates(subjectType: ReviewSubject, subjectId: number): Promise<void> {
+    const published = await db.select({ overallRating: reviews.overallRating }).from(reviews).where(and(
+      eq(reviews.subjectType, subjectType),
+      eq(reviews.subjectId, subjectId),
+      eq(reviews.status, "published"),
+    ));
+    const aggregate = aggregateRatings(published.map((r) => Number(r.overallRating)));
+    const update = { ...aggregate, updatedAt: new Date() };
+
+    if (subjectType === "artist") {
+      await db.update(artists).set(update).where(eq(artists.id, subjectId));
+    } else if (subjectType === "organizer") {
+      await db.update(promoters).set(update).where(eq(promoters.id, subjectId));
+    } else {
+      await db.update(venues).set(update).where(eq(venues.id, subjectId));
+    }
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,116 @@
+import { jobScheduler } from "./job-scheduler.service";
+import { bookingService, BOOKING_FLOW_EXPIRY_JOB } from "./booking.service";
+import { escrowService } from "./escrow.service";
+import { invoiceService } from "./invoice.service";
+import { notificationDeliveryService } from "./notification-delivery.service";
+import { notificationPreferenceService } from "./notification-preference.service";
+import { outboxRelay } from "./outbox-relay.service";
+import { researchService } from "./research.service";
+import { reviewService, REVIEW_REVEAL_JOB } from "./review.service";
+import { searchService } from "./search.service";
+import { ticketingService, TICKET_ORDER_EXPIRY_JOB } from "./ticketing.service";
+import { storage } from "../storage";
+
+/**
+ * Background jobs
+ *
+ * Every recurring job and one-off job handler the server runs. Registered
+ * once at startup; the scheduler persists run times in scheduled_jobs so
+ * schedules survive restarts and are shared across instances.
+ */
+export function registerScheduledJobs(): void {
+  jobScheduler.defineRecurring({
+    name: "contracts.check-deadlines",
+    description: "Void sent contracts whose signing deadline has passed",
+    intervalSeconds: 5 * 60,
+    handler: async () => {
+      // Lives with the contract routes; imported lazily to keep startup order simple
+      const { checkContractDeadlines } = await import("../routes/contracts");
+      return { voided: await checkContractDeadlines() };
+    },
+  });
+
+  jobScheduler.defineRecurring({
+    name: "escrow.process",
+    description: "Capture due balance payments and release queued artist payouts",
+    intervalSeconds: 60 * 60,
+    handler: async () => {
+      const captured = await escrowService.captureDueBalances();
+      const paid = await escrowService.processQueuedPayouts();
+      return { captured, paid };
+    },
+  });
+
+  jobScheduler.defineRecurring({
+    name: "invoices.mark-overdue",
+    description: "Move issued invoices past their due date to overdue",
+    intervalSeconds: 60 * 60,
+    handler: async () => ({ overdue: await invoiceService.markOverdueInvoices() }),
+  });
+
+  jobScheduler.defineRecurring({
+    name: "notifications.deliver",
+    description: "Send due emails and retries from the notification delivery queue",
+    intervalSeconds: 60,
+    handler: async () => ({ ...(await notificationDeliveryService.processDue()) }),
+  });
+
+  jobScheduler.defineRecurring({
+    name: "notifications.digests",
+    description: "Queue daily and weekly digest emails once each user's slot arrives",
+    intervalSeconds: 15 * 60,
+    handler: async () => ({ sent: await notificationPreferenceService.sendDueDigests() }),
+  });
+
+  jobScheduler.defineRecurring({
+    name: "outbox.relay",
+    description: "Dispatch domain events that were missed or are due for a retry",
+    intervalSeconds: 60,
+    handler: async () => ({ ...(await outboxRelay.dispatchPending()) }),
+  });
+
+  jobScheduler.defineRecurring({
+    name: "research.daily",
+    description: "Clean expired research cache and retrain fee multipliers from negotiation outcomes",
+    intervalSeconds: 24 * 60 * 60,
+    firstRunDelaySeconds: 60 * 60, // avoid startup load
+    handler: async () => {
+      const deleted = await storage.deleteExpiredResearchCache();
+      await researchService.retrainMultipliers();
+      return { cacheEntriesDeleted: deleted };
+    },
+  });
+
+  jobScheduler.defineRecurring({
+    name: "search.reindex",
+    description: "Rebuild every artist, venue, event and organizer search document and link profile genres",
+    intervalSeconds: 24 * 60 * 60,
+    firstRunDelaySeconds: 5 * 60,
+    handler: async () => ({ indexed: await searchService.reindexAll() }),
+  });
+
+  jobScheduler.defineRecurring({
+    name: "jobs.prune-runs",
+    description: "Delete job run history past the retention window",
+    intervalSeconds: 24 * 60 * 60,
+    handler: async () => ({ deleted: await jobScheduler.pruneRuns() }),
+  });
+
+  jobScheduler.defineHandler(
+    BOOKING_FLOW_EXPIRY_JOB,
+    "Cancel a booking whose 72-hour negotiation flow deadline has passed",
+    async (payload) => ({ expired: await bookingService.expireIfFlowOverdue(Number(payload.bookingId)) }),
+  );
+
+  jobScheduler.defineHandler(
+    REVIEW_REVEAL_JOB,
+    "Publish a booking's sealed reviews when its review window closes",
+    async (payload) => ({ revealed: await reviewService.revealIfDue(Number(payload.bookingId)) }),
+  );
+
+  jobScheduler.defineHandler(
+    TICKET_ORDER_EXPIRY_JOB,
+    "Release the tickets held by an unpaid order once its hold runs out",
+    async (payload) => ({ expired: await ticketingService.expireOrder(Number(payload.orderId)) }),
+  );
+}
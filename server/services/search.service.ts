@@ -0,0 +1,800 @@
+import { db } from "../db";
+import {
+  artists, artistCategoryEnum, artistGenres, artistAvailability, bookings, cities, events, genres, promoters, searchDocuments,
+  users, venues,
+} from "../../shared/schema";
+import type { Artist } from "../../shared/schema";
+import { and, asc, desc, eq, ilike, inArray, isNotNull, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { format } from "date-fns";
+import { BLOCKING_BOOKING_STATUSES, DEFAULT_EVENT_DURATION_HOURS, DEFAULT_TIMEZONE } from "../availability-utils";
+import {
+  ARTIST_SORT_DIRECTIONS,
+  FEE_BUCKETS,
+  GLOBAL_SEARCH_LIMIT,
+  GLOBAL_SEARCH_MAX_LIMIT,
+  UNPRICED_FEE_ASC,
+  UNPRICED_FEE_DESC,
+  buildArtistDocument,
+  buildEventDocument,
+  buildOrganizerDocument,
+  buildSnippet,
+  buildVenueDocument,
+  clampPageSize,
+  containsPattern,
+  decodeCursor,
+  genreLineageNames,
+  highlightSegments,
+  matchGenreIds,
+  normalizeSearchText,
+  paginate,
+  parseIdQuery,
+  searchResultUrl,
+  searchScopeFor,
+  searchTerms,
+  splitFilterList,
+  toPrefixTsQuery,
+  type ArtistSort,
+  type GlobalSearchType,
+  type HighlightSegment,
+  type SearchDocumentText,
+} from "../search-utils";
+
+/** Records are indexed in batches of this size by a full rebuild */
+const REINDEX_BATCH_SIZE = 200;
+
+/** Most values returned per city and genre facet */
+const FACET_LIMIT = 20;
+
+export type ArtistFacet = "genre" | "category" | "city" | "fee";
+
+/** Entity types with a search document; users and bookings are looked up directly */
+export type IndexedEntity = "artist" | "venue" | "event" | "organizer";
+
+const INDEXED_TABLES = { artist: artists, venue: venues, event: events, organizer: promoters };
+
+export interface ArtistSearchParams {
+  q?: string;
+  /** Genre names or slugs, comma-separated; each also matches its sub-genres */
+  genre?: string;
+  /** artist_category values, comma-separated */
+  category?: string;
+  /** City names, comma-separated */
+  city?: string;
+  minFee?: number;
+  maxFee?: number;
+  minRating?: number;
+  /** YYYY-MM-DD; keeps artists with no booking or unavailability that day */
+  availableOn?: string;
+  sort?: ArtistSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type ArtistSearchHit = Artist & {
+  user: { id: number; name: string };
+  genres: string[];
+  city: string | null;
+  /** Text relevance plus the small rating boost; null when there was no query text */
+  relevance: number | null;
+};
+
+export interface ArtistSearchResult {
+  results: ArtistSearchHit[];
+  nextCursor: string | null;
+  total: number;
+  facets: Record<ArtistFacet, FacetBucket[]>;
+}
+
+export interface GlobalSearchParams {
+  q?: string;
+  /** Result types, comma-separated; limited to what the role may search */
+  types?: string;
+  /** Results per type */
+  limit?: number;
+}
+
+export interface GlobalSearchHit {
+  type: GlobalSearchType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  url: string;
+  highlights: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[] | null;
+  };
+}
+
+export interface GlobalSearchResult {
+  query: string;
+  groups: { type: GlobalSearchType; results: GlobalSearchHit[] }[];
+}
+
+/** A row from one type's query, before highlights and the link are added */
+interface GlobalSearchRow {
+  id: number;
+  title: string;
+  subtitle: string | null;
+  body: string | null;
+}
+
+interface ParsedSearch {
+  tsQuery: string | null;
+  text: string;
+  genres: string[];
+  categories: string[];
+  cities: string[];
+  minFee?: number;
+  maxFee?: number;
+  minRating?: number;
+  availableOn?: string;
+}
+
+// City shown for an artist: the origin city if set, else the free-text location from the profile
+const cityName = sql<string | null>`coalesce(${cities.name}, ${artists.baseLocation}->>'name', ${artists.metadata}->>'location')`;
+
+const searchDocumentJoin = and(eq(searchDocuments.entityType, "artist"), eq(searchDocuments.entityId, artists.id));
+
+/**
+ * Search Service
+ *
+ * Keeps search_documents in step with artists, venues, events and organizers
+ * and answers two searches in Postgres. The artist directory search does
+ * prefix full-text matching on the weighted document plus trigram matching on
+ * the name for typos, filters on genre (including sub-genres), category, city,
+ * fee range overlap, rating and availability on a date, keyset pagination and
+ * facet counts. The global search returns the best few matches of each type
+ * the user's role may see, with highlighted titles and snippets.
+ */
+export class SearchService {
+  // ==========================================================================
+  // INDEXING
+  // ==========================================================================
+
+  /**
+   * Rebuilds an artist's search document. Genres named in the profile are first
+   * linked in artist_genres so genre filters and facets see them.
+   */
+  async indexArtist(artistId: number): Promise<void> {
+    const [row] = await db
+      .select({ artist: artists, city: cities.name })
+      .from(artists)
+      .leftJoin(cities, eq(cities.cityId, artists.originCityId))
+      .where(eq(artists.id, artistId));
+    if (!row) return this.removeDocument("artist", artistId);
+
+    const { artist } = row;
+    const metadata = (artist.metadata as Record<string, any>) || {};
+    const genreRows = await db.select().from(genres);
+
+    const profileGenres = [metadata.primaryGenre, ...(Array.isArray(metadata.secondaryGenres) ? metadata.secondaryGenres : [])];
+    const matched = matchGenreIds(profileGenres, genreRows);
+
+    const genreIds = await db.transaction(async (tx) => {
+      if (matched.length > 0) {
+        await tx.delete(artistGenres).where(and(eq(artistGenres.artistId, artistId), notInArray(artistGenres.genreId, matched)));
+        await tx.insert(artistGenres)
+          .values(matched.map((genreId) => ({ artistId, genreId })))
+          .onConflictDoNothing();
+      }
+      const linked = await tx.select({ genreId: artistGenres.genreId }).from(artistGenres).where(eq(artistGenres.artistId, artistId));
+      return linked.map((l) => l.genreId);
+    });
+
+    const document = buildArtistDocument({
+      name: artist.name,
+      bio: artist.bio,
+      isBand: artist.isBand,
+      members: artist.members,
+      genres: genreLineageNames(genreIds, genreRows),
+      city: row.city ?? (artist.baseLocation as any)?.name ?? metadata.location ?? null,
+      category: artist.artistCategory,
+    });
+    await this.upsertDocument("artist", artistId, document);
+  }
+
+  async indexVenue(venueId: number): Promise<void> {
+    const [row] = await db
+      .select({ venue: venues, city: cities.name })
+      .from(venues)
+      .leftJoin(cities, eq(cities.cityId, venues.cityId))
+      .where(eq(venues.id, venueId));
+    if (!row) return this.removeDocument("venue", venueId);
+
+    const address = (row.venue.address as Record<string, any>) || {};
+    await this.upsertDocument("venue", venueId, buildVenueDocument({
+      name: row.venue.name,
+      description: row.venue.description,
+      city: row.city ?? address.city ?? null,
+      amenities: row.venue.amenities,
+    }));
+  }
+
+  async indexEvent(eventId: number): Promise<void> {
+    const [row] = await db
+      .select({ event: events, venueName: venues.name, city: cities.name, organizerName: promoters.name })
+      .from(events)
+      .leftJoin(venues, eq(venues.id, events.venueId))
+      .leftJoin(cities, eq(cities.cityId, venues.cityId))
+      .leftJoin(promoters, eq(promoters.id, events.organizerId))
+      .where(eq(events.id, eventId));
+    if (!row) return this.removeDocument("event", eventId);
+
+    const metadata = (row.event.metadata as Record<string, any>) || {};
+    const eventGenres = [metadata.genre, ...(Array.isArray(metadata.genres) ? metadata.genres : [])]
+      .filter((g): g is string => typeof g === "string");
+    await this.upsertDocument("event", eventId, buildEventDocument({
+      title: row.event.title,
+      description: row.event.description,
+      venueName: row.venueName,
+      city: row.city,
+      organizerName: row.organizerName,
+      genres: eventGenres,
+    }));
+  }
+
+  async indexOrganizer(organizerId: number): Promise<void> {
+    const [row] = await db
+      .select({ organizer: promoters, userName: sql<string | null>`coalesce(${users.displayName}, ${users.username})` })
+      .from(promoters)
+      .leftJoin(users, eq(users.id, promoters.userId))
+      .where(eq(promoters.id, organizerId));
+    if (!row) return this.removeDocument("organizer", organizerId);
+
+    const contact = (row.organizer.contactPerson as Record<string, any>) || {};
+    await this.upsertDocument("organizer", organizerId, buildOrganizerDocument({
+      name: row.organizer.name || row.userName || "Organizer",
+      description: row.organizer.description,
+      contactName: typeof contact.name === "string" ? contact.name : null,
+    }));
+  }
+
+  private async upsertDocument(entityType: IndexedEntity, entityId: number, text: SearchDocumentText): Promise<void> {
+    const vector = sql`setweight(to_tsvector('simple', ${text.title}), 'A')
+      || setweight(to_tsvector('simple', ${text.keywords}), 'B')
+      || setweight(to_tsvector('simple', ${text.body}), 'C')`;
+
+    await db.insert(searchDocuments)
+      .values({ entityType, entityId, ...text, document: vector as any })
+      .onConflictDoUpdate({
+        target: [searchDocuments.entityType, searchDocuments.entityId],
+        set: { ...text, document: vector as any, updatedAt: new Date() },
+      });
+  }
+
+  private async removeDocument(entityType: IndexedEntity, entityId: number): Promise<void> {
+    await db.delete(searchDocuments).where(and(eq(searchDocuments.entityType, entityType), eq(searchDocuments.entityId, entityId)));
+  }
+
+  private index(entityType: IndexedEntity, id: number): Promise<void> {
+    switch (entityType) {
+      case "artist": return this.indexArtist(id);
+      case "venue": return this.indexVenue(id);
+      case "event": return this.indexEvent(id);
+      case "organizer": return this.indexOrganizer(id);
+    }
+  }
+
+  /** Indexing runs after the record is saved; a failure is logged and picked up by the nightly rebuild */
+  indexInBackground(entityType: IndexedEntity, id: number): void {
+    this.index(entityType, id).catch((err) => {
+      console.error(`[Search] Failed to index ${entityType} ${id}:`, err);
+    });
+  }
+
+  /** Rebuilds every document of one type and drops documents of deleted records. Returns the number indexed. */
+  async reindex(entityType: IndexedEntity): Promise<number> {
+    const table = INDEXED_TABLES[entityType];
+    let indexed = 0;
+    let lastId = 0;
+    for (;;) {
+      const batch = await db.select({ id: table.id })
+        .from(table)
+        .where(sql`${table.id} > ${lastId}`)
+        .orderBy(asc(table.id))
+        .limit(REINDEX_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const { id } of batch) {
+        await this.index(entityType, id);
+        indexed++;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+
+    await db.delete(searchDocuments).where(and(
+      eq(searchDocuments.entityType, entityType),
+      sql`not exists (select 1 from ${table} where ${table.id} = ${searchDocuments.entityId})`,
+    ));
+    return indexed;
+  }
+
+  /** Rebuilds the whole index. Returns the number of documents indexed per type. */
+  async reindexAll(): Promise<Record<IndexedEntity, number>> {
+    return {
+      artist: await this.reindex("artist"),
+      venue: await this.reindex("venue"),
+      event: await this.reindex("event"),
+      organizer: await this.reindex("organizer"),
+    };
+  }
+
+  // ==========================================================================
+  // ARTIST SEARCH
+  // ==========================================================================
+
+  private parse(params: ArtistSearchParams): ParsedSearch {
+    const categories = splitFilterList(params.category);
+    const unknown = categories.find((c) => !(artistCategoryEnum.enumValues as readonly string[]).includes(c));
+    if (unknown) throw new Error(`Unknown artist category: ${unknown}`);
+
+    return {
+      tsQuery: toPrefixTsQuery(params.q),
+      text: searchTerms(params.q).join(" "),
+      genres: splitFilterList(params.genre).map((g) => g.toLowerCase()),
+      categories,
+      cities: splitFilterList(params.city).map((c) => c.toLowerCase()),
+      minFee: params.minFee,
+      maxFee: params.maxFee,
+      minRating: params.minRating,
+      availableOn: params.availableOn,
+    };
+  }
+
+  /** Artist is linked to one of the genres, or to any genre below them in the tree */
+  private genreCondition(names: string[]): SQL {
+    const list = sql.join(names.map((name) => sql`${name}`), sql`, `);
+    return sql`exists (
+      select 1 from ${artistGenres}
+      where ${artistGenres.artistId} = ${artists.id}
+        and ${artistGenres.genreId} in (
+          with recursive subtree as (
+            select g.id from ${genres} g where lower(g.name) in (${list}) or g.slug in (${list})
+            union
+            select child.id from ${genres} child join subtree on child.parent_id = subtree.id
+          )
+          select id from subtree
+        )
+    )`;
+  }
+
+  /**
+   * Free on a local date: no committed booking whose event touches that day (in
+   * the event's timezone) and no blocked/travel entry or all-day recurring rule
+   * covering it. Recurring rules limited to certain hours leave the day open.
+   */
+  private availabilityCondition(date: string): SQL {
+    const statuses = sql.join(BLOCKING_BOOKING_STATUSES.map((s) => sql`${s}`), sql`, `);
+    const localDate = (column: SQL) =>
+      sql`((${column}) at time zone 'UTC' at time zone coalesce(${events.timezone}, ${DEFAULT_TIMEZONE}))::date`;
+    const eventEnd = sql`coalesce(${events.endTime}, ${events.startTime} + make_interval(hours => ${DEFAULT_EVENT_DURATION_HOURS}))`;
+
+    return sql`not exists (
+      select 1 from ${bookings} join ${events} on ${events.id} = ${bookings.eventId}
+      where ${bookings.artistId} = ${artists.id}
+        and ${bookings.status}::text in (${statuses})
+        and ${date}::date between ${localDate(sql`${events.startTime}`)} and ${localDate(eventEnd)}
+    ) and not exists (
+      select 1 from ${artistAvailability}
+      where ${artistAvailability.artistId} = ${artists.id}
+        and ${artistAvailability.startDate} <= ${date}::date
+        and (
+          (${artistAvailability.kind} in ('blocked', 'travel')
+            and coalesce(${artistAvailability.endDate}, ${artistAvailability.startDate}) >= ${date}::date)
+          or (${artistAvailability.kind} = 'recurring'
+            and (${artistAvailability.endDate} is null or ${artistAvailability.endDate} >= ${date}::date)
+            and ${artistAvailability.startTime} is null
+            and ${artistAvailability.daysOfWeek} @> to_jsonb(extract(dow from ${date}::date)::int))
+        )
+    )`;
+  }
+
+  /** Filters shared by the page, the total and the facets; `except` leaves out a facet's own filter */
+  private conditions(search: ParsedSearch, except?: ArtistFacet): SQL[] {
+    const conditions: SQL[] = [
+      sql`coalesce(${users.status}::text, 'active') not in ('suspended', 'deleted')`,
+    ];
+
+    if (search.tsQuery) {
+      conditions.push(sql`(${searchDocuments.document} @@ to_tsquery('simple', ${search.tsQuery})
+        or ${search.text} <% ${searchDocuments.title})`);
+    }
+    if (except !== "genre" && search.genres.length > 0) {
+      conditions.push(this.genreCondition(search.genres));
+    }
+    if (except !== "category" && search.categories.length > 0) {
+      conditions.push(inArray(artists.artistCategory, search.categories as any[]));
+    }
+    if (except !== "city" && search.cities.length > 0) {
+      conditions.push(sql`lower(${cityName}) in (${sql.join(search.cities.map((c) => sql`${c}`), sql`, `)})`);
+    }
+    // The artist's fee range overlaps the requested budget; artists without a fee never match a budget
+    if (except !== "fee" && search.minFee !== undefined) {
+      conditions.push(sql`coalesce(${artists.priceTo}, ${artists.priceFrom}) >= ${search.minFee}`);
+    }
+    if (except !== "fee" && search.maxFee !== undefined) {
+      conditions.push(sql`coalesce(${artists.priceFrom}, ${artists.priceTo}) <= ${search.maxFee}`);
+    }
+    if (search.minRating !== undefined) {
+      conditions.push(sql`coalesce(${artists.ratingAvg}, 0) >= ${search.minRating}`);
+    }
+    if (search.availableOn) {
+      conditions.push(this.availabilityCondition(search.availableOn));
+    }
+    return conditions;
+  }
+
+  /**
+   * Relevance: full-text rank (title A > keywords B > body C) plus name
+   * similarity, with up to 0.1 added for a 5-star rating so equally good text
+   * matches favour better-rated artists. Without query text only the rating part remains.
+   */
+  private relevance(search: ParsedSearch): SQL {
+    const ratingBoost = sql`coalesce(${artists.ratingAvg}, 0) / 50`;
+    if (!search.tsQuery) return sql`round((${ratingBoost})::numeric, 6)`;
+    return sql`round((
+      coalesce(ts_rank_cd(${searchDocuments.document}, to_tsquery('simple', ${search.tsQuery})), 0)
+      + coalesce(word_similarity(${search.text}, ${searchDocuments.title}), 0)
+      + ${ratingBoost}
+    )::numeric, 6)`;
+  }
+
+  private sortKey(sort: ArtistSort, search: ParsedSearch): SQL {
+    switch (sort) {
+      case "fee_asc":
+        return sql`coalesce(${artists.priceFrom}, ${artists.priceTo}, ${UNPRICED_FEE_ASC})::numeric`;
+      case "fee_desc":
+        return sql`coalesce(${artists.priceTo}, ${artists.priceFrom}, ${UNPRICED_FEE_DESC})::numeric`;
+      case "rating":
+        return sql`coalesce(${artists.ratingAvg}, 0)::numeric`;
+      case "newest":
+        return sql`${artists.id}::numeric`;
+      case "relevance":
+      default:
+        return this.relevance(search);
+    }
+  }
+
+  private baseQuery<T extends Record<string, unknown>>(fields: T) {
+    return db.select(fields as any)
+      .from(artists)
+      .innerJoin(users, eq(artists.userId, users.id))
+      .leftJoin(searchDocuments, searchDocumentJoin)
+      .leftJoin(cities, eq(cities.cityId, artists.originCityId))
+      .$dynamic();
+  }
+
+  private async facets(search: ParsedSearch): Promise<Record<ArtistFacet, FacetBucket[]>> {
+    const count = sql<number>`count(distinct ${artists.id})::int`;
+
+    const categoryRows = this.baseQuery({ value: artists.artistCategory, count })
+      .where(and(...this.conditions(search, "category"), isNotNull(artists.artistCategory)))
+      .groupBy(artists.artistCategory)
+      .orderBy(sql`2 desc`);
+
+    const cityRows = this.baseQuery({ value: cityName, count })
+      .where(and(...this.conditions(search, "city"), sql`${cityName} is not null`))
+      .groupBy(cityName)
+      .orderBy(sql`2 desc`, sql`1`)
+      .limit(FACET_LIMIT);
+
+    const genreRows = this.baseQuery({ value: sql<string>`coalesce(${genres.slug}, lower(${genres.name}))`, label: genres.name, count })
+      .innerJoin(artistGenres, eq(artistGenres.artistId, artists.id))
+      .innerJoin(genres, eq(genres.id, artistGenres.genreId))
+      .where(and(...this.conditions(search, "genre")))
+      .groupBy(genres.id, genres.slug, genres.name)
+      .orderBy(sql`3 desc`, genres.name)
+      .limit(FACET_LIMIT);
+
+    const startingFee = sql`coalesce(${artists.priceFrom}, ${artists.priceTo})`;
+    const bucket = sql<string>`case ${sql.join(FEE_BUCKETS.map((b) => b.max === null
+      ? sql`when ${startingFee} >= ${b.min} then ${b.key}`
+      : sql`when ${startingFee} >= ${b.min} and ${startingFee} < ${b.max} then ${b.key}`), sql` `)} end`;
+    const feeRows = this.baseQuery({ value: bucket, count })
+      .where(and(...this.conditions(search, "fee"), sql`${startingFee} is not null`))
+      .groupBy(sql`1`);
+
+    const [categories, cityCounts, genreCounts, fees] = await Promise.all([categoryRows, cityRows, genreRows, feeRows]) as any[][];
+
+    const feeCounts = new Map<string, number>(fees.map((f) => [f.value, f.count]));
+    return {
+      category: categories.map((c) => ({ value: c.value, label: String(c.value).replace(/_/g, " "), count: c.count })),
+      city: cityCounts.map((c) => ({ value: c.value, label: c.value, count: c.count })),
+      genre: genreCounts.map((g) => ({ value: g.value, label: g.label, count: g.count })),
+      fee: FEE_BUCKETS
+        .map((b) => ({ value: b.key, label: b.label, count: feeCounts.get(b.key) ?? 0 }))
+        .filter((b) => b.count > 0),
+    };
+  }
+
+  async searchArtists(params: ArtistSearchParams): Promise<ArtistSearchResult> {
+    const sort: ArtistSort = params.sort ?? "relevance";
+    const limit = clampPageSize(params.limit);
+    const search = this.parse(params);
+
+    const cursor = params.cursor ? decodeCursor(params.cursor, sort) : null;
+    if (params.cursor && !cursor) throw new Error("Invalid cursor");
+
+    const key = this.sortKey(sort, search);
+    const direction = ARTIST_SORT_DIRECTIONS[sort];
+    const conditions = this.conditions(search);
+
+    const pageConditions = [...conditions];
+    if (cursor) {
+      const beyond = direction === "asc" ? sql`${key} > ${cursor.key}::numeric` : sql`${key} < ${cursor.key}::numeric`;
+      pageConditions.push(sql`(${beyond} or (${key} = ${cursor.key}::numeric and ${artists.id} > ${cursor.id}))`);
+    }
+
+    const genreNames = sql<string[]>`coalesce((
+      select array_agg(g.name order by g.name)
+      from ${artistGenres} ag join ${genres} g on g.id = ag.genre_id
+      where ag.artist_id = ${artists.id}
+    ), '{}')`;
+
+    const pageQuery = this.baseQuery({
+      artist: artists,
+      userId: users.id,
+      userName: sql<string>`coalesce(${users.displayName}, ${users.username}, 'User')`,
+      city: cityName,
+      genres: genreNames,
+      sortKey: sql<string>`(${key})::text`,
+      relevance: search.tsQuery ? sql<number>`(${this.relevance(search)})::float8` : sql<null>`null`,
+    })
+      .where(and(...pageConditions))
+      .orderBy(direction === "asc" ? sql`${key} asc` : sql`${key} desc`, asc(artists.id))
+      .limit(limit + 1);
+
+    const totalQuery = this.baseQuery({ total: sql<number>`count(*)::int` }).where(and(...conditions));
+
+    const [rows, totalRows, facets] = await Promise.all([pageQuery, totalQuery, this.facets(search)]) as [any[], any[], Record<ArtistFacet, FacetBucket[]>];
+
+    const { page, nextCursor } = paginate(
+      rows.map((r) => ({ ...r, id: r.artist.id as number })),
+      limit,
+      sort,
+    );
+
+    return {
+      results: page.map((r) => ({
+        ...r.artist,
+        user: { id: r.userId, name: r.userName },
+        genres: r.genres ?? [],
+        city: r.city ?? null,
+        relevance: r.relevance === null ? null : Number(r.relevance),
+      })),
+      nextCursor,
+      total: totalRows[0]?.total ?? 0,
+      facets,
+    };
+  }
+
+  // ==========================================================================
+  // GLOBAL SEARCH
+  // ==========================================================================
+
+  /** The document matches the query by prefix full-text or by trigram similarity of its title */
+  private documentMatch(search: ParsedSearch): SQL {
+    return sql`(${searchDocuments.document} @@ to_tsquery('simple', ${search.tsQuery})
+      or ${search.text} <% ${searchDocuments.title})`;
+  }
+
+  private documentRank(search: ParsedSearch): SQL {
+    return sql`coalesce(ts_rank_cd(${searchDocuments.document}, to_tsquery('simple', ${search.tsQuery})), 0)
+      + coalesce(word_similarity(${search.text}, ${searchDocuments.title}), 0)`;
+  }
+
+  private documentJoin(entityType: IndexedEntity, id: SQL) {
+    return and(eq(searchDocuments.entityType, entityType), sql`${searchDocuments.entityId} = ${id}`);
+  }
+
+  private async globalArtists(search: ParsedSearch, limit: number, isAdmin: boolean): Promise<GlobalSearchRow[]> {
+    const conditions: SQL[] = [this.documentMatch(search)];
+    if (!isAdmin) conditions.push(sql`coalesce(${users.status}::text, 'active') not in ('suspended', 'deleted')`);
+
+    const rows = await db
+      .select({
+        id: artists.id,
+        title: searchDocuments.title,
+        category: artists.artistCategory,
+        city: cityName,
+        body: searchDocuments.body,
+      })
+      .from(artists)
+      .innerJoin(users, eq(artists.userId, users.id))
+      .innerJoin(searchDocuments, searchDocumentJoin)
+      .leftJoin(cities, eq(cities.cityId, artists.originCityId))
+      .where(and(...conditions))
+      .orderBy(sql`${this.documentRank(search)} + coalesce(${artists.ratingAvg}, 0) / 50 desc`, asc(artists.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      subtitle: [r.category?.replace(/_/g, " "), r.city].filter(Boolean).join(" · ") || null,
+      body: r.body,
+    }));
+  }
+
+  private async globalVenues(search: ParsedSearch, limit: number): Promise<GlobalSearchRow[]> {
+    const rows = await db
+      .select({
+        id: venues.id,
+        title: searchDocuments.title,
+        city: cities.name,
+        capacity: venues.capacity,
+        body: searchDocuments.body,
+      })
+      .from(venues)
+      .innerJoin(searchDocuments, this.documentJoin("venue", sql`${venues.id}`))
+      .leftJoin(cities, eq(cities.cityId, venues.cityId))
+      .where(this.documentMatch(search))
+      .orderBy(sql`${this.documentRank(search)} desc`, asc(venues.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      subtitle: [r.city, r.capacity ? `${r.capacity} capacity` : null].filter(Boolean).join(" · ") || null,
+      body: r.body,
+    }));
+  }
+
+  /** Non-admins only find public events that are open and not over yet */
+  private async globalEvents(search: ParsedSearch, limit: number, isAdmin: boolean): Promise<GlobalSearchRow[]> {
+    const conditions: SQL[] = [this.documentMatch(search)];
+    if (!isAdmin) {
+      conditions.push(
+        eq(events.visibility, "public"),
+        sql`coalesce(${events.status}, 'draft') not in ('draft', 'cancelled')`,
+        sql`coalesce(${events.endTime}, ${events.startTime}) >= now()`,
+      );
+    }
+
+    const rows = await db
+      .select({
+        id: events.id,
+        title: searchDocuments.title,
+        startTime: events.startTime,
+        venueName: venues.name,
+        body: searchDocuments.body,
+      })
+      .from(events)
+      .innerJoin(searchDocuments, this.documentJoin("event", sql`${events.id}`))
+      .leftJoin(venues, eq(venues.id, events.venueId))
+      .where(and(...conditions))
+      .orderBy(sql`${this.documentRank(search)} desc`, asc(events.startTime), asc(events.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      subtitle: [format(r.startTime, "d MMM yyyy"), r.venueName].filter(Boolean).join(" · "),
+      body: r.body,
+    }));
+  }
+
+  private async globalOrganizers(search: ParsedSearch, limit: number): Promise<GlobalSearchRow[]> {
+    const eventCount = sql<number>`(select count(*)::int from ${events} where ${events.organizerId} = ${promoters.id})`;
+    const rows = await db
+      .select({ id: promoters.id, title: searchDocuments.title, eventCount, body: searchDocuments.body })
+      .from(promoters)
+      .innerJoin(searchDocuments, this.documentJoin("organizer", sql`${promoters.id}`))
+      .where(this.documentMatch(search))
+      .orderBy(sql`${this.documentRank(search)} desc`, asc(promoters.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      subtitle: `${r.eventCount} event${r.eventCount === 1 ? "" : "s"}`,
+      body: r.body,
+    }));
+  }
+
+  /** Users by id, or by name, username or email containing the query */
+  private async globalUsers(text: string, id: number | null, limit: number): Promise<GlobalSearchRow[]> {
+    const pattern = containsPattern(text);
+    const matches = [
+      ilike(users.username, pattern),
+      ilike(users.email, pattern),
+      ilike(users.displayName, pattern),
+    ];
+    if (id !== null) matches.push(eq(users.id, id));
+
+    const rows = await db
+      .select({
+        id: users.id,
+        title: sql<string>`coalesce(${users.displayName}, ${users.username}, ${users.email})`,
+        email: users.email,
+        role: sql<string | null>`${users.metadata}->>'role'`,
+        status: users.status,
+      })
+      .from(users)
+      .where(or(...matches))
+      .orderBy(...(id !== null ? [sql`${users.id} = ${id} desc`] : []), desc(users.createdAt), asc(users.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      subtitle: [r.email, r.role, r.status && r.status !== "active" ? r.status : null].filter(Boolean).join(" · "),
+      body: null,
+    }));
+  }
+
+  /** Bookings are only looked up by id ("#42") */
+  private async globalBookings(id: number | null): Promise<GlobalSearchRow[]> {
+    if (id === null) return [];
+    const rows = await db
+      .select({ id: bookings.id, status: bookings.status, artistName: artists.name, eventTitle: events.title })
+      .from(bookings)
+      .leftJoin(artists, eq(artists.id, bookings.artistId))
+      .leftJoin(events, eq(events.id, bookings.eventId))
+      .where(eq(bookings.id, id));
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: `Booking #${r.id}`,
+      subtitle: [[r.artistName, r.eventTitle].filter(Boolean).join(" at "), r.status].filter(Boolean).join(" · "),
+      body: null,
+    }));
+  }
+
+  /**
+   * Best matches of each type the user's role may search. Types the role may
+   * not search are ignored when requested; groups with no matches are left out.
+   */
+  async searchAll(params: GlobalSearchParams, user: { role?: string | null; metadata?: unknown }): Promise<GlobalSearchResult> {
+    const role = user.role || (user.metadata as Record<string, any> | null)?.role || null;
+    const isAdmin = role === "admin" || role === "platform_admin";
+    const requested = splitFilterList(params.types);
+    const types = searchScopeFor(role).filter((t) => requested.length === 0 || requested.includes(t));
+    const limit = Math.max(1, Math.min(GLOBAL_SEARCH_MAX_LIMIT, params.limit ?? GLOBAL_SEARCH_LIMIT));
+
+    const search = this.parse({ q: params.q });
+    const query = normalizeSearchText(params.q);
+    const id = parseIdQuery(query);
+    if (!search.tsQuery && id === null) return { query, groups: [] };
+
+    const lookups = types.map(async (type): Promise<GlobalSearchRow[]> => {
+      if (type === "user") return this.globalUsers(query, id, limit);
+      if (type === "booking") return this.globalBookings(id);
+      if (!search.tsQuery) return [];
+      switch (type) {
+        case "artist": return this.globalArtists(search, limit, isAdmin);
+        case "venue": return this.globalVenues(search, limit);
+        case "event": return this.globalEvents(search, limit, isAdmin);
+        case "organizer": return this.globalOrganizers(search, limit);
+      }
+    });
+    const rowsByType = await Promise.all(lookups);
+
+    const terms = searchTerms(query);
+    const groups = types
+      .map((type, i) => ({
+        type,
+        results: rowsByType[i].map((row): GlobalSearchHit => ({
+          type,
+          id: row.id,
+          title: row.title,
+          subtitle: row.subtitle || null,
+          url: searchResultUrl(type, row.id, row.title, role),
+          highlights: {
+            title: highlightSegments(row.title, terms),
+            snippet: buildSnippet(row.body, terms),
+          },
+        })),
+      }))
+      .filter((group) => group.results.length > 0);
+
+    return { query, groups };
+  }
+}
+
+export const searchService = new SearchService();
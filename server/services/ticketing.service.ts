@@ -0,0 +1,893 @@
+import { randomBytes } from "crypto";
+import { db } from "../db";
+import {
+  events, promoters, venues, artists, bookings, payments, auditLogs,
+  ticketTiers, ticketOrders, tickets,
+} from "../../shared/schema";
+import type { Event, Ticket, TicketOrder, TicketTier } from "../../shared/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { emitDomainEvent } from "./event-bus";
+import { escrowService } from "./escrow.service";
+import { getPaymentGateway } from "./payment-gateway";
+import { jobScheduler } from "./job-scheduler.service";
+import { jobKey } from "../job-scheduler-utils";
+import {
+  ACTIVE_TICKET_STATUSES,
+  BOOKED_ARTIST_STATUSES,
+  ORDER_HOLD_MINUTES,
+  capacityError,
+  checkInDecision,
+  currentTierPrice,
+  earlyBirdRemaining,
+  normalizeTicketCode,
+  orderTotal,
+  priceTickets,
+  tierConfigError,
+  tierRemaining,
+  tierSaleState,
+  type CheckInResult,
+  type PricedTicket,
+  type TierSaleState,
+} from "../ticketing-utils";
+
+export const TICKET_ORDER_EXPIRY_JOB = "tickets.expire-order";
+
+type TicketTypeValue = TicketTier["ticketType"];
+
+export interface TicketTierInput {
+  name: string;
+  description?: string | null;
+  ticketType: TicketTypeValue;
+  price: number;
+  earlyBirdPrice?: number | null;
+  earlyBirdEndsAt?: Date | null;
+  earlyBirdQuota?: number | null;
+  quota?: number | null;
+  salesStartAt?: Date | null;
+  salesEndAt?: Date | null;
+  maxPerOrder?: number;
+  active?: boolean;
+  sortOrder?: number;
+}
+
+export interface CreateOrderInput {
+  items: { tierId: number; quantity: number }[];
+  buyerName?: string;
+  buyerEmail?: string;
+}
+
+export interface GuestInput {
+  holderName: string;
+  holderEmail?: string;
+  note?: string;
+}
+
+export interface TierView extends TicketTier {
+  sold: number;
+  remaining: number | null;
+  saleState: TierSaleState;
+  currentPrice: number;
+  earlyBird: boolean;
+  earlyBirdRemaining: number | null;
+}
+
+export interface TicketStorefront {
+  event: Pick<Event, "id" | "title" | "description" | "startTime" | "doorTime" | "endTime" | "currency">;
+  tiers: TierView[];
+}
+
+export interface TicketingSummary {
+  event: Pick<Event, "id" | "title" | "startTime" | "visibility" | "capacityTotal" | "capacitySeated">;
+  tiers: TierView[];
+  totals: {
+    sold: number;
+    reserved: number;
+    guestlist: number;
+    checkedIn: number;
+    capacityRemaining: number | null;
+    revenue: number;
+  };
+}
+
+export interface OrderWithTickets extends TicketOrder {
+  event: { id: number; title: string; startTime: Date } | null;
+  tickets: (Ticket & { tierName: string | null })[];
+}
+
+export interface CheckInResponse {
+  result: CheckInResult["result"];
+  message: string;
+  ticket: Ticket | null;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function generateTicketCode(): string {
+  return `TKT${randomBytes(8).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Ticketing Service
+ *
+ * Sells entry to public events. Organizers define tiers (price, quota, sale
+ * window, optional early-bird price that cuts over by date or quota). A buyer
+ * order holds "reserved" tickets for ORDER_HOLD_MINUTES while its payment is
+ * taken through the payment gateway; unpaid orders expire and free their
+ * places. The organizer and booked artists keep a guestlist whose entries
+ * count against the same capacity. At the door, the organizer or the venue
+ * scans the ticket's QR code and the ticket is marked used.
+ *
+ * Capacity checks run under a row lock on the event so concurrent orders and
+ * guestlist additions cannot oversell it.
+ */
+export class TicketingService {
+  // --------------------------------------------------------------------------
+  // Access
+  // --------------------------------------------------------------------------
+
+  private async getEventContext(eventId: number) {
+    const [event] = await db.select().from(events).where(eq(events.id, eventId));
+    if (!event) throw new Error("Event not found");
+
+    const [organizer] = event.organizerId
+      ? await db.select().from(promoters).where(eq(promoters.id, event.organizerId))
+      : [];
+    const [venue] = event.venueId ? await db.select().from(venues).where(eq(venues.id, event.venueId)) : [];
+
+    return {
+      event,
+      organizerUserId: organizer?.userId ?? null,
+      venueUserId: venue?.userId ?? null,
+    };
+  }
+
+  private async assertOrganizer(eventId: number, userId: number, isAdmin: boolean) {
+    const context = await this.getEventContext(eventId);
+    if (!isAdmin && context.organizerUserId !== userId) {
+      throw new Error("Only the event's organizer can manage ticketing");
+    }
+    return context;
+  }
+
+  /** The caller's guestlist role for the event: its organizer, or an artist booked on it */
+  private async getGuestlistRole(eventId: number, userId: number, isAdmin: boolean): Promise<"organizer" | "artist" | null> {
+    const { organizerUserId } = await this.getEventContext(eventId);
+    if (isAdmin || organizerUserId === userId) return "organizer";
+
+    const [booked] = await db.select({ id: bookings.id })
+      .from(bookings)
+      .innerJoin(artists, eq(bookings.artistId, artists.id))
+      .where(and(
+        eq(bookings.eventId, eventId),
+        eq(artists.userId, userId),
+        inArray(bookings.status, [...BOOKED_ARTIST_STATUSES]),
+      ));
+    return booked ? "artist" : null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Counts
+  // --------------------------------------------------------------------------
+
+  /** Active tickets per tier, with how many of them sold at the early-bird price */
+  private async tierCounts(executor: Tx | typeof db, eventId: number) {
+    const rows = await executor.select({
+      tierId: tickets.tierId,
+      sold: sql<number>`count(*)::int`,
+      earlyBirdSold: sql<number>`count(*) filter (where ${tickets.earlyBird})::int`,
+    })
+      .from(tickets)
+      .where(and(eq(tickets.eventId, eventId), inArray(tickets.status, [...ACTIVE_TICKET_STATUSES])))
+      .groupBy(tickets.tierId);
+
+    return new Map(rows.filter((r) => r.tierId !== null).map((r) => [r.tierId as number, r]));
+  }
+
+  private async capacityState(executor: Tx | typeof db, event: Event) {
+    const [row] = await executor.select({
+      activeTotal: sql<number>`count(*)::int`,
+      activeSeated: sql<number>`count(*) filter (where ${tickets.ticketType} = 'reserved')::int`,
+    })
+      .from(tickets)
+      .where(and(eq(tickets.eventId, event.id), inArray(tickets.status, [...ACTIVE_TICKET_STATUSES])));
+
+    return {
+      capacityTotal: event.capacityTotal ?? null,
+      capacitySeated: event.capacitySeated ?? null,
+      activeTotal: row?.activeTotal ?? 0,
+      activeSeated: row?.activeSeated ?? 0,
+    };
+  }
+
+  private toTierView(tier: TicketTier, counts: { sold: number; earlyBirdSold: number } | undefined, event: Event, now: Date): TierView {
+    const sold = counts?.sold ?? 0;
+    const earlyBirdSold = counts?.earlyBirdSold ?? 0;
+    const next = currentTierPrice(tier, earlyBirdSold, now);
+    return {
+      ...tier,
+      sold,
+      remaining: tierRemaining(tier.quota, sold),
+      saleState: tierSaleState(tier, now, event.endTime ?? event.startTime),
+      currentPrice: next.price,
+      earlyBird: next.earlyBird,
+      earlyBirdRemaining: earlyBirdRemaining(tier, earlyBirdSold, now),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Tiers
+  // --------------------------------------------------------------------------
+
+  /**
+   * The event and its tiers with live pricing and availability. Buyers only
+   * see active tiers of public events; the organizer (and admins) see every tier.
+   */
+  async listTiers(eventId: number, userId: number, isAdmin: boolean, now: Date = new Date()): Promise<TicketStorefront> {
+    const { event, organizerUserId } = await this.getEventContext(eventId);
+    const manager = isAdmin || organizerUserId === userId;
+    if (!manager && event.visibility !== "public") {
+      throw new Error("Event not found");
+    }
+
+    const tiers = await db.select().from(ticketTiers)
+      .where(manager ? eq(ticketTiers.eventId, eventId) : and(eq(ticketTiers.eventId, eventId), eq(ticketTiers.active, true)))
+      .orderBy(asc(ticketTiers.sortOrder), asc(ticketTiers.id));
+    const counts = await this.tierCounts(db, eventId);
+    return {
+      event: {
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        startTime: event.startTime,
+        doorTime: event.doorTime,
+        endTime: event.endTime,
+        currency: event.currency,
+      },
+      tiers: tiers.map((tier) => this.toTierView(tier, counts.get(tier.id), event, now)),
+    };
+  }
+
+  async createTier(eventId: number, userId: number, isAdmin: boolean, input: TicketTierInput): Promise<TicketTier> {
+    const { event } = await this.assertOrganizer(eventId, userId, isAdmin);
+    if (event.visibility !== "public") {
+      throw new Error("Tickets can only be sold for public events");
+    }
+    const invalid = tierConfigError({ ...input, active: input.active ?? true });
+    if (invalid) throw new Error(invalid);
+
+    return db.transaction(async (tx) => {
+      const [tier] = await tx.insert(ticketTiers).values({
+        eventId,
+        name: input.name,
+        description: input.description ?? null,
+        ticketType: input.ticketType,
+        price: input.price.toFixed(2),
+        earlyBirdPrice: input.earlyBirdPrice != null ? input.earlyBirdPrice.toFixed(2) : null,
+        earlyBirdEndsAt: input.earlyBirdEndsAt ?? null,
+        earlyBirdQuota: input.earlyBirdQuota ?? null,
+        currency: event.currency || "INR",
+        quota: input.quota ?? null,
+        salesStartAt: input.salesStartAt ?? null,
+        salesEndAt: input.salesEndAt ?? null,
+        maxPerOrder: input.maxPerOrder ?? 10,
+        active: input.active ?? true,
+        sortOrder: input.sortOrder ?? 0,
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "ticket_tier_created",
+        entityType: "ticket_tier",
+        entityId: tier.id,
+        context: { eventId, name: tier.name, price: tier.price, quota: tier.quota },
+      });
+      return tier;
+    });
+  }
+
+  async updateTier(tierId: number, userId: number, isAdmin: boolean, input: Partial<TicketTierInput>): Promise<TicketTier> {
+    const [tier] = await db.select().from(ticketTiers).where(eq(ticketTiers.id, tierId));
+    if (!tier) throw new Error("Ticket tier not found");
+    await this.assertOrganizer(tier.eventId, userId, isAdmin);
+
+    const sold = (await this.tierCounts(db, tier.eventId)).get(tierId)?.sold ?? 0;
+    if (sold > 0 && input.ticketType && input.ticketType !== tier.ticketType) {
+      throw new Error("The ticket type cannot change once tickets have been sold");
+    }
+    if (input.quota != null && input.quota < sold) {
+      throw new Error(`Quota cannot be below the ${sold} tickets already sold`);
+    }
+
+    const merged = {
+      ticketType: input.ticketType ?? tier.ticketType,
+      price: input.price ?? tier.price,
+      earlyBirdPrice: input.earlyBirdPrice !== undefined ? input.earlyBirdPrice : tier.earlyBirdPrice,
+      earlyBirdEndsAt: input.earlyBirdEndsAt !== undefined ? input.earlyBirdEndsAt : tier.earlyBirdEndsAt,
+      earlyBirdQuota: input.earlyBirdQuota !== undefined ? input.earlyBirdQuota : tier.earlyBirdQuota,
+      quota: input.quota !== undefined ? input.quota : tier.quota,
+      salesStartAt: input.salesStartAt !== undefined ? input.salesStartAt : tier.salesStartAt,
+      salesEndAt: input.salesEndAt !== undefined ? input.salesEndAt : tier.salesEndAt,
+      maxPerOrder: input.maxPerOrder ?? tier.maxPerOrder,
+      active: input.active ?? tier.active,
+    };
+    const invalid = tierConfigError(merged);
+    if (invalid) throw new Error(invalid);
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(ticketTiers).set({
+        name: input.name ?? tier.name,
+        description: input.description !== undefined ? input.description : tier.description,
+        ...merged,
+        price: Number(merged.price).toFixed(2),
+        earlyBirdPrice: merged.earlyBirdPrice != null ? Number(merged.earlyBirdPrice).toFixed(2) : null,
+        sortOrder: input.sortOrder ?? tier.sortOrder,
+        updatedAt: new Date(),
+      }).where(eq(ticketTiers.id, tierId)).returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "ticket_tier_updated",
+        entityType: "ticket_tier",
+        entityId: tierId,
+        context: { eventId: tier.eventId, changes: Object.keys(input) },
+      });
+      return updated;
+    });
+  }
+
+  /**
+   * Deletes a tier nobody has bought yet. A tier with tickets is deactivated
+   * instead so the issued tickets keep their tier.
+   */
+  async removeTier(tierId: number, userId: number, isAdmin: boolean): Promise<{ deleted: boolean }> {
+    const [tier] = await db.select().from(ticketTiers).where(eq(ticketTiers.id, tierId));
+    if (!tier) throw new Error("Ticket tier not found");
+    await this.assertOrganizer(tier.eventId, userId, isAdmin);
+
+    const [issued] = await db.select({ id: tickets.id }).from(tickets).where(eq(tickets.tierId, tierId)).limit(1);
+
+    await db.transaction(async (tx) => {
+      if (issued) {
+        await tx.update(ticketTiers).set({ active: false, updatedAt: new Date() }).where(eq(ticketTiers.id, tierId));
+      } else {
+        await tx.delete(ticketTiers).where(eq(ticketTiers.id, tierId));
+      }
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: issued ? "ticket_tier_deactivated" : "ticket_tier_deleted",
+        entityType: "ticket_tier",
+        entityId: tierId,
+        context: { eventId: tier.eventId, name: tier.name },
+      });
+    });
+    return { deleted: !issued };
+  }
+
+  /** Organizer dashboard: tiers, sales, guestlist size, check-ins and remaining capacity */
+  async getSummary(eventId: number, userId: number, isAdmin: boolean, now: Date = new Date()): Promise<TicketingSummary> {
+    const { event } = await this.assertOrganizer(eventId, userId, isAdmin);
+    const { tiers } = await this.listTiers(eventId, userId, true, now);
+
+    const [counts] = await db.select({
+      sold: sql<number>`count(*) filter (where ${tickets.status} in ('valid', 'used') and ${tickets.ticketType} <> 'guestlist')::int`,
+      reserved: sql<number>`count(*) filter (where ${tickets.status} = 'reserved')::int`,
+      guestlist: sql<number>`count(*) filter (where ${tickets.status} in ('valid', 'used') and ${tickets.ticketType} = 'guestlist')::int`,
+      checkedIn: sql<number>`count(*) filter (where ${tickets.status} = 'used')::int`,
+    }).from(tickets).where(eq(tickets.eventId, eventId));
+
+    const [revenue] = await db.select({ total: sql<string>`coalesce(sum(${ticketOrders.totalAmount}), 0)` })
+      .from(ticketOrders)
+      .where(and(eq(ticketOrders.eventId, eventId), eq(ticketOrders.status, "paid")));
+
+    const active = (counts?.sold ?? 0) + (counts?.reserved ?? 0) + (counts?.guestlist ?? 0);
+    return {
+      event: {
+        id: event.id,
+        title: event.title,
+        startTime: event.startTime,
+        visibility: event.visibility,
+        capacityTotal: event.capacityTotal,
+        capacitySeated: event.capacitySeated,
+      },
+      tiers,
+      totals: {
+        sold: counts?.sold ?? 0,
+        reserved: counts?.reserved ?? 0,
+        guestlist: counts?.guestlist ?? 0,
+        checkedIn: counts?.checkedIn ?? 0,
+        capacityRemaining: event.capacityTotal != null ? Math.max(event.capacityTotal - active, 0) : null,
+        revenue: Number(revenue?.total ?? 0),
+      },
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Orders
+  // --------------------------------------------------------------------------
+
+  /**
+   * Reserves tickets for a buyer. Paid orders get an initiated payment row and
+   * expire after ORDER_HOLD_MINUTES unless paid; free orders are issued at once.
+   */
+  async createOrder(eventId: number, buyerUserId: number, input: CreateOrderInput, now: Date = new Date()): Promise<TicketOrder> {
+    const { organizerUserId } = await this.getEventContext(eventId);
+    if (input.items.length === 0) throw new Error("Select at least one ticket");
+    const tierIds = input.items.map((i) => i.tierId);
+    if (new Set(tierIds).size !== tierIds.length) throw new Error("Each tier can only appear once in an order");
+
+    const order = await db.transaction(async (tx) => {
+      // Serialises capacity checks for this event
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for("update");
+      if (!event || event.visibility !== "public") throw new Error("Event not found");
+      if (event.status === "cancelled") throw new Error("This event has been cancelled");
+
+      const tiers = await tx.select().from(ticketTiers)
+        .where(and(eq(ticketTiers.eventId, eventId), inArray(ticketTiers.id, tierIds)));
+      const counts = await this.tierCounts(tx, eventId);
+      const closesAt = event.endTime ?? event.startTime;
+
+      const lines: { tier: TicketTier; priced: PricedTicket[] }[] = [];
+      for (const item of input.items) {
+        const tier = tiers.find((t) => t.id === item.tierId);
+        if (!tier) throw new Error("Ticket tier not found");
+
+        const state = tierSaleState(tier, now, closesAt);
+        if (state === "not_started") throw new Error(`${tier.name} is not on sale yet`);
+        if (state !== "on_sale") throw new Error(`${tier.name} is no longer on sale`);
+        if (item.quantity > tier.maxPerOrder) {
+          throw new Error(`At most ${tier.maxPerOrder} ${tier.name} tickets per order`);
+        }
+
+        const tierCount = counts.get(tier.id);
+        const left = tierRemaining(tier.quota, tierCount?.sold ?? 0);
+        if (left !== null && item.quantity > left) {
+          throw new Error(left === 0 ? `${tier.name} is sold out` : `Only ${left} ${tier.name} tickets left`);
+        }
+        lines.push({ tier, priced: priceTickets(tier, item.quantity, tierCount?.earlyBirdSold ?? 0, now) });
+      }
+
+      const adding = {
+        total: lines.reduce((sum, l) => sum + l.priced.length, 0),
+        seated: lines.filter((l) => l.tier.ticketType === "reserved").reduce((sum, l) => sum + l.priced.length, 0),
+      };
+      const full = capacityError(await this.capacityState(tx, event), adding);
+      if (full) throw new Error(full);
+
+      const total = orderTotal(lines.flatMap((l) => l.priced));
+      const currency = event.currency || "INR";
+      const free = total === 0;
+      const expiresAt = new Date(now.getTime() + ORDER_HOLD_MINUTES * 60 * 1000);
+
+      const [created] = await tx.insert(ticketOrders).values({
+        eventId,
+        buyerUserId,
+        status: free ? "paid" : "pending",
+        items: lines.map((l) => ({
+          tierId: l.tier.id,
+          quantity: l.priced.length,
+          unitPrice: l.priced[0].price,
+          earlyBird: l.priced.filter((p) => p.earlyBird).length,
+          amount: orderTotal(l.priced),
+        })),
+        totalAmount: total.toFixed(2),
+        currency,
+        buyerName: input.buyerName ?? null,
+        buyerEmail: input.buyerEmail ?? null,
+        expiresAt: free ? null : expiresAt,
+        paidAt: free ? now : null,
+      }).returning();
+
+      await tx.insert(tickets).values(lines.flatMap((l) => l.priced.map((p) => ({
+        eventId,
+        tierId: l.tier.id,
+        orderId: created.id,
+        ticketType: l.tier.ticketType,
+        code: generateTicketCode(),
+        status: free ? "valid" as const : "reserved" as const,
+        price: p.price.toFixed(2),
+        earlyBird: p.earlyBird,
+        holderName: input.buyerName ?? null,
+        holderEmail: input.buyerEmail ?? null,
+      }))));
+
+      let result = created;
+      if (!free) {
+        const [payment] = await tx.insert(payments).values({
+          bookingId: null,
+          payerId: buyerUserId,
+          payeeId: organizerUserId,
+          amount: total.toFixed(2),
+          currency,
+          paymentType: "ticket",
+          status: "initiated",
+          gateway: getPaymentGateway().name,
+          dueAt: expiresAt,
+          metadata: { ticketOrderId: created.id, eventId },
+        }).returning();
+        [result] = await tx.update(ticketOrders).set({ paymentId: payment.id })
+          .where(eq(ticketOrders.id, created.id)).returning();
+      }
+
+      await tx.insert(auditLogs).values({
+        who: buyerUserId,
+        action: "ticket_order_created",
+        entityType: "ticket_order",
+        entityId: created.id,
+        context: { eventId, items: created.items, total: created.totalAmount },
+      });
+
+      if (free) {
+        await this.emitOrderPaid(tx, result, event.title, organizerUserId, buyerUserId);
+      }
+      return result;
+    });
+
+    if (order.status === "pending" && order.expiresAt) {
+      try {
+        await jobScheduler.schedule(TICKET_ORDER_EXPIRY_JOB, { orderId: order.id }, order.expiresAt, {
+          key: jobKey(TICKET_ORDER_EXPIRY_JOB, order.id),
+        });
+      } catch (error) {
+        // payOrder expires overdue orders itself, so a missed job only delays freeing the places
+        console.error("Failed to schedule ticket order expiry:", error);
+      }
+    }
+    return order;
+  }
+
+  private async emitOrderPaid(tx: Tx, order: TicketOrder, eventTitle: string, organizerUserId: number | null, buyerUserId: number) {
+    const quantity = (order.items as { quantity: number }[]).reduce((sum, i) => sum + i.quantity, 0);
+    await emitDomainEvent("ticket.order_paid", {
+      entityType: "ticket_order",
+      entityId: order.id,
+      eventId: order.eventId,
+      eventTitle,
+      quantity,
+      amount: order.totalAmount,
+      targetUserId: organizerUserId,
+      actionUrl: `/organizer/events/${order.eventId}/tickets`,
+    }, buyerUserId, tx);
+  }
+
+  /** Takes payment for a pending order through the gateway and issues its tickets */
+  async payOrder(orderId: number, userId: number, now: Date = new Date()): Promise<TicketOrder> {
+    const [order] = await db.select().from(ticketOrders).where(eq(ticketOrders.id, orderId));
+    if (!order) throw new Error("Order not found");
+    if (order.buyerUserId !== userId) throw new Error("Only the buyer can pay for this order");
+    if (order.status !== "pending") throw new Error("Order is not awaiting payment");
+    if (order.expiresAt && now >= order.expiresAt) {
+      await this.expireOrder(orderId, now);
+      throw new Error("Order has expired");
+    }
+
+    const [payment] = order.paymentId ? await db.select().from(payments).where(eq(payments.id, order.paymentId)) : [];
+    if (!payment) throw new Error("Payment not found");
+    if (payment.status !== "initiated" && payment.status !== "failed") {
+      throw new Error(`Payment cannot be taken from status ${payment.status}`);
+    }
+
+    const gateway = getPaymentGateway(payment.gateway);
+    const amount = Number(payment.amount);
+    const auth = await gateway.authorize({
+      amount,
+      currency: payment.currency || "INR",
+      reference: `ticket-order-${order.id}-${payment.id}`,
+    });
+    const capture = auth.success ? await gateway.capture(auth.transactionId, amount) : auth;
+
+    await db.update(payments).set({
+      status: capture.success ? "captured" : "failed",
+      gatewayTransactionId: auth.success ? auth.transactionId : payment.gatewayTransactionId,
+      gatewayResponse: capture.raw,
+      completedAt: capture.success ? new Date() : null,
+    }).where(eq(payments.id, payment.id));
+
+    if (!capture.success) {
+      throw new Error(capture.error || "Payment failed");
+    }
+
+    const { event, organizerUserId } = await this.getEventContext(order.eventId);
+    const paid = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(ticketOrders)
+        .set({ status: "paid", paidAt: now, updatedAt: now })
+        .where(and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "pending")))
+        .returning();
+      if (!updated) return null;
+
+      await tx.update(tickets)
+        .set({ status: "valid", updatedAt: now })
+        .where(and(eq(tickets.orderId, orderId), eq(tickets.status, "reserved")));
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "ticket_order_paid",
+        entityType: "ticket_order",
+        entityId: orderId,
+        context: { eventId: order.eventId, paymentId: payment.id, amount: payment.amount },
+      });
+
+      await this.emitOrderPaid(tx, updated, event.title, organizerUserId, userId);
+      return updated;
+    });
+
+    if (!paid) {
+      // The order expired or was cancelled while the payment was in flight
+      await escrowService.refundPayment(payment.id, null, "Ticket order closed before payment completed", userId);
+      throw new Error("Order has expired");
+    }
+
+    await jobScheduler.cancel(jobKey(TICKET_ORDER_EXPIRY_JOB, orderId));
+    return paid;
+  }
+
+  private async closePendingOrder(orderId: number, status: "expired" | "cancelled", actorUserId: number | null, now: Date): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [closed] = await tx.update(ticketOrders)
+        .set({ status, cancelledAt: now, updatedAt: now })
+        .where(and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "pending")))
+        .returning();
+      if (!closed) return false;
+
+      await tx.update(tickets)
+        .set({ status: "cancelled", updatedAt: now })
+        .where(eq(tickets.orderId, orderId));
+      if (closed.paymentId) {
+        await tx.update(payments)
+          .set({ status: "cancelled" })
+          .where(and(eq(payments.id, closed.paymentId), inArray(payments.status, ["initiated", "failed"])));
+      }
+
+      await tx.insert(auditLogs).values({
+        who: actorUserId,
+        action: status === "expired" ? "ticket_order_expired" : "ticket_order_cancelled",
+        entityType: "ticket_order",
+        entityId: orderId,
+        context: { eventId: closed.eventId },
+      });
+      return true;
+    });
+  }
+
+  /** Releases an unpaid order's places once its hold has run out. Returns true if it expired. */
+  async expireOrder(orderId: number, now: Date = new Date()): Promise<boolean> {
+    const [order] = await db.select().from(ticketOrders).where(eq(ticketOrders.id, orderId));
+    if (!order || order.status !== "pending" || !order.expiresAt || now < order.expiresAt) return false;
+    return this.closePendingOrder(orderId, "expired", null, now);
+  }
+
+  /** The buyer abandons an unpaid order */
+  async cancelOrder(orderId: number, userId: number, now: Date = new Date()): Promise<void> {
+    const [order] = await db.select().from(ticketOrders).where(eq(ticketOrders.id, orderId));
+    if (!order) throw new Error("Order not found");
+    if (order.buyerUserId !== userId) throw new Error("Only the buyer can cancel this order");
+    if (order.status !== "pending") throw new Error("Only unpaid orders can be cancelled; ask the organizer for a refund");
+
+    if (await this.closePendingOrder(orderId, "cancelled", userId, now)) {
+      await jobScheduler.cancel(jobKey(TICKET_ORDER_EXPIRY_JOB, orderId));
+    }
+  }
+
+  /** Organizer or admin refunds a paid order in full and voids its tickets */
+  async refundOrder(orderId: number, actorUserId: number, isAdmin: boolean, reason: string): Promise<TicketOrder> {
+    const [order] = await db.select().from(ticketOrders).where(eq(ticketOrders.id, orderId));
+    if (!order) throw new Error("Order not found");
+    const { event } = await this.assertOrganizer(order.eventId, actorUserId, isAdmin);
+    if (order.status !== "paid") throw new Error("Only paid orders can be refunded");
+
+    const [used] = await db.select({ id: tickets.id }).from(tickets)
+      .where(and(eq(tickets.orderId, orderId), eq(tickets.status, "used"))).limit(1);
+    if (used) throw new Error("Tickets from this order have already been checked in");
+
+    if (order.paymentId && Number(order.totalAmount) > 0) {
+      await escrowService.refundPayment(order.paymentId, null, reason, actorUserId);
+    }
+
+    const now = new Date();
+    return db.transaction(async (tx) => {
+      const [refunded] = await tx.update(ticketOrders)
+        .set({ status: "refunded", cancelledAt: now, updatedAt: now })
+        .where(eq(ticketOrders.id, orderId))
+        .returning();
+      await tx.update(tickets)
+        .set({ status: "cancelled", updatedAt: now })
+        .where(eq(tickets.orderId, orderId));
+
+      await tx.insert(auditLogs).values({
+        who: actorUserId,
+        action: "ticket_order_refunded",
+        entityType: "ticket_order",
+        entityId: orderId,
+        context: { eventId: order.eventId, amount: order.totalAmount, reason },
+      });
+
+      await emitDomainEvent("ticket.order_refunded", {
+        entityType: "ticket_order",
+        entityId: orderId,
+        eventId: order.eventId,
+        eventTitle: event.title,
+        amount: order.totalAmount,
+        reason,
+        targetUserId: order.buyerUserId,
+        actionUrl: "/tickets",
+      }, actorUserId, tx);
+
+      return refunded;
+    });
+  }
+
+  /** Orders placed by the caller, newest first, with their tickets */
+  async listOrdersForBuyer(userId: number): Promise<OrderWithTickets[]> {
+    const orders = await db.select().from(ticketOrders)
+      .where(and(eq(ticketOrders.buyerUserId, userId), inArray(ticketOrders.status, ["pending", "paid", "refunded"])))
+      .orderBy(desc(ticketOrders.createdAt));
+    if (orders.length === 0) return [];
+
+    const orderIds = orders.map((o) => o.id);
+    const eventIds = Array.from(new Set(orders.map((o) => o.eventId)));
+    const orderTickets = await db.select({ ticket: tickets, tierName: ticketTiers.name })
+      .from(tickets)
+      .leftJoin(ticketTiers, eq(tickets.tierId, ticketTiers.id))
+      .where(inArray(tickets.orderId, orderIds))
+      .orderBy(asc(tickets.id));
+    const orderEvents = await db.select({ id: events.id, title: events.title, startTime: events.startTime })
+      .from(events)
+      .where(inArray(events.id, eventIds));
+
+    return orders.map((order) => ({
+      ...order,
+      event: orderEvents.find((e) => e.id === order.eventId) ?? null,
+      tickets: orderTickets
+        .filter((t) => t.ticket.orderId === order.id)
+        .map((t) => ({ ...t.ticket, tierName: t.tierName })),
+    }));
+  }
+
+  /**
+   * A ticket the caller may display: the buyer, whoever added the guestlist
+   * entry, the event's organizer or an admin.
+   */
+  async getTicketForHolder(code: string, userId: number, isAdmin: boolean): Promise<Ticket> {
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.code, normalizeTicketCode(code)));
+    if (!ticket) throw new Error("Ticket not found");
+    if (isAdmin || ticket.addedByUserId === userId) return ticket;
+
+    if (ticket.orderId) {
+      const [order] = await db.select().from(ticketOrders).where(eq(ticketOrders.id, ticket.orderId));
+      if (order?.buyerUserId === userId) return ticket;
+    }
+    const { organizerUserId } = await this.getEventContext(ticket.eventId);
+    if (organizerUserId === userId) return ticket;
+
+    throw new Error("Not authorized to view this ticket");
+  }
+
+  // --------------------------------------------------------------------------
+  // Guestlist
+  // --------------------------------------------------------------------------
+
+  /** The organizer sees the whole guestlist; a booked artist sees the guests they added */
+  async listGuestlist(eventId: number, userId: number, isAdmin: boolean): Promise<Ticket[]> {
+    const role = await this.getGuestlistRole(eventId, userId, isAdmin);
+    if (!role) throw new Error("Only the event's organizer or booked artists can manage the guestlist");
+
+    const conditions = [eq(tickets.eventId, eventId), eq(tickets.ticketType, "guestlist"), inArray(tickets.status, ["valid", "used"])];
+    if (role === "artist") conditions.push(eq(tickets.addedByUserId, userId));
+    return db.select().from(tickets).where(and(...conditions)).orderBy(asc(tickets.holderName));
+  }
+
+  async addGuest(eventId: number, userId: number, isAdmin: boolean, input: GuestInput): Promise<Ticket> {
+    const role = await this.getGuestlistRole(eventId, userId, isAdmin);
+    if (!role) throw new Error("Only the event's organizer or booked artists can manage the guestlist");
+    const { organizerUserId } = await this.getEventContext(eventId);
+
+    return db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for("update");
+      if (!event) throw new Error("Event not found");
+      const full = capacityError(await this.capacityState(tx, event), { total: 1, seated: 0 });
+      if (full) throw new Error(full);
+
+      const [guest] = await tx.insert(tickets).values({
+        eventId,
+        ticketType: "guestlist",
+        code: generateTicketCode(),
+        status: "valid",
+        price: "0",
+        holderName: input.holderName,
+        holderEmail: input.holderEmail ?? null,
+        addedByUserId: userId,
+        addedByRole: role,
+        note: input.note ?? null,
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "guestlist_added",
+        entityType: "ticket",
+        entityId: guest.id,
+        context: { eventId, role, holderName: input.holderName },
+      });
+
+      if (role === "artist") {
+        await emitDomainEvent("ticket.guest_added", {
+          entityType: "ticket",
+          entityId: guest.id,
+          eventId,
+          eventTitle: event.title,
+          guestName: input.holderName,
+          targetUserId: organizerUserId,
+          actionUrl: `/organizer/events/${eventId}/tickets`,
+        }, userId, tx);
+      }
+      return guest;
+    });
+  }
+
+  /** Removes a guest who has not arrived yet; artists can only remove their own guests */
+  async removeGuest(eventId: number, ticketId: number, userId: number, isAdmin: boolean): Promise<void> {
+    const role = await this.getGuestlistRole(eventId, userId, isAdmin);
+    if (!role) throw new Error("Only the event's organizer or booked artists can manage the guestlist");
+
+    const [guest] = await db.select().from(tickets).where(and(
+      eq(tickets.id, ticketId),
+      eq(tickets.eventId, eventId),
+      eq(tickets.ticketType, "guestlist"),
+    ));
+    if (!guest || guest.status === "cancelled") throw new Error("Guest not found");
+    if (role === "artist" && guest.addedByUserId !== userId) {
+      throw new Error("Only the event's organizer can remove guests added by someone else");
+    }
+    if (guest.status === "used") throw new Error("This guest has already checked in");
+
+    await db.transaction(async (tx) => {
+      await tx.update(tickets).set({ status: "cancelled", updatedAt: new Date() }).where(eq(tickets.id, ticketId));
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "guestlist_removed",
+        entityType: "ticket",
+        entityId: ticketId,
+        context: { eventId, holderName: guest.holderName },
+      });
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Door check-in
+  // --------------------------------------------------------------------------
+
+  /**
+   * Validates a scanned code for the event and marks the ticket used. The
+   * ticket row is locked so the same code scanned at two doors admits once.
+   */
+  async checkIn(eventId: number, rawCode: string, userId: number, isAdmin: boolean): Promise<CheckInResponse> {
+    const { organizerUserId, venueUserId } = await this.getEventContext(eventId);
+    if (!isAdmin && userId !== organizerUserId && userId !== venueUserId) {
+      throw new Error("Only the event's organizer or venue can check tickets in");
+    }
+    const code = normalizeTicketCode(rawCode);
+
+    return db.transaction(async (tx) => {
+      const [ticket] = await tx.select().from(tickets).where(eq(tickets.code, code)).for("update");
+      const decision = checkInDecision(ticket ?? null, eventId);
+      if (decision.result !== "admitted") {
+        return { ...decision, ticket: ticket && ticket.eventId === eventId ? ticket : null };
+      }
+
+      const now = new Date();
+      const [used] = await tx.update(tickets)
+        .set({ status: "used", checkedInAt: now, checkedInBy: userId, updatedAt: now })
+        .where(eq(tickets.id, ticket.id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        who: userId,
+        action: "ticket_checked_in",
+        entityType: "ticket",
+        entityId: ticket.id,
+        context: { eventId, ticketType: ticket.ticketType },
+      });
+      return { ...decision, ticket: used };
+    });
+  }
+}
+
+export const ticketingService = new TicketingService();
@@ -0,0 +1,237 @@
+import { db } from "../db";
+import { auditLogs, twoFactorRecoveryCodes, userTwoFactor, users } from "../../shared/schema";
+import type { UserTwoFactor } from "../../shared/schema";
+import { and, count, eq, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import QRCode from "qrcode";
+import { decrypt, encrypt, isEncryptionConfigured } from "./encryption.service";
+import type { Session, SessionData } from "express-session";
+import {
+  CODE_LOCKOUT_MS,
+  CODE_MAX_ATTEMPTS,
+  STEP_UP_TTL_MS,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isFresh,
+  isTwoFactorRequired,
+  lockoutMessage,
+  looksLikeTotp,
+  matchTotp,
+  otpauthUrl,
+  type TwoFactorMethod,
+} from "../two-factor-utils";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Password checked, waiting for the second factor before req.login */
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    /** When this session last passed a two-factor check (login or step-up) */
+    twoFactorVerifiedAt?: number;
+    /** Fresh check for one sensitive action; spent by the action */
+    stepUp?: { at: number; method: TwoFactorMethod };
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Admin roles must have 2FA on */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const SEALED_PREFIX = "enc:";
+
+function sealSecret(secret: string): string {
+  if (!isEncryptionConfigured()) return secret;
+  const { iv, tag, encrypted } = encrypt(secret);
+  return `${SEALED_PREFIX}${iv}:${tag}:${encrypted}`;
+}
+
+function openSecret(stored: string): string {
+  if (!stored.startsWith(SEALED_PREFIX)) return stored;
+  const [iv, tag, encrypted] = stored.slice(SEALED_PREFIX.length).split(":");
+  return decrypt({ iv, tag, encrypted });
+}
+
+/**
+ * TOTP two-factor authentication with recovery codes. Routes decide when a
+ * check is needed (login, admin access, contract signing); this service
+ * owns enrolment and code checks.
+ */
+export class TwoFactorService {
+  private async audit(who: number, action: string, context?: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType: "user", entityId: who, context });
+  }
+
+  private async row(userId: number): Promise<UserTwoFactor | undefined> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return row;
+  }
+
+  /**
+   * Runs a code check under the account's wrong-code limit, shared by every
+   * endpoint that takes a code. Each check reserves an attempt before the
+   * code is compared, so concurrent guesses can't get past the limit. A
+   * good code clears the count; the CODE_MAX_ATTEMPTS-th wrong one locks
+   * code checks for CODE_LOCKOUT_MS.
+   */
+  private async limitAttempts<T>(userId: number, check: () => Promise<T | null>): Promise<T> {
+    const now = new Date();
+    const [reserved] = await db.update(userTwoFactor)
+      .set({ failedAttempts: sql`${userTwoFactor.failedAttempts} + 1`, lockedUntil: null })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lockedUntil), lte(userTwoFactor.lockedUntil, now)),
+        lt(userTwoFactor.failedAttempts, CODE_MAX_ATTEMPTS),
+      ))
+      .returning({ failedAttempts: userTwoFactor.failedAttempts });
+    if (!reserved) {
+      const row = await this.row(userId);
+      throw new Error(lockoutMessage(row?.lockedUntil ?? new Date(now.getTime() + CODE_LOCKOUT_MS), now));
+    }
+
+    const result = await check();
+    if (result !== null) {
+      await db.update(userTwoFactor).set({ failedAttempts: 0 }).where(eq(userTwoFactor.userId, userId));
+      return result;
+    }
+
+    if (reserved.failedAttempts >= CODE_MAX_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + CODE_LOCKOUT_MS);
+      await db.update(userTwoFactor).set({ failedAttempts: 0, lockedUntil })
+        .where(eq(userTwoFactor.userId, userId));
+      await this.audit(userId, "two_factor_locked", { until: lockedUntil.toISOString() });
+      throw new Error(lockoutMessage(lockedUntil, now));
+    }
+    throw new Error("Invalid two-factor code");
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const [row] = await db.select({ userId: userTwoFactor.userId }).from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)));
+    return !!row;
+  }
+
+  async status(userId: number, role: string | null | undefined): Promise<TwoFactorStatus> {
+    const enabled = await this.isEnabled(userId);
+    let recoveryCodesRemaining = 0;
+    if (enabled) {
+      const [row] = await db.select({ n: count() }).from(twoFactorRecoveryCodes)
+        .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+      recoveryCodesRemaining = Number(row?.n ?? 0);
+    }
+    return { enabled, required: isTwoFactorRequired(role), recoveryCodesRemaining };
+  }
+
+  /** Starts (or restarts) setup with a new secret; 2FA stays off until confirmed */
+  async beginSetup(userId: number): Promise<{ secret: string; otpauthUrl: string; qrCodeDataUrl: string }> {
+    if (await this.isEnabled(userId)) throw new Error("Two-factor authentication is already enabled");
+    const [user] = await db.select({ email: users.email, username: users.username }).from(users).where(eq(users.id, userId));
+    if (!user) throw new Error("User not found");
+
+    const secret = generateTotpSecret();
+    await db.insert(userTwoFactor).values({ userId, secret: sealSecret(secret) })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret: sealSecret(secret), enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
+
+    const url = otpauthUrl(secret, user.email || user.username || String(userId));
+    return { secret, otpauthUrl: url, qrCodeDataUrl: await QRCode.toDataURL(url, { margin: 1, width: 240 }) };
+  }
+
+  /** Turns 2FA on once the user proves their app has the secret; returns the recovery codes */
+  async enable(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const row = await this.row(userId);
+    if (!row) throw new Error("Start two-factor setup first");
+    if (row.enabledAt) throw new Error("Two-factor authentication is already enabled");
+
+    const step = await this.limitAttempts(userId, async () => matchTotp(openSecret(row.secret), code, null));
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.transaction(async (tx) => {
+      await tx.update(userTwoFactor).set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(eq(userTwoFactor.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(
+        recoveryCodes.map((c) => ({ userId, codeHash: hashRecoveryCode(c) })),
+      );
+    });
+    await this.audit(userId, "two_factor_enabled");
+    return { recoveryCodes };
+  }
+
+  /**
+   * Checks a TOTP or recovery code for an enabled account, under the
+   * wrong-code limit. A matched TOTP step is recorded so the same code
+   * cannot be used twice; a recovery code is spent.
+   */
+  async verify(userId: number, code: string): Promise<TwoFactorMethod> {
+    const row = await this.row(userId);
+    if (!row?.enabledAt) throw new Error("Two-factor authentication is not enabled");
+    return this.limitAttempts(userId, () => this.matchCode(row, code));
+  }
+
+  /** The method a code matched, or null; spends the TOTP step or recovery code it used */
+  private async matchCode(row: UserTwoFactor, code: string): Promise<TwoFactorMethod | null> {
+    const userId = row.userId;
+    if (looksLikeTotp(code)) {
+      const step = matchTotp(openSecret(row.secret), code, row.lastUsedStep);
+      if (step === null) return null;
+      const [claimed] = await db.update(userTwoFactor).set({ lastUsedStep: step })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+        ))
+        .returning({ userId: userTwoFactor.userId });
+      return claimed ? "totp" : null;
+    }
+
+    const [spent] = await db.update(twoFactorRecoveryCodes).set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    if (!spent) return null;
+    await this.audit(userId, "two_factor_recovery_code_used");
+    return "recovery_code";
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    await this.verify(userId, code);
+    const recoveryCodes = generateRecoveryCodes();
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(
+        recoveryCodes.map((c) => ({ userId, codeHash: hashRecoveryCode(c) })),
+      );
+    });
+    await this.audit(userId, "two_factor_recovery_codes_regenerated");
+    return { recoveryCodes };
+  }
+
+  async disable(userId: number, role: string | null | undefined, code: string): Promise<void> {
+    if (isTwoFactorRequired(role)) throw new Error("Two-factor authentication is required for admin accounts");
+    await this.verify(userId, code);
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    });
+    await this.audit(userId, "two_factor_disabled");
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
+
+/**
+ * Spends the session's step-up check if it is still fresh. Each check
+ * covers one sensitive action, so a second signature needs a new code.
+ */
+export function consumeStepUp(session: Session & Partial<SessionData>): { at: Date; method: TwoFactorMethod } | null {
+  const stepUp = session.stepUp;
+  delete session.stepUp;
+  if (!stepUp || !isFresh(stepUp.at, STEP_UP_TTL_MS)) return null;
+  return { at: new Date(stepUp.at), method: stepUp.method };
+}
@@ -0,0 +1,132 @@
+import { db } from "../db";
+import { auditLogs, roles, userRoles, users } from "../../shared/schema";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { mergeAssignedRoles, normalizeRole, profileTypeForRole, removeRoleError, resolveUserRole } from "../role-resolver";
+
+declare module "express-session" {
+  interface SessionData {
+    /** Role the user has switched to; unset means their primary role */
+    activeRole?: string;
+  }
+}
+
+export interface UserRoleSummary {
+  /** Assigned roles, primary first */
+  roles: string[];
+  primary: string;
+}
+
+/**
+ * Role assignment through user_roles. `users.metadata.role` stays the
+ * primary role (the one a new session starts in); older accounts only have
+ * that, so it always counts as assigned.
+ */
+export class UserRoleService {
+  private async audit(who: number, userId: number, action: string, context: Record<string, unknown>) {
+    await db.insert(auditLogs).values({ who, action, entityType: "user", entityId: userId, context });
+  }
+
+  /** Role names from user_roles, oldest assignment first */
+  async roleNames(userId: number): Promise<string[]> {
+    const rows = await db.select({ name: roles.name })
+      .from(userRoles)
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .where(eq(userRoles.userId, userId))
+      .orderBy(asc(userRoles.assignedAt));
+    return rows.map((r) => r.name);
+  }
+
+  async primaryRole(userId: number): Promise<string> {
+    const user = await storage.getUser(userId);
+    if (!user) throw new Error("User not found");
+    const metadata = user.metadata as { role?: string } | null;
+    if (metadata?.role) return normalizeRole(metadata.role);
+
+    // No stored role: infer it from the user's profiles
+    return resolveUserRole({
+      metadata,
+      venue: await storage.getVenueByUserId(userId),
+      organizer: await storage.getOrganizerByUserId(userId),
+      artist: await storage.getArtistByUserId(userId),
+    });
+  }
+
+  async rolesFor(userId: number): Promise<UserRoleSummary> {
+    const primary = await this.primaryRole(userId);
+    return { roles: mergeAssignedRoles(await this.roleNames(userId), primary), primary };
+  }
+
+  /** Adds user_roles rows for roles the user does not have yet, creating missing role records */
+  async ensureAssigned(userId: number, names: string[]): Promise<void> {
+    const wanted = Array.from(new Set(names.map(normalizeRole))) as (typeof roles.$inferInsert)["name"][];
+    if (wanted.length === 0) return;
+
+    await db.insert(roles).values(wanted.map((name) => ({ name }))).onConflictDoNothing({ target: roles.name });
+    const records = await db.select({ id: roles.id }).from(roles).where(inArray(roles.name, wanted));
+    await db.insert(userRoles)
+      .values(records.map((r) => ({ userId, roleId: r.id })))
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Creates the artist or organizer profile a new role works through, as
+   * registration does. Venue profiles are created by the venue setup form.
+   */
+  private async ensureProfile(userId: number, role: string): Promise<void> {
+    const profileType = profileTypeForRole(role);
+    if (profileType !== "artist" && profileType !== "organizer") return;
+
+    const user = await storage.getUser(userId);
+    if (!user) throw new Error("User not found");
+    if (profileType === "artist" && !(await storage.getArtistByUserId(userId))) {
+      await storage.createArtist({ userId, name: user.displayName || user.username || "Artist" });
+    }
+    if (profileType === "organizer" && !(await storage.getOrganizerByUserId(userId))) {
+      await storage.createOrganizer({ userId, name: user.displayName || user.username || "Organizer" });
+    }
+  }
+
+  async assign(userId: number, role: string, who: number): Promise<UserRoleSummary> {
+    const normalized = normalizeRole(role);
+    const current = await this.rolesFor(userId);
+    if (current.roles.includes(normalized)) throw new Error("Role already assigned");
+
+    // Older accounts get their primary role recorded alongside the new one
+    await this.ensureAssigned(userId, [current.primary, normalized]);
+    await this.ensureProfile(userId, normalized);
+    await this.audit(who, userId, "role_assigned", { role: normalized });
+    return { roles: [...current.roles, normalized], primary: current.primary };
+  }
+
+  /** Removing the primary role promotes the next assigned role */
+  async remove(userId: number, role: string, who: number): Promise<UserRoleSummary> {
+    const normalized = normalizeRole(role);
+    const current = await this.rolesFor(userId);
+    const error = removeRoleError(current.roles, normalized);
+    if (error) throw new Error(error);
+
+    const remaining = current.roles.filter((r) => r !== normalized);
+    await this.ensureAssigned(userId, remaining);
+    const [record] = await db.select({ id: roles.id }).from(roles).where(eq(roles.name, normalized as any));
+    if (record) {
+      await db.delete(userRoles).where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, record.id)));
+    }
+
+    let primary = current.primary;
+    if (normalized === current.primary) {
+      primary = remaining[0];
+      await db.update(users)
+        .set({
+          metadata: sql`jsonb_set(coalesce(${users.metadata}, '{}'::jsonb), '{role}', ${JSON.stringify(primary)}::jsonb)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+    }
+
+    await this.audit(who, userId, "role_removed", { role: normalized, primary });
+    return { roles: remaining, primary };
+  }
+}
+
+export const userRoleService = new UserRoleService();
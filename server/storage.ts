@@ -48,6 +48,7 @@ export interface BookingSummary {
   averageBookingValue: number;
 }
 import { eq, sql, or, and, desc, asc, gt, isNull, inArray, gte } from "drizzle-orm";
+import { searchService } from "./services/search.service";
 
 export interface IStorage {
   // User & Auth
@@ -141,6 +142,7 @@ export interface IStorage {
 
   // Organizer Payments
   getPaymentsByBooking(bookingId: number): Promise<Payment[]>;
+  getPayment(id: number): Promise<Payment | undefined>;
   getOrganizerPaymentTotal(organizerId: number): Promise<number>;
 
   // Admin Methods
@@ -150,7 +152,7 @@ export interface IStorage {
   getAllConversations(limit?: number): Promise<any[]>;
   getConversationMessages(id: number): Promise<Message[]>;
   getContractsForAdminReview(): Promise<any[]>;
-  reviewContract(contractId: number, adminId: number, status: 'approved' | 'rejected', note?: string): Promise<Contract>;
+  reviewContract(contractId: number, adminId: number, status: 'approved' | 'rejected', note?: string): Promise<Contract | undefined>;
 
   // Admin Extended Methods
   getPlatformStats(): Promise<{
@@ -191,6 +193,7 @@ export interface IStorage {
   // Notifications
   createNotification(data: InsertNotification): Promise<Notification>;
   getNotificationsByUser(userId: number, opts?: { limit?: number; offset?: number; unreadOnly?: boolean }): Promise<Notification[]>;
+  getNotificationsBySourceEvent(sourceEventId: number): Promise<Notification[]>;
   getUnreadNotificationCount(userId: number): Promise<number>;
   getNotificationCountByUser(userId: number, opts?: { unreadOnly?: boolean }): Promise<number>;
   markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
@@ -303,11 +306,13 @@ export class DatabaseStorage implements IStorage {
 
   async createArtist(artist: InsertArtist): Promise<Artist> {
     const [newArtist] = await db.insert(artists).values(artist).returning();
+    if (newArtist) searchService.indexInBackground("artist", newArtist.id);
     return newArtist;
   }
 
   async updateArtist(id: number, artist: Partial<InsertArtist>): Promise<Artist | undefined> {
     const [updated] = await db.update(artists).set(artist).where(eq(artists.id, id)).returning();
+    if (updated) searchService.indexInBackground("artist", id);
     return updated;
   }
 
@@ -390,11 +395,13 @@ export class DatabaseStorage implements IStorage {
 
   async createOrganizer(organizer: InsertOrganizer): Promise<Organizer> {
     const [newOrganizer] = await db.insert(promoters).values(organizer).returning();
+    if (newOrganizer) searchService.indexInBackground("organizer", newOrganizer.id);
     return newOrganizer;
   }
 
   async updateOrganizer(id: number, data: Partial<InsertOrganizer>): Promise<Organizer> {
     const [updated] = await db.update(promoters).set({ ...data, updatedAt: new Date() }).where(eq(promoters.id, id)).returning();
+    if (updated) searchService.indexInBackground("organizer", id);
     return updated;
   }
 
@@ -429,11 +436,13 @@ export class DatabaseStorage implements IStorage {
 
   async createVenue(venue: InsertVenue): Promise<Venue> {
     const [newVenue] = await db.insert(venues).values(venue).returning();
+    if (newVenue) searchService.indexInBackground("venue", newVenue.id);
     return newVenue;
   }
 
   async updateVenue(id: number, venue: Partial<InsertVenue>): Promise<Venue> {
     const [updated] = await db.update(venues).set(venue).where(eq(venues.id, id)).returning();
+    if (updated) searchService.indexInBackground("venue", id);
     return updated;
   }
 
@@ -765,11 +774,13 @@ export class DatabaseStorage implements IStorage {
       });
     }
 
+    searchService.indexInBackground("event", newEvent.id);
     return newEvent;
   }
 
   async updateEvent(id: number, event: Partial<InsertEvent>): Promise<Event> {
     const [updated] = await db.update(events).set(event).where(eq(events.id, id)).returning();
+    if (updated) searchService.indexInBackground("event", id);
     return updated;
   }
 
@@ -1114,6 +1125,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(payments.bookingId, bookingId));
   }
 
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
   async getOrganizerPaymentTotal(organizerId: number): Promise<number> {
     const [result] = await db
       .select({ total: sql<string>`COALESCE(SUM(${payments.amount}), 0)` })
@@ -1217,7 +1233,8 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async reviewContract(contractId: number, adminId: number, status: 'approved' | 'rejected', note?: string): Promise<Contract> {
+  /** Records the admin decision; returns undefined unless the contract is still awaiting admin review */
+  async reviewContract(contractId: number, adminId: number, status: 'approved' | 'rejected', note?: string): Promise<Contract | undefined> {
     const now = new Date();
     const updateData: any = {
       adminReviewedBy: adminId,
@@ -1239,7 +1256,7 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db
       .update(contracts)
       .set(updateData)
-      .where(eq(contracts.id, contractId))
+      .where(and(eq(contracts.id, contractId), eq(contracts.status, 'admin_review')))
       .returning();
 
     return updated;
@@ -1459,6 +1476,8 @@ export class DatabaseStorage implements IStorage {
       userId: promoter.userId,
       name: promoter.name,
       contactPerson: promoter.contactPerson,
+      ratingAvg: promoter.ratingAvg,
+      ratingCount: promoter.ratingCount,
       createdAt: promoter.createdAt,
       metadata: promoter.metadata,
       user: {
@@ -1558,6 +1577,7 @@ export class DatabaseStorage implements IStorage {
       .set({ ...data, updatedAt: new Date() })
       .where(eq(events.id, id))
       .returning();
+    if (updated) searchService.indexInBackground("event", id);
     return updated;
   }
 
@@ -1734,7 +1754,8 @@ export class DatabaseStorage implements IStorage {
     const limit = opts?.limit ?? 20;
     const offset = opts?.offset ?? 0;
 
-    const conditions = [eq(notifications.userId, userId)];
+    // Email/SMS copies are tracked separately; the bell shows in-app rows only
+    const conditions = [eq(notifications.userId, userId), eq(notifications.channel, "in_app")];
     if (opts?.unreadOnly) {
       conditions.push(eq(notifications.read, false));
     }
@@ -1748,16 +1769,20 @@ export class DatabaseStorage implements IStorage {
       .offset(offset);
   }
 
+  async getNotificationsBySourceEvent(sourceEventId: number): Promise<Notification[]> {
+    return await db.select().from(notifications).where(eq(notifications.sourceEventId, sourceEventId));
+  }
+
   async getUnreadNotificationCount(userId: number): Promise<number> {
     const [result] = await db
       .select({ count: sql<number>`count(*)` })
       .from(notifications)
-      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+      .where(and(eq(notifications.userId, userId), eq(notifications.channel, "in_app"), eq(notifications.read, false)));
     return Number(result.count);
   }
 
   async getNotificationCountByUser(userId: number, opts?: { unreadOnly?: boolean }): Promise<number> {
-    const conditions = [eq(notifications.userId, userId)];
+    const conditions = [eq(notifications.userId, userId), eq(notifications.channel, "in_app")];
     if (opts?.unreadOnly) {
       conditions.push(eq(notifications.read, false));
     }
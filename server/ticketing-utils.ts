@@ -0,0 +1,219 @@
+/**
+ * Pure utility functions for event ticketing: tier sale windows, early-bird
+ * pricing cutovers, tier quota and event capacity checks, and the door
+ * check-in decision.
+ * These functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/ticketing.service.ts
+ * Tested by: tests/services/ticketing.test.ts
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Minutes a pending order holds its tickets before it expires unpaid */
+export const ORDER_HOLD_MINUTES = 15;
+
+/** Ticket statuses that take up a place at the event */
+export const ACTIVE_TICKET_STATUSES = ["reserved", "valid", "used"] as const;
+
+/** Booking statuses in which an artist counts as booked for the event (and may add guests) */
+export const BOOKED_ARTIST_STATUSES = ["confirmed", "paid_deposit", "scheduled"] as const;
+
+export type TicketStatus = "reserved" | "valid" | "used" | "cancelled";
+export type TierSaleState = "inactive" | "not_started" | "on_sale" | "ended";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TierPricing {
+  price: string | number;
+  earlyBirdPrice?: string | number | null;
+  earlyBirdEndsAt?: Date | null;
+  earlyBirdQuota?: number | null;
+}
+
+export interface TierWindow {
+  active: boolean;
+  salesStartAt?: Date | null;
+  salesEndAt?: Date | null;
+}
+
+export interface TierConfig extends TierPricing, TierWindow {
+  ticketType: string;
+  quota?: number | null;
+  maxPerOrder?: number | null;
+}
+
+export interface PricedTicket {
+  price: number;
+  earlyBird: boolean;
+}
+
+export interface CapacityState {
+  capacityTotal: number | null;
+  capacitySeated: number | null;
+  /** Active tickets of every kind, guestlist included */
+  activeTotal: number;
+  /** Active tickets of the "reserved" (seated) type */
+  activeSeated: number;
+}
+
+export interface CheckInTicket {
+  eventId: number;
+  status: TicketStatus;
+  checkedInAt: Date | null;
+}
+
+export type CheckInResult =
+  | { result: "admitted"; message: string }
+  | { result: "already_used"; message: string }
+  | { result: "invalid"; message: string };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Tier settings & sale windows
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a tier stands at `now`. Without its own salesEndAt a tier stays on
+ * sale until `eventClosesAt` (the event's end, or its start when no end is set).
+ */
+export function tierSaleState(tier: TierWindow, now: Date, eventClosesAt: Date | null): TierSaleState {
+  if (!tier.active) return "inactive";
+  if (tier.salesStartAt && now < tier.salesStartAt) return "not_started";
+  const closesAt = tier.salesEndAt ?? eventClosesAt;
+  if (closesAt && now >= closesAt) return "ended";
+  return "on_sale";
+}
+
+/**
+ * Checks a tier's settings before it is saved. Guestlist places are never
+ * sold, so a tier cannot use that type. Returns an error message or null.
+ */
+export function tierConfigError(tier: TierConfig): string | null {
+  if (tier.ticketType === "guestlist") return "Guestlist places are added to the guestlist, not sold as a tier";
+  if (Number(tier.price) < 0) return "Price cannot be negative";
+  if (tier.earlyBirdPrice !== null && tier.earlyBirdPrice !== undefined) {
+    if (Number(tier.earlyBirdPrice) < 0) return "Early-bird price cannot be negative";
+    if (Number(tier.earlyBirdPrice) > Number(tier.price)) return "Early-bird price cannot be above the tier price";
+    if (!tier.earlyBirdEndsAt && (tier.earlyBirdQuota === null || tier.earlyBirdQuota === undefined)) {
+      return "An early-bird price needs an end date or an early-bird quota";
+    }
+  } else if (tier.earlyBirdEndsAt || (tier.earlyBirdQuota !== null && tier.earlyBirdQuota !== undefined)) {
+    return "Set an early-bird price to use an early-bird cutover";
+  }
+  if (tier.salesStartAt && tier.salesEndAt && tier.salesStartAt >= tier.salesEndAt) {
+    return "Sales must start before they end";
+  }
+  if (tier.quota !== null && tier.quota !== undefined
+      && tier.earlyBirdQuota !== null && tier.earlyBirdQuota !== undefined
+      && tier.earlyBirdQuota > tier.quota) {
+    return "Early-bird quota cannot exceed the tier quota";
+  }
+  if (tier.maxPerOrder !== null && tier.maxPerOrder !== undefined && tier.maxPerOrder < 1) {
+    return "Max per order must be at least 1";
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Early-bird pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Early-bird places still available at `now`: null when the tier has an
+ * open-ended early-bird price, 0 once the deadline has passed or the
+ * early-bird quota is used up (or when the tier has no early-bird price).
+ */
+export function earlyBirdRemaining(tier: TierPricing, earlyBirdSold: number, now: Date): number | null {
+  if (tier.earlyBirdPrice === null || tier.earlyBirdPrice === undefined) return 0;
+  if (tier.earlyBirdEndsAt && now >= tier.earlyBirdEndsAt) return 0;
+  if (tier.earlyBirdQuota === null || tier.earlyBirdQuota === undefined) return null;
+  return Math.max(tier.earlyBirdQuota - earlyBirdSold, 0);
+}
+
+/** Price of the next ticket sold from the tier */
+export function currentTierPrice(tier: TierPricing, earlyBirdSold: number, now: Date): PricedTicket {
+  const remaining = earlyBirdRemaining(tier, earlyBirdSold, now);
+  if (remaining === null || remaining > 0) {
+    return { price: round2(Number(tier.earlyBirdPrice)), earlyBird: true };
+  }
+  return { price: round2(Number(tier.price)), earlyBird: false };
+}
+
+/**
+ * Prices `quantity` tickets in order. An order that crosses the early-bird
+ * quota pays the early-bird price for the places left and the full price for
+ * the rest.
+ */
+export function priceTickets(tier: TierPricing, quantity: number, earlyBirdSold: number, now: Date): PricedTicket[] {
+  const priced: PricedTicket[] = [];
+  for (let i = 0; i < quantity; i++) {
+    priced.push(currentTierPrice(tier, earlyBirdSold + priced.filter((t) => t.earlyBird).length, now));
+  }
+  return priced;
+}
+
+export function orderTotal(priced: PricedTicket[]): number {
+  return round2(priced.reduce((sum, t) => sum + t.price, 0));
+}
+
+// ---------------------------------------------------------------------------
+// Quota & capacity
+// ---------------------------------------------------------------------------
+
+/** Places left in a tier, or null when it is only bounded by the event capacity */
+export function tierRemaining(quota: number | null | undefined, sold: number): number | null {
+  if (quota === null || quota === undefined) return null;
+  return Math.max(quota - sold, 0);
+}
+
+/**
+ * Checks that `adding` more admissions fit the event. Guestlist entries count
+ * like sold tickets; "reserved" tickets also have to fit the seated capacity.
+ * Returns an error message or null.
+ */
+export function capacityError(state: CapacityState, adding: { total: number; seated: number }): string | null {
+  if (state.capacityTotal !== null && state.activeTotal + adding.total > state.capacityTotal) {
+    const left = Math.max(state.capacityTotal - state.activeTotal, 0);
+    return left === 0 ? "This event is at capacity" : `Only ${left} place${left === 1 ? "" : "s"} left at this event`;
+  }
+  if (adding.seated > 0 && state.capacitySeated !== null && state.activeSeated + adding.seated > state.capacitySeated) {
+    const left = Math.max(state.capacitySeated - state.activeSeated, 0);
+    return left === 0 ? "No seats left at this event" : `Only ${left} seat${left === 1 ? "" : "s"} left at this event`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Door check-in
+// ---------------------------------------------------------------------------
+
+/** Scanners and manual entry may add whitespace or lowercase the code */
+export function normalizeTicketCode(raw: string): string {
+  return raw.replace(/\s+/g, "").toUpperCase();
+}
+
+/** Whether a scanned ticket may enter `eventId` */
+export function checkInDecision(ticket: CheckInTicket | null, eventId: number): CheckInResult {
+  if (!ticket || ticket.eventId !== eventId) {
+    return { result: "invalid", message: "Ticket not found for this event" };
+  }
+  if (ticket.status === "used") {
+    const at = ticket.checkedInAt ? ` at ${ticket.checkedInAt.toISOString()}` : "";
+    return { result: "already_used", message: `Ticket already checked in${at}` };
+  }
+  if (ticket.status === "reserved") {
+    return { result: "invalid", message: "Ticket has not been paid for" };
+  }
+  if (ticket.status === "cancelled") {
+    return { result: "invalid", message: "Ticket has been cancelled" };
+  }
+  return { result: "admitted", message: "Ticket valid" };
+}
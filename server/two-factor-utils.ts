@@ -0,0 +1,181 @@
+/**
+ * Pure utility functions for two-factor authentication: base32 secrets,
+ * RFC 6238 TOTP codes, recovery codes, the freshness rules for login
+ * challenges and step-up checks, and the wrong-code lockout. These
+ * functions contain no DB or I/O dependencies.
+ *
+ * Used by: server/services/two-factor.service.ts, server/routes/two-factor.ts
+ * Tested by: tests/services/two-factor.test.ts
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+/** Steps accepted either side of the current one, for clock drift */
+export const TOTP_WINDOW = 1;
+export const TOTP_ISSUER = "BANDWIDTH";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** How long a password-checked login waits for its second factor */
+export const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+/** Wrong codes allowed before the password has to be entered again */
+export const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+/** How long a step-up check covers a sensitive action such as signing */
+export const STEP_UP_TTL_MS = 5 * 60 * 1000;
+/** Wrong codes an account may enter, across every code check, before it is locked */
+export const CODE_MAX_ATTEMPTS = 5;
+/** How long code checks stay locked after too many wrong codes */
+export const CODE_LOCKOUT_MS = 15 * 60 * 1000;
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+const ADMIN_ROLES = ["admin", "platform_admin", "staff"];
+
+/** Admin panel accounts cannot use the panel or turn 2FA off without it */
+export function isTwoFactorRequired(role: string | null | undefined): boolean {
+  return !!role && ADMIN_ROLES.includes(role);
+}
+
+// ---------------------------------------------------------------------------
+// Base32 (RFC 4648, no padding)
+// ---------------------------------------------------------------------------
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+/** Accepts lower case, spaces and padding, as authenticator apps display them */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+// ---------------------------------------------------------------------------
+// TOTP
+// ---------------------------------------------------------------------------
+
+/** 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1 */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * The time step a code matches, or null. Steps at or before `lastUsedStep`
+ * are refused so an observed code cannot be replayed.
+ */
+export function matchTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  now: Date = new Date(),
+): number | null {
+  const digits = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(digits) || digits.length !== TOTP_DIGITS) return null;
+
+  const current = totpStep(now);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(totpCode(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(digits))) return step;
+  }
+  return null;
+}
+
+/** otpauth:// URI that authenticator apps read from the setup QR code */
+export function otpauthUrl(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ---------------------------------------------------------------------------
+// Recovery codes
+// ---------------------------------------------------------------------------
+
+/** `xxxxx-xxxxx` codes from an alphabet without look-alike characters */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), (b) => alphabet[b % alphabet.length]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/** TOTP codes are all digits; anything else is tried as a recovery code */
+export function looksLikeTotp(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ""));
+}
+
+// ---------------------------------------------------------------------------
+// Freshness
+// ---------------------------------------------------------------------------
+
+/** Message for a code check refused while the account is locked */
+export function lockoutMessage(lockedUntil: Date, now: Date = new Date()): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return `Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+export function isFresh(at: number | null | undefined, ttlMs: number, now: Date = new Date()): boolean {
+  return typeof at === "number" && at <= now.getTime() && now.getTime() - at < ttlMs;
+}
@@ -2,106 +2,257 @@
  * WebSocket server for real-time chat and notifications.
  *
  * Architecture:
+ *   - Sockets are authenticated during the HTTP upgrade by running the
+ *     express-session middleware (same connect-pg-simple store as the REST
+ *     API). Upgrades without a logged-in session are rejected with 401, and
+ *     browser upgrades from another origin than APP_BASE_URL with 403.
+ *   - Sockets are closed when their session logs out and when their user is
+ *     suspended or deleted (disconnectSession / disconnectUser)
  *   - Room-based pub/sub keyed by conversationId (chat messages)
- *   - User-based pub/sub keyed by userId (notifications)
+ *   - User-based pub/sub keyed by userId (notifications); every socket is
+ *     registered for its session user on connect
+ *
+ * Room access:
+ *   - participant: the user has a conversation_participants row, or for a
+ *                  booking conversation is one of the booking's parties
+ *   - monitor:     admins may watch any conversation read-only; they receive
+ *                  every broadcast (including sender-only messages) but are
+ *                  never treated as a party to the conversation
  *
  * Protocol (client → server):
  *   { type: 'subscribe', conversationId: number }
- *   { type: 'auth', userId: number }
  *
  * Protocol (server → client):
- *   { type: 'connected', conversationId: number }
  *   { type: 'auth_ok', userId: number }
+ *   { type: 'connected', conversationId: number, mode: 'participant' | 'monitor' }
+ *   { type: 'subscribe_denied', conversationId: number, message: string }
  *   { type: 'message', data: MessageObject }
  *   { type: 'notification', data: NotificationObject }
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { and, eq } from 'drizzle-orm';
+import { conversationParticipants, conversations } from '@shared/schema';
+import { db } from './db';
+import { storage } from './storage';
+import { getSessionParser } from './auth';
+import { activeRole } from './role-resolver';
+import { adminPermissionService } from './services/admin-permission.service';
+import { bookingAccessService } from './services/booking-access.service';
+import { appBaseUrl } from './services/notification-channels';
+
+export interface WsIdentity {
+  userId: number;
+  role: string;
+  isAdmin: boolean;
+}
 
-/** Map: conversationId → set of connected WebSocket clients */
-const rooms = new Map<number, Set<WebSocket>>();
+export type RoomAccess = 'participant' | 'monitor';
+
+interface RoomMember {
+  userId: number;
+  mode: RoomAccess;
+}
+
+/** Map: conversationId → connected WebSocket clients and how they joined */
+const rooms = new Map<number, Map<WebSocket, RoomMember>>();
 
 /** Map: userId → set of connected WebSocket clients */
 const userConnections = new Map<number, Set<WebSocket>>();
 
+/** Map: session id → connected WebSocket clients opened with that session */
+const sessionConnections = new Map<string, Set<WebSocket>>();
+
+/** Close code sent when the socket's session or account is no longer valid */
+const SESSION_ENDED = 4001;
+
+/**
+ * Decide how a user may join a conversation room.
+ * Participants get full access, admins fall back to read-only monitoring,
+ * everyone else is refused (null).
+ */
+export function resolveRoomAccess(identity: WsIdentity, isParticipant: boolean): RoomAccess | null {
+  if (isParticipant) return 'participant';
+  if (identity.isAdmin) return 'monitor';
+  return null;
+}
+
+/**
+ * Whether a room broadcast should reach a member. Payloads carrying a
+ * `targetUserId` (e.g. agent-filtered messages) are only for that user;
+ * monitors see everything.
+ */
+export function shouldDeliver(member: RoomMember, payload: object): boolean {
+  const targetUserId = (payload as { targetUserId?: number }).targetUserId;
+  if (typeof targetUserId !== 'number') return true;
+  return member.mode === 'monitor' || member.userId === targetUserId;
+}
+
+/**
+ * Whether an upgrade may come from `origin`. Browsers always send the page's
+ * origin, so a mismatch is another site riding the session cookie; clients
+ * that send none aren't browsers and can't be made to.
+ */
+export function isAllowedOrigin(origin: string | undefined, baseUrl: string = appBaseUrl()): boolean {
+  if (!origin) return true;
+  try {
+    return new URL(origin).origin === new URL(baseUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the logged-in user for an upgrade request from its session
+ * cookie. Returns null for missing/expired sessions and suspended or
+ * deleted users.
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<WsIdentity | null> {
+  return new Promise((resolve) => {
+    // express-session only needs a response object to hook header writes,
+    // which never happen for an upgrade request.
+    getSessionParser()(req as any, {} as any, async (err?: unknown) => {
+      try {
+        const userId = (req as any).session?.passport?.user;
+        if (err || typeof userId !== 'number') return resolve(null);
+
+        const user = await storage.getUser(userId);
+        if (!user || user.status === 'suspended' || user.status === 'deleted') return resolve(null);
+
+        // The role switched to with PUT /api/me/active-role, else the primary role
+        const role = activeRole({ role: (req as any).session?.activeRole, metadata: user.metadata as any });
+        const permissions = await adminPermissionService.permissionsForUser({
+          role,
+          twoFactorVerified: !!(req as any).session?.twoFactorVerifiedAt,
+        });
+        resolve({ userId, role, isAdmin: permissions.includes('conversations.view') });
+      } catch (error) {
+        console.error('WebSocket session lookup failed:', error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+async function isConversationParticipant(conversationId: number, identity: WsIdentity): Promise<boolean> {
+  const convo = await db.query.conversations.findFirst({ where: eq(conversations.id, conversationId) });
+  if (!convo) return false;
+  // Booking conversations follow the booking's parties, like the REST routes
+  if (convo.entityType === 'booking' && convo.entityId) {
+    const access = await bookingAccessService.check({ id: identity.userId, role: identity.role }, convo.entityId, 'negotiation');
+    return access.sides.length > 0;
+  }
+  const participant = await db.query.conversationParticipants.findFirst({
+    where: and(
+      eq(conversationParticipants.conversationId, conversationId),
+      eq(conversationParticipants.userId, identity.userId),
+    ),
+  });
+  return !!participant;
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function leaveRoom(roomId: number, ws: WebSocket): void {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.delete(ws);
+  if (room.size === 0) rooms.delete(roomId);
+}
+
+function removeConnection<K>(connections: Map<K, Set<WebSocket>>, key: K, ws: WebSocket): void {
+  const sockets = connections.get(key);
+  if (!sockets) return;
+  sockets.delete(ws);
+  if (sockets.size === 0) connections.delete(key);
+}
+
+function addConnection<K>(connections: Map<K, Set<WebSocket>>, key: K, ws: WebSocket): void {
+  if (!connections.has(key)) {
+    connections.set(key, new Set());
+  }
+  connections.get(key)!.add(ws);
+}
+
 export function initWebSocketServer(httpServer: Server): WebSocketServer {
   const wss = new WebSocketServer({ noServer: true });
 
   // Only handle upgrade requests for our /ws path.
   // Everything else (e.g. Vite HMR at /?token=...) must pass through
   // untouched so Vite's own upgrade listener can handle it.
-  httpServer.on('upgrade', (req, socket, head) => {
+  httpServer.on('upgrade', async (req, socket, head) => {
     const pathname = req.url ? new URL(req.url, 'http://localhost').pathname : '/';
-    if (pathname === '/ws') {
-      wss.handleUpgrade(req, socket, head, (ws) => {
-        wss.emit('connection', ws, req);
-      });
-    }
+    if (pathname !== '/ws') return;
+
+    if (!isAllowedOrigin(req.headers.origin)) return rejectUpgrade(socket, '403 Forbidden');
+
+    const identity = await authenticateUpgrade(req);
+    if (!identity) return rejectUpgrade(socket, '401 Unauthorized');
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req, identity);
+    });
   });
 
-  wss.on('connection', (ws) => {
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, identity: WsIdentity) => {
     let subscribedRoomId: number | null = null;
-    let authenticatedUserId: number | null = null;
+    let closed = false;
+    // Set on the request by the session middleware in authenticateUpgrade
+    const sessionId: string | undefined = (req as any).sessionID;
+
+    addConnection(userConnections, identity.userId, ws);
+    if (sessionId) addConnection(sessionConnections, sessionId, ws);
+    ws.send(JSON.stringify({ type: 'auth_ok', userId: identity.userId }));
 
-    ws.on('message', (raw) => {
+    ws.on('message', async (raw) => {
+      let msg: any;
       try {
-        const msg = JSON.parse(raw.toString());
+        msg = JSON.parse(raw.toString());
+      } catch {
+        return; // Ignore malformed messages
+      }
 
-        // Conversation room subscription (existing chat functionality)
-        if (msg.type === 'subscribe' && typeof msg.conversationId === 'number') {
-          const roomId: number = msg.conversationId;
-          // Leave previous room if switching
-          if (subscribedRoomId !== null) {
-            rooms.get(subscribedRoomId)?.delete(ws);
+      // Conversation room subscription — participants, or admins as monitors
+      if (msg.type === 'subscribe' && typeof msg.conversationId === 'number') {
+        const roomId: number = msg.conversationId;
+        try {
+          const mode = resolveRoomAccess(identity, await isConversationParticipant(roomId, identity));
+          if (closed) return;
+          if (!mode) {
+            ws.send(JSON.stringify({ type: 'subscribe_denied', conversationId: roomId, message: 'Not a participant' }));
+            return;
           }
 
+          // Leave previous room if switching
+          if (subscribedRoomId !== null) leaveRoom(subscribedRoomId, ws);
+
           subscribedRoomId = roomId;
           if (!rooms.has(roomId)) {
-            rooms.set(roomId, new Set());
+            rooms.set(roomId, new Map());
           }
-          rooms.get(roomId)!.add(ws);
+          rooms.get(roomId)!.set(ws, { userId: identity.userId, mode });
 
-          ws.send(JSON.stringify({ type: 'connected', conversationId: roomId }));
+          ws.send(JSON.stringify({ type: 'connected', conversationId: roomId, mode }));
+        } catch (error) {
+          console.error('Error subscribing to conversation room:', error);
         }
-
-        // User-level authentication for notifications
-        if (msg.type === 'auth' && typeof msg.userId === 'number') {
-          authenticatedUserId = msg.userId;
-          if (!userConnections.has(msg.userId)) {
-            userConnections.set(msg.userId, new Set());
-          }
-          userConnections.get(msg.userId)!.add(ws);
-          ws.send(JSON.stringify({ type: 'auth_ok', userId: msg.userId }));
-        }
-      } catch {
-        // Ignore malformed messages
       }
     });
 
-    ws.on('close', () => {
-      if (subscribedRoomId !== null) {
-        rooms.get(subscribedRoomId)?.delete(ws);
-        if (rooms.get(subscribedRoomId)?.size === 0) {
-          rooms.delete(subscribedRoomId);
-        }
-      }
-      if (authenticatedUserId !== null) {
-        userConnections.get(authenticatedUserId)?.delete(ws);
-        if (userConnections.get(authenticatedUserId)?.size === 0) {
-          userConnections.delete(authenticatedUserId);
-        }
-      }
-    });
+    const cleanup = () => {
+      closed = true;
+      if (subscribedRoomId !== null) leaveRoom(subscribedRoomId, ws);
+      removeConnection(userConnections, identity.userId, ws);
+      if (sessionId) removeConnection(sessionConnections, sessionId, ws);
+    };
 
-    ws.on('error', () => {
-      if (subscribedRoomId !== null) {
-        rooms.get(subscribedRoomId)?.delete(ws);
-      }
-      if (authenticatedUserId !== null) {
-        userConnections.get(authenticatedUserId)?.delete(ws);
-      }
-    });
+    ws.on('close', cleanup);
+    ws.on('error', cleanup);
   });
 
   return wss;
@@ -113,8 +264,8 @@ export function broadcastToRoom(conversationId: number, payload: object): void {
   if (!clients || clients.size === 0) return;
 
   const msg = JSON.stringify(payload);
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+  clients.forEach((member, client) => {
+    if (client.readyState === WebSocket.OPEN && shouldDeliver(member, payload)) {
       client.send(msg);
     }
   });
@@ -132,3 +283,13 @@ export function broadcastToUser(userId: number, payload: object): void {
     }
   });
 }
+
+/** Close every socket opened with a session, e.g. when it logs out */
+export function disconnectSession(sessionId: string): void {
+  sessionConnections.get(sessionId)?.forEach((client) => client.close(SESSION_ENDED, 'Session ended'));
+}
+
+/** Close every socket of a user, e.g. when the account is suspended or deleted */
+export function disconnectUser(userId: number): void {
+  userConnections.get(userId)?.forEach((client) => client.close(SESSION_ENDED, 'Account is not active'));
+}
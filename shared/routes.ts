@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertUserSchema, insertArtistSchema, insertOrganizerSchema, insertVenueSchema, insertBookingSchema, users, artists, organizers, venues, bookings, events, promoters, auditLogs } from './schema';
+import { insertUserSchema, insertArtistSchema, insertOrganizerSchema, insertVenueSchema, insertBookingSchema, users, artists, organizers, venues, bookings, events, promoters, auditLogs, roleNameEnum, eventTypeEnum, artistCategoryEnum, contractStatusEnum } from './schema';
 
 // ============================================================================
 // Organizer Validation Schemas
@@ -569,6 +569,8 @@ export const createEventSchema = z.object({
   currency: z.string().length(3).default("INR"),
   /** "public" events appear in artist discovery; "private" are invite-only */
   visibility: z.enum(["public", "private"]).default("public"),
+  /** Kind of event; picks the contract template for its bookings */
+  eventType: z.enum(eventTypeEnum.enumValues).optional(),
   /** Optional multi-stage setup — each stage has its own time window and capacity */
   stages: z.array(eventStageSchema).optional(),
 });
@@ -601,6 +603,437 @@ export const completionConfirmSchema = z.object({
   note: z.string().max(1000).optional(),
 });
 
+// ============================================================================
+// Dispute Validation Schemas
+// ============================================================================
+
+export const disputeReasonEnum = z.enum([
+  "no_show",
+  "late_arrival",
+  "performance_quality",
+  "payment_issue",
+  "contract_breach",
+  "rider_not_met",
+  "other",
+]);
+
+/**
+ * Schema for opening a dispute against a scheduled or completed booking.
+ * Evidence is referenced by `media` ids uploaded via POST /api/media/upload
+ * with `entityType: "dispute_evidence"`.
+ */
+export const openDisputeSchema = z.object({
+  reason: disputeReasonEnum,
+  /** What happened, in the raiser's words (20–5000 chars) */
+  description: z.string().min(20).max(5000),
+  /** Media ids owned by the raiser to attach as evidence */
+  evidenceMediaIds: z.array(z.number().int().positive()).max(20).optional(),
+});
+
+export const attachDisputeEvidenceSchema = z.object({
+  mediaIds: z.array(z.number().int().positive()).min(1).max(20),
+});
+
+// ============================================================================
+// Booking Validation Schemas
+// ============================================================================
+
+/**
+ * Fields a booking party may change directly through PUT /api/bookings/:id,
+ * and only while the booking is still being negotiated. Status changes go
+ * through negotiation actions, cancellation, completion and disputes; the
+ * payment terms are set by the signed contract.
+ */
+export const bookingUpdateSchema = z.object({
+  stageId: z.number().int().positive().nullable(),
+  offerAmount: z.union([z.string(), z.number()]).transform(String),
+  offerCurrency: z.string().length(3),
+  depositAmount: z.union([z.string(), z.number()]).transform(String),
+}).partial().strict();
+
+/** Booking statuses in which the fields in bookingUpdateSchema can still change */
+export const BOOKING_EDITABLE_STATUSES = ["inquiry", "offered", "negotiating"] as const;
+
+// ============================================================================
+// Cancellation Validation Schemas
+// ============================================================================
+
+export const cancellationReasonEnum = z.enum([
+  "schedule_conflict",
+  "health",
+  "event_cancelled",
+  "low_ticket_sales",
+  "venue_unavailable",
+  "force_majeure",
+  "other",
+]);
+
+/** Who a cancellation is charged to; force majeure charges nobody */
+export const cancellationFaultEnum = z.enum(["artist", "organizer", "force_majeure"]);
+
+/** A booking party cancels; the cancellation is charged to their side */
+export const cancelBookingSchema = z.object({
+  reason: cancellationReasonEnum,
+  note: z.string().trim().max(2000).optional(),
+}).refine((data) => data.reason !== "other" || !!data.note, {
+  message: "Describe the reason for cancelling",
+  path: ["note"],
+});
+
+/** Admin cancellation: the admin decides which side it is charged to */
+export const adminCancelBookingSchema = z.object({
+  fault: cancellationFaultEnum,
+  reason: cancellationReasonEnum,
+  note: z.string().trim().min(1).max(2000),
+});
+
+const cancellationTierSchema = z.object({
+  minDaysBefore: z.number().int().min(0).max(3650),
+  term: z.string().min(1).max(64),
+  penaltyPct: z.number().min(0).max(100),
+  depositForfeited: z.boolean().optional(),
+});
+
+/** A new cancellation policy version; tier schedules are checked server-side */
+export const cancellationPolicySchema = z.object({
+  name: z.string().min(1).max(120),
+  description: z.string().max(1000).nullish(),
+  rules: z.object({
+    artist: z.array(cancellationTierSchema).min(1).max(10),
+    organizer: z.array(cancellationTierSchema).min(1).max(10),
+  }),
+});
+
+/**
+ * Admin resolution of a dispute.
+ * - refund: refunds the organizer in full and cancels the artist payout, or with a
+ *   `refundAmount` below what escrow holds, refunds that much and pays the artist the rest
+ * - no_refund: releases the payout hold and restores the booking status
+ */
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(["refund", "no_refund"]),
+  refundAmount: z.number().positive().optional(),
+  note: z.string().min(1).max(5000),
+});
+
+// ============================================================================
+// Review Validation Schemas
+// ============================================================================
+
+export const reviewCriterionEnum = z.enum([
+  "punctuality",
+  "professionalism",
+  "rider_compliance",
+  "payment_timeliness",
+]);
+
+/**
+ * Post-event review of one side of a completed booking. Which criteria are
+ * required depends on the subject (see REVIEW_CRITERIA in server/review-utils.ts):
+ * the organizer reviews the artist, the artist reviews the organizer and venue.
+ */
+export const submitReviewSchema = z.object({
+  subjectType: z.enum(["artist", "organizer", "venue"]),
+  /** Score per criterion, 1–5 */
+  ratings: z.record(reviewCriterionEnum, z.number().int().min(1).max(5)),
+  comment: z.string().max(2000).optional(),
+});
+
+/** Admin moderation: hiding a review removes it from the profile's rating */
+export const moderateReviewSchema = z.object({
+  action: z.enum(["hide", "restore"]),
+  note: z.string().min(1).max(1000),
+});
+
+// ============================================================================
+// Ticketing Validation Schemas
+// ============================================================================
+
+const optionalDate = z.coerce.date().nullable().optional();
+
+/**
+ * A ticket tier for a public event. An early-bird price applies until
+ * earlyBirdEndsAt or until earlyBirdQuota tickets have sold at it, whichever
+ * comes first. Cross-field rules live in tierConfigError (server/ticketing-utils.ts).
+ */
+export const ticketTierSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  ticketType: z.enum(["general", "vip", "reserved", "earlybird"]),
+  price: z.coerce.number().min(0),
+  earlyBirdPrice: z.coerce.number().min(0).nullable().optional(),
+  earlyBirdEndsAt: optionalDate,
+  earlyBirdQuota: z.number().int().min(1).nullable().optional(),
+  /** Tier cap; null means only the event capacity limits it */
+  quota: z.number().int().min(1).nullable().optional(),
+  salesStartAt: optionalDate,
+  salesEndAt: optionalDate,
+  maxPerOrder: z.number().int().min(1).max(50).optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const updateTicketTierSchema = ticketTierSchema.partial();
+
+export const createTicketOrderSchema = z.object({
+  items: z.array(z.object({
+    tierId: z.number().int().positive(),
+    quantity: z.number().int().min(1),
+  })).min(1),
+  buyerName: z.string().max(200).optional(),
+  buyerEmail: z.string().email().optional(),
+});
+
+export const refundTicketOrderSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+/** Guestlist entry added by the organizer or a booked artist */
+export const addGuestSchema = z.object({
+  holderName: z.string().min(1).max(200),
+  holderEmail: z.string().email().optional(),
+  note: z.string().max(500).optional(),
+});
+
+/** Door check-in: the code read from the ticket's QR (or typed in) */
+export const ticketCheckInSchema = z.object({
+  code: z.string().min(1).max(64),
+});
+
+// ============================================================================
+// Search Validation Schemas
+// ============================================================================
+
+/**
+ * Artist directory search. List filters (genre, category, city) take
+ * comma-separated values and match any of them; the fee range matches artists
+ * whose own fee range overlaps it. `cursor` is the `nextCursor` of the previous
+ * page and is only valid with the same sort.
+ */
+export const artistSearchSchema = z.object({
+  q: z.string().max(200).optional(),
+  genre: z.string().max(500).optional(),
+  category: z.string().max(200).optional(),
+  city: z.string().max(500).optional(),
+  minFee: z.coerce.number().min(0).optional(),
+  maxFee: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  availableOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  sort: z.enum(["relevance", "fee_asc", "fee_desc", "rating", "newest"]).optional(),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+}).refine((input) => input.minFee === undefined || input.maxFee === undefined || input.minFee <= input.maxFee, {
+  path: ["maxFee"],
+  message: "maxFee must not be below minFee",
+});
+
+/**
+ * Global search behind the command palette. `types` narrows the result types
+ * (comma-separated) within what the user's role may search; `limit` is per type.
+ */
+export const globalSearchSchema = z.object({
+  q: z.string().max(200).optional(),
+  types: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+// ============================================================================
+// Organization Validation Schemas
+// ============================================================================
+
+const organizationRole = z.enum(["owner", "manager", "viewer"]);
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(2, "Name is too short").max(120),
+  description: z.string().max(2000).nullable().optional(),
+  website: z.string().url().max(500).nullable().optional(),
+});
+
+export const updateOrganizationSchema = createOrganizationSchema.partial().refine(
+  (input) => Object.keys(input).length > 0,
+  { message: "Nothing to update" },
+);
+
+export const organizationInviteSchema = z.object({
+  email: z.string().trim().email(),
+  role: organizationRole.default("viewer"),
+});
+
+export const organizationMemberRoleSchema = z.object({
+  role: organizationRole,
+});
+
+export const profileRefSchema = z.object({
+  type: z.enum(["artist", "organizer", "venue"]),
+  id: z.number().int().positive(),
+});
+
+/** `null` goes back to acting as the user's own profile */
+export const actingProfileSchema = z.object({
+  profile: profileRefSchema.nullable(),
+});
+
+// ============================================================================
+// User Role Schemas
+// ============================================================================
+
+export const roleNameSchema = z.enum(roleNameEnum.enumValues);
+
+/** Adds a role to a user, or names the role to switch the session to */
+export const roleSelectionSchema = z.object({
+  role: roleNameSchema,
+});
+
+/** The full set of admin permissions a role should hold; keys are checked against the catalog server-side */
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(z.string().min(1)).max(100),
+});
+
+/**
+ * Admin contract update. Only these columns can be set; once a party has
+ * signed, only the ones in CONTRACT_FIELDS_EDITABLE_AFTER_SIGNING
+ * (server/contract-integrity-utils.ts).
+ */
+export const adminContractUpdateSchema = z.object({
+  status: z.enum(contractStatusEnum.enumValues),
+  deadlineAt: z.coerce.date().nullable(),
+  adminReviewStatus: z.enum(["approved", "rejected"]).nullable(),
+  adminReviewNote: z.string().max(5000).nullable(),
+  contractText: z.string().min(1).max(200000),
+  negotiatedTermsJson: z.record(z.any()),
+}).partial().strict();
+
+/** A new version of a clause in the contract clause library; placeholders are checked server-side */
+export const contractClauseSchema = z.object({
+  title: z.string().min(1).max(200),
+  body: z.string().min(1).max(20000),
+  numbered: z.boolean().default(true),
+});
+
+/** A new version of a contract template: an ordered list of clause keys plus the bookings it applies to */
+export const contractTemplateSchema = z.object({
+  name: z.string().min(1).max(120),
+  description: z.string().max(1000).nullish(),
+  title: z.string().min(1).max(200),
+  locale: z.string().min(2).max(20).default("en-IN"),
+  clauseKeys: z.array(z.string().min(1)).min(1).max(50),
+  artistCategory: z.enum(artistCategoryEnum.enumValues).nullish(),
+  eventType: z.enum(eventTypeEnum.enumValues).nullish(),
+  active: z.boolean().default(true),
+});
+
+// ============================================================================
+// Availability Validation Schemas
+// ============================================================================
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+/**
+ * Schema for an artist availability entry.
+ * - blocked / travel: unavailable for every day from startDate to endDate (inclusive)
+ * - recurring: unavailable on `daysOfWeek` (0 = Sunday) from startDate, optionally
+ *   only between startTime and endTime; an endTime before startTime runs past midnight
+ * Dates and times are wall-clock values in the event's timezone.
+ */
+export const availabilityEntrySchema = z.object({
+  kind: z.enum(["blocked", "travel", "recurring"]),
+  startDate: isoDate,
+  endDate: isoDate.nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  startTime: timeOfDay.nullable().optional(),
+  endTime: timeOfDay.nullable().optional(),
+  /** Travel only: cities on the route */
+  cities: z.array(z.string().min(1).max(100)).max(20).optional(),
+  note: z.string().max(500).nullable().optional(),
+}).superRefine((entry, ctx) => {
+  if (entry.endDate && entry.endDate < entry.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "endDate must not be before startDate" });
+  }
+  if (entry.kind === "recurring" && !entry.daysOfWeek?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["daysOfWeek"], message: "Recurring entries need at least one day" });
+  }
+  if (!!entry.startTime !== !!entry.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "Provide both startTime and endTime, or neither" });
+  }
+  if (entry.kind !== "recurring" && entry.startTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["startTime"], message: "Times apply to recurring entries only" });
+  }
+});
+
+export const calendarQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  /** View a specific artist's calendar (details are redacted for other users) */
+  artistId: z.coerce.number().int().positive().optional(),
+});
+
+/** Secret .ics subscription URL; rotating it revokes the previous one */
+export const calendarSubscriptionSchema = z.object({
+  url: z.string(),
+  createdAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable(),
+});
+
+// ============================================================================
+// Notification Preference Validation Schemas
+// ============================================================================
+
+/**
+ * Quiet hours are wall-clock "HH:MM" in the user's timezone and may wrap
+ * midnight (22:00–07:00). Both null turns them off.
+ */
+export const notificationSettingsSchema = z.object({
+  quietHoursStart: timeOfDay.nullable(),
+  quietHoursEnd: timeOfDay.nullable(),
+  digestFrequency: z.enum(["off", "daily", "weekly"]),
+  /** Local hour (0–23) the digest is sent */
+  digestHour: z.number().int().min(0).max(23),
+}).superRefine((settings, ctx) => {
+  if ((settings.quietHoursStart === null) !== (settings.quietHoursEnd === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quietHoursEnd"], message: "Provide both quiet hours times, or neither" });
+  }
+  if (settings.quietHoursStart && settings.quietHoursStart === settings.quietHoursEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quietHoursEnd"], message: "Quiet hours must not start and end at the same time" });
+  }
+});
+
+/** Partial update: any subset of per-type channel switches and/or the settings block */
+export const updateNotificationPreferencesSchema = z.object({
+  settings: notificationSettingsSchema.optional(),
+  preferences: z.array(z.object({
+    notificationTypeKey: z.string().min(1).max(100),
+    channel: z.enum(["in_app", "email", "sms", "push"]),
+    enabled: z.boolean(),
+  })).max(200).optional(),
+});
+
+// ============================================================================
+// Account Email Link Validation Schemas
+// ============================================================================
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// ============================================================================
+// Two-Factor Authentication Validation Schemas
+// ============================================================================
+
+/** A 6-digit authenticator code, or a recovery code like `abcde-23456` */
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(32),
+});
+
 export const errorSchemas = {
   validation: z.object({
     message: z.string(),
@@ -615,6 +1048,24 @@ export const errorSchemas = {
   conflict: z.object({
     message: z.string(),
   }),
+  /** Returned by booking offers/applications that overlap the artist's schedule */
+  scheduleConflict: z.object({
+    message: z.string(),
+    conflict: z.object({
+      type: z.enum(["booking", "availability"]),
+      bookingId: z.number().optional(),
+      eventId: z.number().nullable().optional(),
+      eventTitle: z.string().optional(),
+      status: z.string().nullable().optional(),
+      startTime: z.string().optional(),
+      endTime: z.string().optional(),
+      availabilityId: z.number().optional(),
+      kind: z.string().optional(),
+      startDate: z.string().optional(),
+      endDate: z.string().nullable().optional(),
+      note: z.string().nullable().optional(),
+    }),
+  }),
 };
 
 export const api = {
@@ -654,16 +1105,171 @@ export const api = {
         200: z.void(),
       },
     },
+    resendVerification: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email/resend',
+      responses: {
+        200: z.object({ emailSent: z.boolean() }),
+        401: errorSchemas.unauthorized,
+        409: errorSchemas.conflict,
+        429: z.object({ message: z.string() }),
+      },
+    },
+    verifyEmail: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email',
+      input: verifyEmailSchema,
+      responses: {
+        200: z.object({ verified: z.literal(true) }),
+        400: errorSchemas.validation,
+      },
+    },
+    forgotPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/forgot-password',
+      input: forgotPasswordSchema,
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        429: z.object({ message: z.string() }),
+      },
+    },
+    resetPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/reset-password',
+      input: resetPasswordSchema,
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    twoFactorStatus: {
+      method: 'GET' as const,
+      path: '/api/auth/2fa',
+      responses: {
+        200: z.object({
+          enabled: z.boolean(),
+          required: z.boolean(),
+          recoveryCodesRemaining: z.number(),
+          sessionVerified: z.boolean(),
+        }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    twoFactorSetup: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/setup',
+      responses: {
+        200: z.object({ secret: z.string(), otpauthUrl: z.string(), qrCodeDataUrl: z.string() }),
+        409: errorSchemas.conflict,
+      },
+    },
+    twoFactorEnable: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/enable',
+      input: twoFactorCodeSchema,
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+      },
+    },
+    twoFactorDisable: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/disable',
+      input: twoFactorCodeSchema,
+      responses: {
+        200: z.object({ enabled: z.literal(false) }),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+      },
+    },
+    twoFactorRecoveryCodes: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/recovery-codes',
+      input: twoFactorCodeSchema,
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+      },
+    },
+    twoFactorStepUp: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/step-up',
+      input: twoFactorCodeSchema,
+      responses: {
+        200: z.object({ method: z.enum(["totp", "recovery_code"]), expiresAt: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    twoFactorLogin: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/login',
+      input: twoFactorCodeSchema,
+      responses: {
+        200: z.custom<typeof users.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    oauthProviders: {
+      method: 'GET' as const,
+      path: '/api/auth/oauth/providers',
+      responses: {
+        200: z.array(z.object({ name: z.string(), label: z.string() })),
+      },
+    },
+    oauthStart: {
+      method: 'GET' as const,
+      path: '/api/auth/oauth/:provider/start',
+      responses: {
+        302: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    oauthLinks: {
+      method: 'GET' as const,
+      path: '/api/auth/oauth/links',
+      responses: {
+        200: z.array(z.object({
+          id: z.number(),
+          provider: z.string(),
+          label: z.string(),
+          email: z.string().nullable(),
+          name: z.string().nullable(),
+          createdAt: z.string().nullable(),
+          lastUsedAt: z.string().nullable(),
+        })),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    oauthUnlink: {
+      method: 'DELETE' as const,
+      path: '/api/auth/oauth/links/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
     user: {
       method: 'GET' as const,
       path: '/api/user',
       responses: {
-        200: z.custom<typeof users.$inferSelect & { artist?: typeof artists.$inferSelect, organizer?: typeof organizers.$inferSelect, venue?: typeof venues.$inferSelect }>(),
+        200: z.custom<typeof users.$inferSelect & { role: string, roles: string[], artist?: typeof artists.$inferSelect, organizer?: typeof organizers.$inferSelect, venue?: typeof venues.$inferSelect }>(),
         401: errorSchemas.unauthorized,
       },
     },
   },
   artists: {
+    search: {
+      method: 'GET' as const,
+      path: '/api/artists/search',
+      input: artistSearchSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+      },
+    },
     list: {
       method: 'GET' as const,
       path: '/api/artists',
@@ -741,14 +1347,33 @@ export const api = {
       responses: {
         201: z.custom<typeof bookings.$inferSelect>(),
         400: errorSchemas.validation,
+        409: errorSchemas.scheduleConflict,
       },
     },
     update: {
       method: 'PUT' as const,
       path: '/api/bookings/:id',
-      input: insertBookingSchema.partial(),
+      input: bookingUpdateSchema,
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    /**
+     * The caller's side (artist or organizer) confirms the event took place.
+     * Once both sides have confirmed, the booking is completed, the artist
+     * payout is queued and the review window opens.
+     */
+    complete: {
+      method: 'POST' as const,
+      path: '/api/bookings/:id/complete',
+      input: completionConfirmSchema,
       responses: {
         200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
         404: errorSchemas.notFound,
       },
     },
@@ -792,6 +1417,7 @@ export const api = {
       responses: {
         201: applicationSubmitResponseSchema,
         400: errorSchemas.validation,
+        409: errorSchemas.scheduleConflict,
       },
     },
     negotiationSummary: {
@@ -1097,6 +1723,548 @@ export const api = {
         401: errorSchemas.unauthorized,
       },
     },
+    preferences: {
+      method: 'GET' as const,
+      path: '/api/notification-preferences',
+      responses: {
+        200: z.object({
+          timezone: z.string(),
+          settings: notificationSettingsSchema,
+          availableChannels: z.array(z.string()),
+          types: z.array(z.object({
+            key: z.string(),
+            label: z.string(),
+            category: z.string(),
+            description: z.string().nullable(),
+            priority: z.string(),
+            defaultChannels: z.array(z.string()),
+            channels: z.record(z.boolean()),
+          })),
+        }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    updatePreferences: {
+      method: 'PUT' as const,
+      path: '/api/notification-preferences',
+      input: updateNotificationPreferencesSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+
+  disputes: {
+    open: {
+      method: 'POST' as const,
+      path: '/api/bookings/:id/disputes',
+      input: openDisputeSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    listForBooking: {
+      method: 'GET' as const,
+      path: '/api/bookings/:id/disputes',
+      responses: {
+        200: z.array(z.any()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/disputes/:id',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    attachEvidence: {
+      method: 'POST' as const,
+      path: '/api/disputes/:id/evidence',
+      input: attachDisputeEvidenceSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+
+  cancellations: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/bookings/:id/cancellation',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    cancel: {
+      method: 'POST' as const,
+      path: '/api/bookings/:id/cancel',
+      input: cancelBookingSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+
+  reviews: {
+    submit: {
+      method: 'POST' as const,
+      path: '/api/bookings/:id/reviews',
+      input: submitReviewSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    listForBooking: {
+      method: 'GET' as const,
+      path: '/api/bookings/:id/reviews',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    listForSubject: {
+      method: 'GET' as const,
+      path: '/api/reviews/:subjectType/:subjectId',
+      responses: {
+        200: z.array(z.any()),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+
+  tickets: {
+    listTiers: {
+      method: 'GET' as const,
+      path: '/api/events/:id/ticket-tiers',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    createTier: {
+      method: 'POST' as const,
+      path: '/api/events/:id/ticket-tiers',
+      input: ticketTierSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    updateTier: {
+      method: 'PATCH' as const,
+      path: '/api/ticket-tiers/:id',
+      input: updateTicketTierSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteTier: {
+      method: 'DELETE' as const,
+      path: '/api/ticket-tiers/:id',
+      responses: {
+        200: z.object({ deleted: z.boolean() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    summary: {
+      method: 'GET' as const,
+      path: '/api/events/:id/ticketing',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    createOrder: {
+      method: 'POST' as const,
+      path: '/api/events/:id/ticket-orders',
+      input: createTicketOrderSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    payOrder: {
+      method: 'POST' as const,
+      path: '/api/ticket-orders/:id/pay',
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        402: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    cancelOrder: {
+      method: 'POST' as const,
+      path: '/api/ticket-orders/:id/cancel',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    refundOrder: {
+      method: 'POST' as const,
+      path: '/api/ticket-orders/:id/refund',
+      input: refundTicketOrderSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    mine: {
+      method: 'GET' as const,
+      path: '/api/tickets/mine',
+      responses: {
+        200: z.array(z.any()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    qr: {
+      method: 'GET' as const,
+      path: '/api/tickets/:code/qr',
+      responses: {
+        200: z.any(),
+        404: errorSchemas.notFound,
+      },
+    },
+    guestlist: {
+      method: 'GET' as const,
+      path: '/api/events/:id/guestlist',
+      responses: {
+        200: z.array(z.any()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    addGuest: {
+      method: 'POST' as const,
+      path: '/api/events/:id/guestlist',
+      input: addGuestSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        409: z.object({ message: z.string() }),
+      },
+    },
+    removeGuest: {
+      method: 'DELETE' as const,
+      path: '/api/events/:id/guestlist/:ticketId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    checkIn: {
+      method: 'POST' as const,
+      path: '/api/events/:id/check-in',
+      input: ticketCheckInSchema,
+      responses: {
+        200: z.any(),
+        404: z.any(),
+        409: z.any(),
+      },
+    },
+  },
+
+  search: {
+    global: {
+      method: 'GET' as const,
+      path: '/api/search',
+      input: globalSearchSchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+
+  organizations: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/organizations',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/organizations',
+      input: createOrganizationSchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/organizations/:id',
+      responses: {
+        200: z.any(),
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/organizations/:id',
+      input: updateOrganizationSchema,
+      responses: {
+        200: z.any(),
+        403: z.object({ message: z.string() }),
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/organizations/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: z.object({ message: z.string() }),
+      },
+    },
+    updateMember: {
+      method: 'PATCH' as const,
+      path: '/api/organizations/:id/members/:userId',
+      input: organizationMemberRoleSchema,
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: z.object({ message: z.string() }),
+        409: z.object({ message: z.string() }),
+      },
+    },
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/organizations/:id/members/:userId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        409: z.object({ message: z.string() }),
+      },
+    },
+    invite: {
+      method: 'POST' as const,
+      path: '/api/organizations/:id/invites',
+      input: organizationInviteSchema,
+      responses: {
+        201: z.any(),
+        403: z.object({ message: z.string() }),
+        409: z.object({ message: z.string() }),
+      },
+    },
+    revokeInvite: {
+      method: 'DELETE' as const,
+      path: '/api/organizations/:id/invites/:inviteId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    previewInvite: {
+      method: 'GET' as const,
+      path: '/api/organization-invites/:token',
+      responses: {
+        200: z.any(),
+        404: errorSchemas.notFound,
+      },
+    },
+    acceptInvite: {
+      method: 'POST' as const,
+      path: '/api/organization-invites/:token/accept',
+      responses: {
+        200: z.any(),
+        400: z.object({ message: z.string() }),
+        403: z.object({ message: z.string() }),
+      },
+    },
+    addProfile: {
+      method: 'POST' as const,
+      path: '/api/organizations/:id/profiles',
+      input: profileRefSchema,
+      responses: {
+        201: z.any(),
+        403: z.object({ message: z.string() }),
+        409: z.object({ message: z.string() }),
+      },
+    },
+    removeProfile: {
+      method: 'DELETE' as const,
+      path: '/api/organizations/:id/profiles/:type/:profileId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    myProfiles: {
+      method: 'GET' as const,
+      path: '/api/me/profiles',
+      responses: {
+        200: z.any(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    setActingProfile: {
+      method: 'PUT' as const,
+      path: '/api/me/acting-profile',
+      input: actingProfileSchema,
+      responses: {
+        200: z.any(),
+        403: z.object({ message: z.string() }),
+      },
+    },
+  },
+
+  roles: {
+    mine: {
+      method: 'GET' as const,
+      path: '/api/me/roles',
+      responses: {
+        200: z.object({
+          roles: z.array(z.string()),
+          primary: z.string(),
+          active: z.string(),
+          selfAssignable: z.array(z.string()),
+        }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    add: {
+      method: 'POST' as const,
+      path: '/api/me/roles',
+      input: roleSelectionSchema,
+      responses: {
+        201: z.object({ roles: z.array(z.string()), primary: z.string() }),
+        403: z.object({ message: z.string() }),
+        409: errorSchemas.conflict,
+      },
+    },
+    remove: {
+      method: 'DELETE' as const,
+      path: '/api/me/roles/:role',
+      responses: {
+        200: z.object({ roles: z.array(z.string()), primary: z.string() }),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    setActive: {
+      method: 'PUT' as const,
+      path: '/api/me/active-role',
+      input: roleSelectionSchema,
+      responses: {
+        200: z.any(),
+        403: z.object({ message: z.string() }),
+      },
+    },
+  },
+
+  availability: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/artists/availability',
+      responses: {
+        200: z.array(z.any()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/artists/availability',
+      input: availabilityEntrySchema,
+      responses: {
+        201: z.any(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/artists/availability/:id',
+      input: availabilityEntrySchema,
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/artists/availability/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+
+  calendar: {
+    feed: {
+      method: 'GET' as const,
+      path: '/api/calendar',
+      input: calendarQuerySchema,
+      responses: {
+        200: z.array(z.any()),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    subscription: {
+      method: 'GET' as const,
+      path: '/api/calendar/subscription',
+      responses: {
+        200: calendarSubscriptionSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    rotateSubscription: {
+      method: 'POST' as const,
+      path: '/api/calendar/subscription/rotate',
+      responses: {
+        200: calendarSubscriptionSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    /** Public: authenticated by the secret token in the path */
+    ics: {
+      method: 'GET' as const,
+      path: '/api/calendar/ics/:token',
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+      },
+    },
+    bookingIcs: {
+      method: 'GET' as const,
+      path: '/api/bookings/:id/calendar.ics',
+      responses: {
+        200: z.string(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
   },
 
   // ─── AI Agents ─────────────────────────────────────────────────────────────
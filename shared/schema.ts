@@ -1,5 +1,5 @@
-import { pgTable, text, integer, boolean, timestamp, jsonb, pgEnum, numeric, date, serial, char, smallint, bigserial, inet, uuid, uniqueIndex } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, integer, boolean, timestamp, jsonb, pgEnum, numeric, date, serial, char, smallint, bigserial, inet, uuid, uniqueIndex, index, primaryKey, customType } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 
 // ============================================================================
@@ -37,6 +37,12 @@ export const roleNameEnum = pgEnum("role_name", [
   "staff",
 ]);
 
+export const availabilityKindEnum = pgEnum("availability_kind", [
+  "blocked",
+  "travel",
+  "recurring",
+]);
+
 export const bookingStatusEnum = pgEnum("booking_status", [
   "inquiry",
   "offered",
@@ -65,6 +71,7 @@ export const contractStatusEnum = pgEnum("contract_status", [
 export const disputeStatusEnum = pgEnum("dispute_status", [
   "open",
   "investigating",
+  "resolving", // an admin's resolution is moving money
   "resolved_refund",
   "resolved_no_refund",
   "escalated",
@@ -113,9 +120,23 @@ export const notificationPriorityEnum = pgEnum("notification_priority", [
   "urgent",
 ]);
 
+export const notificationDigestFrequencyEnum = pgEnum("notification_digest_frequency", [
+  "off",
+  "daily",
+  "weekly",
+]);
+
+export const notificationDeliveryStatusEnum = pgEnum("notification_delivery_status", [
+  "pending",
+  "sending",
+  "delivered",
+  "failed",
+]);
+
 export const paymentStatusEnum = pgEnum("payment_status", [
   "initiated",
   "authorized",
+  "processing",
   "captured",
   "failed",
   "refunded",
@@ -161,6 +182,14 @@ export const contractEditStatusEnum = pgEnum("contract_edit_status", [
   "applied",
 ]);
 
+export const contractAmendmentStatusEnum = pgEnum("contract_amendment_status", [
+  "proposed",
+  "admin_review",
+  "applied",
+  "rejected",
+  "withdrawn",
+]);
+
 export const llmProviderEnum = pgEnum("llm_provider", [
   "openai",
   "anthropic",
@@ -187,6 +216,75 @@ export const feedbackRatingEnum = pgEnum("feedback_rating", [
   "negative",
 ]);
 
+export const scheduledJobKindEnum = pgEnum("scheduled_job_kind", [
+  "recurring",
+  "once",
+]);
+
+export const scheduledJobStatusEnum = pgEnum("scheduled_job_status", [
+  "scheduled",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export const jobRunStatusEnum = pgEnum("job_run_status", [
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const domainEventStatusEnum = pgEnum("domain_event_status", [
+  "pending",
+  "dispatched",
+  "failed",
+]);
+
+export const reviewSubjectEnum = pgEnum("review_subject", [
+  "artist",
+  "organizer",
+  "venue",
+]);
+
+export const reviewStatusEnum = pgEnum("review_status", [
+  "submitted",
+  "published",
+  "hidden",
+]);
+
+export const ticketOrderStatusEnum = pgEnum("ticket_order_status", [
+  "pending",
+  "paid",
+  "cancelled",
+  "refunded",
+  "expired",
+]);
+
+export const ticketStatusEnum = pgEnum("ticket_status", [
+  "reserved",
+  "valid",
+  "used",
+  "cancelled",
+]);
+
+export const organizationRoleEnum = pgEnum("organization_role", [
+  "owner",
+  "manager",
+  "viewer",
+]);
+
+export const organizationInviteStatusEnum = pgEnum("organization_invite_status", [
+  "pending",
+  "accepted",
+  "revoked",
+]);
+
+export const accountTokenPurposeEnum = pgEnum("account_token_purpose", [
+  "email_verification",
+  "password_reset",
+]);
+
 // ============================================================================
 // GEOGRAPHY & LOOKUP TABLES
 // ============================================================================
@@ -255,6 +353,7 @@ export const users = pgTable("users", {
   permanentAddress: text("permanent_address"),
   panNumber: text("pan_number"),
   gstin: text("gstin"),
+  gstRegistrationType: gstRegistrationTypeEnum("gst_registration_type").default("none"),
   bankAccountNumber: text("bank_account_number"),
   bankIfsc: text("bank_ifsc"),
   bankBranch: text("bank_branch"),
@@ -265,6 +364,9 @@ export const users = pgTable("users", {
   gender: genderEnum("gender"),
   dateOfBirth: date("date_of_birth"),
   status: userStatusEnum("status").default("pending_verification"),
+  // Set when the user follows the verification link; verifying also moves a
+  // pending_verification account to active
+  emailVerifiedAt: timestamp("email_verified_at"),
   locale: char("locale", { length: 5 }).references(() => locales.localeCode),
   currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
   timezone: text("timezone").default("Asia/Kolkata").references(() => timezones.tzName),
@@ -277,16 +379,33 @@ export const roles = pgTable("roles", {
   id: serial("id").primaryKey(),
   name: roleNameEnum("name").notNull().unique(),
   description: text("description"),
+  // Set once an admin edits this role's admin permissions; until then the
+  // defaults in server/admin-permission-utils.ts apply
+  permissionsConfiguredAt: timestamp("permissions_configured_at"),
 });
 
+// Admin panel permissions granted to a role (keys from the permission catalog)
+export const rolePermissions = pgTable("role_permissions", {
+  roleId: integer("role_id").references(() => roles.id, { onDelete: "cascade" }).notNull(),
+  permission: text("permission").notNull(),
+  grantedBy: integer("granted_by").references(() => users.id),
+  grantedAt: timestamp("granted_at").defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.roleId, table.permission] }),
+}));
+
+// Roles a user holds; `users.metadata.role` names the primary one. The
+// session acts in one of them at a time (the active role).
 export const userRoles = pgTable("user_roles", {
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   roleId: integer("role_id").references(() => roles.id, { onDelete: "cascade" }).notNull(),
   assignedAt: timestamp("assigned_at").defaultNow(),
-}, (table: any) => ({
-  pk: { columns: [table.userId, table.roleId] }
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.roleId] }),
 }));
 
+// External sign-in identities (Google, generic OIDC). `providerUserId` is the
+// ID token `sub`; `data` keeps the email/name claims from the last sign-in.
 export const authProviders = pgTable("auth_providers", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
@@ -294,8 +413,55 @@ export const authProviders = pgTable("auth_providers", {
   providerUserId: text("provider_user_id").notNull(),
   data: jsonb("data"),
   createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => ({
+  identityIdx: uniqueIndex("auth_providers_identity_idx").on(table.provider, table.providerUserId),
+  userIdx: index("auth_providers_user_idx").on(table.userId),
+}));
+
+// Email verification and password reset links. The link carries a signed
+// token naming this row; the row makes the token single-use and is counted
+// for rate limiting.
+export const accountTokens = pgTable("account_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  purpose: accountTokenPurposeEnum("purpose").notNull(),
+  email: text("email").notNull(),
+  requestIp: text("request_ip"),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userPurposeIdx: index("account_tokens_user_purpose_idx").on(table.userId, table.purpose, table.createdAt),
+  ipIdx: index("account_tokens_ip_idx").on(table.requestIp, table.createdAt),
+}));
+
+// TOTP two-factor authentication. The row is created when setup starts and
+// only protects the account once enabledAt is set. The secret is encrypted
+// at rest when AGENT_ENCRYPTION_KEY is configured.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Last accepted TOTP time step; codes at or before it are refused (replay)
+  lastUsedStep: integer("last_used_step"),
+  // Wrong codes since the last good one, across every code check; too many lock checks until lockedUntil
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Single-use codes for when the authenticator is lost; only hashes are stored
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId),
+}));
+
 // ============================================================================
 // ORGANIZATIONS
 // ============================================================================
@@ -311,15 +477,35 @@ export const organizations = pgTable("organizations", {
   metadata: jsonb("metadata").default({}),
 });
 
+// Owners manage members and the organization; managers act for its artist,
+// venue and promoter profiles; viewers can only see them.
 export const organizationMembers = pgTable("organization_members", {
   orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
-  role: text("role"),
+  role: organizationRoleEnum("role").notNull().default("viewer"),
   joinedAt: timestamp("joined_at").defaultNow(),
 }, (table) => ({
   pk: { columns: [table.orgId, table.userId] }
 }));
 
+// Email invitations to join an organization. Only a hash of the token is
+// stored; the link in the email carries the token itself.
+export const organizationInvites = pgTable("organization_invites", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(),
+  role: organizationRoleEnum("role").notNull().default("viewer"),
+  tokenHash: text("token_hash").notNull().unique(),
+  status: organizationInviteStatusEnum("status").notNull().default("pending"),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orgEmailIdx: index("organization_invites_org_email_idx").on(table.orgId, table.email),
+}));
+
 // ============================================================================
 // GENRES
 // ============================================================================
@@ -406,6 +592,8 @@ export const promoters = pgTable("promoters", {
   name: text("name"),
   description: text("description"),
   contactPerson: jsonb("contact_person"),
+  ratingAvg: numeric("rating_avg", { precision: 3, scale: 2 }).default("0"),
+  ratingCount: integer("rating_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   metadata: jsonb("metadata").default({}),
@@ -443,6 +631,16 @@ export const venues = pgTable("venues", {
 
 export const visibilityEnum = pgEnum("visibility", ["public", "private"]);
 
+export const eventTypeEnum = pgEnum("event_type", [
+  "concert",
+  "club_night",
+  "festival",
+  "private_event",
+  "corporate",
+  "wedding",
+  "other",
+]);
+
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
   organizerId: integer("organizer_id").references(() => promoters.id, { onDelete: "set null" }),
@@ -459,6 +657,8 @@ export const events = pgTable("events", {
   currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
   status: text("status").default("draft"),
   visibility: visibilityEnum("visibility").default("private"),
+  // Picks the contract template for bookings at this event
+  eventType: eventTypeEnum("event_type"),
   metadata: jsonb("metadata").default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -519,11 +719,43 @@ export const bookings = pgTable("bookings", {
   flowDeadlineAt: timestamp("flow_deadline_at", { withTimezone: true }),
   flowExpiredAt: timestamp("flow_expired_at", { withTimezone: true }),
   flowExpiredReason: text("flow_expired_reason"),
+  reviewWindowClosesAt: timestamp("review_window_closes_at", { withTimezone: true }),
+  reviewsRevealedAt: timestamp("reviews_revealed_at", { withTimezone: true }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   meta: jsonb("meta").default({}),
 });
 
+// ============================================================================
+// ARTIST AVAILABILITY
+// ============================================================================
+
+// Dates and times are wall-clock values, compared against an event in the
+// event's own timezone (events.timezone).
+export const artistAvailability = pgTable("artist_availability", {
+  id: serial("id").primaryKey(),
+  artistId: integer("artist_id").references(() => artists.id, { onDelete: "cascade" }).notNull(),
+  kind: availabilityKindEnum("kind").notNull(),
+  startDate: date("start_date").notNull(), // recurring: first date the rule applies
+  endDate: date("end_date"), // inclusive; null = open-ended (recurring only)
+  daysOfWeek: jsonb("days_of_week").default([]), // recurring: 0 = Sunday .. 6 = Saturday
+  startTime: text("start_time"), // recurring: "HH:MM", null = all day
+  endTime: text("end_time"), // "HH:MM"; earlier than startTime = runs past midnight
+  cities: jsonb("cities").default([]), // travel: cities on the route
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Secret token for a user's .ics subscription URL; rotating it revokes old subscriptions
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 // ============================================================================
 // CONTRACTS
 // ============================================================================
@@ -574,6 +806,9 @@ export const contracts = pgTable("contracts", {
   trustScoreSnapshot: text("trust_score_snapshot"),
   commissionBreakdownJson: jsonb("commission_breakdown_json"),
   negotiatedTermsJson: jsonb("negotiated_terms_json"),
+  // Template row and clause library revision the text was rendered from;
+  // null for contracts generated before templates
+  contractTemplateId: integer("contract_template_id").references(() => contractTemplates.id, { onDelete: "restrict" }),
   clauseVersion: integer("clause_version"),
   templateVersion: integer("template_version"),
   organizerSignatureRequired: boolean("organizer_signature_required").default(true),
@@ -592,6 +827,62 @@ export const contractVersions = pgTable("contract_versions", {
   createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   changeSummary: text("change_summary"),
+  // Placeholder values the text was rendered with, for re-rendering from the template
+  renderVariables: jsonb("render_variables"),
+  // Set on versions proposed as an amendment: the signed version they amend
+  amendsVersion: integer("amends_version"),
+  amendmentId: integer("amendment_id").references((): any => contractAmendments.id, { onDelete: "set null" }),
+});
+
+// Clause library. Saving a clause adds a row whose version is the next
+// library revision; rows are never changed, so a contract's clause version
+// picks out the exact clause text it used.
+export const contractClauses = pgTable("contract_clauses", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  numbered: boolean("numbered").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  keyVersionIdx: uniqueIndex("contract_clauses_key_version_idx").on(table.key, table.version),
+}));
+
+// Contract templates: an ordered list of library clauses. Each save adds the
+// next version of the template key; the newest active version of the most
+// specific match (artist category, event type) is used for new contracts.
+export const contractTemplates = pgTable("contract_templates", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  title: text("title").notNull(),
+  locale: text("locale").notNull().default("en-IN"),
+  clauseKeys: jsonb("clause_keys").$type<string[]>().notNull(),
+  artistCategory: artistCategoryEnum("artist_category"),
+  eventType: eventTypeEnum("event_type"),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  keyVersionIdx: uniqueIndex("contract_templates_key_version_idx").on(table.key, table.version),
+}));
+
+// Cancellation policies: penalty tiers by cancelling party and days before the
+// event. Each save adds the next version; new contracts record the newest
+// version in contracts.cancellation_policy_version and are settled by it.
+export const cancellationPolicies = pgTable("cancellation_policies", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // { artist: CancellationTier[], organizer: CancellationTier[] } (server/cancellation-policy-utils.ts)
+  rules: jsonb("rules").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
 });
 
 // Edit requests (one per party max)
@@ -611,6 +902,45 @@ export const contractEditRequests = pgTable("contract_edit_requests", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
 });
 
+// Amendments to a signed contract. Each one renders its changes into a new
+// contract version linked to the signed version it amends; both parties
+// review, accept and sign that version, fee changes then wait for admin
+// review, and applying it makes the version the contract's current one.
+export const contractAmendments = pgTable("contract_amendments", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  baseVersion: integer("base_version").notNull(),
+  version: integer("version").notNull(),
+  status: contractAmendmentStatusEnum("status").notNull().default("proposed"),
+  proposedBy: integer("proposed_by").references(() => users.id, { onDelete: "set null" }),
+  proposedByRole: text("proposed_by_role").notNull(),
+  reason: text("reason").notNull(),
+  changes: jsonb("changes").notNull(),
+  // Clause-level diff of the base and amended negotiated terms
+  diff: jsonb("diff").notNull().default([]),
+  feeChanged: boolean("fee_changed").notNull().default(false),
+  // Recalculated through the commission policy when the fee changes
+  commissionBreakdownJson: jsonb("commission_breakdown_json"),
+  artistReviewedAt: timestamp("artist_reviewed_at", { withTimezone: true }),
+  promoterReviewedAt: timestamp("promoter_reviewed_at", { withTimezone: true }),
+  artistAcceptedAt: timestamp("artist_accepted_at", { withTimezone: true }),
+  promoterAcceptedAt: timestamp("promoter_accepted_at", { withTimezone: true }),
+  artistSignedAt: timestamp("artist_signed_at", { withTimezone: true }),
+  promoterSignedAt: timestamp("promoter_signed_at", { withTimezone: true }),
+  closedBy: integer("closed_by").references(() => users.id, { onDelete: "set null" }),
+  closedNote: text("closed_note"),
+  adminReviewedBy: integer("admin_reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  adminReviewedAt: timestamp("admin_reviewed_at", { withTimezone: true }),
+  adminReviewNote: text("admin_review_note"),
+  // Executed text of the base version, kept so its signatures still verify once superseded
+  baseExecutedText: text("base_executed_text"),
+  appliedAt: timestamp("applied_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  contractIdx: index("contract_amendments_contract_idx").on(table.contractId),
+}));
+
 // Contract signatures (captures actual signature data)
 export const contractSignatures = pgTable("contract_signatures", {
   id: serial("id").primaryKey(),
@@ -621,8 +951,16 @@ export const contractSignatures = pgTable("contract_signatures", {
   signatureType: text("signature_type").default("typed"), // 'drawn', 'typed', 'uploaded'
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
+  // Step-up check passed just before signing: 'totp' or 'recovery_code'
+  twoFactorMethod: text("two_factor_method"),
+  twoFactorVerifiedAt: timestamp("two_factor_verified_at", { withTimezone: true }),
+  // SHA-256 of the signed contract version's canonical text and terms, and that version
+  documentHash: text("document_hash"),
+  contractVersion: integer("contract_version"),
   signedAt: timestamp("signed_at", { withTimezone: true }).defaultNow(),
-});
+}, (table) => ({
+  documentHashIdx: index("contract_signatures_document_hash_idx").on(table.documentHash),
+}));
 
 // ============================================================================
 // PAYMENTS
@@ -640,6 +978,7 @@ export const payments = pgTable("payments", {
   gateway: text("gateway"),
   gatewayTransactionId: text("gateway_transaction_id"),
   gatewayResponse: jsonb("gateway_response"),
+  dueAt: timestamp("due_at"),
   initiatedAt: timestamp("initiated_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   metadata: jsonb("metadata").default({}),
@@ -648,6 +987,7 @@ export const payments = pgTable("payments", {
 export const payouts = pgTable("payouts", {
   id: serial("id").primaryKey(),
   toUserId: integer("to_user_id").references(() => users.id),
+  bookingId: integer("booking_id").references(() => bookings.id),
   amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
   currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
   status: payoutStatusEnum("status").default("queued"),
@@ -657,6 +997,219 @@ export const payouts = pgTable("payouts", {
   metadata: jsonb("metadata").default({}),
 });
 
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  financialYear: text("financial_year").notNull(),
+  sequence: integer("sequence").notNull(),
+  invoiceType: text("invoice_type").notNull(), // organizer | artist
+  bookingId: integer("booking_id").references(() => bookings.id),
+  contractId: integer("contract_id").references(() => contracts.id),
+  recipientUserId: integer("recipient_user_id").references(() => users.id),
+  supplierDetails: jsonb("supplier_details").default({}),
+  recipientDetails: jsonb("recipient_details").default({}),
+  placeOfSupply: char("place_of_supply", { length: 2 }),
+  supplyType: text("supply_type"), // intra_state | inter_state
+  lineItems: jsonb("line_items").default([]),
+  subtotal: numeric("subtotal", { precision: 14, scale: 2 }).notNull(),
+  cgstAmount: numeric("cgst_amount", { precision: 14, scale: 2 }).default("0"),
+  sgstAmount: numeric("sgst_amount", { precision: 14, scale: 2 }).default("0"),
+  igstAmount: numeric("igst_amount", { precision: 14, scale: 2 }).default("0"),
+  totalAmount: numeric("total_amount", { precision: 14, scale: 2 }).notNull(),
+  currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
+  status: invoiceStatusEnum("status").default("draft"),
+  issuedAt: timestamp("issued_at"),
+  dueAt: timestamp("due_at"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  metadata: jsonb("metadata").default({}),
+});
+
+// One counter row per financial year; incremented atomically when an invoice is issued
+export const invoiceSequences = pgTable("invoice_sequences", {
+  financialYear: text("financial_year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "cascade" }).notNull(),
+  raisedByUserId: integer("raised_by_user_id").references(() => users.id),
+  raisedByRole: text("raised_by_role"), // artist | organizer
+  reason: text("reason").notNull(),
+  description: text("description"),
+  status: disputeStatusEnum("status").default("open"),
+  bookingStatusBefore: bookingStatusEnum("booking_status_before"),
+  assignedAdminId: integer("assigned_admin_id").references(() => users.id),
+  resolutionNote: text("resolution_note"),
+  refundAmount: numeric("refund_amount", { precision: 14, scale: 2 }),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  metadata: jsonb("metadata").default({}),
+});
+
+// A booking's cancellation: who cancelled, when and why, the policy version it
+// was settled by and the money moved (refund, cancellation fee, compensation).
+export const bookingCancellations = pgTable("booking_cancellations", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "cascade" }).notNull().unique(),
+  contractId: integer("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  cancelledBy: integer("cancelled_by").references(() => users.id, { onDelete: "set null" }),
+  cancelledByRole: text("cancelled_by_role").notNull(), // artist | organizer | admin
+  // Party the cancellation is charged to: artist | organizer | force_majeure
+  fault: text("fault").notNull(),
+  reason: text("reason").notNull(),
+  note: text("note"),
+  bookingStatusBefore: bookingStatusEnum("booking_status_before"),
+  policyVersion: integer("policy_version"),
+  daysBeforeEvent: integer("days_before_event"),
+  settlement: jsonb("settlement").notNull(),
+  refundedAmount: numeric("refunded_amount", { precision: 14, scale: 2 }).default("0"),
+  feePaymentId: integer("fee_payment_id").references(() => payments.id, { onDelete: "set null" }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }).defaultNow(),
+});
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+// Post-event reviews: the organizer reviews the artist, the artist reviews the
+// organizer and (optionally) the venue. Reviews stay sealed ("submitted") until
+// both sides have reviewed or the booking's review window closes, then they are
+// published together. subjectId points at artists, promoters or venues.
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "cascade" }).notNull(),
+  reviewerUserId: integer("reviewer_user_id").references(() => users.id, { onDelete: "set null" }),
+  reviewerRole: text("reviewer_role").notNull(), // artist | organizer
+  subjectType: reviewSubjectEnum("subject_type").notNull(),
+  subjectId: integer("subject_id").notNull(),
+  ratings: jsonb("ratings").notNull(), // { criterion: 1-5 }
+  overallRating: numeric("overall_rating", { precision: 3, scale: 2 }).notNull(),
+  comment: text("comment"),
+  status: reviewStatusEnum("status").default("submitted").notNull(),
+  publishedAt: timestamp("published_at", { withTimezone: true }),
+  moderatedBy: integer("moderated_by").references(() => users.id, { onDelete: "set null" }),
+  moderatedAt: timestamp("moderated_at", { withTimezone: true }),
+  moderationNote: text("moderation_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  bookingSubjectIdx: uniqueIndex("reviews_booking_subject_idx").on(table.bookingId, table.subjectType),
+  subjectIdx: index("reviews_subject_idx").on(table.subjectType, table.subjectId, table.status),
+}));
+
+// ============================================================================
+// TICKETING
+// ============================================================================
+
+// Entry tiers for a public event. A tier may sell at earlyBirdPrice until
+// earlyBirdEndsAt or until earlyBirdQuota tickets have gone at that price.
+// quota is the tier's own cap; every tier also shares events.capacityTotal.
+export const ticketTiers = pgTable("ticket_tiers", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => events.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  ticketType: ticketTypeEnum("ticket_type").default("general").notNull(),
+  price: numeric("price", { precision: 14, scale: 2 }).notNull(),
+  earlyBirdPrice: numeric("early_bird_price", { precision: 14, scale: 2 }),
+  earlyBirdEndsAt: timestamp("early_bird_ends_at", { withTimezone: true }),
+  earlyBirdQuota: integer("early_bird_quota"),
+  currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
+  quota: integer("quota"),
+  salesStartAt: timestamp("sales_start_at", { withTimezone: true }),
+  salesEndAt: timestamp("sales_end_at", { withTimezone: true }),
+  maxPerOrder: integer("max_per_order").default(10).notNull(),
+  active: boolean("active").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  eventIdx: index("ticket_tiers_event_idx").on(table.eventId),
+}));
+
+// A buyer's purchase of one or more tiers. Tickets are held as "reserved"
+// while the order is pending and become "valid" once its payment is captured.
+export const ticketOrders = pgTable("ticket_orders", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => events.id, { onDelete: "cascade" }).notNull(),
+  buyerUserId: integer("buyer_user_id").references(() => users.id, { onDelete: "set null" }),
+  status: ticketOrderStatusEnum("status").default("pending").notNull(),
+  items: jsonb("items").notNull(), // [{ tierId, quantity, unitPrice, earlyBird }]
+  totalAmount: numeric("total_amount", { precision: 14, scale: 2 }).notNull(),
+  currency: char("currency", { length: 3 }).default("INR").references(() => currencies.currencyCode),
+  paymentId: integer("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  buyerName: text("buyer_name"),
+  buyerEmail: text("buyer_email"),
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  paidAt: timestamp("paid_at", { withTimezone: true }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  eventIdx: index("ticket_orders_event_idx").on(table.eventId),
+  buyerIdx: index("ticket_orders_buyer_idx").on(table.buyerUserId),
+}));
+
+// One admission. `code` is what the QR encodes and what the door scans.
+// Guestlist entries have no tier or order; they are added by the organizer or
+// a booked artist and count against the event's capacity like sold tickets.
+export const tickets = pgTable("tickets", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => events.id, { onDelete: "cascade" }).notNull(),
+  tierId: integer("tier_id").references(() => ticketTiers.id, { onDelete: "set null" }),
+  orderId: integer("order_id").references(() => ticketOrders.id, { onDelete: "cascade" }),
+  ticketType: ticketTypeEnum("ticket_type").notNull(),
+  code: text("code").notNull(),
+  status: ticketStatusEnum("status").default("reserved").notNull(),
+  price: numeric("price", { precision: 14, scale: 2 }).default("0").notNull(),
+  earlyBird: boolean("early_bird").default(false).notNull(),
+  holderName: text("holder_name"),
+  holderEmail: text("holder_email"),
+  addedByUserId: integer("added_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  addedByRole: text("added_by_role"), // organizer | artist (guestlist only)
+  note: text("note"),
+  checkedInAt: timestamp("checked_in_at", { withTimezone: true }),
+  checkedInBy: integer("checked_in_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  codeIdx: uniqueIndex("tickets_code_idx").on(table.code),
+  eventStatusIdx: index("tickets_event_status_idx").on(table.eventId, table.status),
+}));
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Denormalized text of a searchable entity, rebuilt whenever the entity changes.
+// `document` weights title (A), keywords such as genres, city and category (B)
+// and body (C). Trigram matching on `title` needs the pg_trgm extension.
+export const searchDocuments = pgTable("search_documents", {
+  id: serial("id").primaryKey(),
+  entityType: searchEntityEnum("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  title: text("title").notNull(),
+  keywords: text("keywords").notNull().default(""),
+  body: text("body").notNull().default(""),
+  document: tsvector("document").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  entityIdx: uniqueIndex("search_documents_entity_idx").on(table.entityType, table.entityId),
+  documentIdx: index("search_documents_document_idx").using("gin", table.document),
+  titleTrgmIdx: index("search_documents_title_trgm_idx").using("gin", sql`${table.title} gin_trgm_ops`),
+}));
+
 // ============================================================================
 // MEDIA & FILES
 // ============================================================================
@@ -724,6 +1277,62 @@ export const notifications = pgTable("notifications", {
   delivered: boolean("delivered").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   deliveredAt: timestamp("delivered_at"),
+  // Held for the recipient's daily/weekly digest instead of being sent on its own
+  digest: boolean("digest").notNull().default(false),
+  digestedAt: timestamp("digested_at"),
+  // Outbox event that produced this notification; one per user and channel
+  sourceEventId: integer("source_event_id"),
+}, (table) => ({
+  sourceEventUserChannelIdx: uniqueIndex("notifications_source_event_user_channel_idx").on(table.sourceEventId, table.userId, table.channel),
+}));
+
+// Outbound queue for external channels (email, sms, push). One row per
+// notification; retried with exponential backoff until maxAttempts.
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  channel: notificationChannelEnum("channel").notNull(),
+  recipient: text("recipient").notNull(),
+  status: notificationDeliveryStatusEnum("status").notNull().default("pending"),
+  message: jsonb("message").notNull(), // rendered { subject, html, text }
+  relatedNotificationIds: jsonb("related_notification_ids").notNull().default([]), // digests cover several notifications
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  providerMessageId: text("provider_message_id"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  statusNextAttemptIdx: index("notification_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+// Per-user opt-in/out for a notification type on a channel. A missing row
+// means "use the type's default channels".
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  notificationTypeKey: text("notification_type_key").notNull(),
+  channel: notificationChannelEnum("channel").notNull(),
+  enabled: boolean("enabled").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userTypeChannelIdx: uniqueIndex("notification_preferences_user_type_channel_idx").on(table.userId, table.notificationTypeKey, table.channel),
+}));
+
+// Quiet hours ("HH:MM" in users.timezone, may wrap midnight) and digest mode
+export const notificationSettings = pgTable("notification_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  digestFrequency: notificationDigestFrequencyEnum("digest_frequency").notNull().default("off"),
+  digestHour: integer("digest_hour").notNull().default(9), // local hour the digest goes out
+  lastDigestAt: timestamp("last_digest_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const conversations = pgTable("conversations", {
@@ -831,6 +1440,88 @@ export const systemSettings = pgTable("system_settings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ============================================================================
+// BACKGROUND JOBS
+// ============================================================================
+
+// Recurring jobs (key = handler name) and one-off delayed jobs
+// (key e.g. "booking.expire-flow:123"). Workers claim due rows with
+// FOR UPDATE SKIP LOCKED so only one server instance runs each job.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(), // registered handler
+  kind: scheduledJobKindEnum("kind").notNull(),
+  description: text("description"),
+  payload: jsonb("payload").notNull().default({}),
+  intervalSeconds: integer("interval_seconds"), // recurring only
+  runAt: timestamp("run_at").notNull(),
+  status: scheduledJobStatusEnum("status").notNull().default("scheduled"),
+  enabled: boolean("enabled").notNull().default(true),
+  attempts: integer("attempts").notNull().default(0), // consecutive failures
+  maxAttempts: integer("max_attempts").notNull().default(3), // one-off only
+  lockedBy: text("locked_by"),
+  lockedAt: timestamp("locked_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  statusRunAtIdx: index("scheduled_jobs_status_run_at_idx").on(table.status, table.runAt),
+}));
+
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => scheduledJobs.id, { onDelete: "cascade" }),
+  jobName: text("job_name").notNull(),
+  trigger: text("trigger").notNull().default("schedule"), // 'schedule' | 'manual'
+  triggeredBy: integer("triggered_by").references(() => users.id, { onDelete: "set null" }),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  workerId: text("worker_id"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  result: jsonb("result"),
+  error: text("error"),
+}, (table) => ({
+  jobStartedIdx: index("job_runs_job_started_idx").on(table.jobId, table.startedAt),
+}));
+
+// ============================================================================
+// DOMAIN EVENTS (OUTBOX)
+// ============================================================================
+
+// Transactional outbox: domain events are inserted in the same transaction as
+// the business change and dispatched to consumers by the outbox relay.
+export const domainEvents = pgTable("domain_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull().default({}),
+  actorUserId: integer("actor_user_id").references(() => users.id, { onDelete: "set null" }),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  status: domainEventStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  dispatchedAt: timestamp("dispatched_at"),
+  replayCount: integer("replay_count").notNull().default(0),
+}, (table) => ({
+  statusNextAttemptIdx: index("domain_events_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  typeOccurredIdx: index("domain_events_type_occurred_idx").on(table.type, table.occurredAt),
+}));
+
+// One row per (event, consumer) that handled it; lets redelivered events skip
+// consumers that already succeeded.
+export const domainEventConsumptions = pgTable("domain_event_consumptions", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(() => domainEvents.id, { onDelete: "cascade" }),
+  consumer: text("consumer").notNull(),
+  processedAt: timestamp("processed_at").notNull().defaultNow(),
+}, (table) => ({
+  eventConsumerIdx: uniqueIndex("domain_event_consumptions_event_consumer_idx").on(table.eventId, table.consumer),
+}));
+
 // ============================================================================
 // APP SETTINGS
 // ============================================================================
@@ -1056,6 +1747,7 @@ export const contractsRelations = relations(contracts, ({ one, many }: any) => (
   versions: many(contractVersions),
   editRequests: many(contractEditRequests),
   signatures: many(contractSignatures),
+  amendments: many(contractAmendments),
 }));
 
 export const contractVersionsRelations = relations(contractVersions, ({ one }: any) => ({
@@ -1069,6 +1761,11 @@ export const contractEditRequestsRelations = relations(contractEditRequests, ({
   responder: one(users, { fields: [contractEditRequests.respondedBy], references: [users.id] }),
 }));
 
+export const contractAmendmentsRelations = relations(contractAmendments, ({ one }: any) => ({
+  contract: one(contracts, { fields: [contractAmendments.contractId], references: [contracts.id] }),
+  proposer: one(users, { fields: [contractAmendments.proposedBy], references: [users.id] }),
+}));
+
 export const contractSignaturesRelations = relations(contractSignatures, ({ one }: any) => ({
   contract: one(contracts, { fields: [contractSignatures.contractId], references: [contracts.id] }),
   user: one(users, { fields: [contractSignatures.userId], references: [users.id] }),
@@ -1155,32 +1852,70 @@ export const negotiationOutcomesRelations = relations(negotiationOutcomes, ({ on
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type AuthProvider = typeof authProviders.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
 export type Artist = typeof artists.$inferSelect;
 export type InsertArtist = typeof artists.$inferInsert;
 export type Venue = typeof venues.$inferSelect;
 export type InsertVenue = typeof venues.$inferInsert;
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = typeof events.$inferInsert;
+export type EventStage = typeof eventStages.$inferSelect;
 export type TemporaryVenue = typeof temporaryVenues.$inferSelect;
 export type InsertTemporaryVenue = typeof temporaryVenues.$inferInsert;
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = typeof bookings.$inferInsert;
+export type ArtistAvailability = typeof artistAvailability.$inferSelect;
+export type InsertArtistAvailability = typeof artistAvailability.$inferInsert;
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
 export type Contract = typeof contracts.$inferSelect;
 export type InsertContract = typeof contracts.$inferInsert;
 export type ContractVersion = typeof contractVersions.$inferSelect;
+export type ContractClause = typeof contractClauses.$inferSelect;
+export type ContractTemplate = typeof contractTemplates.$inferSelect;
 export type InsertContractVersion = typeof contractVersions.$inferInsert;
 export type ContractEditRequest = typeof contractEditRequests.$inferSelect;
 export type InsertContractEditRequest = typeof contractEditRequests.$inferInsert;
+export type ContractAmendment = typeof contractAmendments.$inferSelect;
+export type InsertContractAmendment = typeof contractAmendments.$inferInsert;
 export type ContractSignature = typeof contractSignatures.$inferSelect;
 export type InsertContractSignature = typeof contractSignatures.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = typeof payments.$inferInsert;
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = typeof payouts.$inferInsert;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
+export type CancellationPolicy = typeof cancellationPolicies.$inferSelect;
+export type BookingCancellation = typeof bookingCancellations.$inferSelect;
+export type InsertBookingCancellation = typeof bookingCancellations.$inferInsert;
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = typeof disputes.$inferInsert;
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = typeof reviews.$inferInsert;
+export type TicketTier = typeof ticketTiers.$inferSelect;
+export type InsertTicketTier = typeof ticketTiers.$inferInsert;
+export type TicketOrder = typeof ticketOrders.$inferSelect;
+export type InsertTicketOrder = typeof ticketOrders.$inferInsert;
+export type Ticket = typeof tickets.$inferSelect;
+export type InsertTicket = typeof tickets.$inferInsert;
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type InsertSearchDocument = typeof searchDocuments.$inferInsert;
 export type Promoter = typeof promoters.$inferSelect;
 export type InsertPromoter = typeof promoters.$inferInsert;
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = typeof organizations.$inferInsert;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+export type InsertOrganizationInvite = typeof organizationInvites.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = typeof scheduledJobs.$inferInsert;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type DomainEventRecord = typeof domainEvents.$inferSelect;
+export type InsertDomainEventRecord = typeof domainEvents.$inferInsert;
 
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = typeof conversations.$inferInsert;
@@ -1204,6 +1939,10 @@ export type NotificationType = typeof notificationTypes.$inferSelect;
 export type InsertNotificationType = typeof notificationTypes.$inferInsert;
 export type NotificationChannel = typeof notificationChannels.$inferSelect;
 export type InsertNotificationChannel = typeof notificationChannels.$inferInsert;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = typeof notificationDeliveries.$inferInsert;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationSettings = typeof notificationSettings.$inferSelect;
 
 export type UserLlmConfig = typeof userLlmConfigs.$inferSelect;
 export type InsertUserLlmConfig = typeof userLlmConfigs.$inferInsert;
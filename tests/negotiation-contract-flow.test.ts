@@ -34,6 +34,7 @@ const {
   const _mockBookingService = {
     expireBookingFlow: vi.fn().mockResolvedValue(true),
     confirmBookingAndSnapshot: vi.fn().mockResolvedValue(undefined),
+    scheduleFlowExpiry: vi.fn().mockResolvedValue(undefined),
   };
 
   const _mockContractService = {
@@ -321,6 +322,8 @@ describe("Negotiation to Contract Flow", () => {
 
       // Verify a transaction was executed (proposal insert + booking update)
       expect(db.transaction).toHaveBeenCalledTimes(1);
+      // The extended flow deadline is handed to the scheduler
+      expect(mockBookingService.scheduleFlowExpiry).toHaveBeenCalledWith(1, expect.any(Date));
 
       // --- STEP 2: Artist accepts ---
       // Re-configure mocks to reflect post-step-1 state
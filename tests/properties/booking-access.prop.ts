@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  BOOKING_RESOURCES,
+  BOOKING_RESOURCE_PERMISSIONS,
+  PUBLIC_MEDIA_ENTITY_TYPES,
+  bookingAccess,
+  mediaEntityScope,
+} from '../../server/booking-access-utils';
+import { ALL_ADMIN_PERMISSIONS } from '../../server/admin-permission-utils';
+import type { BookingParties, OrganizationRole } from '../../server/organization-utils';
+
+// ---------------------------------------------------------------------------
+// Arbitraries
+//
+// Tenants are split by id range so a generated outsider can never own a
+// party's profile or belong to a party's organization: party users and
+// organizations come from 1..1000, outsiders from 2000..3000.
+// ---------------------------------------------------------------------------
+
+const partyIdArb = fc.integer({ min: 1, max: 1000 });
+const outsiderIdArb = fc.integer({ min: 2000, max: 3000 });
+
+const profileArb = fc.record({
+  userId: partyIdArb,
+  organizationId: fc.option(partyIdArb, { nil: null }),
+});
+
+const partiesArb: fc.Arbitrary<BookingParties> = fc.record({
+  artist: fc.option(profileArb, { nil: null }),
+  organizer: fc.option(profileArb, { nil: null }),
+  venue: fc.option(profileArb, { nil: null }),
+});
+
+const orgRoleArb = fc.constantFrom<OrganizationRole>('owner', 'manager', 'viewer');
+
+/** Memberships in organizations of another tenant (ids outside the parties' range) */
+const foreignMembershipsArb = fc
+  .array(fc.tuple(outsiderIdArb, orgRoleArb), { maxLength: 5 })
+  .map((entries) => new Map<number, OrganizationRole>(entries));
+
+const resourceArb = fc.constantFrom(...BOOKING_RESOURCES);
+const requiredArb = fc.constantFrom<'view' | 'act'>('view', 'act');
+
+const noAdmin: readonly string[] = [];
+
+// ---------------------------------------------------------------------------
+// Property 40: Cross-tenant users are denied every booking resource
+//
+// A user who owns none of the booking's profiles and belongs to none of its
+// organizations gets neither view nor act access to the booking, its
+// contract, negotiation, payments or disputes, whatever other organizations
+// they are in.
+// ---------------------------------------------------------------------------
+describe('Property 40: Cross-tenant users are denied every booking resource', () => {
+  it('denies an outsider without admin permissions', () => {
+    fc.assert(
+      fc.property(partiesArb, outsiderIdArb, foreignMembershipsArb, resourceArb, requiredArb,
+        (parties, userId, memberships, resource, required) => {
+          const access = bookingAccess({ userId, memberships, adminPermissions: noAdmin }, parties, resource, required);
+          expect(access.allowed).toBe(false);
+          expect(access.sides).toEqual([]);
+          expect(access.asAdmin).toBe(false);
+        }),
+      { numRuns: 200 },
+    );
+  });
+
+  it('denies an outsider holding every admin permission except the resource\'s', () => {
+    fc.assert(
+      fc.property(partiesArb, outsiderIdArb, resourceArb, requiredArb, (parties, userId, resource, required) => {
+        const adminPermissions = ALL_ADMIN_PERMISSIONS.filter((p) => p !== BOOKING_RESOURCE_PERMISSIONS[resource]);
+        const access = bookingAccess({ userId, memberships: new Map(), adminPermissions }, parties, resource, required);
+        expect(access.allowed).toBe(false);
+      }),
+      { numRuns: 200 },
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Property 41: Party users and organization members get their side
+//
+// The artist's user gets the artist side; the promoter's or the venue's user
+// gets the organizer side. Organization owners and managers may act, viewers
+// may only view.
+// ---------------------------------------------------------------------------
+describe('Property 41: Party users and organization members get their side', () => {
+  it('lets each party profile\'s own user act for its side', () => {
+    fc.assert(
+      fc.property(partiesArb, resourceArb, (parties, resource) => {
+        const check = (userId: number) =>
+          bookingAccess({ userId, memberships: new Map(), adminPermissions: noAdmin }, parties, resource, 'act');
+        if (parties.artist) expect(check(parties.artist.userId).sides).toContain('artist');
+        if (parties.organizer) expect(check(parties.organizer.userId).sides).toContain('organizer');
+        if (parties.venue) expect(check(parties.venue.userId).sides).toContain('organizer');
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  it('lets organization viewers see but not act', () => {
+    fc.assert(
+      fc.property(profileArb, outsiderIdArb, resourceArb, (venue, userId, resource) => {
+        fc.pre(venue.organizationId !== null);
+        const parties = { artist: null, organizer: null, venue };
+        const memberships = new Map<number, OrganizationRole>([[venue.organizationId!, 'viewer']]);
+        const subject = { userId, memberships, adminPermissions: noAdmin };
+        expect(bookingAccess(subject, parties, resource, 'view')).toEqual({ allowed: true, sides: ['organizer'], asAdmin: false });
+        expect(bookingAccess(subject, parties, resource, 'act').allowed).toBe(false);
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('lets organization owners and managers act', () => {
+    fc.assert(
+      fc.property(profileArb, outsiderIdArb, fc.constantFrom<OrganizationRole>('owner', 'manager'), resourceArb,
+        (artist, userId, role, resource) => {
+          fc.pre(artist.organizationId !== null);
+          const memberships = new Map<number, OrganizationRole>([[artist.organizationId!, role]]);
+          const access = bookingAccess({ userId, memberships, adminPermissions: noAdmin }, { artist }, resource, 'act');
+          expect(access.sides).toEqual(['artist']);
+        }),
+      { numRuns: 100 },
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Property 42: Admin permissions grant reads only
+//
+// An admin holding the resource's permission may view any booking's record
+// but never act on it; acting always needs a party side.
+// ---------------------------------------------------------------------------
+describe('Property 42: Admin permissions grant reads only', () => {
+  it('allows viewing with the resource\'s permission, marked as admin access', () => {
+    fc.assert(
+      fc.property(partiesArb, outsiderIdArb, resourceArb, (parties, userId, resource) => {
+        const adminPermissions = [BOOKING_RESOURCE_PERMISSIONS[resource]];
+        const access = bookingAccess({ userId, memberships: new Map(), adminPermissions }, parties, resource, 'view');
+        expect(access).toEqual({ allowed: true, sides: [], asAdmin: true });
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('never lets admin permissions act', () => {
+    fc.assert(
+      fc.property(partiesArb, outsiderIdArb, resourceArb, (parties, userId, resource) => {
+        const access = bookingAccess({ userId, memberships: new Map(), adminPermissions: ALL_ADMIN_PERMISSIONS }, parties, resource, 'act');
+        expect(access.allowed).toBe(false);
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('maps each resource to a known admin permission', () => {
+    for (const resource of BOOKING_RESOURCES) {
+      expect(ALL_ADMIN_PERMISSIONS).toContain(BOOKING_RESOURCE_PERMISSIONS[resource]);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Property 43: Only profile and event images are public media
+//
+// Dispute evidence follows its booking; any entity type not known to be
+// public (including missing ones and Object.prototype keys) stays private
+// to its uploader.
+// ---------------------------------------------------------------------------
+describe('Property 43: Only profile and event images are public media', () => {
+  it('keeps known public entity types public and dispute evidence on its booking', () => {
+    for (const entityType of PUBLIC_MEDIA_ENTITY_TYPES) {
+      expect(mediaEntityScope(entityType)).toEqual({ kind: 'public' });
+    }
+    expect(mediaEntityScope('dispute_evidence')).toEqual({ kind: 'booking', resource: 'dispute' });
+  });
+
+  it('treats every other entity type as owner-only', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.string(), fc.constantFrom('constructor', 'toString', '__proto__', 'hasOwnProperty')),
+        (entityType) => {
+          fc.pre(!(PUBLIC_MEDIA_ENTITY_TYPES as readonly string[]).includes(entityType) && entityType !== 'dispute_evidence');
+          expect(mediaEntityScope(entityType)).toEqual({ kind: 'owner' });
+        },
+      ),
+      { numRuns: 200 },
+    );
+    expect(mediaEntityScope(null)).toEqual({ kind: 'owner' });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  computeCancellationSettlement,
+  type CancellationFault,
+  type CancellationInput,
+} from '../../server/cancellation-policy-utils';
+
+// ---------------------------------------------------------------------------
+// Arbitraries
+//
+// Amounts are whole rupees; the organizer's total is the fee plus up to 20%
+// in fees, its deposit a share of that total, and the artist's net payout
+// never more than the total. What's been paid ranges from nothing to the
+// whole total.
+// ---------------------------------------------------------------------------
+
+const faultArb = fc.constantFrom<CancellationFault>('artist', 'organizer', 'force_majeure');
+
+const inputArb: fc.Arbitrary<CancellationInput> = fc
+  .record({
+    cancelledBy: faultArb,
+    daysBeforeEvent: fc.integer({ min: 0, max: 400 }),
+    fee: fc.integer({ min: 1000, max: 5_000_000 }),
+    feesPct: fc.integer({ min: 0, max: 20 }),
+    depositPct: fc.integer({ min: 0, max: 100 }),
+    commissionPct: fc.integer({ min: 0, max: 30 }),
+    paidShare: fc.double({ min: 0, max: 1, noNaN: true }),
+    negotiatedPct: fc.option(fc.integer({ min: 0, max: 100 }), { nil: null }),
+  })
+  .map((r) => {
+    const totalDue = Math.round(r.fee * (1 + r.feesPct / 100));
+    const negotiated = r.negotiatedPct === null ? null : {
+      organizerCancellationPenalties: { lessThan15Days: r.negotiatedPct },
+      artistCancellationPenalties: { lessThan30Days: r.negotiatedPct },
+    };
+    return {
+      cancelledBy: r.cancelledBy,
+      daysBeforeEvent: r.daysBeforeEvent,
+      rules: DEFAULT_CANCELLATION_POLICY.rules,
+      negotiated,
+      fee: r.fee,
+      totalDue,
+      depositAmount: Math.round(totalDue * r.depositPct / 100),
+      netPayoutToArtist: Math.round(r.fee * (1 - r.commissionPct / 100)),
+      paid: Math.round(totalDue * r.paidShare),
+    };
+  });
+
+const cents = (value: number) => Math.round(value * 100);
+
+// ---------------------------------------------------------------------------
+// Property 44: A cancellation settlement conserves money
+//
+// Whoever cancels, escrow is split exactly between the organizer's refund
+// and what's kept towards the penalty; the penalty escrow doesn't cover is
+// the cancellation fee; the penalty is split exactly between the
+// compensated party and the platform; and no amount is ever negative.
+// ---------------------------------------------------------------------------
+describe('Property 44: A cancellation settlement conserves money', () => {
+  it('balances refund, retention, fee and compensation', () => {
+    fc.assert(
+      fc.property(inputArb, (input) => {
+        const s = computeCancellationSettlement(input);
+
+        expect(cents(s.refundToOrganizer) + cents(s.retainedFromEscrow)).toBe(cents(s.paid));
+        expect(cents(s.retainedFromEscrow) + cents(s.feeDue)).toBe(cents(s.penalty));
+        expect(cents(s.artistCompensation) + cents(s.organizerCompensation) + cents(s.platformRetained)).toBe(cents(s.penalty));
+        for (const amount of [s.refundToOrganizer, s.retainedFromEscrow, s.feeDue, s.penalty,
+          s.artistCompensation, s.organizerCompensation, s.platformRetained]) {
+          expect(amount).toBeGreaterThanOrEqual(0);
+        }
+      }),
+      { numRuns: 200 },
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Property 45: Cancelling later never costs less
+//
+// For the same booking and cancelling party, the penalty under the default
+// policy only grows as the event gets closer, and an organizer never
+// forfeits less than the deposit or more than the total owed.
+// ---------------------------------------------------------------------------
+describe('Property 45: Cancelling later never costs less', () => {
+  it('penalties are monotonic in the days left and bounded for organizers', () => {
+    fc.assert(
+      fc.property(inputArb, fc.integer({ min: 0, max: 400 }), (input, otherDays) => {
+        const plain = { ...input, negotiated: null };
+        const early = computeCancellationSettlement({ ...plain, daysBeforeEvent: Math.max(input.daysBeforeEvent, otherDays) });
+        const late = computeCancellationSettlement({ ...plain, daysBeforeEvent: Math.min(input.daysBeforeEvent, otherDays) });
+        expect(late.penalty).toBeGreaterThanOrEqual(early.penalty);
+
+        if (input.cancelledBy === 'organizer') {
+          expect(late.penalty).toBeGreaterThanOrEqual(Math.min(input.depositAmount, input.totalDue) - 0.005);
+          expect(late.penalty).toBeLessThanOrEqual(input.totalDue);
+        }
+      }),
+      { numRuns: 200 },
+    );
+  });
+});
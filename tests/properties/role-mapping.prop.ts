@@ -1,6 +1,15 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { normalizeRegistrationRole, shouldCreateOrganizerRecord, VALID_ROLES } from '../../server/role-utils';
+import {
+  activeRole,
+  chooseActiveRole,
+  contractRoleFor,
+  mergeAssignedRoles,
+  removeRoleError,
+  resolveContractRole,
+  resolveUserRole,
+} from '../../server/role-resolver';
 
 /**
  * Property 1: Role registration mapping preserves consistency
@@ -143,9 +152,6 @@ describe('Property 1 (extended): Arbitrary input handling', () => {
   });
 });
 
-
-import { resolveUserRole, resolveContractRole } from '../../server/role-resolver';
-
 /**
  * Property 2: Role resolver treats venue and venue_manager identically
  * Validates: Requirements 1.3, 1.4
@@ -278,3 +284,72 @@ describe('Property 2: Role resolver treats venue and venue_manager identically',
     );
   });
 });
+
+/**
+ * Property 3: The active role is always one the user holds
+ *
+ * A user holds the roles in `user_roles` plus the primary role from metadata.
+ * The session switches between them; a requested role the user does not hold
+ * (never assigned, or removed since) falls back to the primary role, and
+ * authorization reads the active role rather than metadata.role.
+ */
+describe('Property 3: The active role is always one the user holds', () => {
+  const roleArb = fc.constantFrom('artist', 'band_manager', 'organizer', 'promoter', 'venue_manager', 'venue', 'admin', 'staff');
+
+  it('mergeAssignedRoles puts the primary role first without duplicates', () => {
+    fc.assert(
+      fc.property(fc.array(roleArb, { maxLength: 8 }), roleArb, (rows, primary) => {
+        const merged = mergeAssignedRoles(rows, primary);
+        expect(merged[0]).toBe(primary === 'venue' ? 'venue_manager' : primary);
+        expect(new Set(merged).size).toBe(merged.length);
+        expect(merged).not.toContain('venue');
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('chooseActiveRole returns the requested role only when it is assigned', () => {
+    fc.assert(
+      fc.property(fc.array(roleArb, { maxLength: 8 }), roleArb, fc.option(roleArb), (rows, primary, requested) => {
+        const assigned = mergeAssignedRoles(rows, primary);
+        const active = chooseActiveRole(assigned, requested, primary);
+        expect(assigned).toContain(active);
+        if (requested && !assigned.includes(requested === 'venue' ? 'venue_manager' : requested)) {
+          expect(active).toBe(assigned[0]);
+        }
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('activeRole prefers the session role over metadata.role', () => {
+    fc.assert(
+      fc.property(roleArb, roleArb, (sessionRole, metadataRole) => {
+        const user = { role: sessionRole, metadata: { role: metadataRole } };
+        expect(activeRole(user)).toBe(sessionRole === 'venue' ? 'venue_manager' : sessionRole);
+        expect(contractRoleFor(activeRole(user))).toBe(contractRoleFor(sessionRole));
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('a DJ who also runs a venue signs contracts on the side of the active role', () => {
+    const dj = { metadata: { role: 'artist' }, artist: { id: 1 }, venue: { id: 2 } };
+    expect(contractRoleFor(activeRole(dj))).toBe('artist');
+    expect(contractRoleFor(activeRole({ ...dj, role: 'venue_manager' }))).toBe('promoter');
+  });
+
+  it('removeRoleError never lets a user drop their last role', () => {
+    fc.assert(
+      fc.property(fc.array(roleArb, { maxLength: 8 }), roleArb, roleArb, (rows, primary, role) => {
+        const assigned = mergeAssignedRoles(rows, primary);
+        const error = removeRoleError(assigned, role);
+        if (error === null) {
+          expect(assigned.filter((r) => r !== (role === 'venue' ? 'venue_manager' : role)).length).toBeGreaterThan(0);
+        }
+        if (assigned.length === 1) expect(error).not.toBeNull();
+      }),
+      { numRuns: 100 },
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACCOUNT_RATE_LIMIT,
+  ACCOUNT_TOKEN_TTL_MS,
+  accountRestriction,
+  accountTokenExpiry,
+  accountTokenSecret,
+  checkRateLimit,
+  passwordPolicyError,
+  signAccountToken,
+  verifyAccountToken,
+} from "../../server/account-token-utils";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const SECRET = "test-secret";
+const MINUTE = 60 * 1000;
+
+function resetToken(expiresAt = accountTokenExpiry("password_reset", NOW)) {
+  return signAccountToken({ id: 5, userId: 42, purpose: "password_reset", expiresAt: expiresAt.getTime() }, SECRET);
+}
+
+describe("account tokens", () => {
+  it("round-trips a signed token", () => {
+    const check = verifyAccountToken(resetToken(), "password_reset", SECRET, NOW);
+    expect(check).toEqual({
+      ok: true,
+      payload: { id: 5, userId: 42, purpose: "password_reset", expiresAt: NOW.getTime() + ACCOUNT_TOKEN_TTL_MS.password_reset },
+    });
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = signAccountToken({ id: 5, userId: 42, purpose: "password_reset", expiresAt: NOW.getTime() + MINUTE }, "other");
+    expect(verifyAccountToken(token, "password_reset", SECRET, NOW)).toEqual({ ok: false, reason: "invalid" });
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const [, sig] = resetToken().split(".");
+    const forged = Buffer.from(JSON.stringify([5, 1, "password_reset", NOW.getTime() + MINUTE])).toString("base64url");
+    expect(verifyAccountToken(`${forged}.${sig}`, "password_reset", SECRET, NOW).ok).toBe(false);
+    expect(verifyAccountToken("not-a-token", "password_reset", SECRET, NOW).ok).toBe(false);
+  });
+
+  it("does not accept a token for another purpose", () => {
+    expect(verifyAccountToken(resetToken(), "email_verification", SECRET, NOW)).toEqual({ ok: false, reason: "invalid" });
+  });
+
+  it("expires at the TTL", () => {
+    const token = resetToken();
+    const expiry = new Date(NOW.getTime() + ACCOUNT_TOKEN_TTL_MS.password_reset);
+    expect(verifyAccountToken(token, "password_reset", SECRET, new Date(expiry.getTime() - 1)).ok).toBe(true);
+    expect(verifyAccountToken(token, "password_reset", SECRET, expiry)).toEqual({ ok: false, reason: "expired" });
+  });
+
+  it("gives verification links longer than reset links", () => {
+    expect(ACCOUNT_TOKEN_TTL_MS.email_verification).toBeGreaterThan(ACCOUNT_TOKEN_TTL_MS.password_reset);
+  });
+
+  it("signs with AUTH_TOKEN_SECRET, then SESSION_SECRET, and refuses to run without either", () => {
+    expect(accountTokenSecret({ AUTH_TOKEN_SECRET: "a", SESSION_SECRET: "s" })).toBe("a");
+    expect(accountTokenSecret({ SESSION_SECRET: "s" })).toBe("s");
+    expect(() => accountTokenSecret({})).toThrow("AUTH_TOKEN_SECRET or SESSION_SECRET must be set");
+  });
+});
+
+describe("checkRateLimit", () => {
+  const minutesAgo = (m: number) => new Date(NOW.getTime() - m * MINUTE);
+
+  it("allows requests under the limit", () => {
+    expect(checkRateLimit([minutesAgo(5), minutesAgo(10)], ACCOUNT_RATE_LIMIT, NOW)).toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+
+  it("blocks at the limit until the oldest request leaves the window", () => {
+    const check = checkRateLimit([minutesAgo(5), minutesAgo(40), minutesAgo(20)], ACCOUNT_RATE_LIMIT, NOW);
+    expect(check.allowed).toBe(false);
+    expect(check.retryAfterMs).toBe(20 * MINUTE);
+  });
+
+  it("ignores requests outside the window", () => {
+    expect(checkRateLimit([minutesAgo(5), minutesAgo(10), minutesAgo(61)], ACCOUNT_RATE_LIMIT, NOW).allowed).toBe(true);
+  });
+});
+
+describe("passwordPolicyError", () => {
+  it("requires at least 8 characters", () => {
+    expect(passwordPolicyError("short")).toBe("Password must be at least 8 characters");
+    expect(passwordPolicyError("long enough")).toBeNull();
+  });
+
+  it("caps the length", () => {
+    expect(passwordPolicyError("x".repeat(201))).toBe("Password must be at most 200 characters");
+  });
+});
+
+describe("accountRestriction", () => {
+  it("blocks unverified accounts from binding actions", () => {
+    expect(accountRestriction({ status: "pending_verification" }, "send offers")).toBe("Verify your email address before you send offers");
+    expect(accountRestriction({ status: "pending_verification" }, "sign contracts")).toBe("Verify your email address before you sign contracts");
+  });
+
+  it("blocks suspended accounts", () => {
+    expect(accountRestriction({ status: "suspended" }, "send offers")).toBe("Your account is suspended. Please contact support.");
+  });
+
+  it("lets active accounts through", () => {
+    expect(accountRestriction({ status: "active" }, "sign contracts")).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  ADMIN_PERMISSIONS,
+  ALL_ADMIN_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  diffPermissions,
+  effectivePermissions,
+  hasAdminAccess,
+  isAdminPermission,
+  permissionUpdateError,
+} from "../../server/admin-permission-utils";
+
+describe("catalog", () => {
+  it("has unique keys", () => {
+    const keys = ADMIN_PERMISSIONS.map((p) => p.key);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("only uses catalog keys in the defaults", () => {
+    for (const permissions of Object.values(DEFAULT_ROLE_PERMISSIONS)) {
+      expect(permissions.every(isAdminPermission)).toBe(true);
+    }
+  });
+
+  it("recognises catalog keys only", () => {
+    expect(isAdminPermission("contracts.review")).toBe(true);
+    expect(isAdminPermission("contracts.delete")).toBe(false);
+  });
+});
+
+describe("effectivePermissions", () => {
+  it("gives platform admins every permission, whatever is stored", () => {
+    expect(effectivePermissions("platform_admin", [])).toEqual([...ALL_ADMIN_PERMISSIONS]);
+  });
+
+  it("uses the defaults until a role is configured", () => {
+    const admin = effectivePermissions("admin", null);
+    expect(admin).toContain("agents.configure");
+    expect(admin).not.toContain("permissions.manage");
+    expect(effectivePermissions("staff", null)).toEqual(expect.arrayContaining(["users.view", "contracts.view"]));
+    expect(effectivePermissions("staff", null)).not.toContain("finance.view");
+  });
+
+  it("uses the stored list once configured, in catalog order, dropping unknown keys", () => {
+    expect(effectivePermissions("staff", ["finance.view", "bogus", "dashboard.view"]))
+      .toEqual(["dashboard.view", "finance.view"]);
+    expect(effectivePermissions("admin", [])).toEqual([]);
+  });
+
+  it("never grants permissions to non-admin roles", () => {
+    expect(effectivePermissions("artist", ["users.view"])).toEqual([]);
+    expect(effectivePermissions(null, null)).toEqual([]);
+  });
+
+  it("admits a role to the panel only with at least one permission", () => {
+    expect(hasAdminAccess(effectivePermissions("staff", null))).toBe(true);
+    expect(hasAdminAccess(effectivePermissions("staff", []))).toBe(false);
+    expect(hasAdminAccess(effectivePermissions("organizer", null))).toBe(false);
+  });
+});
+
+describe("permissionUpdateError", () => {
+  it("refuses to edit platform admin", () => {
+    expect(permissionUpdateError("platform_admin", [])).toBe("Platform admin permissions cannot be changed");
+  });
+
+  it("refuses roles outside the admin panel", () => {
+    expect(permissionUpdateError("artist", ["users.view"])).toMatch(/Only admin and staff roles/);
+  });
+
+  it("refuses unknown permissions", () => {
+    expect(permissionUpdateError("staff", ["users.view", "users.impersonate"])).toBe("Unknown permission: users.impersonate");
+  });
+
+  it("accepts catalog permissions for admin and staff", () => {
+    expect(permissionUpdateError("admin", ["finance.view", "finance.manage"])).toBeNull();
+    expect(permissionUpdateError("staff", [])).toBeNull();
+  });
+});
+
+describe("diffPermissions", () => {
+  it("lists what an edit grants and revokes", () => {
+    expect(diffPermissions(["users.view", "audit.view"], ["users.view", "finance.view"]))
+      .toEqual({ granted: ["finance.view"], revoked: ["audit.view"] });
+  });
+
+  it("is empty when nothing changes", () => {
+    expect(diffPermissions(["users.view"], ["users.view"])).toEqual({ granted: [], revoked: [] });
+  });
+});
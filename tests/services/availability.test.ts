@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  eventWindow,
+  expandRule,
+  findBlockingRule,
+  parseTimeOfDay,
+  splitIntoLocalDays,
+  toLocalParts,
+  windowsOverlap,
+  type AvailabilityRule,
+} from "../../server/availability-utils";
+import { describeConflict, resolveCalendarRange } from "../../server/services/availability.service";
+import { availabilityEntrySchema } from "../../shared/routes";
+
+// The availability service imports the database; these helpers don't touch it
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+describe("toLocalParts", () => {
+  it("converts an instant into the event's local date and time", () => {
+    // 20:00 UTC on 14 June is 01:30 on 15 June in India
+    const parts = toLocalParts(new Date("2026-06-14T20:00:00Z"), "Asia/Kolkata");
+    expect(parts.date).toBe("2026-06-15");
+    expect(parts.minute).toBe(90);
+    expect(parts.weekday).toBe(1); // Monday
+  });
+
+  it("falls back to the default timezone for unknown zones", () => {
+    const parts = toLocalParts(new Date("2026-06-14T20:00:00Z"), "Not/AZone");
+    expect(parts.date).toBe("2026-06-15");
+  });
+});
+
+describe("eventWindow", () => {
+  it("assumes a default duration when the event has no end time", () => {
+    const window = eventWindow(new Date("2026-06-14T14:00:00Z"));
+    expect(window.end.toISOString()).toBe("2026-06-14T18:00:00.000Z");
+  });
+
+  it("detects overlapping and back-to-back windows", () => {
+    const a = eventWindow("2026-06-14T14:00:00Z", "2026-06-14T17:00:00Z");
+    const b = eventWindow("2026-06-14T16:00:00Z", "2026-06-14T19:00:00Z");
+    const c = eventWindow("2026-06-14T17:00:00Z", "2026-06-14T19:00:00Z");
+    expect(windowsOverlap(a, b)).toBe(true);
+    expect(windowsOverlap(a, c)).toBe(false);
+  });
+});
+
+describe("splitIntoLocalDays", () => {
+  it("splits a late-night gig across two local days", () => {
+    // 22:00–02:00 IST
+    const segments = splitIntoLocalDays(
+      eventWindow("2026-06-14T16:30:00Z", "2026-06-14T20:30:00Z"),
+      "Asia/Kolkata",
+    );
+    expect(segments).toEqual([
+      { date: "2026-06-14", weekday: 0, fromMinute: 22 * 60, toMinute: 1440 },
+      { date: "2026-06-15", weekday: 1, fromMinute: 0, toMinute: 120 },
+    ]);
+  });
+});
+
+describe("findBlockingRule", () => {
+  const gig = eventWindow("2026-06-14T14:30:00Z", "2026-06-14T17:30:00Z"); // 20:00–23:00 IST, Sunday
+
+  it("blocks a gig on a blocked date range", () => {
+    const rules: AvailabilityRule[] = [{ kind: "blocked", startDate: "2026-06-13", endDate: "2026-06-15" }];
+    expect(findBlockingRule(rules, gig, "Asia/Kolkata")).toBe(rules[0]);
+  });
+
+  it("treats a single-day travel entry as that day only", () => {
+    const rules: AvailabilityRule[] = [{ kind: "travel", startDate: "2026-06-13" }];
+    expect(findBlockingRule(rules, gig, "Asia/Kolkata")).toBeNull();
+  });
+
+  it("compares dates in the event's timezone", () => {
+    // The same instant is still 14 June in London but already past midnight in Tokyo
+    const rules: AvailabilityRule[] = [{ kind: "blocked", startDate: "2026-06-15" }];
+    expect(findBlockingRule(rules, gig, "Europe/London")).toBeNull();
+    expect(findBlockingRule(rules, gig, "Asia/Tokyo")).toBe(rules[0]);
+  });
+
+  it("applies recurring rules only on matching weekdays and times", () => {
+    const sundayEvenings: AvailabilityRule = {
+      kind: "recurring", startDate: "2026-01-01", daysOfWeek: [0], startTime: "19:00", endTime: "21:00",
+    };
+    const sundayMornings: AvailabilityRule = {
+      kind: "recurring", startDate: "2026-01-01", daysOfWeek: [0], startTime: "08:00", endTime: "12:00",
+    };
+    const mondays: AvailabilityRule = { kind: "recurring", startDate: "2026-01-01", daysOfWeek: [1] };
+
+    expect(findBlockingRule([sundayEvenings], gig, "Asia/Kolkata")).toBe(sundayEvenings);
+    expect(findBlockingRule([sundayMornings, mondays], gig, "Asia/Kolkata")).toBeNull();
+  });
+
+  it("handles recurring windows that run past midnight", () => {
+    const saturdayNights: AvailabilityRule = {
+      kind: "recurring", startDate: "2026-01-01", daysOfWeek: [6], startTime: "22:00", endTime: "03:00",
+    };
+    const earlySunday = eventWindow("2026-06-13T19:30:00Z", "2026-06-13T20:30:00Z"); // 01:00–02:00 IST Sunday
+    expect(findBlockingRule([saturdayNights], earlySunday, "Asia/Kolkata")).toBe(saturdayNights);
+    expect(findBlockingRule([saturdayNights], gig, "Asia/Kolkata")).toBeNull();
+  });
+
+  it("ignores recurring rules outside their date range", () => {
+    const expired: AvailabilityRule = { kind: "recurring", startDate: "2026-01-01", endDate: "2026-05-31", daysOfWeek: [0] };
+    expect(findBlockingRule([expired], gig, "Asia/Kolkata")).toBeNull();
+  });
+});
+
+describe("expandRule", () => {
+  it("expands a weekly rule into dated occurrences", () => {
+    const occurrences = expandRule(
+      { kind: "recurring", startDate: "2026-06-01", daysOfWeek: [1, 3], startTime: "18:00", endTime: "20:00" },
+      "2026-06-01",
+      "2026-06-14",
+    );
+    expect(occurrences.map((o) => o.date)).toEqual(["2026-06-01", "2026-06-03", "2026-06-08", "2026-06-10"]);
+    expect(occurrences[0].startTime).toBe("18:00");
+  });
+
+  it("clips blocked ranges to the requested window", () => {
+    const occurrences = expandRule({ kind: "blocked", startDate: "2026-05-30", endDate: "2026-06-02" }, "2026-06-01", "2026-06-30");
+    expect(occurrences.map((o) => o.date)).toEqual(["2026-06-01", "2026-06-02"]);
+  });
+});
+
+describe("parseTimeOfDay", () => {
+  it("parses HH:MM and rejects anything else", () => {
+    expect(parseTimeOfDay("21:30")).toBe(1290);
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("9pm")).toBeNull();
+    expect(parseTimeOfDay(null)).toBeNull();
+  });
+});
+
+describe("availabilityEntrySchema", () => {
+  it("requires days for recurring entries", () => {
+    expect(availabilityEntrySchema.safeParse({ kind: "recurring", startDate: "2026-06-01" }).success).toBe(false);
+    expect(availabilityEntrySchema.safeParse({ kind: "recurring", startDate: "2026-06-01", daysOfWeek: [5] }).success).toBe(true);
+  });
+
+  it("rejects end dates before the start and half-specified times", () => {
+    expect(availabilityEntrySchema.safeParse({ kind: "blocked", startDate: "2026-06-05", endDate: "2026-06-01" }).success).toBe(false);
+    expect(availabilityEntrySchema.safeParse({
+      kind: "recurring", startDate: "2026-06-01", daysOfWeek: [5], startTime: "20:00",
+    }).success).toBe(false);
+  });
+});
+
+describe("calendar helpers", () => {
+  it("defaults the calendar range to 90 days and caps long ranges", () => {
+    const now = new Date("2026-06-01T10:00:00Z");
+    expect(resolveCalendarRange(undefined, undefined, now)).toEqual({ from: "2026-06-01", to: "2026-08-30" });
+    expect(resolveCalendarRange("2026-01-01", "2028-01-01").to).toBe("2027-01-01");
+    expect(() => resolveCalendarRange("2026-06-10", "2026-06-01")).toThrow();
+  });
+
+  it("names the conflicting booking in the 409 message", () => {
+    const message = describeConflict({
+      type: "booking", bookingId: 4, eventId: 2, eventTitle: "Sunburn", status: "confirmed",
+      startTime: "2026-06-14T14:30:00.000Z", endTime: "2026-06-14T18:30:00.000Z",
+    });
+    expect(message).toBe('The artist is already booked for "Sunburn" at an overlapping time');
+    expect(describeConflict({
+      type: "availability", availabilityId: 1, kind: "travel", startDate: "2026-06-14", endDate: null, note: null,
+    }, true)).toBe("You are marked as travelling for this date");
+  });
+});
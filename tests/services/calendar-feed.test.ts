@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+  formatVenueAddress,
+  icsStatusForBooking,
+} from "../../server/ics-utils";
+import { bookingToIcsEvent, organizerEventToIcsEvent } from "../../server/services/calendar-feed.service";
+
+// The feed service imports the database; the ICS mapping doesn't touch it
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+const event = {
+  id: 7,
+  title: "Monsoon Nights",
+  startTime: new Date("2026-07-10T13:30:00Z"), // 19:00 IST
+  doorTime: new Date("2026-07-10T12:30:00Z"), // 18:00 IST
+  endTime: new Date("2026-07-10T18:30:00Z"), // 00:00 IST
+  timezone: "Asia/Kolkata",
+  venueId: 3,
+  status: "published",
+  updatedAt: new Date("2026-06-01T00:00:00Z"),
+} as any;
+
+const booking = {
+  id: 42,
+  status: "confirmed",
+  stageId: 9,
+  updatedAt: new Date("2026-06-02T00:00:00Z"),
+  artist: { name: "The Local Train" },
+  venue: { name: "Blue Frog", address: { street: "Mathuradas Mills", city: "Mumbai", state: "Maharashtra" } },
+  event,
+};
+
+const stage = {
+  id: 9,
+  name: "Main Stage",
+  startTime: new Date("2026-07-10T15:30:00Z"), // 21:00 IST
+  endTime: new Date("2026-07-10T17:00:00Z"), // 22:30 IST
+} as any;
+
+describe("ICS formatting", () => {
+  it("escapes commas, semicolons, backslashes and newlines", () => {
+    expect(escapeIcsText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+  });
+
+  it("formats UTC date-times in basic format", () => {
+    expect(formatIcsDate(new Date("2026-07-10T13:30:00.000Z"))).toBe("20260710T133000Z");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const folded = foldIcsLine(`DESCRIPTION:${"₹".repeat(60)}`);
+    const lines = folded.split("\r\n");
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+    }
+    expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join("")).toBe(`DESCRIPTION:${"₹".repeat(60)}`);
+  });
+
+  it("builds a calendar with CRLF line endings", () => {
+    const ics = buildIcsCalendar("Test", [], new Date("2026-01-01T00:00:00Z"));
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("maps booking statuses to event statuses", () => {
+    expect(icsStatusForBooking("contracting")).toBe("TENTATIVE");
+    expect(icsStatusForBooking("paid_deposit")).toBe("CONFIRMED");
+    expect(icsStatusForBooking("cancelled")).toBe("CANCELLED");
+  });
+});
+
+describe("formatVenueAddress", () => {
+  it("joins the JSONB address parts after the venue name", () => {
+    expect(formatVenueAddress(booking.venue)).toBe("Blue Frog, Mathuradas Mills, Mumbai, Maharashtra");
+  });
+
+  it("falls back to the temporary venue location", () => {
+    expect(formatVenueAddress(null, { name: "Beach Lawn", location: "Candolim, Goa" })).toBe("Beach Lawn, Candolim, Goa");
+    expect(formatVenueAddress(null, null)).toBeNull();
+  });
+});
+
+describe("bookingToIcsEvent", () => {
+  it("uses the stage slot as the event time and lists doors, stage and venue", () => {
+    const ics = bookingToIcsEvent(booking, { baseUrl: "https://app.example.in", perspective: "artist", stage });
+
+    expect(ics.uid).toBe("booking-42@app.example.in");
+    expect(ics.start.toISOString()).toBe("2026-07-10T15:30:00.000Z");
+    expect(ics.end.toISOString()).toBe("2026-07-10T17:00:00.000Z");
+    expect(ics.summary).toBe("Gig: Monsoon Nights");
+    expect(ics.url).toBe("https://app.example.in/bookings?bookingId=42");
+    expect(ics.description).toContain("Doors: 18:00");
+    expect(ics.description).toContain("Stage: Main Stage, 21:00–22:30");
+    expect(ics.location).toBe("Blue Frog, Mathuradas Mills, Mumbai, Maharashtra");
+    expect(ics.status).toBe("CONFIRMED");
+  });
+
+  it("falls back to the whole event and names the artist for organizers", () => {
+    const ics = bookingToIcsEvent({ ...booking, status: "contracting" }, { baseUrl: "https://app.example.in", perspective: "organizer" });
+
+    expect(ics.start.toISOString()).toBe("2026-07-10T13:30:00.000Z");
+    expect(ics.summary).toBe("The Local Train · Monsoon Nights");
+    expect(ics.description).toContain("Event: 19:00–00:00 (Asia/Kolkata)");
+    expect(ics.status).toBe("TENTATIVE");
+  });
+
+  it("renders into a VEVENT", () => {
+    const ics = buildIcsCalendar("Gigs", [
+      bookingToIcsEvent(booking, { baseUrl: "https://app.example.in", perspective: "artist", stage }),
+    ]);
+    expect(ics).toContain("BEGIN:VEVENT\r\nUID:booking-42@app.example.in\r\n");
+    expect(ics).toContain("DTSTART:20260710T153000Z\r\n");
+    expect(ics).toContain("LOCATION:Blue Frog\\, Mathuradas Mills\\, Mumbai\\, Maharashtra\r\n");
+  });
+});
+
+describe("organizerEventToIcsEvent", () => {
+  it("marks unpublished events as tentative", () => {
+    const ics = organizerEventToIcsEvent({ ...event, status: "draft" }, { baseUrl: "https://app.example.in" });
+    expect(ics.uid).toBe("event-7@app.example.in");
+    expect(ics.status).toBe("TENTATIVE");
+    expect(ics.url).toBe("https://app.example.in/organizer/events/7/edit");
+  });
+});
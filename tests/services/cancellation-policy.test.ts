@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  computeCancellationSettlement,
+  daysBeforeEvent,
+  penaltySchedule,
+  policyPenaltyTerms,
+  policyRulesError,
+  tierFor,
+  type CancellationInput,
+  type CancellationPolicyRules,
+} from "../../server/cancellation-policy-utils";
+
+const rules = DEFAULT_CANCELLATION_POLICY.rules;
+
+// Fee 100000 with a 10% organizer fee: 110000 due, half as deposit, 95000 to the artist
+function input(overrides: Partial<CancellationInput>): CancellationInput {
+  return {
+    cancelledBy: "organizer",
+    daysBeforeEvent: 45,
+    rules,
+    negotiated: null,
+    fee: 100000,
+    totalDue: 110000,
+    depositAmount: 55000,
+    netPayoutToArtist: 95000,
+    paid: 55000,
+    ...overrides,
+  };
+}
+
+describe("cancellation tiers", () => {
+  it("counts whole days to the event start", () => {
+    const start = new Date("2026-12-31T20:00:00Z");
+    expect(daysBeforeEvent(start, new Date("2026-12-01T20:00:00Z"))).toBe(30);
+    expect(daysBeforeEvent(start, new Date("2026-12-01T20:00:01Z"))).toBe(29);
+    expect(daysBeforeEvent(start, new Date("2026-12-31T21:00:00Z"))).toBe(-1);
+  });
+
+  it("picks the tier with the largest threshold the cancellation meets", () => {
+    expect(tierFor(rules.organizer, 30)?.term).toBe("moreThan30Days");
+    expect(tierFor(rules.organizer, 29)?.term).toBe("between15And30Days");
+    expect(tierFor(rules.organizer, 0)?.term).toBe("lessThan15Days");
+    expect(tierFor([{ minDaysBefore: 7, term: "week", penaltyPct: 10 }], 3)).toBeNull();
+  });
+
+  it("lists a party's windows earliest first with negotiated percentages", () => {
+    const schedule = penaltySchedule(rules, "organizer", {
+      organizerCancellationPenalties: { lessThan15Days: 80 },
+    });
+    expect(schedule).toEqual([
+      { minDaysBefore: 30, maxDaysBefore: null, penaltyPct: 20, depositForfeited: true },
+      { minDaysBefore: 15, maxDaysBefore: 30, penaltyPct: 50, depositForfeited: true },
+      { minDaysBefore: 0, maxDaysBefore: 15, penaltyPct: 80, depositForfeited: true },
+    ]);
+  });
+});
+
+describe("policy rules", () => {
+  it("accepts the default policy", () => {
+    expect(policyRulesError(rules)).toBeNull();
+  });
+
+  it("needs a tier starting at 0 days for each party", () => {
+    const error = policyRulesError({ ...rules, artist: [{ minDaysBefore: 10, term: "early", penaltyPct: 0 }] });
+    expect(error).toBe("The artist schedule needs a tier starting at 0 days");
+  });
+
+  it("rejects duplicate thresholds, duplicate terms and out-of-range penalties", () => {
+    const base = rules.organizer;
+    const withTier = (tier: any): CancellationPolicyRules => ({ ...rules, organizer: [...base, tier] });
+    expect(policyRulesError(withTier({ minDaysBefore: 15, term: "other", penaltyPct: 10 }))).toMatch(/two tiers starting at 15/);
+    expect(policyRulesError(withTier({ minDaysBefore: 60, term: "lessThan15Days", penaltyPct: 10 }))).toMatch(/term lessThan15Days twice/);
+    expect(policyRulesError(withTier({ minDaysBefore: 60, term: "early", penaltyPct: 120 }))).toMatch(/between 0 and 100/);
+    expect(policyRulesError(withTier({ minDaysBefore: 60, term: "not a key", penaltyPct: 10 }))).toMatch(/Invalid term key/);
+  });
+
+  it("rejects penalties that fall as the event gets closer", () => {
+    const error = policyRulesError({
+      ...rules,
+      artist: [
+        { minDaysBefore: 30, term: "early", penaltyPct: 40 },
+        { minDaysBefore: 0, term: "late", penaltyPct: 10 },
+      ],
+    });
+    expect(error).toBe("The artist penalties can't fall as the event gets closer");
+  });
+
+  it("keeps deposit forfeiture to organizer tiers", () => {
+    const error = policyRulesError({
+      ...rules,
+      artist: [{ minDaysBefore: 0, term: "any", penaltyPct: 10, depositForfeited: true }],
+    });
+    expect(error).toBe("Only organizer tiers can forfeit the deposit");
+  });
+
+  it("stamps one penalty term per tier, keeping negotiated percentages", () => {
+    const terms = policyPenaltyTerms(rules, { artistCancellationPenalties: { lessThan30Days: 75, unknown: 5 } });
+    expect(terms).toEqual({
+      artistCancellationPenalties: { moreThan90Days: 0, between30And90Days: 20, lessThan30Days: 75 },
+      organizerCancellationPenalties: { moreThan30Days: 20, between15And30Days: 50, lessThan15Days: 100 },
+    });
+  });
+});
+
+describe("cancellation settlement", () => {
+  it("forfeits the deposit when the organizer cancels early, paying the artist their share", () => {
+    const settlement = computeCancellationSettlement(input({ daysBeforeEvent: 45 }));
+    expect(settlement.tier).toEqual({ minDaysBefore: 30, penaltyPct: 20, depositForfeited: true });
+    expect(settlement.penalty).toBe(55000);
+    expect(settlement.retainedFromEscrow).toBe(55000);
+    expect(settlement.refundToOrganizer).toBe(0);
+    expect(settlement.feeDue).toBe(0);
+    expect(settlement.artistCompensation).toBe(47500);
+    expect(settlement.platformRetained).toBe(7500);
+  });
+
+  it("refunds what escrow holds beyond the organizer's penalty", () => {
+    const settlement = computeCancellationSettlement(input({ daysBeforeEvent: 20, paid: 110000 }));
+    expect(settlement.penalty).toBe(55000);
+    expect(settlement.refundToOrganizer).toBe(55000);
+    expect(settlement.feeDue).toBe(0);
+  });
+
+  it("keeps the deposit forfeited in tiers closer to the event", () => {
+    const settlement = computeCancellationSettlement(input({ daysBeforeEvent: 20, depositAmount: 88000, paid: 88000 }));
+    expect(settlement.tier).toEqual({ minDaysBefore: 15, penaltyPct: 50, depositForfeited: true });
+    expect(settlement.penalty).toBe(88000);
+    expect(settlement.refundToOrganizer).toBe(0);
+  });
+
+  it("charges the organizer a fee for a late penalty escrow doesn't cover", () => {
+    const settlement = computeCancellationSettlement(input({ daysBeforeEvent: 5 }));
+    expect(settlement.penalty).toBe(110000);
+    expect(settlement.retainedFromEscrow).toBe(55000);
+    expect(settlement.feeDue).toBe(55000);
+    expect(settlement.artistCompensation).toBe(95000);
+  });
+
+  it("applies the penalty negotiated into the contract", () => {
+    const settlement = computeCancellationSettlement(input({
+      daysBeforeEvent: 5,
+      paid: 110000,
+      negotiated: { organizerCancellationPenalties: { lessThan15Days: 80 } },
+    }));
+    expect(settlement.tier?.penaltyPct).toBe(80);
+    expect(settlement.penalty).toBe(88000);
+    expect(settlement.refundToOrganizer).toBe(22000);
+  });
+
+  it("refunds the organizer in full and compensates them when the artist cancels", () => {
+    const settlement = computeCancellationSettlement(input({ cancelledBy: "artist", daysBeforeEvent: 40 }));
+    expect(settlement.penalty).toBe(20000);
+    expect(settlement.refundToOrganizer).toBe(55000);
+    expect(settlement.feeDue).toBe(20000);
+    expect(settlement.organizerCompensation).toBe(20000);
+    expect(settlement.artistCompensation).toBe(0);
+  });
+
+  it("charges an artist nothing far enough out", () => {
+    const settlement = computeCancellationSettlement(input({ cancelledBy: "artist", daysBeforeEvent: 120 }));
+    expect(settlement.penalty).toBe(0);
+    expect(settlement.feeDue).toBe(0);
+    expect(settlement.refundToOrganizer).toBe(55000);
+  });
+
+  it("refunds everything for force majeure and without a policy", () => {
+    for (const settlement of [
+      computeCancellationSettlement(input({ cancelledBy: "force_majeure", daysBeforeEvent: 2 })),
+      computeCancellationSettlement(input({ rules: { artist: [], organizer: [] }, daysBeforeEvent: 2 })),
+    ]) {
+      expect(settlement.tier).toBeNull();
+      expect(settlement.penalty).toBe(0);
+      expect(settlement.refundToOrganizer).toBe(55000);
+      expect(settlement.feeDue).toBe(0);
+    }
+  });
+});
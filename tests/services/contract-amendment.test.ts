@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  amendmentPreamble,
+  amendmentStepFor,
+  applyAmendmentChanges,
+  changesFee,
+  diffTerms,
+  formatTermValue,
+  statusAfterSigning,
+  summarizeDiff,
+} from "../../server/contract-amendment-utils";
+
+const signedTerms = {
+  fee: 50000,
+  currency: "INR",
+  slotTime: "21:00",
+  venueName: "The Blue Room",
+  travel: { responsibility: "organizer", flightClass: "economy" },
+  hospitality: { guestListCount: 2, mealsProvided: ["dinner"] },
+};
+
+describe("applying amendment changes", () => {
+  it("replaces core terms and merges categories field by field", () => {
+    const amended = applyAmendmentChanges(signedTerms, {
+      fee: 60000,
+      slotTime: "22:30",
+      travel: { flightClass: "business" },
+    });
+
+    expect(amended.fee).toBe(60000);
+    expect(amended.slotTime).toBe("22:30");
+    expect(amended.travel).toEqual({ responsibility: "organizer", flightClass: "business" });
+    expect(amended.hospitality).toEqual(signedTerms.hospitality);
+  });
+
+  it("leaves locked terms and the signed terms object untouched", () => {
+    const amended = applyAmendmentChanges(signedTerms, { venueName: "Elsewhere", currency: "USD" });
+    expect(amended.venueName).toBe("The Blue Room");
+    expect(amended.currency).toBe("INR");
+
+    applyAmendmentChanges(signedTerms, { travel: { flightClass: "business" } });
+    expect(signedTerms.travel.flightClass).toBe("economy");
+  });
+
+  it("adds support slots", () => {
+    const slots = [{ name: "Local Opener", slotTime: "20:00", duration: "30 Minutes" }];
+    expect(applyAmendmentChanges(signedTerms, { supportSlots: slots }).supportSlots).toEqual(slots);
+  });
+});
+
+describe("clause-level diff", () => {
+  it("groups every changed value under its clause, in clause order", () => {
+    const amended = applyAmendmentChanges(signedTerms, {
+      travel: { flightClass: "business" },
+      fee: 60000,
+      slotTime: "22:30",
+    });
+
+    expect(diffTerms(signedTerms, amended)).toEqual([
+      { clause: "fee", label: "Fee", changes: [{ path: "fee", before: 50000, after: 60000 }] },
+      { clause: "slotTime", label: "Set time", changes: [{ path: "slotTime", before: "21:00", after: "22:30" }] },
+      { clause: "travel", label: "Travel", changes: [{ path: "travel.flightClass", before: "economy", after: "business" }] },
+    ]);
+  });
+
+  it("compares arrays whole and treats missing and null alike", () => {
+    const amended = applyAmendmentChanges(signedTerms, { hospitality: { mealsProvided: ["dinner", "breakfast"] } });
+    expect(diffTerms(signedTerms, amended)).toEqual([{
+      clause: "hospitality",
+      label: "Hospitality",
+      changes: [{ path: "hospitality.mealsProvided", before: ["dinner"], after: ["dinner", "breakfast"] }],
+    }]);
+    expect(diffTerms({ slotTime: null }, {})).toEqual([]);
+  });
+
+  it("is empty when nothing changes, whatever the key order", () => {
+    const reordered = { hospitality: { mealsProvided: ["dinner"], guestListCount: 2 }, ...signedTerms };
+    expect(diffTerms(signedTerms, reordered)).toEqual([]);
+  });
+
+  it("labels unknown terms by name after the known clauses", () => {
+    const diff = diffTerms({ fee: 1, zeta: 1 }, { fee: 2, zeta: 2 });
+    expect(diff.map((c) => c.label)).toEqual(["Fee", "zeta"]);
+    expect(summarizeDiff(diff)).toBe("Fee, zeta");
+  });
+
+  it("flags fee changes only", () => {
+    expect(changesFee(signedTerms, { ...signedTerms, fee: "50000" })).toBe(false);
+    expect(changesFee(signedTerms, { ...signedTerms, fee: 50001 })).toBe(true);
+    expect(changesFee(signedTerms, { ...signedTerms, slotTime: "23:00" })).toBe(false);
+  });
+});
+
+describe("amendment preamble", () => {
+  it("states what is amended, why, and each change", () => {
+    const amended = applyAmendmentChanges(signedTerms, {
+      fee: 60000,
+      supportSlots: [{ name: "Local Opener", slotTime: "20:00" }],
+      travel: { flightClass: "business" },
+    });
+    const text = amendmentPreamble({
+      number: 2,
+      contractId: 12,
+      baseVersion: 3,
+      reason: "Event upgraded to the main stage",
+      diff: diffTerms(signedTerms, amended),
+    });
+
+    expect(text.split("\n").slice(0, 3)).toEqual([
+      "AMENDMENT No. 2 TO CONTRACT #12",
+      "This amendment replaces version 3 of the agreement. All terms not listed below are unchanged.",
+      "Reason: Event upgraded to the main stage",
+    ]);
+    expect(text).toContain("Fee:\n  - 50000 → 60000");
+    expect(text).toContain("Support slots:\n  - — → name: Local Opener, slotTime: 20:00");
+    expect(text).toContain("Travel:\n  - flightClass: economy → business");
+  });
+
+  it("formats empty values as a dash", () => {
+    expect(formatTermValue(null)).toBe("—");
+    expect(formatTermValue([])).toBe("—");
+    expect(formatTermValue({ note: "" })).toBe("—");
+    expect(formatTermValue(["a", "b"])).toBe("a; b");
+  });
+});
+
+describe("amendment steps", () => {
+  const proposed = { status: "proposed", promoterReviewedAt: new Date() };
+
+  it("has the counterparty review while the proposer waits", () => {
+    expect(amendmentStepFor(proposed, "artist")).toBe("review");
+    expect(amendmentStepFor(proposed, "promoter")).toBe("waiting");
+  });
+
+  it("moves each party from accepting to signing once both have reviewed", () => {
+    const reviewed = { ...proposed, artistReviewedAt: new Date() };
+    expect(amendmentStepFor(reviewed, "promoter")).toBe("accept");
+    expect(amendmentStepFor({ ...reviewed, promoterAcceptedAt: new Date() }, "promoter")).toBe("sign");
+    expect(amendmentStepFor({ ...reviewed, promoterAcceptedAt: new Date(), promoterSignedAt: new Date() }, "promoter")).toBe("waiting");
+  });
+
+  it("has no steps once the amendment leaves the parties", () => {
+    for (const status of ["admin_review", "applied", "rejected", "withdrawn"]) {
+      expect(amendmentStepFor({ ...proposed, status }, "artist")).toBeNull();
+    }
+  });
+
+  it("applies a fully signed amendment unless it changes the fee", () => {
+    const signed = { status: "proposed", artistSignedAt: new Date(), promoterSignedAt: new Date() };
+    expect(statusAfterSigning({ ...signed, feeChanged: false })).toBe("applied");
+    expect(statusAfterSigning({ ...signed, feeChanged: true })).toBe("admin_review");
+    expect(statusAfterSigning({ ...signed, promoterSignedAt: null, feeChanged: true })).toBe("proposed");
+  });
+});
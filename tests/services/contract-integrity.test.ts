@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import {
+  canonicalContractDocument,
+  canonicalJson,
+  canonicalText,
+  executedContractText,
+  fillSignatureBlock,
+  formatSignatureDate,
+  hashContractDocument,
+  hasSignature,
+  isDocumentHash,
+  signedContractChangeError,
+} from "../../server/contract-integrity-utils";
+
+const SIGNATURE_BLOCK = [
+  "AGREEMENT",
+  "",
+  "Digital Signature: [[PROMOTER_SIGNATURE]]",
+  "Date: [[PROMOTER_DATE]]",
+  "IP Address / Timestamp: [[PROMOTER_IP]]",
+  "",
+  "Digital Signature: [[ARTIST_SIGNATURE]]",
+  "Date: [[ARTIST_DATE]]",
+  "IP Address / Timestamp: [[ARTIST_IP]]",
+].join("\n");
+
+const doc = { contractId: 12, version: 2, text: SIGNATURE_BLOCK, terms: { fee: 50000, rider: { mics: 2 } } };
+
+describe("canonical document", () => {
+  it("sorts object keys at every level", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+    expect(canonicalJson({ a: undefined, b: 1 })).toBe('{"b":1}');
+  });
+
+  it("ignores line endings and trailing whitespace", () => {
+    expect(canonicalText("Line one  \r\nLine two\r\n\r\n")).toBe("Line one\nLine two");
+  });
+
+  it("covers contract, version, terms and text", () => {
+    const text = canonicalContractDocument(doc);
+    expect(text.startsWith('contract:12\nversion:2\nterms:{"fee":50000,"rider":{"mics":2}}\n\n')).toBe(true);
+    expect(text.endsWith(SIGNATURE_BLOCK)).toBe(true);
+  });
+
+  it("hashes the canonical form with SHA-256", () => {
+    const expected = createHash("sha256").update(canonicalContractDocument(doc)).digest("hex");
+    expect(hashContractDocument(doc)).toBe(expected);
+    expect(isDocumentHash(hashContractDocument(doc))).toBe(true);
+  });
+
+  it("gives the same hash whatever the key order or line endings", () => {
+    const reordered = { ...doc, text: SIGNATURE_BLOCK.replace(/\n/g, "\r\n"), terms: { rider: { mics: 2 }, fee: 50000 } };
+    expect(hashContractDocument(reordered)).toBe(hashContractDocument(doc));
+  });
+
+  it("changes the hash when the text, terms, version or contract change", () => {
+    const base = hashContractDocument(doc);
+    expect(hashContractDocument({ ...doc, text: SIGNATURE_BLOCK.replace("AGREEMENT", "AGREEMENT.") })).not.toBe(base);
+    expect(hashContractDocument({ ...doc, terms: { fee: 50001, rider: { mics: 2 } } })).not.toBe(base);
+    expect(hashContractDocument({ ...doc, version: 3 })).not.toBe(base);
+    expect(hashContractDocument({ ...doc, contractId: 13 })).not.toBe(base);
+  });
+
+  it("only accepts lowercase 64-character hex as a hash", () => {
+    expect(isDocumentHash("a".repeat(64))).toBe(true);
+    expect(isDocumentHash("A".repeat(64))).toBe(false);
+    expect(isDocumentHash("a".repeat(63))).toBe(false);
+  });
+});
+
+describe("signature block", () => {
+  const promoter = { role: "organizer", signature: "Skyline Events", signedAt: new Date("2026-10-19T10:00:00.000Z"), ipAddress: "10.0.0.1" };
+  const artist = { role: "artist", signature: "Nova Sharma", signedAt: new Date("2026-10-19T11:30:05.250Z"), ipAddress: null };
+
+  it("formats signing dates in UTC to the second", () => {
+    expect(formatSignatureDate(artist.signedAt)).toBe("2026-10-19 11:30:05 UTC");
+  });
+
+  it("fills only the signing party's slots", () => {
+    const text = fillSignatureBlock(SIGNATURE_BLOCK, artist);
+    expect(text).toContain("Digital Signature: Nova Sharma");
+    expect(text).toContain("IP Address / Timestamp: Unknown");
+    expect(text).toContain("[[PROMOTER_SIGNATURE]]");
+  });
+
+  it("rebuilds the executed text from the signatures in any order", () => {
+    const executed = fillSignatureBlock(fillSignatureBlock(SIGNATURE_BLOCK, promoter), artist);
+    expect(executedContractText(SIGNATURE_BLOCK, [artist, promoter])).toBe(executed);
+    expect(executed).not.toContain("[[");
+  });
+});
+
+describe("edits after signing", () => {
+  it("allows any change before the first signature", () => {
+    expect(hasSignature({ signedByArtist: false, signedByPromoter: null })).toBe(false);
+    expect(signedContractChangeError({ signedByArtist: false, signedByPromoter: false }, ["contractText"])).toBeNull();
+  });
+
+  it("blocks changes to signed content once either party has signed", () => {
+    expect(signedContractChangeError({ signedByPromoter: true }, ["contractText", "status"]))
+      .toBe("Contract has been signed; contractText can no longer be changed");
+    expect(signedContractChangeError({ signedByArtist: true }, ["negotiatedTermsJson", "currentVersion"])).toContain("negotiatedTermsJson, currentVersion");
+  });
+
+  it("still allows status and review changes on signed contracts", () => {
+    expect(signedContractChangeError({ signedByArtist: true, signedByPromoter: true }, ["status", "adminReviewNote"])).toBeNull();
+  });
+
+  it("blocks every column not explicitly editable after signing", () => {
+    expect(signedContractChangeError({ signedByArtist: true }, ["deadlineAt", "editPhase", "pdfUrl"]))
+      .toBe("Contract has been signed; editPhase, pdfUrl can no longer be changed");
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CONTRACT_CLAUSES,
+  DEFAULT_CONTRACT_TITLE,
+  DEFAULT_TEMPLATE,
+  buildTemplateVariables,
+  isContentKey,
+  latestTemplates,
+  libraryRevision,
+  placeholdersIn,
+  renderContractDocument,
+  renderPlaceholders,
+  resolveClauses,
+  selectTemplate,
+  templateError,
+  unknownPlaceholders,
+  type ClauseRecord,
+  type TemplateRecord,
+} from "../../server/contract-template-utils";
+import { buildTermsFromBooking, type BookingForContract } from "../../server/contract-utils";
+
+const booking: BookingForContract = {
+  id: 7,
+  offerAmount: "50000",
+  offerCurrency: "INR",
+  depositPercent: 30,
+  eventDate: "2026-12-31T18:30:00.000Z",
+  artist: { name: "DJ Nova", user: { legalName: "Nova Sharma", panNumber: "ABCDE1234F" } },
+  organizer: { name: "Skyline Events", user: { legalName: "Skyline Events Pvt Ltd" } },
+  venue: { name: "Blue Frog", city: "Mumbai" },
+  event: { title: "NYE Bash", startTime: "2026-12-31T18:30:00.000Z" },
+  commissionBreakdown: { organizerFee: 1000, artistFee: 50000, netPayoutToArtist: 45000 },
+};
+
+const options = { effectiveDate: new Date("2026-10-19T06:00:00.000Z"), locale: "en-IN", timeZone: "Asia/Kolkata" };
+
+function template(overrides: Partial<TemplateRecord>): TemplateRecord {
+  return {
+    id: 1,
+    key: "standard",
+    version: 1,
+    name: "Standard",
+    title: DEFAULT_CONTRACT_TITLE,
+    locale: "en-IN",
+    clauseKeys: ["parties"],
+    artistCategory: null,
+    eventType: null,
+    active: true,
+    ...overrides,
+  };
+}
+
+describe("placeholders", () => {
+  it("finds each placeholder once, with or without a fallback", () => {
+    expect(placeholdersIn("{{event.title}} at {{event.venue | TBA}} — {{event.title}}")).toEqual(["event.title", "event.venue"]);
+  });
+
+  it("accepts catalog, terms and clause number placeholders only", () => {
+    expect(unknownPlaceholders("{{payment.fee}} {{terms.hospitality.guestListCount}} {{clause.number}}")).toEqual([]);
+    expect(unknownPlaceholders("{{payment.fees}} {{artist.legalName}}")).toEqual(["payment.fees"]);
+  });
+
+  it("uses the fallback for empty values and marks gaps otherwise", () => {
+    const vars = { event: { title: "NYE", venue: "" } };
+    expect(renderPlaceholders("{{event.title}} @ {{event.venue | TBA}} {{event.city}}", vars, "en-IN")).toBe("NYE @ TBA [event.city]");
+  });
+
+  it("formats numbers and lists for the locale", () => {
+    const vars = { terms: { amount: 150000, riders: ["Mic", "Monitor"] } };
+    expect(renderPlaceholders("{{terms.amount}} / {{terms.riders}}", vars, "en-IN")).toBe("1,50,000 / Mic, Monitor");
+  });
+});
+
+describe("buildTemplateVariables", () => {
+  it("derives parties, fees and dates from the booking", () => {
+    const vars = buildTemplateVariables(booking, buildTermsFromBooking(booking), options);
+    expect(vars.artist.legalName).toBe("Nova Sharma");
+    expect(vars.organizer.legalName).toBe("Skyline Events Pvt Ltd");
+    expect(vars.event.venue).toBe("Blue Frog, Mumbai");
+    expect(vars.payment.fee).toBe("50,000");
+    expect(vars.payment.totalPayable).toBe("51,000");
+    expect(vars.payment.netPayout).toBe("45,000");
+    expect(vars.agreement.month).toBe("October");
+  });
+
+  it("formats the event date in the event's time zone", () => {
+    const vars = buildTemplateVariables(booking, {}, options);
+    expect(vars.event.startDate).toContain("1 January 2027");
+  });
+
+  it("survives a JSON round trip unchanged", () => {
+    const vars = buildTemplateVariables(booking, buildTermsFromBooking(booking), options);
+    expect(JSON.parse(JSON.stringify(vars))).toEqual(vars);
+  });
+});
+
+describe("renderContractDocument", () => {
+  it("numbers only numbered clauses and exposes the number to the body", () => {
+    const text = renderContractDocument("AGREEMENT", [
+      { key: "intro", title: "Intro", body: "Between us.", numbered: false },
+      { key: "fee", title: "Fee", body: "{{clause.number}}.1 Pay {{payment.fee}}.", numbered: true },
+      { key: "law", title: "Law", body: "{{clause.number}}.1 Indian law.", numbered: true },
+    ], { payment: { fee: "100" } }, "en-IN");
+    expect(text).toBe("AGREEMENT\n\nBetween us.\n\n1. FEE\n1.1 Pay 100.\n\n2. LAW\n2.1 Indian law.");
+  });
+
+  it("renders the built-in agreement without unfilled placeholders", () => {
+    const vars = buildTemplateVariables(booking, buildTermsFromBooking(booking), options);
+    const text = renderContractDocument(DEFAULT_TEMPLATE.title, DEFAULT_CONTRACT_CLAUSES, vars, "en-IN");
+    expect(text.startsWith(DEFAULT_CONTRACT_TITLE)).toBe(true);
+    expect(text).toContain("Nova Sharma");
+    expect(text).not.toMatch(/\{\{/);
+  });
+
+  it("only uses known placeholders in the built-in clauses", () => {
+    for (const clause of DEFAULT_CONTRACT_CLAUSES) {
+      expect(unknownPlaceholders(clause.body)).toEqual([]);
+    }
+    expect(DEFAULT_TEMPLATE.clauseKeys).toEqual(DEFAULT_CONTRACT_CLAUSES.map((c) => c.key));
+  });
+});
+
+describe("clause library", () => {
+  const library: ClauseRecord[] = [
+    { key: "fee", version: 1, title: "Fee", body: "v1", numbered: true },
+    { key: "law", version: 1, title: "Law", body: "v1", numbered: true },
+    { key: "fee", version: 2, title: "Fee", body: "v2", numbered: true },
+    { key: "extra", version: 3, title: "Extra", body: "v3", numbered: true },
+  ];
+
+  it("tracks the highest clause version as the revision", () => {
+    expect(libraryRevision(library)).toBe(3);
+    expect(libraryRevision([])).toBe(0);
+  });
+
+  it("picks the newest clause at or before a revision", () => {
+    expect(resolveClauses(library, ["fee", "law"], 1).map((c) => c.body)).toEqual(["v1", "v1"]);
+    expect(resolveClauses(library, ["fee", "law"], 3).map((c) => c.body)).toEqual(["v2", "v1"]);
+  });
+
+  it("rejects clauses that did not exist at the revision", () => {
+    expect(() => resolveClauses(library, ["extra"], 2)).toThrow('Clause "extra" not found at library version 2');
+  });
+
+  it("validates keys", () => {
+    expect(isContentKey("force_majeure")).toBe(true);
+    expect(isContentKey("Force Majeure")).toBe(false);
+    expect(isContentKey("1st")).toBe(false);
+  });
+});
+
+describe("templates", () => {
+  it("keeps the newest version of each key", () => {
+    const latest = latestTemplates([template({ id: 1 }), template({ id: 2, version: 2 }), template({ id: 3, key: "festival" })]);
+    expect(latest.map((t) => t.id).sort()).toEqual([2, 3]);
+  });
+
+  it("prefers the most specific matching template", () => {
+    const templates = [
+      template({ id: 1 }),
+      template({ id: 2, key: "intl", artistCategory: "international" }),
+      template({ id: 3, key: "fest", eventType: "festival" }),
+      template({ id: 4, key: "intl_fest", artistCategory: "international", eventType: "festival" }),
+    ];
+    expect(selectTemplate(templates, { artistCategory: "international", eventType: "festival" })?.id).toBe(4);
+    expect(selectTemplate(templates, { artistCategory: "international", eventType: "wedding" })?.id).toBe(2);
+    expect(selectTemplate(templates, { artistCategory: "budding", eventType: "festival" })?.id).toBe(3);
+    expect(selectTemplate(templates, { artistCategory: "budding", eventType: null })?.id).toBe(1);
+  });
+
+  it("ignores archived templates and superseded versions", () => {
+    const templates = [
+      template({ id: 1 }),
+      template({ id: 2, key: "fest", eventType: "festival" }),
+      template({ id: 3, key: "fest", version: 2, eventType: "festival", active: false }),
+    ];
+    expect(selectTemplate(templates, { eventType: "festival" })?.id).toBe(1);
+    expect(selectTemplate([template({ active: false })], {})).toBeNull();
+  });
+
+  it("explains why a template can't be saved", () => {
+    expect(templateError([], ["fee"])).toBe("A template needs at least one clause");
+    expect(templateError(["fee", "fee"], ["fee"])).toBe("A clause can only appear once in a template");
+    expect(templateError(["fee", "law"], ["fee"])).toBe('Clause "law" not found');
+    expect(templateError(["fee"], ["fee"])).toBeNull();
+  });
+});
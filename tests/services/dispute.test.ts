@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { openDisputeSchema, resolveDisputeSchema } from "../../shared/routes";
+
+const activeDisputes: any[] = [];
+
+// Only the "active dispute" lookup reaches the database in these tests
+vi.mock("../../server/db", () => ({
+  db: {
+    select: () => ({ from: () => ({ where: async () => activeDisputes }) }),
+    transaction: async () => {
+      throw new Error("transaction should not be reached");
+    },
+  },
+}));
+
+vi.mock("../../server/services/event-bus", () => ({
+  emitDomainEvent: vi.fn(),
+}));
+
+// Sides the caller acts for, keyed by user id (organization managers act for their side too)
+const sidesByUser: Record<number, string[]> = {};
+
+vi.mock("../../server/services/booking-access.service", () => ({
+  bookingAccessService: {
+    check: async (user: any) => ({
+      booking: { id: 1 },
+      allowed: (sidesByUser[user.id] || []).length > 0,
+      sides: sidesByUser[user.id] || [],
+      asAdmin: false,
+    }),
+  },
+}));
+
+import { disputeService, DISPUTABLE_BOOKING_STATUSES } from "../../server/services/dispute.service";
+
+function stubParties(status: string) {
+  vi.spyOn(disputeService as any, "getParties").mockResolvedValue({
+    booking: { id: 1, status },
+    eventTitle: "Gig",
+    artistUserId: 10,
+    organizerUserId: 20,
+  });
+}
+
+const input = { reason: "no_show", description: "The artist never showed up at the venue." };
+
+describe("DisputeService.openDispute guards", () => {
+  beforeEach(() => {
+    activeDisputes.length = 0;
+    vi.restoreAllMocks();
+    for (const id of Object.keys(sidesByUser)) delete sidesByUser[Number(id)];
+    sidesByUser[10] = ["artist"];
+    sidesByUser[20] = ["organizer"];
+  });
+
+  it("identifies which side of the booking a user acts for", async () => {
+    sidesByUser[30] = ["organizer"]; // a manager of the organizer's organization
+    expect(await disputeService.actingSide({ id: 10 }, 1)).toBe("artist");
+    expect(await disputeService.actingSide({ id: 30 }, 1)).toBe("organizer");
+    expect(await disputeService.actingSide({ id: 99 }, 1)).toBeNull();
+  });
+
+  it("picks the side of the signed-in role for a user on both sides", async () => {
+    sidesByUser[40] = ["artist", "organizer"];
+    expect(await disputeService.actingSide({ id: 40, role: "artist" }, 1)).toBe("artist");
+    expect(await disputeService.actingSide({ id: 40, role: "organizer" }, 1)).toBe("organizer");
+  });
+
+  it("rejects users who are not a party to the booking", async () => {
+    stubParties("completed");
+    await expect(disputeService.openDispute(1, { id: 99 }, input)).rejects.toThrow(
+      "Only the booking's artist or organizer can open a dispute",
+    );
+  });
+
+  it("rejects bookings that are not yet scheduled", async () => {
+    stubParties("negotiating");
+    await expect(disputeService.openDispute(1, { id: 20 }, input)).rejects.toThrow(
+      "Disputes cannot be opened for a booking in status negotiating",
+    );
+  });
+
+  it("allows only one active dispute per booking", async () => {
+    stubParties("completed");
+    activeDisputes.push({ id: 5, status: "open" });
+    await expect(disputeService.openDispute(1, { id: 10 }, input)).rejects.toThrow(
+      "An active dispute already exists for this booking",
+    );
+  });
+
+  it("covers scheduled and completed bookings", () => {
+    expect(DISPUTABLE_BOOKING_STATUSES).toContain("scheduled");
+    expect(DISPUTABLE_BOOKING_STATUSES).toContain("completed");
+    expect(DISPUTABLE_BOOKING_STATUSES).not.toContain("cancelled");
+  });
+});
+
+describe("dispute validation schemas", () => {
+  it("requires a meaningful description", () => {
+    expect(openDisputeSchema.safeParse({ reason: "no_show", description: "too short" }).success).toBe(false);
+    expect(openDisputeSchema.safeParse(input).success).toBe(true);
+  });
+
+  it("requires a note when resolving", () => {
+    expect(resolveDisputeSchema.safeParse({ outcome: "refund", note: "" }).success).toBe(false);
+    expect(resolveDisputeSchema.safeParse({ outcome: "no_refund", note: "Performance was as agreed" }).success).toBe(true);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from "vitest";
+import { calculateEscrowSchedule, escrowAvailable, escrowPaidIn, escrowRefunded, planEscrowAdjustment } from "../../server/services/escrow.service";
+import { FakeGateway, getPaymentGateway } from "../../server/services/payment-gateway";
+
+// The escrow service imports the database; the schedule math and gateway don't touch it
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+describe("calculateEscrowSchedule", () => {
+  it("splits the organizer's total cost by deposit percent", () => {
+    const result = calculateEscrowSchedule(
+      { netCostToOrganizer: 1040, netPayoutToArtist: 900 },
+      "30.00",
+      1000,
+    );
+
+    expect(result.totalDue).toBe(1040);
+    expect(result.depositAmount).toBe(312);
+    expect(result.balanceAmount).toBe(728);
+    expect(result.netPayoutToArtist).toBe(900);
+  });
+
+  it("falls back to the agreed fee when no breakdown exists", () => {
+    const result = calculateEscrowSchedule(null, null, "5000");
+
+    expect(result.totalDue).toBe(5000);
+    expect(result.depositAmount).toBe(1500); // default 30%
+    expect(result.balanceAmount).toBe(3500);
+    expect(result.netPayoutToArtist).toBe(5000);
+  });
+
+  it("deposit and balance always add up to the total", () => {
+    const result = calculateEscrowSchedule({ netCostToOrganizer: 333.33 }, 33.33, 0);
+    expect(result.depositAmount + result.balanceAmount).toBeCloseTo(result.totalDue, 2);
+  });
+
+  it("clamps out-of-range deposit percentages", () => {
+    expect(calculateEscrowSchedule(null, 150, 100).depositAmount).toBe(100);
+    expect(calculateEscrowSchedule(null, -10, 100).depositAmount).toBe(0);
+  });
+});
+
+describe("planEscrowAdjustment", () => {
+  const deposit = { id: 1, amount: "300.00", status: "captured", paymentType: "deposit", metadata: null };
+  const balance = { id: 2, amount: "700.00", status: "initiated", paymentType: "balance", metadata: null };
+
+  it("adds an increase onto the uncollected balance", () => {
+    const plan = planEscrowAdjustment([deposit, balance], 1200);
+
+    expect(plan.previousTotal).toBe(1000);
+    expect(plan.resize).toEqual([{ paymentId: 2, amount: 900 }]);
+    expect(plan.charge).toBe(0);
+    expect(plan.refund).toBe(0);
+  });
+
+  it("charges an increase separately once the balance is captured", () => {
+    const plan = planEscrowAdjustment([deposit, { ...balance, status: "captured" }], 1200);
+
+    expect(plan.resize).toEqual([]);
+    expect(plan.charge).toBe(200);
+  });
+
+  it("takes a decrease off uncollected payments before refunding", () => {
+    expect(planEscrowAdjustment([deposit, balance], 500)).toMatchObject({
+      resize: [{ paymentId: 2, amount: 200 }],
+      cancel: [],
+      refund: 0,
+    });
+    expect(planEscrowAdjustment([deposit, balance], 200)).toMatchObject({
+      resize: [],
+      cancel: [2],
+      refund: 100,
+    });
+  });
+
+  it("ignores cancelled payments and counts refunds already made", () => {
+    const refunded = { ...deposit, metadata: { refundedAmount: "100" } };
+    const cancelled = { ...balance, status: "cancelled" };
+    const plan = planEscrowAdjustment([refunded, cancelled], 200);
+
+    expect(plan.previousTotal).toBe(200);
+    expect(plan).toMatchObject({ resize: [], cancel: [], charge: 0, refund: 0 });
+  });
+});
+
+describe("escrowPaidIn", () => {
+  it("sums captured escrow payments net of partial refunds", () => {
+    const paid = escrowPaidIn([
+      { amount: "500.00", status: "captured", paymentType: "deposit", metadata: null },
+      { amount: "500.00", status: "refunded", paymentType: "balance", metadata: { refundedAmount: 200 } },
+      { amount: "300.00", status: "initiated", paymentType: "balance", metadata: null },
+      { amount: "150.00", status: "captured", paymentType: "cancellation_fee", metadata: null },
+    ]);
+    expect(paid).toBe(800);
+  });
+});
+
+describe("escrowRefunded", () => {
+  it("sums refunds on escrow payments only", () => {
+    const refunded = escrowRefunded([
+      { paymentType: "deposit", metadata: { refundedAmount: 250 } },
+      { paymentType: "balance", metadata: null },
+      { paymentType: "cancellation_fee", metadata: { refundedAmount: 90 } },
+    ]);
+    expect(refunded).toBe(250);
+  });
+});
+
+describe("escrowAvailable", () => {
+  const captured = [
+    { amount: "1000.00", status: "captured", metadata: { refundedAmount: 100 } },
+    { amount: "500.00", status: "failed", metadata: null },
+  ] as any[];
+
+  it("leaves out payouts already paid or being sent", () => {
+    const available = escrowAvailable(captured, [
+      { id: 1, amount: "300.00", status: "paid" },
+      { id: 2, amount: "200.00", status: "processing" },
+      { id: 3, amount: "900.00", status: "queued" },
+      { id: 4, amount: "50.00", status: "cancelled" },
+    ]);
+    expect(available).toBe(400);
+  });
+
+  it("ignores the payout being checked", () => {
+    expect(escrowAvailable(captured, [{ id: 2, amount: "200.00", status: "processing" }], 2)).toBe(900);
+  });
+
+  it("holds nothing when the balance never arrived", () => {
+    expect(escrowAvailable([{ amount: "800.00", status: "failed", metadata: null }] as any[], [])).toBe(0);
+  });
+});
+
+describe("FakeGateway", () => {
+  it("is registered as the default gateway", () => {
+    expect(getPaymentGateway().name).toBe("fake");
+  });
+
+  it("authorizes and captures using the same transaction id", async () => {
+    const gateway = new FakeGateway();
+    const auth = await gateway.authorize({ amount: 100, currency: "INR", reference: "booking-1-deposit-1" });
+    expect(auth.success).toBe(true);
+
+    const capture = await gateway.capture(auth.transactionId, 100);
+    expect(capture.success).toBe(true);
+    expect(capture.transactionId).toBe(auth.transactionId);
+  });
+
+  it("declines references containing 'fail'", async () => {
+    const gateway = new FakeGateway();
+    const auth = await gateway.authorize({ amount: 100, currency: "INR", reference: "fail-me" });
+    expect(auth.success).toBe(false);
+    expect(auth.error).toBeDefined();
+  });
+
+  it("throws for unknown gateways", () => {
+    expect(() => getPaymentGateway("nope")).toThrow("Payment gateway not registered: nope");
+  });
+});
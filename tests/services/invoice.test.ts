@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFinancialYear,
+  formatInvoiceNumber,
+  stateCodeFromGstin,
+  stateCodeFromName,
+  splitGst,
+  computeInvoiceTotals,
+  buildOrganizerInvoiceLines,
+  buildArtistInvoiceLines,
+} from "../../server/invoice-utils";
+
+describe("getFinancialYear", () => {
+  it("uses the April–March Indian financial year", () => {
+    expect(getFinancialYear(new Date("2026-02-10T10:00:00Z"))).toBe("2025-26");
+    expect(getFinancialYear(new Date("2026-04-01T10:00:00Z"))).toBe("2026-27");
+  });
+
+  it("evaluates the boundary in IST", () => {
+    // 31 Mar 2026 20:00 UTC is already 1 Apr 2026 in India
+    expect(getFinancialYear(new Date("2026-03-31T20:00:00Z"))).toBe("2026-27");
+  });
+
+  it("formats century rollovers", () => {
+    expect(getFinancialYear(new Date("2099-06-01T00:00:00Z"))).toBe("2099-00");
+  });
+});
+
+describe("formatInvoiceNumber", () => {
+  it("zero-pads the sequence", () => {
+    expect(formatInvoiceNumber("2026-27", 42)).toBe("INV/2026-27/000042");
+  });
+});
+
+describe("state codes", () => {
+  it("reads the state code from a GSTIN", () => {
+    expect(stateCodeFromGstin("27AAPFU0939F1ZV")).toBe("27");
+    expect(stateCodeFromGstin("")).toBeNull();
+    expect(stateCodeFromGstin("XXABC")).toBeNull();
+  });
+
+  it("maps state names case-insensitively", () => {
+    expect(stateCodeFromName("Maharashtra")).toBe("27");
+    expect(stateCodeFromName("  karnataka ")).toBe("29");
+    expect(stateCodeFromName("Jammu & Kashmir")).toBe("01");
+    expect(stateCodeFromName("Atlantis")).toBeNull();
+  });
+});
+
+describe("splitGst", () => {
+  it("splits intra-state tax into CGST and SGST", () => {
+    const result = splitGst(1000, "27", "27");
+    expect(result.supplyType).toBe("intra_state");
+    expect(result.cgstAmount).toBe(90);
+    expect(result.sgstAmount).toBe(90);
+    expect(result.igstAmount).toBe(0);
+  });
+
+  it("charges IGST for inter-state supply", () => {
+    const result = splitGst(1000, "27", "29");
+    expect(result.supplyType).toBe("inter_state");
+    expect(result.igstAmount).toBe(180);
+    expect(result.cgstAmount + result.sgstAmount).toBe(0);
+  });
+
+  it("treats an unknown supplier state as inter-state", () => {
+    expect(splitGst(500, null, null).supplyType).toBe("inter_state");
+  });
+
+  it("CGST and SGST always add up to the total tax", () => {
+    const result = splitGst(333.33, "07", "07");
+    expect(result.cgstAmount + result.sgstAmount).toBeCloseTo(result.totalTax, 2);
+  });
+});
+
+describe("invoice lines", () => {
+  const amounts = { artistFee: "10000", organizerFee: "500", artistCommissionPct: "10" };
+
+  it("only taxes the artist fee when the artist is GST registered", () => {
+    const unregistered = computeInvoiceTotals(buildOrganizerInvoiceLines(amounts, false), "27", "27");
+    expect(unregistered.subtotal).toBe(10500);
+    expect(unregistered.taxableAmount).toBe(500);
+    expect(unregistered.totalAmount).toBe(10590);
+
+    const registered = computeInvoiceTotals(buildOrganizerInvoiceLines(amounts, true), "27", "27");
+    expect(registered.taxableAmount).toBe(10500);
+    expect(registered.totalAmount).toBe(12390);
+  });
+
+  it("bills the artist the commission deducted from their fee", () => {
+    const lines = buildArtistInvoiceLines(amounts);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].amount).toBe(1000);
+
+    const totals = computeInvoiceTotals(lines, "27", "29");
+    expect(totals.igstAmount).toBe(180);
+    expect(totals.totalAmount).toBe(1180);
+  });
+});
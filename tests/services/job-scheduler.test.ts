@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  JOB_LOCK_TIMEOUT_MS,
+  JOB_RETRY_BASE_DELAY_MS,
+  JOB_RETRY_MAX_DELAY_MS,
+  jobKey,
+  jobRetryDelayMs,
+  nextRecurringRunAt,
+  staleLockCutoff,
+  stateAfterRun,
+} from "../../server/job-scheduler-utils";
+
+const startedAt = new Date("2026-04-06T10:00:00Z");
+const finishedAt = new Date("2026-04-06T10:00:05Z");
+
+describe("jobKey", () => {
+  it("joins the handler name and entity id", () => {
+    expect(jobKey("booking.expire-flow", 123)).toBe("booking.expire-flow:123");
+  });
+});
+
+describe("jobRetryDelayMs", () => {
+  it("doubles from one minute up to an hour", () => {
+    expect(jobRetryDelayMs(1)).toBe(JOB_RETRY_BASE_DELAY_MS);
+    expect(jobRetryDelayMs(2)).toBe(2 * JOB_RETRY_BASE_DELAY_MS);
+    expect(jobRetryDelayMs(20)).toBe(JOB_RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe("nextRecurringRunAt", () => {
+  it("schedules one interval after the run started", () => {
+    expect(nextRecurringRunAt(300, startedAt, finishedAt).toISOString()).toBe("2026-04-06T10:05:00.000Z");
+  });
+
+  it("never schedules before a slow run finished", () => {
+    const slowFinish = new Date("2026-04-06T10:07:00Z");
+    expect(nextRecurringRunAt(300, startedAt, slowFinish)).toEqual(slowFinish);
+  });
+});
+
+describe("stateAfterRun", () => {
+  const recurring = { kind: "recurring" as const, intervalSeconds: 3600, attempts: 0, maxAttempts: 3, startedAt, finishedAt };
+  const once = { kind: "once" as const, intervalSeconds: null, attempts: 0, maxAttempts: 3, startedAt, finishedAt };
+
+  it("reschedules recurring jobs after success and failure alike", () => {
+    expect(stateAfterRun({ ...recurring, success: true })).toEqual({
+      status: "scheduled",
+      runAt: new Date("2026-04-06T11:00:00Z"),
+      attempts: 0,
+    });
+    const failed = stateAfterRun({ ...recurring, attempts: 4, success: false });
+    expect(failed.status).toBe("scheduled");
+    expect(failed.attempts).toBe(5);
+  });
+
+  it("resets the failure count after a successful run", () => {
+    expect(stateAfterRun({ ...recurring, attempts: 2, success: true }).attempts).toBe(0);
+  });
+
+  it("completes one-off jobs on success", () => {
+    expect(stateAfterRun({ ...once, success: true }).status).toBe("completed");
+  });
+
+  it("retries failed one-off jobs with backoff, then gives up", () => {
+    const retry = stateAfterRun({ ...once, success: false });
+    expect(retry).toEqual({
+      status: "scheduled",
+      runAt: new Date(finishedAt.getTime() + JOB_RETRY_BASE_DELAY_MS),
+      attempts: 1,
+    });
+    expect(stateAfterRun({ ...once, attempts: 2, success: false })).toMatchObject({ status: "failed", attempts: 3 });
+  });
+});
+
+describe("staleLockCutoff", () => {
+  it("is the lock timeout before now", () => {
+    expect(staleLockCutoff(startedAt).getTime()).toBe(startedAt.getTime() - JOB_LOCK_TIMEOUT_MS);
+  });
+});
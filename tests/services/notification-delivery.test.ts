@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer, type Server } from "net";
+import type { AddressInfo } from "net";
+import {
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  absoluteActionUrl,
+  interpolateTemplate,
+  nextAttemptAfterFailure,
+  renderNotificationEmail,
+  retryDelayMs,
+} from "../../server/notification-delivery-utils";
+import { SmtpEmailAdapter, getChannelAdapter, smtpOptionsFromEnv } from "../../server/services/notification-channels";
+
+// The channel registry lives next to services that import the database
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+describe("interpolateTemplate", () => {
+  it("fills nested paths and blanks missing values", () => {
+    expect(interpolateTemplate("{{artist.name}} at {{eventTitle}}{{missing}}", {
+      artist: { name: "Prateek Kuhad" },
+      eventTitle: "NH7",
+    })).toBe("Prateek Kuhad at NH7");
+  });
+});
+
+describe("renderNotificationEmail", () => {
+  const base = {
+    title: "Booking confirmed: <Sunburn>",
+    body: "The booking is confirmed.\n\nContract will follow & needs signing.",
+    actionUrl: "/bookings?bookingId=4",
+    baseUrl: "https://app.bandwidth.in/",
+    recipientName: "Asha",
+  };
+
+  it("escapes HTML and links to the absolute action URL", () => {
+    const email = renderNotificationEmail(base);
+    expect(email.subject).toBe("Booking confirmed: <Sunburn>");
+    expect(email.html).toContain("Booking confirmed: &lt;Sunburn&gt;");
+    expect(email.html).toContain("follow &amp; needs signing");
+    expect(email.html).toContain('href="https://app.bandwidth.in/bookings?bookingId=4"');
+    expect(email.html).not.toContain("<Sunburn>");
+  });
+
+  it("produces a plain-text part with paragraphs and the link", () => {
+    const email = renderNotificationEmail(base);
+    expect(email.text).toContain("Hi Asha,");
+    expect(email.text).toContain("The booking is confirmed.\n\nContract will follow & needs signing.");
+    expect(email.text).toContain("View details: https://app.bandwidth.in/bookings?bookingId=4");
+  });
+
+  it("flags urgent notifications in the subject", () => {
+    expect(renderNotificationEmail({ ...base, priority: "urgent" }).subject).toBe("[Urgent] Booking confirmed: <Sunburn>");
+  });
+
+  it("keeps absolute action URLs as they are", () => {
+    expect(absoluteActionUrl("https://pay.example/x", "https://app.bandwidth.in")).toBe("https://pay.example/x");
+    expect(absoluteActionUrl(null, "https://app.bandwidth.in")).toBeNull();
+  });
+});
+
+describe("retry backoff", () => {
+  it("doubles the delay per attempt up to the cap", () => {
+    expect(retryDelayMs(1)).toBe(RETRY_BASE_DELAY_MS);
+    expect(retryDelayMs(2)).toBe(RETRY_BASE_DELAY_MS * 2);
+    expect(retryDelayMs(3)).toBe(RETRY_BASE_DELAY_MS * 4);
+    expect(retryDelayMs(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+
+  it("schedules the next attempt until attempts run out", () => {
+    const now = new Date("2026-05-01T10:00:00Z");
+    expect(nextAttemptAfterFailure(1, 5, false, now)?.toISOString()).toBe("2026-05-01T10:01:00.000Z");
+    expect(nextAttemptAfterFailure(5, 5, false, now)).toBeNull();
+  });
+
+  it("gives up immediately on permanent failures", () => {
+    expect(nextAttemptAfterFailure(1, 5, true)).toBeNull();
+  });
+});
+
+/**
+ * Minimal SMTP sink: accepts one conversation and records the DATA section.
+ * `rejectRecipient` answers RCPT TO with 550 to simulate a bad mailbox.
+ */
+function startSmtpSink(opts: { rejectRecipient?: boolean } = {}): Promise<{ server: Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = createServer((socket) => {
+    let inData = false;
+    let data = "";
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      const text = chunk.toString();
+      if (inData) {
+        data += text;
+        if (data.includes("\r\n.\r\n")) {
+          inData = false;
+          received.push(data);
+          socket.write("250 OK queued as test-1\r\n");
+        }
+        return;
+      }
+      for (const line of text.split("\r\n").filter(Boolean)) {
+        const cmd = line.slice(0, 4).toUpperCase();
+        if (cmd === "EHLO" || cmd === "HELO") socket.write("250 sink\r\n");
+        else if (cmd === "MAIL") socket.write("250 OK\r\n");
+        else if (cmd === "RCPT") socket.write(opts.rejectRecipient ? "550 No such user\r\n" : "250 OK\r\n");
+        else if (cmd === "DATA") { inData = true; socket.write("354 Go ahead\r\n"); }
+        else if (cmd === "QUIT") { socket.write("221 Bye\r\n"); socket.end(); }
+        else if (cmd === "RSET") socket.write("250 OK\r\n");
+        else socket.write("502 Not implemented\r\n");
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, received });
+    });
+  });
+}
+
+describe("SmtpEmailAdapter", () => {
+  let sink: Server | null = null;
+
+  afterEach(async () => {
+    if (sink) await new Promise((resolve) => sink!.close(resolve));
+    sink = null;
+  });
+
+  it("is registered for the email channel and defaults to a local sink", () => {
+    expect(getChannelAdapter("email")?.name).toBe("smtp");
+    expect(getChannelAdapter("sms")).toBeUndefined();
+    expect(smtpOptionsFromEnv({})).toMatchObject({ host: "localhost", port: 1025, secure: false });
+  });
+
+  it("delivers multipart mail to the SMTP server", async () => {
+    const started = await startSmtpSink();
+    sink = started.server;
+    const adapter = new SmtpEmailAdapter({ ...smtpOptionsFromEnv({}), host: "127.0.0.1", port: started.port });
+
+    const result = await adapter.send({
+      to: "asha@bandwidth.test",
+      subject: "Contract ready",
+      html: "<p>Sign it</p>",
+      text: "Sign it",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.providerMessageId).toBeTruthy();
+    expect(started.received).toHaveLength(1);
+    expect(started.received[0]).toContain("Subject: Contract ready");
+    expect(started.received[0]).toContain("To: asha@bandwidth.test");
+    expect(started.received[0]).toContain("text/html");
+  });
+
+  it("reports 5xx rejections as permanent failures", async () => {
+    const started = await startSmtpSink({ rejectRecipient: true });
+    sink = started.server;
+    const adapter = new SmtpEmailAdapter({ ...smtpOptionsFromEnv({}), host: "127.0.0.1", port: started.port });
+
+    const result = await adapter.send({ to: "nobody@bandwidth.test", subject: "x", html: "x", text: "x" });
+
+    expect(result.success).toBe(false);
+    expect(result.permanent).toBe(true);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  isDigestDue,
+  isWithinQuietHours,
+  planDelivery,
+  quietHoursEndAt,
+  resolveChannels,
+} from "../../server/notification-preference-utils";
+import { renderDigestEmail } from "../../server/notification-delivery-utils";
+import { typeAppliesToRole } from "../../server/services/notification-preference.service";
+
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+const TZ = "Asia/Kolkata"; // UTC+05:30
+const QUIET = { start: "22:00", end: "07:00" };
+
+describe("resolveChannels", () => {
+  const available = ["in_app", "email"];
+
+  it("falls back to the type's default channels", () => {
+    expect(resolveChannels(["in_app", "email"], [], available)).toEqual(["in_app", "email"]);
+    expect(resolveChannels(["in_app"], [], available)).toEqual(["in_app"]);
+  });
+
+  it("lets explicit preferences override the defaults both ways", () => {
+    expect(resolveChannels(["in_app", "email"], [{ channel: "email", enabled: false }], available)).toEqual(["in_app"]);
+    expect(resolveChannels(["in_app"], [{ channel: "email", enabled: true }], available)).toEqual(["in_app", "email"]);
+  });
+
+  it("never returns channels that are not available", () => {
+    expect(resolveChannels(["in_app", "sms"], [{ channel: "push", enabled: true }], available)).toEqual(["in_app"]);
+  });
+});
+
+describe("quiet hours", () => {
+  it("wraps midnight in the user's timezone", () => {
+    // 23:00 and 06:30 IST are inside 22:00–07:00; 12:00 IST is not
+    expect(isWithinQuietHours(new Date("2026-04-06T17:30:00Z"), TZ, QUIET)).toBe(true);
+    expect(isWithinQuietHours(new Date("2026-04-07T01:00:00Z"), TZ, QUIET)).toBe(true);
+    expect(isWithinQuietHours(new Date("2026-04-06T06:30:00Z"), TZ, QUIET)).toBe(false);
+  });
+
+  it("handles same-day windows and ignores incomplete settings", () => {
+    const lunch = { start: "12:00", end: "13:00" };
+    expect(isWithinQuietHours(new Date("2026-04-06T06:45:00Z"), TZ, lunch)).toBe(true);
+    expect(isWithinQuietHours(new Date("2026-04-06T07:30:00Z"), TZ, lunch)).toBe(false);
+    expect(isWithinQuietHours(new Date("2026-04-06T17:30:00Z"), TZ, { start: "22:00", end: null })).toBe(false);
+  });
+
+  it("ends at the next local end time", () => {
+    const end = quietHoursEndAt(new Date("2026-04-06T17:30:20Z"), TZ, QUIET);
+    expect(end?.toISOString()).toBe("2026-04-07T01:30:00.000Z");
+    expect(quietHoursEndAt(new Date("2026-04-06T06:30:00Z"), TZ, QUIET)).toBeNull();
+  });
+});
+
+describe("planDelivery", () => {
+  const night = new Date("2026-04-06T17:30:00Z");
+  const day = new Date("2026-04-06T06:30:00Z");
+
+  it("sends urgent notifications immediately, even in quiet hours with a digest", () => {
+    expect(planDelivery({ priority: "urgent", now: night, timeZone: TZ, quietHours: QUIET, digestFrequency: "daily" }))
+      .toEqual({ mode: "now" });
+  });
+
+  it("holds non-urgent notifications for the digest", () => {
+    expect(planDelivery({ priority: "normal", now: day, timeZone: TZ, quietHours: QUIET, digestFrequency: "weekly" }))
+      .toEqual({ mode: "digest" });
+  });
+
+  it("defers until quiet hours end, otherwise sends now", () => {
+    expect(planDelivery({ priority: "normal", now: night, timeZone: TZ, quietHours: QUIET, digestFrequency: "off" }))
+      .toEqual({ mode: "deferred", notBefore: new Date("2026-04-07T01:30:00Z") });
+    expect(planDelivery({ priority: "normal", now: day, timeZone: TZ, quietHours: QUIET, digestFrequency: "off" }))
+      .toEqual({ mode: "now" });
+  });
+});
+
+describe("isDigestDue", () => {
+  // Monday 2026-04-06, 09:30 IST
+  const mondayMorning = new Date("2026-04-06T04:00:00Z");
+
+  it("waits for the local digest hour", () => {
+    expect(isDigestDue({ now: new Date("2026-04-06T03:00:00Z"), timeZone: TZ, frequency: "daily", digestHour: 9, lastDigestAt: null })).toBe(false);
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "daily", digestHour: 9, lastDigestAt: null })).toBe(true);
+  });
+
+  it("sends a daily digest once per local day", () => {
+    const sentToday = new Date("2026-04-06T03:45:00Z");
+    const sentYesterday = new Date("2026-04-05T03:45:00Z");
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "daily", digestHour: 9, lastDigestAt: sentToday })).toBe(false);
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "daily", digestHour: 9, lastDigestAt: sentYesterday })).toBe(true);
+  });
+
+  it("sends weekly digests on Mondays only", () => {
+    const lastWeek = new Date("2026-03-30T04:00:00Z");
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "weekly", digestHour: 9, lastDigestAt: lastWeek })).toBe(true);
+    expect(isDigestDue({ now: new Date("2026-04-07T04:00:00Z"), timeZone: TZ, frequency: "weekly", digestHour: 9, lastDigestAt: lastWeek })).toBe(false);
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "weekly", digestHour: 9, lastDigestAt: new Date("2026-04-06T03:45:00Z") })).toBe(false);
+  });
+
+  it("is never due when switched off", () => {
+    expect(isDigestDue({ now: mondayMorning, timeZone: TZ, frequency: "off", digestHour: 0, lastDigestAt: null })).toBe(false);
+  });
+});
+
+describe("renderDigestEmail", () => {
+  it("lists every held notification with absolute links", () => {
+    const email = renderDigestEmail({
+      items: [
+        { title: "New offer <Sunburn>", body: "Offer received", actionUrl: "/bookings?bookingId=4" },
+        { title: "Payment received", body: "Deposit paid" },
+      ],
+      frequency: "daily",
+      baseUrl: "https://app.bandwidth.in",
+      recipientName: "Asha",
+    });
+    expect(email.subject).toBe("Your daily BANDWIDTH digest: 2 updates");
+    expect(email.html).toContain("New offer &lt;Sunburn&gt;");
+    expect(email.html).toContain("https://app.bandwidth.in/bookings?bookingId=4");
+    expect(email.text).toContain("• Payment received");
+    expect(email.text).toContain("Hi Asha,");
+  });
+});
+
+describe("typeAppliesToRole", () => {
+  it("treats empty and 'all' target roles as everyone", () => {
+    expect(typeAppliesToRole([], "artist")).toBe(true);
+    expect(typeAppliesToRole(["all"], "venue")).toBe(true);
+  });
+
+  it("matches role aliases", () => {
+    expect(typeAppliesToRole(["promoter"], "organizer")).toBe(true);
+    expect(typeAppliesToRole(["venue_manager"], "venue")).toBe(true);
+    expect(typeAppliesToRole(["artist"], "organizer")).toBe(false);
+  });
+});
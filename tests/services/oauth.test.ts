@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { generateKeyPairSync, sign, type KeyObject } from "crypto";
+import {
+  buildAuthorizationUrl,
+  decideOAuthSignIn,
+  idTokenClaimsError,
+  identityFromClaims,
+  oauthLinkError,
+  oauthStateError,
+  pkceChallenge,
+  safeNextPath,
+  unlinkError,
+  withQueryParam,
+  type ExternalIdentity,
+  type OAuthState,
+} from "../../server/oauth-utils";
+import { OidcProvider, identityProvidersFromEnv } from "../../server/services/identity-providers";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const NOW_S = Math.floor(NOW.getTime() / 1000);
+
+const verifiedAccount = { id: 9, emailVerified: true, status: "active" };
+
+function identity(overrides: Partial<ExternalIdentity> = {}): ExternalIdentity {
+  return { subject: "sub-1", email: "ana@example.com", emailVerified: true, name: "Ana", picture: null, ...overrides };
+}
+
+describe("authorization request", () => {
+  it("computes the RFC 7636 S256 challenge", () => {
+    expect(pkceChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+
+  it("builds a code flow URL with PKCE and nonce", () => {
+    const url = new URL(buildAuthorizationUrl("https://idp.example/authorize?tenant=a", {
+      clientId: "client",
+      redirectUri: "http://localhost:5000/api/auth/oauth/oidc/callback",
+      scope: "openid email",
+      state: "st",
+      nonce: "nn",
+      codeVerifier: "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk",
+    }));
+    expect(url.searchParams.get("tenant")).toBe("a");
+    expect(url.searchParams.get("response_type")).toBe("code");
+    expect(url.searchParams.get("code_challenge")).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("nonce")).toBe("nn");
+    expect(url.searchParams.has("prompt")).toBe(false);
+  });
+
+  it("only follows same-site next paths", () => {
+    expect(safeNextPath("/profile?tab=1", "/dashboard")).toBe("/profile?tab=1");
+    expect(safeNextPath("//evil.example", "/dashboard")).toBe("/dashboard");
+    expect(safeNextPath("https://evil.example", "/dashboard")).toBe("/dashboard");
+    expect(safeNextPath("/\\evil.example", "/dashboard")).toBe("/dashboard");
+    expect(safeNextPath(undefined, "/dashboard")).toBe("/dashboard");
+  });
+
+  it("appends query parameters", () => {
+    expect(withQueryParam("/profile", "linked", "google")).toBe("/profile?linked=google");
+    expect(withQueryParam("/profile?tab=1#top", "oauthError", "a b")).toBe("/profile?tab=1&oauthError=a%20b#top");
+  });
+
+  it("accepts only the state it issued, before it expires", () => {
+    const saved: OAuthState = {
+      provider: "google", mode: "login", state: "st", nonce: "nn", codeVerifier: "cv", next: "/dashboard",
+      expiresAt: NOW.getTime() + 1000,
+    };
+    expect(oauthStateError(saved, "google", "st", NOW)).toBeNull();
+    expect(oauthStateError(saved, "google", "other", NOW)).toMatch(/not recognised/);
+    expect(oauthStateError(saved, "oidc", "st", NOW)).toMatch(/not recognised/);
+    expect(oauthStateError(undefined, "google", "st", NOW)).toMatch(/not recognised/);
+    expect(oauthStateError(saved, "google", "st", new Date(NOW.getTime() + 1000))).toMatch(/expired/);
+  });
+});
+
+describe("ID token claims", () => {
+  const expected = { issuers: ["https://idp.example"], clientId: "client", nonce: "nn" };
+  const claims = { iss: "https://idp.example", aud: "client", sub: "sub-1", exp: NOW_S + 300, iat: NOW_S, nonce: "nn" };
+
+  it("accepts matching claims", () => {
+    expect(idTokenClaimsError(claims, expected, NOW)).toBeNull();
+    expect(idTokenClaimsError({ ...claims, aud: ["client", "other"], azp: "client" }, expected, NOW)).toBeNull();
+  });
+
+  it("rejects the wrong issuer, audience or nonce", () => {
+    expect(idTokenClaimsError({ ...claims, iss: "https://evil.example" }, expected, NOW)).toMatch(/issuer/);
+    expect(idTokenClaimsError({ ...claims, aud: "other" }, expected, NOW)).toMatch(/audience/);
+    expect(idTokenClaimsError({ ...claims, aud: ["client", "other"] }, expected, NOW)).toMatch(/authorized party/);
+    expect(idTokenClaimsError({ ...claims, nonce: "replayed" }, expected, NOW)).toMatch(/nonce/);
+  });
+
+  it("rejects expired and future tokens, allowing clock skew", () => {
+    expect(idTokenClaimsError({ ...claims, exp: NOW_S - 30 }, expected, NOW)).toBeNull();
+    expect(idTokenClaimsError({ ...claims, exp: NOW_S - 120 }, expected, NOW)).toMatch(/expired/);
+    expect(idTokenClaimsError({ ...claims, iat: NOW_S + 600 }, expected, NOW)).toMatch(/future/);
+  });
+
+  it("only trusts verified emails", () => {
+    expect(identityFromClaims({ sub: "1", email: "a@b.c", email_verified: true }).emailVerified).toBe(true);
+    expect(identityFromClaims({ sub: "1", email: "a@b.c", email_verified: "true" }).emailVerified).toBe(true);
+    expect(identityFromClaims({ sub: "1", email: "a@b.c" }).emailVerified).toBe(false);
+    expect(identityFromClaims({ sub: "1", email_verified: true })).toMatchObject({ email: null, emailVerified: false });
+  });
+});
+
+describe("account matching", () => {
+  it("signs in through an existing link", () => {
+    expect(decideOAuthSignIn(identity({ emailVerified: false }), "Google", { id: 7, status: "active" }, null))
+      .toEqual({ action: "sign_in", userId: 7 });
+  });
+
+  it("refuses to sign in suspended or deleted accounts through an existing link", () => {
+    const suspended = decideOAuthSignIn(identity(), "Google", { id: 7, status: "suspended" }, null);
+    expect(suspended.action === "reject" && suspended.reason).toMatch(/not active/);
+    expect(decideOAuthSignIn(identity(), "Google", { id: 7, status: "deleted" }, null)).toMatchObject({ action: "reject" });
+  });
+
+  it("links by verified email", () => {
+    expect(decideOAuthSignIn(identity(), "Google", null, verifiedAccount)).toEqual({ action: "link_and_sign_in", userId: 9 });
+  });
+
+  it("refuses to link an account that never verified the email", () => {
+    const decision = decideOAuthSignIn(identity(), "Google", null, { ...verifiedAccount, emailVerified: false });
+    expect(decision.action === "reject" && decision.reason).toMatch(/Sign in with your password and link Google/);
+  });
+
+  it("refuses to link suspended or deleted accounts", () => {
+    expect(decideOAuthSignIn(identity(), "Google", null, { ...verifiedAccount, status: "suspended" })).toMatchObject({ action: "reject" });
+    expect(decideOAuthSignIn(identity(), "Google", null, { ...verifiedAccount, status: "deleted" })).toMatchObject({ action: "reject" });
+  });
+
+  it("refuses unverified, missing or unknown emails", () => {
+    expect(decideOAuthSignIn(identity({ emailVerified: false }), "Google", null, verifiedAccount)).toMatchObject({ action: "reject" });
+    expect(decideOAuthSignIn(identity({ email: null, emailVerified: false }), "Google", null, null)).toMatchObject({ action: "reject" });
+    const unknown = decideOAuthSignIn(identity(), "Google", null, null);
+    expect(unknown.action === "reject" && unknown.reason).toMatch(/No account uses ana@example.com/);
+  });
+
+  it("refuses identities linked to someone else", () => {
+    expect(oauthLinkError(1, null, "Google")).toBeNull();
+    expect(oauthLinkError(1, 1, "Google")).toBeNull();
+    expect(oauthLinkError(1, 2, "Google")).toMatch(/another user/);
+  });
+
+  it("keeps a way to sign in", () => {
+    expect(unlinkError(true, 1)).toBeNull();
+    expect(unlinkError(false, 2)).toBeNull();
+    expect(unlinkError(false, 1)).toMatch(/Set a password/);
+  });
+});
+
+describe("identity provider configuration", () => {
+  it("registers Google and a generic OIDC provider from the environment", () => {
+    const configured = identityProvidersFromEnv({
+      GOOGLE_CLIENT_ID: "g", GOOGLE_CLIENT_SECRET: "gs",
+      OIDC_ISSUER: "http://127.0.0.1:9000", OIDC_CLIENT_ID: "o", OIDC_CLIENT_SECRET: "os", OIDC_PROVIDER_LABEL: "Acme SSO",
+    });
+    expect(configured.map((p) => [p.name, p.label])).toEqual([["google", "Google"], ["oidc", "Acme SSO"]]);
+    expect(identityProvidersFromEnv({ GOOGLE_CLIENT_ID: "g" })).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Mock OpenID Connect issuer
+// ---------------------------------------------------------------------------
+
+interface PendingCode {
+  challenge: string;
+  claims: Record<string, unknown>;
+}
+
+class MockIssuer {
+  server: Server = createServer((req, res) => this.handle(req, res));
+  issuer = "";
+  kid = "key-1";
+  private privateKey!: KeyObject;
+  private jwk!: Record<string, unknown>;
+  codes = new Map<string, PendingCode>();
+  jwksRequests = 0;
+  /** Lets a test tamper with the token the issuer returns */
+  mutateToken: (token: string) => string = (token) => token;
+
+  async start() {
+    this.rotateKey();
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  rotateKey() {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    this.privateKey = privateKey;
+    this.kid = `key-${Date.now()}-${Math.random()}`;
+    this.jwk = { ...publicKey.export({ format: "jwk" }), kid: this.kid, use: "sig", alg: "ES256" };
+  }
+
+  /** What the browser would bring back after signing in at the issuer */
+  issueCode(authorizationUrl: string, claims: Record<string, unknown>): string {
+    const url = new URL(authorizationUrl);
+    const code = `code-${this.codes.size + 1}`;
+    this.codes.set(code, {
+      challenge: url.searchParams.get("code_challenge")!,
+      claims: {
+        iss: this.issuer,
+        aud: url.searchParams.get("client_id"),
+        nonce: url.searchParams.get("nonce"),
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 300,
+        ...claims,
+      },
+    });
+    return code;
+  }
+
+  private signToken(claims: Record<string, unknown>): string {
+    const header = Buffer.from(JSON.stringify({ alg: "ES256", kid: this.kid, typ: "JWT" })).toString("base64url");
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    const signature = sign("sha256", Buffer.from(`${header}.${payload}`), { key: this.privateKey, dsaEncoding: "ieee-p1363" });
+    return `${header}.${payload}.${signature.toString("base64url")}`;
+  }
+
+  private handle(req: import("http").IncomingMessage, res: import("http").ServerResponse) {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    if (req.url === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+    if (req.url === "/jwks") {
+      this.jwksRequests++;
+      return json(200, { keys: [this.jwk] });
+    }
+    if (req.url === "/token" && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", () => {
+        const form = new URLSearchParams(body);
+        const pending = this.codes.get(form.get("code") || "");
+        this.codes.delete(form.get("code") || "");
+        if (!pending || form.get("client_secret") !== "secret" || pkceChallenge(form.get("code_verifier") || "") !== pending.challenge) {
+          return json(400, { error: "invalid_grant" });
+        }
+        json(200, { access_token: "at", token_type: "Bearer", id_token: this.mutateToken(this.signToken(pending.claims)) });
+      });
+      return;
+    }
+    json(404, { error: "not_found" });
+  }
+}
+
+describe("OidcProvider against a mock issuer", () => {
+  const issuer = new MockIssuer();
+  let provider: OidcProvider;
+  const redirectUri = "http://localhost:5000/api/auth/oauth/mock/callback";
+  const request = { redirectUri, state: "st", nonce: "nonce-1", codeVerifier: "verifier-abcdefghijklmnopqrstuvwxyz-0123456789" };
+
+  beforeAll(async () => {
+    await issuer.start();
+    provider = new OidcProvider({ name: "mock", label: "Mock SSO", issuer: issuer.issuer, clientId: "client", clientSecret: "secret" });
+  });
+
+  afterAll(() => issuer.stop());
+
+  async function signIn(claims: Record<string, unknown>, overrides: Partial<typeof request> = {}) {
+    const url = await provider.authorizationUrl(request);
+    const code = issuer.issueCode(url, claims);
+    return provider.exchangeCode({ code, redirectUri, nonce: request.nonce, codeVerifier: request.codeVerifier, ...overrides });
+  }
+
+  it("completes the code flow and returns the verified identity", async () => {
+    const url = new URL(await provider.authorizationUrl(request));
+    expect(url.origin + url.pathname).toBe(`${issuer.issuer}/authorize`);
+    expect(url.searchParams.get("redirect_uri")).toBe(redirectUri);
+    expect(url.searchParams.get("scope")).toBe("openid email profile");
+
+    const result = await signIn({ sub: "user-42", email: "ana@example.com", email_verified: true, name: "Ana" });
+    expect(result).toEqual({ subject: "user-42", email: "ana@example.com", emailVerified: true, name: "Ana", picture: null });
+  });
+
+  it("fails when the code verifier does not match the challenge", async () => {
+    await expect(signIn({ sub: "user-42" }, { codeVerifier: "someone-elses-verifier" })).rejects.toThrow(/400/);
+  });
+
+  it("rejects a token for another nonce", async () => {
+    await expect(signIn({ sub: "user-42" }, { nonce: "nonce-2" })).rejects.toThrow("ID token nonce mismatch");
+  });
+
+  it("rejects a tampered token", async () => {
+    issuer.mutateToken = (token) => {
+      const [header, , signature] = token.split(".");
+      const forged = Buffer.from(JSON.stringify({ sub: "admin", iss: issuer.issuer, aud: "client", nonce: request.nonce, exp: 9999999999 })).toString("base64url");
+      return `${header}.${forged}.${signature}`;
+    };
+    try {
+      await expect(signIn({ sub: "user-42" })).rejects.toThrow("ID token signature is invalid");
+    } finally {
+      issuer.mutateToken = (token) => token;
+    }
+  });
+
+  it("refetches signing keys after the issuer rotates them", async () => {
+    const before = issuer.jwksRequests;
+    issuer.rotateKey();
+    await expect(signIn({ sub: "user-42" })).resolves.toMatchObject({ subject: "user-42" });
+    expect(issuer.jwksRequests).toBe(before + 1);
+  });
+});
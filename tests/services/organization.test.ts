@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  INVITE_TTL_DAYS,
+  accessForRole,
+  bookingSides,
+  canInviteRole,
+  generateInviteToken,
+  hasOrganizationRole,
+  hashInviteToken,
+  inviteAcceptError,
+  inviteExpiry,
+  inviteState,
+  isOrganizationRole,
+  lastOwnerError,
+  organizationSlug,
+  partiesHaveOrganization,
+  profileAccess,
+} from "../../server/organization-utils";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const ORG = 7;
+
+describe("member roles", () => {
+  it("ranks owner above manager above viewer", () => {
+    expect(hasOrganizationRole("owner", "manager")).toBe(true);
+    expect(hasOrganizationRole("manager", "manager")).toBe(true);
+    expect(hasOrganizationRole("viewer", "manager")).toBe(false);
+    expect(hasOrganizationRole(null, "viewer")).toBe(false);
+  });
+
+  it("lets owners and managers act and viewers only view", () => {
+    expect(accessForRole("owner")).toBe("act");
+    expect(accessForRole("manager")).toBe("act");
+    expect(accessForRole("viewer")).toBe("view");
+    expect(accessForRole(undefined)).toBeNull();
+  });
+
+  it("only lets owners invite owners", () => {
+    expect(canInviteRole("owner", "owner")).toBe(true);
+    expect(canInviteRole("manager", "owner")).toBe(false);
+    expect(canInviteRole("manager", "viewer")).toBe(true);
+    expect(canInviteRole("viewer", "viewer")).toBe(false);
+  });
+
+  it("recognizes role names", () => {
+    expect(isOrganizationRole("manager")).toBe(true);
+    expect(isOrganizationRole("admin")).toBe(false);
+  });
+});
+
+describe("lastOwnerError", () => {
+  const members = [
+    { userId: 1, role: "owner" as const },
+    { userId: 2, role: "manager" as const },
+  ];
+
+  it("blocks demoting or removing the last owner", () => {
+    expect(lastOwnerError(members, 1, "manager")).toBe("An organization must keep at least one owner");
+    expect(lastOwnerError(members, 1, null)).toBe("An organization must keep at least one owner");
+  });
+
+  it("allows it once there is another owner", () => {
+    expect(lastOwnerError([...members, { userId: 3, role: "owner" }], 1, null)).toBeNull();
+  });
+
+  it("ignores changes to other members", () => {
+    expect(lastOwnerError(members, 2, null)).toBeNull();
+    expect(lastOwnerError(members, 1, "owner")).toBeNull();
+  });
+});
+
+describe("invites", () => {
+  it("stores only a hash of the token", () => {
+    const { token, tokenHash } = generateInviteToken();
+    expect(token).not.toBe(tokenHash);
+    expect(hashInviteToken(token)).toBe(tokenHash);
+    expect(generateInviteToken().token).not.toBe(token);
+  });
+
+  it("expires after the TTL", () => {
+    const expiresAt = inviteExpiry(NOW);
+    expect(expiresAt.getTime() - NOW.getTime()).toBe(INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    expect(inviteState({ status: "pending", expiresAt }, NOW)).toBe("pending");
+    expect(inviteState({ status: "pending", expiresAt }, new Date(expiresAt.getTime() + 1))).toBe("expired");
+  });
+
+  it("reports accepted and revoked invites before expiry", () => {
+    const past = new Date(NOW.getTime() - 1000);
+    expect(inviteState({ status: "accepted", expiresAt: past }, NOW)).toBe("accepted");
+    expect(inviteState({ status: "revoked", expiresAt: past }, NOW)).toBe("revoked");
+  });
+
+  it("only accepts a live invite for the invited email", () => {
+    const invite = { status: "pending", expiresAt: inviteExpiry(NOW), email: "asha@agency.in" };
+    expect(inviteAcceptError(invite, " Asha@Agency.in ", NOW)).toBeNull();
+    expect(inviteAcceptError(invite, "ravi@agency.in", NOW)).toBe("This invite was sent to a different email address");
+    expect(inviteAcceptError({ ...invite, status: "accepted" }, "asha@agency.in", NOW)).toBe("This invite has already been used");
+    expect(inviteAcceptError({ ...invite, expiresAt: NOW }, "asha@agency.in", NOW)).toBe("This invite has expired");
+  });
+});
+
+describe("profile access", () => {
+  const orgArtist = { userId: 10, organizationId: ORG };
+  const soloArtist = { userId: 10, organizationId: null };
+
+  it("gives the profile's own user full access", () => {
+    expect(profileAccess(10, soloArtist, new Map())).toBe("act");
+  });
+
+  it("gives organization members access by role", () => {
+    expect(profileAccess(20, orgArtist, new Map([[ORG, "manager"]]))).toBe("act");
+    expect(profileAccess(20, orgArtist, new Map([[ORG, "viewer"]]))).toBe("view");
+    expect(profileAccess(20, orgArtist, new Map([[99, "owner"]]))).toBeNull();
+    expect(profileAccess(20, soloArtist, new Map([[ORG, "owner"]]))).toBeNull();
+  });
+});
+
+describe("bookingSides", () => {
+  const parties = {
+    artist: { userId: 10, organizationId: ORG },
+    organizer: { userId: 20, organizationId: null },
+    venue: { userId: 30, organizationId: null },
+  };
+
+  it("puts the party's own users on their side", () => {
+    expect(bookingSides(10, parties, new Map())).toEqual(["artist"]);
+    expect(bookingSides(20, parties, new Map())).toEqual(["organizer"]);
+    expect(bookingSides(30, parties, new Map())).toEqual(["organizer"]);
+    expect(bookingSides(40, parties, new Map())).toEqual([]);
+  });
+
+  it("lets managers of the artist's organization act for the artist", () => {
+    expect(bookingSides(40, parties, new Map([[ORG, "manager"]]))).toEqual(["artist"]);
+  });
+
+  it("only admits viewers when view access is enough", () => {
+    const viewer = new Map([[ORG, "viewer" as const]]);
+    expect(bookingSides(40, parties, viewer)).toEqual([]);
+    expect(bookingSides(40, parties, viewer, "view")).toEqual(["artist"]);
+  });
+
+  it("lists both sides for a user on both, artist first", () => {
+    expect(bookingSides(20, parties, new Map([[ORG, "owner"]]))).toEqual(["artist", "organizer"]);
+  });
+
+  it("only needs memberships when a party belongs to an organization", () => {
+    expect(partiesHaveOrganization(parties)).toBe(true);
+    expect(partiesHaveOrganization({ artist: { userId: 1, organizationId: null }, organizer: null })).toBe(false);
+  });
+});
+
+describe("organizationSlug", () => {
+  it("slugs the name", () => {
+    expect(organizationSlug("  Night & Day Agency! ", () => false)).toBe("night-and-day-agency");
+    expect(organizationSlug("!!!", () => false)).toBe("organization");
+  });
+
+  it("adds a suffix when the slug is taken", () => {
+    const taken = new Set(["wavelength", "wavelength-2"]);
+    expect(organizationSlug("Wavelength", (s) => taken.has(s))).toBe("wavelength-3");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  OUTBOX_RETRY_BASE_DELAY_MS,
+  OUTBOX_RETRY_MAX_DELAY_MS,
+  outboxRetryDelayMs,
+  outboxStateAfterDispatch,
+  pendingConsumers,
+} from "../../server/outbox-utils";
+
+const now = new Date("2026-04-06T10:00:00Z");
+
+describe("pendingConsumers", () => {
+  it("skips consumers that already handled the event", () => {
+    expect(pendingConsumers(["notifications", "search"], ["notifications"])).toEqual(["search"]);
+  });
+
+  it("ignores consumptions recorded by consumers no longer registered", () => {
+    expect(pendingConsumers(["notifications"], ["legacy"])).toEqual(["notifications"]);
+  });
+});
+
+describe("outboxRetryDelayMs", () => {
+  it("doubles from thirty seconds up to an hour", () => {
+    expect(outboxRetryDelayMs(1)).toBe(OUTBOX_RETRY_BASE_DELAY_MS);
+    expect(outboxRetryDelayMs(3)).toBe(4 * OUTBOX_RETRY_BASE_DELAY_MS);
+    expect(outboxRetryDelayMs(30)).toBe(OUTBOX_RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe("outboxStateAfterDispatch", () => {
+  it("marks the event dispatched when every consumer succeeded", () => {
+    expect(outboxStateAfterDispatch({ attempts: 2, maxAttempts: 10, failures: [], now })).toEqual({
+      status: "dispatched",
+      attempts: 2,
+      lastError: null,
+    });
+  });
+
+  it("retries with backoff and records which consumer failed", () => {
+    const next = outboxStateAfterDispatch({
+      attempts: 0,
+      maxAttempts: 10,
+      failures: [{ consumer: "notifications", error: "connection reset" }],
+      now,
+    });
+    expect(next).toEqual({
+      status: "pending",
+      attempts: 1,
+      nextAttemptAt: new Date(now.getTime() + OUTBOX_RETRY_BASE_DELAY_MS),
+      lastError: "notifications: connection reset",
+    });
+  });
+
+  it("parks the event as failed after the last attempt", () => {
+    const next = outboxStateAfterDispatch({
+      attempts: 9,
+      maxAttempts: 10,
+      failures: [{ consumer: "a", error: "x" }, { consumer: "b", error: "y" }],
+      now,
+    });
+    expect(next).toEqual({ status: "failed", attempts: 10, lastError: "a: x; b: y" });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  REVIEW_CRITERIA,
+  REVIEW_WINDOW_DAYS,
+  aggregateRatings,
+  completionConfirmedAt,
+  overallRating,
+  requiredSubjectFor,
+  reviewSubjectsFor,
+  reviewWindowClosesAt,
+  shouldRevealReviews,
+  validateCriteriaRatings,
+} from "../../server/review-utils";
+
+const completedAt = new Date("2026-04-06T22:00:00Z");
+const closesAt = reviewWindowClosesAt(completedAt);
+
+describe("reviewSubjectsFor", () => {
+  it("lets the organizer review the artist only", () => {
+    expect(reviewSubjectsFor("organizer", true)).toEqual(["artist"]);
+  });
+
+  it("lets the artist review the organizer and, when there is one, the venue", () => {
+    expect(reviewSubjectsFor("artist", true)).toEqual(["organizer", "venue"]);
+    expect(reviewSubjectsFor("artist", false)).toEqual(["organizer"]);
+  });
+
+  it("requires each side to review the other party, not the venue", () => {
+    expect(requiredSubjectFor("artist")).toBe("organizer");
+    expect(requiredSubjectFor("organizer")).toBe("artist");
+  });
+});
+
+describe("validateCriteriaRatings", () => {
+  const full = { professionalism: 5, rider_compliance: 4, payment_timeliness: 3 };
+
+  it("accepts a score for every criterion of the subject", () => {
+    expect(validateCriteriaRatings("organizer", full)).toBeNull();
+  });
+
+  it("rejects missing criteria", () => {
+    expect(validateCriteriaRatings("organizer", { professionalism: 5, rider_compliance: 4 }))
+      .toBe("Missing rating for payment_timeliness");
+  });
+
+  it("rejects criteria that do not apply to the subject", () => {
+    expect(validateCriteriaRatings("artist", { ...full, punctuality: 4 })).toMatch(/Unknown criteria for artist: payment_timeliness/);
+  });
+
+  it("rejects scores outside 1-5 or fractional scores", () => {
+    expect(validateCriteriaRatings("organizer", { ...full, professionalism: 0 })).toMatch(/professionalism/);
+    expect(validateCriteriaRatings("organizer", { ...full, professionalism: 4.5 })).toMatch(/whole number/);
+  });
+
+  it("scores payment timeliness only when the artist reviews the organizer", () => {
+    expect(REVIEW_CRITERIA.organizer).toContain("payment_timeliness");
+    expect(REVIEW_CRITERIA.artist).not.toContain("payment_timeliness");
+    expect(REVIEW_CRITERIA.venue).not.toContain("payment_timeliness");
+  });
+});
+
+describe("overallRating", () => {
+  it("averages the criteria to two decimals", () => {
+    expect(overallRating({ punctuality: 5, professionalism: 4, rider_compliance: 4 })).toBe(4.33);
+  });
+});
+
+describe("aggregateRatings", () => {
+  it("is zero with no published reviews", () => {
+    expect(aggregateRatings([])).toEqual({ ratingAvg: "0", ratingCount: 0 });
+  });
+
+  it("averages overall ratings as a numeric(3,2) string", () => {
+    expect(aggregateRatings([4.33, 5, 3])).toEqual({ ratingAvg: "4.11", ratingCount: 3 });
+  });
+});
+
+describe("shouldRevealReviews", () => {
+  const before = new Date(completedAt.getTime() + 24 * 60 * 60 * 1000);
+  const after = new Date(closesAt.getTime() + 1000);
+
+  it("closes the window REVIEW_WINDOW_DAYS after completion", () => {
+    expect(closesAt.getTime() - completedAt.getTime()).toBe(REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it("reveals as soon as both sides have submitted", () => {
+    expect(shouldRevealReviews({ artistSubmitted: true, organizerSubmitted: true, windowClosesAt: closesAt, now: before })).toBe(true);
+  });
+
+  it("keeps a single review sealed while the window is open", () => {
+    expect(shouldRevealReviews({ artistSubmitted: true, organizerSubmitted: false, windowClosesAt: closesAt, now: before })).toBe(false);
+  });
+
+  it("reveals a single review once the window closes", () => {
+    expect(shouldRevealReviews({ artistSubmitted: false, organizerSubmitted: true, windowClosesAt: closesAt, now: after })).toBe(true);
+  });
+
+  it("has nothing to reveal when nobody reviewed", () => {
+    expect(shouldRevealReviews({ artistSubmitted: false, organizerSubmitted: false, windowClosesAt: closesAt, now: after })).toBe(false);
+  });
+});
+
+describe("completionConfirmedAt", () => {
+  it("is the later of the two confirmations", () => {
+    const meta = {
+      completionFeedback: {
+        organizer: { confirmedAt: "2026-04-06T22:00:00.000Z" },
+        artist: { confirmedAt: "2026-04-07T09:30:00.000Z" },
+      },
+    };
+    expect(completionConfirmedAt(meta)).toEqual(new Date("2026-04-07T09:30:00.000Z"));
+  });
+
+  it("is null until both sides have confirmed", () => {
+    expect(completionConfirmedAt({ completionFeedback: { organizer: { confirmedAt: "2026-04-06T22:00:00.000Z" } } })).toBeNull();
+    expect(completionConfirmedAt(null)).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import {
+  SEARCH_MAX_PAGE_SIZE,
+  SEARCH_PAGE_SIZE,
+  buildArtistDocument,
+  buildEventDocument,
+  buildSnippet,
+  buildVenueDocument,
+  clampPageSize,
+  containsPattern,
+  decodeCursor,
+  encodeCursor,
+  genreLineageNames,
+  highlightSegments,
+  matchGenreIds,
+  paginate,
+  parseIdQuery,
+  searchResultUrl,
+  searchScopeFor,
+  searchTerms,
+  splitFilterList,
+  toPrefixTsQuery,
+} from "../../server/search-utils";
+
+const genreRows = [
+  { id: 1, name: "House", slug: "house", parentId: null },
+  { id: 2, name: "Deep House", slug: "deep-house", parentId: 1 },
+  { id: 3, name: "Drum & Bass", slug: "drum-and-bass", parentId: null },
+  { id: 4, name: "Techno", slug: "techno", parentId: null },
+];
+
+describe("query parsing", () => {
+  it("turns each word into a prefix term", () => {
+    expect(toPrefixTsQuery("  Tech   Hou ")).toBe("tech:* & hou:*");
+  });
+
+  it("strips tsquery operators and punctuation from terms", () => {
+    expect(searchTerms("rock & roll | (live)!:*")).toEqual(["rock", "roll", "live"]);
+    expect(toPrefixTsQuery("' & | !")).toBeNull();
+  });
+
+  it("keeps non-ASCII letters and drops repeated words", () => {
+    expect(searchTerms("Café café Zürich")).toEqual(["café", "zürich"]);
+  });
+
+  it("has no query for empty input", () => {
+    expect(toPrefixTsQuery("")).toBeNull();
+    expect(toPrefixTsQuery(undefined)).toBeNull();
+  });
+
+  it("splits comma-separated filter values", () => {
+    expect(splitFilterList("techno, house,,techno ")).toEqual(["techno", "house"]);
+    expect(splitFilterList(undefined)).toEqual([]);
+  });
+});
+
+describe("buildArtistDocument", () => {
+  it("puts genres, city and category in keywords and bio plus members in the body", () => {
+    const doc = buildArtistDocument({
+      name: "  The  Night Shift ",
+      bio: "Four-piece from Goa.",
+      isBand: true,
+      members: [{ name: "Asha" }, "Ravi", { role: "drums" }],
+      genres: ["Deep House", "House"],
+      city: "Goa",
+      category: "mid_scale",
+    });
+    expect(doc).toEqual({
+      title: "The Night Shift",
+      keywords: "Deep House House Goa mid scale band",
+      body: "Four-piece from Goa.\nAsha\nRavi",
+    });
+  });
+
+  it("handles a bare profile", () => {
+    expect(buildArtistDocument({ name: "DJ Nova", genres: [] })).toEqual({ title: "DJ Nova", keywords: "", body: "" });
+  });
+});
+
+describe("venue and event documents", () => {
+  it("keeps a venue's city and amenities as keywords", () => {
+    expect(buildVenueDocument({ name: "Blue Frog", description: " Live room ", city: "Mumbai", amenities: ["PA", 3, "Green room"] }))
+      .toEqual({ title: "Blue Frog", keywords: "Mumbai PA Green room", body: "Live room" });
+  });
+
+  it("keeps an event's venue, city, organizer and genres as keywords", () => {
+    expect(buildEventDocument({ title: "Sunburn  Arena", venueName: "Mahalaxmi", city: "Mumbai", organizerName: "Percept", genres: ["EDM"] }))
+      .toEqual({ title: "Sunburn Arena", keywords: "Mahalaxmi Mumbai Percept EDM", body: "" });
+  });
+});
+
+describe("genres", () => {
+  it("matches profile genre names to genre rows by name or slug", () => {
+    expect(matchGenreIds(["deep house", "Drum and Bass", "Techno", "Polka", null], genreRows)).toEqual([2, 3, 4]);
+  });
+
+  it("adds parent genres after the artist's own", () => {
+    expect(genreLineageNames([2, 4], genreRows)).toEqual(["Deep House", "Techno", "House"]);
+  });
+
+  it("stops on a cycle in the genre tree", () => {
+    const cyclic = [{ id: 1, name: "A", parentId: 2 }, { id: 2, name: "B", parentId: 1 }];
+    expect(genreLineageNames([1], cyclic)).toEqual(["A", "B"]);
+  });
+});
+
+describe("cursors", () => {
+  it("round-trips a cursor for the same sort", () => {
+    const cursor = encodeCursor({ sort: "fee_asc", key: "15000.00", id: 42 });
+    expect(decodeCursor(cursor, "fee_asc")).toEqual({ sort: "fee_asc", key: "15000.00", id: 42 });
+  });
+
+  it("rejects a cursor from another sort", () => {
+    const cursor = encodeCursor({ sort: "rating", key: "4.5", id: 7 });
+    expect(decodeCursor(cursor, "relevance")).toBeNull();
+  });
+
+  it("rejects tampered or malformed cursors", () => {
+    const injected = Buffer.from(JSON.stringify(["rating", "1; drop table artists", 7])).toString("base64url");
+    expect(decodeCursor(injected, "rating")).toBeNull();
+    expect(decodeCursor("not-a-cursor", "rating")).toBeNull();
+  });
+
+  it("returns a next cursor only when there is another page", () => {
+    const rows = [1, 2, 3].map((id) => ({ id, sortKey: `${10 - id}` }));
+    const full = paginate(rows, 2, "rating");
+    expect(full.page.map((r) => r.id)).toEqual([1, 2]);
+    expect(decodeCursor(full.nextCursor!, "rating")).toEqual({ sort: "rating", key: "8", id: 2 });
+    expect(paginate(rows, 3, "rating").nextCursor).toBeNull();
+  });
+
+  it("clamps the page size", () => {
+    expect(clampPageSize(undefined)).toBe(SEARCH_PAGE_SIZE);
+    expect(clampPageSize(500)).toBe(SEARCH_MAX_PAGE_SIZE);
+    expect(clampPageSize(0)).toBe(SEARCH_PAGE_SIZE);
+  });
+});
+
+describe("global search scope", () => {
+  it("gives artists public events and venues", () => {
+    expect(searchScopeFor("artist")).toEqual(["event", "venue"]);
+  });
+
+  it("gives organizers and venue managers artists and venues", () => {
+    expect(searchScopeFor("organizer")).toEqual(["artist", "venue"]);
+    expect(searchScopeFor("venue_manager")).toEqual(["artist", "venue"]);
+  });
+
+  it("gives admins every type, including users and bookings", () => {
+    expect(searchScopeFor("platform_admin")).toEqual(["artist", "venue", "event", "organizer", "user", "booking"]);
+  });
+
+  it("falls back to public events for other roles", () => {
+    expect(searchScopeFor(undefined)).toEqual(["event"]);
+  });
+
+  it("reads id lookups", () => {
+    expect(parseIdQuery(" #42 ")).toBe(42);
+    expect(parseIdQuery("42")).toBe(42);
+    expect(parseIdQuery("#0")).toBeNull();
+    expect(parseIdQuery("42 techno")).toBeNull();
+  });
+
+  it("escapes wildcards in contains patterns", () => {
+    expect(containsPattern("50%_off")).toBe("%50\\%\\_off%");
+  });
+
+  it("links results to the admin pages for admins and to role pages otherwise", () => {
+    expect(searchResultUrl("booking", 9, "Booking #9", "admin")).toBe("/admin/bookings/9");
+    expect(searchResultUrl("artist", 3, "DJ Nova", "organizer")).toBe("/organizer/discover?q=DJ%20Nova");
+    expect(searchResultUrl("venue", 5, "Blue Frog", "organizer")).toBe("/organizer/discover?tab=venues&q=Blue%20Frog");
+    expect(searchResultUrl("venue", 5, "Blue Frog", "artist")).toBe("/find-gigs?q=Blue%20Frog");
+    expect(searchResultUrl("event", 7, "Sunburn", "artist")).toBe("/events/7/tickets");
+  });
+});
+
+describe("highlights", () => {
+  it("marks terms at the start of words, case-insensitively", () => {
+    expect(highlightSegments("Tech House at Techno Club", ["tech"])).toEqual([
+      { text: "Tech", match: true },
+      { text: " House at ", match: false },
+      { text: "Tech", match: true },
+      { text: "no Club", match: false },
+    ]);
+  });
+
+  it("ignores matches inside words and prefers the longest term", () => {
+    expect(highlightSegments("Biotech house", ["tech", "ho", "house"])).toEqual([
+      { text: "Biotech ", match: false },
+      { text: "house", match: true },
+    ]);
+  });
+
+  it("returns short text whole", () => {
+    expect(buildSnippet("Late night jazz", ["jazz"])).toEqual([
+      { text: "Late night ", match: false },
+      { text: "jazz", match: true },
+    ]);
+    expect(buildSnippet("  ", ["jazz"])).toBeNull();
+  });
+
+  it("cuts long text around the first match at word boundaries", () => {
+    const text = `${"intro ".repeat(30)}the jazz quartet ${"outro ".repeat(30)}`;
+    const snippet = buildSnippet(text, ["jazz"], 60)!;
+    const joined = snippet.map((s) => s.text).join("");
+    expect(joined.startsWith("…intro")).toBe(true);
+    expect(joined.endsWith("outro…")).toBe(true);
+    expect(joined.length).toBeLessThanOrEqual(62);
+    expect(snippet.find((s) => s.match)?.text).toBe("jazz");
+  });
+
+  it("starts at the beginning when no term matches the body", () => {
+    const joined = buildSnippet("word ".repeat(50), ["jazz"], 30)!.map((s) => s.text).join("");
+    expect(joined.startsWith("word")).toBe(true);
+    expect(joined.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  capacityError,
+  checkInDecision,
+  currentTierPrice,
+  earlyBirdRemaining,
+  normalizeTicketCode,
+  orderTotal,
+  priceTickets,
+  tierConfigError,
+  tierRemaining,
+  tierSaleState,
+} from "../../server/ticketing-utils";
+
+const now = new Date("2026-05-01T12:00:00Z");
+const later = new Date("2026-05-10T12:00:00Z");
+const eventStart = new Date("2026-05-20T20:00:00Z");
+
+describe("tierSaleState", () => {
+  it("is on sale inside the window", () => {
+    expect(tierSaleState({ active: true }, now, eventStart)).toBe("on_sale");
+  });
+
+  it("has not started before salesStartAt", () => {
+    expect(tierSaleState({ active: true, salesStartAt: later }, now, eventStart)).toBe("not_started");
+  });
+
+  it("ends at salesEndAt, or at the event when the tier has no end", () => {
+    expect(tierSaleState({ active: true, salesEndAt: now }, now, eventStart)).toBe("ended");
+    expect(tierSaleState({ active: true }, eventStart, eventStart)).toBe("ended");
+  });
+
+  it("reports inactive tiers regardless of the window", () => {
+    expect(tierSaleState({ active: false }, now, eventStart)).toBe("inactive");
+  });
+});
+
+describe("tierConfigError", () => {
+  const base = { ticketType: "general", price: 1000, active: true };
+
+  it("accepts a plain tier", () => {
+    expect(tierConfigError(base)).toBeNull();
+  });
+
+  it("never sells guestlist places", () => {
+    expect(tierConfigError({ ...base, ticketType: "guestlist" })).toMatch(/guestlist/i);
+  });
+
+  it("needs a cutover for an early-bird price, and a price for a cutover", () => {
+    expect(tierConfigError({ ...base, earlyBirdPrice: 800 })).toMatch(/end date or an early-bird quota/);
+    expect(tierConfigError({ ...base, earlyBirdQuota: 50 })).toMatch(/Set an early-bird price/);
+    expect(tierConfigError({ ...base, earlyBirdPrice: 800, earlyBirdQuota: 50 })).toBeNull();
+  });
+
+  it("rejects an early-bird price above the tier price", () => {
+    expect(tierConfigError({ ...base, earlyBirdPrice: 1200, earlyBirdEndsAt: later })).toMatch(/above the tier price/);
+  });
+
+  it("rejects a sale window that ends before it starts", () => {
+    expect(tierConfigError({ ...base, salesStartAt: later, salesEndAt: now })).toMatch(/start before/);
+  });
+
+  it("keeps the early-bird quota within the tier quota", () => {
+    expect(tierConfigError({ ...base, quota: 100, earlyBirdPrice: 800, earlyBirdQuota: 150 })).toMatch(/exceed the tier quota/);
+  });
+});
+
+describe("early-bird pricing", () => {
+  const byDate = { price: "1000", earlyBirdPrice: "750", earlyBirdEndsAt: later };
+  const byQuota = { price: "1000", earlyBirdPrice: "750", earlyBirdQuota: 2 };
+
+  it("charges the early-bird price until the cutover date", () => {
+    expect(currentTierPrice(byDate, 0, now)).toEqual({ price: 750, earlyBird: true });
+    expect(currentTierPrice(byDate, 0, later)).toEqual({ price: 1000, earlyBird: false });
+    expect(earlyBirdRemaining(byDate, 500, now)).toBeNull();
+  });
+
+  it("charges the early-bird price until the early-bird quota is sold", () => {
+    expect(earlyBirdRemaining(byQuota, 1, now)).toBe(1);
+    expect(currentTierPrice(byQuota, 2, now)).toEqual({ price: 1000, earlyBird: false });
+  });
+
+  it("splits an order that crosses the early-bird quota", () => {
+    const priced = priceTickets(byQuota, 3, 1, now);
+    expect(priced.map((t) => t.price)).toEqual([750, 1000, 1000]);
+    expect(orderTotal(priced)).toBe(2750);
+  });
+
+  it("uses the full price when there is no early-bird price", () => {
+    expect(currentTierPrice({ price: "499.5" }, 0, now)).toEqual({ price: 499.5, earlyBird: false });
+    expect(earlyBirdRemaining({ price: "499.5" }, 0, now)).toBe(0);
+  });
+});
+
+describe("capacity", () => {
+  const state = { capacityTotal: 100, capacitySeated: 20, activeTotal: 98, activeSeated: 19 };
+
+  it("leaves an unlimited tier bounded only by the event", () => {
+    expect(tierRemaining(null, 40)).toBeNull();
+    expect(tierRemaining(50, 40)).toBe(10);
+    expect(tierRemaining(50, 60)).toBe(0);
+  });
+
+  it("allows admissions up to the event capacity", () => {
+    expect(capacityError(state, { total: 2, seated: 0 })).toBeNull();
+  });
+
+  it("counts guestlist places against the same capacity", () => {
+    expect(capacityError(state, { total: 3, seated: 0 })).toBe("Only 2 places left at this event");
+    expect(capacityError({ ...state, activeTotal: 100 }, { total: 1, seated: 0 })).toBe("This event is at capacity");
+  });
+
+  it("limits reserved tickets to the seated capacity", () => {
+    expect(capacityError(state, { total: 2, seated: 2 })).toBe("Only 1 seat left at this event");
+  });
+
+  it("does not limit events without a capacity", () => {
+    expect(capacityError({ ...state, capacityTotal: null, capacitySeated: null }, { total: 500, seated: 500 })).toBeNull();
+  });
+});
+
+describe("checkInDecision", () => {
+  const valid = { eventId: 7, status: "valid" as const, checkedInAt: null };
+
+  it("admits a valid ticket for the event", () => {
+    expect(checkInDecision(valid, 7).result).toBe("admitted");
+  });
+
+  it("rejects a second scan of the same ticket", () => {
+    const used = { ...valid, status: "used" as const, checkedInAt: new Date("2026-05-20T20:05:00Z") };
+    expect(checkInDecision(used, 7)).toEqual({
+      result: "already_used",
+      message: "Ticket already checked in at 2026-05-20T20:05:00.000Z",
+    });
+  });
+
+  it("rejects unknown codes and tickets for another event", () => {
+    expect(checkInDecision(null, 7).result).toBe("invalid");
+    expect(checkInDecision(valid, 8).result).toBe("invalid");
+  });
+
+  it("rejects unpaid and cancelled tickets", () => {
+    expect(checkInDecision({ ...valid, status: "reserved" }, 7).message).toMatch(/not been paid/);
+    expect(checkInDecision({ ...valid, status: "cancelled" }, 7).message).toMatch(/cancelled/);
+  });
+
+  it("normalizes scanned codes", () => {
+    expect(normalizeTicketCode(" tkt1a2b 3c4d\n")).toBe("TKT1A2B3C4D");
+  });
+});
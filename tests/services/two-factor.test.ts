@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  CODE_LOCKOUT_MS,
+  RECOVERY_CODE_COUNT,
+  STEP_UP_TTL_MS,
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isFresh,
+  isTwoFactorRequired,
+  lockoutMessage,
+  looksLikeTotp,
+  matchTotp,
+  otpauthUrl,
+  totpCode,
+  totpStep,
+} from "../../server/two-factor-utils";
+
+// RFC 6238 appendix B seed ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("base32", () => {
+  it("round-trips bytes", () => {
+    const bytes = Buffer.from("12345678901234567890");
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true);
+  });
+
+  it("accepts the formatting authenticator apps show", () => {
+    expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq").toString()).toBe("12345678901234567890");
+    expect(base32Decode("MZXW6===").toString()).toBe("foo");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("ABC1")).toThrow("Invalid base32 secret");
+  });
+
+  it("generates 160-bit secrets", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(generateTotpSecret());
+  });
+});
+
+describe("TOTP", () => {
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(totpCode(RFC_SECRET, totpStep(new Date(59 * 1000)))).toBe("287082");
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1111111109 * 1000)))).toBe("081804");
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1234567890 * 1000)))).toBe("005924");
+  });
+
+  it("accepts the current step and one either side", () => {
+    const step = totpStep(NOW);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step), null, NOW)).toBe(step);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), null, NOW)).toBe(step - 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), null, NOW)).toBe(step + 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), null, NOW)).toBeNull();
+  });
+
+  it("refuses a step that was already used", () => {
+    const step = totpStep(NOW);
+    const code = totpCode(RFC_SECRET, step);
+    expect(matchTotp(RFC_SECRET, code, step, NOW)).toBeNull();
+    expect(matchTotp(RFC_SECRET, code, step - 1, NOW)).toBe(step);
+  });
+
+  it("ignores spaces and rejects malformed codes", () => {
+    const code = totpCode(RFC_SECRET, totpStep(NOW));
+    expect(matchTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, null, NOW)).toBe(totpStep(NOW));
+    expect(matchTotp(RFC_SECRET, "12345", null, NOW)).toBeNull();
+    expect(matchTotp(RFC_SECRET, "abcdef", null, NOW)).toBeNull();
+  });
+
+  it("builds an otpauth URL for the QR code", () => {
+    const raw = otpauthUrl(RFC_SECRET, "alice@example.com");
+    expect(raw.startsWith("otpauth://totp/BANDWIDTH%3Aalice%40example.com?")).toBe(true);
+    const url = new URL(raw);
+    expect(url.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(url.searchParams.get("issuer")).toBe("BANDWIDTH");
+    expect(url.searchParams.get("digits")).toBe("6");
+  });
+});
+
+describe("recovery codes", () => {
+  it("issues distinct xxxxx-xxxxx codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+  });
+
+  it("hashes codes regardless of case and separators", () => {
+    expect(hashRecoveryCode("ABCDE-FGHJK")).toBe(hashRecoveryCode("abcde fghjk"));
+    expect(hashRecoveryCode("abcde-fghjk")).not.toBe(hashRecoveryCode("abcde-fghjm"));
+    expect(hashRecoveryCode("abcde-fghjk")).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("tells TOTP codes from recovery codes", () => {
+    expect(looksLikeTotp("123456")).toBe(true);
+    expect(looksLikeTotp("123 456")).toBe(true);
+    expect(looksLikeTotp("abcde-fghjk")).toBe(false);
+  });
+});
+
+describe("policy", () => {
+  it("requires two-factor for admin panel roles only", () => {
+    expect(isTwoFactorRequired("admin")).toBe(true);
+    expect(isTwoFactorRequired("platform_admin")).toBe(true);
+    expect(isTwoFactorRequired("staff")).toBe(true);
+    expect(isTwoFactorRequired("artist")).toBe(false);
+    expect(isTwoFactorRequired(null)).toBe(false);
+  });
+
+  it("treats a step-up as fresh for its TTL", () => {
+    const at = NOW.getTime();
+    expect(isFresh(at, STEP_UP_TTL_MS, NOW)).toBe(true);
+    expect(isFresh(at, STEP_UP_TTL_MS, new Date(at + STEP_UP_TTL_MS - 1))).toBe(true);
+    expect(isFresh(at, STEP_UP_TTL_MS, new Date(at + STEP_UP_TTL_MS))).toBe(false);
+    expect(isFresh(at + 1000, STEP_UP_TTL_MS, NOW)).toBe(false);
+    expect(isFresh(undefined, STEP_UP_TTL_MS, NOW)).toBe(false);
+  });
+});
+
+describe("lockout", () => {
+  it("tells the user how long code checks stay locked", () => {
+    expect(lockoutMessage(new Date(NOW.getTime() + CODE_LOCKOUT_MS), NOW)).toBe("Too many incorrect codes. Try again in 15 minutes.");
+    expect(lockoutMessage(new Date(NOW.getTime() + 61_000), NOW)).toBe("Too many incorrect codes. Try again in 2 minutes.");
+    expect(lockoutMessage(new Date(NOW.getTime() + 5_000), NOW)).toBe("Too many incorrect codes. Try again in 1 minute.");
+    expect(lockoutMessage(NOW, NOW)).toBe("Too many incorrect codes. Try again in 1 minute.");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { getUser, sessionUserId, sessionVerifiedAt } = vi.hoisted(() => ({
+  getUser: vi.fn(),
+  sessionUserId: { value: undefined as unknown },
+  sessionVerifiedAt: { value: undefined as number | undefined },
+}));
+
+vi.mock("../../server/db", () => ({
+  db: {},
+}));
+
+vi.mock("../../server/storage", () => ({
+  storage: { getUser },
+}));
+
+// Stand-in for express-session: attaches whatever passport user the test set
+vi.mock("../../server/auth", () => ({
+  getSessionParser: () => (req: any, _res: any, next: () => void) => {
+    req.session = sessionUserId.value === undefined
+      ? {}
+      : { passport: { user: sessionUserId.value }, twoFactorVerifiedAt: sessionVerifiedAt.value };
+    next();
+  },
+}));
+
+import { authenticateUpgrade, isAllowedOrigin, resolveRoomAccess, shouldDeliver } from "../../server/ws-server";
+
+const artist = { userId: 5, role: "artist", isAdmin: false };
+const admin = { userId: 1, role: "admin", isAdmin: true };
+
+describe("authenticateUpgrade", () => {
+  beforeEach(() => {
+    getUser.mockReset();
+    sessionUserId.value = undefined;
+    sessionVerifiedAt.value = undefined;
+  });
+
+  it("rejects upgrades without a logged-in session", async () => {
+    expect(await authenticateUpgrade({ headers: {} } as any)).toBeNull();
+    expect(getUser).not.toHaveBeenCalled();
+  });
+
+  it("resolves the session user and their role", async () => {
+    sessionUserId.value = 1;
+    sessionVerifiedAt.value = Date.now();
+    getUser.mockResolvedValue({ id: 1, status: "active", metadata: { role: "platform_admin" } });
+
+    expect(await authenticateUpgrade({ headers: {} } as any)).toEqual({
+      userId: 1,
+      role: "platform_admin",
+      isAdmin: true,
+    });
+  });
+
+  it("only treats admins as admins once the session has passed two-factor", async () => {
+    sessionUserId.value = 1;
+    getUser.mockResolvedValue({ id: 1, status: "active", metadata: { role: "platform_admin" } });
+
+    expect(await authenticateUpgrade({ headers: {} } as any)).toEqual({
+      userId: 1,
+      role: "platform_admin",
+      isAdmin: false,
+    });
+  });
+
+  it("rejects suspended or deleted users", async () => {
+    sessionUserId.value = 5;
+    getUser.mockResolvedValue({ id: 5, status: "suspended", metadata: { role: "artist" } });
+    expect(await authenticateUpgrade({ headers: {} } as any)).toBeNull();
+
+    getUser.mockResolvedValue({ id: 5, status: "deleted", metadata: { role: "artist" } });
+    expect(await authenticateUpgrade({ headers: {} } as any)).toBeNull();
+
+    getUser.mockResolvedValue(undefined);
+    expect(await authenticateUpgrade({ headers: {} } as any)).toBeNull();
+  });
+});
+
+describe("isAllowedOrigin", () => {
+  const base = "https://bandwidth.example.com";
+
+  it("accepts the app's own origin and clients that send none", () => {
+    expect(isAllowedOrigin("https://bandwidth.example.com", base)).toBe(true);
+    expect(isAllowedOrigin("https://bandwidth.example.com", `${base}/`)).toBe(true);
+    expect(isAllowedOrigin(undefined, base)).toBe(true);
+  });
+
+  it("rejects other sites, schemes and ports", () => {
+    expect(isAllowedOrigin("https://evil.example.com", base)).toBe(false);
+    expect(isAllowedOrigin("http://bandwidth.example.com", base)).toBe(false);
+    expect(isAllowedOrigin("https://bandwidth.example.com:8443", base)).toBe(false);
+    expect(isAllowedOrigin("null", base)).toBe(false);
+  });
+});
+
+describe("resolveRoomAccess", () => {
+  it("lets participants join", () => {
+    expect(resolveRoomAccess(artist, true)).toBe("participant");
+    expect(resolveRoomAccess(admin, true)).toBe("participant");
+  });
+
+  it("gives non-participant admins a read-only monitor seat", () => {
+    expect(resolveRoomAccess(admin, false)).toBe("monitor");
+  });
+
+  it("refuses everyone else", () => {
+    expect(resolveRoomAccess(artist, false)).toBeNull();
+  });
+});
+
+describe("shouldDeliver", () => {
+  it("delivers untargeted payloads to every member", () => {
+    expect(shouldDeliver({ userId: 5, mode: "participant" }, { type: "message" })).toBe(true);
+  });
+
+  it("keeps sender-only payloads away from the other party", () => {
+    const payload = { type: "message", targetUserId: 5 };
+    expect(shouldDeliver({ userId: 5, mode: "participant" }, payload)).toBe(true);
+    expect(shouldDeliver({ userId: 9, mode: "participant" }, payload)).toBe(false);
+    expect(shouldDeliver({ userId: 1, mode: "monitor" }, payload)).toBe(true);
+  });
+});